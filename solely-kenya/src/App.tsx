@@ -48,6 +48,11 @@ const VendorRegistration = lazyRetry(() => import("./pages/VendorRegistration"))
 const Cart = lazyRetry(() => import("./pages/Cart"));
 const Checkout = lazyRetry(() => import("./pages/Checkout"));
 const Orders = lazyRetry(() => import("./pages/Orders"));
+const MyAlerts = lazyRetry(() => import("./pages/MyAlerts"));
+const Wishlist = lazyRetry(() => import("./pages/Wishlist"));
+const SharedWishlist = lazyRetry(() => import("./pages/SharedWishlist"));
+const ShoesLanding = lazyRetry(() => import("./pages/ShoesLanding"));
+const Storefront = lazyRetry(() => import("./pages/Storefront"));
 const Terms = lazyRetry(() => import("./pages/Terms"));
 const PrivacyPolicy = lazyRetry(() => import("./pages/PrivacyPolicy"));
 const VendorDashboard = lazyRetry(() => import("./pages/vendor/VendorDashboard"));
@@ -91,6 +96,8 @@ const AnimatedRoutes = () => {
         <Route path="/" element={<PageWrapper><Home /></PageWrapper>} />
         <Route path="/shop" element={<PageWrapper><Shop /></PageWrapper>} />
         <Route path="/product/:id" element={<PageWrapper><Product /></PageWrapper>} />
+        <Route path="/shoes/*" element={<PageWrapper><ShoesLanding /></PageWrapper>} />
+        <Route path="/store/:slug" element={<PageWrapper><Storefront /></PageWrapper>} />
         <Route path="/about" element={<PageWrapper><About /></PageWrapper>} />
         <Route path="/contact" element={<PageWrapper><Contact /></PageWrapper>} />
         <Route path="/vendor" element={<PageWrapper><Vendor /></PageWrapper>} />
@@ -101,6 +108,10 @@ const AnimatedRoutes = () => {
         <Route path="/checkout" element={<PageWrapper><Checkout /></PageWrapper>} />
         <Route path="/orders" element={<PageWrapper><Orders /></PageWrapper>} />
         <Route path="/orders/:orderId" element={<PageWrapper><Orders /></PageWrapper>} />
+        <Route path="/alerts" element={<PageWrapper><MyAlerts /></PageWrapper>} />
+        <Route path="/saved-searches" element={<PageWrapper><MyAlerts defaultTab="searches" /></PageWrapper>} />
+        <Route path="/wishlist" element={<PageWrapper><Wishlist /></PageWrapper>} />
+        <Route path="/wishlist/shared/:token" element={<PageWrapper><SharedWishlist /></PageWrapper>} />
         <Route path="/terms" element={<PageWrapper><Terms /></PageWrapper>} />
         <Route path="/privacy-policy" element={<PageWrapper><PrivacyPolicy /></PageWrapper>} />
         <Route path="/vendor/dashboard" element={<PageWrapper><VendorDashboard /></PageWrapper>} />
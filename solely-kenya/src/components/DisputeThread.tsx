@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Clock, Lock, Paperclip, Send } from "lucide-react";
+import { describeTimeLeft } from "@/lib/sla";
+import {
+    type DisputeMessage,
+    type DisputeParty,
+    type DisputeSenderRole,
+    fetchDisputeMessages,
+    isDisputeActive,
+    postDisputeMessage,
+    uploadDisputeAttachments,
+} from "@/lib/disputes";
+
+interface DisputeThreadProps {
+    dispute: {
+        id: string;
+        status: string;
+        awaiting_party: DisputeParty | null;
+        response_due_at: string | null;
+    };
+    viewer: "buyer" | "vendor" | "admin";
+    onPosted?: () => void;
+}
+
+const senderLabels: Record<DisputeSenderRole, string> = {
+    buyer: "Buyer",
+    vendor: "Vendor",
+    admin: "Support",
+    system: "Solely",
+};
+
+const isImage = (url: string) => /\.(jpg|jpeg|png|gif|webp)/i.test(url);
+
+/**
+ * The dispute conversation, for whichever side is looking at it. Internal notes
+ * only reach admins (RLS); admins can also ask a party to reply by a deadline.
+ */
+export const DisputeThread = ({ dispute, viewer, onPosted }: DisputeThreadProps) => {
+    const [messages, setMessages] = useState<DisputeMessage[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [body, setBody] = useState("");
+    const [files, setFiles] = useState<File[]>([]);
+    const [internal, setInternal] = useState(false);
+    const [requestFrom, setRequestFrom] = useState<"none" | DisputeParty>("none");
+    const [sending, setSending] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const isAdmin = viewer === "admin";
+    const active = isDisputeActive(dispute.status);
+    const waitingOnViewer = dispute.awaiting_party === viewer;
+    const due = dispute.response_due_at ? describeTimeLeft(new Date(dispute.response_due_at)) : null;
+
+    const loadMessages = useCallback(async () => {
+        setMessages(await fetchDisputeMessages(dispute.id));
+        setLoading(false);
+    }, [dispute.id]);
+
+    useEffect(() => {
+        setLoading(true);
+        loadMessages();
+    }, [loadMessages]);
+
+    const handleSend = async () => {
+        if ((!body.trim() && files.length === 0) || sending) return;
+
+        setSending(true);
+        try {
+            const attachmentUrls = files.length > 0 ? await uploadDisputeAttachments(viewer, dispute.id, files) : [];
+            await postDisputeMessage(dispute.id, body, {
+                attachmentUrls,
+                internal: isAdmin && internal,
+                requestResponseFrom: isAdmin && !internal && requestFrom !== "none" ? requestFrom : null,
+            });
+            setBody("");
+            setFiles([]);
+            setInternal(false);
+            setRequestFrom("none");
+            if (fileInputRef.current) fileInputRef.current.value = "";
+            await loadMessages();
+            onPosted?.();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Message could not be sent");
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            {dispute.awaiting_party && due && active && (
+                <div
+                    className={`flex items-center gap-2 rounded-lg border p-3 text-sm ${
+                        waitingOnViewer ? "border-amber-300 bg-amber-50 text-amber-800 dark:bg-amber-950/20 dark:text-amber-300" : "bg-muted/40 text-muted-foreground"
+                    }`}
+                >
+                    <Clock className="h-4 w-4 shrink-0" />
+                    {waitingOnViewer
+                        ? `Support is waiting for your reply - ${due.overdue ? "the deadline has passed" : due.text}.`
+                        : `Waiting for the ${dispute.awaiting_party} to reply - ${due.overdue ? "overdue" : due.text}.`}
+                </div>
+            )}
+
+            <div className="max-h-96 space-y-3 overflow-y-auto pr-1">
+                {loading ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">Loading conversation...</p>
+                ) : messages.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">No messages yet.</p>
+                ) : (
+                    messages.map((message) => {
+                        if (message.sender_role === "system") {
+                            return (
+                                <p key={message.id} className="text-center text-xs text-muted-foreground whitespace-pre-wrap">
+                                    {message.body} · {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                                </p>
+                            );
+                        }
+
+                        const own = message.sender_role === viewer;
+                        return (
+                            <div key={message.id} className={`flex ${own ? "justify-end" : "justify-start"}`}>
+                                <div
+                                    className={`max-w-[85%] rounded-lg border p-3 ${
+                                        message.internal
+                                            ? "border-amber-300 bg-amber-50 dark:bg-amber-950/20"
+                                            : own
+                                                ? "bg-primary/10 border-primary/20"
+                                                : "bg-muted/40"
+                                    }`}
+                                >
+                                    <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+                                        <span className="font-medium text-foreground">
+                                            {own ? "You" : senderLabels[message.sender_role]}
+                                        </span>
+                                        {message.internal && (
+                                            <Badge variant="outline" className="h-5 gap-1 text-[10px]">
+                                                <Lock className="h-3 w-3" />
+                                                Internal
+                                            </Badge>
+                                        )}
+                                        <span title={format(new Date(message.created_at), "PPp")}>
+                                            {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                                        </span>
+                                    </div>
+                                    {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+                                    {message.attachment_urls?.length > 0 && (
+                                        <div className="mt-2 grid grid-cols-3 gap-2">
+                                            {message.attachment_urls.map((url, idx) => (
+                                                <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="block">
+                                                    {isImage(url) ? (
+                                                        <img
+                                                            src={url}
+                                                            alt={`Attachment ${idx + 1}`}
+                                                            className="h-20 w-full rounded border object-cover hover:border-primary transition-colors"
+                                                        />
+                                                    ) : (
+                                                        <div className="flex h-20 items-center justify-center rounded border bg-muted text-xs hover:bg-muted/80">
+                                                            <Paperclip className="mr-1 h-3 w-3" />
+                                                            File {idx + 1}
+                                                        </div>
+                                                    )}
+                                                </a>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            {active ? (
+                <div className="space-y-3 border-t pt-3">
+                    <Textarea
+                        placeholder={isAdmin ? "Write to the buyer and vendor, or add an internal note..." : "Write a message to support..."}
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        rows={3}
+                        className="resize-none"
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                        <Input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="image/*,application/pdf"
+                            multiple
+                            className="max-w-[220px] text-xs"
+                            onChange={(e) => setFiles(e.target.files ? Array.from(e.target.files) : [])}
+                        />
+                        {isAdmin && (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`internal-${dispute.id}`}
+                                        checked={internal}
+                                        onCheckedChange={(checked) => setInternal(checked === true)}
+                                    />
+                                    <Label htmlFor={`internal-${dispute.id}`} className="text-sm font-normal">
+                                        Internal note
+                                    </Label>
+                                </div>
+                                <Select
+                                    value={requestFrom}
+                                    onValueChange={(v) => setRequestFrom(v as "none" | DisputeParty)}
+                                    disabled={internal}
+                                >
+                                    <SelectTrigger className="w-[190px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="none">No reply needed</SelectItem>
+                                        <SelectItem value="buyer">Ask buyer to reply</SelectItem>
+                                        <SelectItem value="vendor">Ask vendor to reply</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </>
+                        )}
+                        <Button
+                            className="ml-auto"
+                            onClick={handleSend}
+                            disabled={sending || (!body.trim() && files.length === 0)}
+                        >
+                            <Send className="mr-2 h-4 w-4" />
+                            {sending ? "Sending..." : "Send"}
+                        </Button>
+                    </div>
+                </div>
+            ) : (
+                <p className="border-t pt-3 text-center text-xs text-muted-foreground">
+                    This dispute has been settled. The conversation is closed.
+                </p>
+            )}
+        </div>
+    );
+};
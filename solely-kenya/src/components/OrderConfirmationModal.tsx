@@ -19,6 +19,7 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
+import { transitionOrderStatus } from "@/lib/orderStatus";
 import { Star, CheckCircle, AlertTriangle, Upload } from "lucide-react";
 
 interface OrderItem {
@@ -248,12 +249,10 @@ export const OrderConfirmationModal = ({
             }
 
             // 2. Update order status to disputed
-            const { error: orderError } = await supabase
-                .from("orders")
-                .update({ status: "disputed" })
-                .eq("id", orderId);
-
-            if (orderError) throw orderError;
+            await transitionOrderStatus(orderId, "disputed", {
+                reason: issueDescription,
+                metadata: { dispute_id: disputeData?.id },
+            });
 
             // 3. Update escrow to withheld
             const { error: escrowError } = await supabase
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RotateCcw } from "lucide-react";
+import {
+    type OrderReturn,
+    type ReturnAction,
+    fetchReturnCode,
+    manageOrderReturn,
+    returnReasons,
+    returnStatusLabels,
+} from "@/lib/returns";
+
+interface OrderReturnPanelProps {
+    orderReturn: OrderReturn;
+    role: "buyer" | "vendor";
+    itemName?: string;
+    onChanged: () => void;
+}
+
+/**
+ * Status and next step of a return, for whichever side is looking at it.
+ * Codes: the vendor holds the return-leg code, the buyer holds the exchange-leg code.
+ */
+export const OrderReturnPanel = ({ orderReturn: ret, role, itemName, onChanged }: OrderReturnPanelProps) => {
+    const [response, setResponse] = useState("");
+    const [courier, setCourier] = useState("");
+    const [trackingNumber, setTrackingNumber] = useState("");
+    const [otp, setOtp] = useState("");
+    const [code, setCode] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const isBuyer = role === "buyer";
+    const heldLeg = isBuyer ? "exchange" : "return";
+    const showsCode = (isBuyer && ret.status === "exchange_shipped") || (!isBuyer && ret.status === "return_shipped");
+
+    useEffect(() => {
+        setCode(null);
+        if (showsCode) {
+            fetchReturnCode(ret.id, heldLeg).then(setCode);
+        }
+    }, [ret.id, ret.status, showsCode, heldLeg]);
+
+    const run = async (body: ReturnAction, success: string) => {
+        setBusy(true);
+        try {
+            await manageOrderReturn(body);
+            toast.success(success);
+            setOtp("");
+            onChanged();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Could not update the return");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const reasonLabel = returnReasons.find((r) => r.value === ret.reason)?.label ?? ret.reason;
+    const target = [ret.requested_size && `Size ${ret.requested_size}`, ret.requested_color].filter(Boolean).join(" • ");
+
+    return (
+        <div className="bg-amber-50 dark:bg-amber-950/20 p-4 rounded-lg border border-amber-200 dark:border-amber-800 space-y-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-semibold">
+                    <RotateCcw className="h-4 w-4" />
+                    {ret.return_type === "exchange" ? "Exchange" : "Return for refund"}
+                </div>
+                <Badge variant="outline">{returnStatusLabels[ret.status]}</Badge>
+            </div>
+
+            <div className="space-y-1">
+                <p>
+                    {ret.quantity} × {itemName ?? "item"}
+                    {ret.return_type === "exchange" && target && <> → <strong>{target}</strong></>}
+                </p>
+                <p className="text-muted-foreground">
+                    {reasonLabel} • requested {formatDistanceToNow(new Date(ret.created_at), { addSuffix: true })}
+                </p>
+                {ret.details && <p className="text-muted-foreground italic">"{ret.details}"</p>}
+                {ret.photo_urls && ret.photo_urls.length > 0 && (
+                    <div className="flex gap-2 flex-wrap pt-1">
+                        {ret.photo_urls.map((url) => (
+                            <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                <img src={url} alt="Return photo" className="h-14 w-14 object-cover rounded border" />
+                            </a>
+                        ))}
+                    </div>
+                )}
+                {ret.vendor_response && (
+                    <p><span className="font-medium">Vendor:</span> {ret.vendor_response}</p>
+                )}
+                {ret.return_courier && (
+                    <p className="text-muted-foreground">
+                        Return sent via {ret.return_courier}{ret.return_tracking_number && ` • Tracking ${ret.return_tracking_number}`}
+                    </p>
+                )}
+                {ret.exchange_courier && (
+                    <p className="text-muted-foreground">
+                        Replacement sent via {ret.exchange_courier}{ret.exchange_tracking_number && ` • Tracking ${ret.exchange_tracking_number}`}
+                    </p>
+                )}
+            </div>
+
+            {code && (
+                <div className="bg-white dark:bg-background p-3 rounded-lg text-center">
+                    <p className="text-xs text-muted-foreground mb-1">
+                        {isBuyer ? "Your exchange code - share it when the replacement arrives" : "Your return code - share it when the item reaches you"}
+                    </p>
+                    <p className="text-2xl font-mono font-bold tracking-widest">{code}</p>
+                </div>
+            )}
+
+            {/* Vendor decides */}
+            {!isBuyer && ret.status === "requested" && (
+                <div className="space-y-2">
+                    <Textarea
+                        value={response}
+                        onChange={(e) => setResponse(e.target.value)}
+                        rows={2}
+                        className="resize-none bg-background"
+                        placeholder="Message to the buyer (required to decline)"
+                    />
+                    <div className="flex gap-2">
+                        <Button
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => run({ action: "respond", returnId: ret.id, accept: true, response: response.trim() || undefined }, "Return accepted")}
+                        >
+                            Accept
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy || !response.trim()}
+                            onClick={() => run({ action: "respond", returnId: ret.id, accept: false, response: response.trim() }, "Return declined")}
+                        >
+                            Decline
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {/* Shipment forms: buyer sends the item back, vendor sends the replacement */}
+            {((isBuyer && ret.status === "accepted") || (!isBuyer && ret.status === "return_received" && ret.return_type === "exchange")) && (
+                <div className="space-y-2">
+                    <p className="font-medium">
+                        {isBuyer ? "Send the item back to the vendor" : "Send the replacement to the buyer"}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input
+                            value={courier}
+                            onChange={(e) => setCourier(e.target.value)}
+                            placeholder="Courier / method"
+                            className="bg-background"
+                        />
+                        <Input
+                            value={trackingNumber}
+                            onChange={(e) => setTrackingNumber(e.target.value)}
+                            placeholder="Tracking number (optional)"
+                            className="bg-background"
+                        />
+                    </div>
+                    <Button
+                        size="sm"
+                        disabled={busy || !courier.trim()}
+                        onClick={() => run(
+                            { action: isBuyer ? "ship_return" : "ship_exchange", returnId: ret.id, courier, trackingNumber },
+                            isBuyer ? "Return marked as sent" : "Replacement marked as sent"
+                        )}
+                    >
+                        Mark as Sent
+                    </Button>
+                </div>
+            )}
+
+            {/* Handover: buyer enters the vendor's return code; vendor enters the buyer's exchange code */}
+            {((isBuyer && ret.status === "return_shipped") || (!isBuyer && ret.status === "exchange_shipped")) && (
+                <div className="space-y-2">
+                    <p className="text-muted-foreground">
+                        {isBuyer
+                            ? "When the vendor receives the item, enter the code they give you."
+                            : "When the buyer receives the replacement, enter the code they give you."}
+                    </p>
+                    <div className="flex gap-2">
+                        <Input
+                            value={otp}
+                            onChange={(e) => setOtp(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                            placeholder="6-digit code"
+                            inputMode="numeric"
+                            className="bg-background w-32 font-mono"
+                        />
+                        <Button
+                            size="sm"
+                            disabled={busy || otp.length !== 6}
+                            onClick={() => run(
+                                { action: isBuyer ? "confirm_return" : "confirm_exchange", returnId: ret.id, otp } as ReturnAction,
+                                isBuyer ? "Return handed over" : "Exchange complete - payment released"
+                            )}
+                        >
+                            Confirm
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {!isBuyer && (ret.status === "return_shipped" || (ret.status === "return_received" && ret.return_type === "refund")) && (
+                <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => run(
+                        { action: "confirm_return", returnId: ret.id },
+                        ret.return_type === "refund" ? "Return received - buyer refunded" : "Return received"
+                    )}
+                >
+                    {ret.status === "return_shipped" ? "Mark Return Received" : "Retry Refund"}
+                </Button>
+            )}
+
+            {isBuyer && (ret.status === "requested" || ret.status === "accepted") && (
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() => run({ action: "cancel", returnId: ret.id }, "Return cancelled")}
+                >
+                    Cancel Return
+                </Button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ChevronDown, History } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { type OrderActor, type OrderEvent, describeOrderEvent, orderActorLabels, sortOrderEvents } from "@/lib/orderStatus";
+
+interface OrderTimelineProps {
+    events: OrderEvent[] | null | undefined;
+    placedAt: string;
+    viewer: "buyer" | "vendor";
+}
+
+/**
+ * Status history of an order from order_events, oldest first.
+ * Orders from before the history was kept only have their backfilled milestones.
+ */
+export const OrderTimeline = ({ events, placedAt, viewer }: OrderTimelineProps) => {
+    const [open, setOpen] = useState(false);
+    const sorted = sortOrderEvents(events);
+
+    // The insert event stands in for "placed"; backfilled orders don't have one
+    const entries = sorted[0]?.from_status === null && !sorted[0].metadata?.backfilled
+        ? sorted
+        : [null, ...sorted];
+
+    const actorLabel = (actor: OrderActor) => (actor === viewer ? "You" : orderActorLabels[actor]);
+
+    return (
+        <Collapsible open={open} onOpenChange={setOpen}>
+            <CollapsibleTrigger className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+                <History className="h-4 w-4" />
+                Order history
+                <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+                <ol className="mt-3 ml-2 border-l border-border space-y-3">
+                    {entries.map((event, index) => {
+                        const isLatest = index === entries.length - 1;
+                        return (
+                            <li key={event?.id ?? "placed"} className="relative pl-4">
+                                <span
+                                    className={`absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full ${isLatest ? "bg-primary" : "bg-muted-foreground/40"}`}
+                                />
+                                {event ? (
+                                    <>
+                                        <p className={`text-sm ${isLatest ? "font-medium" : ""}`}>{describeOrderEvent(event)}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {format(new Date(event.created_at), "d MMM yyyy, HH:mm")}
+                                            {!event.metadata?.backfilled && ` · ${actorLabel(event.actor_role)}`}
+                                        </p>
+                                        {event.reason && <p className="text-xs text-muted-foreground mt-0.5">{event.reason}</p>}
+                                    </>
+                                ) : (
+                                    <>
+                                        <p className={`text-sm ${isLatest ? "font-medium" : ""}`}>Order placed</p>
+                                        <p className="text-xs text-muted-foreground">{format(new Date(placedAt), "d MMM yyyy, HH:mm")}</p>
+                                    </>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+};
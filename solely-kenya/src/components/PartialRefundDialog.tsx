@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    type PartialRefundRequest,
+    type RefundableOrder,
+    partialRefundTotal,
+    remainingQuantity,
+    remainingRefundable,
+} from "@/lib/refunds";
+
+interface PartialRefundDialogProps {
+    order: RefundableOrder | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSubmit: (request: PartialRefundRequest, reason: string) => Promise<void>;
+    title?: string;
+    description?: string;
+    submitLabel?: string;
+    /** Ask for a reason (vendors); admins give resolution notes elsewhere */
+    requireReason?: boolean;
+}
+
+/**
+ * Pick the items, delivery fee and/or an extra amount to refund on one order.
+ * The parent performs the refund so it can show its own toasts.
+ */
+export const PartialRefundDialog = ({
+    order,
+    open,
+    onOpenChange,
+    onSubmit,
+    title = "Partial Refund",
+    description = "Refund selected items, the delivery fee or a custom amount. The rest stays with the vendor.",
+    submitLabel = "Refund",
+    requireReason = false,
+}: PartialRefundDialogProps) => {
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [refundDeliveryFee, setRefundDeliveryFee] = useState(false);
+    const [amount, setAmount] = useState("");
+    const [reason, setReason] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            setQuantities({});
+            setRefundDeliveryFee(false);
+            setAmount("");
+            setReason("");
+        }
+    }, [open, order?.id]);
+
+    if (!order) return null;
+
+    const request: PartialRefundRequest = {
+        items: Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        refundDeliveryFee,
+        amount: Number(amount) || 0,
+    };
+    const total = partialRefundTotal(order, request);
+    const remaining = remainingRefundable(order);
+    const shippingFee = Number(order.shipping_fee_ksh ?? 0);
+    const invalid = total <= 0 || total > remaining || (requireReason && !reason.trim());
+
+    const handleSubmit = async () => {
+        setSubmitting(true);
+        try {
+            await onSubmit(request, reason.trim());
+            onOpenChange(false);
+        } catch {
+            // The parent has shown the error; keep the dialog open to adjust and retry
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>{description}</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-3">
+                        <Label className="text-sm font-medium">Items</Label>
+                        {order.order_items.map((item) => {
+                            const left = remainingQuantity(item);
+                            return (
+                                <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                                    <div className="min-w-0">
+                                        <p className="font-medium truncate">{item.product_name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {[item.size && `Size ${item.size}`, item.color].filter(Boolean).join(" • ")}
+                                            {(item.size || item.color) && " • "}
+                                            KES {Number(item.unit_price_ksh).toLocaleString()} each
+                                            {left < item.quantity && ` • ${item.quantity - left} already refunded`}
+                                        </p>
+                                    </div>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        max={left}
+                                        disabled={left === 0}
+                                        value={quantities[item.id] ?? 0}
+                                        onChange={(e) => setQuantities({
+                                            ...quantities,
+                                            [item.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), left),
+                                        })}
+                                        className="w-20"
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {shippingFee > 0 && (
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="refund-delivery-fee"
+                                checked={refundDeliveryFee}
+                                disabled={!!order.delivery_fee_refunded}
+                                onCheckedChange={(checked) => setRefundDeliveryFee(checked === true)}
+                            />
+                            <Label htmlFor="refund-delivery-fee" className="text-sm font-normal">
+                                Delivery fee (KES {shippingFee.toLocaleString()})
+                                {order.delivery_fee_refunded && " — already refunded"}
+                            </Label>
+                        </div>
+                    )}
+
+                    <div>
+                        <Label htmlFor="refund-amount" className="text-sm font-medium">Additional amount (KES)</Label>
+                        <Input
+                            id="refund-amount"
+                            type="number"
+                            min={0}
+                            placeholder="0"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            className="mt-1"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                            E.g. a price adjustment. Commission is reduced in proportion.
+                        </p>
+                    </div>
+
+                    {requireReason && (
+                        <div>
+                            <Label htmlFor="refund-reason" className="text-sm font-medium">Reason</Label>
+                            <Textarea
+                                id="refund-reason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                rows={2}
+                                className="mt-1 resize-none"
+                                placeholder="Why is this being refunded?"
+                            />
+                        </div>
+                    )}
+
+                    <div className="bg-muted p-3 rounded-lg text-sm flex justify-between">
+                        <span>Refund total</span>
+                        <span className={`font-bold ${total > remaining ? "text-red-600" : ""}`}>
+                            KES {total.toLocaleString()} <span className="font-normal text-muted-foreground">of {remaining.toLocaleString()} left</span>
+                        </span>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                        Cancel
+                    </Button>
+                    <Button variant="destructive" onClick={handleSubmit} disabled={submitting || invalid}>
+                        {submitting ? "Processing..." : `${submitLabel} KES ${total.toLocaleString()}`}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
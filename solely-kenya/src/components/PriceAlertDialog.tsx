@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { type PriceAlert, savePriceAlert } from "@/lib/priceAlerts";
+
+interface PriceAlertDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    userId: string;
+    productId: string;
+    productName: string;
+    currentPrice: number;
+    /** Existing alert to change */
+    alert?: Pick<PriceAlert, "target_price"> | null;
+    onSaved?: (alert: PriceAlert) => void;
+}
+
+/** Choose between "any drop" and a target price for a product's price alert */
+export const PriceAlertDialog = ({
+    open,
+    onOpenChange,
+    userId,
+    productId,
+    productName,
+    currentPrice,
+    alert,
+    onSaved,
+}: PriceAlertDialogProps) => {
+    const [mode, setMode] = useState<"any" | "target">("any");
+    const [target, setTarget] = useState("");
+    const [saving, setSaving] = useState(false);
+
+    const existingTarget = alert?.target_price ?? null;
+
+    useEffect(() => {
+        if (!open) return;
+        setMode(existingTarget ? "target" : "any");
+        setTarget(existingTarget ? String(existingTarget) : String(Math.floor(currentPrice * 0.9)));
+    }, [open, existingTarget, currentPrice]);
+
+    const targetPrice = parseInt(target, 10);
+    const targetInvalid = mode === "target" && (!Number.isFinite(targetPrice) || targetPrice <= 0 || targetPrice >= currentPrice);
+
+    const handleSave = async () => {
+        if (targetInvalid) return;
+        setSaving(true);
+        try {
+            const saved = await savePriceAlert(userId, productId, currentPrice, mode === "target" ? targetPrice : null);
+            toast.success(mode === "target"
+                ? `We'll let you know when it's KES ${targetPrice.toLocaleString()} or less`
+                : "You'll be notified when the price drops!");
+            onSaved?.(saved);
+            onOpenChange(false);
+        } catch (error) {
+            console.error("Failed to save price alert", error);
+            toast.error("Failed to set price alert");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Price Alert</DialogTitle>
+                    <DialogDescription>
+                        {productName} is KES {currentPrice.toLocaleString()} now. We'll send a push notification and an email.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <RadioGroup value={mode} onValueChange={(value) => setMode(value as "any" | "target")} className="space-y-2">
+                    <Label htmlFor="price-alert-any" className="flex items-center gap-2 border rounded-lg p-3 cursor-pointer font-normal">
+                        <RadioGroupItem value="any" id="price-alert-any" />
+                        Any price drop
+                    </Label>
+                    <Label htmlFor="price-alert-target" className="flex items-center gap-2 border rounded-lg p-3 cursor-pointer font-normal">
+                        <RadioGroupItem value="target" id="price-alert-target" />
+                        When it reaches my price
+                    </Label>
+                </RadioGroup>
+
+                {mode === "target" && (
+                    <div>
+                        <Label htmlFor="price-alert-amount" className="text-sm font-medium">Target price (KES)</Label>
+                        <Input
+                            id="price-alert-amount"
+                            type="number"
+                            min={1}
+                            max={currentPrice - 1}
+                            value={target}
+                            onChange={(e) => setTarget(e.target.value)}
+                            className="mt-1"
+                        />
+                        {targetInvalid && (
+                            <p className="text-sm text-destructive mt-1">
+                                Enter a price below KES {currentPrice.toLocaleString()}.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving || targetInvalid}>
+                        {saving ? "Saving..." : "Save Alert"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
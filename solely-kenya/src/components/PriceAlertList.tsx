@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Bell, Pencil, TrendingDown, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PriceAlertDialog } from "@/components/PriceAlertDialog";
+import {
+    type PriceAlertWithProduct,
+    deletePriceAlert,
+    describePriceAlert,
+    fetchPriceAlerts,
+} from "@/lib/priceAlerts";
+
+interface PriceAlertListProps {
+    userId: string;
+}
+
+/** The signed-in buyer's price alerts: current price vs. baseline/target, change and remove */
+export const PriceAlertList = ({ userId }: PriceAlertListProps) => {
+    const [alerts, setAlerts] = useState<PriceAlertWithProduct[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState<PriceAlertWithProduct | null>(null);
+
+    useEffect(() => {
+        loadAlerts();
+    }, []);
+
+    const loadAlerts = async () => {
+        try {
+            setAlerts(await fetchPriceAlerts());
+        } catch (error) {
+            console.error("Failed to load price alerts", error);
+            toast.error("Failed to load price alerts");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const removeAlert = async (alert: PriceAlertWithProduct) => {
+        try {
+            await deletePriceAlert(alert.id);
+            setAlerts((current) => current.filter((a) => a.id !== alert.id));
+            toast.success("Price alert removed");
+        } catch (error) {
+            console.error("Failed to remove price alert", error);
+            toast.error("Failed to remove price alert");
+        }
+    };
+
+    if (loading) {
+        return <p className="text-center text-muted-foreground py-12">Loading price alerts...</p>;
+    }
+
+    if (alerts.length === 0) {
+        return (
+            <Card>
+                <CardContent className="py-12 text-center">
+                    <TrendingDown className="h-10 w-10 mx-auto text-muted-foreground mb-4" />
+                    <p className="font-medium mb-1">No price alerts yet</p>
+                    <p className="text-sm text-muted-foreground mb-6">
+                        Tap "Notify me on price drop" on any product and we'll tell you when it gets cheaper.
+                    </p>
+                    <Button asChild>
+                        <Link to="/shop">Browse the Shop</Link>
+                    </Button>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <>
+            <div className="space-y-4">
+                {alerts.map((alert) => {
+                    const product = alert.products;
+                    const available = product?.status === "active";
+                    return (
+                        <Card key={alert.id} className={alert.is_active && available ? undefined : "opacity-70"}>
+                            <CardContent className="p-4 flex gap-4 items-center">
+                                <Link to={`/product/${alert.product_id}`} className="shrink-0">
+                                    <img
+                                        src={product?.images?.[0] || "/placeholder.svg"}
+                                        alt={product?.name ?? "Product"}
+                                        className="h-16 w-16 sm:h-20 sm:w-20 rounded-lg object-cover"
+                                    />
+                                </Link>
+                                <div className="flex-1 min-w-0">
+                                    <Link to={`/product/${alert.product_id}`} className="font-semibold hover:underline line-clamp-1">
+                                        {product?.name ?? "Product no longer available"}
+                                    </Link>
+                                    <p className="text-sm">
+                                        Now <span className="font-semibold">KES {Number(product?.price_ksh ?? 0).toLocaleString()}</span>
+                                    </p>
+                                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                                        <span className="flex items-center gap-1">
+                                            <Bell className="h-3 w-3" />
+                                            {describePriceAlert(alert)}
+                                        </span>
+                                        {!alert.is_active && <Badge variant="secondary">Target reached</Badge>}
+                                        {!available && product && <Badge variant="secondary">Unavailable</Badge>}
+                                        {alert.notified_at && alert.last_notified_price !== null && (
+                                            <span>
+                                                Last alert: KES {Number(alert.last_notified_price).toLocaleString()},{" "}
+                                                {formatDistanceToNow(new Date(alert.notified_at), { addSuffix: true })}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-2 shrink-0">
+                                    {product && available && (
+                                        <Button size="sm" variant="outline" onClick={() => setEditing(alert)} aria-label="Change price alert">
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                    <Button size="sm" variant="outline" onClick={() => removeAlert(alert)} aria-label="Remove price alert">
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    );
+                })}
+            </div>
+
+            {editing?.products && (
+                <PriceAlertDialog
+                    open={!!editing}
+                    onOpenChange={(open) => !open && setEditing(null)}
+                    userId={userId}
+                    productId={editing.product_id}
+                    productName={editing.products.name}
+                    currentPrice={Number(editing.products.price_ksh)}
+                    alert={editing.is_active ? editing : null}
+                    onSaved={(saved) => setAlerts((current) => current.map((a) => (a.id === saved.id ? { ...a, ...saved } : a)))}
+                />
+            )}
+        </>
+    );
+};
@@ -1,6 +1,5 @@
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import {
     Sheet,
     SheetContent,
@@ -11,9 +10,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Star, TrendingDown, ArrowRight, Loader2 } from "lucide-react";
 import { motion } from "framer-motion";
+import { type ComparableListing, fetchComparableListings } from "@/lib/catalog";
 
 interface CompareProduct {
-    id: number;
+    id: number | string;
     name: string;
     price_ksh: number;
     images: string[];
@@ -24,6 +24,7 @@ interface CompareProduct {
     averageRating?: number | null;
     reviewCount?: number;
     store_name?: string;
+    colorway_name?: string;
     isCurrent?: boolean;
 }
 
@@ -31,15 +32,22 @@ interface PriceCompareModalProps {
     open: boolean;
     onClose: () => void;
     currentProduct: {
-        id: number;
+        id: number | string;
         name: string;
         price_ksh: number;
         brand?: string;
         category?: string;
+        condition?: string;
         images?: string[];
     };
 }
 
+type ListingGroup = {
+    match: ComparableListing["match"];
+    title: string;
+    listings: CompareProduct[];
+};
+
 const conditionLabel: Record<string, { label: string; color: string }> = {
     new: { label: "Mint", color: "bg-green-500" },
     like_new: { label: "Like New", color: "bg-blue-500" },
@@ -48,72 +56,18 @@ const conditionLabel: Record<string, { label: string; color: string }> = {
 };
 
 export const PriceCompareModal = ({ open, onClose, currentProduct }: PriceCompareModalProps) => {
-    const [listings, setListings] = useState<CompareProduct[]>([]);
+    const [listings, setListings] = useState<ComparableListing[]>([]);
     const [loading, setLoading] = useState(false);
 
     useEffect(() => {
         if (open) fetchListings();
     }, [open]);
 
+    // Same model (and colorway) first, then the same brand for listings not linked to a model
     const fetchListings = async () => {
         setLoading(true);
         try {
-            let query = supabase
-                .from("products")
-                .select("*")
-                .eq("status", "active")
-                .neq("id", currentProduct.id);
-
-            if (currentProduct.brand) query = query.eq("brand", currentProduct.brand);
-            else if (currentProduct.category) query = query.eq("category", currentProduct.category);
-
-            const { data: productsData, error } = await query.limit(12);
-            if (error) throw error;
-
-            if (!productsData || productsData.length === 0) {
-                setListings([]);
-                setLoading(false);
-                return;
-            }
-
-            // Reviews
-            const productIds = productsData.map((p) => p.id);
-            const { data: reviewsData } = await supabase
-                .from("reviews")
-                .select("product_id, rating")
-                .in("product_id", productIds);
-
-            const stats: Record<string, { sum: number; count: number }> = {};
-            (reviewsData || []).forEach((r) => {
-                if (!stats[r.product_id]) stats[r.product_id] = { sum: 0, count: 0 };
-                stats[r.product_id].sum += r.rating;
-                stats[r.product_id].count += 1;
-            });
-
-            // Store names
-            const vendorIds = [...new Set(productsData.map((p) => p.vendor_id))];
-            const { data: profilesData } = await supabase
-                .from("profiles")
-                .select("id, store_name")
-                .in("id", vendorIds);
-
-            const storeMap: Record<string, string> = {};
-            (profilesData || []).forEach((p) => {
-                if (p.store_name) storeMap[p.id] = p.store_name;
-            });
-
-            const processed: CompareProduct[] = productsData.map((p) => {
-                const pStat = stats[p.id];
-                return {
-                    ...p,
-                    averageRating: pStat ? pStat.sum / pStat.count : null,
-                    reviewCount: pStat ? pStat.count : 0,
-                    store_name: storeMap[p.vendor_id] || "Seller",
-                };
-            });
-
-            processed.sort((a, b) => a.price_ksh - b.price_ksh);
-            setListings(processed);
+            setListings(await fetchComparableListings(String(currentProduct.id)));
         } catch (err) {
             console.error("Error fetching compare listings:", err);
         } finally {
@@ -121,21 +75,57 @@ export const PriceCompareModal = ({ open, onClose, currentProduct }: PriceCompar
         }
     };
 
-    // Merge current product into sorted list
-    const allListings: CompareProduct[] = [
-        ...listings,
-        {
-            id: currentProduct.id,
-            name: currentProduct.name,
-            price_ksh: currentProduct.price_ksh,
-            images: currentProduct.images ?? [],
-            brand: currentProduct.brand,
-            condition: "new",
-            isCurrent: true,
-        },
-    ].sort((a, b) => a.price_ksh - b.price_ksh);
+    const modelName = listings.find((l) => l.match !== "similar")?.model_name;
+    const colorwayName = listings.find((l) => l.match === "colorway")?.colorway_name;
+
+    const toCompareProduct = (l: ComparableListing): CompareProduct => ({
+        id: l.id,
+        name: l.name,
+        price_ksh: l.price_ksh,
+        images: l.images ?? [],
+        brand: l.brand ?? undefined,
+        condition: l.condition,
+        sizes: l.sizes ?? undefined,
+        vendor_id: l.vendor_id,
+        averageRating: l.average_rating != null ? Number(l.average_rating) : null,
+        reviewCount: l.review_count,
+        store_name: l.store_name || "Seller",
+        colorway_name: l.colorway_name ?? undefined,
+    });
+
+    const current: CompareProduct = {
+        id: currentProduct.id,
+        name: currentProduct.name,
+        price_ksh: currentProduct.price_ksh,
+        images: currentProduct.images ?? [],
+        brand: currentProduct.brand,
+        condition: currentProduct.condition || "new",
+        isCurrent: true,
+    };
+
+    const groupTitles: Record<ListingGroup["match"], string> = {
+        colorway: colorwayName ? `Same colorway · ${colorwayName}` : "Same colorway",
+        model: colorwayName ? `Other ${modelName} colorways` : `${currentProduct.brand ?? ""} ${modelName ?? ""}`.trim(),
+        similar: currentProduct.brand ? `More from ${currentProduct.brand}` : "Similar listings",
+    };
+
+    // The current listing is ranked within the closest group
+    const groups: ListingGroup[] = (["colorway", "model", "similar"] as const)
+        .map((match) => ({
+            match,
+            title: groupTitles[match],
+            listings: listings.filter((l) => l.match === match).map(toCompareProduct),
+        }))
+        .filter((group) => group.listings.length > 0);
+    if (groups.length > 0) groups[0].listings.push(current);
+    groups.forEach((group) => group.listings.sort((a, b) => a.price_ksh - b.price_ksh));
 
-    const lowestPrice = allListings.length > 0 ? Math.min(...allListings.map((p) => p.price_ksh)) : 0;
+    const allListings = groups.flatMap((group) => group.listings);
+
+    // "Lowest" only among the same shoe when there are model matches
+    const sameShoe = groups.filter((group) => group.match !== "similar").flatMap((group) => group.listings);
+    const priced = sameShoe.length > 1 ? sameShoe : allListings;
+    const lowestPrice = priced.length > 0 ? Math.min(...priced.map((p) => p.price_ksh)) : 0;
 
     return (
         <Sheet open={open} onOpenChange={onClose}>
@@ -151,9 +141,11 @@ export const PriceCompareModal = ({ open, onClose, currentProduct }: PriceCompar
                         Compare Prices
                     </SheetTitle>
                     <p className="text-xs text-muted-foreground">
-                        {currentProduct.brand
-                            ? `Other ${currentProduct.brand} listings on Sole-ly`
-                            : "Similar listings on Sole-ly"}{" "}
+                        {modelName
+                            ? `Other ${currentProduct.brand ?? ""} ${modelName} listings on Sole-ly`
+                            : currentProduct.brand
+                                ? `Other ${currentProduct.brand} listings on Sole-ly`
+                                : "Similar listings on Sole-ly"}{" "}
                         — sorted by lowest price
                     </p>
                 </SheetHeader>
@@ -168,140 +160,154 @@ export const PriceCompareModal = ({ open, onClose, currentProduct }: PriceCompar
                     ) : allListings.length <= 1 ? (
                         <div className="text-center py-16">
                             <p className="text-muted-foreground text-sm">
-                                No other listings found for this brand/category.
+                                No other listings found for this model or brand.
                             </p>
                         </div>
                     ) : (
-                        allListings.map((listing, index) => {
-                            const cond = conditionLabel[listing.condition] || conditionLabel.new;
-                            const isLowest = listing.price_ksh === lowestPrice;
-                            const priceDiff = listing.isCurrent ? 0 : listing.price_ksh - currentProduct.price_ksh;
+                        groups.map((group) => (
+                            <section key={group.match} className="space-y-3">
+                                {groups.length > 1 && (
+                                    <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground px-1 pt-1">
+                                        {group.title}
+                                    </h3>
+                                )}
+                                {group.listings.map((listing, index) => {
+                                    const cond = conditionLabel[listing.condition] || conditionLabel.new;
+                                    const isLowest = priced.includes(listing) && listing.price_ksh === lowestPrice;
+                                    const priceDiff = listing.isCurrent ? 0 : listing.price_ksh - currentProduct.price_ksh;
 
-                            return (
-                                <motion.div
-                                    key={listing.id}
-                                    initial={{ opacity: 0, y: 10 }}
-                                    animate={{ opacity: 1, y: 0 }}
-                                    transition={{ delay: index * 0.04 }}
-                                    className={`rounded-2xl border-2 transition-all ${listing.isCurrent
-                                        ? "border-primary bg-primary/5"
-                                        : isLowest
-                                            ? "border-green-500/50 bg-green-500/5"
-                                            : "border-border bg-card"
-                                        }`}
-                                >
-                                    <div className="flex items-center gap-3 p-3">
-                                        {/* Rank */}
-                                        <span
-                                            className={`text-sm font-bold w-6 text-center shrink-0 ${index === 0 ? "text-green-500" : "text-muted-foreground"
+                                    return (
+                                        <motion.div
+                                            key={listing.id}
+                                            initial={{ opacity: 0, y: 10 }}
+                                            animate={{ opacity: 1, y: 0 }}
+                                            transition={{ delay: index * 0.04 }}
+                                            className={`rounded-2xl border-2 transition-all ${listing.isCurrent
+                                                ? "border-primary bg-primary/5"
+                                                : isLowest
+                                                    ? "border-green-500/50 bg-green-500/5"
+                                                    : "border-border bg-card"
                                                 }`}
                                         >
-                                            #{index + 1}
-                                        </span>
+                                            <div className="flex items-center gap-3 p-3">
+                                                {/* Rank */}
+                                                <span
+                                                    className={`text-sm font-bold w-6 text-center shrink-0 ${index === 0 ? "text-green-500" : "text-muted-foreground"
+                                                        }`}
+                                                >
+                                                    #{index + 1}
+                                                </span>
 
-                                        {/* Image */}
-                                        <div className="w-[72px] h-[72px] shrink-0 rounded-xl overflow-hidden bg-muted border border-border">
-                                            {listing.images?.[0] ? (
-                                                <img
-                                                    src={listing.images[0]}
-                                                    alt={listing.name}
-                                                    className="w-full h-full object-cover"
-                                                />
-                                            ) : (
-                                                <div className="w-full h-full flex items-center justify-center text-2xl">
-                                                    👟
+                                                {/* Image */}
+                                                <div className="w-[72px] h-[72px] shrink-0 rounded-xl overflow-hidden bg-muted border border-border">
+                                                    {listing.images?.[0] ? (
+                                                        <img
+                                                            src={listing.images[0]}
+                                                            alt={listing.name}
+                                                            className="w-full h-full object-cover"
+                                                        />
+                                                    ) : (
+                                                        <div className="w-full h-full flex items-center justify-center text-2xl">
+                                                            👟
+                                                        </div>
+                                                    )}
                                                 </div>
-                                            )}
-                                        </div>
 
-                                        {/* Info */}
-                                        <div className="flex-1 min-w-0">
-                                            {/* Badges row */}
-                                            <div className="flex items-center gap-1 flex-wrap mb-1">
-                                                {listing.isCurrent && (
-                                                    <Badge variant="default" className="text-[10px] h-4 px-1.5 py-0">
-                                                        This listing
-                                                    </Badge>
-                                                )}
-                                                {isLowest && !listing.isCurrent && (
-                                                    <Badge className="text-[10px] h-4 px-1.5 py-0 bg-green-500 text-white">
-                                                        Lowest
-                                                    </Badge>
-                                                )}
-                                                <Badge variant="secondary" className="text-[10px] h-4 px-1.5 py-0">
-                                                    <span className={`w-1.5 h-1.5 rounded-full mr-1 inline-block ${cond.color}`} />
-                                                    {cond.label}
-                                                </Badge>
-                                            </div>
-
-                                            {/* Name */}
-                                            <p className="text-sm font-semibold leading-snug line-clamp-1">
-                                                {listing.name}
-                                            </p>
+                                                {/* Info */}
+                                                <div className="flex-1 min-w-0">
+                                                    {/* Badges row */}
+                                                    <div className="flex items-center gap-1 flex-wrap mb-1">
+                                                        {listing.isCurrent && (
+                                                            <Badge variant="default" className="text-[10px] h-4 px-1.5 py-0">
+                                                                This listing
+                                                            </Badge>
+                                                        )}
+                                                        {isLowest && !listing.isCurrent && (
+                                                            <Badge className="text-[10px] h-4 px-1.5 py-0 bg-green-500 text-white">
+                                                                Lowest
+                                                            </Badge>
+                                                        )}
+                                                        <Badge variant="secondary" className="text-[10px] h-4 px-1.5 py-0">
+                                                            <span className={`w-1.5 h-1.5 rounded-full mr-1 inline-block ${cond.color}`} />
+                                                            {cond.label}
+                                                        </Badge>
+                                                    </div>
 
-                                            {/* Seller */}
-                                            {listing.store_name && !listing.isCurrent && (
-                                                <p className="text-xs text-muted-foreground leading-none mt-0.5">
-                                                    by {listing.store_name}
-                                                </p>
-                                            )}
-
-                                            {/* Price row */}
-                                            <div className="flex items-center justify-between gap-2 mt-2 flex-wrap">
-                                                <div>
-                                                    <p
-                                                        className={`text-sm font-bold leading-none ${isLowest
-                                                            ? "text-green-600 dark:text-green-400"
-                                                            : listing.isCurrent
-                                                                ? "text-primary"
-                                                                : ""
-                                                            }`}
-                                                    >
-                                                        KES {listing.price_ksh.toLocaleString()}
+                                                    {/* Name */}
+                                                    <p className="text-sm font-semibold leading-snug line-clamp-1">
+                                                        {listing.name}
                                                     </p>
-                                                    {!listing.isCurrent && priceDiff !== 0 && (
-                                                        <p
-                                                            className={`text-xs mt-0.5 ${priceDiff < 0
-                                                                ? "text-green-600 dark:text-green-400"
-                                                                : "text-muted-foreground"
-                                                                }`}
-                                                        >
-                                                            {priceDiff < 0
-                                                                ? `${Math.abs(priceDiff).toLocaleString()} cheaper`
-                                                                : `${priceDiff.toLocaleString()} more`}
+                                                    {group.match === "model" && listing.colorway_name && (
+                                                        <p className="text-xs text-muted-foreground leading-none mt-0.5">
+                                                            {listing.colorway_name}
                                                         </p>
                                                     )}
-                                                </div>
 
-                                                {!listing.isCurrent && (
-                                                    <Button
-                                                        asChild
-                                                        size="sm"
-                                                        variant={isLowest ? "default" : "outline"}
-                                                        className="h-8 px-3 text-xs rounded-xl"
-                                                        onClick={onClose}
-                                                    >
-                                                        <Link to={`/product/${listing.id}`}>
-                                                            View <ArrowRight className="h-3 w-3 ml-1" />
-                                                        </Link>
-                                                    </Button>
-                                                )}
-                                            </div>
+                                                    {/* Seller */}
+                                                    {listing.store_name && !listing.isCurrent && (
+                                                        <p className="text-xs text-muted-foreground leading-none mt-0.5">
+                                                            by {listing.store_name}
+                                                        </p>
+                                                    )}
+
+                                                    {/* Price row */}
+                                                    <div className="flex items-center justify-between gap-2 mt-2 flex-wrap">
+                                                        <div>
+                                                            <p
+                                                                className={`text-sm font-bold leading-none ${isLowest
+                                                                    ? "text-green-600 dark:text-green-400"
+                                                                    : listing.isCurrent
+                                                                        ? "text-primary"
+                                                                        : ""
+                                                                    }`}
+                                                            >
+                                                                KES {listing.price_ksh.toLocaleString()}
+                                                            </p>
+                                                            {!listing.isCurrent && priceDiff !== 0 && (
+                                                                <p
+                                                                    className={`text-xs mt-0.5 ${priceDiff < 0
+                                                                        ? "text-green-600 dark:text-green-400"
+                                                                        : "text-muted-foreground"
+                                                                        }`}
+                                                                >
+                                                                    {priceDiff < 0
+                                                                        ? `${Math.abs(priceDiff).toLocaleString()} cheaper`
+                                                                        : `${priceDiff.toLocaleString()} more`}
+                                                                </p>
+                                                            )}
+                                                        </div>
 
-                                            {/* Rating */}
-                                            {listing.reviewCount != null && listing.reviewCount > 0 && listing.averageRating && (
-                                                <div className="flex items-center gap-1 mt-1">
-                                                    <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
-                                                    <span className="text-xs text-muted-foreground">
-                                                        {listing.averageRating.toFixed(1)} ({listing.reviewCount})
-                                                    </span>
+                                                        {!listing.isCurrent && (
+                                                            <Button
+                                                                asChild
+                                                                size="sm"
+                                                                variant={isLowest ? "default" : "outline"}
+                                                                className="h-8 px-3 text-xs rounded-xl"
+                                                                onClick={onClose}
+                                                            >
+                                                                <Link to={`/product/${listing.id}`}>
+                                                                    View <ArrowRight className="h-3 w-3 ml-1" />
+                                                                </Link>
+                                                            </Button>
+                                                        )}
+                                                    </div>
+
+                                                    {/* Rating */}
+                                                    {listing.reviewCount != null && listing.reviewCount > 0 && listing.averageRating && (
+                                                        <div className="flex items-center gap-1 mt-1">
+                                                            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                                                            <span className="text-xs text-muted-foreground">
+                                                                {listing.averageRating.toFixed(1)} ({listing.reviewCount})
+                                                            </span>
+                                                        </div>
+                                                    )}
                                                 </div>
-                                            )}
-                                        </div>
-                                    </div>
-                                </motion.div>
-                            );
-                        })
+                                            </div>
+                                        </motion.div>
+                                    );
+                                })}
+                            </section>
+                        ))
                     )}
                 </div>
 
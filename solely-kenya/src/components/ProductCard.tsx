@@ -5,11 +5,13 @@ import { Card, CardContent, CardFooter } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Star, Play } from "lucide-react";
 import { motion } from "framer-motion";
+import { WishlistButton } from "./WishlistButton";
+import { SellerBadge } from "./SellerBadge";
 import { LazyLoadImage } from 'react-lazy-load-image-component';
 import 'react-lazy-load-image-component/src/effects/blur.css';
 
 interface ProductCardProps {
-  id: number;
+  id: string | number;
   name: string;
   price: number;
   image: string;
@@ -19,6 +21,7 @@ interface ProductCardProps {
   createdAt: string;
   condition?: "new" | "like_new" | "good" | "fair";
   videoUrl?: string | null;
+  sellerBadge?: string | null;
 }
 
 const conditionLabels: Record<string, { label: string; color: string }> = {
@@ -38,7 +41,8 @@ const ProductCard = ({
   reviewCount = 0,
   createdAt,
   condition = "new",
-  videoUrl
+  videoUrl,
+  sellerBadge
 }: ProductCardProps) => {
   const conditionInfo = conditionLabels[condition] || conditionLabels.new;
   const [isHovering, setIsHovering] = useState(false);
@@ -144,8 +148,12 @@ const ProductCard = ({
               {conditionInfo.label}
             </Badge>
 
-            {/* Video Badge - Top Right area */}
-            <div className="absolute top-3 right-3 flex flex-col gap-1">
+            {/* Seller Badge - Bottom Left */}
+            <SellerBadge badge={sellerBadge} className="absolute bottom-3 left-3" />
+
+            {/* Wishlist heart and Video Badge - Top Right area */}
+            <div className="absolute top-3 right-3 flex flex-col items-end gap-1">
+              <WishlistButton productId={String(id)} />
               {/* {isNew && (
                 <Badge className="bg-accent text-accent-foreground">New Arrival</Badge>
               )} */}
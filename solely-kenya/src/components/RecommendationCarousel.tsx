@@ -0,0 +1,65 @@
+import { Link } from "react-router-dom";
+import { ChevronRight } from "lucide-react";
+import { Swiper, SwiperSlide } from "swiper/react";
+import { FreeMode, Navigation } from "swiper/modules";
+import "swiper/css";
+import "swiper/css/free-mode";
+import "swiper/css/navigation";
+import ProductCard from "@/components/ProductCard";
+import type { RecommendedProduct } from "@/lib/recommendations";
+
+interface RecommendationCarouselProps {
+    title: string;
+    products: RecommendedProduct[];
+    viewAllUrl?: string;
+}
+
+/** A titled row of product cards on the product page */
+export const RecommendationCarousel = ({ title, products, viewAllUrl }: RecommendationCarouselProps) => {
+    if (products.length === 0) return null;
+
+    return (
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 border-t border-border mt-8">
+            <div className="flex items-center justify-between mb-5 sm:mb-6">
+                <h2 className="text-xl sm:text-2xl font-bold">{title}</h2>
+                {viewAllUrl && (
+                    <Link to={viewAllUrl} className="text-sm font-semibold text-primary hover:underline flex items-center gap-1">
+                        View All <ChevronRight className="h-4 w-4" />
+                    </Link>
+                )}
+            </div>
+            <div className="relative group">
+                <Swiper
+                    modules={[Navigation, FreeMode]}
+                    spaceBetween={12}
+                    slidesPerView={2}
+                    navigation
+                    freeMode={true}
+                    breakpoints={{
+                        640: { slidesPerView: 2, spaceBetween: 16 },
+                        768: { slidesPerView: 3, spaceBetween: 20 },
+                        1024: { slidesPerView: 4, spaceBetween: 24 },
+                    }}
+                    className="pb-6 !px-1 select-none"
+                >
+                    {products.map((product) => (
+                        <SwiperSlide key={product.id} className="h-auto py-1">
+                            <ProductCard
+                                id={product.id}
+                                name={product.name}
+                                price={product.price_ksh}
+                                image={product.images?.[0] || "/placeholder.svg"}
+                                brand={product.brand ?? undefined}
+                                averageRating={product.average_rating !== null ? Number(product.average_rating) : null}
+                                reviewCount={product.review_count}
+                                createdAt={product.created_at}
+                                condition={product.condition ?? "new"}
+                                videoUrl={product.video_url}
+                            />
+                        </SwiperSlide>
+                    ))}
+                </Swiper>
+            </div>
+        </div>
+    );
+};
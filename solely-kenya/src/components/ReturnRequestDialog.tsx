@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { compressImages } from "@/lib/compressImage";
+import { type ProductVariant, fetchProductVariants } from "@/lib/variants";
+import {
+    type ReturnReason,
+    type ReturnType,
+    manageOrderReturn,
+    returnReasons,
+    uploadReturnPhotos,
+} from "@/lib/returns";
+
+interface ReturnableItem {
+    id: string;
+    product_id: string | null;
+    product_name: string;
+    quantity: number;
+    refunded_quantity?: number | null;
+    variant_id?: string | null;
+    size?: string | null;
+    color?: string | null;
+}
+
+interface ReturnRequestDialogProps {
+    orderId: string;
+    customerId: string;
+    items: ReturnableItem[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSubmitted: () => void;
+}
+
+const MAX_PHOTOS = 4;
+
+const variantLabel = (v: Pick<ProductVariant, "size" | "color">) =>
+    [v.size && `Size ${v.size}`, v.color].filter(Boolean).join(" • ");
+
+/**
+ * Buyer asks to return an item for a refund or swap it for another size/color.
+ * The vendor has to accept before anything is sent back.
+ */
+export const ReturnRequestDialog = ({
+    orderId,
+    customerId,
+    items,
+    open,
+    onOpenChange,
+    onSubmitted,
+}: ReturnRequestDialogProps) => {
+    const returnable = items.filter((i) => i.quantity - (i.refunded_quantity ?? 0) > 0);
+    const firstReturnableId = returnable[0]?.id ?? "";
+
+    const [itemId, setItemId] = useState("");
+    const [returnType, setReturnType] = useState<ReturnType>("exchange");
+    const [reason, setReason] = useState<ReturnReason>("wrong_size");
+    const [variantId, setVariantId] = useState("");
+    const [quantity, setQuantity] = useState(1);
+    const [details, setDetails] = useState("");
+    const [photos, setPhotos] = useState<File[]>([]);
+    const [variants, setVariants] = useState<ProductVariant[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+
+    const item = returnable.find((i) => i.id === itemId);
+    const maxQuantity = item ? item.quantity - (item.refunded_quantity ?? 0) : 1;
+    const exchangeOptions = variants.filter((v) => v.id !== item?.variant_id && v.stock >= quantity);
+
+    useEffect(() => {
+        if (open) {
+            setItemId(firstReturnableId);
+            setReturnType("exchange");
+            setReason("wrong_size");
+            setVariantId("");
+            setQuantity(1);
+            setDetails("");
+            setPhotos([]);
+        }
+    }, [open, orderId, firstReturnableId]);
+
+    useEffect(() => {
+        setVariantId("");
+        setVariants([]);
+        if (item?.product_id) {
+            fetchProductVariants(item.product_id).then(setVariants);
+        }
+    }, [item?.product_id, item?.id]);
+
+    const handlePhotos = (fileList: FileList | null) => {
+        if (!fileList) return;
+        const files = Array.from(fileList).slice(0, MAX_PHOTOS - photos.length);
+        setPhotos([...photos, ...files]);
+    };
+
+    const invalid = !item || (returnType === "exchange" && !variantId) || (reason !== "wrong_size" && !details.trim());
+
+    const handleSubmit = async () => {
+        if (!item) return;
+        setSubmitting(true);
+        try {
+            const photoUrls = photos.length > 0
+                ? await uploadReturnPhotos(customerId, orderId, await compressImages(photos))
+                : [];
+
+            await manageOrderReturn({
+                action: "request",
+                orderId,
+                orderItemId: item.id,
+                returnType,
+                reason,
+                details: details.trim() || undefined,
+                photoUrls,
+                quantity,
+                variantId: returnType === "exchange" ? variantId : undefined,
+            });
+
+            toast.success("Return requested. The vendor will review it shortly.");
+            onOpenChange(false);
+            onSubmitted();
+        } catch (error) {
+            console.error("Return request failed", error);
+            toast.error(error instanceof Error ? error.message : "Could not request a return");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Return or Exchange</DialogTitle>
+                    <DialogDescription>
+                        Your payment stays protected in escrow until the exchange or refund is complete.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    {returnable.length > 1 && (
+                        <div>
+                            <Label className="text-sm font-medium">Item</Label>
+                            <Select value={itemId} onValueChange={setItemId}>
+                                <SelectTrigger className="mt-1">
+                                    <SelectValue placeholder="Choose an item" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {returnable.map((i) => (
+                                        <SelectItem key={i.id} value={i.id}>
+                                            {i.product_name}{(i.size || i.color) && ` (${variantLabel({ size: i.size || "", color: i.color || "" })})`}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <RadioGroup
+                        value={returnType}
+                        onValueChange={(value) => setReturnType(value as ReturnType)}
+                        className="grid grid-cols-2 gap-2"
+                    >
+                        <Label htmlFor="return-exchange" className="flex items-center gap-2 border rounded-lg p-3 cursor-pointer font-normal">
+                            <RadioGroupItem value="exchange" id="return-exchange" />
+                            Exchange for another size
+                        </Label>
+                        <Label htmlFor="return-refund" className="flex items-center gap-2 border rounded-lg p-3 cursor-pointer font-normal">
+                            <RadioGroupItem value="refund" id="return-refund" />
+                            Return for a refund
+                        </Label>
+                    </RadioGroup>
+
+                    {returnType === "exchange" && (
+                        <div>
+                            <Label className="text-sm font-medium">New size</Label>
+                            {exchangeOptions.length > 0 ? (
+                                <Select value={variantId} onValueChange={setVariantId}>
+                                    <SelectTrigger className="mt-1">
+                                        <SelectValue placeholder="Choose a size" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {exchangeOptions.map((v) => (
+                                            <SelectItem key={v.id} value={v.id}>
+                                                {variantLabel(v)} — {v.stock} in stock
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            ) : (
+                                <p className="text-sm text-muted-foreground mt-1">
+                                    No other sizes are in stock right now. You can return it for a refund instead.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {maxQuantity > 1 && (
+                        <div>
+                            <Label htmlFor="return-quantity" className="text-sm font-medium">Quantity</Label>
+                            <Input
+                                id="return-quantity"
+                                type="number"
+                                min={1}
+                                max={maxQuantity}
+                                value={quantity}
+                                onChange={(e) => setQuantity(Math.min(Math.max(parseInt(e.target.value) || 1, 1), maxQuantity))}
+                                className="mt-1 w-24"
+                            />
+                        </div>
+                    )}
+
+                    <div>
+                        <Label className="text-sm font-medium">Reason</Label>
+                        <Select value={reason} onValueChange={(value) => setReason(value as ReturnReason)}>
+                            <SelectTrigger className="mt-1">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {returnReasons.map((r) => (
+                                    <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div>
+                        <Label htmlFor="return-details" className="text-sm font-medium">
+                            Details {reason === "wrong_size" && <span className="text-muted-foreground font-normal">(optional)</span>}
+                        </Label>
+                        <Textarea
+                            id="return-details"
+                            value={details}
+                            onChange={(e) => setDetails(e.target.value)}
+                            rows={3}
+                            className="mt-1 resize-none"
+                            placeholder="E.g. the shoes are half a size too small"
+                        />
+                    </div>
+
+                    <div>
+                        <Label htmlFor="return-photos" className="text-sm font-medium">Photos (up to {MAX_PHOTOS})</Label>
+                        <Input
+                            id="return-photos"
+                            type="file"
+                            accept="image/*"
+                            multiple
+                            disabled={photos.length >= MAX_PHOTOS}
+                            onChange={(e) => handlePhotos(e.target.files)}
+                            className="mt-1"
+                        />
+                        {photos.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                                {photos.map((file, index) => (
+                                    <button
+                                        key={`${file.name}-${index}`}
+                                        type="button"
+                                        className="text-xs bg-muted px-2 py-1 rounded"
+                                        onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                                    >
+                                        {file.name} ✕
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={submitting || invalid}>
+                        {submitting ? "Submitting..." : "Request Return"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
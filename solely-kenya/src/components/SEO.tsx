@@ -19,6 +19,11 @@ interface BreadcrumbItem {
     url: string;
 }
 
+interface ItemListEntry {
+    name: string;
+    url: string;
+}
+
 interface SEOProps {
     title: string;
     description: string;
@@ -32,6 +37,9 @@ interface SEOProps {
     canonical?: string;
     price?: number;
     keywords?: string[];
+    // Listing pages: ItemList schema, and noindex for thin or over-filtered pages
+    itemList?: ItemListEntry[];
+    noindex?: boolean;
 }
 
 const SITE_NAME = "Solely Kenya";
@@ -57,6 +65,8 @@ export const SEO = ({
     canonical,
     price,
     keywords = [],
+    itemList,
+    noindex = false,
 }: SEOProps) => {
     const currentUrl = url || (typeof window !== 'undefined' ? window.location.href : SITE_URL);
 
@@ -214,6 +224,20 @@ export const SEO = ({
         }))
     } : null;
 
+    // ItemList schema (landing pages)
+    const itemListSchema = itemList && itemList.length > 0 ? {
+        "@context": "https://schema.org",
+        "@type": "ItemList",
+        "name": title,
+        "url": canonicalUrl,
+        "itemListElement": itemList.map((item, index) => ({
+            "@type": "ListItem",
+            "position": index + 1,
+            "name": item.name,
+            "url": item.url.startsWith('http') ? item.url : `${SITE_URL}${item.url}`
+        }))
+    } : null;
+
     return (
         <Helmet>
             {/* Standard metadata */}
@@ -221,6 +245,7 @@ export const SEO = ({
             <meta name="description" content={description} />
             {keywords.length > 0 && <meta name="keywords" content={keywords.join(', ')} />}
             <link rel="canonical" href={canonicalUrl} />
+            {noindex && <meta name="robots" content="noindex, follow" />}
 
             {/* Open Graph / Facebook */}
             <meta property="og:type" content={product ? "product" : type} />
@@ -270,6 +295,12 @@ export const SEO = ({
                     {JSON.stringify(breadcrumbSchema)}
                 </script>
             )}
+
+            {itemListSchema && (
+                <script type="application/ld+json">
+                    {JSON.stringify(itemListSchema)}
+                </script>
+            )}
         </Helmet>
     );
 };
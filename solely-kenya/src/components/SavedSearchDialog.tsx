@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { CATEGORIES } from "@/lib/categories";
+import {
+    type SavedSearch,
+    type SavedSearchFields,
+    createSavedSearch,
+    describeSavedSearch,
+    hasSavedSearchFilters,
+    updateSavedSearch,
+} from "@/lib/savedSearches";
+
+interface SavedSearchDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Filters to start from: the current Shop filters, or the search being edited */
+    fields: SavedSearchFields;
+    /** Edit this saved search instead of creating a new one */
+    savedSearch?: SavedSearch;
+    onSaved?: (savedSearch: SavedSearch) => void;
+}
+
+const toNumberOrNull = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * Name a set of Shop filters and choose how to be alerted about new matches.
+ * Used to save from the Shop and to edit from the Saved Searches page.
+ */
+export const SavedSearchDialog = ({ open, onOpenChange, fields, savedSearch, onSaved }: SavedSearchDialogProps) => {
+    const [name, setName] = useState("");
+    const [query, setQuery] = useState("");
+    const [brand, setBrand] = useState("");
+    const [category, setCategory] = useState("all");
+    const [size, setSize] = useState("");
+    const [condition, setCondition] = useState("all");
+    const [minPrice, setMinPrice] = useState("");
+    const [maxPrice, setMaxPrice] = useState("");
+    const [notifyPush, setNotifyPush] = useState(true);
+    const [notifyEmail, setNotifyEmail] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const navigate = useNavigate();
+
+    // The Shop builds `fields` on every render; key it by value so the form is only
+    // reset when the filters themselves change
+    const fieldsKey = JSON.stringify(fields);
+    const initialFields = useMemo(() => JSON.parse(fieldsKey) as SavedSearchFields, [fieldsKey]);
+
+    const resetForm = useCallback(() => {
+        setName(savedSearch?.name ?? describeSavedSearch(initialFields).replace(/"/g, "").slice(0, 80));
+        setQuery(initialFields.query ?? "");
+        setBrand(initialFields.brand ?? "");
+        setCategory(initialFields.category ?? "all");
+        setSize(initialFields.size ?? "");
+        setCondition(initialFields.condition ?? "all");
+        setMinPrice(initialFields.min_price !== null ? String(initialFields.min_price) : "");
+        setMaxPrice(initialFields.max_price !== null ? String(initialFields.max_price) : "");
+        setNotifyPush(savedSearch?.notify_push ?? true);
+        setNotifyEmail(savedSearch?.notify_email ?? true);
+    }, [initialFields, savedSearch]);
+
+    // Start from the given filters each time the dialog opens
+    useEffect(() => {
+        if (open) resetForm();
+    }, [open, resetForm]);
+
+    const edited: SavedSearchFields = {
+        query: query.trim() || null,
+        brand: brand.trim().toLowerCase() || null,
+        category: category !== "all" ? category : null,
+        size: category !== "accessories" ? size.trim() || null : null,
+        condition: condition !== "all" ? condition : null,
+        accessory_type: category === "accessories" ? fields.accessory_type : null,
+        min_price: toNumberOrNull(minPrice),
+        max_price: toNumberOrNull(maxPrice),
+    };
+
+    const priceInvalid = edited.min_price !== null && edited.max_price !== null && edited.min_price > edited.max_price;
+    const invalid = !name.trim() || !hasSavedSearchFilters(edited) || priceInvalid;
+
+    const handleSave = async () => {
+        if (invalid) return;
+        setSaving(true);
+        try {
+            const result = savedSearch
+                ? await updateSavedSearch(savedSearch.id, {
+                    name: name.trim(),
+                    notify_push: notifyPush,
+                    notify_email: notifyEmail,
+                    ...edited,
+                })
+                : await createSavedSearch(name, edited, { notify_push: notifyPush, notify_email: notifyEmail });
+
+            if (savedSearch) {
+                toast.success("Saved search updated");
+            } else {
+                toast.success("Search saved. We'll let you know when new matches are listed.", {
+                    action: { label: "Manage", onClick: () => navigate("/alerts?tab=searches") },
+                });
+            }
+            onSaved?.(result);
+            onOpenChange(false);
+        } catch (error) {
+            console.error("Failed to save search", error);
+            toast.error(error instanceof Error ? error.message : "Could not save this search");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{savedSearch ? "Edit Saved Search" : "Save This Search"}</DialogTitle>
+                    <DialogDescription>
+                        Get an alert as soon as a new listing matches these filters.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div>
+                        <Label htmlFor="saved-search-name" className="text-sm font-medium">Name</Label>
+                        <Input
+                            id="saved-search-name"
+                            value={name}
+                            maxLength={80}
+                            onChange={(e) => setName(e.target.value)}
+                            className="mt-1"
+                            placeholder="E.g. Jordan 4s in my size"
+                        />
+                    </div>
+
+                    <div>
+                        <Label htmlFor="saved-search-query" className="text-sm font-medium">Search words</Label>
+                        <Input
+                            id="saved-search-query"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            className="mt-1"
+                            placeholder="E.g. jordan 4"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label htmlFor="saved-search-brand" className="text-sm font-medium">Brand</Label>
+                            <Input
+                                id="saved-search-brand"
+                                value={brand}
+                                onChange={(e) => setBrand(e.target.value)}
+                                className="mt-1"
+                                placeholder="Any"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-sm font-medium">Category</Label>
+                            <Select value={category} onValueChange={setCategory}>
+                                <SelectTrigger className="mt-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">Any</SelectItem>
+                                    {CATEGORIES.map((c) => (
+                                        <SelectItem key={c.key} value={c.key}>{c.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {category !== "accessories" && (
+                            <div>
+                                <Label htmlFor="saved-search-size" className="text-sm font-medium">Size (EU)</Label>
+                                <Input
+                                    id="saved-search-size"
+                                    value={size}
+                                    onChange={(e) => setSize(e.target.value)}
+                                    className="mt-1"
+                                    placeholder="Any"
+                                />
+                            </div>
+                        )}
+                        <div>
+                            <Label className="text-sm font-medium">Condition</Label>
+                            <Select value={condition} onValueChange={setCondition}>
+                                <SelectTrigger className="mt-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">Any</SelectItem>
+                                    <SelectItem value="new">Mint</SelectItem>
+                                    <SelectItem value="like_new">Like New</SelectItem>
+                                    <SelectItem value="good">Good</SelectItem>
+                                    <SelectItem value="fair">Fair</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div>
+                            <Label htmlFor="saved-search-min" className="text-sm font-medium">Min price (KES)</Label>
+                            <Input
+                                id="saved-search-min"
+                                type="number"
+                                min={0}
+                                value={minPrice}
+                                onChange={(e) => setMinPrice(e.target.value)}
+                                className="mt-1"
+                                placeholder="Any"
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="saved-search-max" className="text-sm font-medium">Max price (KES)</Label>
+                            <Input
+                                id="saved-search-max"
+                                type="number"
+                                min={0}
+                                value={maxPrice}
+                                onChange={(e) => setMaxPrice(e.target.value)}
+                                className="mt-1"
+                                placeholder="Any"
+                            />
+                        </div>
+                    </div>
+                    {priceInvalid && <p className="text-sm text-destructive">Min price is above max price.</p>}
+                    {!hasSavedSearchFilters(edited) && (
+                        <p className="text-sm text-muted-foreground">Add at least one filter so alerts stay relevant.</p>
+                    )}
+
+                    <div className="space-y-3 border rounded-lg p-3">
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="saved-search-push" className="font-normal">Push notifications</Label>
+                            <Switch id="saved-search-push" checked={notifyPush} onCheckedChange={setNotifyPush} />
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="saved-search-email" className="font-normal">Email</Label>
+                            <Switch id="saved-search-email" checked={notifyEmail} onCheckedChange={setNotifyEmail} />
+                        </div>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving || invalid}>
+                        {saving ? "Saving..." : savedSearch ? "Save Changes" : "Save Search"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Bell, BellOff, Mail, Pencil, Search, Smartphone, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SavedSearchDialog } from "@/components/SavedSearchDialog";
+import {
+    type SavedSearch,
+    MAX_SAVED_SEARCHES,
+    deleteSavedSearch,
+    describeSavedSearch,
+    fetchSavedSearchAlertCounts,
+    fetchSavedSearches,
+    savedSearchUrl,
+    updateSavedSearch,
+} from "@/lib/savedSearches";
+
+/** The signed-in buyer's saved searches with alert switches, edit and delete */
+export const SavedSearchList = () => {
+    const [searches, setSearches] = useState<SavedSearch[]>([]);
+    const [alertCounts, setAlertCounts] = useState<Record<string, number>>({});
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState<SavedSearch | null>(null);
+    const [deleting, setDeleting] = useState<SavedSearch | null>(null);
+
+    useEffect(() => {
+        loadSearches();
+    }, []);
+
+    const loadSearches = async () => {
+        try {
+            const data = await fetchSavedSearches();
+            setSearches(data);
+            setAlertCounts(await fetchSavedSearchAlertCounts(data.map((s) => s.id)));
+        } catch (error) {
+            console.error("Failed to load saved searches", error);
+            toast.error("Failed to load saved searches");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const replaceSearch = (updated: SavedSearch) => {
+        setSearches((current) => current.map((s) => (s.id === updated.id ? updated : s)));
+    };
+
+    const toggle = async (search: SavedSearch, updates: Partial<Pick<SavedSearch, "is_active" | "notify_push" | "notify_email">>) => {
+        replaceSearch({ ...search, ...updates });
+        try {
+            replaceSearch(await updateSavedSearch(search.id, updates));
+        } catch (error) {
+            console.error("Failed to update saved search", error);
+            toast.error("Could not update this saved search");
+            replaceSearch(search);
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!deleting) return;
+        const target = deleting;
+        setDeleting(null);
+        try {
+            await deleteSavedSearch(target.id);
+            setSearches((current) => current.filter((s) => s.id !== target.id));
+            toast.success("Saved search deleted");
+        } catch (error) {
+            console.error("Failed to delete saved search", error);
+            toast.error("Could not delete this saved search");
+        }
+    };
+
+    if (loading) {
+        return <p className="text-center text-muted-foreground py-12">Loading saved searches...</p>;
+    }
+
+    return (
+        <>
+            <p className="text-sm text-muted-foreground mb-4">
+                We check new listings every 30 minutes and alert you when something matches.
+                You can keep up to {MAX_SAVED_SEARCHES} saved searches.
+            </p>
+
+            {searches.length === 0 ? (
+                <Card>
+                    <CardContent className="py-12 text-center">
+                        <Bell className="h-10 w-10 mx-auto text-muted-foreground mb-4" />
+                        <p className="font-medium mb-1">No saved searches yet</p>
+                        <p className="text-sm text-muted-foreground mb-6">
+                            Filter the shop for the pair you're after and tap "Save Search" to hear about new listings first.
+                        </p>
+                        <Button asChild>
+                            <Link to="/shop">
+                                <Search className="h-4 w-4 mr-2" />
+                                Browse the Shop
+                            </Link>
+                        </Button>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="space-y-4">
+                    {searches.map((search) => (
+                        <Card key={search.id} className={search.is_active ? undefined : "opacity-70"}>
+                            <CardContent className="p-4 sm:p-6">
+                                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <h2 className="font-semibold text-lg truncate">{search.name}</h2>
+                                            {!search.is_active && <Badge variant="secondary">Paused</Badge>}
+                                        </div>
+                                        <p className="text-sm text-muted-foreground mt-1">{describeSavedSearch(search)}</p>
+                                        <p className="text-xs text-muted-foreground mt-2">
+                                            {alertCounts[search.id] ? `${alertCounts[search.id]} new listings sent` : "No matches yet"}
+                                            {search.last_notified_at && ` · last alert ${formatDistanceToNow(new Date(search.last_notified_at), { addSuffix: true })}`}
+                                        </p>
+                                    </div>
+
+                                    <div className="flex gap-2 shrink-0">
+                                        <Button size="sm" variant="outline" asChild>
+                                            <Link to={savedSearchUrl(search)}>
+                                                <Search className="h-4 w-4 mr-2" />
+                                                View
+                                            </Link>
+                                        </Button>
+                                        <Button size="sm" variant="outline" onClick={() => setEditing(search)} aria-label="Edit saved search">
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button size="sm" variant="outline" onClick={() => setDeleting(search)} aria-label="Delete saved search">
+                                            <Trash2 className="h-4 w-4 text-destructive" />
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap gap-x-6 gap-y-3 mt-4 pt-4 border-t text-sm">
+                                    <label className="flex items-center gap-2">
+                                        <Switch
+                                            checked={search.is_active}
+                                            onCheckedChange={(checked) => toggle(search, { is_active: checked })}
+                                        />
+                                        {search.is_active ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                                        Alerts
+                                    </label>
+                                    <label className="flex items-center gap-2">
+                                        <Switch
+                                            checked={search.notify_push}
+                                            disabled={!search.is_active}
+                                            onCheckedChange={(checked) => toggle(search, { notify_push: checked })}
+                                        />
+                                        <Smartphone className="h-4 w-4" />
+                                        Push
+                                    </label>
+                                    <label className="flex items-center gap-2">
+                                        <Switch
+                                            checked={search.notify_email}
+                                            disabled={!search.is_active}
+                                            onCheckedChange={(checked) => toggle(search, { notify_email: checked })}
+                                        />
+                                        <Mail className="h-4 w-4" />
+                                        Email
+                                    </label>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            )}
+
+            {editing && (
+                <SavedSearchDialog
+                    open={!!editing}
+                    onOpenChange={(open) => !open && setEditing(null)}
+                    fields={editing}
+                    savedSearch={editing}
+                    onSaved={replaceSearch}
+                />
+            )}
+
+            <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete saved search?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            You'll stop getting alerts for "{deleting?.name}".
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+};
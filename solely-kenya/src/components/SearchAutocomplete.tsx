@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Clock, Search, Sparkles, Tag, LayoutGrid } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { saveSearch } from "@/lib/searchHistory";
+import { type SearchSuggestion, type SuggestionType, fetchSearchSuggestions, shopSearchUrl } from "@/lib/search";
+
+interface SearchAutocompleteProps {
+    value: string;
+    onChange: (value: string) => void;
+    /** Called instead of navigating when the typed query is submitted (e.g. Shop filters in place) */
+    onSubmitQuery?: (query: string) => void;
+    placeholder?: string;
+    className?: string;
+    inputClassName?: string;
+}
+
+const suggestionIcons: Record<SuggestionType, typeof Search> = {
+    correction: Sparkles,
+    recent: Clock,
+    brand: Tag,
+    category: LayoutGrid,
+    product: Search,
+};
+
+const suggestionHints: Record<SuggestionType, string> = {
+    correction: "Did you mean",
+    recent: "Recent",
+    brand: "Brand",
+    category: "Category",
+    product: "",
+};
+
+/**
+ * Search input with a suggestions dropdown (recent searches, brands, categories,
+ * products and spelling corrections). Choosing a suggestion navigates straight to
+ * the filtered Shop URL or the product page.
+ */
+export const SearchAutocomplete = ({
+    value,
+    onChange,
+    onSubmitQuery,
+    placeholder = "Search brands, styles...",
+    className,
+    inputClassName,
+}: SearchAutocompleteProps) => {
+    const navigate = useNavigate();
+    const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(-1);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const requestId = useRef(0);
+
+    // Fetch once typing pauses
+    useEffect(() => {
+        if (!open) return;
+        const id = ++requestId.current;
+        const timer = setTimeout(async () => {
+            const { suggestions: next } = await fetchSearchSuggestions(value);
+            if (id === requestId.current) {
+                setSuggestions(next);
+                setHighlighted(-1);
+            }
+        }, 200);
+        return () => clearTimeout(timer);
+    }, [value, open]);
+
+    // Close when clicking elsewhere
+    useEffect(() => {
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleClick);
+        return () => document.removeEventListener("mousedown", handleClick);
+    }, []);
+
+    const submitQuery = (query: string) => {
+        const trimmed = query.trim();
+        if (!trimmed) return;
+        saveSearch(trimmed);
+        setOpen(false);
+        if (onSubmitQuery) onSubmitQuery(trimmed);
+        else navigate(shopSearchUrl(trimmed));
+    };
+
+    const choose = (suggestion: SearchSuggestion) => {
+        setOpen(false);
+        if (suggestion.term) {
+            saveSearch(suggestion.term);
+            onChange(suggestion.type === "brand" || suggestion.type === "category" ? "" : suggestion.term);
+        }
+        if (onSubmitQuery && suggestion.type !== "product" && suggestion.url.startsWith("/shop?search=")) {
+            onSubmitQuery(suggestion.term ?? suggestion.label);
+            return;
+        }
+        navigate(suggestion.url);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setOpen(true);
+            setHighlighted((i) => Math.min(i + 1, suggestions.length - 1));
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setHighlighted((i) => Math.max(i - 1, -1));
+        } else if (e.key === "Enter") {
+            e.preventDefault();
+            if (open && highlighted >= 0 && suggestions[highlighted]) choose(suggestions[highlighted]);
+            else submitQuery(value);
+        } else if (e.key === "Escape") {
+            setOpen(false);
+        }
+    };
+
+    return (
+        <div ref={containerRef} className={cn("relative", className)}>
+            <Input
+                type="text"
+                role="combobox"
+                aria-expanded={open && suggestions.length > 0}
+                aria-autocomplete="list"
+                placeholder={placeholder}
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setOpen(true);
+                }}
+                onFocus={() => setOpen(true)}
+                onKeyDown={handleKeyDown}
+                className={inputClassName}
+            />
+
+            {open && suggestions.length > 0 && (
+                <ul
+                    role="listbox"
+                    className="absolute left-0 right-0 top-full mt-2 z-50 bg-popover text-popover-foreground border rounded-lg shadow-lg py-1 max-h-96 overflow-y-auto min-w-[260px]"
+                >
+                    {suggestions.map((suggestion, index) => {
+                        const Icon = suggestionIcons[suggestion.type];
+                        return (
+                            <li
+                                key={`${suggestion.type}-${suggestion.url}`}
+                                role="option"
+                                aria-selected={index === highlighted}
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => choose(suggestion)}
+                                onMouseEnter={() => setHighlighted(index)}
+                                className={cn(
+                                    "flex items-center gap-3 px-3 py-2 text-sm cursor-pointer",
+                                    index === highlighted && "bg-muted"
+                                )}
+                            >
+                                {suggestion.type === "product" && suggestion.image ? (
+                                    <img src={suggestion.image} alt="" className="h-8 w-8 rounded object-cover shrink-0" />
+                                ) : (
+                                    <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                                )}
+                                <span className="flex-1 min-w-0 truncate">
+                                    {suggestion.type === "correction" && (
+                                        <span className="text-muted-foreground">{suggestionHints.correction} </span>
+                                    )}
+                                    <span className={suggestion.type === "correction" ? "font-semibold italic" : undefined}>
+                                        {suggestion.label}
+                                    </span>
+                                </span>
+                                <span className="text-xs text-muted-foreground shrink-0">
+                                    {suggestion.type === "product" && suggestion.price !== undefined
+                                        ? `KES ${suggestion.price.toLocaleString()}`
+                                        : suggestion.type !== "correction" && (
+                                            <>
+                                                {suggestionHints[suggestion.type]}
+                                                {suggestion.count !== undefined && ` (${suggestion.count})`}
+                                            </>
+                                        )}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,29 @@
+import { Award, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { type SellerBadge as SellerBadgeValue, sellerBadgeLabels } from "@/lib/vendorPerformance";
+
+interface SellerBadgeProps {
+    badge: string | null | undefined;
+    className?: string;
+}
+
+/** "Top Seller" / "Reliable Seller" from the vendor's nightly scorecard; nothing otherwise */
+export const SellerBadge = ({ badge, className }: SellerBadgeProps) => {
+    if (badge !== "top_seller" && badge !== "reliable") return null;
+
+    const Icon = badge === "top_seller" ? Award : ShieldCheck;
+    return (
+        <Badge
+            className={cn(
+                "gap-1 shadow-md",
+                badge === "top_seller" ? "bg-amber-500 hover:bg-amber-500 text-white" : "bg-emerald-600 hover:bg-emerald-600 text-white",
+                className
+            )}
+            title="Based on the seller's orders, delivery, disputes and ratings over the last 90 days"
+        >
+            <Icon className="h-3 w-3" />
+            {sellerBadgeLabels[badge as SellerBadgeValue]}
+        </Badge>
+    );
+};
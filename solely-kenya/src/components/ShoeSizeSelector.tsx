@@ -47,23 +47,34 @@ interface ShoeSizeSelectorProps {
     selectedSize: string | undefined;
     onSizeChange: (size: string) => void;
     sizeSystem?: "uk" | "us_m" | "us_w" | "eu";
+    availableSizes?: string[]; // In-stock EU sizes; when set, only these can be picked
 }
 
 export const ShoeSizeSelector = ({
     selectedSize,
     onSizeChange,
     sizeSystem = "eu",
+    availableSizes,
 }: ShoeSizeSelectorProps) => {
     const [system, setSystem] = useState<"uk" | "us_m" | "us_w" | "eu">(sizeSystem);
     const [chartOpen, setChartOpen] = useState(false);
 
-    const getSizeOptions = () => {
-        return shoeSizeChart.map((row) => row[system]);
+    const isRestricted = !!availableSizes && availableSizes.length > 0;
+
+    // Restricted lists keep EU as the stored value and only translate the label
+    const getSizeOptions = (): { value: string; label: string }[] => {
+        if (!isRestricted) {
+            return shoeSizeChart.map((row) => ({ value: row[system], label: row[system] }));
+        }
+        return availableSizes.map((eu) => {
+            const row = shoeSizeChart.find((r) => r.eu === eu);
+            return { value: eu, label: row ? row[system] : eu };
+        });
     };
 
     const formatSelectedSize = (size: string | undefined) => {
         if (!size) return "Select size";
-        const sizeRow = shoeSizeChart.find((row) => row[system] === size);
+        const sizeRow = shoeSizeChart.find((row) => (isRestricted ? row.eu : row[system]) === size);
         if (!sizeRow) return size;
         return `EU ${sizeRow.eu} / UK ${sizeRow.uk}`;
     };
@@ -136,9 +147,9 @@ export const ShoeSizeSelector = ({
                         <SelectValue placeholder="Select size" />
                     </SelectTrigger>
                     <SelectContent>
-                        {getSizeOptions().map((size) => (
-                            <SelectItem key={size} value={size}>
-                                {size}
+                        {getSizeOptions().map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
                             </SelectItem>
                         ))}
                     </SelectContent>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import { SellerBadge } from "@/components/SellerBadge";
 import {
   Collapsible,
   CollapsibleContent,
@@ -15,9 +16,11 @@ import {
 interface VendorRatingProps {
   vendorId: string;
   productId?: string;
+  /** The vendor's seller badge, as copied onto their products */
+  sellerBadge?: string | null;
 }
 
-export const VendorRating = ({ vendorId, productId }: VendorRatingProps) => {
+export const VendorRating = ({ vendorId, productId, sellerBadge }: VendorRatingProps) => {
   const { user } = useAuth();
   const [rating, setRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
@@ -124,8 +127,9 @@ export const VendorRating = ({ vendorId, productId }: VendorRatingProps) => {
     <div className="space-y-6">
       {/* Average Rating Display */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Vendor Rating</CardTitle>
+          <SellerBadge badge={sellerBadge} className="shadow-none" />
         </CardHeader>
         <CardContent>
           <div className="flex items-center gap-4 mb-4">
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { cn } from "@/lib/utils";
+
+interface WishlistButtonProps {
+    productId: string;
+    /** Preferred size to keep with the item (product page) */
+    size?: string | null;
+    /** "icon": round heart over a product image; "button": labelled outline button */
+    variant?: "icon" | "button";
+    className?: string;
+}
+
+/** Heart toggle for the buyer's wishlist; signed-out shoppers are sent to sign in */
+export const WishlistButton = ({ productId, size, variant = "icon", className }: WishlistButtonProps) => {
+    const { signedIn, isWished, toggle } = useWishlist();
+    const navigate = useNavigate();
+    const [busy, setBusy] = useState(false);
+    const wished = isWished(productId);
+
+    const handleClick = async (e: React.MouseEvent) => {
+        // Cards wrap the button in a product link
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (!signedIn) {
+            toast.info("Sign in to save shoes to your wishlist");
+            navigate(`/auth?redirect=${encodeURIComponent(window.location.pathname + window.location.search)}`);
+            return;
+        }
+
+        setBusy(true);
+        const nowWished = await toggle(productId, size);
+        setBusy(false);
+        if (nowWished !== wished) {
+            toast.success(nowWished ? "Saved to your wishlist" : "Removed from your wishlist", {
+                action: nowWished ? { label: "View", onClick: () => navigate("/wishlist") } : undefined,
+            });
+        }
+    };
+
+    const label = wished ? "Remove from wishlist" : "Save to wishlist";
+
+    if (variant === "button") {
+        return (
+            <Button variant="outline" className={className} onClick={handleClick} disabled={busy}>
+                <Heart className={cn("h-4 w-4 mr-2", wished && "fill-red-500 text-red-500")} />
+                {wished ? "Saved to Wishlist" : "Save to Wishlist"}
+            </Button>
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={handleClick}
+            disabled={busy}
+            aria-label={label}
+            aria-pressed={wished}
+            title={label}
+            className={cn(
+                "rounded-full bg-white/90 p-2 shadow-md transition-transform hover:scale-110 disabled:opacity-70",
+                className
+            )}
+        >
+            <Heart className={cn("h-4 w-4", wished ? "fill-red-500 text-red-500" : "text-gray-700")} />
+        </button>
+    );
+};
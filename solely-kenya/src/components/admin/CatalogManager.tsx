@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { ChevronRight, GitMerge, Search, Tags } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+    type CatalogBrand,
+    type CatalogModel,
+    mergeBrands,
+    mergeModels,
+    searchBrands,
+    searchModels,
+} from "@/lib/catalog";
+
+type Entry = { id: string; name: string; listings: number };
+
+type MergeTarget = { kind: "brand" | "model"; source: Entry };
+
+/**
+ * Admin tool for the brand/model catalog.
+ * Duplicates ("Addidas", "adidas originals") are merged into the canonical entry: its
+ * listings and models move over and the duplicate's name becomes an alias, so vendors
+ * typing it are matched to the canonical entry from then on.
+ */
+export const CatalogManager = () => {
+    const { toast } = useToast();
+    const [query, setQuery] = useState("");
+    const [brands, setBrands] = useState<CatalogBrand[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedBrand, setSelectedBrand] = useState<CatalogBrand | null>(null);
+    const [models, setModels] = useState<CatalogModel[]>([]);
+
+    const [merge, setMerge] = useState<MergeTarget | null>(null);
+    const [candidateQuery, setCandidateQuery] = useState("");
+    const [candidates, setCandidates] = useState<Entry[]>([]);
+    const [targetId, setTargetId] = useState<string | null>(null);
+    const [merging, setMerging] = useState(false);
+
+    const selectedBrandId = selectedBrand?.id;
+
+    const loadBrands = useCallback(async (search: string) => {
+        setLoading(true);
+        try {
+            setBrands(await searchBrands(search, 50));
+        } catch (error: any) {
+            toast({ title: "Could not load brands", description: error.message, variant: "destructive" });
+        } finally {
+            setLoading(false);
+        }
+    }, [toast]);
+
+    const loadModels = useCallback(async (brandId: string) => {
+        try {
+            setModels(await searchModels(brandId, "", 50));
+        } catch (error: any) {
+            toast({ title: "Could not load models", description: error.message, variant: "destructive" });
+        }
+    }, [toast]);
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => loadBrands(query), 300);
+        return () => window.clearTimeout(timer);
+    }, [query, loadBrands]);
+
+    useEffect(() => {
+        if (selectedBrandId) loadModels(selectedBrandId);
+        else setModels([]);
+    }, [selectedBrandId, loadModels]);
+
+    // Merge candidates: similar names first, searchable for anything else
+    useEffect(() => {
+        if (!merge) return;
+        const timer = window.setTimeout(async () => {
+            try {
+                const results: Entry[] = merge.kind === "brand"
+                    ? await searchBrands(candidateQuery, 10)
+                    : await searchModels(selectedBrandId as string, candidateQuery, 10);
+                setCandidates(results.filter((entry) => entry.id !== merge.source.id));
+            } catch (error) {
+                console.error("Error loading merge candidates:", error);
+            }
+        }, 250);
+        return () => window.clearTimeout(timer);
+    }, [merge, candidateQuery, selectedBrandId]);
+
+    const openMerge = (kind: MergeTarget["kind"], source: Entry) => {
+        setMerge({ kind, source });
+        setCandidateQuery(source.name);
+        setCandidates([]);
+        setTargetId(null);
+    };
+
+    const handleMerge = async () => {
+        if (!merge || !targetId) return;
+        const target = candidates.find((c) => c.id === targetId);
+
+        setMerging(true);
+        try {
+            const moved = merge.kind === "brand"
+                ? await mergeBrands(merge.source.id, targetId)
+                : await mergeModels(merge.source.id, targetId);
+            toast({
+                title: `Merged into ${target?.name ?? "target"}`,
+                description: `${moved} listing${moved === 1 ? "" : "s"} moved. "${merge.source.name}" is now an alias.`,
+            });
+            setMerge(null);
+            if (merge.kind === "brand") {
+                if (selectedBrandId === merge.source.id) setSelectedBrand(null);
+                loadBrands(query);
+            } else if (selectedBrandId) {
+                loadModels(selectedBrandId);
+            }
+        } catch (error: any) {
+            toast({ title: "Merge failed", description: error.message, variant: "destructive" });
+        } finally {
+            setMerging(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Tags className="h-5 w-5" />
+                    Brand & Model Catalog
+                </CardTitle>
+                <CardDescription>
+                    Merge duplicate brands and models into the canonical entry. Listings move over and the
+                    duplicate's spelling is kept as an alias.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-6 lg:grid-cols-2">
+                <div className="space-y-3">
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search brands (typos match too)"
+                            className="pl-9"
+                        />
+                    </div>
+                    {loading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading brands...</p>
+                    ) : brands.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No brands found.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Brand</TableHead>
+                                    <TableHead className="text-right">Listings</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {brands.map((brand) => (
+                                    <TableRow
+                                        key={brand.id}
+                                        className={cn("cursor-pointer", selectedBrand?.id === brand.id && "bg-muted")}
+                                        onClick={() => setSelectedBrand(brand)}
+                                    >
+                                        <TableCell className="font-medium">
+                                            <span className="flex items-center gap-1">
+                                                {brand.name}
+                                                <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                                            </span>
+                                        </TableCell>
+                                        <TableCell className="text-right">{brand.listings}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    openMerge("brand", brand);
+                                                }}
+                                            >
+                                                <GitMerge className="h-4 w-4 mr-1" /> Merge
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </div>
+
+                <div className="space-y-3">
+                    {!selectedBrand ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">
+                            Select a brand to see its models.
+                        </p>
+                    ) : (
+                        <>
+                            <h3 className="font-semibold">{selectedBrand.name} models</h3>
+                            {models.length === 0 ? (
+                                <p className="text-sm text-muted-foreground py-6 text-center">No models yet.</p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Model</TableHead>
+                                            <TableHead className="text-right">Listings</TableHead>
+                                            <TableHead className="text-right">Actions</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {models.map((model) => (
+                                            <TableRow key={model.id}>
+                                                <TableCell className="font-medium">{model.name}</TableCell>
+                                                <TableCell className="text-right">{model.listings}</TableCell>
+                                                <TableCell className="text-right">
+                                                    <Button variant="ghost" size="sm" onClick={() => openMerge("model", model)}>
+                                                        <GitMerge className="h-4 w-4 mr-1" /> Merge
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </>
+                    )}
+                </div>
+            </CardContent>
+
+            <Dialog open={!!merge} onOpenChange={(open) => !open && setMerge(null)}>
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Merge "{merge?.source.name}"</DialogTitle>
+                        <DialogDescription>
+                            Choose the canonical {merge?.kind}. Its {merge?.source.listings ?? 0} listing
+                            {merge?.source.listings === 1 ? "" : "s"}
+                            {merge?.kind === "brand" ? ", models" : ", colorways"} and spellings move there, and "
+                            {merge?.source.name}" is deleted. This cannot be undone.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-3">
+                        <Input
+                            value={candidateQuery}
+                            onChange={(e) => setCandidateQuery(e.target.value)}
+                            placeholder={`Search ${merge?.kind}s`}
+                        />
+                        <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+                            {candidates.length === 0 ? (
+                                <p className="text-sm text-muted-foreground p-3 text-center">No matches</p>
+                            ) : (
+                                candidates.map((candidate) => (
+                                    <button
+                                        key={candidate.id}
+                                        type="button"
+                                        onClick={() => setTargetId(candidate.id)}
+                                        className={cn(
+                                            "w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted",
+                                            targetId === candidate.id && "bg-primary/10"
+                                        )}
+                                    >
+                                        <span className="font-medium">{candidate.name}</span>
+                                        <Badge variant="outline">{candidate.listings} listed</Badge>
+                                    </button>
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setMerge(null)}>Cancel</Button>
+                        <Button onClick={handleMerge} disabled={!targetId || merging}>
+                            {merging ? "Merging..." : "Merge"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+};
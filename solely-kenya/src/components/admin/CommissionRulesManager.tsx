@@ -0,0 +1,457 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Percent, Plus, Pencil, Trash2 } from "lucide-react";
+import { CATEGORIES, getCategoryName } from "@/lib/categories";
+import {
+    type CommissionRule,
+    type CommissionRuleType,
+    COMMISSION_RULE_TYPES,
+    SHOES_CATEGORY_KEY,
+    fetchCommissionRules,
+    saveCommissionRule,
+    deleteCommissionRule,
+    describeRuleScope,
+} from "@/lib/commission";
+
+type RuleForm = {
+    id?: string;
+    name: string;
+    rule_type: CommissionRuleType;
+    rate: string;
+    category: string;
+    vendor_id: string;
+    min_monthly_gmv: string;
+    starts_at: string;
+    ends_at: string;
+    priority: string;
+    is_active: boolean;
+    notes: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+    name: "",
+    rule_type: "category",
+    rate: "",
+    category: "",
+    vendor_id: "",
+    min_monthly_gmv: "",
+    starts_at: "",
+    ends_at: "",
+    priority: "0",
+    is_active: true,
+    notes: "",
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string | null) => {
+    if (!iso) return "";
+    const d = new Date(iso);
+    return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const ALL_OPTION = "__all__";
+
+/**
+ * Admin editor for commission rules.
+ * Rates are applied when orders are created, so edits only affect new orders.
+ */
+export const CommissionRulesManager = () => {
+    const { toast } = useToast();
+    const [rules, setRules] = useState<CommissionRule[]>([]);
+    const [vendors, setVendors] = useState<{ id: string; name: string }[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+
+    const vendorNames = useMemo(
+        () => Object.fromEntries(vendors.map((v) => [v.id, v.name])),
+        [vendors]
+    );
+
+    const loadRules = async () => {
+        setLoading(true);
+        setRules(await fetchCommissionRules());
+        setLoading(false);
+    };
+
+    const loadVendors = async () => {
+        const { data: roles } = await supabase
+            .from("user_roles")
+            .select("user_id")
+            .eq("role", "vendor");
+        const ids = (roles || []).map((r: any) => r.user_id);
+        if (ids.length === 0) return;
+
+        const { data: profiles } = await supabase
+            .from("profiles")
+            .select("id, full_name, store_name")
+            .in("id", ids);
+        setVendors(
+            (profiles || [])
+                .map((p: any) => ({ id: p.id, name: p.store_name || p.full_name || p.id.slice(0, 8) }))
+                .sort((a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name))
+        );
+    };
+
+    useEffect(() => {
+        loadRules();
+        loadVendors();
+    }, []);
+
+    const openNew = () => {
+        setForm(EMPTY_FORM);
+        setDialogOpen(true);
+    };
+
+    const openEdit = (rule: CommissionRule) => {
+        setForm({
+            id: rule.id,
+            name: rule.name,
+            rule_type: rule.rule_type,
+            rate: String(rule.rate),
+            category: rule.category || "",
+            vendor_id: rule.vendor_id || "",
+            min_monthly_gmv: rule.min_monthly_gmv != null ? String(rule.min_monthly_gmv) : "",
+            starts_at: toLocalInput(rule.starts_at),
+            ends_at: toLocalInput(rule.ends_at),
+            priority: String(rule.priority ?? 0),
+            is_active: rule.is_active,
+            notes: rule.notes || "",
+        });
+        setDialogOpen(true);
+    };
+
+    const validate = (): string | null => {
+        const rate = Number(form.rate);
+        if (!form.name.trim()) return "Give the rule a name";
+        if (form.rate === "" || Number.isNaN(rate) || rate < 0 || rate > 100) return "Rate must be between 0 and 100";
+        if (form.rule_type === "category" && !form.category) return "Choose a category";
+        if (form.rule_type === "vendor" && !form.vendor_id) return "Choose a vendor";
+        if (form.rule_type === "gmv_tier" && (form.min_monthly_gmv === "" || Number(form.min_monthly_gmv) < 0)) {
+            return "Enter the monthly GMV threshold";
+        }
+        if (form.rule_type === "promotion" && (!form.starts_at || !form.ends_at)) return "Promotions need a start and end date";
+        if (form.starts_at && form.ends_at && new Date(form.ends_at) <= new Date(form.starts_at)) {
+            return "End date must be after the start date";
+        }
+        return null;
+    };
+
+    const handleSave = async () => {
+        const problem = validate();
+        if (problem) {
+            toast({ title: "Check the rule", description: problem, variant: "destructive" });
+            return;
+        }
+
+        const type = form.rule_type;
+        const scopedToCategory = type === "category" || type === "promotion";
+        const scopedToVendor = type === "vendor" || type === "promotion";
+
+        setSaving(true);
+        const { error } = await saveCommissionRule({
+            id: form.id,
+            name: form.name.trim(),
+            rule_type: type,
+            rate: Number(form.rate),
+            category: scopedToCategory && form.category ? form.category : null,
+            vendor_id: scopedToVendor && form.vendor_id ? form.vendor_id : null,
+            min_monthly_gmv: type === "gmv_tier" ? Number(form.min_monthly_gmv) : null,
+            starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+            ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null,
+            priority: parseInt(form.priority) || 0,
+            is_active: form.is_active,
+            notes: form.notes.trim() || null,
+        });
+        setSaving(false);
+
+        if (error) {
+            toast({ title: "Could not save rule", description: error.message, variant: "destructive" });
+            return;
+        }
+        toast({ title: form.id ? "Rule updated" : "Rule created", description: "Applies to orders placed from now on." });
+        setDialogOpen(false);
+        loadRules();
+    };
+
+    const toggleActive = async (rule: CommissionRule) => {
+        const { error } = await saveCommissionRule({ ...rule, is_active: !rule.is_active });
+        if (error) {
+            toast({ title: "Could not update rule", description: error.message, variant: "destructive" });
+            return;
+        }
+        setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: !r.is_active } : r)));
+    };
+
+    const handleDelete = async (rule: CommissionRule) => {
+        if (rule.rule_type === "default" && rules.filter((r) => r.rule_type === "default").length === 1) {
+            toast({ title: "Keep a default rule", description: "Edit its rate instead of deleting it.", variant: "destructive" });
+            return;
+        }
+        if (!confirm(`Delete "${rule.name}"? Past orders keep the rate they were charged.`)) return;
+
+        const { error } = await deleteCommissionRule(rule.id);
+        if (error) {
+            toast({ title: "Could not delete rule", description: error.message, variant: "destructive" });
+            return;
+        }
+        setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    };
+
+    const isExpired = (rule: CommissionRule) => !!rule.ends_at && new Date(rule.ends_at) < new Date();
+    const typeLabel = (type: CommissionRuleType) => COMMISSION_RULE_TYPES.find((t) => t.value === type)?.label || type;
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                    <CardTitle className="flex items-center gap-2">
+                        <Percent className="h-5 w-5" />
+                        Commission Rules
+                    </CardTitle>
+                    <CardDescription>
+                        Most specific rule wins: vendor override → promotion → category → GMV tier → default.
+                        Changes apply to new orders only.
+                    </CardDescription>
+                </div>
+                <Button onClick={openNew} size="sm">
+                    <Plus className="h-4 w-4 mr-1" /> Add Rule
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">Loading rules...</p>
+                ) : rules.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">No commission rules yet.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Rule</TableHead>
+                                <TableHead>Type</TableHead>
+                                <TableHead>Applies to</TableHead>
+                                <TableHead className="text-right">Rate</TableHead>
+                                <TableHead>Active</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rules.map((rule) => (
+                                <TableRow key={rule.id} className={!rule.is_active || isExpired(rule) ? "opacity-60" : ""}>
+                                    <TableCell>
+                                        <div className="font-medium">{rule.name}</div>
+                                        {rule.notes && <div className="text-xs text-muted-foreground">{rule.notes}</div>}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant="outline">{typeLabel(rule.rule_type)}</Badge>
+                                        {isExpired(rule) && <Badge variant="secondary" className="ml-1">Ended</Badge>}
+                                    </TableCell>
+                                    <TableCell className="text-sm">
+                                        {describeRuleScope(rule, vendorNames, getCategoryName)}
+                                        {rule.priority !== 0 && (
+                                            <span className="text-xs text-muted-foreground"> (priority {rule.priority})</span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-right font-semibold">{Number(rule.rate)}%</TableCell>
+                                    <TableCell>
+                                        <Switch checked={rule.is_active} onCheckedChange={() => toggleActive(rule)} />
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button variant="ghost" size="icon" onClick={() => openEdit(rule)}>
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                                            <Trash2 className="h-4 w-4 text-red-500" />
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{form.id ? "Edit Commission Rule" : "New Commission Rule"}</DialogTitle>
+                        <DialogDescription>
+                            {COMMISSION_RULE_TYPES.find((t) => t.value === form.rule_type)?.description}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Type</Label>
+                                <Select
+                                    value={form.rule_type}
+                                    onValueChange={(v) => setForm({ ...form, rule_type: v as CommissionRuleType })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {COMMISSION_RULE_TYPES.map((t) => (
+                                            <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Rate (%)</Label>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.5"
+                                    value={form.rate}
+                                    onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                                    placeholder="10"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Name</Label>
+                            <Input
+                                value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                placeholder="e.g. Accessories rate, Black Friday 2026"
+                            />
+                        </div>
+
+                        {(form.rule_type === "category" || form.rule_type === "promotion") && (
+                            <div className="space-y-2">
+                                <Label>Category{form.rule_type === "promotion" && " (optional)"}</Label>
+                                <Select
+                                    value={form.category || ALL_OPTION}
+                                    onValueChange={(v) => setForm({ ...form, category: v === ALL_OPTION ? "" : v })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Choose category" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {form.rule_type === "promotion" && <SelectItem value={ALL_OPTION}>All categories</SelectItem>}
+                                        <SelectItem value={SHOES_CATEGORY_KEY}>All shoes (everything except accessories)</SelectItem>
+                                        {CATEGORIES.map((c) => (
+                                            <SelectItem key={c.key} value={c.key}>{c.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {(form.rule_type === "vendor" || form.rule_type === "promotion") && (
+                            <div className="space-y-2">
+                                <Label>Vendor{form.rule_type === "promotion" && " (optional)"}</Label>
+                                <Select
+                                    value={form.vendor_id || ALL_OPTION}
+                                    onValueChange={(v) => setForm({ ...form, vendor_id: v === ALL_OPTION ? "" : v })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Choose vendor" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {form.rule_type === "promotion" && <SelectItem value={ALL_OPTION}>All vendors</SelectItem>}
+                                        {vendors.map((v) => (
+                                            <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {form.rule_type === "gmv_tier" && (
+                            <div className="space-y-2">
+                                <Label>Minimum monthly GMV (KES)</Label>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    value={form.min_monthly_gmv}
+                                    onChange={(e) => setForm({ ...form, min_monthly_gmv: e.target.value })}
+                                    placeholder="100000"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Month-to-date paid sales (excluding delivery) before the order is placed.
+                                </p>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Starts{form.rule_type !== "promotion" && " (optional)"}</Label>
+                                <Input
+                                    type="datetime-local"
+                                    value={form.starts_at}
+                                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Ends{form.rule_type !== "promotion" && " (optional)"}</Label>
+                                <Input
+                                    type="datetime-local"
+                                    value={form.ends_at}
+                                    onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3 items-end">
+                            <div className="space-y-2">
+                                <Label>Priority</Label>
+                                <Input
+                                    type="number"
+                                    value={form.priority}
+                                    onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2 pb-2">
+                                <Switch
+                                    checked={form.is_active}
+                                    onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                                />
+                                <Label>Active</Label>
+                            </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground -mt-2">
+                            Higher priority wins when two rules of the same type match.
+                        </p>
+
+                        <div className="space-y-2">
+                            <Label>Notes</Label>
+                            <Textarea
+                                value={form.notes}
+                                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+                        <Button onClick={handleSave} disabled={saving}>
+                            {saving ? "Saving..." : "Save Rule"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+};
@@ -0,0 +1,381 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { Scale, Play, Upload, RefreshCw, CheckCircle2 } from "lucide-react";
+
+type Provider = "intasend" | "mpesa";
+
+type ReconciliationRun = {
+    id: string;
+    provider: Provider;
+    source: "api" | "csv";
+    period_start: string;
+    period_end: string;
+    status: "running" | "completed" | "failed";
+    statement_count: number;
+    internal_count: number;
+    matched_count: number;
+    unmatched_statement_count: number;
+    unmatched_internal_count: number;
+    amount_mismatch_count: number;
+    duplicate_count: number;
+    file_name: string | null;
+    error: string | null;
+    started_at: string;
+};
+
+type IssueType = "unmatched_statement" | "unmatched_internal" | "amount_mismatch" | "duplicate";
+
+type ReconciliationItem = {
+    id: string;
+    issue_type: IssueType;
+    reference: string | null;
+    direction: "in" | "out" | null;
+    statement_amount: number | null;
+    internal_amount: number | null;
+    internal_table: string | null;
+    internal_ids: string[] | null;
+    details: string | null;
+    resolved: boolean;
+    resolution_notes: string | null;
+};
+
+const ALL_OPTION = "__all__";
+
+const ISSUE_LABELS: Record<IssueType, string> = {
+    unmatched_statement: "Not in our records",
+    unmatched_internal: "Not on statement",
+    amount_mismatch: "Amount mismatch",
+    duplicate: "Duplicate",
+};
+
+const ISSUE_VARIANTS: Record<IssueType, "default" | "secondary" | "destructive" | "outline"> = {
+    unmatched_statement: "destructive",
+    unmatched_internal: "destructive",
+    amount_mismatch: "secondary",
+    duplicate: "outline",
+};
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString("en-KE", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+const formatAmount = (amount: number | null) =>
+    amount === null ? "—" : `KES ${Number(amount).toLocaleString()}`;
+
+const issueCount = (run: ReconciliationRun) =>
+    run.unmatched_statement_count + run.unmatched_internal_count + run.amount_mismatch_count + run.duplicate_count;
+
+/**
+ * Nightly IntaSend reconciliation results, plus manual runs against an uploaded
+ * IntaSend or M-Pesa statement. Admins mark each discrepancy resolved once explained.
+ */
+export const ReconciliationPanel = () => {
+    const { toast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [items, setItems] = useState<ReconciliationItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [provider, setProvider] = useState<Provider>("intasend");
+    const [issueFilter, setIssueFilter] = useState<string>(ALL_OPTION);
+    const [showResolved, setShowResolved] = useState(false);
+    const [running, setRunning] = useState(false);
+
+    const loadRuns = useCallback(async () => {
+        setLoading(true);
+        const { data, error } = await supabase
+            .from("reconciliation_runs")
+            .select("*")
+            .order("started_at", { ascending: false })
+            .limit(30);
+
+        if (error) {
+            console.error("Failed to load reconciliation runs", error);
+            toast({ title: "Could not load reconciliation runs", description: error.message, variant: "destructive" });
+        }
+        const loaded = (data || []) as ReconciliationRun[];
+        setRuns(loaded);
+        setSelectedRunId((current) => current ?? loaded[0]?.id ?? null);
+        setLoading(false);
+    }, [toast]);
+
+    const loadItems = useCallback(async (runId: string) => {
+        let query = supabase
+            .from("reconciliation_items")
+            .select("id, issue_type, reference, direction, statement_amount, internal_amount, internal_table, internal_ids, details, resolved, resolution_notes")
+            .eq("run_id", runId)
+            .order("issue_type");
+
+        if (issueFilter !== ALL_OPTION) query = query.eq("issue_type", issueFilter);
+        if (!showResolved) query = query.eq("resolved", false);
+
+        const { data, error } = await query;
+        if (error) {
+            console.error("Failed to load reconciliation items", error);
+            toast({ title: "Could not load discrepancies", description: error.message, variant: "destructive" });
+        }
+        setItems((data || []) as ReconciliationItem[]);
+    }, [issueFilter, showResolved, toast]);
+
+    useEffect(() => {
+        loadRuns();
+    }, [loadRuns]);
+
+    useEffect(() => {
+        if (selectedRunId) loadItems(selectedRunId);
+        else setItems([]);
+    }, [selectedRunId, loadItems]);
+
+    const startRun = async (body: Record<string, unknown>) => {
+        setRunning(true);
+        const { data, error } = await supabase.functions.invoke("reconcile-payments", { body });
+        setRunning(false);
+
+        if (error || data?.error) {
+            toast({ title: "Reconciliation failed", description: data?.error || error?.message, variant: "destructive" });
+        } else {
+            toast({
+                title: "Reconciliation complete",
+                description: `${data.matched_count} matched, ${data.unmatched_statement_count + data.unmatched_internal_count + data.amount_mismatch_count + data.duplicate_count} discrepancies`,
+            });
+            setSelectedRunId(data.run_id);
+        }
+        loadRuns();
+    };
+
+    const handleRunNow = () => {
+        if (provider === "mpesa") {
+            toast({ title: "Upload the M-Pesa statement", description: "M-Pesa statements can only be reconciled from a CSV export." });
+            return;
+        }
+        startRun({ provider });
+    };
+
+    const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) return;
+
+        const csv = await file.text();
+        startRun({ provider, csv, fileName: file.name });
+    };
+
+    const handleResolve = async (item: ReconciliationItem) => {
+        const notes = prompt("How was this resolved?", item.resolution_notes ?? "");
+        if (notes === null) return;
+
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+            .from("reconciliation_items")
+            .update({
+                resolved: true,
+                resolved_at: new Date().toISOString(),
+                resolved_by: user?.id ?? null,
+                resolution_notes: notes || null,
+            })
+            .eq("id", item.id);
+
+        if (error) {
+            toast({ title: "Could not resolve item", description: error.message, variant: "destructive" });
+            return;
+        }
+        toast({ title: "Marked as resolved" });
+        if (selectedRunId) loadItems(selectedRunId);
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Scale className="h-5 w-5" />
+                            Payment Reconciliation
+                        </CardTitle>
+                        <CardDescription>
+                            Gateway statements compared with payments, plan purchases and payouts. IntaSend runs nightly for the previous day.
+                        </CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={loadRuns} disabled={loading}>
+                        <RefreshCw className="h-4 w-4 mr-1" /> Refresh
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <Select value={provider} onValueChange={(value) => setProvider(value as Provider)}>
+                            <SelectTrigger className="w-40">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="intasend">IntaSend</SelectItem>
+                                <SelectItem value="mpesa">M-Pesa</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <Button size="sm" onClick={handleRunNow} disabled={running || provider === "mpesa"}>
+                            <Play className="h-4 w-4 mr-1" />
+                            {running ? "Running..." : "Run for yesterday"}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={running}>
+                            <Upload className="h-4 w-4 mr-1" /> Upload statement CSV
+                        </Button>
+                        <Input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,text/csv"
+                            className="hidden"
+                            onChange={handleFileUpload}
+                        />
+                    </div>
+
+                    {loading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading runs...</p>
+                    ) : runs.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No reconciliation runs yet.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Started</TableHead>
+                                    <TableHead>Source</TableHead>
+                                    <TableHead>Period</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Statement</TableHead>
+                                    <TableHead className="text-right">Matched</TableHead>
+                                    <TableHead className="text-right">Discrepancies</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {runs.map((run) => (
+                                    <TableRow
+                                        key={run.id}
+                                        className={`cursor-pointer ${run.id === selectedRunId ? "bg-muted" : ""}`}
+                                        onClick={() => setSelectedRunId(run.id)}
+                                    >
+                                        <TableCell className="text-sm whitespace-nowrap">{formatDate(run.started_at)}</TableCell>
+                                        <TableCell className="text-sm">
+                                            <Badge variant="outline">{run.provider === "mpesa" ? "M-Pesa" : "IntaSend"}</Badge>
+                                            <div className="text-xs text-muted-foreground mt-1">
+                                                {run.source === "csv" ? run.file_name || "CSV upload" : "API"}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-xs whitespace-nowrap">
+                                            {formatDate(run.period_start)} – {formatDate(run.period_end)}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge
+                                                variant={run.status === "failed" ? "destructive" : run.status === "running" ? "secondary" : "default"}
+                                                className="capitalize"
+                                            >
+                                                {run.status}
+                                            </Badge>
+                                            {run.error && <div className="text-xs text-red-600 mt-1">{run.error}</div>}
+                                        </TableCell>
+                                        <TableCell className="text-right">{run.statement_count}</TableCell>
+                                        <TableCell className="text-right">{run.matched_count}</TableCell>
+                                        <TableCell className={`text-right font-medium ${issueCount(run) > 0 ? "text-red-600" : ""}`}>
+                                            {issueCount(run)}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {selectedRunId && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-lg">Discrepancies</CardTitle>
+                        <CardDescription>
+                            Items from the selected run. Resolve them once the cause is understood or corrected.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="flex flex-wrap gap-3">
+                            <Select value={issueFilter} onValueChange={setIssueFilter}>
+                                <SelectTrigger className="w-48">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_OPTION}>All issues</SelectItem>
+                                    {(Object.keys(ISSUE_LABELS) as IssueType[]).map((type) => (
+                                        <SelectItem key={type} value={type}>{ISSUE_LABELS[type]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button variant="outline" size="sm" onClick={() => setShowResolved(!showResolved)}>
+                                {showResolved ? "Hide resolved" : "Show resolved"}
+                            </Button>
+                        </div>
+
+                        {items.length === 0 ? (
+                            <p className="text-sm text-muted-foreground py-6 text-center">No open discrepancies.</p>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Issue</TableHead>
+                                        <TableHead>Reference</TableHead>
+                                        <TableHead className="text-right">Statement</TableHead>
+                                        <TableHead className="text-right">Our records</TableHead>
+                                        <TableHead>Details</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {items.map((item) => (
+                                        <TableRow key={item.id}>
+                                            <TableCell>
+                                                <Badge variant={ISSUE_VARIANTS[item.issue_type]}>{ISSUE_LABELS[item.issue_type]}</Badge>
+                                                {item.direction && (
+                                                    <div className="text-xs text-muted-foreground mt-1">
+                                                        {item.direction === "in" ? "Money in" : "Money out"}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                <div className="font-mono text-xs break-all">{item.reference || "—"}</div>
+                                                {item.internal_table && (
+                                                    <div className="text-xs text-muted-foreground">
+                                                        {item.internal_table}
+                                                        {item.internal_ids && item.internal_ids.length > 1 && ` ×${item.internal_ids.length}`}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-right text-sm">{formatAmount(item.statement_amount)}</TableCell>
+                                            <TableCell className="text-right text-sm">{formatAmount(item.internal_amount)}</TableCell>
+                                            <TableCell className="text-xs max-w-xs">
+                                                {item.details}
+                                                {item.resolution_notes && (
+                                                    <div className="text-muted-foreground mt-1">Resolved: {item.resolution_notes}</div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {item.resolved ? (
+                                                    <Badge variant="outline">Resolved</Badge>
+                                                ) : (
+                                                    <Button variant="ghost" size="sm" onClick={() => handleResolve(item)}>
+                                                        <CheckCircle2 className="h-4 w-4 mr-1" /> Resolve
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+};
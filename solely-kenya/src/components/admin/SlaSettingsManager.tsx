@@ -0,0 +1,603 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Timer, Plus, Pencil, Trash2, Pause, Play, FastForward, RefreshCw } from "lucide-react";
+import {
+    type SlaAction,
+    type SlaOrderFields,
+    type SlaSetting,
+    type SlaTimer,
+    SLA_TIMERS,
+    activeSlaDeadline,
+    deleteSlaSetting,
+    describeSlaScope,
+    describeTimeLeft,
+    fetchSlaSettings,
+    formatSlaHours,
+    isDefaultSlaSetting,
+    manageOrderSla,
+    saveSlaSetting,
+    slaTimerLabels,
+} from "@/lib/sla";
+
+type SettingForm = {
+    id?: string;
+    timer: SlaTimer;
+    delivery_type: "" | "delivery" | "pickup";
+    county: string;
+    has_deadline: boolean;
+    hours: string;
+    warn_before_hours: string;
+    notes: string;
+};
+
+const EMPTY_FORM: SettingForm = {
+    timer: "vendor_response",
+    delivery_type: "",
+    county: "",
+    has_deadline: true,
+    hours: "",
+    warn_before_hours: "0",
+    notes: "",
+};
+
+type DeadlineOrder = SlaOrderFields & {
+    id: string;
+    vendor_id: string;
+    total_ksh: number;
+    order_shipping_details: { county: string | null; delivery_type: string | null } | null;
+};
+
+const ANY_OPTION = "__any__";
+
+/**
+ * Admin editor for order deadlines: the durations in sla_settings, and pause/extend
+ * for individual orders. Setting changes apply to deadlines stamped from now on.
+ */
+export const SlaSettingsManager = () => {
+    const { toast } = useToast();
+    const [settings, setSettings] = useState<SlaSetting[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [form, setForm] = useState<SettingForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+
+    const [orders, setOrders] = useState<DeadlineOrder[]>([]);
+    const [vendorNames, setVendorNames] = useState<Record<string, string>>({});
+    const [ordersLoading, setOrdersLoading] = useState(true);
+    const [orderSearch, setOrderSearch] = useState("");
+    const [actionOrder, setActionOrder] = useState<DeadlineOrder | null>(null);
+    const [action, setAction] = useState<SlaAction>("pause");
+    const [actionHours, setActionHours] = useState("24");
+    const [actionReason, setActionReason] = useState("");
+    const [acting, setActing] = useState(false);
+
+    const loadSettings = async () => {
+        setLoading(true);
+        setSettings(await fetchSlaSettings());
+        setLoading(false);
+    };
+
+    const loadOrders = async () => {
+        setOrdersLoading(true);
+        const { data, error } = await supabase
+            .from("orders")
+            .select(`
+                id, status, vendor_id, total_ksh,
+                response_deadline_at, delivery_deadline_at, auto_release_at, sla_paused_at, sla_pause_reason,
+                order_shipping_details(county, delivery_type)
+            `)
+            .in("status", ["pending_vendor_confirmation", "accepted", "shipped", "arrived"])
+            .order("created_at", { ascending: true })
+            .limit(500);
+
+        if (error) {
+            console.error("Failed to load order deadlines", error);
+            setOrdersLoading(false);
+            return;
+        }
+
+        const rows = ((data || []) as any[]).map((o) => ({
+            ...o,
+            order_shipping_details: Array.isArray(o.order_shipping_details)
+                ? o.order_shipping_details[0] ?? null
+                : o.order_shipping_details,
+        })) as DeadlineOrder[];
+        setOrders(rows.filter((o) => activeSlaDeadline(o)));
+
+        const vendorIds = [...new Set(rows.map((o) => o.vendor_id))];
+        if (vendorIds.length > 0) {
+            const { data: profiles } = await supabase
+                .from("profiles")
+                .select("id, full_name, store_name")
+                .in("id", vendorIds);
+            setVendorNames(Object.fromEntries(
+                (profiles || []).map((p: any) => [p.id, p.store_name || p.full_name || p.id.slice(0, 8)])
+            ));
+        }
+        setOrdersLoading(false);
+    };
+
+    useEffect(() => {
+        loadSettings();
+        loadOrders();
+    }, []);
+
+    // Soonest deadline first; paused orders after the running ones
+    const visibleOrders = useMemo(() => {
+        const term = orderSearch.trim().toLowerCase();
+        return orders
+            .filter((o) => !term || o.id.toLowerCase().startsWith(term) || (vendorNames[o.vendor_id] || "").toLowerCase().includes(term))
+            .sort((a, b) => {
+                const sa = activeSlaDeadline(a)!;
+                const sb = activeSlaDeadline(b)!;
+                if (sa.paused !== sb.paused) return sa.paused ? 1 : -1;
+                return sa.deadline.getTime() - sb.deadline.getTime();
+            });
+    }, [orders, orderSearch, vendorNames]);
+
+    const openNew = () => {
+        setForm(EMPTY_FORM);
+        setDialogOpen(true);
+    };
+
+    const openEdit = (setting: SlaSetting) => {
+        setForm({
+            id: setting.id,
+            timer: setting.timer,
+            delivery_type: setting.delivery_type || "",
+            county: setting.county || "",
+            has_deadline: setting.hours != null,
+            hours: setting.hours != null ? String(setting.hours) : "",
+            warn_before_hours: String(setting.warn_before_hours),
+            notes: setting.notes || "",
+        });
+        setDialogOpen(true);
+    };
+
+    const validate = (): string | null => {
+        const hours = Number(form.hours);
+        const warn = Number(form.warn_before_hours);
+        if (form.has_deadline && (form.hours === "" || Number.isNaN(hours) || hours <= 0)) return "Enter the deadline in hours";
+        if (form.warn_before_hours === "" || Number.isNaN(warn) || warn < 0) return "Warning lead time can't be negative";
+        if (form.has_deadline && warn >= hours) return "The warning must come before the deadline";
+        return null;
+    };
+
+    const handleSave = async () => {
+        const problem = validate();
+        if (problem) {
+            toast({ title: "Check the setting", description: problem, variant: "destructive" });
+            return;
+        }
+
+        setSaving(true);
+        const { error } = await saveSlaSetting({
+            id: form.id,
+            timer: form.timer,
+            delivery_type: form.delivery_type || null,
+            county: form.county.trim() || null,
+            hours: form.has_deadline ? Number(form.hours) : null,
+            warn_before_hours: form.has_deadline ? Number(form.warn_before_hours) : 0,
+            notes: form.notes.trim() || null,
+        });
+        setSaving(false);
+
+        if (error) {
+            const duplicate = error.code === "23505";
+            toast({
+                title: "Could not save setting",
+                description: duplicate ? "There is already a setting for this timer and scope." : error.message,
+                variant: "destructive",
+            });
+            return;
+        }
+        toast({ title: form.id ? "Setting updated" : "Setting added", description: "Applies to deadlines that start from now on." });
+        setDialogOpen(false);
+        loadSettings();
+    };
+
+    const handleDelete = async (setting: SlaSetting) => {
+        if (isDefaultSlaSetting(setting)) {
+            toast({ title: "Keep the default", description: "Edit its duration instead of deleting it.", variant: "destructive" });
+            return;
+        }
+        if (!confirm(`Delete the ${slaTimerLabels[setting.timer].toLowerCase()} override for ${describeSlaScope(setting)}?`)) return;
+
+        const { error } = await deleteSlaSetting(setting.id);
+        if (error) {
+            toast({ title: "Could not delete setting", description: error.message, variant: "destructive" });
+            return;
+        }
+        setSettings((prev) => prev.filter((s) => s.id !== setting.id));
+    };
+
+    const openAction = (order: DeadlineOrder, next: SlaAction) => {
+        setActionOrder(order);
+        setAction(next);
+        setActionHours("24");
+        setActionReason("");
+    };
+
+    const handleAction = async () => {
+        if (!actionOrder) return;
+        const hours = Number(actionHours);
+        if (action === "extend" && (Number.isNaN(hours) || hours <= 0)) {
+            toast({ title: "Check the extension", description: "Extend by a positive number of hours", variant: "destructive" });
+            return;
+        }
+        if (action !== "resume" && !actionReason.trim()) {
+            toast({ title: "Add a reason", description: "It is shown on the order's history.", variant: "destructive" });
+            return;
+        }
+
+        setActing(true);
+        try {
+            await manageOrderSla(actionOrder.id, action, {
+                hours: action === "extend" ? hours : undefined,
+                reason: actionReason.trim() || undefined,
+            });
+            toast({
+                title: action === "pause" ? "Deadline paused" : action === "resume" ? "Deadline resumed" : "Deadline extended",
+                description: `Order #${actionOrder.id.slice(0, 8)}`,
+            });
+            setActionOrder(null);
+            loadOrders();
+        } catch (error) {
+            toast({
+                title: "Could not change the deadline",
+                description: error instanceof Error ? error.message : "Please try again",
+                variant: "destructive",
+            });
+        } finally {
+            setActing(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Timer className="h-5 w-5" />
+                            Order Deadlines
+                        </CardTitle>
+                        <CardDescription>
+                            Most specific setting wins: county + delivery type → county → delivery type → default.
+                            Changes apply to deadlines that start from now on.
+                        </CardDescription>
+                    </div>
+                    <Button onClick={openNew} size="sm">
+                        <Plus className="h-4 w-4 mr-1" /> Add Override
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading settings...</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Timer</TableHead>
+                                    <TableHead>Applies to</TableHead>
+                                    <TableHead className="text-right">Deadline</TableHead>
+                                    <TableHead className="text-right">Warn before</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {settings.map((setting) => (
+                                    <TableRow key={setting.id}>
+                                        <TableCell>
+                                            <div className="font-medium">{slaTimerLabels[setting.timer]}</div>
+                                            {setting.notes && <div className="text-xs text-muted-foreground">{setting.notes}</div>}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {describeSlaScope(setting)}
+                                            {isDefaultSlaSetting(setting) && <Badge variant="outline" className="ml-2">Default</Badge>}
+                                        </TableCell>
+                                        <TableCell className="text-right font-semibold">{formatSlaHours(setting.hours)}</TableCell>
+                                        <TableCell className="text-right text-sm">
+                                            {setting.hours != null && setting.warn_before_hours > 0 ? formatSlaHours(setting.warn_before_hours) : "—"}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => openEdit(setting)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            {!isDefaultSlaSetting(setting) && (
+                                                <Button variant="ghost" size="icon" onClick={() => handleDelete(setting)}>
+                                                    <Trash2 className="h-4 w-4 text-red-500" />
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div>
+                        <CardTitle>Running Deadlines</CardTitle>
+                        <CardDescription>
+                            Pause a deadline while support looks into an order; resuming adds the paused time back.
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Input
+                            value={orderSearch}
+                            onChange={(e) => setOrderSearch(e.target.value)}
+                            placeholder="Order # or vendor"
+                            className="w-48"
+                        />
+                        <Button variant="outline" size="icon" onClick={loadOrders} disabled={ordersLoading}>
+                            <RefreshCw className={`h-4 w-4 ${ordersLoading ? "animate-spin" : ""}`} />
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {ordersLoading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading orders...</p>
+                    ) : visibleOrders.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No orders with a running deadline.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Order</TableHead>
+                                    <TableHead>Vendor</TableHead>
+                                    <TableHead>Timer</TableHead>
+                                    <TableHead>Deadline</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {visibleOrders.map((order) => {
+                                    const sla = activeSlaDeadline(order)!;
+                                    const timeLeft = describeTimeLeft(sla.deadline);
+                                    return (
+                                        <TableRow key={order.id}>
+                                            <TableCell>
+                                                <div className="font-mono text-sm">#{order.id.slice(0, 8)}</div>
+                                                <div className="text-xs text-muted-foreground">
+                                                    KES {Number(order.total_ksh).toLocaleString()}
+                                                    {order.order_shipping_details && ` · ${describeSlaScope({
+                                                        delivery_type: order.order_shipping_details.delivery_type as SlaSetting["delivery_type"],
+                                                        county: order.order_shipping_details.county,
+                                                    })}`}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell className="text-sm">{vendorNames[order.vendor_id] || order.vendor_id.slice(0, 8)}</TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline">{slaTimerLabels[sla.timer]}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {sla.paused ? (
+                                                    <>
+                                                        <Badge variant="secondary">Paused</Badge>
+                                                        <div className="text-xs text-muted-foreground mt-1">
+                                                            {formatDistanceToNow(new Date(order.sla_paused_at!), { addSuffix: true })}
+                                                            {order.sla_pause_reason && ` · ${order.sla_pause_reason}`}
+                                                        </div>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <span className={timeLeft.urgent ? "text-red-600 font-medium" : ""}>{timeLeft.text}</span>
+                                                        <div className="text-xs text-muted-foreground">{sla.deadline.toLocaleString("en-KE")}</div>
+                                                    </>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-right whitespace-nowrap">
+                                                {sla.paused ? (
+                                                    <Button variant="ghost" size="sm" onClick={() => openAction(order, "resume")}>
+                                                        <Play className="h-4 w-4 mr-1" /> Resume
+                                                    </Button>
+                                                ) : (
+                                                    <Button variant="ghost" size="sm" onClick={() => openAction(order, "pause")}>
+                                                        <Pause className="h-4 w-4 mr-1" /> Pause
+                                                    </Button>
+                                                )}
+                                                <Button variant="ghost" size="sm" onClick={() => openAction(order, "extend")}>
+                                                    <FastForward className="h-4 w-4 mr-1" /> Extend
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{form.id ? "Edit Deadline" : "New Deadline Override"}</DialogTitle>
+                        <DialogDescription>
+                            {SLA_TIMERS.find((t) => t.value === form.timer)?.description}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label>Timer</Label>
+                            <Select
+                                value={form.timer}
+                                onValueChange={(v) => setForm({ ...form, timer: v as SlaTimer })}
+                                disabled={!!form.id}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {SLA_TIMERS.map((t) => (
+                                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Delivery type</Label>
+                                <Select
+                                    value={form.delivery_type || ANY_OPTION}
+                                    onValueChange={(v) => setForm({ ...form, delivery_type: v === ANY_OPTION ? "" : v as SettingForm["delivery_type"] })}
+                                    disabled={!!form.id}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_OPTION}>Any</SelectItem>
+                                        <SelectItem value="delivery">Delivery</SelectItem>
+                                        <SelectItem value="pickup">Pickup</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Buyer county</Label>
+                                <Input
+                                    value={form.county}
+                                    onChange={(e) => setForm({ ...form, county: e.target.value })}
+                                    placeholder="Any"
+                                    disabled={!!form.id}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                checked={form.has_deadline}
+                                onCheckedChange={(checked) => setForm({ ...form, has_deadline: checked })}
+                            />
+                            <Label>Enforce a deadline</Label>
+                        </div>
+
+                        {form.has_deadline && (
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <Label>Deadline (hours)</Label>
+                                    <Input
+                                        type="number"
+                                        min="1"
+                                        step="1"
+                                        value={form.hours}
+                                        onChange={(e) => setForm({ ...form, hours: e.target.value })}
+                                        placeholder="48"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Warn before (hours)</Label>
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        step="1"
+                                        value={form.warn_before_hours}
+                                        onChange={(e) => setForm({ ...form, warn_before_hours: e.target.value })}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                        <p className="text-xs text-muted-foreground -mt-2">
+                            {form.has_deadline
+                                ? "0 hours before means no warning is sent."
+                                : "Orders in this scope are never auto-cancelled, auto-disputed, auto-released or escalated on this timer."}
+                        </p>
+
+                        <div className="space-y-2">
+                            <Label>Notes</Label>
+                            <Textarea
+                                value={form.notes}
+                                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+                        <Button onClick={handleSave} disabled={saving}>
+                            {saving ? "Saving..." : "Save Setting"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={!!actionOrder} onOpenChange={(open) => !open && setActionOrder(null)}>
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {action === "pause" ? "Pause deadline" : action === "resume" ? "Resume deadline" : "Extend deadline"}
+                        </DialogTitle>
+                        <DialogDescription>
+                            Order #{actionOrder?.id.slice(0, 8)}
+                            {actionOrder && ` · ${slaTimerLabels[activeSlaDeadline(actionOrder)?.timer ?? "vendor_response"]}`}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {action === "pause" && (
+                            <p className="text-sm text-muted-foreground">
+                                The automatic cancel, dispute or release won't run until you resume it.
+                            </p>
+                        )}
+                        {action === "resume" && (
+                            <p className="text-sm text-muted-foreground">
+                                The deadline moves back by the time it was paused.
+                            </p>
+                        )}
+                        {action === "extend" && (
+                            <div className="space-y-2">
+                                <Label>Extend by (hours)</Label>
+                                <Input
+                                    type="number"
+                                    min="1"
+                                    value={actionHours}
+                                    onChange={(e) => setActionHours(e.target.value)}
+                                />
+                                <p className="text-xs text-muted-foreground">A deadline that has already passed is extended from now.</p>
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label>Reason{action === "resume" && " (optional)"}</Label>
+                            <Textarea
+                                value={actionReason}
+                                onChange={(e) => setActionReason(e.target.value)}
+                                rows={2}
+                                placeholder="Shown on the order's history"
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setActionOrder(null)}>Cancel</Button>
+                        <Button onClick={handleAction} disabled={acting}>
+                            {acting ? "Saving..." : "Confirm"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
@@ -0,0 +1,621 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Gauge, Plus, Pencil, Trash2, RefreshCw, Undo2 } from "lucide-react";
+import {
+    type EnforcementAction,
+    type EnforcementRecord,
+    type EnforcementRule,
+    type ScorecardMetric,
+    type VendorScorecard,
+    SCORECARD_METRICS,
+    deleteEnforcementRule,
+    describeRule,
+    enforcementActionLabels,
+    fetchEnforcementActions,
+    fetchEnforcementRules,
+    fetchVendorScorecards,
+    formatMetricValue,
+    isEnforcementInForce,
+    liftEnforcementAction,
+    saveEnforcementRule,
+    scorecardMetric,
+    tierColors,
+    tierLabels,
+} from "@/lib/vendorPerformance";
+
+type RuleForm = {
+    id?: string;
+    metric: ScorecardMetric;
+    threshold: string;
+    action: EnforcementAction;
+    min_orders: string;
+    duration_days: string;
+    search_penalty: string;
+    is_active: boolean;
+    notes: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+    metric: "score",
+    threshold: "",
+    action: "warning",
+    min_orders: "5",
+    duration_days: "14",
+    search_penalty: "2",
+    is_active: true,
+    notes: "",
+};
+
+const actionBadgeVariant: Record<EnforcementAction, "secondary" | "outline" | "destructive"> = {
+    warning: "outline",
+    demotion: "secondary",
+    suspension: "destructive",
+};
+
+/**
+ * Admin view of vendor performance: the nightly scorecards, the rules that warn, demote
+ * or suspend vendors, and the actions taken (which can be lifted early). Rule changes
+ * apply from the next nightly run.
+ */
+export const VendorPerformanceManager = () => {
+    const { toast } = useToast();
+    const [scorecards, setScorecards] = useState<VendorScorecard[]>([]);
+    const [rules, setRules] = useState<EnforcementRule[]>([]);
+    const [actions, setActions] = useState<EnforcementRecord[]>([]);
+    const [vendorNames, setVendorNames] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(true);
+    const [search, setSearch] = useState("");
+
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+
+    const [liftTarget, setLiftTarget] = useState<EnforcementRecord | null>(null);
+    const [liftReason, setLiftReason] = useState("");
+    const [lifting, setLifting] = useState(false);
+
+    const load = async () => {
+        setLoading(true);
+        const [cards, ruleRows, actionRows] = await Promise.all([
+            fetchVendorScorecards(),
+            fetchEnforcementRules(),
+            fetchEnforcementActions(),
+        ]);
+        setScorecards(cards);
+        setRules(ruleRows);
+        setActions(actionRows);
+
+        const vendorIds = [...new Set([...cards.map((c) => c.vendor_id), ...actionRows.map((a) => a.vendor_id)])];
+        if (vendorIds.length > 0) {
+            const { data: profiles } = await supabase
+                .from("profiles")
+                .select("id, full_name, store_name")
+                .in("id", vendorIds);
+            setVendorNames(Object.fromEntries(
+                (profiles || []).map((p: any) => [p.id, p.store_name || p.full_name || p.id.slice(0, 8)])
+            ));
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const inForceByVendor = useMemo(() => {
+        const map: Record<string, EnforcementRecord[]> = {};
+        for (const action of actions) {
+            if (action.action === "warning" || !isEnforcementInForce(action)) continue;
+            (map[action.vendor_id] ??= []).push(action);
+        }
+        return map;
+    }, [actions]);
+
+    const visibleScorecards = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return scorecards.filter((c) => !term || (vendorNames[c.vendor_id] || c.vendor_id).toLowerCase().includes(term));
+    }, [scorecards, search, vendorNames]);
+
+    const isPercentMetric = (metric: string) => scorecardMetric(metric).unit === "percent";
+
+    const openNew = () => {
+        setForm(EMPTY_FORM);
+        setDialogOpen(true);
+    };
+
+    const openEdit = (rule: EnforcementRule) => {
+        setForm({
+            id: rule.id,
+            metric: rule.metric,
+            threshold: String(isPercentMetric(rule.metric) ? Math.round(rule.threshold * 100) : rule.threshold),
+            action: rule.action,
+            min_orders: String(rule.min_orders),
+            duration_days: String(rule.duration_days),
+            search_penalty: String(rule.search_penalty || EMPTY_FORM.search_penalty),
+            is_active: rule.is_active,
+            notes: rule.notes || "",
+        });
+        setDialogOpen(true);
+    };
+
+    const validate = (): string | null => {
+        const threshold = Number(form.threshold);
+        if (form.threshold === "" || Number.isNaN(threshold) || threshold < 0) return "Enter a threshold";
+        if (isPercentMetric(form.metric) && threshold > 100) return "Percentages go up to 100";
+        if (form.metric === "score" && threshold > 100) return "Scores go up to 100";
+        if (form.metric === "average_rating" && threshold > 5) return "Ratings go up to 5 stars";
+        if (!Number.isInteger(Number(form.min_orders)) || Number(form.min_orders) < 0) return "Minimum orders must be a whole number";
+        if (!Number.isInteger(Number(form.duration_days)) || Number(form.duration_days) < 1) return "Duration must be at least 1 day";
+        if (form.action === "demotion" && !(Number(form.search_penalty) > 0)) return "A demotion needs a search penalty above 0";
+        return null;
+    };
+
+    const handleSave = async () => {
+        const problem = validate();
+        if (problem) {
+            toast({ title: "Check the rule", description: problem, variant: "destructive" });
+            return;
+        }
+
+        setSaving(true);
+        const threshold = Number(form.threshold);
+        const { error } = await saveEnforcementRule({
+            id: form.id,
+            metric: form.metric,
+            threshold: isPercentMetric(form.metric) ? threshold / 100 : threshold,
+            action: form.action,
+            min_orders: Number(form.min_orders),
+            duration_days: Number(form.duration_days),
+            search_penalty: Number(form.search_penalty) || 0,
+            is_active: form.is_active,
+            notes: form.notes,
+        });
+        setSaving(false);
+
+        if (error) {
+            toast({ title: "Could not save rule", description: error.message, variant: "destructive" });
+            return;
+        }
+        toast({ title: form.id ? "Rule updated" : "Rule added", description: "Applies from the next nightly scoring run." });
+        setDialogOpen(false);
+        load();
+    };
+
+    const handleDelete = async (rule: EnforcementRule) => {
+        if (!confirm(`Delete the rule "${describeRule(rule)} → ${enforcementActionLabels[rule.action].toLowerCase()}"? Actions already taken stay in force.`)) return;
+
+        const { error } = await deleteEnforcementRule(rule.id);
+        if (error) {
+            toast({ title: "Could not delete rule", description: error.message, variant: "destructive" });
+            return;
+        }
+        setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    };
+
+    const handleLift = async () => {
+        if (!liftTarget) return;
+
+        setLifting(true);
+        try {
+            await liftEnforcementAction(liftTarget.id, liftReason.trim() || undefined);
+            toast({
+                title: `${enforcementActionLabels[liftTarget.action]} lifted`,
+                description: vendorNames[liftTarget.vendor_id] || liftTarget.vendor_id.slice(0, 8),
+            });
+            setLiftTarget(null);
+            setLiftReason("");
+            load();
+        } catch (error) {
+            toast({
+                title: "Could not lift the action",
+                description: error instanceof Error ? error.message : "Please try again",
+                variant: "destructive",
+            });
+        } finally {
+            setLifting(false);
+        }
+    };
+
+    const lastRun = scorecards.reduce<string | null>(
+        (latest, c) => (!latest || c.computed_at > latest ? c.computed_at : latest),
+        null
+    );
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Gauge className="h-5 w-5" />
+                            Vendor Scorecards
+                        </CardTitle>
+                        <CardDescription>
+                            Last 90 days, lowest score first.
+                            {lastRun ? ` Scored ${formatDistanceToNow(new Date(lastRun), { addSuffix: true })}.` : " Not scored yet - runs nightly at 03:00."}
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Input
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search vendor"
+                            className="w-48"
+                        />
+                        <Button variant="outline" size="icon" onClick={load} disabled={loading}>
+                            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading scorecards...</p>
+                    ) : visibleScorecards.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No scorecards yet.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Vendor</TableHead>
+                                    <TableHead className="text-right">Score</TableHead>
+                                    <TableHead className="text-right">Orders</TableHead>
+                                    <TableHead className="text-right">Accepted</TableHead>
+                                    <TableHead className="text-right">Response</TableHead>
+                                    <TableHead className="text-right">Auto-cancelled</TableHead>
+                                    <TableHead className="text-right">On time</TableHead>
+                                    <TableHead className="text-right">Disputes</TableHead>
+                                    <TableHead className="text-right">Rating</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {visibleScorecards.map((card) => (
+                                    <TableRow key={card.vendor_id}>
+                                        <TableCell>
+                                            <div className="font-medium">{vendorNames[card.vendor_id] || card.vendor_id.slice(0, 8)}</div>
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                <Badge className={`${tierColors[card.tier]} text-white`}>{tierLabels[card.tier]}</Badge>
+                                                {(inForceByVendor[card.vendor_id] || []).map((action) => (
+                                                    <Badge key={action.id} variant={actionBadgeVariant[action.action]}>
+                                                        {enforcementActionLabels[action.action]}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-right font-semibold">{Math.round(card.score)}</TableCell>
+                                        <TableCell className="text-right">{card.orders_received}</TableCell>
+                                        <TableCell className="text-right">{formatMetricValue("acceptance_rate", card.acceptance_rate)}</TableCell>
+                                        <TableCell className="text-right">{formatMetricValue("avg_response_hours", card.avg_response_hours)}</TableCell>
+                                        <TableCell className="text-right">{card.auto_cancelled}</TableCell>
+                                        <TableCell className="text-right">{formatMetricValue("on_time_rate", card.on_time_rate)}</TableCell>
+                                        <TableCell className="text-right">
+                                            {card.disputes_opened}
+                                            {card.disputes_opened > 0 && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {card.disputes_lost} lost · {card.disputes_partial} partial · {card.disputes_won} won
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {formatMetricValue("average_rating", card.average_rating)}
+                                            {card.rating_count > 0 && <div className="text-xs text-muted-foreground">{card.rating_count} ratings</div>}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                    <div>
+                        <CardTitle>Enforcement Rules</CardTitle>
+                        <CardDescription>
+                            Checked after every nightly run. A rule doesn't fire again for the same vendor until its last
+                            action has run its course.
+                        </CardDescription>
+                    </div>
+                    <Button onClick={openNew} size="sm">
+                        <Plus className="h-4 w-4 mr-1" /> Add Rule
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading rules...</p>
+                    ) : rules.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No rules. Vendors are scored but never warned, demoted or suspended.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>When</TableHead>
+                                    <TableHead>Action</TableHead>
+                                    <TableHead className="text-right">Min. orders</TableHead>
+                                    <TableHead className="text-right">Duration</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rules.map((rule) => (
+                                    <TableRow key={rule.id}>
+                                        <TableCell>
+                                            <div className="font-medium">{describeRule(rule)}</div>
+                                            {rule.notes && <div className="text-xs text-muted-foreground">{rule.notes}</div>}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={actionBadgeVariant[rule.action]}>{enforcementActionLabels[rule.action]}</Badge>
+                                            {rule.action === "demotion" && (
+                                                <div className="text-xs text-muted-foreground mt-1">-{rule.search_penalty} ranking points</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">{rule.min_orders}</TableCell>
+                                        <TableCell className="text-right">
+                                            {rule.duration_days} day{rule.duration_days === 1 ? "" : "s"}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={rule.is_active ? "default" : "secondary"}>
+                                                {rule.is_active ? "Active" : "Inactive"}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => openEdit(rule)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                                                <Trash2 className="h-4 w-4 text-red-500" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Actions Taken</CardTitle>
+                    <CardDescription>
+                        The latest 100. Lifting a demotion or suspension restores the vendor's listings straight away.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">Loading actions...</p>
+                    ) : actions.length === 0 ? (
+                        <p className="text-sm text-muted-foreground py-6 text-center">No actions taken yet.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Vendor</TableHead>
+                                    <TableHead>Action</TableHead>
+                                    <TableHead>Reason</TableHead>
+                                    <TableHead>Period</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {actions.map((action) => {
+                                    const inForce = isEnforcementInForce(action);
+                                    return (
+                                        <TableRow key={action.id}>
+                                            <TableCell className="text-sm">{vendorNames[action.vendor_id] || action.vendor_id.slice(0, 8)}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={actionBadgeVariant[action.action]}>{enforcementActionLabels[action.action]}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {action.threshold !== null ? describeRule({ metric: action.metric, threshold: action.threshold }) : scorecardMetric(action.metric).label}
+                                                <div className="text-xs text-muted-foreground">
+                                                    Was {formatMetricValue(action.metric, action.metric_value)}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {format(new Date(action.starts_at), "d MMM")} - {format(new Date(action.ends_at), "d MMM yyyy")}
+                                                <div className="text-xs text-muted-foreground">
+                                                    {action.lifted_at
+                                                        ? `Lifted ${formatDistanceToNow(new Date(action.lifted_at), { addSuffix: true })}${action.lift_reason ? ` · ${action.lift_reason}` : ""}`
+                                                        : inForce ? "In force" : "Ended"}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {inForce && (
+                                                    <Button variant="ghost" size="sm" onClick={() => setLiftTarget(action)}>
+                                                        <Undo2 className="h-4 w-4 mr-1" /> Lift
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{form.id ? "Edit Rule" : "New Enforcement Rule"}</DialogTitle>
+                        <DialogDescription>
+                            {scorecardMetric(form.metric).higherIsWorse
+                                ? "Fires when the vendor's metric rises above the threshold."
+                                : "Fires when the vendor's metric falls below the threshold."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Metric</Label>
+                                <Select
+                                    value={form.metric}
+                                    onValueChange={(v) => setForm({ ...form, metric: v as ScorecardMetric })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {SCORECARD_METRICS.map((m) => (
+                                            <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>
+                                    Threshold{isPercentMetric(form.metric) ? " (%)" : form.metric === "avg_response_hours" ? " (hours)" : form.metric === "average_rating" ? " (stars)" : ""}
+                                </Label>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    step={form.metric === "average_rating" ? "0.1" : "1"}
+                                    value={form.threshold}
+                                    onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Action</Label>
+                                <Select
+                                    value={form.action}
+                                    onValueChange={(v) => setForm({ ...form, action: v as EnforcementAction })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="warning">Warning</SelectItem>
+                                        <SelectItem value="demotion">Search demotion</SelectItem>
+                                        <SelectItem value="suspension">Listing suspension</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>{form.action === "warning" ? "Repeat after (days)" : "Duration (days)"}</Label>
+                                <Input
+                                    type="number"
+                                    min="1"
+                                    step="1"
+                                    value={form.duration_days}
+                                    onChange={(e) => setForm({ ...form, duration_days: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Minimum orders</Label>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={form.min_orders}
+                                    onChange={(e) => setForm({ ...form, min_orders: e.target.value })}
+                                />
+                            </div>
+                            {form.action === "demotion" && (
+                                <div className="space-y-2">
+                                    <Label>Search penalty</Label>
+                                    <Input
+                                        type="number"
+                                        min="0.5"
+                                        step="0.5"
+                                        value={form.search_penalty}
+                                        onChange={(e) => setForm({ ...form, search_penalty: e.target.value })}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                        <p className="text-xs text-muted-foreground -mt-2">
+                            The rule only applies to vendors with at least this many orders in the last 90 days.
+                            {form.action === "demotion" && " The penalty comes off the smart-sort score (a new listing scores about 1.5) and featured placement is removed."}
+                            {form.action === "suspension" && " Live listings are hidden and restored automatically when the period ends."}
+                        </p>
+
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                checked={form.is_active}
+                                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                            />
+                            <Label>Active</Label>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Notes</Label>
+                            <Textarea
+                                value={form.notes}
+                                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+                        <Button onClick={handleSave} disabled={saving}>
+                            {saving ? "Saving..." : "Save Rule"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={!!liftTarget} onOpenChange={(open) => !open && setLiftTarget(null)}>
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Lift {liftTarget && enforcementActionLabels[liftTarget.action].toLowerCase()}</DialogTitle>
+                        <DialogDescription>
+                            {liftTarget && (vendorNames[liftTarget.vendor_id] || liftTarget.vendor_id.slice(0, 8))}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            {liftTarget?.action === "warning"
+                                ? "The warning is marked as lifted."
+                                : "The vendor's listings go back to normal straight away and they are notified."}
+                            {" "}The same rule won't fire again for this vendor until the original period ends.
+                        </p>
+                        <div className="space-y-2">
+                            <Label>Reason (optional)</Label>
+                            <Textarea
+                                value={liftReason}
+                                onChange={(e) => setLiftReason(e.target.value)}
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setLiftTarget(null)}>Cancel</Button>
+                        <Button onClick={handleLift} disabled={lifting}>
+                            {lifting ? "Lifting..." : "Lift"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
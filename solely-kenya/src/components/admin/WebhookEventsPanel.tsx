@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { Webhook, RotateCcw, RefreshCw, ShieldAlert } from "lucide-react";
+
+type WebhookEvent = {
+    id: string;
+    provider: "intasend" | "mpesa";
+    event_id: string;
+    event_type: string | null;
+    reference: string | null;
+    verified: boolean;
+    verification_error: string | null;
+    status: "received" | "processing" | "processed" | "failed" | "rejected";
+    attempts: number;
+    duplicate_count: number;
+    last_error: string | null;
+    processed_at: string | null;
+    replayed_at: string | null;
+    created_at: string;
+};
+
+const ALL_OPTION = "__all__";
+const PAGE_SIZE = 100;
+
+const STATUS_VARIANTS: Record<WebhookEvent["status"], "default" | "secondary" | "destructive" | "outline"> = {
+    processed: "default",
+    received: "secondary",
+    processing: "secondary",
+    failed: "destructive",
+    rejected: "outline",
+};
+
+const formatTime = (iso: string | null) =>
+    iso
+        ? new Date(iso).toLocaleString("en-KE", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+        : "—";
+
+/**
+ * Admin log of IntaSend / M-Pesa webhooks with their verification and processing
+ * status. Failed or stuck events can be replayed once the cause is fixed.
+ */
+export const WebhookEventsPanel = () => {
+    const { toast } = useToast();
+    const [events, setEvents] = useState<WebhookEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [provider, setProvider] = useState<string>(ALL_OPTION);
+    const [status, setStatus] = useState<string>(ALL_OPTION);
+    const [replayingId, setReplayingId] = useState<string | null>(null);
+
+    const loadEvents = useCallback(async () => {
+        setLoading(true);
+        let query = supabase
+            .from("webhook_events")
+            .select("id, provider, event_id, event_type, reference, verified, verification_error, status, attempts, duplicate_count, last_error, processed_at, replayed_at, created_at")
+            .order("created_at", { ascending: false })
+            .limit(PAGE_SIZE);
+
+        if (provider !== ALL_OPTION) query = query.eq("provider", provider);
+        if (status !== ALL_OPTION) query = query.eq("status", status);
+
+        const { data, error } = await query;
+        if (error) {
+            console.error("Failed to load webhook events", error);
+            toast({ title: "Could not load webhook events", description: error.message, variant: "destructive" });
+        }
+        setEvents((data || []) as WebhookEvent[]);
+        setLoading(false);
+    }, [provider, status, toast]);
+
+    useEffect(() => {
+        loadEvents();
+    }, [loadEvents]);
+
+    const handleReplay = async (event: WebhookEvent) => {
+        if (!confirm(`Replay ${event.provider} event ${event.event_id}? It will be processed again.`)) return;
+
+        setReplayingId(event.id);
+        const { data, error } = await supabase.functions.invoke("replay-webhook-event", {
+            body: { eventId: event.id },
+        });
+        setReplayingId(null);
+
+        if (error || data?.error) {
+            toast({ title: "Replay failed", description: data?.error || error?.message, variant: "destructive" });
+        } else {
+            toast({ title: "Event replayed", description: `Status: ${data?.event?.status ?? "unknown"}` });
+        }
+        loadEvents();
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                    <CardTitle className="flex items-center gap-2">
+                        <Webhook className="h-5 w-5" />
+                        Payment Webhooks
+                    </CardTitle>
+                    <CardDescription>
+                        Every IntaSend and M-Pesa callback, newest first. Repeat deliveries of a processed event are ignored.
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={loadEvents} disabled={loading}>
+                    <RefreshCw className="h-4 w-4 mr-1" /> Refresh
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-3">
+                    <Select value={provider} onValueChange={setProvider}>
+                        <SelectTrigger className="w-40">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL_OPTION}>All providers</SelectItem>
+                            <SelectItem value="intasend">IntaSend</SelectItem>
+                            <SelectItem value="mpesa">M-Pesa</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={status} onValueChange={setStatus}>
+                        <SelectTrigger className="w-40">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL_OPTION}>All statuses</SelectItem>
+                            <SelectItem value="processed">Processed</SelectItem>
+                            <SelectItem value="received">Received</SelectItem>
+                            <SelectItem value="processing">Processing</SelectItem>
+                            <SelectItem value="failed">Failed</SelectItem>
+                            <SelectItem value="rejected">Rejected</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                {loading ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">Loading events...</p>
+                ) : events.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">No webhook events.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Received</TableHead>
+                                <TableHead>Provider</TableHead>
+                                <TableHead>Event</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead className="text-right">Attempts</TableHead>
+                                <TableHead className="text-right">Duplicates</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {events.map((event) => (
+                                <TableRow key={event.id}>
+                                    <TableCell className="text-sm whitespace-nowrap">{formatTime(event.created_at)}</TableCell>
+                                    <TableCell>
+                                        <Badge variant="outline">{event.provider === "mpesa" ? "M-Pesa" : "IntaSend"}</Badge>
+                                    </TableCell>
+                                    <TableCell className="text-sm">
+                                        <div className="font-mono text-xs break-all">{event.event_id}</div>
+                                        {event.reference && event.reference !== event.event_id && (
+                                            <div className="text-xs text-muted-foreground">Ref: {event.reference}</div>
+                                        )}
+                                        {!event.verified && (
+                                            <div className="text-xs text-red-600 flex items-center gap-1">
+                                                <ShieldAlert className="h-3 w-3" />
+                                                {event.verification_error || "Not verified"}
+                                            </div>
+                                        )}
+                                        {event.last_error && (
+                                            <div className="text-xs text-red-600">{event.last_error}</div>
+                                        )}
+                                        {event.replayed_at && (
+                                            <div className="text-xs text-muted-foreground">Replayed {formatTime(event.replayed_at)}</div>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant={STATUS_VARIANTS[event.status]} className="capitalize">{event.status}</Badge>
+                                        {event.event_type && (
+                                            <div className="text-xs text-muted-foreground mt-1">{event.event_type}</div>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-right">{event.attempts}</TableCell>
+                                    <TableCell className="text-right">{event.duplicate_count}</TableCell>
+                                    <TableCell className="text-right">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => handleReplay(event)}
+                                            disabled={!event.verified || replayingId === event.id}
+                                            title={event.verified ? undefined : "Unverified events may be forged and cannot be replayed"}
+                                        >
+                                            <RotateCcw className="h-4 w-4 mr-1" />
+                                            {replayingId === event.id ? "Replaying..." : "Replay"}
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
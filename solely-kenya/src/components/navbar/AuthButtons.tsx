@@ -1,6 +1,6 @@
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Mail, LogOut, LayoutDashboard, ShoppingBag } from "lucide-react";
+import { Mail, LogOut, LayoutDashboard, ShoppingBag, Bell, Heart } from "lucide-react";
 
 interface AuthButtonsProps {
   user: any;
@@ -80,6 +80,18 @@ export const AuthButtons = ({ user, isVendor, isVendorPage, onLogout }: AuthButt
               My Orders
             </Link>
           </Button>
+          <Button size="sm" variant="ghost" asChild>
+            <Link to="/wishlist">
+              <Heart className="h-4 w-4 mr-2" />
+              Wishlist
+            </Link>
+          </Button>
+          <Button size="sm" variant="ghost" asChild>
+            <Link to="/alerts">
+              <Bell className="h-4 w-4 mr-2" />
+              My Alerts
+            </Link>
+          </Button>
           <Button size="sm" variant="ghost" asChild>
             <Link to="/vendor/register">Become a Vendor</Link>
           </Button>
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Mail, LogOut, LayoutDashboard, Menu, ShoppingBag, ShoppingCart, Download } from "lucide-react";
+import { Mail, LogOut, LayoutDashboard, Menu, ShoppingBag, ShoppingCart, Download, Bell, Heart } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { usePWAInstall } from "@/hooks/usePWAInstall";
 
@@ -150,6 +150,18 @@ export const MobileNav = ({ navLinks, user, isVendor, isVendorPage, onLogout, ca
                     My Orders
                   </Link>
                 </Button>
+                <Button size="sm" variant="outline" asChild>
+                  <Link to="/wishlist" onClick={handleLinkClick}>
+                    <Heart className="h-4 w-4 mr-2" />
+                    Wishlist
+                  </Link>
+                </Button>
+                <Button size="sm" variant="outline" asChild>
+                  <Link to="/alerts" onClick={handleLinkClick}>
+                    <Bell className="h-4 w-4 mr-2" />
+                    My Alerts
+                  </Link>
+                </Button>
                 <Button size="sm" variant="ghost" asChild>
                   <Link to="/vendor/register" onClick={handleLinkClick}>Become a Vendor</Link>
                 </Button>
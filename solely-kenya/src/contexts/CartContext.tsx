@@ -1,23 +1,64 @@
-import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { type ProductVariant, findVariant, getInStockSizes, getVariantPrice } from "@/lib/variants";
+import { recordCartAddition } from "@/lib/ranking";
+import { type CartChange, fetchServerCart, mergeCarts, saveServerCart, validateCartItems } from "@/lib/cartSync";
 
 export type CartItem = {
   productId: string;
   vendorId: string;
   name: string;
   priceKsh: number;
+  basePriceKsh?: number; // Product price before any variant override
   imageUrl?: string | null;
   quantity: number;
   size?: string; // Selected shoe size (EU format)
   availableSizes?: string[]; // Sizes available for this product
   color?: string; // Selected product color
   availableColors?: string[]; // Colors available for this product
+  variantId?: string | null; // product_variants row for the selected size/color
+  variants?: ProductVariant[]; // Snapshot of the product's variants for size/color switching
+};
+
+/** Items from one vendor; each group becomes its own order (and shipment) at checkout */
+export type VendorGroup = {
+  vendorId: string;
+  items: CartItem[];
+  subtotal: number;
+};
+
+const MAX_QUANTITY = 10;
+
+/** Max units of an item that can be bought: capped by variant stock when known */
+const getMaxQuantity = (item: CartItem): number => {
+  const variant = item.variantId ? item.variants?.find((v) => v.id === item.variantId) : undefined;
+  return variant ? Math.min(MAX_QUANTITY, variant.stock) : MAX_QUANTITY;
+};
+
+/** Re-points an item at the variant for a new size/color, updating price and available sizes */
+const withVariant = (item: CartItem, size?: string, color?: string): CartItem => {
+  if (!item.variants || item.variants.length === 0) {
+    return { ...item, size, color };
+  }
+  const variant = findVariant(item.variants, size, color);
+  const basePrice = item.basePriceKsh ?? item.priceKsh;
+  return {
+    ...item,
+    size,
+    color,
+    variantId: variant?.id ?? null,
+    priceKsh: getVariantPrice(variant, basePrice),
+    availableSizes: getInStockSizes(item.variants, color),
+    quantity: variant ? Math.max(1, Math.min(item.quantity, variant.stock)) : item.quantity,
+  };
 };
 
 interface CartContextValue {
   items: CartItem[];
   totalQuantity: number;
   subtotal: number;
+  vendorGroups: VendorGroup[]; // Cart split by vendor, in the order vendors were first added
   addItem: (item: Omit<CartItem, "quantity">, quantity?: number) => void;
   removeItem: (productId: string, size?: string, color?: string) => void;
   updateQuantity: (productId: string, quantity: number, size?: string, color?: string) => void;
@@ -29,11 +70,16 @@ interface CartContextValue {
   hasAllValidSizes: () => boolean; // Check if all selected sizes are available
 
   getInvalidSizeItems: () => CartItem[]; // Get items with sizes not in available list
+  changes: CartChange[]; // What changed since the items were added (price, stock), from the last validation
+  validating: boolean;
+  revalidate: () => Promise<void>; // Re-check prices and stock against the server
+  dismissChanges: () => void;
 }
 
 const CartContext = createContext<CartContextValue | undefined>(undefined);
 
 const STORAGE_KEY = "solely_cart_v1";
+const SYNC_DELAY_MS = 1000;
 
 const loadInitialCart = (): CartItem[] => {
   if (typeof window === "undefined") return [];
@@ -51,12 +97,85 @@ const loadInitialCart = (): CartItem[] => {
 
 export const CartProvider = ({ children }: { children: ReactNode }) => {
   const [items, setItems] = useState<CartItem[]>(loadInitialCart);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [changes, setChanges] = useState<CartChange[]>([]);
+  const [validating, setValidating] = useState(false);
+  // Signed-in user whose server cart has been merged in; saving waits for it
+  const syncedUserRef = useRef<string | null>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
 
   useEffect(() => {
     if (typeof window === "undefined") return;
     window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
   }, [items]);
 
+  /** Validates a snapshot of the cart; results are dropped if the cart changed meanwhile */
+  const runValidation = useCallback(async (snapshot: CartItem[]) => {
+    if (snapshot.length === 0) return;
+    setValidating(true);
+    try {
+      const result = await validateCartItems(snapshot);
+      setItems((current) => (current === snapshot ? result.items : current));
+      setChanges(result.changes);
+    } catch (error) {
+      console.error("Failed to validate cart", error);
+    } finally {
+      setValidating(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user?.id ?? null);
+      // Guests: the signed-in path validates after merging
+      if (!session) runValidation(itemsRef.current);
+    });
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setUserId(session?.user?.id ?? null);
+      if (event === "SIGNED_OUT") {
+        // The cart is saved on the server; don't leave it for the next person on this device
+        syncedUserRef.current = null;
+        setItems([]);
+        setChanges([]);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [runValidation]);
+
+  // Sign-in: merge the guest cart into the saved one, then validate the result
+  useEffect(() => {
+    if (!userId || syncedUserRef.current === userId) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const serverItems = await fetchServerCart();
+        if (cancelled) return;
+        const merged = serverItems ? mergeCarts(itemsRef.current, serverItems) : itemsRef.current;
+        syncedUserRef.current = userId;
+        setItems(merged);
+        await runValidation(merged);
+      } catch (error) {
+        console.error("Failed to load saved cart", error);
+        syncedUserRef.current = userId;
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, runValidation]);
+
+  // Save signed-in carts, debounced so quantity typing doesn't write on every keystroke
+  useEffect(() => {
+    if (!userId || syncedUserRef.current !== userId) return;
+    const timer = window.setTimeout(() => {
+      saveServerCart(userId, items).catch((error) => console.error("Failed to save cart", error));
+    }, SYNC_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [items, userId]);
+
   /* 
     Helper to generate unique ID for cart items. 
     If you add "Product A" twice with same size/color, it merges.
@@ -68,12 +187,6 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
 
   const addItem: CartContextValue["addItem"] = (item, quantity = 1) => {
     setItems((current) => {
-      // Vendor lock check
-      if (current.length > 0 && current[0].vendorId !== item.vendorId) {
-        toast.error("You can only checkout items from one vendor at a time. Complete your current cart first.");
-        return current;
-      }
-
       // Check for existing item with SAME variants
       const existingIndex = current.findIndex(
         (c) => c.productId === item.productId && c.size === item.size && c.color === item.color
@@ -82,17 +195,24 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       if (existingIndex > -1) {
         const newItems = [...current];
         const existingItem = newItems[existingIndex];
-        // Calculate new quantity, capped at 10
+        // Calculate new quantity, capped at 10 (or the variant's stock)
+        const maxQuantity = getMaxQuantity(existingItem);
+        if (existingItem.quantity + quantity > maxQuantity) {
+          toast.error(`Only ${maxQuantity} available in this size`);
+        }
         newItems[existingIndex] = {
           ...existingItem,
-          quantity: Math.min(existingItem.quantity + quantity, 10)
+          quantity: Math.min(existingItem.quantity + quantity, maxQuantity)
         };
         return newItems;
       }
 
       // Add new item
-      return [...current, { ...item, quantity: Math.max(1, Math.min(quantity, 10)) }];
+      const newItem = { ...item, quantity } as CartItem;
+      return [...current, { ...newItem, quantity: Math.max(1, Math.min(quantity, getMaxQuantity(newItem))) }];
     });
+    // Personalised ranking signal (signed-in shoppers only)
+    recordCartAddition(item.productId, item.size);
   };
 
   /* 
@@ -154,7 +274,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     setItems((current) =>
       current.map((item) => {
         if (item.productId === productId && item.size === size && item.color === color) {
-          return { ...item, quantity: Math.max(1, Math.min(quantity, 10)) };
+          return { ...item, quantity: Math.max(1, Math.min(quantity, getMaxQuantity(item))) };
         }
         return item;
       }).filter((item) => item.quantity > 0)
@@ -166,7 +286,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       current.map((item) => {
         // Find specific item to update
         if (item.productId === productId && item.size === oldSize && item.color === color) {
-          return { ...item, size: newSize };
+          return withVariant(item, newSize, item.color);
         }
         return item;
       })
@@ -177,7 +297,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     setItems((current) =>
       current.map((item) => {
         if (item.productId === productId && item.size === size && item.color === oldColor) {
-          return { ...item, color: newColor };
+          return withVariant(item, item.size, newColor);
         }
         return item;
       })
@@ -218,7 +338,14 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     });
   };
 
-  const clearCart = () => setItems([]);;
+  const clearCart = () => {
+    setItems([]);
+    setChanges([]);
+  };
+
+  const revalidate = useCallback(() => runValidation(itemsRef.current), [runValidation]);
+
+  const dismissChanges = () => setChanges([]);
 
   const { totalQuantity, subtotal } = useMemo(() => {
     const quantity = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -226,10 +353,22 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     return { totalQuantity: quantity, subtotal: total };
   }, [items]);
 
+  const vendorGroups = useMemo(() => {
+    const groups = new Map<string, VendorGroup>();
+    items.forEach((item) => {
+      const group = groups.get(item.vendorId) ?? { vendorId: item.vendorId, items: [], subtotal: 0 };
+      group.items.push(item);
+      group.subtotal += item.quantity * item.priceKsh;
+      groups.set(item.vendorId, group);
+    });
+    return Array.from(groups.values());
+  }, [items]);
+
   const value: CartContextValue = {
     items,
     totalQuantity,
     subtotal,
+    vendorGroups,
     addItem,
     removeItem,
     updateQuantity,
@@ -240,6 +379,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     hasAllValidSizes,
     getInvalidSizeItems,
     updateColor,
+    changes,
+    validating,
+    revalidate,
+    dismissChanges,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -0,0 +1,88 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { addWishlistItem, fetchWishlistProductIds, removeWishlistItem } from "@/lib/wishlist";
+
+interface WishlistContextValue {
+  signedIn: boolean;
+  productIds: Set<string>;
+  count: number;
+  isWished: (productId: string) => boolean;
+  /** Adds or removes the product; resolves to whether it is now wished */
+  toggle: (productId: string, size?: string | null) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+const WishlistContext = createContext<WishlistContextValue | undefined>(undefined);
+
+export const WishlistProvider = ({ children }: { children: ReactNode }) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [productIds, setProductIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user?.id ?? null));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user?.id ?? null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setProductIds(new Set());
+      return;
+    }
+    try {
+      setProductIds(new Set(await fetchWishlistProductIds()));
+    } catch (error) {
+      console.error("Failed to load wishlist", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const toggle = useCallback<WishlistContextValue["toggle"]>(async (productId, size) => {
+    const wished = productIds.has(productId);
+    const update = (add: boolean) =>
+      setProductIds((current) => {
+        const next = new Set(current);
+        if (add) next.add(productId);
+        else next.delete(productId);
+        return next;
+      });
+
+    // Optimistic; rolled back if the write fails
+    update(!wished);
+    try {
+      if (wished) await removeWishlistItem(productId);
+      else await addWishlistItem(productId, size);
+      return !wished;
+    } catch (error) {
+      console.error("Failed to update wishlist", error);
+      toast.error("Could not update your wishlist");
+      update(wished);
+      return wished;
+    }
+  }, [productIds]);
+
+  const value = useMemo<WishlistContextValue>(() => ({
+    signedIn: !!userId,
+    productIds,
+    count: productIds.size,
+    isWished: (productId) => productIds.has(productId),
+    toggle,
+    refresh,
+  }), [userId, productIds, toggle, refresh]);
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+};
+
+export const useWishlist = (): WishlistContextValue => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+};
@@ -0,0 +1,161 @@
+/**
+ * Cart sync and validation
+ * Signed-in buyers' carts are saved to the carts table so they follow them across
+ * devices; the guest cart is merged in on sign-in. validate_cart() re-checks every line
+ * against current prices and stock (checkout's rules) so the cart can say what changed
+ * since it was filled.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { CartItem } from "@/contexts/CartContext";
+import { fetchProductVariants, getInStockSizes } from "@/lib/variants";
+
+export type CartChange = {
+    productId: string;
+    name: string;
+    size?: string;
+    color?: string;
+    kind: "price_up" | "price_down" | "quantity_reduced" | "option_sold_out" | "sold_out" | "unavailable";
+    previousPrice?: number;
+    currentPrice?: number;
+    /** Units still available, for quantity_reduced */
+    available?: number;
+};
+
+type LineCheck = {
+    line_no: number;
+    product_id: string;
+    status: "ok" | "unavailable" | "sold_out" | "option_sold_out" | "low_stock";
+    unit_price: number | null;
+    available: number;
+    variant_id: string | null;
+};
+
+const sameLine = (a: Pick<CartItem, "productId" | "size" | "color">, b: Pick<CartItem, "productId" | "size" | "color">) =>
+    a.productId === b.productId && (a.size || "") === (b.size || "") && (a.color || "") === (b.color || "");
+
+/** Lines as stored on the server: the variants snapshot is reloaded on validation instead */
+const toStoredLines = (items: CartItem[]) => items.map(({ variants: _variants, ...line }) => line);
+
+export const fetchServerCart = async (): Promise<CartItem[] | null> => {
+    const { data, error } = await supabase.from("carts").select("items").maybeSingle();
+    if (error) throw error;
+    return (data?.items as CartItem[] | undefined) ?? null;
+};
+
+export const saveServerCart = async (userId: string, items: CartItem[]) => {
+    const { error } = await supabase
+        .from("carts")
+        .upsert({ user_id: userId, items: toStoredLines(items) }, { onConflict: "user_id" });
+    if (error) throw error;
+};
+
+/**
+ * Guest cart + saved cart. The same line in both keeps the larger quantity rather than
+ * the sum, since it is usually the same pair added on two devices.
+ */
+export const mergeCarts = (local: CartItem[], server: CartItem[]): CartItem[] => {
+    const merged = [...server];
+    local.forEach((item) => {
+        const index = merged.findIndex((existing) => sameLine(existing, item));
+        if (index === -1) {
+            merged.push(item);
+        } else {
+            merged[index] = { ...merged[index], quantity: Math.max(merged[index].quantity, item.quantity) };
+        }
+    });
+    return merged;
+};
+
+/**
+ * Brings cart lines up to date: current price, quantity capped by stock, fresh size and
+ * color options. Lines that can no longer be bought are dropped and reported; lines whose
+ * chosen size sold out stay so the buyer can pick another size.
+ */
+export const validateCartItems = async (items: CartItem[]): Promise<{ items: CartItem[]; changes: CartChange[] }> => {
+    if (items.length === 0) return { items, changes: [] };
+
+    const [{ data, error }, variants] = await Promise.all([
+        supabase.rpc("validate_cart", {
+            p_items: items.map((item) => ({
+                product_id: item.productId,
+                variant_id: item.variantId ?? null,
+                size: item.size ?? null,
+                color: item.color ?? null,
+                quantity: item.quantity,
+            })),
+        }),
+        fetchProductVariants(Array.from(new Set(items.map((item) => item.productId)))),
+    ]);
+    if (error) throw error;
+
+    const checks = new Map(((data as LineCheck[] | null) ?? []).map((check) => [check.line_no, check]));
+    const changes: CartChange[] = [];
+    const next: CartItem[] = [];
+
+    items.forEach((item, index) => {
+        const check = checks.get(index);
+        const line = { productId: item.productId, name: item.name, size: item.size, color: item.color };
+
+        if (!check || check.status === "unavailable" || check.status === "sold_out") {
+            changes.push({ ...line, kind: check?.status === "sold_out" ? "sold_out" : "unavailable" });
+            return;
+        }
+
+        const productVariants = variants.filter((v) => v.product_id === item.productId);
+        let updated: CartItem = productVariants.length > 0
+            ? {
+                ...item,
+                variants: productVariants,
+                variantId: check.variant_id ?? item.variantId ?? null,
+                availableSizes: getInStockSizes(productVariants, item.color),
+            }
+            : { ...item, variants: undefined };
+
+        if (check.status === "option_sold_out") {
+            changes.push({ ...line, kind: "option_sold_out" });
+        } else if (check.status === "low_stock" && check.available > 0) {
+            changes.push({ ...line, kind: "quantity_reduced", available: check.available });
+            updated = { ...updated, quantity: check.available };
+        }
+
+        const currentPrice = check.unit_price !== null ? Number(check.unit_price) : item.priceKsh;
+        if (currentPrice !== item.priceKsh) {
+            changes.push({
+                ...line,
+                kind: currentPrice > item.priceKsh ? "price_up" : "price_down",
+                previousPrice: item.priceKsh,
+                currentPrice,
+            });
+            // Without a variant price override the product's base price is what changed
+            const variant = productVariants.find((v) => v.id === updated.variantId);
+            updated = {
+                ...updated,
+                priceKsh: currentPrice,
+                basePriceKsh: variant?.price_ksh == null ? currentPrice : updated.basePriceKsh,
+            };
+        }
+
+        next.push(updated);
+    });
+
+    return { items: next, changes };
+};
+
+export const describeCartChange = (change: CartChange): string => {
+    const name = change.size ? `${change.name} (size ${change.size})` : change.name;
+    switch (change.kind) {
+        case "price_up":
+            return `${name} went up from KES ${change.previousPrice?.toLocaleString()} to KES ${change.currentPrice?.toLocaleString()}`;
+        case "price_down":
+            return `${name} dropped from KES ${change.previousPrice?.toLocaleString()} to KES ${change.currentPrice?.toLocaleString()}`;
+        case "quantity_reduced":
+            return `Only ${change.available} left of ${name}, so we lowered the quantity`;
+        case "option_sold_out":
+            return `${name} has sold out in your ${change.size ? "size" : "option"}. Pick another below`;
+        case "sold_out":
+            return `${change.name} has sold out and was removed from your cart`;
+        case "unavailable":
+            return `${change.name} is no longer available and was removed from your cart`;
+    }
+};
@@ -0,0 +1,169 @@
+/**
+ * Brand and model catalog
+ * Listings link to a canonical brand → model → colorway (Nike → Air Force 1 → Triple
+ * White) instead of free-text brands, so filters and price comparison group the same
+ * shoe together. Vendors pick entries with fuzzy search and can add missing ones; admins
+ * merge duplicates (the merged name is kept as an alias).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type CatalogBrand = {
+    id: string;
+    name: string;
+    listings: number;
+};
+
+export type CatalogModel = {
+    id: string;
+    brand_id: string;
+    name: string;
+    listings: number;
+};
+
+export type CatalogColorway = {
+    id: string;
+    model_id: string;
+    name: string;
+    style_code: string | null;
+};
+
+/** The catalog entries a listing points at */
+export type CatalogSelection = {
+    brandId: string | null;
+    modelId: string | null;
+    colorwayId: string | null;
+};
+
+/** get_comparable_listings() row; match is how closely it matches the compared listing */
+export type ComparableListing = {
+    id: string;
+    name: string;
+    price_ksh: number;
+    images: string[] | null;
+    brand: string | null;
+    condition: string;
+    sizes: string[] | null;
+    vendor_id: string;
+    store_name: string | null;
+    average_rating: number | null;
+    review_count: number;
+    model_name: string | null;
+    colorway_name: string | null;
+    match: "colorway" | "model" | "similar";
+};
+
+export const EMPTY_CATALOG_SELECTION: CatalogSelection = { brandId: null, modelId: null, colorwayId: null };
+
+export const searchBrands = async (query: string, limit = 8): Promise<CatalogBrand[]> => {
+    const { data, error } = await supabase.rpc("search_brands", { p_query: query, p_limit: limit });
+    if (error) throw error;
+    return (data as CatalogBrand[] | null) ?? [];
+};
+
+/** Models of a brand; the query may be a partial name or a whole listing title */
+export const searchModels = async (brandId: string, query: string, limit = 8): Promise<CatalogModel[]> => {
+    const { data, error } = await supabase.rpc("search_shoe_models", {
+        p_brand_id: brandId,
+        p_query: query,
+        p_limit: limit,
+    });
+    if (error) throw error;
+    return (data as CatalogModel[] | null) ?? [];
+};
+
+export const fetchColorways = async (modelId: string): Promise<CatalogColorway[]> => {
+    const { data, error } = await supabase
+        .from("model_colorways")
+        .select("id, model_id, name, style_code")
+        .eq("model_id", modelId)
+        .order("name");
+    if (error) throw error;
+    return (data as CatalogColorway[] | null) ?? [];
+};
+
+/** Display names for a saved selection (edit form) */
+export const fetchCatalogNames = async (selection: CatalogSelection) => {
+    const [brand, model, colorway] = await Promise.all([
+        selection.brandId
+            ? supabase.from("brands").select("name").eq("id", selection.brandId).maybeSingle()
+            : null,
+        selection.modelId
+            ? supabase.from("shoe_models").select("name").eq("id", selection.modelId).maybeSingle()
+            : null,
+        selection.colorwayId
+            ? supabase.from("model_colorways").select("name").eq("id", selection.colorwayId).maybeSingle()
+            : null,
+    ]);
+    return {
+        brand: (brand?.data?.name as string | undefined) ?? null,
+        model: (model?.data?.name as string | undefined) ?? null,
+        colorway: (colorway?.data?.name as string | undefined) ?? null,
+    };
+};
+
+// The unique indexes are case-insensitive: adding an entry that already exists
+// (23505, e.g. added by another vendor meanwhile) returns the existing one.
+
+export const createBrand = async (name: string): Promise<CatalogBrand> => {
+    const { data, error } = await supabase.from("brands").insert({ name: name.trim() }).select("id, name").single();
+    if (error?.code === "23505") {
+        const existing = await searchBrands(name, 1);
+        if (existing[0]) return existing[0];
+    }
+    if (error) throw error;
+    return { ...(data as { id: string; name: string }), listings: 0 };
+};
+
+export const createModel = async (brandId: string, name: string): Promise<CatalogModel> => {
+    const { data, error } = await supabase
+        .from("shoe_models")
+        .insert({ brand_id: brandId, name: name.trim() })
+        .select("id, brand_id, name")
+        .single();
+    if (error?.code === "23505") {
+        const existing = await searchModels(brandId, name, 1);
+        if (existing[0]) return existing[0];
+    }
+    if (error) throw error;
+    return { ...(data as { id: string; brand_id: string; name: string }), listings: 0 };
+};
+
+export const createColorway = async (modelId: string, name: string): Promise<CatalogColorway> => {
+    const { data, error } = await supabase
+        .from("model_colorways")
+        .insert({ model_id: modelId, name: name.trim() })
+        .select("id, model_id, name, style_code")
+        .single();
+    if (error?.code === "23505") {
+        const existing = (await fetchColorways(modelId)).find(
+            (colorway) => colorway.name.toLowerCase() === name.trim().toLowerCase()
+        );
+        if (existing) return existing;
+    }
+    if (error) throw error;
+    return data as CatalogColorway;
+};
+
+/** Admin: moves the source brand's models and listings to the target, then deletes it */
+export const mergeBrands = async (sourceId: string, targetId: string): Promise<number> => {
+    const { data, error } = await supabase.rpc("merge_brands", { p_source_id: sourceId, p_target_id: targetId });
+    if (error) throw error;
+    return (data as number | null) ?? 0;
+};
+
+/** Admin: moves the source model's colorways and listings to the target, then deletes it */
+export const mergeModels = async (sourceId: string, targetId: string): Promise<number> => {
+    const { data, error } = await supabase.rpc("merge_shoe_models", { p_source_id: sourceId, p_target_id: targetId });
+    if (error) throw error;
+    return (data as number | null) ?? 0;
+};
+
+export const fetchComparableListings = async (productId: string, limit = 20): Promise<ComparableListing[]> => {
+    const { data, error } = await supabase.rpc("get_comparable_listings", {
+        p_product_id: productId,
+        p_limit: limit,
+    });
+    if (error) throw error;
+    return (data as ComparableListing[] | null) ?? [];
+};
@@ -0,0 +1,106 @@
+/**
+ * Commission rule helpers
+ * Rules live in commission_rules and are applied server-side by create_checkout_orders.
+ * Precedence: vendor override > promotion > category > monthly GMV tier > default.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type CommissionRuleType = "default" | "category" | "vendor" | "promotion" | "gmv_tier";
+
+export type CommissionRule = {
+    id: string;
+    name: string;
+    rule_type: CommissionRuleType;
+    rate: number;
+    category: string | null;
+    vendor_id: string | null;
+    min_monthly_gmv: number | null;
+    starts_at: string | null;
+    ends_at: string | null;
+    priority: number;
+    is_active: boolean;
+    notes: string | null;
+    created_at?: string;
+};
+
+export type CommissionRuleInput = Omit<CommissionRule, "id" | "created_at"> & { id?: string };
+
+export const COMMISSION_RULE_TYPES: { value: CommissionRuleType; label: string; description: string }[] = [
+    { value: "default", label: "Default", description: "Applies when nothing more specific matches" },
+    { value: "category", label: "Category", description: "Rate for a product category" },
+    { value: "vendor", label: "Vendor override", description: "Custom rate for one vendor" },
+    { value: "promotion", label: "Promotion", description: "Time-limited rate, optionally for a category or vendor" },
+    { value: "gmv_tier", label: "GMV tier", description: "Rate once a vendor's monthly sales reach a threshold" },
+];
+
+/** Group key matching every footwear category (everything except accessories) */
+export const SHOES_CATEGORY_KEY = "shoes";
+
+/** Used when the rules can't be loaded; matches the seeded default rule */
+export const FALLBACK_COMMISSION_RATE = 10;
+
+/** Loads all commission rules visible to the current user */
+export const fetchCommissionRules = async (): Promise<CommissionRule[]> => {
+    const { data, error } = await supabase
+        .from("commission_rules")
+        .select("*")
+        .order("rule_type")
+        .order("priority", { ascending: false })
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        console.error("Failed to load commission rules", error);
+        return [];
+    }
+    return (data || []) as CommissionRule[];
+};
+
+/** Creates or updates a rule (admin only, enforced by RLS) */
+export const saveCommissionRule = async (rule: CommissionRuleInput) => {
+    const { id, ...fields } = rule;
+    if (id) {
+        return await supabase.from("commission_rules").update(fields).eq("id", id);
+    }
+    const { data: { user } } = await supabase.auth.getUser();
+    return await supabase.from("commission_rules").insert({ ...fields, created_by: user?.id ?? null });
+};
+
+export const deleteCommissionRule = async (id: string) =>
+    await supabase.from("commission_rules").delete().eq("id", id);
+
+/** The marketplace-wide default rate, for marketing copy */
+export const fetchDefaultCommissionRate = async (): Promise<number> => {
+    const { data, error } = await supabase
+        .from("commission_rules")
+        .select("rate")
+        .eq("rule_type", "default")
+        .eq("is_active", true)
+        .order("priority", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error || !data) return FALLBACK_COMMISSION_RATE;
+    return Number(data.rate);
+};
+
+/** Human-readable scope of a rule, e.g. "Accessories · until 31 Dec" */
+export const describeRuleScope = (
+    rule: CommissionRule,
+    vendorNames: Record<string, string> = {},
+    categoryName: (key: string) => string = (key) => key
+): string => {
+    const parts: string[] = [];
+    if (rule.category) {
+        parts.push(rule.category === SHOES_CATEGORY_KEY ? "All shoes" : categoryName(rule.category));
+    }
+    if (rule.vendor_id) parts.push(vendorNames[rule.vendor_id] || "Vendor");
+    if (rule.min_monthly_gmv != null) parts.push(`GMV ≥ KES ${Number(rule.min_monthly_gmv).toLocaleString()}/month`);
+    if (rule.starts_at || rule.ends_at) {
+        const fmt = (d: string) => new Date(d).toLocaleDateString("en-KE", { day: "numeric", month: "short", year: "numeric" });
+        if (rule.starts_at && rule.ends_at) parts.push(`${fmt(rule.starts_at)} – ${fmt(rule.ends_at)}`);
+        else if (rule.starts_at) parts.push(`from ${fmt(rule.starts_at)}`);
+        else if (rule.ends_at) parts.push(`until ${fmt(rule.ends_at)}`);
+    }
+    return parts.length > 0 ? parts.join(" · ") : "All sales";
+};
@@ -0,0 +1,210 @@
+/**
+ * Dispute case helpers
+ * A dispute is a conversation (dispute_messages) between the buyer, the vendor and
+ * support. Messages go through post_dispute_message, which also moves the reply
+ * deadline on; return-before-refund settlements go through manage-order-return.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type DisputeReason = "no_delivery" | "wrong_item" | "damaged" | "other";
+
+export type DisputeStatus =
+    | "open"
+    | "under_review"
+    | "awaiting_return"
+    | "resolved_refund"
+    | "resolved_release"
+    | "resolved_partial_refund"
+    | "closed";
+
+export type DisputeParty = "buyer" | "vendor";
+
+export type DisputeSenderRole = DisputeParty | "admin" | "system";
+
+export type SettlementType = "refund" | "release" | "partial_refund" | "split" | "return_then_refund" | "closed";
+
+/** Checked checklist items, keyed by item */
+export type DisputeChecklist = Record<string, { by: string | null; at: string }>;
+
+/** The case fields shared by the buyer, vendor and admin views */
+export type DisputeCase = {
+    id: string;
+    order_id: string;
+    customer_id: string;
+    vendor_id: string;
+    reason: string;
+    status: string;
+    opened_at: string;
+    assigned_to: string | null;
+    awaiting_party: DisputeParty | null;
+    response_due_at: string | null;
+    escalated_at: string | null;
+    checklist: DisputeChecklist | null;
+    settlement_type: SettlementType | null;
+    settlement_amount_ksh: number | null;
+    return_id: string | null;
+};
+
+export type DisputeMessage = {
+    id: string;
+    dispute_id: string;
+    sender_id: string | null;
+    sender_role: DisputeSenderRole;
+    body: string;
+    attachment_urls: string[];
+    internal: boolean;
+    created_at: string;
+};
+
+export const disputeReasonLabels: Record<string, string> = {
+    no_delivery: "Did not receive",
+    wrong_item: "Wrong item",
+    damaged: "Damaged",
+    other: "Other",
+};
+
+export const disputeStatusColors: Record<string, string> = {
+    open: "bg-red-500",
+    under_review: "bg-yellow-500",
+    awaiting_return: "bg-orange-500",
+    resolved_refund: "bg-blue-500",
+    resolved_release: "bg-green-500",
+    resolved_partial_refund: "bg-purple-500",
+    closed: "bg-gray-500",
+};
+
+export const settlementLabels: Record<SettlementType, string> = {
+    refund: "Full refund",
+    release: "Released to vendor",
+    partial_refund: "Partial refund",
+    split: "Split payout",
+    return_then_refund: "Return before refund",
+    closed: "Closed",
+};
+
+/** Statuses where the case is still being worked and the thread is open */
+export const activeDisputeStatuses: DisputeStatus[] = ["open", "under_review", "awaiting_return"];
+
+export const isDisputeActive = (status: string) =>
+    activeDisputeStatuses.includes(status as DisputeStatus);
+
+/** What support checks before deciding, per reason; "other" has no checklist */
+export const DISPUTE_CHECKLISTS: Partial<Record<DisputeReason, { key: string; label: string }[]>> = {
+    no_delivery: [
+        { key: "tracking_checked", label: "Courier tracking or rider location checked" },
+        { key: "dispatch_proof", label: "Vendor proof of dispatch received" },
+        { key: "address_confirmed", label: "Buyer's address and phone number confirmed" },
+        { key: "delivery_code_checked", label: "Delivery code was not confirmed by the buyer" },
+    ],
+    wrong_item: [
+        { key: "buyer_photos", label: "Buyer photos of the item received" },
+        { key: "listing_compared", label: "Compared with the listing (model, size, colour)" },
+        { key: "vendor_explanation", label: "Vendor explanation received" },
+        { key: "returnable", label: "Item is unworn and can be returned" },
+    ],
+    damaged: [
+        { key: "damage_photos", label: "Buyer photos of the damage" },
+        { key: "packaging_photos", label: "Packaging photos (damaged in transit?)" },
+        { key: "dispatch_condition", label: "Vendor photos of the item at dispatch" },
+        { key: "severity_assessed", label: "Severity assessed: partial refund, return or full refund" },
+    ],
+};
+
+export const disputeChecklist = (reason: string) =>
+    DISPUTE_CHECKLISTS[reason as DisputeReason] ?? [];
+
+export const fetchDisputeMessages = async (disputeId: string): Promise<DisputeMessage[]> => {
+    const { data, error } = await supabase
+        .from("dispute_messages")
+        .select("*")
+        .eq("dispute_id", disputeId)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        console.error("Failed to load dispute messages", error);
+        return [];
+    }
+    return (data || []) as DisputeMessage[];
+};
+
+/**
+ * Adds a message to the thread. Support can post internal notes and ask a party to
+ * reply, which starts their reply deadline. Throws with a readable message.
+ */
+export const postDisputeMessage = async (
+    disputeId: string,
+    body: string,
+    options: { attachmentUrls?: string[]; internal?: boolean; requestResponseFrom?: DisputeParty | null } = {}
+): Promise<DisputeMessage> => {
+    const { data, error } = await supabase.rpc("post_dispute_message", {
+        p_dispute_id: disputeId,
+        p_body: body,
+        p_attachment_urls: options.attachmentUrls ?? [],
+        p_internal: options.internal ?? false,
+        p_request_response_from: options.requestResponseFrom ?? null,
+    });
+
+    if (error) {
+        throw new Error((error.message || "Message could not be sent").replace(/^[A-Z_]+:\s*/, ""));
+    }
+    return data as DisputeMessage;
+};
+
+/** Uploads attachments under the sender's role folder and returns their public URLs */
+export const uploadDisputeAttachments = async (
+    role: DisputeSenderRole,
+    disputeId: string,
+    files: File[]
+): Promise<string[]> => {
+    const urls: string[] = [];
+    for (const file of files) {
+        const path = `${role}/${disputeId}/${Date.now()}-${file.name}`;
+        const { data, error } = await supabase.storage.from("dispute-evidence").upload(path, file);
+        if (error) throw new Error(`Upload failed: ${error.message}`);
+        urls.push(supabase.storage.from("dispute-evidence").getPublicUrl(data.path).data.publicUrl);
+    }
+    return urls;
+};
+
+/** Ticks or unticks a checklist item (admin only, enforced by RLS) */
+export const updateDisputeChecklist = async (
+    dispute: Pick<DisputeCase, "id" | "checklist">,
+    key: string,
+    checked: boolean,
+    userId: string | null
+) => {
+    const checklist = { ...(dispute.checklist ?? {}) };
+    if (checked) checklist[key] = { by: userId, at: new Date().toISOString() };
+    else delete checklist[key];
+
+    const { error } = await supabase.from("disputes").update({ checklist }).eq("id", dispute.id);
+    if (error) throw error;
+    return checklist;
+};
+
+/** Assigns the case to an admin, or unassigns it */
+export const assignDispute = async (disputeId: string, adminId: string | null) => {
+    const { error } = await supabase
+        .from("disputes")
+        .update({ assigned_to: adminId, assigned_at: adminId ? new Date().toISOString() : null })
+        .eq("id", disputeId);
+    if (error) throw error;
+};
+
+/** Admins who can be assigned a case */
+export const fetchDisputeAdmins = async (): Promise<{ id: string; name: string }[]> => {
+    const { data: roles } = await supabase.from("user_roles").select("user_id").eq("role", "admin");
+    const ids = (roles || []).map((r: { user_id: string }) => r.user_id);
+    if (ids.length === 0) return [];
+
+    const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", ids);
+
+    return ids.map((id: string) => {
+        const profile = (profiles || []).find((p: any) => p.id === id);
+        return { id, name: profile?.full_name || profile?.email || id.slice(0, 8) };
+    });
+};
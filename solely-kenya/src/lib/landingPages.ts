@@ -0,0 +1,82 @@
+/**
+ * SEO landing pages
+ * /shoes/nike, /shoes/men/size-42, /shoes/nairobi ... up to a brand, a shoe category, a
+ * size and a seller county, always in that order. get_landing_page resolves a path
+ * (canonical path, copy, listings, links one filter deeper); the Cloudflare function in
+ * functions/shoes injects the same data as meta tags for crawlers.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { CATEGORIES } from "@/lib/categories";
+import type { RecommendedProduct } from "@/lib/recommendations";
+import type { SearchFilters } from "@/lib/search";
+
+export type LandingRelatedLink = {
+    kind: "brand" | "category" | "size" | "location";
+    label: string;
+    path: string;
+    listings: number;
+};
+
+export type LandingPage = {
+    /** Canonical path; redirect here when the URL differs */
+    path: string;
+    brand: { slug: string; name: string } | null;
+    category: string | null;
+    size: string | null;
+    location: { slug: string; name: string } | null;
+    heading: string;
+    description: string;
+    total: number;
+    min_price: number | null;
+    max_price: number | null;
+    lastmod: string | null;
+    /** One or two filters and enough listings; other pages are served as noindex */
+    indexable: boolean;
+    products: RecommendedProduct[];
+    related: LandingRelatedLink[];
+};
+
+/** Same rules as catalog_slug() in Postgres */
+export const landingSlug = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+const SHOE_CATEGORY_KEYS: string[] = CATEGORIES.map((c) => c.key).filter((key) => key !== "accessories");
+
+/** NULL when the path is not a landing page (unknown brand, size, ...) */
+export const fetchLandingPage = async (segments: string[]): Promise<LandingPage | null> => {
+    const { data, error } = await supabase.rpc("get_landing_page", { p_segments: segments, p_limit: 24 });
+    if (error) throw error;
+    return (data as LandingPage | null) ?? null;
+};
+
+/**
+ * The landing page a shop filter combination duplicates, e.g. /shop?brand=nike&category=men
+ * → /shoes/nike/men. Only brand, category and size (at most two) have one; anything with a
+ * query, price, condition or accessory filter returns null.
+ */
+export const landingPathForFilters = (filters: SearchFilters): string | null => {
+    const set = (value?: string) => (value && value !== "all" ? value : undefined);
+    if (set(filters.query?.trim()) || set(filters.condition) || set(filters.accessoryType)) return null;
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) return null;
+
+    const brand = set(filters.brand);
+    const category = set(filters.category);
+    const size = set(filters.size);
+    if (category && !SHOE_CATEGORY_KEYS.includes(category)) return null;
+    if (size && !/^\d{2}(\.5)?$/.test(size)) return null;
+
+    const segments = [brand && landingSlug(brand), category, size && `size-${size}`].filter(Boolean);
+    if (segments.length === 0 || segments.length > 2) return null;
+    return `/shoes/${segments.join("/")}`;
+};
+
+/** The shop with the page's filters applied, for sorting and narrowing further */
+export const shopUrlForLanding = (page: LandingPage) => {
+    const params = new URLSearchParams();
+    if (page.brand) params.set("brand", page.brand.name);
+    if (page.category) params.set("category", page.category);
+    if (page.size) params.set("size", page.size);
+    const query = params.toString();
+    return query ? `/shop?${query}` : "/shop";
+};
@@ -0,0 +1,101 @@
+/**
+ * Order status helpers
+ * Status changes go through the transition_order_status RPC, which checks the move
+ * against order_status_transitions (and who may make it) and records it in
+ * order_events. Writing orders.status directly is rejected for signed-in users.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type OrderStatus =
+    | "pending_payment"
+    | "pending_vendor_confirmation"
+    | "accepted"
+    | "shipped"
+    | "arrived"
+    | "delivered"
+    | "completed"
+    | "disputed"
+    | "return_in_progress"
+    | "refunded"
+    | "cancelled_by_vendor"
+    | "cancelled_by_customer";
+
+export type OrderActor = "buyer" | "vendor" | "admin" | "system";
+
+export type OrderEvent = {
+    id: string;
+    order_id: string;
+    from_status: OrderStatus | null;
+    to_status: OrderStatus;
+    actor_role: OrderActor;
+    actor_id: string | null;
+    reason: string | null;
+    metadata: Record<string, unknown>;
+    created_at: string;
+};
+
+/** What happened, as a timeline entry: the status the order moved into */
+export const orderEventLabels: Record<OrderStatus, string> = {
+    pending_payment: "Order placed, waiting for payment",
+    pending_vendor_confirmation: "Paid, waiting for the vendor",
+    accepted: "Accepted by the vendor",
+    shipped: "Shipped",
+    arrived: "Arrived / ready for pickup",
+    delivered: "Delivered",
+    completed: "Completed",
+    disputed: "Problem reported",
+    return_in_progress: "Return or exchange opened",
+    refunded: "Refunded",
+    cancelled_by_vendor: "Declined by the vendor",
+    cancelled_by_customer: "Cancelled by the buyer",
+};
+
+/** Deadline changes by support (manage_order_sla) are logged without a status change */
+const slaEventLabels: Record<string, string> = {
+    pause: "Deadline paused",
+    resume: "Deadline resumed",
+    extend: "Deadline extended",
+};
+
+/** Timeline label for an event */
+export const describeOrderEvent = (event: OrderEvent): string => {
+    const sla = event.metadata?.sla;
+    if (typeof sla === "string") return slaEventLabels[sla] ?? "Deadline changed";
+    return orderEventLabels[event.to_status] ?? event.to_status;
+};
+
+export const orderActorLabels: Record<OrderActor, string> = {
+    buyer: "Buyer",
+    vendor: "Vendor",
+    admin: "Solely support",
+    system: "Automatic",
+};
+
+/** Statuses from which the buyer can report a problem (see order_status_transitions) */
+export const buyerDisputableStatuses: OrderStatus[] = [
+    "pending_vendor_confirmation", "accepted", "shipped", "arrived", "delivered",
+];
+
+/** Move an order to a new status. Throws with a readable message if the move is not allowed. */
+export const transitionOrderStatus = async (
+    orderId: string,
+    status: OrderStatus,
+    options: { reason?: string; metadata?: Record<string, unknown> } = {}
+) => {
+    const { data, error } = await supabase.rpc("transition_order_status", {
+        p_order_id: orderId,
+        p_status: status,
+        p_reason: options.reason ?? null,
+        p_metadata: options.metadata ?? {},
+    });
+
+    if (error) {
+        throw new Error((error.message || "Order status could not be changed").replace(/^[A-Z_]+:\s*/, ""));
+    }
+    return data;
+};
+
+/** Oldest first, for timelines */
+export const sortOrderEvents = (events: OrderEvent[] | null | undefined) =>
+    [...(events ?? [])].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
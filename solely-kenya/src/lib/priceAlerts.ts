@@ -0,0 +1,91 @@
+/**
+ * Price-drop alerts
+ * "Notify me on price drop" from the product page. The price-drop-alerts edge function
+ * sends a push and an email when the price falls below the price at the time the alert
+ * was set (any drop) or to the buyer's target price.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type PriceAlert = {
+    id: string;
+    user_id: string;
+    product_id: string;
+    target_price: number | null;
+    original_price: number;
+    is_active: boolean;
+    notified_at: string | null;
+    last_notified_price: number | null;
+    notify_count: number;
+    created_at: string;
+};
+
+export type PriceAlertWithProduct = PriceAlert & {
+    products: {
+        id: string;
+        name: string;
+        brand: string | null;
+        price_ksh: number;
+        images: string[] | null;
+        status: string;
+    } | null;
+};
+
+export const describePriceAlert = (alert: Pick<PriceAlert, "target_price">) =>
+    alert.target_price
+        ? `When it's KES ${Number(alert.target_price).toLocaleString()} or less`
+        : "On any price drop";
+
+export const fetchPriceAlert = async (userId: string, productId: string): Promise<PriceAlert | null> => {
+    const { data, error } = await supabase
+        .from("price_alerts")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("product_id", productId)
+        .maybeSingle();
+    if (error) throw error;
+    return (data as PriceAlert | null) ?? null;
+};
+
+export const fetchPriceAlerts = async (): Promise<PriceAlertWithProduct[]> => {
+    const { data, error } = await supabase
+        .from("price_alerts")
+        .select("*, products(id, name, brand, price_ksh, images, status)")
+        .order("created_at", { ascending: false });
+    if (error) throw error;
+    return (data as PriceAlertWithProduct[] | null) ?? [];
+};
+
+/**
+ * Creates the alert, or re-arms an existing one (one per product) from the current
+ * price. targetPrice null = any drop.
+ */
+export const savePriceAlert = async (
+    userId: string,
+    productId: string,
+    currentPrice: number,
+    targetPrice: number | null
+): Promise<PriceAlert> => {
+    const { data, error } = await supabase
+        .from("price_alerts")
+        .upsert(
+            {
+                user_id: userId,
+                product_id: productId,
+                original_price: currentPrice,
+                target_price: targetPrice,
+                is_active: true,
+                notified_at: null,
+            },
+            { onConflict: "user_id,product_id" }
+        )
+        .select("*")
+        .single();
+    if (error) throw error;
+    return data as PriceAlert;
+};
+
+export const deletePriceAlert = async (id: string) => {
+    const { error } = await supabase.from("price_alerts").delete().eq("id", id);
+    if (error) throw error;
+};
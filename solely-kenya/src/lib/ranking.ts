@@ -0,0 +1,30 @@
+/**
+ * Ranking signals
+ * Records what signed-in shoppers search for and add to cart so the "For You" sort
+ * (product_ranking_scores in Postgres) can follow them across devices. Views are
+ * captured by product_views.viewer_id automatically. Guests are not recorded; their
+ * recent searches are sent with each search instead (see lib/search.ts).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/** Runs the insert only when someone is signed in; failures never affect the caller */
+const recordForSignedInUser = async (table: string, row: Record<string, unknown>) => {
+    try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+
+        const { error } = await supabase.from(table).insert(row);
+        if (error) console.warn(`Failed to record ${table}`, error);
+    } catch (error) {
+        console.warn(`Failed to record ${table}`, error);
+    }
+};
+
+export const recordSearchTerm = (term: string) => {
+    void recordForSignedInUser("user_search_terms", { term: term.slice(0, 100) });
+};
+
+export const recordCartAddition = (productId: string, size?: string) => {
+    void recordForSignedInUser("cart_additions", { product_id: productId, size: size || null });
+};
@@ -0,0 +1,54 @@
+/**
+ * Product recommendations
+ * "Similar style", "Frequently bought together" and "Others also viewed" for the product
+ * page, precomputed nightly in product_recommendations and fetched with one RPC.
+ * Guest views carry a per-tab browsing session id so they count towards "also viewed".
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type RecommendedProduct = {
+    id: string;
+    name: string;
+    brand: string | null;
+    price_ksh: number;
+    images: string[] | null;
+    condition: "new" | "like_new" | "good" | "fair" | null;
+    video_url: string | null;
+    created_at: string;
+    average_rating: number | null;
+    review_count: number;
+};
+
+export type ProductRecommendations = {
+    similar: RecommendedProduct[];
+    bought_together: RecommendedProduct[];
+    also_viewed: RecommendedProduct[];
+};
+
+const SESSION_KEY = "solely_browsing_session";
+
+const EMPTY: ProductRecommendations = { similar: [], bought_together: [], also_viewed: [] };
+
+/** Per-tab id grouping a guest's product views into a browsing session */
+export const getBrowsingSessionId = (): string | null => {
+    try {
+        let id = window.sessionStorage.getItem(SESSION_KEY);
+        if (!id) {
+            id = crypto.randomUUID();
+            window.sessionStorage.setItem(SESSION_KEY, id);
+        }
+        return id;
+    } catch {
+        return null;
+    }
+};
+
+export const fetchProductRecommendations = async (productId: string, limit = 10): Promise<ProductRecommendations> => {
+    const { data, error } = await supabase.rpc("get_product_recommendations", {
+        p_product_id: productId,
+        p_limit: limit,
+    });
+    if (error) throw error;
+    return { ...EMPTY, ...((data as ProductRecommendations | null) ?? {}) };
+};
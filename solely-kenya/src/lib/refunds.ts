@@ -0,0 +1,81 @@
+/**
+ * Refund helpers
+ * Full and partial refunds go through the process-refund edge function, which
+ * validates the request against what is left on the order and splits escrow.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type RefundableItem = {
+    id: string;
+    product_name: string;
+    quantity: number;
+    unit_price_ksh: number;
+    refunded_quantity?: number | null;
+    size?: string | null;
+    color?: string | null;
+};
+
+export type RefundableOrder = {
+    id: string;
+    total_ksh: number;
+    shipping_fee_ksh?: number | null;
+    refunded_amount_ksh?: number | null;
+    delivery_fee_refunded?: boolean | null;
+    order_items: RefundableItem[];
+};
+
+export type PartialRefundRequest = {
+    items: Array<{ orderItemId: string; quantity: number }>;
+    refundDeliveryFee: boolean;
+    amount: number;
+};
+
+export type PartialRefundResult = {
+    refundId: string;
+    amount: number;
+    commissionReversed: number;
+    released: boolean;
+};
+
+/** Units of an item that have not been refunded yet */
+export const remainingQuantity = (item: RefundableItem) =>
+    item.quantity - (item.refunded_quantity ?? 0);
+
+/** What is still refundable on the order */
+export const remainingRefundable = (order: RefundableOrder) =>
+    Number(order.total_ksh) - Number(order.refunded_amount_ksh ?? 0);
+
+/** Total of a partial refund request, as the server will compute it */
+export const partialRefundTotal = (order: RefundableOrder, request: PartialRefundRequest) => {
+    const items = request.items.reduce((total, line) => {
+        const item = order.order_items.find((i) => i.id === line.orderItemId);
+        return total + (item ? Number(item.unit_price_ksh) * line.quantity : 0);
+    }, 0);
+    const delivery = request.refundDeliveryFee ? Number(order.shipping_fee_ksh ?? 0) : 0;
+    return Math.round((items + delivery + (request.amount || 0)) * 100) / 100;
+};
+
+/** Refund part of an order. Admins can release the rest of the escrow to the vendor in the same call. */
+export const requestPartialRefund = async (
+    orderId: string,
+    request: PartialRefundRequest,
+    options: { reason?: string; disputeId?: string; releaseRemainder?: boolean } = {}
+): Promise<PartialRefundResult> => {
+    const { data, error } = await supabase.functions.invoke("process-refund", {
+        body: {
+            orderId,
+            items: request.items,
+            refundDeliveryFee: request.refundDeliveryFee,
+            amount: request.amount,
+            reason: options.reason,
+            disputeId: options.disputeId,
+            releaseRemainder: options.releaseRemainder ?? false,
+        },
+    });
+
+    if (error || !data?.success) {
+        throw new Error(data?.error || error?.message || "Refund failed");
+    }
+    return data as PartialRefundResult;
+};
@@ -0,0 +1,119 @@
+/**
+ * Return / exchange helpers
+ * Every transition goes through the manage-order-return edge function; the tables
+ * are read-only from the client.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type ReturnType = "exchange" | "refund";
+
+export type ReturnStatus =
+    | "requested"
+    | "accepted"
+    | "declined"
+    | "return_shipped"
+    | "return_received"
+    | "exchange_shipped"
+    | "completed"
+    | "cancelled";
+
+export type ReturnReason = "wrong_size" | "wrong_item" | "defective" | "not_as_described" | "other";
+
+export type OrderReturn = {
+    id: string;
+    order_id: string;
+    order_item_id: string;
+    customer_id: string;
+    vendor_id: string;
+    return_type: ReturnType;
+    status: ReturnStatus;
+    reason: ReturnReason;
+    details: string | null;
+    photo_urls: string[] | null;
+    quantity: number;
+    requested_variant_id: string | null;
+    requested_size: string | null;
+    requested_color: string | null;
+    vendor_response: string | null;
+    return_courier: string | null;
+    return_tracking_number: string | null;
+    return_shipped_at: string | null;
+    return_received_at: string | null;
+    exchange_courier: string | null;
+    exchange_tracking_number: string | null;
+    exchange_shipped_at: string | null;
+    refund_id: string | null;
+    created_at: string;
+    completed_at: string | null;
+};
+
+export const returnReasons: { value: ReturnReason; label: string }[] = [
+    { value: "wrong_size", label: "Wrong size / doesn't fit" },
+    { value: "wrong_item", label: "Received the wrong item" },
+    { value: "defective", label: "Defective or damaged" },
+    { value: "not_as_described", label: "Not as described" },
+    { value: "other", label: "Other" },
+];
+
+export const returnStatusLabels: Record<ReturnStatus, string> = {
+    requested: "Waiting for vendor",
+    accepted: "Accepted - send the item back",
+    declined: "Declined",
+    return_shipped: "Return on its way",
+    return_received: "Return received",
+    exchange_shipped: "Replacement on its way",
+    completed: "Completed",
+    cancelled: "Cancelled",
+};
+
+/** Statuses where the return still needs action */
+export const openReturnStatuses: ReturnStatus[] = [
+    "requested", "accepted", "return_shipped", "return_received", "exchange_shipped",
+];
+
+/** The return that is currently open on an order, if any */
+export const findOpenReturn = (returns: OrderReturn[] | null | undefined) =>
+    returns?.find((r) => openReturnStatuses.includes(r.status)) ?? null;
+
+export type ReturnAction =
+    | { action: "request"; orderId: string; orderItemId: string; returnType: ReturnType; reason: ReturnReason; details?: string; photoUrls?: string[]; quantity: number; variantId?: string }
+    | { action: "respond"; returnId: string; accept: boolean; response?: string }
+    | { action: "cancel"; returnId: string }
+    | { action: "ship_return" | "ship_exchange"; returnId: string; courier: string; trackingNumber?: string }
+    | { action: "confirm_return"; returnId: string; otp?: string }
+    | { action: "confirm_exchange"; returnId: string; otp: string }
+    | { action: "dispute_return"; disputeId: string; orderItemId: string; quantity: number; instructions?: string; notes?: string };
+
+export const manageOrderReturn = async (body: ReturnAction): Promise<OrderReturn> => {
+    const { data, error } = await supabase.functions.invoke("manage-order-return", { body });
+
+    if (error || !data?.success) {
+        throw new Error(data?.error || error?.message || "Return update failed");
+    }
+    return data.return as OrderReturn;
+};
+
+/** Delivery code the signed-in user holds for a return leg (RLS only returns your own) */
+export const fetchReturnCode = async (returnId: string, leg: "return" | "exchange"): Promise<string | null> => {
+    const { data } = await supabase
+        .from("order_return_otps")
+        .select("code, verified_at")
+        .eq("return_id", returnId)
+        .eq("leg", leg)
+        .maybeSingle();
+
+    return data && !data.verified_at ? data.code : null;
+};
+
+/** Uploads return photos under the buyer's folder and returns their public URLs */
+export const uploadReturnPhotos = async (userId: string, orderId: string, files: File[]): Promise<string[]> => {
+    const urls: string[] = [];
+    for (const file of files) {
+        const path = `${userId}/${orderId}/${Date.now()}-${file.name}`;
+        const { data, error } = await supabase.storage.from("return-photos").upload(path, file);
+        if (error) throw new Error(`Photo upload failed: ${error.message}`);
+        urls.push(supabase.storage.from("return-photos").getPublicUrl(data.path).data.publicUrl);
+    }
+    return urls;
+};
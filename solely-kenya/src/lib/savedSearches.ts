@@ -0,0 +1,160 @@
+/**
+ * Saved searches
+ * Shop filter sets a buyer wants to be alerted about. The saved-search-alerts edge
+ * function checks them against newly published listings every 30 minutes.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getCategoryName } from "@/lib/categories";
+import { getAccessoryTypeName } from "@/lib/accessoryTypes";
+import type { SearchFilters } from "@/lib/search";
+
+export type SavedSearch = {
+    id: string;
+    user_id: string;
+    name: string;
+    query: string | null;
+    brand: string | null;
+    category: string | null;
+    size: string | null;
+    condition: string | null;
+    accessory_type: string | null;
+    min_price: number | null;
+    max_price: number | null;
+    notify_push: boolean;
+    notify_email: boolean;
+    is_active: boolean;
+    last_checked_at: string;
+    last_notified_at: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+export type SavedSearchFields = Pick<
+    SavedSearch,
+    "query" | "brand" | "category" | "size" | "condition" | "accessory_type" | "min_price" | "max_price"
+>;
+
+export const MAX_SAVED_SEARCHES = 20;
+
+const conditionLabels: Record<string, string> = {
+    new: "Mint",
+    like_new: "Like New",
+    good: "Good",
+    fair: "Fair",
+};
+
+/** Shop filters as saved-search columns; "all"/empty become null (any) */
+export const toSavedSearchFields = (filters: SearchFilters): SavedSearchFields => {
+    const orNull = (value?: string) => (value && value !== "all" ? value : null);
+    return {
+        query: filters.query?.trim() || null,
+        brand: orNull(filters.brand),
+        category: orNull(filters.category),
+        size: orNull(filters.size),
+        condition: orNull(filters.condition),
+        accessory_type: orNull(filters.accessoryType),
+        min_price: filters.minPrice ?? null,
+        max_price: filters.maxPrice ?? null,
+    };
+};
+
+export const hasSavedSearchFilters = (fields: SavedSearchFields) =>
+    Object.values(fields).some((value) => value !== null);
+
+/** Readable summary, e.g. "jordan 4 · Nike · EU 43 · under KES 6,000" */
+export const describeSavedSearch = (fields: SavedSearchFields): string => {
+    const parts: string[] = [];
+    if (fields.query) parts.push(`"${fields.query}"`);
+    if (fields.brand) parts.push(fields.brand.charAt(0).toUpperCase() + fields.brand.slice(1));
+    if (fields.category) parts.push(getCategoryName(fields.category));
+    if (fields.accessory_type) parts.push(getAccessoryTypeName(fields.accessory_type));
+    if (fields.size) parts.push(`EU ${fields.size}`);
+    if (fields.condition) parts.push(conditionLabels[fields.condition] ?? fields.condition);
+    if (fields.min_price !== null && fields.max_price !== null) {
+        parts.push(`KES ${fields.min_price.toLocaleString()} - ${fields.max_price.toLocaleString()}`);
+    } else if (fields.max_price !== null) {
+        parts.push(`under KES ${fields.max_price.toLocaleString()}`);
+    } else if (fields.min_price !== null) {
+        parts.push(`KES ${fields.min_price.toLocaleString()}+`);
+    }
+    return parts.length > 0 ? parts.join(" · ") : "All listings";
+};
+
+/** Shop URL that restores the saved filters */
+export const savedSearchUrl = (fields: SavedSearchFields): string => {
+    const params = new URLSearchParams();
+    if (fields.query) params.set("search", fields.query);
+    if (fields.brand) params.set("brand", fields.brand);
+    if (fields.category) params.set("category", fields.category);
+    if (fields.size) params.set("size", fields.size);
+    if (fields.condition) params.set("condition", fields.condition);
+    if (fields.accessory_type) params.set("type", fields.accessory_type);
+    if (fields.min_price !== null) params.set("min", String(fields.min_price));
+    if (fields.max_price !== null) params.set("max", String(fields.max_price));
+    return `/shop?${params}`;
+};
+
+export const fetchSavedSearches = async (): Promise<SavedSearch[]> => {
+    const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*")
+        .order("created_at", { ascending: false });
+    if (error) throw error;
+    return (data as SavedSearch[] | null) ?? [];
+};
+
+/** Alerts sent per saved search, for "12 listings sent" */
+export const fetchSavedSearchAlertCounts = async (searchIds: string[]): Promise<Record<string, number>> => {
+    if (searchIds.length === 0) return {};
+    const { data, error } = await supabase
+        .from("saved_search_alerts")
+        .select("saved_search_id")
+        .in("saved_search_id", searchIds);
+    if (error) throw error;
+
+    const counts: Record<string, number> = {};
+    (data ?? []).forEach((row: { saved_search_id: string }) => {
+        counts[row.saved_search_id] = (counts[row.saved_search_id] ?? 0) + 1;
+    });
+    return counts;
+};
+
+export const createSavedSearch = async (
+    name: string,
+    fields: SavedSearchFields,
+    preferences: Partial<Pick<SavedSearch, "notify_push" | "notify_email">> = {}
+): Promise<SavedSearch> => {
+    const { data, error } = await supabase
+        .from("saved_searches")
+        .insert({ name: name.trim(), ...fields, ...preferences })
+        .select("*")
+        .single();
+
+    if (error) {
+        if (error.message?.includes("SAVED_SEARCH_LIMIT_REACHED")) {
+            throw new Error(`You can keep up to ${MAX_SAVED_SEARCHES} saved searches. Delete one to save another.`);
+        }
+        throw error;
+    }
+    return data as SavedSearch;
+};
+
+export const updateSavedSearch = async (
+    id: string,
+    updates: Partial<Pick<SavedSearch, "name" | "notify_push" | "notify_email" | "is_active"> & SavedSearchFields>
+): Promise<SavedSearch> => {
+    const { data, error } = await supabase
+        .from("saved_searches")
+        .update(updates)
+        .eq("id", id)
+        .select("*")
+        .single();
+    if (error) throw error;
+    return data as SavedSearch;
+};
+
+export const deleteSavedSearch = async (id: string) => {
+    const { error } = await supabase.from("saved_searches").delete().eq("id", id);
+    if (error) throw error;
+};
@@ -0,0 +1,211 @@
+/**
+ * Product search
+ * Thin wrappers around the search_products RPC (full-text + typo-tolerant matching,
+ * one page of results and facet counts) and the search_suggestions RPC (autocomplete
+ * and "did you mean"), both computed in Postgres.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { CATEGORIES } from "@/lib/categories";
+import { getSearchHistory } from "@/lib/searchHistory";
+
+export type SearchSort = "smart" | "relevance" | "newest" | "price_low" | "price_high";
+
+export type SearchFilters = {
+    query?: string;
+    brand?: string;
+    category?: string;
+    size?: string;
+    condition?: string;
+    accessoryType?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    /** One vendor's listings, for their storefront */
+    vendorId?: string;
+};
+
+export type SearchResult = {
+    id: string;
+    name: string;
+    brand: string | null;
+    category: string | null;
+    condition: string | null;
+    price_ksh: number;
+    images: string[] | null;
+    video_url: string | null;
+    description: string | null;
+    is_featured: boolean;
+    seller_badge: string | null;
+    created_at: string;
+    sizes: string[];
+    average_rating: number | null;
+    review_count: number;
+};
+
+export type FacetCount = { value: string; label?: string; count: number };
+export type PriceBucket = { min: number; max: number | null; count: number };
+
+export type SearchFacets = {
+    brand: FacetCount[];
+    category: FacetCount[];
+    size: FacetCount[];
+    condition: FacetCount[];
+    price: PriceBucket[];
+};
+
+export type SearchResponse = {
+    total: number;
+    results: SearchResult[];
+    facets: SearchFacets;
+};
+
+export const emptyFacets: SearchFacets = { brand: [], category: [], size: [], condition: [], price: [] };
+
+/**
+ * Runs one search; "all"/empty filters are sent as null (any).
+ * Pass the same asOf for every page of a listing so the personalised "smart" order
+ * does not shift between pages; recent searches are sent for guests' personalisation.
+ */
+export const searchProducts = async (
+    filters: SearchFilters,
+    options: { sort?: SearchSort; limit?: number; offset?: number; asOf?: string } = {}
+): Promise<SearchResponse> => {
+    const orNull = (value?: string) => (value && value !== "all" ? value : null);
+
+    const { data, error } = await supabase.rpc("search_products", {
+        p_query: filters.query?.trim() || null,
+        p_brand: orNull(filters.brand),
+        p_category: orNull(filters.category),
+        p_size: orNull(filters.size),
+        p_condition: orNull(filters.condition),
+        p_accessory_type: orNull(filters.accessoryType),
+        p_min_price: filters.minPrice ?? null,
+        p_max_price: filters.maxPrice ?? null,
+        p_sort: options.sort ?? "smart",
+        p_limit: options.limit ?? 20,
+        p_offset: options.offset ?? 0,
+        p_as_of: options.asOf ?? null,
+        p_recent_terms: getSearchHistory(),
+        p_vendor_id: filters.vendorId ?? null,
+    });
+
+    if (error) throw error;
+
+    const response = data as SearchResponse | null;
+    return {
+        total: response?.total ?? 0,
+        results: response?.results ?? [],
+        facets: { ...emptyFacets, ...response?.facets },
+    };
+};
+
+/** Count for a facet value, for "EU 42 (37)" style labels */
+export const facetCount = (facets: FacetCount[], value: string) =>
+    facets.find((f) => f.value === value.toLowerCase() || f.value === value)?.count ?? 0;
+
+export const formatPriceBucket = (bucket: PriceBucket) =>
+    bucket.max === null
+        ? `KES ${bucket.min.toLocaleString()}+`
+        : bucket.min === 0
+            ? `Under KES ${bucket.max.toLocaleString()}`
+            : `KES ${bucket.min.toLocaleString()} - ${bucket.max.toLocaleString()}`;
+
+export type SuggestionType = "correction" | "recent" | "brand" | "category" | "product";
+
+export type SearchSuggestion = {
+    type: SuggestionType;
+    label: string;
+    /** Where choosing it navigates to */
+    url: string;
+    /** Used as the search term when the suggestion is a term (not a product) */
+    term?: string;
+    count?: number;
+    image?: string | null;
+    price?: number;
+};
+
+export type SearchSuggestions = {
+    correction: string | null;
+    suggestions: SearchSuggestion[];
+};
+
+export const shopSearchUrl = (term: string) => `/shop?search=${encodeURIComponent(term.trim())}`;
+
+/**
+ * Suggestions for a partly typed query: the spelling correction, matching recent
+ * searches, brands, categories and the most viewed matching products, in that order.
+ */
+export const fetchSearchSuggestions = async (query: string): Promise<SearchSuggestions> => {
+    const trimmed = query.trim().toLowerCase();
+    const recent = getSearchHistory();
+
+    // Nothing typed yet: recent searches only
+    if (!trimmed) {
+        return {
+            correction: null,
+            suggestions: recent.slice(0, 5).map((term) => ({ type: "recent", label: term, term, url: shopSearchUrl(term) })),
+        };
+    }
+
+    const { data, error } = await supabase.rpc("search_suggestions", { p_query: trimmed, p_limit: 5 });
+    if (error) console.error("Failed to load search suggestions", error);
+
+    const response = (data ?? {}) as {
+        correction?: string | null;
+        brands?: FacetCount[];
+        products?: Array<{ id: string; name: string; brand: string | null; price_ksh: number; image: string | null }>;
+    };
+    const correction = response.correction ?? null;
+    const matchTerms = [trimmed, correction].filter(Boolean) as string[];
+    const matches = (text: string) => matchTerms.some((t) => text.toLowerCase().startsWith(t) || text.toLowerCase().includes(` ${t}`));
+
+    const suggestions: SearchSuggestion[] = [];
+
+    if (correction) {
+        suggestions.push({ type: "correction", label: correction, term: correction, url: shopSearchUrl(correction) });
+    }
+
+    recent
+        .filter((term) => term !== trimmed && matches(term))
+        .slice(0, 3)
+        .forEach((term) => suggestions.push({ type: "recent", label: term, term, url: shopSearchUrl(term) }));
+
+    (response.brands ?? []).forEach((brand) => suggestions.push({
+        type: "brand",
+        label: brand.label ?? brand.value,
+        term: brand.label ?? brand.value,
+        count: brand.count,
+        url: `/shop?brand=${encodeURIComponent(brand.value)}`,
+    }));
+
+    CATEGORIES
+        .filter((category) => matches(category.name) || matches(category.key))
+        .slice(0, 3)
+        .forEach((category) => suggestions.push({
+            type: "category",
+            label: category.name,
+            term: category.name,
+            url: `/shop?category=${category.key}`,
+        }));
+
+    (response.products ?? []).forEach((product) => suggestions.push({
+        type: "product",
+        label: product.name,
+        url: `/product/${product.id}`,
+        image: product.image,
+        price: product.price_ksh,
+    }));
+
+    return { correction, suggestions };
+};
+
+/** "Did you mean" for a query; null when it looks fine */
+export const correctSearchQuery = async (query: string): Promise<string | null> => {
+    if (!query.trim()) return null;
+    const { data, error } = await supabase.rpc("correct_search_query", { p_query: query.trim() });
+    if (error) {
+        console.error("Failed to check spelling", error);
+        return null;
+    }
+    return (data as string | null) ?? null;
+};
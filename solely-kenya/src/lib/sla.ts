@@ -0,0 +1,178 @@
+/**
+ * Order deadline (SLA) helpers
+ * Durations live in sla_settings; the most specific row wins:
+ * county + delivery type > county > delivery type > default.
+ * Each order carries the deadline of the timer its status is on, stamped server-side
+ * when it enters the status. Admins can pause, resume or extend it via manage_order_sla.
+ * dispute_response is per dispute rather than per order (disputes.response_due_at).
+ */
+
+import { differenceInMinutes } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { OrderStatus } from "@/lib/orderStatus";
+
+export type SlaTimer = "vendor_response" | "delivery" | "buyer_review" | "dispute_response";
+
+export type SlaSetting = {
+    id: string;
+    timer: SlaTimer;
+    delivery_type: "delivery" | "pickup" | null;
+    county: string | null;
+    hours: number | null;
+    warn_before_hours: number;
+    notes: string | null;
+    updated_at?: string;
+};
+
+export type SlaSettingInput = Omit<SlaSetting, "id" | "updated_at"> & { id?: string };
+
+export const SLA_TIMERS: { value: SlaTimer; label: string; description: string }[] = [
+    { value: "vendor_response", label: "Vendor response", description: "Accept or decline a paid order, or it is cancelled and refunded" },
+    { value: "delivery", label: "Delivery", description: "Mark an accepted order as arrived, or it is escalated to a dispute" },
+    { value: "buyer_review", label: "Buyer review", description: "Time the buyer has to report a problem before escrow is released" },
+    { value: "dispute_response", label: "Dispute reply", description: "Buyer or vendor reply on a dispute, or the case is escalated to support" },
+];
+
+export const slaTimerLabels: Record<SlaTimer, string> = {
+    vendor_response: "Vendor response",
+    delivery: "Delivery",
+    buyer_review: "Buyer review",
+    dispute_response: "Dispute reply",
+};
+
+/** Countdown wording per timer, e.g. "5h left to respond" */
+export const slaCountdownSuffix: Record<SlaTimer, string> = {
+    vendor_response: "to respond",
+    delivery: "to deliver",
+    buyer_review: "until payout",
+    dispute_response: "to reply",
+};
+
+/** The order columns the deadline helpers read */
+export type SlaOrderFields = {
+    status: string;
+    response_deadline_at?: string | null;
+    delivery_deadline_at?: string | null;
+    auto_release_at?: string | null;
+    sla_paused_at?: string | null;
+    sla_pause_reason?: string | null;
+};
+
+/** Mirrors order_sla_timer() in the database */
+export const orderSlaTimer = (status: OrderStatus | string): SlaTimer | null => {
+    switch (status) {
+        case "pending_vendor_confirmation":
+            return "vendor_response";
+        case "accepted":
+        case "shipped":
+            return "delivery";
+        case "arrived":
+            return "buyer_review";
+        default:
+            return null;
+    }
+};
+
+/** The running deadline for the order's current status, if it has one */
+export const activeSlaDeadline = (order: SlaOrderFields) => {
+    const timer = orderSlaTimer(order.status);
+    if (!timer) return null;
+
+    const deadline = {
+        vendor_response: order.response_deadline_at,
+        delivery: order.delivery_deadline_at,
+        buyer_review: order.auto_release_at,
+    }[timer];
+    if (!deadline) return null;
+
+    return { timer, deadline: new Date(deadline), paused: !!order.sla_paused_at };
+};
+
+/** Countdown text; under 6 hours counts as urgent */
+export const describeTimeLeft = (deadline: Date, now: Date = new Date()) => {
+    const minutesLeft = differenceInMinutes(deadline, now);
+    if (minutesLeft < 0) {
+        return { text: "Overdue", urgent: true, overdue: true };
+    }
+
+    const hoursLeft = Math.floor(minutesLeft / 60);
+    let text: string;
+    if (hoursLeft >= 48) text = `${Math.floor(hoursLeft / 24)}d ${hoursLeft % 24}h left`;
+    else if (hoursLeft >= 6) text = `${hoursLeft}h left`;
+    else text = `${hoursLeft}h ${minutesLeft % 60}m left`;
+
+    return { text, urgent: hoursLeft < 6, overdue: false };
+};
+
+/** Human-readable scope of a setting, e.g. "Pickup · Mombasa" */
+export const describeSlaScope = (setting: Pick<SlaSetting, "delivery_type" | "county">): string => {
+    const parts: string[] = [];
+    if (setting.delivery_type) parts.push(setting.delivery_type === "pickup" ? "Pickup" : "Delivery");
+    if (setting.county) parts.push(setting.county);
+    return parts.length > 0 ? parts.join(" · ") : "All orders";
+};
+
+/** e.g. "48 hours", "5 days"; null means the timer is off */
+export const formatSlaHours = (hours: number | null): string => {
+    if (hours == null) return "No deadline";
+    if (hours >= 24 && hours % 24 === 0) return `${hours / 24} day${hours === 24 ? "" : "s"}`;
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+/** Defaults (no delivery type or county) can be edited but not deleted */
+export const isDefaultSlaSetting = (setting: Pick<SlaSetting, "delivery_type" | "county">) =>
+    !setting.delivery_type && !setting.county;
+
+export const fetchSlaSettings = async (): Promise<SlaSetting[]> => {
+    const { data, error } = await supabase
+        .from("sla_settings")
+        .select("*")
+        .order("timer")
+        .order("delivery_type", { nullsFirst: true })
+        .order("county", { nullsFirst: true });
+
+    if (error) {
+        console.error("Failed to load SLA settings", error);
+        return [];
+    }
+    return (data || []).map((row: any) => ({
+        ...row,
+        hours: row.hours == null ? null : Number(row.hours),
+        warn_before_hours: Number(row.warn_before_hours),
+    })) as SlaSetting[];
+};
+
+/** Creates or updates a setting (admin only, enforced by RLS). Applies to deadlines stamped from now on. */
+export const saveSlaSetting = async (setting: SlaSettingInput) => {
+    const { id, ...fields } = setting;
+    const { data: { user } } = await supabase.auth.getUser();
+    const row = { ...fields, county: fields.county?.trim() || null, updated_by: user?.id ?? null };
+    if (id) {
+        return await supabase.from("sla_settings").update(row).eq("id", id);
+    }
+    return await supabase.from("sla_settings").insert(row);
+};
+
+export const deleteSlaSetting = async (id: string) =>
+    await supabase.from("sla_settings").delete().eq("id", id);
+
+export type SlaAction = "pause" | "resume" | "extend";
+
+/** Pause, resume or extend an order's running deadline (admin only). Throws with a readable message. */
+export const manageOrderSla = async (
+    orderId: string,
+    action: SlaAction,
+    options: { hours?: number; reason?: string } = {}
+) => {
+    const { data, error } = await supabase.rpc("manage_order_sla", {
+        p_order_id: orderId,
+        p_action: action,
+        p_hours: options.hours ?? null,
+        p_reason: options.reason ?? null,
+    });
+
+    if (error) {
+        throw new Error((error.message || "Order deadline could not be changed").replace(/^[A-Z_]+:\s*/, ""));
+    }
+    return data;
+};
@@ -0,0 +1,88 @@
+/**
+ * Vendor storefronts
+ * /store/<slug> is a vendor's public shop page: banner, logo, bio, location, rating,
+ * policies and their live listings. get_storefront resolves a slug (store_slug defaults to
+ * the store name and is kept when the store is renamed); the Cloudflare function in
+ * functions/store injects the same data as meta tags, with a generate-og-image card.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { landingSlug } from "@/lib/landingPages";
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+export type Storefront = {
+    vendor_id: string;
+    slug: string;
+    /** Canonical path; redirect here when the URL differs (e.g. in capitals) */
+    path: string;
+    store_name: string;
+    description: string | null;
+    logo_url: string | null;
+    banner_url: string | null;
+    city: string | null;
+    county: string | null;
+    /** /shoes/<county_slug> landing page for the vendor's county */
+    county_slug: string | null;
+    location: string | null;
+    return_policy: string | null;
+    shipping_policy: string | null;
+    average_rating: number | null;
+    rating_count: number;
+    seller_badge: string | null;
+    listings: number;
+    min_price: number | null;
+    member_since: string | null;
+    lastmod: string | null;
+    meta_description: string;
+    products: { id: string; name: string; images: string[] | null; price_ksh: number }[];
+};
+
+export type StoreMediaKind = "logo" | "banner";
+
+/** Same rules as set_store_slug() in Postgres */
+export const toStoreSlug = (value: string) => landingSlug(value).slice(0, 40);
+
+export const isValidStoreSlug = (slug: string) => slug.length >= 3 && slug.length <= 40;
+
+export const storefrontPath = (slug: string) => `/store/${slug}`;
+
+/** The link vendors share on Instagram / WhatsApp */
+export const storefrontUrl = (slug: string) => `${SITE_URL}${storefrontPath(slug)}`;
+
+/** NULL when no vendor has the slug */
+export const fetchStorefront = async (slug: string): Promise<Storefront | null> => {
+    const { data, error } = await supabase.rpc("get_storefront", { p_slug: slug, p_limit: 12 });
+    if (error) throw error;
+    if (!data) return null;
+
+    const storefront = data as Storefront;
+    return {
+        ...storefront,
+        average_rating: storefront.average_rating !== null ? Number(storefront.average_rating) : null,
+    };
+};
+
+/** Uploads a logo or banner under the vendor's folder and returns its public URL */
+export const uploadStoreMedia = async (userId: string, kind: StoreMediaKind, file: File): Promise<string> => {
+    const path = `${userId}/${kind}-${Date.now()}-${file.name}`;
+    const { data, error } = await supabase.storage.from("store-media").upload(path, file);
+    if (error) throw new Error(`Upload failed: ${error.message}`);
+    return supabase.storage.from("store-media").getPublicUrl(data.path).data.publicUrl;
+};
+
+/** Friendly message for errors raised when saving the store link */
+export const getStoreSlugErrorMessage = (error: { message?: string } | null | undefined): string => {
+    const message = error?.message || "";
+    if (message.includes("STORE_SLUG_TAKEN") || message.includes("INVALID_STORE_SLUG")) {
+        return message.replace(/^[A-Z_]+:\s*/, "").replace(/^./, (c) => c.toUpperCase());
+    }
+    if (message.includes("idx_profiles_store_slug")) {
+        return "That store link is already taken";
+    }
+    return message || "Failed to save settings";
+};
+
+/** wa.me link with the storefront pre-filled, for the WhatsApp share button */
+export const whatsappShareUrl = (storefront: Pick<Storefront, "slug" | "store_name">) =>
+    `https://wa.me/?text=${encodeURIComponent(`Shop ${storefront.store_name} on Solely: ${storefrontUrl(storefront.slug)}`)}`;
@@ -0,0 +1,127 @@
+/**
+ * Vendor plan helpers
+ * Every vendor is on the free Starter plan unless they pay for a higher one.
+ * Limits are enforced in the database (publish_product + products trigger);
+ * these helpers are for display and for starting a purchase.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type PlanKey = "starter" | "growth" | "pro" | "unlimited";
+
+export type SubscriptionPlan = {
+    plan: PlanKey;
+    name: string;
+    price_ksh: number;
+    duration_days: number;
+    product_limit: number | null;
+    commission_discount: number;
+    is_featured: boolean;
+    description: string | null;
+};
+
+export type VendorPlan = {
+    plan: PlanKey;
+    plan_name: string;
+    product_limit: number | null;
+    commission_discount: number;
+    is_featured: boolean;
+    subscription_id: string | null;
+    end_date: string | null;
+};
+
+export type PlanGateway = "intasend" | "mpesa";
+
+export type PlanPurchaseResult = {
+    paymentId: string;
+    /** IntaSend hosted checkout to redirect to */
+    url?: string;
+    /** M-Pesa STK push reference; poll the payment until it settles */
+    checkoutRequestId?: string;
+};
+
+/** Loads the plan catalogue, cheapest first */
+export const fetchSubscriptionPlans = async (): Promise<SubscriptionPlan[]> => {
+    const { data, error } = await supabase
+        .from("subscription_plans")
+        .select("*")
+        .eq("is_active", true)
+        .order("sort_order");
+
+    if (error) {
+        console.error("Failed to load subscription plans", error);
+        return [];
+    }
+    return (data || []) as SubscriptionPlan[];
+};
+
+/** The vendor's current plan (Starter when nothing is paid for) */
+export const fetchVendorPlan = async (vendorId: string): Promise<VendorPlan | null> => {
+    const { data, error } = await supabase.rpc("get_vendor_plan", { p_vendor_id: vendorId });
+
+    if (error) {
+        console.error("Failed to load vendor plan", error);
+        return null;
+    }
+    const row = Array.isArray(data) ? data[0] : data;
+    return (row as VendorPlan) ?? null;
+};
+
+/** Live listings (active or out of stock) - drafts don't count towards the limit */
+export const fetchListingCount = async (vendorId: string): Promise<number> => {
+    const { count } = await supabase
+        .from("products")
+        .select("id", { count: "exact", head: true })
+        .eq("vendor_id", vendorId)
+        .in("status", ["active", "out_of_stock"]);
+    return count || 0;
+};
+
+/** Starts a plan purchase or renewal */
+export const startPlanPurchase = async (
+    plan: PlanKey,
+    gateway: PlanGateway,
+    phoneNumber?: string
+): Promise<PlanPurchaseResult> => {
+    const { data, error } = await supabase.functions.invoke("vendor-subscribe", {
+        body: {
+            plan,
+            gateway,
+            phoneNumber,
+            successUrl: `${window.location.origin}/vendor/settings?plan=${plan}`,
+        },
+    });
+
+    if (error || data?.error) {
+        throw new Error(data?.error || error?.message || "Failed to start payment");
+    }
+    return data as PlanPurchaseResult;
+};
+
+/** Status of a plan payment ('pending' | 'paid' | 'failed' | 'amount_mismatch') */
+export const fetchPlanPaymentStatus = async (paymentId: string): Promise<string | null> => {
+    const { data } = await supabase
+        .from("subscription_payments")
+        .select("status")
+        .eq("id", paymentId)
+        .maybeSingle();
+    return data?.status ?? null;
+};
+
+/** Friendly message for errors raised when a product goes live */
+export const getPublishErrorMessage = (error: { message?: string } | null | undefined): string => {
+    const message = error?.message || "";
+    if (message.includes("PRODUCT_LIMIT_REACHED")) {
+        return "You've reached your plan's listing limit. Upgrade your plan in Settings or unpublish a product first.";
+    }
+    if (message.includes("LISTING_SUSPENDED")) {
+        return message.replace(/^[A-Z_]+:\s*/, "").replace(/^./, (c) => c.toUpperCase());
+    }
+    if (message.includes("PRODUCT_NOT_FOUND_OR_NOT_OWNED")) {
+        return "Product not found";
+    }
+    return message || "Failed to publish product";
+};
+
+export const formatProductLimit = (limit: number | null) =>
+    limit === null ? "Unlimited listings" : `${limit} live listings`;
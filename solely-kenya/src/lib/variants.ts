@@ -0,0 +1,134 @@
+/**
+ * Product variant helpers
+ * A variant is one size × color SKU with its own stock and optional price override.
+ * Size/color are stored as "" when not applicable (see product_variants migration).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type ProductVariant = {
+    id: string;
+    product_id: string;
+    size: string;
+    color: string;
+    stock: number;
+    price_ksh: number | null;
+    sku?: string | null;
+};
+
+/** Editable row used by the vendor stock grid (no id until saved) */
+export type VariantDraft = {
+    size: string;
+    color: string;
+    stock: string;
+    price_ksh: string;
+};
+
+/** Stable key for a size/color pair */
+export const variantKey = (size?: string | null, color?: string | null) =>
+    `${size || ""}::${color || ""}`;
+
+/** Loads all variants for the given product(s) */
+export const fetchProductVariants = async (productIds: string | string[]): Promise<ProductVariant[]> => {
+    const ids = Array.isArray(productIds) ? productIds : [productIds];
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from("product_variants")
+        .select("id, product_id, size, color, stock, price_ksh, sku")
+        .in("product_id", ids);
+
+    if (error) {
+        console.error("Failed to load product variants", error);
+        return [];
+    }
+    return (data || []) as ProductVariant[];
+};
+
+/** Finds the variant matching a size/color selection */
+export const findVariant = (
+    variants: ProductVariant[],
+    size?: string | null,
+    color?: string | null
+): ProductVariant | undefined =>
+    variants.find((v) => v.size === (size || "") && v.color === (color || ""));
+
+/**
+ * Sizes that currently have stock.
+ * When a color is given, only variants of that color are considered.
+ */
+export const getInStockSizes = (variants: ProductVariant[], color?: string | null): string[] => {
+    const sizes = variants
+        .filter((v) => v.stock > 0 && v.size !== "" && (!color || v.color === color))
+        .map((v) => v.size);
+    return Array.from(new Set(sizes)).sort((a, b) => Number(a) - Number(b));
+};
+
+/** Colors that currently have stock, optionally limited to a size */
+export const getInStockColors = (variants: ProductVariant[], size?: string | null): string[] => {
+    const colors = variants
+        .filter((v) => v.stock > 0 && v.color !== "" && (!size || v.size === size))
+        .map((v) => v.color);
+    return Array.from(new Set(colors));
+};
+
+/** Price for a variant, falling back to the product's base price */
+export const getVariantPrice = (variant: ProductVariant | undefined, basePriceKsh: number): number =>
+    variant?.price_ksh ?? basePriceKsh;
+
+/**
+ * Builds the size × color grid for the vendor editor.
+ * Existing rows keep their stock/price; new combinations start at zero.
+ */
+export const buildVariantDrafts = (
+    sizes: string[],
+    colors: string[],
+    existing: VariantDraft[] = []
+): VariantDraft[] => {
+    const sizeList = sizes.length > 0 ? sizes : [""];
+    const colorList = colors.length > 0 ? colors : [""];
+    if (sizes.length === 0 && colors.length === 0) return [];
+
+    const byKey = new Map(existing.map((d) => [variantKey(d.size, d.color), d]));
+
+    return sizeList.flatMap((size) =>
+        colorList.map((color) =>
+            byKey.get(variantKey(size, color)) ?? { size, color, stock: "0", price_ksh: "" }
+        )
+    );
+};
+
+/** Total units across all drafts */
+export const sumDraftStock = (drafts: VariantDraft[]): number =>
+    drafts.reduce((sum, d) => sum + (parseInt(d.stock) || 0), 0);
+
+/**
+ * Saves the vendor's grid for a product.
+ * Upserts the current combinations and removes ones the vendor dropped.
+ */
+export const saveProductVariants = async (productId: string, drafts: VariantDraft[]) => {
+    const rows = drafts.map((d) => ({
+        product_id: productId,
+        size: d.size,
+        color: d.color,
+        stock: Math.max(0, parseInt(d.stock) || 0),
+        price_ksh: d.price_ksh ? parseInt(d.price_ksh) : null,
+        updated_at: new Date().toISOString(),
+    }));
+
+    if (rows.length > 0) {
+        const { error } = await supabase
+            .from("product_variants")
+            .upsert(rows, { onConflict: "product_id,size,color" });
+        if (error) throw error;
+    }
+
+    const existing = await fetchProductVariants(productId);
+    const keep = new Set(drafts.map((d) => variantKey(d.size, d.color)));
+    const staleIds = existing.filter((v) => !keep.has(variantKey(v.size, v.color))).map((v) => v.id);
+
+    if (staleIds.length > 0) {
+        const { error } = await supabase.from("product_variants").delete().in("id", staleIds);
+        if (error) throw error;
+    }
+};
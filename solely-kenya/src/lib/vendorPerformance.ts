@@ -0,0 +1,266 @@
+/**
+ * Vendor performance helpers
+ * vendor_scorecards is recomputed nightly (vendor-scorecards) over the last 90 days.
+ * Admin rules in vendor_enforcement_rules warn, demote (search_penalty) or suspend
+ * vendors; each action is logged in vendor_enforcement_actions and mirrored onto the
+ * vendor's products (seller_badge, search_penalty, status 'suspended').
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type VendorTier = "excellent" | "good" | "fair" | "poor" | "new";
+
+export type SellerBadge = "top_seller" | "reliable";
+
+export type EnforcementAction = "warning" | "demotion" | "suspension";
+
+export type ScorecardMetric =
+    | "score"
+    | "acceptance_rate"
+    | "on_time_rate"
+    | "dispute_rate"
+    | "auto_cancelled"
+    | "average_rating"
+    | "avg_response_hours";
+
+export type VendorScorecard = {
+    vendor_id: string;
+    window_days: number;
+    orders_received: number;
+    orders_accepted: number;
+    orders_declined: number;
+    auto_cancelled: number;
+    acceptance_rate: number | null;
+    avg_response_hours: number | null;
+    deliveries_due: number;
+    deliveries_on_time: number;
+    on_time_rate: number | null;
+    disputes_opened: number;
+    disputes_lost: number;
+    disputes_partial: number;
+    disputes_won: number;
+    dispute_rate: number | null;
+    average_rating: number | null;
+    rating_count: number;
+    score: number;
+    tier: VendorTier;
+    computed_at: string;
+};
+
+export type EnforcementRule = {
+    id: string;
+    metric: ScorecardMetric;
+    threshold: number;
+    action: EnforcementAction;
+    min_orders: number;
+    duration_days: number;
+    search_penalty: number;
+    is_active: boolean;
+    notes: string | null;
+    updated_at?: string;
+};
+
+export type EnforcementRuleInput = Omit<EnforcementRule, "id" | "updated_at"> & { id?: string };
+
+export type EnforcementRecord = {
+    id: string;
+    vendor_id: string;
+    rule_id: string | null;
+    action: EnforcementAction;
+    metric: ScorecardMetric;
+    metric_value: number | null;
+    threshold: number | null;
+    score: number | null;
+    search_penalty: number;
+    starts_at: string;
+    ends_at: string;
+    lifted_at: string | null;
+    lift_reason: string | null;
+    created_at: string;
+};
+
+export const tierLabels: Record<VendorTier, string> = {
+    excellent: "Excellent",
+    good: "Good",
+    fair: "Fair",
+    poor: "Needs improvement",
+    new: "New seller",
+};
+
+export const tierColors: Record<VendorTier, string> = {
+    excellent: "bg-green-500",
+    good: "bg-blue-500",
+    fair: "bg-yellow-500",
+    poor: "bg-red-500",
+    new: "bg-gray-500",
+};
+
+export const sellerBadgeLabels: Record<SellerBadge, string> = {
+    top_seller: "Top Seller",
+    reliable: "Reliable Seller",
+};
+
+export const enforcementActionLabels: Record<EnforcementAction, string> = {
+    warning: "Warning",
+    demotion: "Search demotion",
+    suspension: "Listing suspension",
+};
+
+/**
+ * Rule metrics. Rates are stored as fractions and shown as percentages; "higher" metrics
+ * breach a rule when they rise above the threshold, the rest when they fall below it.
+ */
+export const SCORECARD_METRICS: { value: ScorecardMetric; label: string; unit: "points" | "percent" | "count" | "stars" | "hours"; higherIsWorse: boolean }[] = [
+    { value: "score", label: "Seller score", unit: "points", higherIsWorse: false },
+    { value: "acceptance_rate", label: "Acceptance rate", unit: "percent", higherIsWorse: false },
+    { value: "on_time_rate", label: "On-time arrival", unit: "percent", higherIsWorse: false },
+    { value: "dispute_rate", label: "Dispute rate", unit: "percent", higherIsWorse: true },
+    { value: "auto_cancelled", label: "Auto-cancelled orders", unit: "count", higherIsWorse: true },
+    { value: "average_rating", label: "Average rating", unit: "stars", higherIsWorse: false },
+    { value: "avg_response_hours", label: "Response time", unit: "hours", higherIsWorse: true },
+];
+
+export const scorecardMetric = (metric: string) =>
+    SCORECARD_METRICS.find((m) => m.value === metric) ?? SCORECARD_METRICS[0];
+
+/** A metric value for display, e.g. "92%", "4.6 ★", "3.5 hours"; null means no data yet */
+export const formatMetricValue = (metric: string, value: number | null | undefined): string => {
+    if (value == null) return "No data yet";
+    switch (scorecardMetric(metric).unit) {
+        case "percent":
+            return `${Math.round(Number(value) * 100)}%`;
+        case "stars":
+            return `${Number(value).toFixed(1)} ★`;
+        case "hours":
+            return `${Number(value).toFixed(1)} hours`;
+        case "points":
+            return `${Math.round(Number(value))} / 100`;
+        default:
+            return String(value);
+    }
+};
+
+/** e.g. "Seller score below 60", "Dispute rate above 10%" */
+export const describeRule = (rule: Pick<EnforcementRule, "metric" | "threshold">): string => {
+    const metric = scorecardMetric(rule.metric);
+    const threshold = metric.unit === "percent" ? `${Math.round(rule.threshold * 100)}%` : String(rule.threshold);
+    return `${metric.label} ${metric.higherIsWorse ? "above" : "below"} ${threshold}`;
+};
+
+/** Whether a warning, demotion or suspension is still running */
+export const isEnforcementInForce = (record: Pick<EnforcementRecord, "lifted_at" | "ends_at">, now: Date = new Date()) =>
+    !record.lifted_at && new Date(record.ends_at) > now;
+
+const toNumber = (value: unknown) => (value == null ? null : Number(value));
+
+const normalizeScorecard = (row: any): VendorScorecard => ({
+    ...row,
+    acceptance_rate: toNumber(row.acceptance_rate),
+    avg_response_hours: toNumber(row.avg_response_hours),
+    on_time_rate: toNumber(row.on_time_rate),
+    dispute_rate: toNumber(row.dispute_rate),
+    average_rating: toNumber(row.average_rating),
+    score: Number(row.score),
+});
+
+/** The signed-in vendor's scorecard, or null before the first nightly run */
+export const fetchVendorScorecard = async (vendorId: string): Promise<VendorScorecard | null> => {
+    const { data, error } = await supabase
+        .from("vendor_scorecards")
+        .select("*")
+        .eq("vendor_id", vendorId)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Failed to load vendor scorecard", error);
+        return null;
+    }
+    return data ? normalizeScorecard(data) : null;
+};
+
+/** Every scorecard, lowest score first (admin only, enforced by RLS) */
+export const fetchVendorScorecards = async (): Promise<VendorScorecard[]> => {
+    const { data, error } = await supabase
+        .from("vendor_scorecards")
+        .select("*")
+        .order("score", { ascending: true });
+
+    if (error) {
+        console.error("Failed to load vendor scorecards", error);
+        return [];
+    }
+    return (data || []).map(normalizeScorecard);
+};
+
+/** Enforcement history, newest first; pass a vendor to narrow it down */
+export const fetchEnforcementActions = async (vendorId?: string): Promise<EnforcementRecord[]> => {
+    let query = supabase
+        .from("vendor_enforcement_actions")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+    if (vendorId) query = query.eq("vendor_id", vendorId);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error("Failed to load enforcement actions", error);
+        return [];
+    }
+    return (data || []).map((row: any) => ({
+        ...row,
+        metric_value: toNumber(row.metric_value),
+        threshold: toNumber(row.threshold),
+        score: toNumber(row.score),
+        search_penalty: Number(row.search_penalty),
+    })) as EnforcementRecord[];
+};
+
+export const fetchEnforcementRules = async (): Promise<EnforcementRule[]> => {
+    const { data, error } = await supabase
+        .from("vendor_enforcement_rules")
+        .select("*")
+        .order("metric")
+        .order("threshold", { ascending: false });
+
+    if (error) {
+        console.error("Failed to load enforcement rules", error);
+        return [];
+    }
+    return (data || []).map((row: any) => ({
+        ...row,
+        threshold: Number(row.threshold),
+        search_penalty: Number(row.search_penalty),
+    })) as EnforcementRule[];
+};
+
+/** Creates or updates a rule (admin only, enforced by RLS). Applies from the next nightly run. */
+export const saveEnforcementRule = async (rule: EnforcementRuleInput) => {
+    const { id, ...fields } = rule;
+    const { data: { user } } = await supabase.auth.getUser();
+    const row = {
+        ...fields,
+        search_penalty: fields.action === "demotion" ? fields.search_penalty : 0,
+        notes: fields.notes?.trim() || null,
+        updated_by: user?.id ?? null,
+    };
+    if (id) {
+        return await supabase.from("vendor_enforcement_rules").update(row).eq("id", id);
+    }
+    return await supabase.from("vendor_enforcement_rules").insert(row);
+};
+
+export const deleteEnforcementRule = async (id: string) =>
+    await supabase.from("vendor_enforcement_rules").delete().eq("id", id);
+
+/** Ends a warning, demotion or suspension early (admin only). Throws with a readable message. */
+export const liftEnforcementAction = async (actionId: string, reason?: string) => {
+    const { data, error } = await supabase.rpc("lift_vendor_enforcement", {
+        p_action_id: actionId,
+        p_reason: reason ?? null,
+    });
+
+    if (error) {
+        throw new Error((error.message || "Action could not be lifted").replace(/^[A-Z_]+:\s*/, ""));
+    }
+    return data as EnforcementRecord;
+};
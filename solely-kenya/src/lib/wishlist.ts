@@ -0,0 +1,141 @@
+/**
+ * Wishlists
+ * Buyers heart products to save them for later. Each buyer has one wishlist, created on
+ * first use, which can be shared through a public link (/wishlist/shared/:token) while
+ * sharing is on. Sold-out items get a back-in-stock alert from the back-in-stock-alerts
+ * edge function.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type Wishlist = {
+    id: string;
+    user_id: string;
+    name: string;
+    note: string | null;
+    share_token: string;
+    is_public: boolean;
+    created_at: string;
+    updated_at: string;
+};
+
+export type WishlistItem = {
+    id: string;
+    wishlist_id: string;
+    product_id: string;
+    size: string | null;
+    awaiting_restock: boolean;
+    restock_notified_at: string | null;
+    created_at: string;
+};
+
+export type WishlistItemWithProduct = WishlistItem & {
+    products: {
+        id: string;
+        name: string;
+        brand: string | null;
+        price_ksh: number;
+        images: string[] | null;
+        condition: string | null;
+        stock: number | null;
+        status: string;
+    } | null;
+};
+
+/** get_shared_wishlist() result; only active products are included */
+export type SharedWishlist = {
+    name: string;
+    note: string | null;
+    owner_name: string | null;
+    updated_at: string;
+    items: {
+        product_id: string;
+        name: string;
+        brand: string | null;
+        price_ksh: number;
+        image: string | null;
+        condition: string | null;
+        size: string | null;
+        in_stock: boolean;
+    }[];
+};
+
+export const sharedWishlistUrl = (token: string) => `${window.location.origin}/wishlist/shared/${token}`;
+
+export const fetchWishlist = async (): Promise<Wishlist | null> => {
+    const { data, error } = await supabase.from("wishlists").select("*").maybeSingle();
+    if (error) throw error;
+    return (data as Wishlist | null) ?? null;
+};
+
+/** The buyer's wishlist, created on first use */
+export const ensureWishlist = async (): Promise<Wishlist> => {
+    const existing = await fetchWishlist();
+    if (existing) return existing;
+
+    const { error } = await supabase.from("wishlists").insert({});
+    // 23505: created meanwhile (another tab)
+    if (error && error.code !== "23505") throw error;
+
+    const created = await fetchWishlist();
+    if (!created) throw new Error("Wishlist could not be created");
+    return created;
+};
+
+export const fetchWishlistProductIds = async (): Promise<string[]> => {
+    const { data, error } = await supabase.from("wishlist_items").select("product_id");
+    if (error) throw error;
+    return ((data as { product_id: string }[] | null) ?? []).map((row) => row.product_id);
+};
+
+export const fetchWishlistItems = async (): Promise<WishlistItemWithProduct[]> => {
+    const { data, error } = await supabase
+        .from("wishlist_items")
+        .select("*, products(id, name, brand, price_ksh, images, condition, stock, status)")
+        .order("created_at", { ascending: false });
+    if (error) throw error;
+    return (data as WishlistItemWithProduct[] | null) ?? [];
+};
+
+export const addWishlistItem = async (productId: string, size?: string | null) => {
+    const wishlist = await ensureWishlist();
+    const { error } = await supabase
+        .from("wishlist_items")
+        .upsert(
+            { wishlist_id: wishlist.id, product_id: productId, size: size ?? null },
+            { onConflict: "wishlist_id,product_id", ignoreDuplicates: true }
+        );
+    if (error) throw error;
+};
+
+export const removeWishlistItem = async (productId: string) => {
+    const { error } = await supabase.from("wishlist_items").delete().eq("product_id", productId);
+    if (error) throw error;
+};
+
+export const updateWishlist = async (
+    id: string,
+    updates: Partial<Pick<Wishlist, "name" | "note" | "is_public">>
+): Promise<Wishlist> => {
+    const { data, error } = await supabase.from("wishlists").update(updates).eq("id", id).select("*").single();
+    if (error) throw error;
+    return data as Wishlist;
+};
+
+/** New share token: the old link stops working */
+export const regenerateShareToken = async (id: string): Promise<Wishlist> => {
+    const { data, error } = await supabase
+        .from("wishlists")
+        .update({ share_token: crypto.randomUUID().replace(/-/g, "") })
+        .eq("id", id)
+        .select("*")
+        .single();
+    if (error) throw error;
+    return data as Wishlist;
+};
+
+export const fetchSharedWishlist = async (token: string): Promise<SharedWishlist | null> => {
+    const { data, error } = await supabase.rpc("get_shared_wishlist", { p_token: token });
+    if (error) throw error;
+    return (data as SharedWishlist | null) ?? null;
+};
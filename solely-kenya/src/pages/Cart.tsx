@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/hooks/useAuth";
@@ -9,13 +9,20 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { ShoeSizeSelector } from "@/components/ShoeSizeSelector";
-import { AlertTriangle, ExternalLink } from "lucide-react";
+import { WishlistButton } from "@/components/WishlistButton";
+import { describeCartChange } from "@/lib/cartSync";
+import { AlertTriangle, ExternalLink, RefreshCw, X } from "lucide-react";
 
 const Cart = () => {
-  const { items, subtotal, totalQuantity, updateQuantity, updateSize, removeItem, clearCart, hasAllSizes, hasAllColors, hasAllValidSizes, getInvalidSizeItems } = useCart();
+  const { items, vendorGroups, subtotal, totalQuantity, updateQuantity, updateSize, removeItem, clearCart, hasAllSizes, hasAllColors, hasAllValidSizes, getInvalidSizeItems, changes, validating, revalidate, dismissChanges } = useCart();
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
 
+  // Prices and stock may have moved since items were added
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
   const deliveryEstimate = useMemo(() => {
     if (items.length === 0) return null;
     return `Estimated delivery 2-5 business days once vendor ships`;
@@ -85,6 +92,38 @@ const Cart = () => {
           )}
         </div>
 
+        {changes.length > 0 && (
+          <Alert className="mb-6 border-amber-500/50 bg-amber-50 dark:bg-amber-950/20">
+            <RefreshCw className="h-4 w-4" />
+            <AlertTitle className="flex items-center justify-between gap-2 text-sm font-medium">
+              Your cart has been updated since you last visited
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={dismissChanges} aria-label="Dismiss">
+                <X className="h-4 w-4" />
+              </Button>
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="mt-2 space-y-2 text-sm">
+                {changes.map((change) => (
+                  <li key={`${change.kind}-${change.productId}-${change.size}-${change.color}`} className="flex items-center justify-between gap-3">
+                    <span>
+                      {change.kind === "price_down" ? "🎉 " : "• "}
+                      {describeCartChange(change)}
+                    </span>
+                    {change.kind === "sold_out" && (
+                      <WishlistButton productId={change.productId} className="shrink-0 border border-border" />
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {changes.some((change) => change.kind === "sold_out") && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Tap the heart to save a sold-out pair and we'll tell you when it's back.
+                </p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {items.length === 0 ? (
           <Card className="p-6 sm:p-10 text-center">
             <CardTitle className="mb-3 sm:mb-4 text-lg sm:text-xl">Your cart is empty</CardTitle>
@@ -96,93 +135,114 @@ const Cart = () => {
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
             <div className="lg:col-span-2 space-y-3 sm:space-y-4">
-              {items.map((item) => (
-                <Card key={`${item.productId}-${item.size}-${item.color}`}>
-                  <CardContent className="p-4 sm:p-6 flex flex-col sm:flex-row gap-4">
-                    <div className="w-24 h-24 rounded-lg border overflow-hidden flex-shrink-0">
-                      <img
-                        src={item.imageUrl || "/placeholder.svg"}
-                        alt={item.name}
-                        className="w-full h-full object-cover"
-                      />
+              {vendorGroups.length > 1 && (
+                <Alert>
+                  <AlertTitle className="text-sm font-medium">Your cart has items from {vendorGroups.length} sellers</AlertTitle>
+                  <AlertDescription className="text-xs">
+                    You pay once at checkout. Each seller ships their items separately, with its own delivery fee.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {vendorGroups.map((group, index) => (
+                <div key={group.vendorId} className="space-y-3 sm:space-y-4">
+                  {vendorGroups.length > 1 && (
+                    <div className="flex items-center justify-between px-1">
+                      <h2 className="text-sm font-semibold">
+                        Shipment {index + 1} of {vendorGroups.length} · Vendor #{group.vendorId.slice(0, 6)}
+                      </h2>
+                      <span className="text-sm text-muted-foreground">KES {group.subtotal.toLocaleString()}</span>
                     </div>
-                    <div className="flex-1 space-y-3">
-                      <div className="flex items-start justify-between gap-4">
-                        <div>
-                          <h2 className="text-lg font-semibold">{item.name}</h2>
-                          <p className="text-sm text-muted-foreground">Sold by vendor #{item.vendorId.slice(0, 6)}</p>
-                        </div>
-                        <div className="text-right">
-                          <p className="text-lg font-bold">KES {(item.priceKsh * item.quantity).toLocaleString()}</p>
-                          <p className="text-xs text-muted-foreground">KES {item.priceKsh.toLocaleString()} each</p>
-                        </div>
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm">Quantity</span>
-                          <Input
-                            type="number"
-                            min={1}
-                            max={10}
-                            value={item.quantity}
-                            onChange={(event) => updateQuantity(item.productId, Number(event.target.value), item.size, item.color)}
-                            className="w-20"
+                  )}
+                  {group.items.map((item) => (
+                    <Card key={`${item.productId}-${item.size}-${item.color}`}>
+                      <CardContent className="p-4 sm:p-6 flex flex-col sm:flex-row gap-4">
+                        <div className="w-24 h-24 rounded-lg border overflow-hidden flex-shrink-0">
+                          <img
+                            src={item.imageUrl || "/placeholder.svg"}
+                            alt={item.name}
+                            className="w-full h-full object-cover"
                           />
                         </div>
-                        <Button variant="ghost" size="sm" onClick={() => removeItem(item.productId, item.size, item.color)}>
-                          Remove
-                        </Button>
-                      </div>
-                      <div className="pt-2 border-t space-y-2">
-                        {/* Show available sizes from this product */}
-                        {item.availableSizes && item.availableSizes.length > 0 && (
-                          <div className="text-xs text-muted-foreground">
-                            <span className="font-medium">Available sizes: </span>
-                            {item.availableSizes.join(", ")}
+                        <div className="flex-1 space-y-3">
+                          <div className="flex items-start justify-between gap-4">
+                            <div>
+                              <h2 className="text-lg font-semibold">{item.name}</h2>
+                              <p className="text-sm text-muted-foreground">Sold by vendor #{item.vendorId.slice(0, 6)}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="text-lg font-bold">KES {(item.priceKsh * item.quantity).toLocaleString()}</p>
+                              <p className="text-xs text-muted-foreground">KES {item.priceKsh.toLocaleString()} each</p>
+                            </div>
                           </div>
-                        )}
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm">Quantity</span>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={item.quantity}
+                                onChange={(event) => updateQuantity(item.productId, Number(event.target.value), item.size, item.color)}
+                                className="w-20"
+                              />
+                            </div>
+                            <Button variant="ghost" size="sm" onClick={() => removeItem(item.productId, item.size, item.color)}>
+                              Remove
+                            </Button>
+                          </div>
+                          <div className="pt-2 border-t space-y-2">
+                            {/* Show available sizes from this product */}
+                            {item.availableSizes && item.availableSizes.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                <span className="font-medium">Available sizes: </span>
+                                {item.availableSizes.join(", ")}
+                              </div>
+                            )}
+
+                            {/* Show selected color if applicable */}
+                            {item.color && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                <span className="font-medium">Color: </span>
+                                {item.color}
+                              </div>
+                            )}
+                            {!item.color && item.availableColors && item.availableColors.length > 0 && (
+                              <p className="text-xs text-destructive mt-1">⚠️ Color required before checkout</p>
+                            )}
+
+                            <ShoeSizeSelector
+                              selectedSize={item.size}
+                              availableSizes={item.availableSizes}
+                              onSizeChange={(size) => updateSize(item.productId, size, item.size, item.color)}
+                            />
 
-                        {/* Show selected color if applicable */}
-                        {item.color && (
-                          <div className="text-xs text-muted-foreground mt-1">
-                            <span className="font-medium">Color: </span>
-                            {item.color}
+                            {!item.size && item.availableSizes && item.availableSizes.length > 0 && (
+                              <p className="text-xs text-destructive">⚠️ Size required for shoes before checkout</p>
+                            )}
+
+                            {/* Warning if selected size is not in available sizes */}
+                            {item.size && item.availableSizes && item.availableSizes.length > 0 && !item.availableSizes.includes(item.size) && (
+                              <Alert variant="destructive" className="py-2 px-3">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertTitle className="text-sm font-medium">Size {item.size} not available</AlertTitle>
+                                <AlertDescription className="text-xs space-y-2">
+                                  <p>This shoe is not available in size {item.size}.</p>
+                                  <p><strong>Available sizes:</strong> {item.availableSizes.join(", ")}</p>
+                                  <Link
+                                    to={`/shop?size=${item.size}`}
+                                    className="inline-flex items-center gap-1 text-primary-foreground underline hover:no-underline font-medium"
+                                  >
+                                    Find size {item.size} in other shops <ExternalLink className="h-3 w-3" />
+                                  </Link>
+                                </AlertDescription>
+                              </Alert>
+                            )}
                           </div>
-                        )}
-                        {!item.color && item.availableColors && item.availableColors.length > 0 && (
-                          <p className="text-xs text-destructive mt-1">⚠️ Color required before checkout</p>
-                        )}
-
-                        <ShoeSizeSelector
-                          selectedSize={item.size}
-                          onSizeChange={(size) => updateSize(item.productId, size, item.size, item.color)}
-                        />
-
-                        {!item.size && item.availableSizes && item.availableSizes.length > 0 && (
-                          <p className="text-xs text-destructive">⚠️ Size required for shoes before checkout</p>
-                        )}
-
-                        {/* Warning if selected size is not in available sizes */}
-                        {item.size && item.availableSizes && item.availableSizes.length > 0 && !item.availableSizes.includes(item.size) && (
-                          <Alert variant="destructive" className="py-2 px-3">
-                            <AlertTriangle className="h-4 w-4" />
-                            <AlertTitle className="text-sm font-medium">Size {item.size} not available</AlertTitle>
-                            <AlertDescription className="text-xs space-y-2">
-                              <p>This shoe is not available in size {item.size}.</p>
-                              <p><strong>Available sizes:</strong> {item.availableSizes.join(", ")}</p>
-                              <Link
-                                to={`/shop?size=${item.size}`}
-                                className="inline-flex items-center gap-1 text-primary-foreground underline hover:no-underline font-medium"
-                              >
-                                Find size {item.size} in other shops <ExternalLink className="h-3 w-3" />
-                              </Link>
-                            </AlertDescription>
-                          </Alert>
-                        )}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
               ))}
             </div>
 
@@ -209,8 +269,8 @@ const Cart = () => {
                       {deliveryEstimate}
                     </Badge>
                   )}
-                  <Button className="w-full min-h-[48px] tap-active" onClick={handleCheckout}>
-                    Proceed to Checkout
+                  <Button className="w-full min-h-[48px] tap-active" onClick={handleCheckout} disabled={validating}>
+                    {validating ? "Checking prices..." : "Proceed to Checkout"}
                   </Button>
                 </CardContent>
               </Card>
@@ -13,13 +13,14 @@ import { Phone, MapPin, Store, Mail } from "lucide-react";
 import { AddressAutocomplete } from "@/components/AddressAutocomplete";
 import { LocationPinMap } from "@/components/LocationPinMap";
 import { calculateDeliveryFee } from "@/utils/deliveryPricing";
+import { transitionOrderStatus } from "@/lib/orderStatus";
 
 const paymentOptions = [
   { value: "intasend", label: "Pay with M-Pesa / Card (Online)", icon: "💳", description: "Secure payment via IntaSend" },
 ];
 
 const Checkout = () => {
-  const { items, subtotal, clearCart } = useCart();
+  const { items, subtotal, vendorGroups, clearCart } = useCart();
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
 
@@ -29,8 +30,7 @@ const Checkout = () => {
   const [processing, setProcessing] = useState(false);
   const [paymentGateway, setPaymentGateway] = useState<string>("intasend");
   const [deliveryType, setDeliveryType] = useState<"delivery" | "pickup">("delivery");
-  const [vendorProfile, setVendorProfile] = useState<any>(null);
-  const [vendorCounty, setVendorCounty] = useState<string | null>(null);
+  const [vendorProfiles, setVendorProfiles] = useState<Record<string, any>>({});
   const [shipping, setShipping] = useState({
     recipientName: user?.user_metadata?.full_name || "",
     phone: "",
@@ -45,7 +45,6 @@ const Checkout = () => {
 
   // Delivery zone and fee state
   const [deliveryZone, setDeliveryZone] = useState<1 | 2 | null>(null);
-  const [deliveryFee, setDeliveryFee] = useState(0);
   const [selectedAddress, setSelectedAddress] = useState("");
 
   // GPS location state
@@ -56,47 +55,54 @@ const Checkout = () => {
     googleMapsLink: string;
   } | null>(null);
 
-  // Calculate shipping fee based on delivery type and zone
-  const shippingFee = useMemo(() => {
-    if (deliveryType === "pickup") return 0;
-    return deliveryFee;
-  }, [deliveryType, deliveryFee]);
+  // Each vendor ships separately, so each shipment carries its own delivery fee.
+  // This is an estimate for display - create-order recomputes it with the same rules.
+  const vendorShippingFees = useMemo(() => {
+    const fees: Record<string, number> = {};
+    vendorGroups.forEach((group) => {
+      if (deliveryType === "pickup" || !deliveryZone) {
+        fees[group.vendorId] = 0;
+      } else {
+        fees[group.vendorId] = calculateDeliveryFee({
+          vendorCounty: vendorProfiles[group.vendorId]?.vendor_county || null,
+          buyerCounty: shipping.county || null,
+          isPickup: false,
+        });
+      }
+    });
+    return fees;
+  }, [vendorGroups, deliveryType, deliveryZone, vendorProfiles, shipping.county]);
+
+  const shippingFee = useMemo(
+    () => Object.values(vendorShippingFees).reduce((sum, fee) => sum + fee, 0),
+    [vendorShippingFees]
+  );
 
   const total = useMemo(() => subtotal + shippingFee, [subtotal, shippingFee]);
 
-  // Fetch vendor profile and location
+  // Fetch the profile and shop location of every vendor in the cart
+  const vendorIdsKey = vendorGroups.map((group) => group.vendorId).join(",");
   useEffect(() => {
-    const fetchVendorProfile = async () => {
-      if (items.length > 0) {
-        try {
-          // Get vendor ID from first item
-          const productId = items[0].productId;
-          const { data: product } = await supabase
-            .from("products")
-            .select("vendor_id")
-            .eq("id", productId)
-            .single();
-
-          if (product?.vendor_id) {
-            const { data: profile } = await supabase
-              .from("profiles")
-              .select("*, vendor_county, vendor_city")
-              .eq("id", product.vendor_id)
-              .single();
-
-            if (profile) {
-              setVendorProfile(profile);
-              setVendorCounty(profile.vendor_county || null);
-            }
-          }
-        } catch (error) {
-          console.error("Error fetching vendor profile:", error);
-        }
+    const fetchVendorProfiles = async () => {
+      if (!vendorIdsKey) return;
+      try {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("*, vendor_county, vendor_city")
+          .in("id", vendorIdsKey.split(","));
+
+        const byId: Record<string, any> = {};
+        (profiles || []).forEach((profile) => {
+          byId[profile.id] = profile;
+        });
+        setVendorProfiles(byId);
+      } catch (error) {
+        console.error("Error fetching vendor profiles:", error);
       }
     };
 
-    fetchVendorProfile();
-  }, [items]);
+    fetchVendorProfiles();
+  }, [vendorIdsKey]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -157,16 +163,16 @@ const Checkout = () => {
   }) => {
     setSelectedAddress(address.displayName);
 
-    const smartFee = calculateDeliveryFee({
-      vendorCounty,
+    // Zone 1 only when every shipment is a same-metro delivery
+    const smartFees = vendorGroups.map((group) => calculateDeliveryFee({
+      vendorCounty: vendorProfiles[group.vendorId]?.vendor_county || null,
       buyerCounty: address.county,
       isPickup: false,
-    });
+    }));
 
-    const zone: 1 | 2 = smartFee === 200 ? 1 : 2;
+    const zone: 1 | 2 = smartFees.every((fee) => fee === 200) ? 1 : 2;
 
     setDeliveryZone(zone);
-    setDeliveryFee(smartFee);
     setShipping((prev) => ({
       ...prev,
       addressLine1: address.addressLine1,
@@ -208,145 +214,49 @@ const Checkout = () => {
         return;
       }
 
-      // Fetch product details to validate and get vendor info
-      const productIds = items.map((item) => item.productId);
-      const { data: products, error: productsError } = await supabase
-        .from("products")
-        .select("id, vendor_id, name, price_ksh, stock, images, brand")
-        .in("id", productIds);
-
-      if (productsError || !products || products.length !== productIds.length) {
-        throw new Error("Failed to load products. Please refresh and try again.");
-      }
-
-      // Validate single vendor
-      const vendorIds = new Set(products.map((p) => p.vendor_id));
-      if (vendorIds.size > 1) {
-        throw new Error("You can only checkout items from one vendor at a time.");
-      }
-      const vendorId = products[0].vendor_id;
-
-      // Calculate totals
-      const commissionRate = 10;
-      let calculatedSubtotal = 0;
-      const orderItems = items.map((cartItem) => {
-        const product = products.find((p) => p.id === cartItem.productId);
-        if (!product) {
-          throw new Error(`Product ${cartItem.name} not found`);
-        }
-
-        // Validate stock
-        if (product.stock !== null && typeof product.stock === "number" && product.stock < cartItem.quantity) {
-          throw new Error(`Insufficient stock for ${product.name}. Only ${product.stock} available.`);
-        }
-
-        const unitPrice = typeof product.price_ksh === "number" ? product.price_ksh : Number(product.price_ksh);
-        const lineTotal = unitPrice * cartItem.quantity;
-        calculatedSubtotal += lineTotal;
-
-        return {
-          product_id: product.id,
-          product_name: product.name,
-          product_snapshot: {
-            brand: product.brand,
-            images: product.images,
-            price_ksh: unitPrice,
-            size: cartItem.size || null, // Allow null size for accessories
-            color: cartItem.color || null, // Store selected color
+      // Orders are created server-side: prices, stock, delivery fees and totals are
+      // recomputed from the database in one transaction (see create_checkout_orders)
+      const { data: created, error: createError } = await supabase.functions.invoke("create-order", {
+        body: {
+          items: items.map((item) => ({
+            productId: item.productId,
+            variantId: item.variantId ?? null,
+            size: item.size || null,
+            color: item.color || null,
+            quantity: item.quantity,
+          })),
+          shipping: {
+            recipientName: shipping.recipientName,
+            phone: shipping.phone,
+            email: shipping.email || undefined,
+            addressLine1: shipping.addressLine1,
+            addressLine2: shipping.addressLine2,
+            city: shipping.city,
+            county: shipping.county,
+            postalCode: shipping.postalCode,
+            deliveryNotes: shipping.deliveryNotes,
+            gpsLatitude: gpsLocation?.latitude ?? null,
+            gpsLongitude: gpsLocation?.longitude ?? null,
           },
-          quantity: cartItem.quantity,
-          unit_price_ksh: unitPrice,
-          line_total_ksh: lineTotal,
-          size: cartItem.size || null,
-          color: cartItem.color || null, // Add color column to order_items
-        };
+          deliveryType,
+          paymentGateway: paymentGateway === "intasend" ? "intasend" : "mpesa",
+        },
       });
 
-      const subtotalRounded = Number(calculatedSubtotal.toFixed(2));
-      const total = Number((subtotalRounded + shippingFee).toFixed(2));
-      const commissionAmount = Number((subtotalRounded * (commissionRate / 100)).toFixed(2));
-      const payoutAmount = Number((total - commissionAmount).toFixed(2));
-
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          customer_id: user.id,
-          vendor_id: vendorId,
-          subtotal_ksh: subtotalRounded,
-          shipping_fee_ksh: shippingFee,
-          total_ksh: total,
-          commission_rate: commissionRate,
-          commission_amount: commissionAmount,
-          payout_amount: payoutAmount,
-          status: "pending_payment", // Order awaits payment confirmation
-        })
-        .select()
-        .single();
-
-      if (orderError || !order) {
-        throw new Error(orderError?.message || "Failed to create order");
-      }
-
-      // Create order items
-      const itemsToInsert = orderItems.map((item) => ({
-        ...item,
-        order_id: order.id,
-      }));
-
-      const { error: itemsError } = await supabase.from("order_items").insert(itemsToInsert);
-      if (itemsError) {
-        // Rollback order
-        await supabase.from("orders").delete().eq("id", order.id);
-        throw new Error(itemsError.message || "Failed to save order items");
+      if (createError || !created?.success) {
+        throw new Error(created?.error || createError?.message || "Failed to create order");
       }
 
-      // Create shipping details with GPS coordinates
-      const { error: shippingError } = await supabase.from("order_shipping_details").insert({
-        order_id: order.id,
-        recipient_name: shipping.recipientName,
-        phone: shipping.phone,
-        email: shipping.email || null,
-        address_line1: deliveryType === "delivery" ? shipping.addressLine1 : null,
-        address_line2: deliveryType === "delivery" ? shipping.addressLine2 || null : null,
-        city: deliveryType === "delivery" ? shipping.city : null,
-        county: shipping.county || null,
-        postal_code: shipping.postalCode || null,
-        country: "Kenya",
-        delivery_notes: shipping.deliveryNotes || null,
-        delivery_type: deliveryType,
-        // GPS coordinates for accurate delivery
-        gps_latitude: gpsLocation?.latitude || null,
-        gps_longitude: gpsLocation?.longitude || null,
-      });
+      const createdOrderIds: string[] = created.orderIds;
+      const checkoutSessionId: string | null = created.checkoutSessionId;
 
-      if (shippingError) {
-        // Rollback order and items
-        await supabase.from("order_items").delete().eq("order_id", order.id);
-        await supabase.from("orders").delete().eq("id", order.id);
-        throw new Error(shippingError.message || "Failed to save shipping details");
+      if (Number(created.totalKsh) !== total) {
+        // The server total is authoritative; the on-page figure was only an estimate
+        toast.info(`Order total updated to KES ${Number(created.totalKsh).toLocaleString()}`);
       }
 
-      // Create payment record
-      const { data: payment, error: paymentError } = await supabase
-        .from("payments")
-        .insert({
-          order_id: order.id,
-          gateway: paymentGateway === "intasend" ? "intasend" : "mpesa",
-          status: "pending",
-          amount_ksh: total,
-          currency: "KES",
-        })
-        .select()
-        .single();
-
-      if (paymentError || !payment) {
-        // Rollback order, items, and shipping
-        await supabase.from("order_shipping_details").delete().eq("order_id", order.id);
-        await supabase.from("order_items").delete().eq("order_id", order.id);
-        await supabase.from("orders").delete().eq("id", order.id);
-        throw new Error(paymentError?.message || "Failed to create payment record");
-      }
+      const isSplitCheckout = createdOrderIds.length > 1;
+      const firstOrderId = createdOrderIds[0];
 
       // Handle Manual Paybill (M-Pesa)
       if (paymentGateway === "mpesa") {
@@ -355,39 +265,37 @@ const Checkout = () => {
 
         clearCart();
         toast.success("Order placed! Redirecting to payment...");
-        navigate(`/orders/${order.id}?payment=manual_pending`);
+        navigate(isSplitCheckout ? "/orders?payment=manual_pending" : `/orders/${firstOrderId}?payment=manual_pending`);
         return;
       }
 
-      // Process IntaSend payment
+      // If the payment page cannot be opened nothing can be paid - cancel the new
+      // orders so they don't linger in pending_payment; the buyer simply tries again
+      const cancelUnpaidOrders = () =>
+        Promise.allSettled(createdOrderIds.map((orderId) =>
+          transitionOrderStatus(orderId, "cancelled_by_customer", { reason: "Payment could not be started" })
+        ));
+
+      // Process IntaSend payment - one payment for the whole cart
+      const returnPath = isSplitCheckout ? "/orders" : `/orders/${firstOrderId}`;
       const { data: intasendResponse, error: intasendError } = await supabase.functions.invoke("intasend-initiate-payment", {
         body: {
-          orderId: order.id,
-          successUrl: `${window.location.origin}/orders/${order.id}?payment_success=true`,
-          cancelUrl: `${window.location.origin}/orders/${order.id}?cancelled=true`,
+          ...(isSplitCheckout ? { checkoutSessionId } : { orderId: firstOrderId }),
+          successUrl: `${window.location.origin}${returnPath}?payment_success=true`,
+          cancelUrl: `${window.location.origin}${returnPath}?cancelled=true`,
         },
       });
 
       if (intasendError) {
-        // Rollback everything
-        await supabase.from("payments").delete().eq("id", payment.id);
-        await supabase.from("order_shipping_details").delete().eq("order_id", order.id);
-        await supabase.from("order_items").delete().eq("order_id", order.id);
-        await supabase.from("orders").delete().eq("id", order.id);
-
         console.error("IntaSend payment error:", intasendError);
+        await cancelUnpaidOrders();
         throw new Error(intasendError.message || "Failed to initiate payment. Please try again.");
       }
 
       if (!intasendResponse?.success || !intasendResponse?.url) {
-        // Rollback everything
-        await supabase.from("payments").delete().eq("id", payment.id);
-        await supabase.from("order_shipping_details").delete().eq("order_id", order.id);
-        await supabase.from("order_items").delete().eq("order_id", order.id);
-        await supabase.from("orders").delete().eq("id", order.id);
-
         const errorMsg = intasendResponse?.error || "Failed to initiate payment";
         console.error("IntaSend payment error:", intasendResponse);
+        await cancelUnpaidOrders();
         throw new Error(errorMsg);
       }
 
@@ -416,49 +324,57 @@ const Checkout = () => {
     <div className="min-h-screen bg-muted/20">
       <div className="container mx-auto px-4 py-10 grid grid-cols-1 lg:grid-cols-3 gap-6">
         <form onSubmit={handleSubmit} className="lg:col-span-2 space-y-6">
-          {/* Vendor Shop Location - Show prominently at top */}
-          {vendorProfile && (vendorProfile.store_name || vendorProfile.vendor_city || vendorProfile.vendor_address_line1) && (
-            <Card className="border-primary/40">
-              <CardContent className="pt-6">
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2 mb-3">
-                    <Store className="h-5 w-5 text-primary" />
-                    <h3 className="font-semibold text-lg">Shop Location</h3>
-                  </div>
-                  {vendorProfile.store_name && (
-                    <div>
-                      <p className="text-sm font-medium text-muted-foreground">Store Name</p>
-                      <p className="text-base font-semibold">{vendorProfile.store_name}</p>
+          {/* Vendor Shop Location(s) - Show prominently at top, one per shipment */}
+          {vendorGroups.map((group, index) => {
+            const vendorProfile = vendorProfiles[group.vendorId];
+            if (!vendorProfile || !(vendorProfile.store_name || vendorProfile.vendor_city || vendorProfile.vendor_address_line1)) {
+              return null;
+            }
+            return (
+              <Card key={group.vendorId} className="border-primary/40">
+                <CardContent className="pt-6">
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 mb-3">
+                      <Store className="h-5 w-5 text-primary" />
+                      <h3 className="font-semibold text-lg">
+                        {vendorGroups.length > 1 ? `Shop Location · Shipment ${index + 1} of ${vendorGroups.length}` : "Shop Location"}
+                      </h3>
                     </div>
-                  )}
-                  <div className="flex items-start gap-2">
-                    <MapPin className="h-4 w-4 text-muted-foreground mt-1 flex-shrink-0" />
-                    <div>
-                      <p className="text-sm">
-                        {vendorProfile.vendor_address_line1 && (
-                          <>{vendorProfile.vendor_address_line1}<br /></>
-                        )}
-                        {vendorProfile.vendor_address_line2 && (
-                          <>{vendorProfile.vendor_address_line2}<br /></>
-                        )}
-                        {vendorProfile.vendor_city && (
-                          <>{vendorProfile.vendor_city}{vendorProfile.vendor_county ? `, ${vendorProfile.vendor_county}` : ""}</>
-                        )}
-                        {!vendorProfile.vendor_address_line1 && !vendorProfile.vendor_city && (
-                          <span className="text-muted-foreground italic">Location details will be provided after order placement</span>
-                        )}
+                    {vendorProfile.store_name && (
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Store Name</p>
+                        <p className="text-base font-semibold">{vendorProfile.store_name}</p>
+                      </div>
+                    )}
+                    <div className="flex items-start gap-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground mt-1 flex-shrink-0" />
+                      <div>
+                        <p className="text-sm">
+                          {vendorProfile.vendor_address_line1 && (
+                            <>{vendorProfile.vendor_address_line1}<br /></>
+                          )}
+                          {vendorProfile.vendor_address_line2 && (
+                            <>{vendorProfile.vendor_address_line2}<br /></>
+                          )}
+                          {vendorProfile.vendor_city && (
+                            <>{vendorProfile.vendor_city}{vendorProfile.vendor_county ? `, ${vendorProfile.vendor_county}` : ""}</>
+                          )}
+                          {!vendorProfile.vendor_address_line1 && !vendorProfile.vendor_city && (
+                            <span className="text-muted-foreground italic">Location details will be provided after order placement</span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="p-3 bg-blue-50 dark:bg-blue-950/20 rounded border border-blue-200 dark:border-blue-800 mt-3">
+                      <p className="text-xs text-blue-900 dark:text-blue-100">
+                        💡 <strong>Tip:</strong> Choose "Pickup" below to collect from {vendorGroups.length > 1 ? "each shop" : "this location"} and save on delivery fees!
                       </p>
                     </div>
                   </div>
-                  <div className="p-3 bg-blue-50 dark:bg-blue-950/20 rounded border border-blue-200 dark:border-blue-800 mt-3">
-                    <p className="text-xs text-blue-900 dark:text-blue-100">
-                      💡 <strong>Tip:</strong> Choose "Pickup" below to collect from this location and save on delivery fees!
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                </CardContent>
+              </Card>
+            );
+          })}
           <Card>
             <CardHeader>
               <CardTitle>Delivery or Pickup</CardTitle>
@@ -522,8 +438,13 @@ const Checkout = () => {
                           <span className="text-sm font-medium">
                             {deliveryZone === 1 ? '🏙️ Nairobi Zone' : '🌍 Outside Nairobi'}
                           </span>
-                          <span className="font-bold text-lg">KES {deliveryFee.toLocaleString()}</span>
+                          <span className="font-bold text-lg">KES {shippingFee.toLocaleString()}</span>
                         </div>
+                        {vendorGroups.length > 1 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {vendorGroups.length} shipments - each seller delivers separately
+                          </p>
+                        )}
                       </div>
                     )}
                   </div>
@@ -553,13 +474,7 @@ const Checkout = () => {
                         // Auto-detect zone from the city/county
                         const isNairobi = [location.city, location.county, location.address]
                           .some(field => field?.toLowerCase().includes('nairobi'));
-                        if (isNairobi) {
-                          setDeliveryZone(1);
-                          setDeliveryFee(200);
-                        } else {
-                          setDeliveryZone(2);
-                          setDeliveryFee(300);
-                        }
+                        setDeliveryZone(isNairobi ? 1 : 2);
                       }}
                     />
                     {gpsLocation && (
@@ -637,10 +552,25 @@ const Checkout = () => {
             <CardTitle>Order Summary</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4 text-sm">
-            {items.map((item) => (
-              <div key={`${item.productId}-${item.size}-${item.color}`} className="flex justify-between">
-                <span>{item.quantity} × {item.name}</span>
-                <span>KES {(item.quantity * item.priceKsh).toLocaleString()}</span>
+            {vendorGroups.map((group, index) => (
+              <div key={group.vendorId} className="space-y-2">
+                {vendorGroups.length > 1 && (
+                  <p className="text-xs font-medium text-muted-foreground">
+                    Shipment {index + 1} · {vendorProfiles[group.vendorId]?.store_name || `Vendor #${group.vendorId.slice(0, 6)}`}
+                  </p>
+                )}
+                {group.items.map((item) => (
+                  <div key={`${item.productId}-${item.size}-${item.color}`} className="flex justify-between">
+                    <span>{item.quantity} × {item.name}</span>
+                    <span>KES {(item.quantity * item.priceKsh).toLocaleString()}</span>
+                  </div>
+                ))}
+                {vendorGroups.length > 1 && deliveryType === "delivery" && deliveryZone && (
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Delivery</span>
+                    <span>KES {(vendorShippingFees[group.vendorId] ?? 0).toLocaleString()}</span>
+                  </div>
+                )}
               </div>
             ))}
             <div className="flex justify-between pt-2 border-t">
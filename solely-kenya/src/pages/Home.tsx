@@ -13,9 +13,10 @@ import { MoreHorizontal } from "lucide-react";
 import { PendingOrdersBanner } from "@/components/vendor/PendingOrdersBanner";
 import { SneakerLoader } from "@/components/ui/SneakerLoader";
 import { SEO } from "@/components/SEO";
-import { Input } from "@/components/ui/input";
+import { SearchAutocomplete } from "@/components/SearchAutocomplete";
 import { ScrollReveal } from "@/components/ui/ScrollReveal";
-import { rankBySearchHistory, saveSearch } from "@/lib/searchHistory";
+import { saveSearch } from "@/lib/searchHistory";
+import { searchProducts } from "@/lib/search";
 // Swiper
 import { Swiper, SwiperSlide } from 'swiper/react';
 import { Navigation, Autoplay, FreeMode } from 'swiper/modules';
@@ -38,57 +39,14 @@ const Home = () => {
 
   const fetchPopularProducts = async () => {
     try {
-      const { data: productsData, error } = await supabase
-        .from("products")
-        .select("*")
-        .eq("status", "active")
-        .order("created_at", { ascending: false })
-        .limit(24);
+      // Same personalised "For You" order as the Shop (featured first)
+      const { results } = await searchProducts({}, { sort: "smart", limit: 24 });
 
-      if (error) throw error;
-
-      if (!productsData || productsData.length === 0) {
-        setPopularProducts([]);
-        setLoading(false);
-        return;
-      }
-
-      // Fetch reviews
-      const productIds = productsData.map(p => p.id);
-      const { data: reviewsData } = await supabase
-        .from("reviews")
-        .select("product_id, rating")
-        .in("product_id", productIds);
-
-      const reviewStats: Record<string, { sum: number; count: number }> = {};
-      (reviewsData || []).forEach(review => {
-        if (!reviewStats[review.product_id]) {
-          reviewStats[review.product_id] = { sum: 0, count: 0 };
-        }
-        reviewStats[review.product_id].sum += review.rating;
-        reviewStats[review.product_id].count += 1;
-      });
-
-      const productsWithStats = productsData.map(product => {
-        const stats = reviewStats[product.id];
-        return {
-          ...product,
-          averageRating: stats ? stats.sum / stats.count : null,
-          reviewCount: stats ? stats.count : 0,
-        };
-      });
-
-      // Sort: reviewed products first, then by review count, then by date
-      const hasReviews = productsWithStats.some(p => p.reviewCount > 0);
-      if (hasReviews) {
-        productsWithStats.sort((a, b) => {
-          if (b.reviewCount !== a.reviewCount) return b.reviewCount - a.reviewCount;
-          return (b.averageRating || 0) - (a.averageRating || 0);
-        });
-      }
-
-      // Apply personalised + shuffled ranking
-      setPopularProducts(rankBySearchHistory(productsWithStats));
+      setPopularProducts(results.map((product) => ({
+        ...product,
+        averageRating: product.average_rating,
+        reviewCount: product.review_count,
+      })));
     } catch (error) {
       console.error("Error fetching products:", error);
     } finally {
@@ -203,12 +161,12 @@ const Home = () => {
             <form onSubmit={handleHeroSearch} className="w-full sm:w-auto sm:min-w-[320px]">
               <div className="flex items-center bg-white/95 p-1 rounded-full shadow-lg">
                 <Search className="h-4 w-4 text-muted-foreground ml-3 shrink-0" />
-                <Input
-                  type="text"
-                  placeholder="Search brands, styles..."
+                <SearchAutocomplete
                   value={heroSearch}
-                  onChange={(e) => setHeroSearch(e.target.value)}
-                  className="flex-1 border-0 shadow-none bg-transparent h-9 px-2.5 text-foreground text-sm placeholder:text-muted-foreground focus-visible:ring-0 focus-visible:ring-offset-0"
+                  onChange={setHeroSearch}
+                  placeholder="Search brands, styles..."
+                  className="flex-1"
+                  inputClassName="border-0 shadow-none bg-transparent h-9 px-2.5 text-foreground text-sm placeholder:text-muted-foreground focus-visible:ring-0 focus-visible:ring-offset-0"
                 />
                 <button
                   type="submit"
@@ -292,6 +250,7 @@ const Home = () => {
                   createdAt={product.created_at}
                   condition={product.condition}
                   videoUrl={product.video_url}
+                  sellerBadge={product.seller_badge}
                 />
               ))}
             </div>
@@ -0,0 +1,58 @@
+import { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { SEO } from "@/components/SEO";
+import { PriceAlertList } from "@/components/PriceAlertList";
+import { SavedSearchList } from "@/components/SavedSearchList";
+
+interface MyAlertsProps {
+  defaultTab?: "prices" | "searches";
+}
+
+const MyAlerts = ({ defaultTab = "prices" }: MyAlertsProps) => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = searchParams.get("tab") ?? defaultTab;
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate(`/auth?redirect=${encodeURIComponent(`${window.location.pathname}${window.location.search}`)}`);
+    }
+  }, [loading, user, navigate]);
+
+  if (loading || !user) {
+    return <SneakerLoader message="Loading your alerts..." />;
+  }
+
+  return (
+    <div className="min-h-screen py-8">
+      <SEO title="My Alerts" description="Manage your price-drop alerts and saved searches on Sole-ly Kenya." />
+      <div className="container mx-auto px-4 max-w-3xl">
+        <div className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold mb-2">My Alerts</h1>
+          <p className="text-muted-foreground">
+            Price drops on shoes you're watching and new listings for your saved searches.
+          </p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setSearchParams({ tab: value }, { replace: true })}>
+          <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsTrigger value="prices">Price Drops</TabsTrigger>
+            <TabsTrigger value="searches">Saved Searches</TabsTrigger>
+          </TabsList>
+          <TabsContent value="prices">
+            <PriceAlertList userId={user.id} />
+          </TabsContent>
+          <TabsContent value="searches">
+            <SavedSearchList />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default MyAlerts;
@@ -12,7 +12,14 @@ import { OrderReviewDialog } from "@/components/OrderReviewDialog";
 import { OrderConfirmationModal } from "@/components/OrderConfirmationModal";
 import { OrderReceipt } from "@/components/OrderReceipt";
 import { LiveDeliveryTracker } from "@/components/LiveDeliveryTracker";
-import { Phone, MessageCircle, PhoneCall, CheckCircle, Download } from "lucide-react";
+import { ReturnRequestDialog } from "@/components/ReturnRequestDialog";
+import { OrderReturnPanel } from "@/components/OrderReturnPanel";
+import { OrderTimeline } from "@/components/OrderTimeline";
+import { DisputeThread } from "@/components/DisputeThread";
+import { type OrderReturn, findOpenReturn } from "@/lib/returns";
+import { type DisputeCase, disputeReasonLabels, isDisputeActive, settlementLabels } from "@/lib/disputes";
+import { type OrderEvent, buyerDisputableStatuses, transitionOrderStatus } from "@/lib/orderStatus";
+import { Phone, MessageCircle, PhoneCall, CheckCircle, Download, RotateCcw } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -25,6 +32,9 @@ type OrderRecord = Tables<"orders"> & {
   order_items: Tables<"order_items">[];
   order_shipping_details: Tables<"order_shipping_details"> | null;
   payments?: Tables<"payments">[];
+  order_returns?: OrderReturn[];
+  order_events?: OrderEvent[];
+  disputes?: DisputeCase[];
 };
 
 // Helper component for contact vendor button with multiple options
@@ -95,6 +105,7 @@ const statusLabels: Record<string, { label: string; variant: "default" | "second
   delivered: { label: "Delivered", variant: "default" },
   completed: { label: "Completed", variant: "default" },
   disputed: { label: "In dispute", variant: "destructive" },
+  return_in_progress: { label: "Return in progress", variant: "secondary" },
   refunded: { label: "Refunded", variant: "outline" },
   cancelled_by_vendor: { label: "Declined by Vendor", variant: "destructive" },
   cancelled_by_customer: { label: "Cancelled", variant: "outline" },
@@ -115,6 +126,7 @@ const Orders = () => {
   const [selectedOrderForConfirmation, setSelectedOrderForConfirmation] = useState<OrderRecord | null>(null);
   const [receiptOrder, setReceiptOrder] = useState<OrderRecord | null>(null);
   const [reviewedOrders, setReviewedOrders] = useState<Set<string>>(new Set());
+  const [returnOrder, setReturnOrder] = useState<OrderRecord | null>(null);
 
   // Poll for payment status when returning from IntaSend (webhook may be delayed)
   useEffect(() => {
@@ -168,7 +180,10 @@ const Orders = () => {
         `*,
         order_items(*),
         order_shipping_details(*),
-        payments(*)
+        payments(*),
+        order_returns(*),
+        order_events(*),
+        disputes(*)
       `
       )
       .eq("customer_id", user.id)
@@ -263,6 +278,18 @@ const Orders = () => {
             fetchOrders();
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'order_returns',
+            filter: `customer_id=eq.${user.id}`,
+          },
+          () => {
+            fetchOrders();
+          }
+        )
         .subscribe();
 
       return () => {
@@ -306,7 +333,7 @@ const Orders = () => {
 
       if (error) throw error;
 
-      await supabase.from("orders").update({ status: "disputed" }).eq("id", order.id);
+      await transitionOrderStatus(order.id, "disputed", { reason: description });
 
       // Notify vendor and buyer
       const { data: disputeData } = await supabase
@@ -327,7 +354,7 @@ const Orders = () => {
       fetchOrders();
     } catch (error) {
       console.error("Failed to open dispute", error);
-      toast.error("Could not open dispute");
+      toast.error(error instanceof Error ? error.message : "Could not open dispute");
     }
   };
 
@@ -463,6 +490,17 @@ const Orders = () => {
                 ? { label: "Payment Pending", variant: "destructive" as const }
                 : status;
 
+              // Open return first, otherwise the latest outcome (declined/completed) for context
+              const latestReturn = findOpenReturn(order.order_returns) ?? [...(order.order_returns ?? [])]
+                .filter((r) => r.status !== "cancelled")
+                .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+              // The dispute being worked, otherwise the latest settled one
+              const dispute = order.disputes?.find((d) => isDisputeActive(d.status)) ?? [...(order.disputes ?? [])]
+                .sort((a, b) => new Date(b.opened_at).getTime() - new Date(a.opened_at).getTime())[0];
+              const canRequestReturn = (order.status === "arrived" || order.status === "delivered")
+                && !order.buyer_confirmed
+                && !hasPendingBalance;
+
               return (
                 <Card key={order.id} className={isHighlighted ? "border-primary" : undefined}>
                   <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
@@ -605,6 +643,30 @@ const Orders = () => {
                       </div>
                     )}
 
+                    {dispute && (
+                      <div className="rounded-lg border p-4 space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">Dispute</span>
+                          <Badge variant="outline">{disputeReasonLabels[dispute.reason] || dispute.reason}</Badge>
+                          {dispute.settlement_type && !isDisputeActive(dispute.status) && (
+                            <Badge variant="secondary">{settlementLabels[dispute.settlement_type]}</Badge>
+                          )}
+                        </div>
+                        <DisputeThread dispute={dispute} viewer="buyer" onPosted={fetchOrders} />
+                      </div>
+                    )}
+
+                    {latestReturn && (
+                      <OrderReturnPanel
+                        orderReturn={latestReturn}
+                        role="buyer"
+                        itemName={order.order_items?.find((item) => item.id === latestReturn.order_item_id)?.product_name}
+                        onChanged={fetchOrders}
+                      />
+                    )}
+
+                    <OrderTimeline events={order.order_events} placedAt={order.created_at} viewer="buyer" />
+
                     <div className="flex flex-wrap gap-3">
                       {(order.status === "arrived" || order.status === "shipped") && !order.buyer_confirmed && (
                         // For pickup, ensure vendor has actually confirmed (marked as ready)
@@ -682,7 +744,13 @@ const Orders = () => {
                           )}
                         </>
                       )}
-                      {order.status !== "disputed" && order.status !== "refunded" && order.status !== "completed" && (
+                      {canRequestReturn && (
+                        <Button size="sm" variant="outline" onClick={() => setReturnOrder(order)}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Return / Exchange
+                        </Button>
+                      )}
+                      {buyerDisputableStatuses.includes(order.status) && (
                         <Button size="sm" variant="destructive" onClick={() => handleOpenDispute(order)}>
                           Report a problem
                         </Button>
@@ -731,6 +799,18 @@ const Orders = () => {
         />
       )}
 
+      {/* Return / Exchange Request */}
+      {returnOrder && user && (
+        <ReturnRequestDialog
+          open={!!returnOrder}
+          onOpenChange={(open) => !open && setReturnOrder(null)}
+          orderId={returnOrder.id}
+          customerId={user.id}
+          items={returnOrder.order_items}
+          onSubmitted={fetchOrders}
+        />
+      )}
+
       {/* Hidden Receipt Print Area */}
       {receiptOrder && (
         <div id="receipt-print-area" style={{ position: 'absolute', left: '-9999px', top: 0 }}>
@@ -1,8 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Star, Shield, ArrowLeft, Bell, BellOff, X, ChevronLeft, ChevronRight, Share2, Copy, BarChart2 } from "lucide-react";
+import { Star, Shield, ArrowLeft, Bell, BellOff, X, ChevronLeft, Share2, Copy, BarChart2 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -15,8 +15,14 @@ import { SEO } from "@/components/SEO";
 import { ShoeSizeChart } from "@/components/ShoeSizeChart";
 import { PhotoProvider, PhotoView } from 'react-photo-view';
 import 'react-photo-view/dist/react-photo-view.css';
-import ProductCard from "@/components/ProductCard";
 import { PriceCompareModal } from "@/components/PriceCompareModal";
+import { PriceAlertDialog } from "@/components/PriceAlertDialog";
+import { RecommendationCarousel } from "@/components/RecommendationCarousel";
+import { WishlistButton } from "@/components/WishlistButton";
+import { type PriceAlert, deletePriceAlert, describePriceAlert, fetchPriceAlert } from "@/lib/priceAlerts";
+import { type ProductRecommendations, fetchProductRecommendations, getBrowsingSessionId } from "@/lib/recommendations";
+import { type ProductVariant, fetchProductVariants, findVariant, getInStockSizes, getVariantPrice } from "@/lib/variants";
+import { storefrontPath } from "@/lib/storefronts";
 import {
   WhatsappShareButton,
   FacebookShareButton,
@@ -56,12 +62,13 @@ const Product = () => {
   const [selectedColor, setSelectedColor] = useState("");
   const [selectedImage, setSelectedImage] = useState(0);
   const [product, setProduct] = useState<any>(null);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
   const [vendorProfile, setVendorProfile] = useState<any>(null);
-  const [similarProducts, setSimilarProducts] = useState<any[]>([]);
-  const [similarLoading, setSimilarLoading] = useState(false);
+  const [recommendations, setRecommendations] = useState<ProductRecommendations | null>(null);
   const [reviewStats, setReviewStats] = useState({ count: 0, average: 0 }); // Added review stats state
   const [loading, setLoading] = useState(true);
-  const [priceAlertActive, setPriceAlertActive] = useState(false);
+  const [priceAlert, setPriceAlert] = useState<PriceAlert | null>(null);
+  const [priceAlertDialogOpen, setPriceAlertDialogOpen] = useState(false);
   const [alertLoading, setAlertLoading] = useState(false);
   const [videoAspect, setVideoAspect] = useState<"portrait" | "landscape" | "square">("square");
   const [showShareMenu, setShowShareMenu] = useState(false);
@@ -79,11 +86,20 @@ const Product = () => {
     }
   }, [id]);
 
-  useEffect(() => {
-    if (product) {
-      fetchSimilarProducts();
+  const productId: string | undefined = product?.id;
+
+  const fetchRecommendations = useCallback(async () => {
+    if (!productId) return;
+    try {
+      setRecommendations(await fetchProductRecommendations(productId));
+    } catch (err) {
+      console.error("Error fetching recommendations:", err);
     }
-  }, [product?.id]); // Refetch similar when main product id changes
+  }, [productId]);
+
+  useEffect(() => {
+    fetchRecommendations();
+  }, [fetchRecommendations]); // Refetch recommendations when main product id changes
 
   const fetchProduct = async () => {
     try {
@@ -103,6 +119,7 @@ const Product = () => {
       }
 
       setProduct(productData);
+      setVariants(await fetchProductVariants(productData.id));
 
       // Fetch vendor profile
       const { data: profileData } = await supabase
@@ -130,7 +147,7 @@ const Product = () => {
       // Increment product views
       await supabase
         .from("product_views")
-        .insert({ product_id: id });
+        .insert({ product_id: id, session_id: getBrowsingSessionId() });
 
     } catch (error) {
       console.error("Error fetching product:", error);
@@ -140,102 +157,13 @@ const Product = () => {
     }
   };
 
-  const fetchSimilarProducts = async () => {
-    if (!product) return;
-    try {
-      setSimilarLoading(true);
-
-      let similarData: any[] = [];
-
-      // 1. Try finding same brand first
-      if (product.brand) {
-        const { data: brandData, error: brandError } = await supabase
-          .from("products")
-          .select("*")
-          .eq("status", "active")
-          .neq("id", product.id)
-          .eq("brand", product.brand)
-          .limit(10);
-
-        if (!brandError && brandData) {
-          similarData = brandData;
-        }
-      }
-
-      // 2. If we found fewer than 4 items, try backfilling with the same category
-      if (similarData.length < 4 && product.category) {
-        let query = supabase
-          .from("products")
-          .select("*")
-          .eq("status", "active")
-          .neq("id", product.id)
-          .eq("category", product.category)
-          .limit(10 - similarData.length);
-
-        // If we already have some items, exclude them so we don't get duplicates
-        if (similarData.length > 0) {
-          const existingIds = similarData.map(p => p.id);
-          query = query.not("id", "in", `(${existingIds.join(',')})`);
-        }
-
-        const { data: categoryData, error: categoryError } = await query;
-
-        if (!categoryError && categoryData) {
-          similarData = [...similarData, ...categoryData];
-        }
-      }
-
-      // 3. If still nothing found, exit
-      if (similarData.length === 0) {
-        setSimilarProducts([]);
-        return;
-      }
-
-      // Fetch reviews for the similar products to show stars
-      const productIds = similarData.map(p => p.id);
-      const { data: reviewsData } = await supabase
-        .from("reviews")
-        .select("product_id, rating")
-        .in("product_id", productIds);
-
-      const stats: Record<string, { sum: number; count: number }> = {};
-      (reviewsData || []).forEach(r => {
-        if (!stats[r.product_id]) stats[r.product_id] = { sum: 0, count: 0 };
-        stats[r.product_id].sum += r.rating;
-        stats[r.product_id].count += 1;
-      });
-
-      const processed = similarData.map(p => {
-        const pStats = stats[p.id];
-        return {
-          ...p,
-          averageRating: pStats ? pStats.sum / pStats.count : null,
-          reviewCount: pStats ? pStats.count : 0,
-        };
-      });
-
-      setSimilarProducts(processed);
-    } catch (err) {
-      console.error("Error fetching similar products:", err);
-    } finally {
-      setSimilarLoading(false);
-    }
-  };
-
   // Check if user has active price alert
   useEffect(() => {
     const checkPriceAlert = async () => {
       if (!user || !id) return;
       try {
-        const { data } = await supabase
-          .from("price_alerts")
-          .select("id")
-          .eq("user_id", user.id)
-          .eq("product_id", id)
-          .eq("is_active", true)
-          .maybeSingle();
-
-        setPriceAlertActive(!!data);
+        const alert = await fetchPriceAlert(user.id, id);
+        setPriceAlert(alert?.is_active ? alert : null);
       } catch (error) {
         console.error("Error checking price alert:", error);
       }
@@ -250,6 +178,20 @@ const Product = () => {
   // Only require color if colors exist
   const requireColorSelection = product?.colors && product.colors.length > 0 && product.colors[0] !== "";
 
+  // Variant-aware stock and price: sizes without stock for the chosen color can't be picked
+  const hasVariants = variants.length > 0;
+  const inStockSizes = hasVariants ? getInStockSizes(variants, selectedColor) : (product?.sizes || []);
+  const selectedVariant = hasVariants ? findVariant(variants, selectedSize, selectedColor) : undefined;
+  const displayPrice = product ? getVariantPrice(selectedVariant, product.price_ksh) : 0;
+  const displayStock = selectedVariant ? selectedVariant.stock : product?.stock;
+
+  // Clear a size that went out of stock after switching color
+  useEffect(() => {
+    if (hasVariants && selectedSize && selectedColor && !getInStockSizes(variants, selectedColor).includes(selectedSize)) {
+      setSelectedSize("");
+    }
+  }, [hasVariants, variants, selectedSize, selectedColor]);
+
   const ensureColorSelected = () => {
     if (requireColorSelection && !selectedColor) {
       toast.error("Please select a color");
@@ -279,18 +221,25 @@ const Product = () => {
     }
     if (!ensureSizeSelected()) return false;
     if (!ensureColorSelected()) return false;
+    if (hasVariants && (requireSizeSelection || requireColorSelection) && (!selectedVariant || selectedVariant.stock <= 0)) {
+      toast.error("This size is out of stock in the selected color");
+      return false;
+    }
 
     addItem(
       {
         productId: product.id,
         vendorId: product.vendor_id,
         name: product.name,
-        priceKsh: product.price_ksh,
+        priceKsh: displayPrice,
+        basePriceKsh: product.price_ksh,
         imageUrl: product.images?.[0] || null,
         size: selectedSize, // Pass the selected size from product page
-        availableSizes: product.sizes || [], // Pass available sizes for validation
+        availableSizes: inStockSizes, // Only sizes in stock are valid at checkout
         color: selectedColor, // Pass selected color
         availableColors: product.colors || [], // Pass available colors
+        variantId: selectedVariant?.id ?? null,
+        variants: hasVariants ? variants : undefined,
       },
       1
     );
@@ -552,6 +501,7 @@ const Product = () => {
               {product.brand && <Badge className="mb-2">{product.brand}</Badge>}
               <div className="flex items-start justify-between gap-2">
                 <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-3 sm:mb-4">{product.name}</h1>
+                <WishlistButton productId={product.id} size={selectedSize || null} className="shrink-0 border border-border" />
                 {/* Share Button */}
                 <div className="relative">
                   <Button
@@ -622,9 +572,9 @@ const Product = () => {
                   )}
                 </div>
               </div>
-              <p className="text-2xl sm:text-3xl md:text-4xl font-bold text-primary mb-4 sm:mb-6">KES {product.price_ksh.toLocaleString()}</p>
-              {product.stock > 0 ? (
-                <Badge variant="default">In Stock ({product.stock} available)</Badge>
+              <p className="text-2xl sm:text-3xl md:text-4xl font-bold text-primary mb-4 sm:mb-6">KES {displayPrice.toLocaleString()}</p>
+              {displayStock > 0 ? (
+                <Badge variant="default">In Stock ({displayStock} available{selectedVariant ? " in this size" : ""})</Badge>
               ) : (
                 <Badge variant="secondary">Out of Stock</Badge>
               )}
@@ -661,18 +611,21 @@ const Product = () => {
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <label className="text-sm font-semibold">Select Size (EU)</label>
-                  <ShoeSizeChart selectedSize={selectedSize} availableSizes={product.sizes} />
+                  <ShoeSizeChart selectedSize={selectedSize} availableSizes={inStockSizes} />
                 </div>
                 <Select value={selectedSize} onValueChange={setSelectedSize}>
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="Choose your size" />
                   </SelectTrigger>
                   <SelectContent>
-                    {product.sizes.map((size: string) => (
-                      <SelectItem key={size} value={size}>
-                        EU {size}
-                      </SelectItem>
-                    ))}
+                    {product.sizes.map((size: string) => {
+                      const soldOut = hasVariants && !inStockSizes.includes(size);
+                      return (
+                        <SelectItem key={size} value={size} disabled={soldOut}>
+                          EU {size}{soldOut ? " — sold out" : ""}
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
                 {!selectedSize && (
@@ -740,6 +693,16 @@ const Product = () => {
                 Buy Now
               </Button>
 
+              {/* Sold out: wishlist doubles as a back-in-stock alert */}
+              {product.stock === 0 && (
+                <div className="space-y-1">
+                  <WishlistButton productId={product.id} size={selectedSize || null} variant="button" className="w-full min-h-[48px]" />
+                  <p className="text-xs text-center text-muted-foreground">
+                    We'll let you know when it's back in stock.
+                  </p>
+                </div>
+              )}
+
               {/* Compare Prices Button */}
               <Button
                 size="lg"
@@ -755,51 +718,54 @@ const Product = () => {
               <Button
                 size="lg"
                 variant="ghost"
-                className={`w-full min-h-[48px] ${priceAlertActive ? 'text-primary' : 'text-muted-foreground'}`}
+                className={`w-full min-h-[48px] ${priceAlert ? 'text-primary' : 'text-muted-foreground'}`}
                 onClick={async () => {
                   if (!user) {
                     toast.info("Please sign in to set price alerts");
                     navigate("/auth?redirect=/product/" + id);
                     return;
                   }
+                  if (!priceAlert) {
+                    setPriceAlertDialogOpen(true);
+                    return;
+                  }
                   setAlertLoading(true);
                   try {
-                    if (priceAlertActive) {
-                      // Remove alert
-                      await supabase
-                        .from("price_alerts")
-                        .delete()
-                        .eq("user_id", user.id)
-                        .eq("product_id", id);
-                      setPriceAlertActive(false);
-                      toast.success("Price alert removed");
-                    } else {
-                      // Add alert
-                      await supabase
-                        .from("price_alerts")
-                        .upsert({
-                          user_id: user.id,
-                          product_id: id,
-                          original_price: product.price_ksh,
-                          is_active: true,
-                        });
-                      setPriceAlertActive(true);
-                      toast.success("You'll be notified when the price drops!");
-                    }
+                    await deletePriceAlert(priceAlert.id);
+                    setPriceAlert(null);
+                    toast.success("Price alert removed");
                   } catch (error: any) {
-                    toast.error("Failed to set price alert");
+                    toast.error("Failed to remove price alert");
                   } finally {
                     setAlertLoading(false);
                   }
                 }}
                 disabled={alertLoading}
               >
-                {priceAlertActive ? (
+                {priceAlert ? (
                   <><BellOff className="h-4 w-4 mr-2" /> Remove Price Alert</>
                 ) : (
                   <><Bell className="h-4 w-4 mr-2" /> Notify me on price drop</>
                 )}
               </Button>
+              {priceAlert && (
+                <p className="text-xs text-center text-muted-foreground -mt-1">
+                  {describePriceAlert(priceAlert)} ·{" "}
+                  <button className="underline" onClick={() => setPriceAlertDialogOpen(true)}>Change</button>
+                </p>
+              )}
+              {user && (
+                <PriceAlertDialog
+                  open={priceAlertDialogOpen}
+                  onOpenChange={setPriceAlertDialogOpen}
+                  userId={user.id}
+                  productId={product.id}
+                  productName={product.name}
+                  currentPrice={product.price_ksh}
+                  alert={priceAlert}
+                  onSaved={setPriceAlert}
+                />
+              )}
             </div>
 
             {/* Trust Indicators */}
@@ -815,9 +781,15 @@ const Product = () => {
                 <Shield className="h-8 w-8 text-primary" />
                 <div>
                   <p className="font-semibold text-sm">Verified Seller</p>
-                  <p className="text-xs text-muted-foreground">
-                    {vendorProfile?.store_name || "Trusted seller"}
-                  </p>
+                  {vendorProfile?.store_slug ? (
+                    <Link to={storefrontPath(vendorProfile.store_slug)} className="text-xs text-muted-foreground hover:text-primary underline">
+                      {vendorProfile.store_name || "Visit store"}
+                    </Link>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {vendorProfile?.store_name || "Trusted seller"}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -825,54 +797,23 @@ const Product = () => {
         </div>
       </div>
 
-      {/* Similar Products Section */}
-      {similarProducts.length > 0 && (
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 border-t border-border mt-8">
-          <div className="flex items-center justify-between mb-5 sm:mb-6">
-            <h2 className="text-xl sm:text-2xl font-bold">Similar Products</h2>
-            <Link to={product?.brand ? `/shop?search=${encodeURIComponent(product.brand)}` : `/shop?category=${product?.category || ''}`} className="text-sm font-semibold text-primary hover:underline flex items-center gap-1">
-              View All <ChevronRight className="h-4 w-4" />
-            </Link>
-          </div>
-          <div className="relative group">
-            {similarLoading ? (
-              <div className="flex justify-center p-8">
-                <SneakerLoader message="Loading..." size="sm" fullScreen={false} />
-              </div>
-            ) : (
-              <Swiper
-                modules={[Navigation, FreeMode]}
-                spaceBetween={12}
-                slidesPerView={2}
-                navigation
-                freeMode={true}
-                breakpoints={{
-                  640: { slidesPerView: 2, spaceBetween: 16 },
-                  768: { slidesPerView: 3, spaceBetween: 20 },
-                  1024: { slidesPerView: 4, spaceBetween: 24 },
-                }}
-                className="pb-6 !px-1 select-none"
-              >
-                {similarProducts.map((simProd) => (
-                  <SwiperSlide key={simProd.id} className="h-auto py-1">
-                    <ProductCard
-                      id={simProd.id}
-                      name={simProd.name}
-                      price={simProd.price_ksh}
-                      image={simProd.images?.[0] || "/placeholder.svg"}
-                      brand={simProd.brand}
-                      averageRating={simProd.averageRating}
-                      reviewCount={simProd.reviewCount}
-                      createdAt={simProd.created_at}
-                      condition={simProd.condition}
-                      videoUrl={simProd.video_url}
-                    />
-                  </SwiperSlide>
-                ))}
-              </Swiper>
-            )}
-          </div>
-        </div>
+      {/* Recommendations */}
+      {recommendations && (
+        <>
+          <RecommendationCarousel
+            title="Frequently Bought Together"
+            products={recommendations.bought_together}
+          />
+          <RecommendationCarousel
+            title="Similar Style"
+            products={recommendations.similar}
+            viewAllUrl={product?.brand ? `/shop?search=${encodeURIComponent(product.brand)}` : `/shop?category=${product?.category || ''}`}
+          />
+          <RecommendationCarousel
+            title="Others Also Viewed"
+            products={recommendations.also_viewed}
+          />
+        </>
       )}
 
       {/* Product Reviews Section */}
@@ -882,7 +823,7 @@ const Product = () => {
 
       {/* Vendor Rating Section */}
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 pb-28 md:pb-12">
-        <VendorRating vendorId={product.vendor_id} productId={product.id} />
+        <VendorRating vendorId={product.vendor_id} productId={product.id} sellerBadge={product.seller_badge} />
       </div>
 
       {/* Floating Mobile Action Bar */}
@@ -929,6 +870,7 @@ const Product = () => {
             price_ksh: product.price_ksh,
             brand: product.brand,
             category: product.category,
+            condition: product.condition,
             images: product.images ?? [],
           }}
         />
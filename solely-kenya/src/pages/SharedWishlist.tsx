@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Gift, Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { SEO } from "@/components/SEO";
+import { type SharedWishlist as SharedWishlistData, fetchSharedWishlist } from "@/lib/wishlist";
+
+const SharedWishlist = () => {
+  const { token } = useParams();
+  const [wishlist, setWishlist] = useState<SharedWishlistData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchSharedWishlist(token)
+      .then(setWishlist)
+      .catch((error) => console.error("Failed to load shared wishlist", error))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  if (loading) {
+    return <SneakerLoader message="Loading wishlist..." />;
+  }
+
+  if (!wishlist) {
+    return (
+      <div className="min-h-screen py-16">
+        <SEO title="Wishlist not found" description="This wishlist is private or no longer exists." />
+        <div className="container mx-auto px-4 max-w-md text-center">
+          <Heart className="h-10 w-10 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Wishlist not available</h1>
+          <p className="text-muted-foreground mb-6">
+            This wishlist is private or the link has changed. Ask the owner for a new link.
+          </p>
+          <Button asChild>
+            <Link to="/shop">Browse the Shop</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const owner = wishlist.owner_name ? `${wishlist.owner_name}'s` : "A";
+  const description = `${owner} wishlist on Sole-ly Kenya: ${wishlist.items.length} ${wishlist.items.length === 1 ? "pair" : "pairs"} of shoes.`;
+
+  return (
+    <div className="min-h-screen py-8">
+      <SEO
+        title={wishlist.name}
+        description={description}
+        image={wishlist.items[0]?.image ?? undefined}
+      />
+      <div className="container mx-auto px-4">
+        <div className="mb-8 text-center max-w-2xl mx-auto">
+          <Gift className="h-8 w-8 mx-auto text-primary mb-2" />
+          <h1 className="text-2xl sm:text-3xl font-bold mb-2">{wishlist.name}</h1>
+          <p className="text-muted-foreground">
+            {wishlist.owner_name ? `Shared by ${wishlist.owner_name}` : "A shared wishlist"}
+          </p>
+          {wishlist.note && <p className="mt-3 italic">"{wishlist.note}"</p>}
+        </div>
+
+        {wishlist.items.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">Nothing on this wishlist yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 sm:gap-6">
+            {wishlist.items.map((item) => (
+              <Link key={item.product_id} to={`/product/${item.product_id}`} className="group">
+                <Card className={`h-full overflow-hidden border-2 hover:shadow-hover transition-shadow ${item.in_stock ? "" : "opacity-70"}`}>
+                  <CardContent className="p-0">
+                    <div className="aspect-square overflow-hidden bg-white relative">
+                      <img
+                        src={item.image || "/placeholder.svg"}
+                        alt={item.name}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                      />
+                      {!item.in_stock && (
+                        <Badge variant="secondary" className="absolute top-3 left-3 shadow-md">Sold out</Badge>
+                      )}
+                    </div>
+                    <div className="p-4 space-y-1">
+                      {item.brand && (
+                        <span className="text-xs text-muted-foreground uppercase tracking-wide">{item.brand}</span>
+                      )}
+                      <h2 className="font-semibold group-hover:text-primary transition-colors line-clamp-2">{item.name}</h2>
+                      {item.size && <p className="text-xs text-muted-foreground">Size {item.size}</p>}
+                      <p className="text-lg font-bold text-primary">KES {Number(item.price_ksh).toLocaleString()}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedWishlist;
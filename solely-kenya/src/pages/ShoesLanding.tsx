@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Link, Navigate, useLocation, useParams } from "react-router-dom";
+import { ChevronRight, SlidersHorizontal } from "lucide-react";
+import ProductCard from "@/components/ProductCard";
+import { Button } from "@/components/ui/button";
+import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { SEO } from "@/components/SEO";
+import NotFound from "@/pages/NotFound";
+import { getCategoryName } from "@/lib/categories";
+import { type LandingPage, type LandingRelatedLink, fetchLandingPage, shopUrlForLanding } from "@/lib/landingPages";
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+const relatedTitles: Record<LandingRelatedLink["kind"], string> = {
+  brand: "Shop by brand",
+  category: "Shop by style",
+  size: "Shop by size",
+  location: "Shop by location",
+};
+
+const relatedLabel = (link: LandingRelatedLink) => {
+  if (link.kind === "category") return getCategoryName(link.label);
+  if (link.kind === "size") return `EU ${link.label}`;
+  return link.label;
+};
+
+const ShoesLanding = () => {
+  const params = useParams();
+  const location = useLocation();
+  const segments = (params["*"] ?? "").split("/").filter(Boolean);
+  const pathKey = segments.join("/");
+  // Keyed by path so a page loaded for the previous URL is never shown (or redirected to)
+  const [loaded, setLoaded] = useState<{ key: string; page: LandingPage | null } | null>(null);
+
+  useEffect(() => {
+    if (!pathKey) return;
+    window.scrollTo(0, 0);
+    fetchLandingPage(pathKey.split("/"))
+      .then((result) => setLoaded({ key: pathKey, page: result }))
+      .catch((error) => {
+        console.error("Failed to load landing page", error);
+        setLoaded({ key: pathKey, page: null });
+      });
+  }, [pathKey]);
+
+  if (segments.length === 0) {
+    return <Navigate to="/shop" replace />;
+  }
+
+  if (loaded?.key !== pathKey) {
+    return <SneakerLoader message="Loading shoes..." />;
+  }
+
+  const page = loaded.page;
+  if (!page) {
+    return <NotFound />;
+  }
+
+  // /shoes/men/nike → /shoes/nike/men
+  if (decodeURIComponent(location.pathname).replace(/\/+$/, "") !== page.path) {
+    return <Navigate to={page.path} replace />;
+  }
+
+  // One crumb per filter, in canonical order; the last one is this page
+  const pathSegments = page.path.split("/").slice(2);
+  const filterNames = [
+    page.brand?.name,
+    page.category ? getCategoryName(page.category) : null,
+    page.size ? `Size ${page.size}` : null,
+    page.location?.name,
+  ].filter(Boolean) as string[];
+  const breadcrumbs = [
+    { name: "Home", url: "/" },
+    { name: "Shoes", url: "/shop" },
+    ...pathSegments.map((_, index) => ({
+      name: index === pathSegments.length - 1 ? page.heading : filterNames[index],
+      url: `/shoes/${pathSegments.slice(0, index + 1).join("/")}`,
+    })),
+  ];
+
+  const relatedGroups = (["brand", "category", "size", "location"] as const)
+    .map((kind) => ({ kind, links: page.related.filter((link) => link.kind === kind) }))
+    .filter((group) => group.links.length > 0);
+
+  return (
+    <div className="min-h-screen py-4 sm:py-8 overflow-x-hidden">
+      <SEO
+        title={`${page.heading} - Buy Online in Kenya`}
+        description={page.description}
+        canonical={`${SITE_URL}${page.path}`}
+        url={`${SITE_URL}${page.path}`}
+        image={page.products[0]?.images?.[0] ?? undefined}
+        breadcrumbs={breadcrumbs}
+        itemList={page.products.map((product) => ({ name: product.name, url: `/product/${product.id}` }))}
+        noindex={!page.indexable}
+      />
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+        <nav aria-label="Breadcrumb" className="flex flex-wrap items-center gap-1 text-xs sm:text-sm text-muted-foreground mb-4">
+          {breadcrumbs.map((crumb, index) => (
+            <span key={crumb.url} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight className="h-3 w-3" />}
+              {index === breadcrumbs.length - 1 ? (
+                <span className="text-foreground">{crumb.name}</span>
+              ) : (
+                <Link to={crumb.url} className="hover:text-primary">{crumb.name}</Link>
+              )}
+            </span>
+          ))}
+        </nav>
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6 sm:mb-8">
+          <div>
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-2">{page.heading}</h1>
+            <p className="text-sm sm:text-base text-muted-foreground max-w-2xl">{page.description}</p>
+          </div>
+          <Button variant="outline" asChild className="shrink-0">
+            <Link to={shopUrlForLanding(page)}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Filter & Sort
+            </Link>
+          </Button>
+        </div>
+
+        {page.products.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground mb-4">No listings right now. New pairs are added every day.</p>
+            <Button asChild>
+              <Link to="/shop">Browse all shoes</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 sm:gap-6">
+            {page.products.map((product) => (
+              <ProductCard
+                key={product.id}
+                id={product.id}
+                name={product.name}
+                price={product.price_ksh}
+                image={product.images?.[0] || "/placeholder.svg"}
+                brand={product.brand ?? undefined}
+                averageRating={product.average_rating !== null ? Number(product.average_rating) : null}
+                reviewCount={product.review_count}
+                createdAt={product.created_at}
+                condition={product.condition ?? "new"}
+                videoUrl={product.video_url}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* The shop has no location filter */}
+        {page.total > page.products.length && !page.location && (
+          <div className="text-center mt-8">
+            <Button asChild>
+              <Link to={shopUrlForLanding(page)}>See all {page.total} listings</Link>
+            </Button>
+          </div>
+        )}
+
+        {relatedGroups.length > 0 && (
+          <div className="mt-12 pt-8 border-t border-border grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+            {relatedGroups.map((group) => (
+              <div key={group.kind}>
+                <h2 className="font-semibold mb-3">{relatedTitles[group.kind]}</h2>
+                <ul className="space-y-1.5 text-sm">
+                  {group.links.map((link) => (
+                    <li key={link.path}>
+                      <Link to={link.path} className="text-muted-foreground hover:text-primary">
+                        {relatedLabel(link)} ({link.listings})
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShoesLanding;
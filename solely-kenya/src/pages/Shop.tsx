@@ -1,53 +1,93 @@
-import { useState, useEffect } from "react";
-import { useSearchParams } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import ProductCard from "@/components/ProductCard";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Filter, X, Search } from "lucide-react";
+import { Filter, X, Search, Bell } from "lucide-react";
 import { CATEGORIES, getCategoryName } from "@/lib/categories";
 import { ACCESSORY_TYPES, getAccessoryTypeName } from "@/lib/accessoryTypes";
 import { SneakerLoader } from "@/components/ui/SneakerLoader";
 import { SEO } from "@/components/SEO";
-import { Input } from "@/components/ui/input";
-import { saveSearch, rankBySearchHistory } from "@/lib/searchHistory";
+import { SearchAutocomplete } from "@/components/SearchAutocomplete";
+import { SavedSearchDialog } from "@/components/SavedSearchDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { saveSearch } from "@/lib/searchHistory";
+import { hasSavedSearchFilters, toSavedSearchFields } from "@/lib/savedSearches";
+import { landingPathForFilters } from "@/lib/landingPages";
+import {
+  type SearchFacets,
+  type SearchFilters,
+  type SearchResult,
+  type SearchSort,
+  correctSearchQuery,
+  emptyFacets,
+  facetCount,
+  formatPriceBucket,
+  searchProducts,
+} from "@/lib/search";
+
+// Top of the price slider; at this value the upper bound is open ("20,000+")
+const MAX_PRICE = 20000;
+
+const sortOptions: Record<string, SearchSort> = {
+  smart: "smart",
+  newest: "newest",
+  "price-low": "price_low",
+  "price-high": "price_high",
+};
 
 const Shop = () => {
   const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
-  const [products, setProducts] = useState<any[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<any[]>([]);
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [products, setProducts] = useState<SearchResult[]>([]);
+  const [totalProducts, setTotalProducts] = useState(0);
+  const [facets, setFacets] = useState<SearchFacets>(emptyFacets);
+  const [correction, setCorrection] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [priceRange, setPriceRange] = useState([0, 20000]);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [priceRange, setPriceRange] = useState([0, MAX_PRICE]);
+  // Slider position while dragging; the search only runs once it is released
+  const [priceDraft, setPriceDraft] = useState([0, MAX_PRICE]);
   const [selectedBrand, setSelectedBrand] = useState("all");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [selectedSize, setSelectedSize] = useState("all");
   const [selectedCondition, setSelectedCondition] = useState("all");
   const [selectedAccessoryType, setSelectedAccessoryType] = useState("all");
   const [sortBy, setSortBy] = useState("smart");
-  const [page, setPage] = useState(1);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const itemsPerPage = 20;
-
-  // Extract unique values from products
-  const uniqueBrands = Array.from(new Set(products.map((p) => p.brand).filter(Boolean)));
+  // Ignore responses from searches that have since been superseded
+  const requestId = useRef(0);
+  // Fixed for the visit so "For You" pages don't reshuffle as new views/searches are recorded
+  const [rankingAsOf] = useState(() => new Date().toISOString());
 
   // Use only predefined categories (not database categories)
   const allCategoryKeys = CATEGORIES.map(c => c.key);
 
-  const uniqueSizes = Array.from(new Set(products.flatMap((p) => p.sizes || []).filter(Boolean))).sort((a, b) => Number(a) - Number(b));
+  // Keep the selected brand/size listed even when the other filters leave it with no results
+  const brandOptions = selectedBrand !== "all" && !facets.brand.some((b) => b.value === selectedBrand)
+    ? [...facets.brand, { value: selectedBrand, label: selectedBrand, count: 0 }]
+    : facets.brand;
+  const sizeOptions = selectedSize !== "all" && !facets.size.some((s) => s.value === selectedSize)
+    ? [...facets.size, { value: selectedSize, count: 0 }]
+    : facets.size;
 
   useEffect(() => {
     // Scroll to top when page loads
     window.scrollTo(0, 0);
 
-    fetchProducts();
-
     // Set search from URL params if present (from hero search bar)
     const searchParam = searchParams.get('search');
     if (searchParam) {
       setSearchQuery(searchParam);
+      setDebouncedQuery(searchParam);
       saveSearch(searchParam);
     }
 
@@ -57,146 +97,114 @@ const Shop = () => {
       setSelectedCategory(categoryParam);
     }
 
+    // Set brand from URL params if present (from search suggestions)
+    const brandParam = searchParams.get('brand');
+    if (brandParam) {
+      setSelectedBrand(brandParam.toLowerCase());
+    }
+
     // Set size from URL params if present (for links from cart)
     const sizeParam = searchParams.get('size');
     if (sizeParam) {
       setSelectedSize(sizeParam);
     }
+
+    // Remaining filters from saved-search links
+    const conditionParam = searchParams.get('condition');
+    if (conditionParam) {
+      setSelectedCondition(conditionParam);
+    }
+    const typeParam = searchParams.get('type');
+    if (typeParam) {
+      setSelectedAccessoryType(typeParam);
+    }
+    const minParam = Number(searchParams.get('min'));
+    const maxParam = Number(searchParams.get('max'));
+    if (minParam > 0 || maxParam > 0) {
+      const range = [Math.min(minParam || 0, MAX_PRICE), maxParam > 0 ? Math.min(maxParam, MAX_PRICE) : MAX_PRICE];
+      setPriceRange(range);
+      setPriceDraft(range);
+    }
   }, [searchParams]);
 
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   useEffect(() => {
-    applyFilters();
-  }, [products, searchQuery, priceRange, selectedBrand, selectedCategory, selectedSize, selectedCondition, selectedAccessoryType, sortBy]);
+    // Save active search query to history
+    if (debouncedQuery.trim()) saveSearch(debouncedQuery.trim());
+    fetchProducts(0);
+  }, [debouncedQuery, priceRange, selectedBrand, selectedCategory, selectedSize, selectedCondition, selectedAccessoryType, sortBy]);
+
+  // The filters as applied, for searching and for saving the search
+  const currentFilters = (): SearchFilters => {
+    const isAccessories = selectedCategory === "accessories";
+    return {
+      query: debouncedQuery,
+      brand: selectedBrand,
+      category: selectedCategory,
+      // Size only applies to shoes, accessory type only to accessories
+      size: isAccessories ? undefined : selectedSize,
+      accessoryType: isAccessories ? selectedAccessoryType : undefined,
+      condition: selectedCondition,
+      minPrice: priceRange[0] > 0 ? priceRange[0] : undefined,
+      maxPrice: priceRange[1] < MAX_PRICE ? priceRange[1] : undefined,
+    };
+  };
+
+  const fetchProducts = async (offset: number) => {
+    const id = ++requestId.current;
+    if (offset === 0) setSearching(true);
+    else setLoadingMore(true);
 
-  const fetchProducts = async () => {
     try {
-      // Fetch products
-      const { data: productsData, error: productsError } = await supabase
-        .from("products")
-        .select("*")
-        .eq("status", "active");
+      const { total, results, facets: resultFacets } = await searchProducts(
+        currentFilters(),
+        { sort: sortOptions[sortBy] ?? "smart", limit: itemsPerPage, offset, asOf: rankingAsOf }
+      );
 
-      if (productsError) throw productsError;
+      if (id !== requestId.current) return;
 
-      // Fetch all reviews to calculate ratings per product
-      const { data: reviewsData, error: reviewsError } = await supabase
-        .from("reviews")
-        .select("product_id, rating");
+      setProducts((prev) => (offset === 0 ? results : [...prev, ...results]));
+      setTotalProducts(total);
+      setFacets(resultFacets);
 
-      if (reviewsError) {
-        console.error("Error fetching reviews:", reviewsError);
+      // Offer a spelling correction when the query finds nothing
+      if (offset === 0) {
+        const suggestion = total === 0 && debouncedQuery.trim() ? await correctSearchQuery(debouncedQuery) : null;
+        if (id === requestId.current) setCorrection(suggestion);
       }
-
-      // Group reviews by product_id and calculate stats
-      const reviewStats: Record<string, { sum: number; count: number }> = {};
-      (reviewsData || []).forEach(review => {
-        if (!reviewStats[review.product_id]) {
-          reviewStats[review.product_id] = { sum: 0, count: 0 };
-        }
-        reviewStats[review.product_id].sum += review.rating;
-        reviewStats[review.product_id].count += 1;
-      });
-
-      // Map products with their actual rating stats
-      const productsWithStats = (productsData || []).map(product => {
-        const stats = reviewStats[product.id];
-        return {
-          ...product,
-          averageRating: stats ? stats.sum / stats.count : null,
-          reviewCount: stats ? stats.count : 0,
-        };
-      });
-
-      setProducts(productsWithStats);
     } catch (error) {
       console.error("Error fetching products:", error);
     } finally {
-      setLoading(false);
-    }
-  };
-
-  const applyFilters = () => {
-    let filtered = [...products];
-
-    // Search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter(
-        (p) =>
-          p.name?.toLowerCase().includes(query) ||
-          p.brand?.toLowerCase().includes(query) ||
-          p.description?.toLowerCase().includes(query)
-      );
-    }
-
-    // Price filter
-    filtered = filtered.filter(
-      (p) => p.price_ksh >= priceRange[0] && p.price_ksh <= priceRange[1]
-    );
-
-    // Brand filter
-    if (selectedBrand !== "all") {
-      filtered = filtered.filter((p) => p.brand?.toLowerCase() === selectedBrand);
-    }
-
-    // Category filter
-    if (selectedCategory !== "all") {
-      filtered = filtered.filter((p) => p.category?.toLowerCase() === selectedCategory.toLowerCase());
-    }
-
-    // Size filter (only for non-accessories)
-    if (selectedSize !== "all" && selectedCategory !== "accessories") {
-      filtered = filtered.filter((p) => p.sizes?.includes(selectedSize));
-    }
-
-    // Accessory type filter (only for accessories)
-    if (selectedAccessoryType !== "all" && selectedCategory === "accessories") {
-      filtered = filtered.filter((p) => (p as any).accessory_type === selectedAccessoryType);
-    }
-
-    // Condition filter
-    if (selectedCondition !== "all") {
-      filtered = filtered.filter((p) => p.condition === selectedCondition);
-    }
-
-    // Save active search query to history
-    if (searchQuery.trim()) saveSearch(searchQuery.trim());
-
-    // Sort
-    switch (sortBy) {
-      case "price-low":
-        filtered.sort((a, b) => a.price_ksh - b.price_ksh);
-        break;
-      case "price-high":
-        filtered.sort((a, b) => b.price_ksh - a.price_ksh);
-        break;
-      case "newest":
-        filtered.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-        break;
-      case "smart":
-      default:
-        filtered = rankBySearchHistory(filtered);
-        break;
+      if (id === requestId.current) {
+        setLoading(false);
+        setSearching(false);
+        setLoadingMore(false);
+      }
     }
-
-    setFilteredProducts(filtered);
   };
 
   const resetFilters = () => {
     setSearchQuery("");
-    setPriceRange([0, 20000]);
+    setPriceRange([0, MAX_PRICE]);
+    setPriceDraft([0, MAX_PRICE]);
     setSelectedBrand("all");
     setSelectedCategory("all");
     setSelectedSize("all");
     setSelectedCondition("all");
     setSelectedAccessoryType("all");
     setSortBy("smart");
-    setPage(1);
 
     // Clear URL parameters
     const newParams = new URLSearchParams(searchParams);
     newParams.delete("search");
     newParams.delete("category");
+    newParams.delete("brand");
+    ["size", "condition", "type", "min", "max"].forEach((param) => newParams.delete(param));
     if (newParams.toString() !== searchParams.toString()) {
       window.history.replaceState({}, '', `${window.location.pathname}?${newParams}`);
     }
@@ -205,6 +213,50 @@ const Shop = () => {
   // Determine if we're showing accessories
   const isAccessoriesView = selectedCategory === "accessories";
 
+  const savedSearchFields = toSavedSearchFields(currentFilters());
+
+  // Filter combinations that have a landing page (/shoes/nike/men) point there; any other
+  // filtered view is a duplicate of /shop (accessories keep their own listing)
+  const shopCanonical = `https://solelyshoes.co.ke${landingPathForFilters(currentFilters())
+    ?? (isAccessoriesView ? "/shop?category=accessories" : "/shop")}`;
+
+  const openSaveSearch = () => {
+    if (!user) {
+      toast.info("Log in to save searches and get alerts for new listings");
+      navigate(`/auth?redirect=${encodeURIComponent(`${window.location.pathname}${window.location.search}`)}`);
+      return;
+    }
+    setSaveDialogOpen(true);
+  };
+
+  const applySearch = (query: string) => {
+    setSearchQuery(query);
+    setDebouncedQuery(query);
+  };
+
+  const applyPriceBucket = (min: number, max: number | null) => {
+    const range = [min, max ?? MAX_PRICE];
+    setPriceDraft(range);
+    setPriceRange(range);
+  };
+
+  const priceBuckets = facets.price.length > 0 && (
+    <div className="flex flex-wrap gap-2 mt-4">
+      {facets.price.map((bucket) => (
+        <Button
+          key={bucket.min}
+          size="sm"
+          variant={priceRange[0] === bucket.min && priceRange[1] === (bucket.max ?? MAX_PRICE) ? "default" : "outline"}
+          className="h-7 text-xs"
+          disabled={bucket.count === 0}
+          onClick={() => applyPriceBucket(bucket.min, bucket.max)}
+        >
+          {formatPriceBucket(bucket)} ({bucket.count})
+        </Button>
+      ))}
+    </div>
+  );
+
 
   if (loading) {
     return <SneakerLoader message="Loading products..." />;
@@ -215,10 +267,10 @@ const Shop = () => {
       <SEO
         title={isAccessoriesView ? "Shoe Care Accessories Kenya" : selectedCategory !== "all" ? `${getCategoryName(selectedCategory)} Shoes for Sale Kenya` : "Shop Shoes Online Kenya"}
         description={isAccessoriesView
-          ? `Shop ${filteredProducts.length} shoe care products & accessories in Kenya. Cleaners, protectors, laces & more from trusted vendors.`
-          : `Browse ${filteredProducts.length} ${selectedCategory !== "all" ? getCategoryName(selectedCategory).toLowerCase() : ""} shoes for sale in Nairobi & Kenya. Nike, Adidas, Jordan & more. Filter by brand, size, condition. Escrow-protected payments.`
+          ? `Shop ${totalProducts} shoe care products & accessories in Kenya. Cleaners, protectors, laces & more from trusted vendors.`
+          : `Browse ${totalProducts} ${selectedCategory !== "all" ? getCategoryName(selectedCategory).toLowerCase() : ""} shoes for sale in Nairobi & Kenya. Nike, Adidas, Jordan & more. Filter by brand, size, condition. Escrow-protected payments.`
         }
-        canonical={selectedCategory !== "all" ? `https://solelyshoes.co.ke/shop?category=${selectedCategory}` : "https://solelyshoes.co.ke/shop"}
+        canonical={shopCanonical}
         breadcrumbs={[
           { name: "Home", url: "/" },
           { name: "Shop", url: "/shop" },
@@ -232,7 +284,7 @@ const Shop = () => {
             {isAccessoriesView ? "Shop Accessories" : "Shop All Shoes"}
           </h1>
           <p className="text-sm sm:text-base text-muted-foreground">
-            Browse our collection of {filteredProducts.length} {isAccessoriesView ? "shoe care products and accessories" : "amazing shoes"} from trusted vendors across Kenya
+            Browse our collection of {totalProducts} {isAccessoriesView ? "shoe care products and accessories" : "amazing shoes"} from trusted vendors across Kenya
           </p>
         </div>
 
@@ -254,9 +306,9 @@ const Shop = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Brands</SelectItem>
-                    {uniqueBrands.map((brand) => (
-                      <SelectItem key={brand} value={brand.toLowerCase()}>
-                        {brand}
+                    {brandOptions.map((brand) => (
+                      <SelectItem key={brand.value} value={brand.value}>
+                        {brand.label ?? brand.value} ({brand.count})
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -274,7 +326,7 @@ const Shop = () => {
                     <SelectItem value="all">All Categories</SelectItem>
                     {allCategoryKeys.map((catKey) => (
                       <SelectItem key={catKey} value={catKey}>
-                        {getCategoryName(catKey)}
+                        {getCategoryName(catKey)} ({facetCount(facets.category, catKey)})
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -291,9 +343,9 @@ const Shop = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Sizes</SelectItem>
-                      {uniqueSizes.map((size) => (
-                        <SelectItem key={size} value={size}>
-                          {size}
+                      {sizeOptions.map((size) => (
+                        <SelectItem key={size.value} value={size.value} disabled={size.count === 0 && size.value !== selectedSize}>
+                          EU {size.value} ({size.count})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -333,25 +385,25 @@ const Shop = () => {
                     <SelectItem value="new">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 rounded-full bg-green-500"></span>
-                        Mint
+                        Mint ({facetCount(facets.condition, "new")})
                       </div>
                     </SelectItem>
                     <SelectItem value="like_new">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 rounded-full bg-blue-500"></span>
-                        Like New
+                        Like New ({facetCount(facets.condition, "like_new")})
                       </div>
                     </SelectItem>
                     <SelectItem value="good">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
-                        Good
+                        Good ({facetCount(facets.condition, "good")})
                       </div>
                     </SelectItem>
                     <SelectItem value="fair">
                       <div className="flex items-center gap-2">
                         <span className="w-2 h-2 rounded-full bg-orange-500"></span>
-                        Fair
+                        Fair ({facetCount(facets.condition, "fair")})
                       </div>
                     </SelectItem>
                   </SelectContent>
@@ -361,16 +413,18 @@ const Shop = () => {
               {/* Price Range */}
               <div className="mb-6">
                 <label className="text-sm font-semibold mb-3 block">
-                  Price Range: KES {priceRange[0].toLocaleString()} - KES {priceRange[1].toLocaleString()}
+                  Price Range: KES {priceDraft[0].toLocaleString()} - KES {priceDraft[1].toLocaleString()}{priceDraft[1] >= MAX_PRICE && "+"}
                 </label>
                 <Slider
-                  defaultValue={[0, 20000]}
-                  max={20000}
+                  defaultValue={[0, MAX_PRICE]}
+                  max={MAX_PRICE}
                   step={500}
-                  value={priceRange}
-                  onValueChange={setPriceRange}
+                  value={priceDraft}
+                  onValueChange={setPriceDraft}
+                  onValueCommit={setPriceRange}
                   className="mt-4"
                 />
+                {priceBuckets}
               </div>
 
               <Button className="w-full mt-2" variant="outline" onClick={resetFilters}>
@@ -406,9 +460,9 @@ const Shop = () => {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Brands</SelectItem>
-                        {uniqueBrands.map((brand) => (
-                          <SelectItem key={brand} value={brand.toLowerCase()}>
-                            {brand}
+                        {brandOptions.map((brand) => (
+                          <SelectItem key={brand.value} value={brand.value}>
+                            {brand.label ?? brand.value} ({brand.count})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -426,7 +480,7 @@ const Shop = () => {
                         <SelectItem value="all">All Categories</SelectItem>
                         {allCategoryKeys.map((catKey) => (
                           <SelectItem key={catKey} value={catKey}>
-                            {getCategoryName(catKey)}
+                            {getCategoryName(catKey)} ({facetCount(facets.category, catKey)})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -443,9 +497,9 @@ const Shop = () => {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="all">All Sizes</SelectItem>
-                          {uniqueSizes.map((size) => (
-                            <SelectItem key={size} value={size}>
-                              {size}
+                          {sizeOptions.map((size) => (
+                            <SelectItem key={size.value} value={size.value} disabled={size.count === 0 && size.value !== selectedSize}>
+                              EU {size.value} ({size.count})
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -485,25 +539,25 @@ const Shop = () => {
                         <SelectItem value="new">
                           <div className="flex items-center gap-2">
                             <span className="w-2 h-2 rounded-full bg-green-500"></span>
-                            Mint
+                            Mint ({facetCount(facets.condition, "new")})
                           </div>
                         </SelectItem>
                         <SelectItem value="like_new">
                           <div className="flex items-center gap-2">
                             <span className="w-2 h-2 rounded-full bg-blue-500"></span>
-                            Like New
+                            Like New ({facetCount(facets.condition, "like_new")})
                           </div>
                         </SelectItem>
                         <SelectItem value="good">
                           <div className="flex items-center gap-2">
                             <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
-                            Good
+                            Good ({facetCount(facets.condition, "good")})
                           </div>
                         </SelectItem>
                         <SelectItem value="fair">
                           <div className="flex items-center gap-2">
                             <span className="w-2 h-2 rounded-full bg-orange-500"></span>
-                            Fair
+                            Fair ({facetCount(facets.condition, "fair")})
                           </div>
                         </SelectItem>
                       </SelectContent>
@@ -513,16 +567,18 @@ const Shop = () => {
                   {/* Price Range */}
                   <div>
                     <label className="text-sm font-semibold mb-3 block">
-                      Price Range: KES {priceRange[0].toLocaleString()} - KES {priceRange[1].toLocaleString()}
+                      Price Range: KES {priceDraft[0].toLocaleString()} - KES {priceDraft[1].toLocaleString()}{priceDraft[1] >= MAX_PRICE && "+"}
                     </label>
                     <Slider
-                      defaultValue={[0, 20000]}
-                      max={20000}
+                      defaultValue={[0, MAX_PRICE]}
+                      max={MAX_PRICE}
                       step={500}
-                      value={priceRange}
-                      onValueChange={setPriceRange}
+                      value={priceDraft}
+                      onValueChange={setPriceDraft}
+                      onValueCommit={setPriceRange}
                       className="mt-4"
                     />
+                    {priceBuckets}
                   </div>
 
                   <Button className="w-full h-12" variant="outline" onClick={resetFilters}>
@@ -539,39 +595,57 @@ const Shop = () => {
             <div className="flex flex-col gap-4 mb-6">
               {/* Search Bar */}
               <div className="relative w-full">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground z-10 pointer-events-none" />
+                <SearchAutocomplete
                   placeholder="Search by name, brand, or description..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-9 h-11 w-full"
+                  onChange={setSearchQuery}
+                  onSubmitQuery={applySearch}
+                  inputClassName="pl-9 h-11 w-full"
                 />
               </div>
 
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-4">
-                <p className="text-sm sm:text-base text-foreground font-medium">Showing {filteredProducts.length} of {products.length} results</p>
-                <Select value={sortBy} onValueChange={setSortBy}>
-                  <SelectTrigger className="w-full sm:w-[200px] h-11">
-                    <SelectValue placeholder="Sort by" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="smart">✨ For You</SelectItem>
-                    <SelectItem value="newest">Newest First</SelectItem>
-                    <SelectItem value="price-low">Price: Low to High</SelectItem>
-                    <SelectItem value="price-high">Price: High to Low</SelectItem>
-                  </SelectContent>
-                </Select>
+                <p className="text-sm sm:text-base text-foreground font-medium">Showing {products.length} of {totalProducts} results</p>
+                <div className="flex w-full sm:w-auto gap-2">
+                  {hasSavedSearchFilters(savedSearchFields) && (
+                    <Button variant="outline" className="h-11 shrink-0" onClick={openSaveSearch}>
+                      <Bell className="h-4 w-4 mr-2" />
+                      Save Search
+                    </Button>
+                  )}
+                  <Select value={sortBy} onValueChange={setSortBy}>
+                    <SelectTrigger className="w-full sm:w-[200px] h-11">
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="smart">✨ For You</SelectItem>
+                      <SelectItem value="newest">Newest First</SelectItem>
+                      <SelectItem value="price-low">Price: Low to High</SelectItem>
+                      <SelectItem value="price-high">Price: High to Low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </div>
 
             {/* Products */}
-            {filteredProducts.length === 0 ? (
+            {products.length === 0 && !searching ? (
               <div className="text-center py-12">
                 <p className="text-muted-foreground">No products found matching your filters.</p>
+                {correction && (
+                  <p className="mt-2">
+                    Did you mean{" "}
+                    <button className="font-semibold text-primary underline" onClick={() => applySearch(correction)}>
+                      {correction}
+                    </button>
+                    ?
+                  </p>
+                )}
               </div>
             ) : (
-              <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-6">
-                {filteredProducts.slice(0, page * itemsPerPage).map((product) => (
+              <div className={`grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-6 transition-opacity ${searching ? "opacity-60" : ""}`}>
+                {products.map((product) => (
                   <ProductCard
                     key={product.id}
                     id={product.id}
@@ -579,21 +653,22 @@ const Shop = () => {
                     price={product.price_ksh}
                     image={product.images?.[0] || "/placeholder.svg"}
                     brand={product.brand}
-                    averageRating={product.averageRating}
-                    reviewCount={product.reviewCount}
+                    averageRating={product.average_rating}
+                    reviewCount={product.review_count}
                     createdAt={product.created_at}
                     condition={product.condition || "new"}
                     videoUrl={product.video_url}
+                    sellerBadge={product.seller_badge}
                   />
                 ))}
               </div>
             )}
 
             {/* Load More Button */}
-            {filteredProducts.length > page * itemsPerPage && (
+            {totalProducts > products.length && (
               <div className="flex justify-center mt-8">
-                <Button onClick={() => setPage(prev => prev + 1)} variant="outline" size="lg">
-                  Load More ({filteredProducts.length - (page * itemsPerPage)} remaining)
+                <Button onClick={() => fetchProducts(products.length)} variant="outline" size="lg" disabled={loadingMore || searching}>
+                  {loadingMore ? "Loading..." : `Load More (${totalProducts - products.length} remaining)`}
                 </Button>
               </div>
             )}
@@ -602,6 +677,12 @@ const Shop = () => {
           </main>
         </div>
       </div>
+
+      <SavedSearchDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        fields={savedSearchFields}
+      />
     </div>
   );
 };
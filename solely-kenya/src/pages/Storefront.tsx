@@ -0,0 +1,477 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, Navigate, useLocation, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Copy, Filter, MapPin, MessageCircle, RotateCcw, Search, Share2, Star, Store, Truck, X } from "lucide-react";
+import ProductCard from "@/components/ProductCard";
+import { SellerBadge } from "@/components/SellerBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { SEO } from "@/components/SEO";
+import NotFound from "@/pages/NotFound";
+import { toast } from "sonner";
+import { CATEGORIES, getCategoryName } from "@/lib/categories";
+import { ACCESSORY_TYPES } from "@/lib/accessoryTypes";
+import { type Storefront as StorefrontData, fetchStorefront, storefrontUrl, whatsappShareUrl } from "@/lib/storefronts";
+import {
+  type SearchFacets,
+  type SearchResult,
+  type SearchSort,
+  emptyFacets,
+  facetCount,
+  formatPriceBucket,
+  searchProducts,
+} from "@/lib/search";
+
+const SITE_URL = "https://solelyshoes.co.ke";
+const ITEMS_PER_PAGE = 20;
+
+const sortOptions: Record<string, SearchSort> = {
+  smart: "smart",
+  newest: "newest",
+  "price-low": "price_low",
+  "price-high": "price_high",
+};
+
+const conditionOptions = [
+  { value: "new", label: "Mint" },
+  { value: "like_new", label: "Like New" },
+  { value: "good", label: "Good" },
+  { value: "fair", label: "Fair" },
+];
+
+const Storefront = () => {
+  const { slug = "" } = useParams();
+  const location = useLocation();
+  // Keyed by slug so a store loaded for the previous URL is never shown (or redirected to)
+  const [loaded, setLoaded] = useState<{ key: string; storefront: StorefrontData | null } | null>(null);
+  const storefront = loaded?.key === slug ? loaded.storefront : null;
+  const vendorId = storefront?.vendor_id;
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [products, setProducts] = useState<SearchResult[]>([]);
+  const [totalProducts, setTotalProducts] = useState(0);
+  const [facets, setFacets] = useState<SearchFacets>(emptyFacets);
+  const [searching, setSearching] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selectedBrand, setSelectedBrand] = useState("all");
+  const [selectedCategory, setSelectedCategory] = useState("all");
+  const [selectedSize, setSelectedSize] = useState("all");
+  const [selectedCondition, setSelectedCondition] = useState("all");
+  const [selectedAccessoryType, setSelectedAccessoryType] = useState("all");
+  const [priceRange, setPriceRange] = useState<[number, number | null] | null>(null);
+  const [sortBy, setSortBy] = useState("smart");
+  // Ignore responses from searches that have since been superseded
+  const requestId = useRef(0);
+  const [rankingAsOf] = useState(() => new Date().toISOString());
+
+  const isAccessoriesView = selectedCategory === "accessories";
+  const hasFilters = !!debouncedQuery.trim() || priceRange !== null ||
+    [selectedBrand, selectedCategory, selectedSize, selectedCondition, selectedAccessoryType].some((value) => value !== "all");
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    fetchStorefront(slug)
+      .then((result) => setLoaded({ key: slug, storefront: result }))
+      .catch((error) => {
+        console.error("Failed to load storefront", error);
+        setLoaded({ key: slug, storefront: null });
+      });
+  }, [slug]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const fetchProducts = useCallback(async (offset: number) => {
+    if (!vendorId) return;
+    const id = ++requestId.current;
+    if (offset === 0) setSearching(true);
+    else setLoadingMore(true);
+
+    try {
+      const { total, results, facets: resultFacets } = await searchProducts(
+        {
+          vendorId,
+          query: debouncedQuery,
+          brand: selectedBrand,
+          category: selectedCategory,
+          // Size only applies to shoes, accessory type only to accessories
+          size: isAccessoriesView ? undefined : selectedSize,
+          accessoryType: isAccessoriesView ? selectedAccessoryType : undefined,
+          condition: selectedCondition,
+          minPrice: priceRange ? priceRange[0] : undefined,
+          maxPrice: priceRange?.[1] ?? undefined,
+        },
+        { sort: sortOptions[sortBy] ?? "smart", limit: ITEMS_PER_PAGE, offset, asOf: rankingAsOf }
+      );
+
+      if (id !== requestId.current) return;
+
+      setProducts((prev) => (offset === 0 ? results : [...prev, ...results]));
+      setTotalProducts(total);
+      setFacets(resultFacets);
+    } catch (error) {
+      console.error("Error fetching store products:", error);
+    } finally {
+      if (id === requestId.current) {
+        setSearching(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [vendorId, debouncedQuery, selectedBrand, selectedCategory, isAccessoriesView, selectedSize, selectedAccessoryType, selectedCondition, priceRange, sortBy, rankingAsOf]);
+
+  useEffect(() => {
+    if (vendorId) fetchProducts(0);
+  }, [vendorId, fetchProducts]);
+
+  const resetFilters = () => {
+    setSearchQuery("");
+    setDebouncedQuery("");
+    setSelectedBrand("all");
+    setSelectedCategory("all");
+    setSelectedSize("all");
+    setSelectedCondition("all");
+    setSelectedAccessoryType("all");
+    setPriceRange(null);
+  };
+
+  const copyLink = async () => {
+    if (!storefront) return;
+    try {
+      await navigator.clipboard.writeText(storefrontUrl(storefront.slug));
+      toast.success("Link copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const shareLink = async () => {
+    if (!storefront) return;
+    const url = storefrontUrl(storefront.slug);
+    if (navigator.share) {
+      navigator.share({ title: storefront.store_name, text: `Shop ${storefront.store_name} on Sole-ly Kenya`, url }).catch(() => { });
+    } else {
+      copyLink();
+    }
+  };
+
+  if (loaded?.key !== slug) {
+    return <SneakerLoader message="Loading store..." />;
+  }
+
+  if (!storefront) {
+    return <NotFound />;
+  }
+
+  // /store/Kicks-Hub → /store/kicks-hub
+  if (decodeURIComponent(location.pathname).replace(/\/+$/, "") !== storefront.path) {
+    return <Navigate to={storefront.path} replace />;
+  }
+
+  // Keep the selected brand/size listed even when the other filters leave it with no results
+  const brandOptions = selectedBrand !== "all" && !facets.brand.some((b) => b.value === selectedBrand)
+    ? [...facets.brand, { value: selectedBrand, label: selectedBrand, count: 0 }]
+    : facets.brand;
+  const sizeOptions = selectedSize !== "all" && !facets.size.some((s) => s.value === selectedSize)
+    ? [...facets.size, { value: selectedSize, count: 0 }]
+    : facets.size;
+
+  const canonicalUrl = `${SITE_URL}${storefront.path}`;
+  const heroImage = storefront.banner_url || storefront.logo_url || storefront.products[0]?.images?.[0];
+
+  return (
+    <div className="min-h-screen py-4 sm:py-8 overflow-x-hidden">
+      <SEO
+        title={`${storefront.store_name} - Shoes${storefront.location ? ` in ${storefront.location}` : ""}`}
+        description={storefront.meta_description}
+        canonical={canonicalUrl}
+        url={canonicalUrl}
+        image={heroImage ?? undefined}
+        breadcrumbs={[
+          { name: "Home", url: "/" },
+          { name: "Shop", url: "/shop" },
+          { name: storefront.store_name, url: storefront.path },
+        ]}
+        itemList={storefront.products.map((product) => ({ name: product.name, url: `/product/${product.id}` }))}
+        noindex={storefront.listings === 0}
+      />
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Banner and store details */}
+        <div
+          className="h-36 sm:h-56 rounded-xl bg-gradient-to-r from-primary/30 to-primary/10 bg-cover bg-center"
+          style={storefront.banner_url ? { backgroundImage: `url(${storefront.banner_url})` } : undefined}
+        />
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4 -mt-10 sm:-mt-12 px-2 sm:px-6 mb-6">
+          <div className="h-20 w-20 sm:h-28 sm:w-28 shrink-0 rounded-full border-4 border-background bg-muted overflow-hidden flex items-center justify-center shadow-md">
+            {storefront.logo_url ? (
+              <img src={storefront.logo_url} alt={storefront.store_name} className="h-full w-full object-cover" />
+            ) : (
+              <Store className="h-10 w-10 text-muted-foreground" />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold">{storefront.store_name}</h1>
+              <SellerBadge badge={storefront.seller_badge} className="shadow-none" />
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+              {storefront.location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {storefront.county_slug ? (
+                    <Link to={`/shoes/${storefront.county_slug}`} className="hover:text-primary">{storefront.location}</Link>
+                  ) : (
+                    storefront.location
+                  )}
+                </span>
+              )}
+              <span className="flex items-center gap-1">
+                <Star className={`h-4 w-4 ${storefront.rating_count > 0 ? "fill-yellow-400 text-yellow-400" : ""}`} />
+                {storefront.average_rating !== null
+                  ? `${storefront.average_rating.toFixed(1)} (${storefront.rating_count} ${storefront.rating_count === 1 ? "rating" : "ratings"})`
+                  : "No ratings yet"}
+              </span>
+              {storefront.member_since && (
+                <span>Selling since {format(new Date(storefront.member_since), "MMMM yyyy")}</span>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" onClick={copyLink} aria-label="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={whatsappShareUrl(storefront)} target="_blank" rel="noopener noreferrer">
+                <MessageCircle className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">WhatsApp</span>
+              </a>
+            </Button>
+            <Button onClick={shareLink}>
+              <Share2 className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Share</span>
+            </Button>
+          </div>
+        </div>
+
+        {/* Bio and policies */}
+        <div className="grid gap-4 lg:grid-cols-3 mb-8">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">About {storefront.store_name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground whitespace-pre-line">
+                {storefront.description || `${storefront.store_name} sells shoes on Sole-ly Kenya. Every order is paid into escrow and only released to the seller once you confirm delivery.`}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Store Policies</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div className="flex gap-3">
+                <RotateCcw className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                <div>
+                  <p className="font-medium">Returns</p>
+                  <p className="text-muted-foreground whitespace-pre-line">
+                    {storefront.return_policy || "Returns and exchanges can be requested from your order page after delivery."}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <Truck className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                <div>
+                  <p className="font-medium">Delivery</p>
+                  <p className="text-muted-foreground whitespace-pre-line">
+                    {storefront.shipping_policy || "Delivery fees are calculated at checkout from the seller's location to yours."}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Listings */}
+        <div className="flex flex-col gap-4 mb-6">
+          <h2 className="text-xl sm:text-2xl font-bold">Shoes from {storefront.store_name}</h2>
+
+          <div className="relative w-full">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              placeholder={`Search ${storefront.store_name}...`}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9 h-11 w-full"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+            <Select value={selectedBrand} onValueChange={setSelectedBrand}>
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Brand" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Brands</SelectItem>
+                {brandOptions.map((brand) => (
+                  <SelectItem key={brand.value} value={brand.value}>
+                    {brand.label ?? brand.value} ({brand.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {CATEGORIES.map((category) => (
+                  <SelectItem key={category.key} value={category.key}>
+                    {getCategoryName(category.key)} ({facetCount(facets.category, category.key)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isAccessoriesView ? (
+              <Select value={selectedAccessoryType} onValueChange={setSelectedAccessoryType}>
+                <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {ACCESSORY_TYPES.map((type) => (
+                    <SelectItem key={type.key} value={type.key}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Select value={selectedSize} onValueChange={setSelectedSize}>
+                <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Size" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Sizes</SelectItem>
+                  {sizeOptions.map((size) => (
+                    <SelectItem key={size.value} value={size.value} disabled={size.count === 0 && size.value !== selectedSize}>
+                      EU {size.value} ({size.count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={selectedCondition} onValueChange={setSelectedCondition}>
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Condition" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Conditions</SelectItem>
+                {conditionOptions.map((condition) => (
+                  <SelectItem key={condition.value} value={condition.value}>
+                    {condition.label} ({facetCount(facets.condition, condition.value)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={priceRange ? String(priceRange[0]) : "all"}
+              onValueChange={(value) => {
+                const bucket = facets.price.find((b) => String(b.min) === value);
+                setPriceRange(bucket ? [bucket.min, bucket.max] : null);
+              }}
+            >
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Price" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Price</SelectItem>
+                {facets.price.map((bucket) => (
+                  <SelectItem key={bucket.min} value={String(bucket.min)} disabled={bucket.count === 0 && priceRange?.[0] !== bucket.min}>
+                    {formatPriceBucket(bucket)} ({bucket.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={sortBy} onValueChange={setSortBy}>
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="smart">✨ For You</SelectItem>
+                <SelectItem value="newest">Newest First</SelectItem>
+                <SelectItem value="price-low">Price: Low to High</SelectItem>
+                <SelectItem value="price-high">Price: High to Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm sm:text-base text-foreground font-medium flex items-center gap-2">
+              <Filter className="h-4 w-4 text-primary" />
+              Showing {products.length} of {totalProducts} results
+            </p>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={resetFilters}>
+                <X className="h-4 w-4 mr-1" />
+                Reset Filters
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {products.length === 0 && !searching ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">
+              {hasFilters ? "No products found matching your filters." : `${storefront.store_name} has no listings right now. Check back soon.`}
+            </p>
+            {!hasFilters && (
+              <Button asChild>
+                <Link to="/shop">Browse all shoes</Link>
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className={`grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-6 transition-opacity ${searching ? "opacity-60" : ""}`}>
+            {products.map((product) => (
+              <ProductCard
+                key={product.id}
+                id={product.id}
+                name={product.name}
+                price={product.price_ksh}
+                image={product.images?.[0] || "/placeholder.svg"}
+                brand={product.brand}
+                averageRating={product.average_rating}
+                reviewCount={product.review_count}
+                createdAt={product.created_at}
+                condition={product.condition || "new"}
+                videoUrl={product.video_url}
+              />
+            ))}
+          </div>
+        )}
+
+        {totalProducts > products.length && (
+          <div className="flex justify-center mt-8">
+            <Button onClick={() => fetchProducts(products.length)} variant="outline" size="lg" disabled={loadingMore || searching}>
+              {loadingMore ? "Loading..." : `Load More (${totalProducts - products.length} remaining)`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Storefront;
@@ -4,8 +4,17 @@ import { TrendingUp, Users, DollarSign, Lock } from "lucide-react";
 import { Link } from "react-router-dom";
 import logo from "@/assets/solely-logo.svg";
 import { SEO } from "@/components/SEO";
+import { SellerBadge } from "@/components/SellerBadge";
+import { useEffect, useState } from "react";
+import { FALLBACK_COMMISSION_RATE, fetchDefaultCommissionRate } from "@/lib/commission";
 
 const Vendor = () => {
+  const [commissionRate, setCommissionRate] = useState(FALLBACK_COMMISSION_RATE);
+
+  useEffect(() => {
+    fetchDefaultCommissionRate().then(setCommissionRate);
+  }, []);
+
   return (
     <div className="min-h-screen py-12">
       <SEO 
@@ -23,7 +32,7 @@ const Vendor = () => {
           />
           <h1 className="text-5xl font-bold mb-6">Become a Vendor</h1>
           <p className="text-xl text-muted-foreground leading-relaxed mb-8">
-            Join Kenya's secure commission-based marketplace! Start selling with zero upfront fees. We only take 10% commission when you make a sale. Your customers pay through our escrow system, and you receive payouts after delivery confirmation.
+            Join Kenya's secure commission-based marketplace! Start selling with zero upfront fees. We only take {commissionRate}% commission when you make a sale. Your customers pay through our escrow system, and you receive payouts after delivery confirmation.
           </p>
           <div className="flex gap-4 justify-center">
             <Button size="lg" asChild>
@@ -81,7 +90,7 @@ const Vendor = () => {
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground">
-                  Only 10% commission per sale. No subscription fees, no monthly costs. You only pay when you make money. Payouts go directly to your M-Pesa or bank account.
+                  Only {commissionRate}% standard commission per sale (some categories and promotions carry different rates). No subscription fees, no monthly costs. You only pay when you make money. Payouts go directly to your M-Pesa or bank account.
                 </p>
               </CardContent>
             </Card>
@@ -125,7 +134,7 @@ const Vendor = () => {
               </div>
               <h3 className="font-semibold mb-2">Get Paid</h3>
               <p className="text-sm text-muted-foreground">
-                After buyer confirms delivery, receive payout (minus 10% commission) to your account
+                After buyer confirms delivery, receive payout (minus {commissionRate}% commission) to your account
               </p>
             </div>
           </div>
@@ -182,7 +191,7 @@ const Vendor = () => {
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground">
-                  No upfront fees! We operate on a commission model. You only pay 10% commission when you make a sale. No subscriptions, no monthly costs.
+                  No upfront fees! We operate on a commission model. You only pay {commissionRate}% commission when you make a sale (rates can vary by category or during promotions). No subscriptions, no monthly costs.
                 </p>
               </CardContent>
             </Card>
@@ -206,6 +215,23 @@ const Vendor = () => {
                 </p>
               </CardContent>
             </Card>
+            <Card className="border-2">
+              <CardHeader>
+                <CardTitle className="text-lg">How are sellers rated?</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-muted-foreground">
+                  Every night we score each seller on their last 90 days: how many orders they accept and how quickly, orders delivered on time, disputes, and buyer ratings. You can follow your score on your dashboard. The best sellers earn a badge on every listing:
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <SellerBadge badge="top_seller" className="shadow-none" />
+                  <SellerBadge badge="reliable" className="shadow-none" />
+                </div>
+                <p className="text-muted-foreground">
+                  Sellers who keep missing orders or deadlines get a warning first; if things don't improve, their listings can drop down in search or be paused for a while.
+                </p>
+              </CardContent>
+            </Card>
             <Card className="border-2">
               <CardHeader>
                 <CardTitle className="text-lg">Can I sell used shoes?</CardTitle>
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Copy, Heart, RefreshCw, Share2, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { SEO } from "@/components/SEO";
+import {
+  type Wishlist as WishlistRecord,
+  type WishlistItemWithProduct,
+  ensureWishlist,
+  fetchWishlistItems,
+  regenerateShareToken,
+  removeWishlistItem,
+  sharedWishlistUrl,
+  updateWishlist,
+} from "@/lib/wishlist";
+
+const Wishlist = () => {
+  const { user, loading } = useAuth();
+  const { refresh } = useWishlist();
+  const navigate = useNavigate();
+  const [wishlist, setWishlist] = useState<WishlistRecord | null>(null);
+  const [items, setItems] = useState<WishlistItemWithProduct[]>([]);
+  const [loadingItems, setLoadingItems] = useState(true);
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate(`/auth?redirect=${encodeURIComponent("/wishlist")}`);
+    }
+  }, [loading, user, navigate]);
+
+  useEffect(() => {
+    if (user) loadWishlist();
+  }, [user]);
+
+  const loadWishlist = async () => {
+    try {
+      const [list, rows] = await Promise.all([ensureWishlist(), fetchWishlistItems()]);
+      setWishlist(list);
+      setName(list.name);
+      setNote(list.note ?? "");
+      setItems(rows);
+    } catch (error) {
+      console.error("Failed to load wishlist", error);
+      toast.error("Failed to load your wishlist");
+    } finally {
+      setLoadingItems(false);
+    }
+  };
+
+  const removeItem = async (item: WishlistItemWithProduct) => {
+    try {
+      await removeWishlistItem(item.product_id);
+      setItems((current) => current.filter((i) => i.id !== item.id));
+      refresh();
+    } catch (error) {
+      console.error("Failed to remove wishlist item", error);
+      toast.error("Could not remove this item");
+    }
+  };
+
+  const saveSharing = async (updates: Partial<Pick<WishlistRecord, "name" | "note" | "is_public">>) => {
+    if (!wishlist) return;
+    setSaving(true);
+    try {
+      setWishlist(await updateWishlist(wishlist.id, updates));
+      if (updates.is_public !== undefined) {
+        toast.success(updates.is_public ? "Anyone with the link can now see your wishlist" : "Your wishlist is private again");
+      } else {
+        toast.success("Wishlist updated");
+      }
+    } catch (error) {
+      console.error("Failed to update wishlist", error);
+      toast.error("Could not update your wishlist");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!wishlist) return;
+    try {
+      await navigator.clipboard.writeText(sharedWishlistUrl(wishlist.share_token));
+      toast.success("Link copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const shareLink = async () => {
+    if (!wishlist) return;
+    const url = sharedWishlistUrl(wishlist.share_token);
+    if (navigator.share) {
+      navigator.share({ title: wishlist.name, text: "Here's my wishlist on Sole-ly Kenya", url }).catch(() => { });
+    } else {
+      copyLink();
+    }
+  };
+
+  const resetLink = async () => {
+    if (!wishlist) return;
+    setSaving(true);
+    try {
+      setWishlist(await regenerateShareToken(wishlist.id));
+      toast.success("New link created. The old link no longer works.");
+    } catch (error) {
+      console.error("Failed to reset wishlist link", error);
+      toast.error("Could not create a new link");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !user || loadingItems) {
+    return <SneakerLoader message="Loading your wishlist..." />;
+  }
+
+  const detailsChanged = !!wishlist && (name.trim() !== wishlist.name || (note.trim() || null) !== wishlist.note);
+
+  return (
+    <div className="min-h-screen py-8">
+      <SEO title="My Wishlist" description="Shoes you've saved on Sole-ly Kenya." />
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold mb-2">My Wishlist</h1>
+          <p className="text-muted-foreground">
+            Shoes you've saved for later. We'll let you know when a sold-out pair is back in stock.
+          </p>
+        </div>
+
+        {items.length === 0 ? (
+          <Card className="mb-6">
+            <CardContent className="py-12 text-center">
+              <Heart className="h-10 w-10 mx-auto text-muted-foreground mb-4" />
+              <p className="font-medium mb-1">Your wishlist is empty</p>
+              <p className="text-sm text-muted-foreground mb-6">
+                Tap the heart on any shoe to save it here.
+              </p>
+              <Button asChild>
+                <Link to="/shop">Browse the Shop</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4 mb-8">
+            {items.map((item) => {
+              const product = item.products;
+              const available = product?.status === "active";
+              const inStock = (product?.stock ?? 0) > 0;
+              return (
+                <Card key={item.id} className={available ? undefined : "opacity-70"}>
+                  <CardContent className="p-4 flex gap-4 items-center">
+                    <Link to={`/product/${item.product_id}`} className="shrink-0">
+                      <img
+                        src={product?.images?.[0] || "/placeholder.svg"}
+                        alt={product?.name ?? "Product"}
+                        className="h-16 w-16 sm:h-20 sm:w-20 rounded-lg object-cover"
+                      />
+                    </Link>
+                    <div className="flex-1 min-w-0">
+                      {product?.brand && (
+                        <span className="text-xs text-muted-foreground uppercase tracking-wide">{product.brand}</span>
+                      )}
+                      <Link to={`/product/${item.product_id}`} className="font-semibold hover:underline line-clamp-1">
+                        {product?.name ?? "Product no longer available"}
+                      </Link>
+                      <p className="text-sm font-semibold">KES {Number(product?.price_ksh ?? 0).toLocaleString()}</p>
+                      <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                        {item.size && <span>Size {item.size}</span>}
+                        {!available && product && <Badge variant="secondary">Unavailable</Badge>}
+                        {available && !inStock && (
+                          <Badge variant="secondary">Sold out · we'll alert you when it's back</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2 shrink-0">
+                      {available && inStock && (
+                        <Button size="sm" asChild>
+                          <Link to={`/product/${item.product_id}`}>View</Link>
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => removeItem(item)} aria-label="Remove from wishlist">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {wishlist && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Share2 className="h-5 w-5" />
+                Share your wishlist
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-center gap-3 text-sm">
+                <Switch
+                  checked={wishlist.is_public}
+                  disabled={saving}
+                  onCheckedChange={(checked) => saveSharing({ is_public: checked })}
+                />
+                Anyone with the link can view this list (handy for gifts)
+              </label>
+
+              <div className="grid gap-4">
+                <div>
+                  <Label htmlFor="wishlist-name">List name</Label>
+                  <Input id="wishlist-name" value={name} maxLength={80} onChange={(e) => setName(e.target.value)} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="wishlist-note">Note for visitors (optional)</Label>
+                  <Textarea
+                    id="wishlist-note"
+                    value={note}
+                    maxLength={280}
+                    rows={2}
+                    placeholder="e.g. I'm a size 42!"
+                    onChange={(e) => setNote(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                {detailsChanged && (
+                  <Button
+                    className="w-fit"
+                    disabled={saving || !name.trim()}
+                    onClick={() => saveSharing({ name: name.trim(), note: note.trim() || null })}
+                  >
+                    Save Details
+                  </Button>
+                )}
+              </div>
+
+              {wishlist.is_public && (
+                <div className="space-y-2 pt-4 border-t">
+                  <div className="flex gap-2">
+                    <Input readOnly value={sharedWishlistUrl(wishlist.share_token)} onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" onClick={copyLink} aria-label="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button onClick={shareLink}>
+                      <Share2 className="h-4 w-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Share</span>
+                    </Button>
+                  </div>
+                  <button
+                    className="text-xs text-muted-foreground underline flex items-center gap-1"
+                    onClick={resetLink}
+                    disabled={saving}
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    Create a new link (the current one stops working)
+                  </button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Wishlist;
@@ -8,7 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import {
   Package, Users, DollarSign, AlertCircle, Eye, TrendingUp, Clock,
   CheckCircle, Truck, ArrowUpRight, Mail, Send, Trash2, Pause, Play, Image,
-  MessageCircle, Lightbulb
+  MessageCircle, Lightbulb, Percent, Webhook, Scale, Tags, Timer, Gauge
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +18,12 @@ import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from "@/components/ui/table";
 import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { CommissionRulesManager } from "@/components/admin/CommissionRulesManager";
+import { WebhookEventsPanel } from "@/components/admin/WebhookEventsPanel";
+import { ReconciliationPanel } from "@/components/admin/ReconciliationPanel";
+import { CatalogManager } from "@/components/admin/CatalogManager";
+import { SlaSettingsManager } from "@/components/admin/SlaSettingsManager";
+import { VendorPerformanceManager } from "@/components/admin/VendorPerformanceManager";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -429,7 +435,7 @@ const AdminDashboard = () => {
 
             {/* Main Tabs */}
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-3 md:grid-cols-11 h-auto">
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="products" className="flex items-center gap-1">
                   <Package className="h-4 w-4" /> Products
@@ -443,6 +449,24 @@ const AdminDashboard = () => {
                 <TabsTrigger value="disputes" className={stats.openDisputes > 0 ? "text-red-600" : ""}>
                    Disputes
                 </TabsTrigger>
+                <TabsTrigger value="commission" className="flex items-center gap-1">
+                  <Percent className="h-4 w-4" /> Commission
+                </TabsTrigger>
+                <TabsTrigger value="webhooks" className="flex items-center gap-1">
+                  <Webhook className="h-4 w-4" /> Webhooks
+                </TabsTrigger>
+                <TabsTrigger value="reconciliation" className="flex items-center gap-1">
+                  <Scale className="h-4 w-4" /> Reconciliation
+                </TabsTrigger>
+                <TabsTrigger value="catalog" className="flex items-center gap-1">
+                  <Tags className="h-4 w-4" /> Catalog
+                </TabsTrigger>
+                <TabsTrigger value="sla" className="flex items-center gap-1">
+                  <Timer className="h-4 w-4" /> Deadlines
+                </TabsTrigger>
+                <TabsTrigger value="performance" className="flex items-center gap-1">
+                  <Gauge className="h-4 w-4" /> Vendors
+                </TabsTrigger>
               </TabsList>
 
               {/* Overview Tab */}
@@ -754,6 +778,36 @@ const AdminDashboard = () => {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Commission Rules Tab */}
+              <TabsContent value="commission">
+                <CommissionRulesManager />
+              </TabsContent>
+
+              {/* Payment Webhooks Tab */}
+              <TabsContent value="webhooks">
+                <WebhookEventsPanel />
+              </TabsContent>
+
+              {/* Payment Reconciliation Tab */}
+              <TabsContent value="reconciliation">
+                <ReconciliationPanel />
+              </TabsContent>
+
+              {/* Brand & Model Catalog Tab */}
+              <TabsContent value="catalog">
+                <CatalogManager />
+              </TabsContent>
+
+              {/* Order Deadlines (SLA) Tab */}
+              <TabsContent value="sla">
+                <SlaSettingsManager />
+              </TabsContent>
+
+              {/* Vendor Performance Tab */}
+              <TabsContent value="performance">
+                <VendorPerformanceManager />
+              </TabsContent>
             </Tabs>
 
             {/* Confirm Send Dialog */}
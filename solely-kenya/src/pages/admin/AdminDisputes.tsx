@@ -25,18 +25,41 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { AlertTriangle, Mail, CheckCircle, XCircle, Eye, RefreshCw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Mail, CheckCircle, XCircle, Eye, RefreshCw, Scissors, Scale, Undo2, UserCheck, Clock } from "lucide-react";
 import { SneakerLoader } from "@/components/ui/SneakerLoader";
+import { PartialRefundDialog } from "@/components/PartialRefundDialog";
+import { DisputeThread } from "@/components/DisputeThread";
+import {
+    type PartialRefundRequest,
+    type RefundableOrder,
+    remainingQuantity,
+    remainingRefundable,
+    requestPartialRefund,
+} from "@/lib/refunds";
+import { describeTimeLeft } from "@/lib/sla";
+import { manageOrderReturn } from "@/lib/returns";
+import {
+    type DisputeCase,
+    assignDispute,
+    disputeChecklist,
+    disputeReasonLabels,
+    disputeStatusColors,
+    fetchDisputeAdmins,
+    settlementLabels,
+    updateDisputeChecklist,
+} from "@/lib/disputes";
 
-interface Dispute {
-    id: string;
-    order_id: string;
-    customer_id: string;
-    vendor_id: string;
-    reason: string;
+interface Dispute extends DisputeCase {
     description: string;
-    status: string;
-    opened_at: string;
     resolved_at: string | null;
     resolution_notes: string | null;
     buyer_evidence_urls: string[] | null;
@@ -61,6 +84,15 @@ const AdminDisputes = () => {
     const [resolving, setResolving] = useState(false);
     const [resolutionNotes, setResolutionNotes] = useState("");
     const [activeTab, setActiveTab] = useState("open");
+    const [refundOrder, setRefundOrder] = useState<RefundableOrder | null>(null);
+    const [partialRefundOpen, setPartialRefundOpen] = useState(false);
+    const [admins, setAdmins] = useState<{ id: string; name: string }[]>([]);
+    const [splitOpen, setSplitOpen] = useState(false);
+    const [splitAmount, setSplitAmount] = useState("");
+    const [returnOpen, setReturnOpen] = useState(false);
+    const [returnItemId, setReturnItemId] = useState("");
+    const [returnQuantity, setReturnQuantity] = useState(1);
+    const [returnInstructions, setReturnInstructions] = useState("");
 
     useEffect(() => {
         const checkAdmin = async () => {
@@ -88,6 +120,7 @@ const AdminDisputes = () => {
 
             setIsAdmin(true);
             loadDisputes();
+            fetchDisputeAdmins().then(setAdmins);
         };
 
         if (!loading) {
@@ -109,7 +142,9 @@ const AdminDisputes = () => {
                 .order("opened_at", { ascending: false });
 
             if (error) throw error;
-            setDisputes((data as any[]) || []);
+            const rows = (data as any[]) || [];
+            setDisputes(rows);
+            setSelectedDispute((current) => current ? rows.find((d) => d.id === current.id) ?? current : current);
         } catch (error) {
             console.error("Error loading disputes:", error);
             toast({
@@ -136,6 +171,9 @@ const AdminDisputes = () => {
                 .from("disputes")
                 .update({
                     status: newStatus,
+                    settlement_type: action === "close" ? "closed" : action,
+                    awaiting_party: null,
+                    response_due_at: null,
                     resolved_at: new Date().toISOString(),
                     resolved_by: user?.id,
                     resolution_notes: resolutionNotes || null,
@@ -172,15 +210,23 @@ const AdminDisputes = () => {
                         : "Refund has been initiated via IntaSend. Customer will receive funds shortly.",
                 });
             } else if (action === "release") {
-                await supabase
-                    .from("escrow_transactions")
-                    .update({ status: "released", released_at: new Date().toISOString() })
-                    .eq("order_id", selectedDispute.order_id);
+                // release-escrow completes the order and pays the vendor (payout, commission, ledger)
+                const { data: releaseResult, error: releaseError } = await supabase.functions.invoke("release-escrow", {
+                    body: {
+                        orderId: selectedDispute.order_id,
+                        disputeId: selectedDispute.id,
+                        notes: resolutionNotes || null,
+                    },
+                });
+
+                if (releaseError) {
+                    console.error("Release error:", releaseError);
+                    throw new Error(releaseError.message || "Failed to release payment");
+                }
 
-                await supabase
-                    .from("orders")
-                    .update({ status: "completed" })
-                    .eq("id", selectedDispute.order_id);
+                if (!releaseResult?.success) {
+                    throw new Error(releaseResult?.error || "Payment release failed");
+                }
 
                 toast({
                     title: "Success",
@@ -213,25 +259,202 @@ const AdminDisputes = () => {
         }
     };
 
-    const formatReason = (reason: string) => {
-        const labels: Record<string, string> = {
-            no_delivery: "Did not receive",
-            wrong_item: "Wrong item",
-            damaged: "Damaged",
-            other: "Other",
-        };
-        return labels[reason] || reason;
+    const loadRefundOrder = async () => {
+        if (!selectedDispute) return null;
+
+        const { data, error } = await supabase
+            .from("orders")
+            .select("id, total_ksh, shipping_fee_ksh, refunded_amount_ksh, delivery_fee_refunded, order_items(id, product_name, quantity, unit_price_ksh, refunded_quantity, size, color)")
+            .eq("id", selectedDispute.order_id)
+            .single();
+
+        if (error || !data) {
+            toast({
+                title: "Error",
+                description: "Failed to load order items",
+                variant: "destructive",
+            });
+            return null;
+        }
+        setRefundOrder(data as RefundableOrder);
+        return data as RefundableOrder;
     };
 
-    const getStatusColor = (status: string) => {
-        const colors: Record<string, string> = {
-            open: "bg-red-500",
-            under_review: "bg-yellow-500",
-            resolved_refund: "bg-blue-500",
-            resolved_release: "bg-green-500",
-            closed: "bg-gray-500",
-        };
-        return colors[status] || "bg-gray-400";
+    const openPartialRefund = async () => {
+        if (await loadRefundOrder()) setPartialRefundOpen(true);
+    };
+
+    const openSplit = async () => {
+        if (await loadRefundOrder()) {
+            setSplitAmount("");
+            setSplitOpen(true);
+        }
+    };
+
+    const openReturn = async () => {
+        const order = await loadRefundOrder();
+        if (!order) return;
+        const first = order.order_items.find((item) => remainingQuantity(item) > 0);
+        setReturnItemId(first?.id ?? "");
+        setReturnQuantity(first ? remainingQuantity(first) : 1);
+        setReturnInstructions("");
+        setReturnOpen(true);
+    };
+
+    // Refund part of the order, release the rest to the vendor and close the dispute.
+    // A split payout is the same thing for a plain amount rather than items.
+    const handlePartialRefund = async (request: PartialRefundRequest, settlement: "partial_refund" | "split" = "partial_refund") => {
+        if (!selectedDispute) return;
+
+        setResolving(true);
+        try {
+            const result = await requestPartialRefund(selectedDispute.order_id, request, {
+                reason: selectedDispute.reason,
+                disputeId: selectedDispute.id,
+                releaseRemainder: true,
+            });
+
+            const { error: disputeError } = await supabase
+                .from("disputes")
+                .update({
+                    status: "resolved_partial_refund",
+                    settlement_type: settlement,
+                    settlement_amount_ksh: result.amount,
+                    awaiting_party: null,
+                    response_due_at: null,
+                    resolved_at: new Date().toISOString(),
+                    resolved_by: user?.id,
+                    resolution_notes: resolutionNotes || null,
+                })
+                .eq("id", selectedDispute.id);
+
+            if (disputeError) throw disputeError;
+
+            await supabase.functions.invoke("notify-dispute-update", {
+                body: { disputeId: selectedDispute.id },
+            });
+
+            toast({
+                title: "Partial Refund Initiated",
+                description: `KES ${result.amount.toLocaleString()} is being refunded to the customer${result.released ? "; the rest was released to the vendor" : ""}.`,
+            });
+
+            setDetailOpen(false);
+            setSelectedDispute(null);
+            setResolutionNotes("");
+            loadDisputes();
+        } catch (error: any) {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to process partial refund",
+                variant: "destructive",
+            });
+            throw error;
+        } finally {
+            setResolving(false);
+        }
+    };
+
+    const handleSplit = async () => {
+        const amount = Number(splitAmount);
+        if (!refundOrder || !(amount > 0) || amount >= remainingRefundable(refundOrder)) {
+            toast({
+                title: "Invalid amount",
+                description: "Enter an amount between 0 and what is left on the order.",
+                variant: "destructive",
+            });
+            return;
+        }
+
+        try {
+            await handlePartialRefund({ items: [], refundDeliveryFee: false, amount }, "split");
+            setSplitOpen(false);
+        } catch {
+            // Already reported by handlePartialRefund
+        }
+    };
+
+    // The buyer sends the item back; manage-order-return refunds it and settles the
+    // dispute once the vendor confirms they received it
+    const handleReturnBeforeRefund = async () => {
+        if (!selectedDispute || !returnItemId) return;
+
+        setResolving(true);
+        try {
+            await manageOrderReturn({
+                action: "dispute_return",
+                disputeId: selectedDispute.id,
+                orderItemId: returnItemId,
+                quantity: returnQuantity,
+                instructions: returnInstructions.trim() || undefined,
+                notes: resolutionNotes.trim() || undefined,
+            });
+
+            toast({
+                title: "Return Started",
+                description: "The buyer has been asked to send the item back. The refund is issued when the vendor receives it.",
+            });
+
+            setReturnOpen(false);
+            setDetailOpen(false);
+            setSelectedDispute(null);
+            setResolutionNotes("");
+            loadDisputes();
+        } catch (error: any) {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to start the return",
+                variant: "destructive",
+            });
+        } finally {
+            setResolving(false);
+        }
+    };
+
+    const handleAssign = async (adminId: string | null) => {
+        if (!selectedDispute) return;
+        try {
+            await assignDispute(selectedDispute.id, adminId);
+            loadDisputes();
+        } catch (error: any) {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to assign dispute",
+                variant: "destructive",
+            });
+        }
+    };
+
+    const handleChecklist = async (key: string, checked: boolean) => {
+        if (!selectedDispute) return;
+        try {
+            const checklist = await updateDisputeChecklist(selectedDispute, key, checked, user?.id ?? null);
+            setSelectedDispute({ ...selectedDispute, checklist });
+            setDisputes((current) => current.map((d) => (d.id === selectedDispute.id ? { ...d, checklist } : d)));
+        } catch (error: any) {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to update checklist",
+                variant: "destructive",
+            });
+        }
+    };
+
+    const formatReason = (reason: string) => disputeReasonLabels[reason] || reason;
+
+    const getStatusColor = (status: string) => disputeStatusColors[status] || "bg-gray-400";
+
+    const adminName = (adminId: string | null) =>
+        adminId ? admins.find((a) => a.id === adminId)?.name ?? "Admin" : null;
+
+    // Reply deadline or escalation, for the table and the detail header
+    const describeCaseClock = (dispute: Dispute) => {
+        if (dispute.escalated_at && ["open", "under_review"].includes(dispute.status)) {
+            return { text: "Escalated", urgent: true };
+        }
+        if (!dispute.awaiting_party || !dispute.response_due_at) return null;
+        const due = describeTimeLeft(new Date(dispute.response_due_at));
+        return { text: `Waiting on ${dispute.awaiting_party} · ${due.text}`, urgent: due.urgent };
     };
 
     const formatStatus = (status: string) => {
@@ -239,7 +462,7 @@ const AdminDisputes = () => {
     };
 
     const filteredDisputes = disputes.filter(d => {
-        if (activeTab === "open") return d.status === "open" || d.status === "under_review";
+        if (activeTab === "open") return d.status === "open" || d.status === "under_review" || d.status === "awaiting_return";
         if (activeTab === "resolved") return d.status.startsWith("resolved");
         return d.status === "closed";
     });
@@ -309,7 +532,7 @@ const AdminDisputes = () => {
                 <Tabs value={activeTab} onValueChange={setActiveTab}>
                     <TabsList>
                         <TabsTrigger value="open">
-                            Open ({disputes.filter(d => d.status === "open" || d.status === "under_review").length})
+                            Open ({disputes.filter(d => d.status === "open" || d.status === "under_review" || d.status === "awaiting_return").length})
                         </TabsTrigger>
                         <TabsTrigger value="resolved">Resolved</TabsTrigger>
                         <TabsTrigger value="closed">Closed</TabsTrigger>
@@ -333,6 +556,7 @@ const AdminDisputes = () => {
                                                 <TableHead>Vendor</TableHead>
                                                 <TableHead>Reason</TableHead>
                                                 <TableHead>Status</TableHead>
+                                                <TableHead>Assigned</TableHead>
                                                 <TableHead>Opened</TableHead>
                                                 <TableHead>Actions</TableHead>
                                             </TableRow>
@@ -363,6 +587,16 @@ const AdminDisputes = () => {
                                                         <Badge className={`${getStatusColor(dispute.status)} text-white border-0`}>
                                                             {formatStatus(dispute.status)}
                                                         </Badge>
+                                                        {describeCaseClock(dispute) && (
+                                                            <div className={`text-xs mt-1 ${describeCaseClock(dispute)?.urgent ? "text-red-600" : "text-muted-foreground"}`}>
+                                                                {describeCaseClock(dispute)?.text}
+                                                            </div>
+                                                        )}
+                                                    </TableCell>
+                                                    <TableCell className="text-sm">
+                                                        {adminName(dispute.assigned_to) ?? (
+                                                            <span className="text-muted-foreground">Unassigned</span>
+                                                        )}
                                                     </TableCell>
                                                     <TableCell className="text-muted-foreground text-sm">
                                                         {new Date(dispute.opened_at).toLocaleDateString()}
@@ -411,6 +645,73 @@ const AdminDisputes = () => {
                                         {formatStatus(selectedDispute.status)}
                                     </Badge>
                                     <Badge variant="outline">{formatReason(selectedDispute.reason)}</Badge>
+                                    {selectedDispute.settlement_type && (
+                                        <Badge variant="secondary">{settlementLabels[selectedDispute.settlement_type]}</Badge>
+                                    )}
+                                    {describeCaseClock(selectedDispute) && (
+                                        <span className={`text-xs flex items-center gap-1 ${describeCaseClock(selectedDispute)?.urgent ? "text-red-600" : "text-muted-foreground"}`}>
+                                            <Clock className="h-3 w-3" />
+                                            {describeCaseClock(selectedDispute)?.text}
+                                        </span>
+                                    )}
+                                </div>
+
+                                {/* Case: owner and checklist */}
+                                <div className="bg-muted/30 p-4 rounded-lg border border-border space-y-4">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <Label className="text-sm font-medium mr-auto">Assigned to</Label>
+                                        <Select
+                                            value={selectedDispute.assigned_to ?? "unassigned"}
+                                            onValueChange={(v) => handleAssign(v === "unassigned" ? null : v)}
+                                        >
+                                            <SelectTrigger className="w-[200px]">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="unassigned">Unassigned</SelectItem>
+                                                {admins.map((admin) => (
+                                                    <SelectItem key={admin.id} value={admin.id}>{admin.name}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        {user && selectedDispute.assigned_to !== user.id && (
+                                            <Button size="sm" variant="outline" onClick={() => handleAssign(user.id)}>
+                                                <UserCheck className="h-4 w-4 mr-1" />
+                                                Assign to me
+                                            </Button>
+                                        )}
+                                    </div>
+
+                                    {disputeChecklist(selectedDispute.reason).length > 0 && (
+                                        <div>
+                                            <Label className="text-sm font-medium">
+                                                Checklist ({disputeChecklist(selectedDispute.reason).filter((item) => selectedDispute.checklist?.[item.key]).length}/{disputeChecklist(selectedDispute.reason).length})
+                                            </Label>
+                                            <div className="mt-2 space-y-2">
+                                                {disputeChecklist(selectedDispute.reason).map((item) => {
+                                                    const done = selectedDispute.checklist?.[item.key];
+                                                    return (
+                                                        <div key={item.key} className="flex items-start gap-2">
+                                                            <Checkbox
+                                                                id={`check-${item.key}`}
+                                                                checked={!!done}
+                                                                onCheckedChange={(checked) => handleChecklist(item.key, checked === true)}
+                                                                disabled={!["open", "under_review"].includes(selectedDispute.status)}
+                                                            />
+                                                            <Label htmlFor={`check-${item.key}`} className="text-sm font-normal leading-tight">
+                                                                {item.label}
+                                                                {done && (
+                                                                    <span className="block text-xs text-muted-foreground">
+                                                                        {adminName(done.by) ?? "Admin"} · {new Date(done.at).toLocaleDateString()}
+                                                                    </span>
+                                                                )}
+                                                            </Label>
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Customer & Vendor Info */}
@@ -456,138 +757,36 @@ const AdminDisputes = () => {
                                     </div>
                                 )}
 
-                                {/* Description */}
-                                <div>
-                                    <Label className="text-sm font-medium">Customer Description</Label>
-                                    <p className="mt-1 p-3 bg-muted rounded-lg text-sm">
-                                        {selectedDispute.description || "No description provided"}
+                                {/* Conversation */}
+                                <div className="border-t pt-4">
+                                    <Label className="text-sm font-medium">Conversation</Label>
+                                    <p className="text-xs text-muted-foreground mt-1 mb-3">
+                                        The buyer and vendor see everything here except internal notes.
                                     </p>
+                                    <DisputeThread dispute={selectedDispute} viewer="admin" onPosted={loadDisputes} />
                                 </div>
 
-                                {/* Buyer Evidence Section */}
-                                {selectedDispute.buyer_evidence_urls && selectedDispute.buyer_evidence_urls.length > 0 && (
+                                {selectedDispute.status === "awaiting_return" && (
                                     <div className="border-t pt-4">
-                                        <Label className="text-sm font-medium">Buyer Evidence</Label>
-                                        <p className="text-xs text-muted-foreground mt-1 mb-2">
-                                            Buyer submitted {selectedDispute.buyer_evidence_urls.length} evidence file(s)
-                                        </p>
-                                        <div className="grid grid-cols-2 gap-2">
-                                            {selectedDispute.buyer_evidence_urls.map((url, idx) => (
-                                                <a
-                                                    key={idx}
-                                                    href={url}
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
-                                                    className="block"
-                                                >
-                                                    {/\.(jpg|jpeg|png|gif|webp)/i.test(url) ? (
-                                                        <img
-                                                            src={url}
-                                                            alt={`Buyer Evidence ${idx + 1}`}
-                                                            className="w-full h-32 object-cover rounded-lg border hover:border-primary transition-colors"
-                                                        />
-                                                    ) : (
-                                                        <div className="p-4 bg-muted rounded-lg text-center hover:bg-muted/80 transition-colors">
-                                                            <Eye className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                                                            <span className="text-sm">View Evidence {idx + 1}</span>
-                                                        </div>
-                                                    )}
-                                                </a>
-                                            ))}
-                                        </div>
-                                    </div>
-                                )}
-
-                                {/* Vendor Response Section */}
-                                <div className="border-t pt-4">
-                                    <Label className="text-sm font-medium">Vendor Response</Label>
-                                    {selectedDispute.vendor_response ? (
-                                        <div className="mt-2 space-y-3">
-                                            <div className="p-3 bg-green-50 dark:bg-green-950/20 rounded-lg border border-green-200 dark:border-green-800">
-                                                <div className="flex items-center gap-2 mb-2">
-                                                    <CheckCircle className="h-4 w-4 text-green-600" />
-                                                    <span className="text-sm font-medium text-green-700 dark:text-green-400">
-                                                        Vendor Responded {selectedDispute.vendor_response_at &&
-                                                            `on ${new Date(selectedDispute.vendor_response_at).toLocaleDateString()}`}
-                                                    </span>
-                                                </div>
-                                                <p className="text-sm">{selectedDispute.vendor_response}</p>
-                                            </div>
-                                            {selectedDispute.vendor_evidence_urls && selectedDispute.vendor_evidence_urls.length > 0 && (
-                                                <>
-                                                    <p className="text-xs text-muted-foreground">
-                                                        Vendor submitted {selectedDispute.vendor_evidence_urls.length} evidence file(s)
-                                                    </p>
-                                                    <div className="grid grid-cols-2 gap-2">
-                                                        {selectedDispute.vendor_evidence_urls.map((url, idx) => (
-                                                            <a
-                                                                key={idx}
-                                                                href={url}
-                                                                target="_blank"
-                                                                rel="noopener noreferrer"
-                                                                className="block"
-                                                            >
-                                                                {/\.(jpg|jpeg|png|gif|webp)/i.test(url) ? (
-                                                                    <img
-                                                                        src={url}
-                                                                        alt={`Vendor Evidence ${idx + 1}`}
-                                                                        className="w-full h-32 object-cover rounded-lg border hover:border-primary transition-colors"
-                                                                    />
-                                                                ) : (
-                                                                    <div className="p-4 bg-muted rounded-lg text-center hover:bg-muted/80 transition-colors">
-                                                                        <Eye className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                                                                        <span className="text-sm">View Evidence {idx + 1}</span>
-                                                                    </div>
-                                                                )}
-                                                            </a>
-                                                        ))}
-                                                    </div>
-                                                </>
-                                            )}
-                                        </div>
-                                    ) : (
-                                        <div className="mt-2 p-4 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
-                                            <p className="text-sm text-yellow-700 dark:text-yellow-400">
-                                                ⚠️ Vendor has not yet submitted a response.
+                                        <div className="p-4 bg-orange-50 dark:bg-orange-950/20 rounded-lg border border-orange-200 dark:border-orange-800 text-sm">
+                                            <p className="font-medium flex items-center gap-2">
+                                                <Undo2 className="h-4 w-4" />
+                                                Waiting for the return
                                             </p>
-                                            <p className="text-xs text-muted-foreground mt-1">
-                                                Consider contacting the vendor via email before making a decision.
+                                            <p className="text-muted-foreground mt-1">
+                                                The buyer is sending the item back. The refund is issued and this dispute is resolved automatically when the vendor confirms they received it.
                                             </p>
                                         </div>
-                                    )}
-                                </div>
+                                    </div>
+                                )}
 
                                 {/* Resolution Actions */}
                                 {(selectedDispute.status === "open" || selectedDispute.status === "under_review") && (
                                     <div className="border-t pt-6 space-y-4">
-                                        <div className="bg-muted/30 p-4 rounded-lg border border-border">
-                                            <h3 className="font-semibold mb-3 flex items-center gap-2">
-                                                <Mail className="h-4 w-4" />
-                                                Step 1: Communication
-                                            </h3>
-                                            <p className="text-sm text-muted-foreground mb-3">
-                                                Communicate with both parties before making a final decision.
-                                            </p>
-                                            <div className="grid grid-cols-2 gap-3">
-                                                <Button variant="outline" className="h-auto py-3 flex flex-col items-center justify-center gap-1 hover:bg-primary/5 hover:text-primary border-dashed" asChild>
-                                                    <a href={`mailto:${selectedDispute.customer?.email}?subject=Dispute Update for Order #${selectedDispute.order_id.slice(0, 8)}&body=Dear ${selectedDispute.customer?.full_name},%0A%0ARegarding your dispute for order #${selectedDispute.order_id.slice(0, 8)}...`}>
-                                                        <span className="font-medium flex items-center gap-2 text-sm"><Mail className="h-3 w-3" /> Email Customer</span>
-                                                        <span className="text-xs text-muted-foreground">{selectedDispute.customer?.email}</span>
-                                                    </a>
-                                                </Button>
-                                                <Button variant="outline" className="h-auto py-3 flex flex-col items-center justify-center gap-1 hover:bg-primary/5 hover:text-primary border-dashed" asChild>
-                                                    <a href={`mailto:${selectedDispute.vendor?.email}?subject=Dispute Inquiry for Order #${selectedDispute.order_id.slice(0, 8)}&body=Dear ${selectedDispute.vendor?.store_name || "Vendor"},%0A%0ARegarding the dispute for order #${selectedDispute.order_id.slice(0, 8)}...`}>
-                                                        <span className="font-medium flex items-center gap-2 text-sm"><Mail className="h-3 w-3" /> Email Vendor</span>
-                                                        <span className="text-xs text-muted-foreground">{selectedDispute.vendor?.email}</span>
-                                                    </a>
-                                                </Button>
-                                            </div>
-                                        </div>
-
                                         <div className="pt-2">
                                             <h3 className="font-semibold mb-3 flex items-center gap-2">
                                                 <CheckCircle className="h-4 w-4" />
-                                                Step 2: Final Resolution
+                                                Settlement
                                             </h3>
                                             <div className="mb-4">
                                                 <Label htmlFor="notes" className="mb-1 block">Resolution Notes (Required for decision)</Label>
@@ -630,6 +829,51 @@ const AdminDisputes = () => {
                                                         Pay vendor & close dispute
                                                     </span>
                                                 </Button>
+
+                                                <Button
+                                                    variant="outline"
+                                                    className="col-span-2 h-auto py-3 flex flex-col gap-1"
+                                                    onClick={openPartialRefund}
+                                                    disabled={resolving || !resolutionNotes.trim()}
+                                                >
+                                                    <div className="flex items-center gap-2 font-bold">
+                                                        <Scissors className="h-4 w-4" />
+                                                        Partial Refund
+                                                    </div>
+                                                    <span className="text-xs text-muted-foreground font-normal">
+                                                        Refund some items or an amount, release the rest to the vendor
+                                                    </span>
+                                                </Button>
+
+                                                <Button
+                                                    variant="outline"
+                                                    className="h-auto py-3 flex flex-col gap-1"
+                                                    onClick={openSplit}
+                                                    disabled={resolving || !resolutionNotes.trim()}
+                                                >
+                                                    <div className="flex items-center gap-2 font-bold">
+                                                        <Scale className="h-4 w-4" />
+                                                        Split Payout
+                                                    </div>
+                                                    <span className="text-xs text-muted-foreground font-normal">
+                                                        Share the payment between buyer and vendor
+                                                    </span>
+                                                </Button>
+
+                                                <Button
+                                                    variant="outline"
+                                                    className="h-auto py-3 flex flex-col gap-1"
+                                                    onClick={openReturn}
+                                                    disabled={resolving || !resolutionNotes.trim()}
+                                                >
+                                                    <div className="flex items-center gap-2 font-bold">
+                                                        <Undo2 className="h-4 w-4" />
+                                                        Return Before Refund
+                                                    </div>
+                                                    <span className="text-xs text-muted-foreground font-normal">
+                                                        Refund once the vendor gets the item back
+                                                    </span>
+                                                </Button>
                                             </div>
                                             {!resolutionNotes.trim() && (
                                                 <p className="text-xs text-center text-muted-foreground mt-2">
@@ -657,6 +901,126 @@ const AdminDisputes = () => {
                         )}
                     </DialogContent>
                 </Dialog>
+
+                <PartialRefundDialog
+                    order={refundOrder}
+                    open={partialRefundOpen}
+                    onOpenChange={setPartialRefundOpen}
+                    onSubmit={handlePartialRefund}
+                    title="Partial Refund"
+                    description="The selected amount goes back to the customer. The rest of the escrow is released to the vendor and the dispute is resolved."
+                />
+
+                {/* Split Payout */}
+                <Dialog open={splitOpen} onOpenChange={setSplitOpen}>
+                    <DialogContent className="max-w-md">
+                        <DialogHeader>
+                            <DialogTitle>Split Payout</DialogTitle>
+                            <DialogDescription>
+                                The buyer is refunded this amount and the rest of the escrow is released to the vendor. The dispute is resolved.
+                            </DialogDescription>
+                        </DialogHeader>
+                        {refundOrder && (
+                            <div className="space-y-4">
+                                <div className="bg-muted p-3 rounded-lg text-sm flex justify-between">
+                                    <span className="text-muted-foreground">Left on the order</span>
+                                    <span className="font-bold">KES {remainingRefundable(refundOrder).toLocaleString()}</span>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="split-amount">Refund to buyer (KES)</Label>
+                                    <Input
+                                        id="split-amount"
+                                        type="number"
+                                        min={1}
+                                        value={splitAmount}
+                                        onChange={(e) => setSplitAmount(e.target.value)}
+                                    />
+                                    {Number(splitAmount) > 0 && Number(splitAmount) < remainingRefundable(refundOrder) && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Vendor receives the remaining KES {(remainingRefundable(refundOrder) - Number(splitAmount)).toLocaleString()} less commission.
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex gap-3">
+                                    <Button variant="outline" onClick={() => setSplitOpen(false)} disabled={resolving}>
+                                        Cancel
+                                    </Button>
+                                    <Button className="flex-1" onClick={handleSplit} disabled={resolving || !splitAmount}>
+                                        {resolving ? "Processing..." : "Split Payout"}
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </DialogContent>
+                </Dialog>
+
+                {/* Return Before Refund */}
+                <Dialog open={returnOpen} onOpenChange={setReturnOpen}>
+                    <DialogContent className="max-w-md">
+                        <DialogHeader>
+                            <DialogTitle>Return Before Refund</DialogTitle>
+                            <DialogDescription>
+                                The buyer sends the item back. When the vendor confirms they received it, the item is refunded, the rest is released and the dispute is resolved.
+                            </DialogDescription>
+                        </DialogHeader>
+                        {refundOrder && (
+                            <div className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label>Item to return</Label>
+                                    <Select
+                                        value={returnItemId}
+                                        onValueChange={(v) => {
+                                            setReturnItemId(v);
+                                            const item = refundOrder.order_items.find((i) => i.id === v);
+                                            if (item) setReturnQuantity(remainingQuantity(item));
+                                        }}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Choose an item" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {refundOrder.order_items.filter((item) => remainingQuantity(item) > 0).map((item) => (
+                                                <SelectItem key={item.id} value={item.id}>
+                                                    {item.product_name}{item.size ? ` · ${item.size}` : ""} (KES {Number(item.unit_price_ksh).toLocaleString()})
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="return-quantity">Quantity</Label>
+                                    <Input
+                                        id="return-quantity"
+                                        type="number"
+                                        min={1}
+                                        max={refundOrder.order_items.find((i) => i.id === returnItemId) ? remainingQuantity(refundOrder.order_items.find((i) => i.id === returnItemId)!) : 1}
+                                        value={returnQuantity}
+                                        onChange={(e) => setReturnQuantity(Math.max(1, Number(e.target.value) || 1))}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="return-instructions">Instructions for the buyer (optional)</Label>
+                                    <Textarea
+                                        id="return-instructions"
+                                        placeholder="e.g. Send it back unworn in the original box"
+                                        value={returnInstructions}
+                                        onChange={(e) => setReturnInstructions(e.target.value)}
+                                        rows={3}
+                                        className="resize-none"
+                                    />
+                                </div>
+                                <div className="flex gap-3">
+                                    <Button variant="outline" onClick={() => setReturnOpen(false)} disabled={resolving}>
+                                        Cancel
+                                    </Button>
+                                    <Button className="flex-1" onClick={handleReturnBeforeRefund} disabled={resolving || !returnItemId}>
+                                        {resolving ? "Starting..." : "Start Return"}
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </DialogContent>
+                </Dialog>
             </main>
         </div>
     );
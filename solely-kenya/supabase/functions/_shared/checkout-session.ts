@@ -0,0 +1,283 @@
+/**
+ * Checkout Session Settlement
+ *
+ * A multi-vendor cart is paid with ONE gateway payment but split into one order
+ * per vendor. The payment is tracked on a checkout_sessions row; each order keeps
+ * its own payments row (with its own amount) and escrow_transactions row.
+ *
+ * When the gateway confirms the shared payment, settleCheckoutSession() fans it
+ * out across the session's orders. Stock is deducted by trigger_reduce_stock as
+ * each order's payment row flips to 'captured'.
+ */
+
+import { transitionOrderStatus } from './order-status.ts';
+import type { SupabaseClient } from './types.ts';
+
+interface SettleOptions {
+  gateway: string;
+  transactionId: string | null;
+  amountPaid: number | null;
+  metadata?: Record<string, unknown>;
+  logTag?: string;
+}
+
+interface SettleResult {
+  success: boolean;
+  alreadyProcessed?: boolean;
+  orderIds: string[];
+  error?: string;
+}
+
+/**
+ * Fetch a checkout session by ID. Returns null when the reference is not a session
+ * (e.g. a single-order api_ref or an unknown ID).
+ */
+export async function getCheckoutSession(supabase: SupabaseClient, sessionId: string) {
+  const { data, error } = await supabase
+    .from('checkout_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    // Non-UUID refs raise a cast error - treat as "not a session"
+    return null;
+  }
+  return data;
+}
+
+interface EscrowOrder {
+  id: string;
+  total_ksh: number;
+  commission_amount: number | null;
+  payout_amount: number | null;
+}
+
+/**
+ * Create the held escrow row for a captured order, unless it already has one.
+ * Shared by session settlement and the single-order gateway callbacks.
+ */
+export async function holdOrderEscrow(
+  supabase: SupabaseClient,
+  order: EscrowOrder,
+  paymentId: string | null,
+  logTag = '[Checkout Session]'
+): Promise<void> {
+  const { data: escrow } = await supabase
+    .from('escrow_transactions')
+    .select('id')
+    .eq('order_id', order.id)
+    .maybeSingle();
+
+  if (escrow) return;
+
+  const { error: escrowError } = await supabase
+    .from('escrow_transactions')
+    .insert({
+      order_id: order.id,
+      payment_id: paymentId,
+      status: 'held',
+      held_amount: order.total_ksh,
+      commission_amount: order.commission_amount,
+      release_amount: order.payout_amount,
+    });
+
+  if (escrowError) {
+    console.error(`${logTag} Failed to create escrow for order ${order.id}:`, escrowError);
+  }
+}
+
+/**
+ * Mark a session paid and release each order still awaiting payment to its vendor.
+ * The amount paid must equal the session total. Idempotent: a session that is
+ * already paid is left untouched.
+ */
+export async function settleCheckoutSession(
+  supabase: SupabaseClient,
+  sessionId: string,
+  options: SettleOptions
+): Promise<SettleResult> {
+  const tag = options.logTag ?? '[Checkout Session]';
+
+  const session = await getCheckoutSession(supabase, sessionId);
+  if (!session) {
+    return { success: false, orderIds: [], error: 'Checkout session not found' };
+  }
+
+  const { data: orders, error: ordersError } = await supabase
+    .from('orders')
+    .select('id, status, total_ksh, commission_amount, payout_amount')
+    .eq('checkout_session_id', sessionId);
+
+  if (ordersError || !orders) {
+    console.error(`${tag} Failed to load orders for session ${sessionId}:`, ordersError);
+    return { success: false, orderIds: [], error: 'Failed to load session orders' };
+  }
+
+  const orderIds = orders.map((o: { id: string }) => o.id);
+
+  if (session.status === 'paid') {
+    console.log(`${tag} Session ${sessionId} already settled - skipping`);
+    return { success: true, alreadyProcessed: true, orderIds };
+  }
+
+  // Never release orders unless the gateway reports exactly the session total; flag it for admin review instead
+  const expected = Number(session.total_ksh);
+  if (options.amountPaid === null || Math.round(options.amountPaid) !== Math.round(expected)) {
+    console.warn(`${tag} ⚠️ Amount mismatch for session ${sessionId}: paid ${options.amountPaid}, expected ${expected}`);
+    await supabase
+      .from('checkout_sessions')
+      .update({
+        status: 'amount_mismatch',
+        amount_paid_ksh: options.amountPaid,
+        transaction_id: options.transactionId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', sessionId);
+    return { success: false, orderIds, error: 'Amount paid does not match checkout total' };
+  }
+
+  const now = new Date().toISOString();
+
+  // Orders cancelled while the buyer was paying are not captured or released
+  const payableOrders = orders.filter((o: { status: string }) => o.status === 'pending_payment');
+  if (payableOrders.length < orders.length) {
+    console.warn(`${tag} ⚠️ Session ${sessionId} paid with ${orders.length - payableOrders.length} order(s) no longer awaiting payment - skipped`);
+  }
+
+  for (const order of payableOrders) {
+    // 1. Capture this order's share of the payment (fires the stock trigger)
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .update({
+        status: 'captured',
+        captured_at: now,
+        transaction_id: options.transactionId,
+        updated_at: now,
+      })
+      .eq('order_id', order.id)
+      .eq('checkout_session_id', sessionId)
+      .select('id')
+      .maybeSingle();
+
+    if (paymentError) {
+      console.error(`${tag} Failed to capture payment for order ${order.id}:`, paymentError);
+    }
+
+    // 2. Hold this vendor's share in escrow
+    await holdOrderEscrow(supabase, order, payment?.id ?? null, tag);
+
+    // 3. Hand the order to its vendor
+    try {
+      await transitionOrderStatus(supabase, order.id, 'pending_vendor_confirmation', {
+        reason: 'Payment confirmed',
+        metadata: { checkout_session_id: sessionId },
+      });
+    } catch (err) {
+      console.error(`${tag} Failed to update order ${order.id}:`, err);
+      continue;
+    }
+
+    // 4. Notify vendor and buyer (non-blocking)
+    supabase.functions
+      .invoke('notify-vendor-new-order', { body: { orderId: order.id } })
+      .catch((err: Error) => console.log(`${tag} Vendor notification failed (non-critical):`, err));
+
+    supabase.functions
+      .invoke('notify-buyer-order-placed', { body: { orderId: order.id } })
+      .catch((err: Error) => console.log(`${tag} Buyer notification failed (non-critical):`, err));
+  }
+
+  const { error: sessionUpdateError } = await supabase
+    .from('checkout_sessions')
+    .update({
+      status: 'paid',
+      gateway: options.gateway,
+      amount_paid_ksh: options.amountPaid,
+      transaction_id: options.transactionId,
+      paid_at: now,
+      metadata: { ...(session.metadata || {}), ...(options.metadata || {}) },
+      updated_at: now,
+    })
+    .eq('id', sessionId);
+
+  if (sessionUpdateError) {
+    console.error(`${tag} Failed to mark session ${sessionId} paid:`, sessionUpdateError);
+  }
+
+  console.log(`${tag} Session ${sessionId} settled across ${payableOrders.length} order(s)`);
+  return { success: true, orderIds };
+}
+
+/**
+ * Mark a session failed and cancel all of its unpaid orders.
+ */
+export async function failCheckoutSession(
+  supabase: SupabaseClient,
+  sessionId: string,
+  reason: string | null,
+  logTag = '[Checkout Session]'
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error: sessionError } = await supabase
+    .from('checkout_sessions')
+    .update({
+      status: 'failed',
+      metadata: { failed_reason: reason },
+      updated_at: now,
+    })
+    .eq('id', sessionId)
+    .eq('status', 'pending');
+
+  if (sessionError) {
+    console.error(`${logTag} Failed to mark session ${sessionId} failed:`, sessionError);
+  }
+
+  const { data: orders, error: ordersError } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('checkout_session_id', sessionId)
+    .eq('status', 'pending_payment');
+
+  if (ordersError) {
+    console.error(`${logTag} Failed to load orders for session ${sessionId}:`, ordersError);
+    return;
+  }
+
+  for (const order of orders ?? []) {
+    await failOrderPayment(supabase, order.id, reason, logTag);
+  }
+}
+
+/**
+ * Cancel an unpaid order after its payment failed. payment_failed_at tells these
+ * apart from checkouts the buyer abandoned.
+ */
+export async function failOrderPayment(
+  supabase: SupabaseClient,
+  orderId: string,
+  reason: string | null,
+  logTag = '[Checkout Session]'
+): Promise<void> {
+  const { data: marked, error: markError } = await supabase
+    .from('orders')
+    .update({ payment_failed_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('status', 'pending_payment')
+    .select('id');
+
+  if (markError) {
+    console.error(`${logTag} Failed to mark payment failed for order ${orderId}:`, markError);
+    return;
+  }
+  if (!marked || marked.length === 0) return; // paid or cancelled in the meantime
+
+  try {
+    await transitionOrderStatus(supabase, orderId, 'cancelled_by_customer', {
+      reason: `Payment failed: ${reason || 'Unknown'}`,
+    });
+  } catch (err) {
+    console.error(`${logTag} Failed to cancel order ${orderId}:`, err);
+  }
+}
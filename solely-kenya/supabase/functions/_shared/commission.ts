@@ -0,0 +1,59 @@
+/**
+ * Commission Ledger
+ *
+ * Commission is resolved from commission_rules when the order is created
+ * (create_checkout_orders) and stored on the order. Release paths copy those
+ * stored figures into commission_ledger, together with the rule(s) that
+ * produced them, instead of recomputing a rate.
+ */
+
+import type { SupabaseClient } from './types.ts';
+
+// Only used for legacy orders created before commission rules existed
+export const FALLBACK_COMMISSION_RATE = 10;
+
+export interface CommissionOrder {
+  id: string;
+  vendor_id: string;
+  total_ksh: number;
+  subtotal_ksh?: number | null;
+  commission_rate?: number | null;
+  commission_amount?: number | null;
+  commission_rule_id?: string | null;
+  commission_breakdown?: unknown;
+}
+
+/**
+ * Commission for an order as stored at creation, falling back to the flat
+ * legacy rate on the product subtotal for older orders.
+ */
+export function getOrderCommission(order: CommissionOrder): { rate: number; amount: number } {
+  const rate = order.commission_rate ?? FALLBACK_COMMISSION_RATE;
+  const amount = order.commission_amount
+    ?? Math.round(Number(order.subtotal_ksh ?? order.total_ksh) * rate) / 100;
+  return { rate: Number(rate), amount: Number(amount) };
+}
+
+/**
+ * Record an order's commission in commission_ledger.
+ */
+export async function recordCommission(
+  supabase: SupabaseClient,
+  order: CommissionOrder,
+  notes: string,
+  amountOverride?: number | null
+) {
+  const { rate, amount } = getOrderCommission(order);
+
+  return await supabase
+    .from('commission_ledger')
+    .insert({
+      order_id: order.id,
+      vendor_id: order.vendor_id,
+      commission_rate: rate,
+      commission_amount: amountOverride ?? amount,
+      commission_rule_id: order.commission_rule_id ?? null,
+      rule_breakdown: order.commission_breakdown ?? null,
+      notes,
+    });
+}
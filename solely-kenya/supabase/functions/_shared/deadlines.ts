@@ -0,0 +1,28 @@
+/**
+ * Deadline wording
+ *
+ * Shared by the jobs that warn about SLA deadlines (sla-deadline-warnings,
+ * dispute-deadlines) and vendor-scorecards so push, in-app and email copy read
+ * the same.
+ */
+
+/** Time until the deadline, e.g. "45 min", "5 hours", "3 days" */
+export function formatTimeLeft(deadline: string): string {
+  const minutes = Math.max(0, Math.round((new Date(deadline).getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${Math.floor(hours / 24)} days`;
+}
+
+/** The deadline in Nairobi time, e.g. "Mon, 3 Nov, 14:00" */
+export function formatDeadline(deadline: string): string {
+  return new Date(deadline).toLocaleString('en-GB', {
+    timeZone: 'Africa/Nairobi',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
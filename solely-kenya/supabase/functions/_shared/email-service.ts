@@ -188,7 +188,7 @@ export const emailTemplates = {
         </div>
         <div class="content">
           <p>Hi ${data.businessName},</p>
-          <p>We're reaching out because you did not respond to an order within the required 48-hour window.</p>
+          <p>We're reaching out because you did not respond to an order by its response deadline.</p>
           
           <div class="order-details">
             <p><strong>Order #${data.orderId}</strong></p>
@@ -927,6 +927,366 @@ export const emailTemplates = {
     </body>
     </html>
   `,
-};
 
+  // Saved search: new listings matching a buyer's saved filters
+  savedSearchMatches: (data: {
+    customerName: string;
+    searchName: string;
+    products: { name: string; price: number; image?: string | null; url: string }[];
+    moreCount: number;
+    searchUrl: string;
+    manageUrl: string;
+  }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+        .product { background: white; padding: 12px; border-radius: 8px; margin: 10px 0; border: 1px solid #e5e7eb; }
+        .product img { width: 64px; height: 64px; object-fit: cover; border-radius: 6px; vertical-align: middle; margin-right: 12px; }
+        .price { color: #667eea; font-weight: bold; }
+        .cta-button { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 15px; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">👟 New listings for "${data.searchName}"</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.customerName},</p>
+          <p>New shoes matching your saved search just went up on Sole-ly Kenya:</p>
+
+          ${data.products.map((product) => `
+          <div class="product">
+            <a href="${product.url}" style="color: inherit; text-decoration: none;">
+              ${product.image ? `<img src="${product.image}" alt="" />` : ''}
+              <strong>${product.name}</strong> - <span class="price">KES ${product.price.toLocaleString()}</span>
+            </a>
+          </div>
+          `).join('')}
+
+          ${data.moreCount > 0 ? `<p>...and ${data.moreCount} more.</p>` : ''}
+
+          <div style="text-align: center;">
+            <a href="${data.searchUrl}" class="cta-button">See All Matches</a>
+          </div>
+
+          <p style="margin-top: 20px; font-size: 14px; color: #6b7280;">
+            Good pairs go fast. You can change or stop these alerts from <a href="${data.manageUrl}">your saved searches</a>.
+          </p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Sole-ly Kenya</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
+  // Price drop on a watched product
+  priceDrop: (data: {
+    customerName: string;
+    productName: string;
+    previousPrice: number;
+    currentPrice: number;
+    targetPrice?: number | null;
+    image?: string | null;
+    productUrl: string;
+    manageUrl: string;
+  }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+        .price-box { background: white; border: 2px solid #10b981; padding: 20px; border-radius: 8px; margin: 15px 0; text-align: center; }
+        .old-price { color: #6b7280; text-decoration: line-through; }
+        .new-price { font-size: 32px; font-weight: bold; color: #059669; }
+        .cta-button { display: inline-block; background: #10b981; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin-top: 15px; font-weight: bold; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">📉 Price Drop!</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.customerName},</p>
+          <p>${data.targetPrice
+            ? `<strong>${data.productName}</strong> is now at or below your target of KES ${data.targetPrice.toLocaleString()}.`
+            : `The price of <strong>${data.productName}</strong> just dropped.`}</p>
+
+          <div class="price-box">
+            ${data.image ? `<img src="${data.image}" alt="" style="max-width: 160px; border-radius: 8px;" />` : ''}
+            <p class="old-price" style="margin: 10px 0 0 0;">KES ${data.previousPrice.toLocaleString()}</p>
+            <p class="new-price" style="margin: 0;">KES ${data.currentPrice.toLocaleString()}</p>
+            <p style="margin: 0; color: #059669;">You save KES ${(data.previousPrice - data.currentPrice).toLocaleString()}</p>
+          </div>
+
+          <div style="text-align: center;">
+            <a href="${data.productUrl}" class="cta-button">View Product</a>
+          </div>
+
+          <p style="margin-top: 20px; font-size: 14px; color: #6b7280;">
+            Prices and stock can change quickly. Manage your alerts from <a href="${data.manageUrl}">My Alerts</a>.
+          </p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Sole-ly Kenya</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
+  // Back-in-stock notification for a wishlist item
+  backInStock: (data: {
+    customerName: string;
+    productName: string;
+    price: number;
+    size?: string | null;
+    image?: string | null;
+    productUrl: string;
+    wishlistUrl: string;
+  }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #ec4899 0%, #db2777 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+        .product-box { background: white; border: 2px solid #ec4899; padding: 20px; border-radius: 8px; margin: 15px 0; text-align: center; }
+        .price { font-size: 24px; font-weight: bold; color: #db2777; }
+        .cta-button { display: inline-block; background: #ec4899; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin-top: 15px; font-weight: bold; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">❤️ Back in Stock!</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.customerName},</p>
+          <p><strong>${data.productName}</strong> from your wishlist is available again.</p>
+
+          <div class="product-box">
+            ${data.image ? `<img src="${data.image}" alt="" style="max-width: 160px; border-radius: 8px;" />` : ''}
+            <p style="margin: 10px 0 0 0; font-weight: bold;">${data.productName}</p>
+            ${data.size ? `<p style="margin: 0; color: #6b7280;">Your size: ${data.size}</p>` : ''}
+            <p class="price" style="margin: 0;">KES ${data.price.toLocaleString()}</p>
+          </div>
+
+          <div style="text-align: center;">
+            <a href="${data.productUrl}" class="cta-button">Shop Now</a>
+          </div>
+
+          <p style="margin-top: 20px; font-size: 14px; color: #6b7280;">
+            Pairs are often one-offs, so don't wait too long. See everything you've saved on <a href="${data.wishlistUrl}">your wishlist</a>.
+          </p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Sole-ly Kenya</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
+  // Reminder for a cart left without checking out
+  abandonedCart: (data: {
+    customerName: string;
+    items: Array<{ name: string; image?: string | null; size?: string | null; price: number; quantity: number }>;
+    changes: string[];
+    subtotal: number;
+    cartUrl: string;
+  }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+        .item { background: white; padding: 12px; border-radius: 6px; margin: 8px 0; }
+        .cta-button { display: inline-block; background: #667eea; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; margin-top: 15px; font-weight: bold; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">🛒 Still thinking it over?</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.customerName},</p>
+          <p>You left ${data.items.length === 1 ? 'a pair' : 'some shoes'} in your cart. Most of our listings are one-offs, so they may not be around for long.</p>
+
+          ${data.items.map(item => `
+            <div class="item">
+              <table style="width: 100%;">
+                <tr>
+                  ${item.image ? `<td style="width: 70px;"><img src="${item.image}" alt="" style="width: 60px; height: 60px; object-fit: cover; border-radius: 6px;" /></td>` : ''}
+                  <td>
+                    <strong>${item.name}</strong>
+                    ${item.size ? `<br /><span style="color: #6b7280; font-size: 14px;">Size ${item.size}</span>` : ''}
+                  </td>
+                  <td style="text-align: right; white-space: nowrap;">${item.quantity > 1 ? `${item.quantity} × ` : ''}KES ${item.price.toLocaleString()}</td>
+                </tr>
+              </table>
+            </div>
+          `).join('')}
+
+          ${data.changes.length > 0 ? `
+            <div style="background: #fef3c7; border-left: 4px solid #f59e0b; padding: 12px; margin: 15px 0;">
+              ${data.changes.map(change => `<p style="margin: 0;">${change}</p>`).join('')}
+            </div>
+          ` : ''}
 
+          <p style="text-align: right; font-size: 18px;"><strong>Subtotal: KES ${data.subtotal.toLocaleString()}</strong></p>
+
+          <div style="text-align: center;">
+            <a href="${data.cartUrl}" class="cta-button">Return to Cart</a>
+          </div>
+
+          <p style="margin-top: 20px; font-size: 14px; color: #6b7280;">
+            Your payment is held safely until you confirm delivery.
+          </p>
+        </div>
+        <div class="footer">
+          <p>This email was sent by Sole-ly Kenya</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
+  // Heads-up before an order deadline runs out (see sla-deadline-warnings)
+  slaDeadlineWarning: (data: {
+    name: string;
+    orderId: string;
+    title: string;
+    message: string;
+    consequence: string;
+    deadline: string;
+    timeLeft: string;
+    ctaLabel: string;
+    ctaUrl: string;
+  }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #f59e0b; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+        .deadline-box { background: #fffbeb; border: 2px solid #f59e0b; padding: 15px; border-radius: 8px; margin: 15px 0; text-align: center; }
+        .cta-button { display: inline-block; background: #6366f1; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; margin-top: 15px; font-weight: bold; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">⏰ ${data.title}</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.name},</p>
+          <p>${data.message}</p>
+
+          <div class="deadline-box">
+            <p style="margin: 0;"><strong>Order #${data.orderId}</strong></p>
+            <p style="margin: 5px 0 0 0; font-size: 20px; font-weight: bold;">${data.timeLeft} left</p>
+            <p style="margin: 0; color: #6b7280;">Deadline: ${data.deadline}</p>
+          </div>
+
+          <p>${data.consequence}</p>
+
+          <div style="text-align: center;">
+            <a href="${data.ctaUrl}" class="cta-button">${data.ctaLabel}</a>
+          </div>
+        </div>
+        <div class="footer">
+          <p>This is an automated message from Sole-ly Kenya</p>
+          <p>Questions? Contact us at support@solelyshoes.co.ke</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
+  vendorPerformanceNotice: (data: {
+    storeName: string;
+    title: string;
+    message: string;
+    score: number;
+    metrics: { label: string; value: string }[];
+    consequence: string;
+    dashboardUrl: string;
+  }) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #ef4444; color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+        .score-box { background: #fef2f2; border: 2px solid #ef4444; padding: 15px; border-radius: 8px; margin: 15px 0; text-align: center; }
+        .metrics { width: 100%; border-collapse: collapse; margin: 15px 0; }
+        .metrics td { padding: 8px; border-bottom: 1px solid #e5e7eb; }
+        .cta-button { display: inline-block; background: #6366f1; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; margin-top: 15px; font-weight: bold; }
+        .footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0;">📉 ${data.title}</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.storeName},</p>
+          <p>${data.message}</p>
+
+          <div class="score-box">
+            <p style="margin: 0; color: #6b7280;">Your seller score (last 90 days)</p>
+            <p style="margin: 5px 0 0 0; font-size: 28px; font-weight: bold;">${Math.round(data.score)} / 100</p>
+          </div>
+
+          <table class="metrics">
+            ${data.metrics.map((metric) => `
+              <tr>
+                <td>${metric.label}</td>
+                <td style="text-align: right;"><strong>${metric.value}</strong></td>
+              </tr>
+            `).join('')}
+          </table>
+
+          <p>${data.consequence}</p>
+
+          <div style="text-align: center;">
+            <a href="${data.dashboardUrl}" class="cta-button">View Your Scorecard</a>
+          </div>
+        </div>
+        <div class="footer">
+          <p>This is an automated message from Sole-ly Kenya</p>
+          <p>Questions? Contact us at support@solelyshoes.co.ke</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+};
@@ -0,0 +1,90 @@
+/**
+ * Escrow release
+ *
+ * Pays a held escrow out to the vendor: marks the escrow released, completes the
+ * order, queues the payout, records commission, posts the release to the ledger and
+ * moves the vendor share to their IntaSend wallet (same steps as auto-release-escrow).
+ */
+
+import { recordCommission } from './commission.ts';
+import { postEscrowRelease } from './ledger.ts';
+import { transitionOrderStatus } from './order-status.ts';
+import type { SupabaseClient } from './types.ts';
+
+/**
+ * Release whatever is held for the order. Returns false when nothing is held
+ * (already released/refunded, or no escrow row); throws when the order cannot
+ * be completed.
+ */
+export async function releaseHeldEscrow(
+  supabase: SupabaseClient,
+  orderId: string,
+  notes: string,
+  tag = '[Escrow]'
+): Promise<boolean> {
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, vendor_id, status, total_ksh, subtotal_ksh, commission_rate, commission_amount, commission_rule_id, commission_breakdown, escrow_transactions(id, status, release_amount, commission_amount)')
+    .eq('id', orderId)
+    .single();
+
+  const escrow = order?.escrow_transactions?.[0];
+  if (!order || !escrow || escrow.status !== 'held') return false;
+
+  const now = new Date().toISOString();
+
+  // Claim the escrow first so only one concurrent release goes on to complete the order
+  const { data: released, error: escrowError } = await supabase
+    .from('escrow_transactions')
+    .update({ status: 'released', released_at: now })
+    .eq('id', escrow.id)
+    .eq('status', 'held')
+    .select('id');
+
+  if (escrowError) throw escrowError;
+  if (!released || released.length === 0) return false; // released concurrently
+
+  // If the order cannot be completed, the escrow goes back to held and nothing is paid out
+  if (order.status !== 'completed') {
+    try {
+      await transitionOrderStatus(supabase, orderId, 'completed', { reason: notes });
+    } catch (err) {
+      await supabase
+        .from('escrow_transactions')
+        .update({ status: 'held', released_at: null })
+        .eq('id', escrow.id);
+      throw err;
+    }
+  }
+
+  const { error: payoutError } = await supabase
+    .from('payouts')
+    .insert({
+      order_id: orderId,
+      vendor_id: order.vendor_id,
+      status: 'pending',
+      method: 'mpesa',
+      amount_ksh: escrow.release_amount,
+      commission_amount: escrow.commission_amount,
+    });
+
+  if (payoutError) {
+    console.error(`${tag} Failed to create payout for order ${orderId}:`, payoutError);
+  }
+
+  const { error: commissionError } = await recordCommission(supabase, order, notes, escrow.commission_amount);
+  if (commissionError) {
+    console.error(`${tag} Failed to record commission for order ${orderId}:`, commissionError);
+  }
+
+  const { error: ledgerError } = await postEscrowRelease(supabase, order, escrow, notes);
+  if (ledgerError) {
+    console.error(`${tag} Failed to post escrow release for order ${orderId}:`, ledgerError);
+  }
+
+  supabase.functions
+    .invoke('transfer-to-vendor-wallet', { body: { order_id: orderId } })
+    .catch((err: Error) => console.error(`${tag} Fund transfer failed for order ${orderId}:`, err));
+
+  return true;
+}
@@ -0,0 +1,154 @@
+/**
+ * Double-entry Ledger
+ *
+ * Edge functions record money movements by posting balanced journal entries through
+ * the post_journal_entry RPC. Each entry carries an idempotency key, so a retried
+ * webhook or cron run never posts the same movement twice. Vendor balances
+ * (vendor_balances.pending_balance) are derived from the ledger by the database.
+ *
+ *   payment captured   Dr buyer_funds      Cr escrow               (posted by a payments trigger)
+ *   escrow release     Dr escrow           Cr vendor_payable + platform_revenue
+ *   refund             Dr escrow           Cr buyer_funds          (or reverses the release)
+ *   wallet transfer    Dr vendor_wallet    Cr buyer_funds
+ *   withdrawal/payout  Dr vendor_payable   Cr vendor_wallet / buyer_funds
+ *   absorbed fee       Dr gateway_fees     Cr buyer_funds
+ */
+
+import type { SupabaseClient } from './types.ts';
+
+export type LedgerAccount =
+  | 'buyer_funds'
+  | 'escrow'
+  | 'platform_revenue'
+  | 'gateway_fees'
+  | 'vendor_payable'
+  | 'vendor_wallet';
+
+export type JournalEntryType =
+  | 'escrow_release'
+  | 'refund'
+  | 'wallet_transfer'
+  | 'vendor_withdrawal'
+  | 'payout'
+  | 'gateway_fee'
+  | 'adjustment';
+
+export interface JournalLine {
+  account: LedgerAccount;
+  /** Required for vendor_payable / vendor_wallet */
+  vendor_id?: string;
+  debit?: number;
+  credit?: number;
+  memo?: string;
+}
+
+export interface JournalEntry {
+  type: JournalEntryType;
+  lines: JournalLine[];
+  idempotencyKey: string;
+  orderId?: string | null;
+  payoutId?: string | null;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  createdBy?: string | null;
+}
+
+const round2 = (value: number) => Math.round(Number(value) * 100) / 100;
+
+/**
+ * Post a balanced entry. Returns the entry id (the existing one if the key was already posted).
+ */
+export async function postJournalEntry(
+  supabase: SupabaseClient,
+  entry: JournalEntry
+): Promise<{ id: string | null; error: { message: string } | null }> {
+  const lines = entry.lines.map((line) => ({
+    ...line,
+    debit: round2(line.debit ?? 0),
+    credit: round2(line.credit ?? 0),
+  }));
+
+  const { data, error } = await supabase.rpc('post_journal_entry', {
+    p_entry_type: entry.type,
+    p_lines: lines,
+    p_idempotency_key: entry.idempotencyKey,
+    p_order_id: entry.orderId ?? null,
+    p_payout_id: entry.payoutId ?? null,
+    p_description: entry.description ?? null,
+    p_metadata: entry.metadata ?? null,
+    p_created_by: entry.createdBy ?? null,
+  });
+
+  if (error) {
+    console.error(`[Ledger] Failed to post ${entry.type} (${entry.idempotencyKey}):`, error);
+  }
+  return { id: data ?? null, error };
+}
+
+/**
+ * Escrow released to the vendor: their share becomes payable, commission becomes revenue.
+ */
+export function postEscrowRelease(
+  supabase: SupabaseClient,
+  order: { id: string; vendor_id: string },
+  escrow: { release_amount: number; commission_amount: number },
+  description: string
+) {
+  const payout = Number(escrow.release_amount);
+  const commission = Number(escrow.commission_amount);
+
+  return postJournalEntry(supabase, {
+    type: 'escrow_release',
+    idempotencyKey: `escrow_release:${order.id}`,
+    orderId: order.id,
+    description,
+    lines: [
+      { account: 'escrow', debit: payout + commission },
+      { account: 'vendor_payable', vendor_id: order.vendor_id, credit: payout, memo: 'Vendor share' },
+      { account: 'platform_revenue', credit: commission, memo: 'Commission' },
+    ],
+  });
+}
+
+/**
+ * Money returned to the buyer. Refunds from held escrow come out of escrow; a refund
+ * after release takes the vendor share and commission back first.
+ */
+export function postRefund(
+  supabase: SupabaseClient,
+  order: { id: string; vendor_id: string },
+  amount: number,
+  options: {
+    escrowReleased: boolean;
+    releaseAmount?: number;
+    commissionAmount?: number;
+    idempotencyKey?: string;
+    description?: string;
+    createdBy?: string | null;
+  }
+) {
+  const lines: JournalLine[] = [];
+
+  if (options.escrowReleased) {
+    const fromVendor = Math.min(amount, Number(options.releaseAmount ?? amount));
+    const fromRevenue = Math.min(round2(amount - fromVendor), Number(options.commissionAmount ?? 0));
+    lines.push(
+      { account: 'vendor_payable', vendor_id: order.vendor_id, debit: fromVendor, memo: 'Vendor share reversed' },
+      { account: 'platform_revenue', debit: fromRevenue, memo: 'Commission reversed' },
+      { account: 'escrow', debit: round2(amount - fromVendor - fromRevenue) }
+    );
+  } else {
+    lines.push({ account: 'escrow', debit: amount });
+  }
+
+  lines.push({ account: 'buyer_funds', credit: amount, memo: 'Refunded to buyer' });
+
+  return postJournalEntry(supabase, {
+    type: 'refund',
+    idempotencyKey: options.idempotencyKey ?? `refund:${order.id}`,
+    orderId: order.id,
+    description: options.description ?? 'Refund to buyer',
+    createdBy: options.createdBy,
+    lines,
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * Order status transitions
+ *
+ * Status changes go through the transition_order_status RPC, which checks the
+ * move against order_status_transitions and records it in order_events. With
+ * the service role key the change is recorded as made by 'system'.
+ */
+
+import type { SupabaseClient } from './types.ts';
+
+export interface TransitionOptions {
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Move an order to a new status. Throws when the move is not allowed from the
+ * order's current status (e.g. it changed concurrently).
+ */
+export async function transitionOrderStatus(
+  supabase: SupabaseClient,
+  orderId: string,
+  status: string,
+  options: TransitionOptions = {}
+) {
+  const { data, error } = await supabase.rpc('transition_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+    p_reason: options.reason ?? null,
+    p_metadata: options.metadata ?? {},
+  });
+
+  if (error) {
+    throw new Error((error.message || 'Order status could not be changed').replace(/^[A-Z_]+:\s*/, ''));
+  }
+  return data;
+}
@@ -0,0 +1,372 @@
+/**
+ * Payment Reconciliation
+ *
+ * Statement parsing and matching for reconcile-payments. Kept free of I/O:
+ * the edge function loads the statement and our records, this module compares them.
+ *
+ * A statement row and our records are matched on the gateway reference
+ * (IntaSend invoice / tracking id, M-Pesa receipt number). Payments that share a
+ * reference because they belong to one multi-vendor checkout are compared as a group.
+ */
+
+export type Direction = 'in' | 'out';
+
+export interface StatementItem {
+  reference: string;
+  amount: number;
+  direction: Direction;
+  occurredAt: string | null;
+  status: string | null;
+  raw: Record<string, unknown>;
+}
+
+export type InternalTable = 'payments' | 'subscription_payments' | 'mpesa_transactions' | 'payouts';
+
+export interface InternalRecord {
+  table: InternalTable;
+  id: string;
+  reference: string | null;
+  amount: number;
+  direction: Direction;
+  occurredAt: string | null;
+  /** Records sharing a group (e.g. one checkout session) are one gateway transaction */
+  group: string;
+}
+
+export type IssueType = 'unmatched_statement' | 'unmatched_internal' | 'amount_mismatch' | 'duplicate';
+
+export interface ReconciliationIssue {
+  issue_type: IssueType;
+  reference: string | null;
+  direction: Direction;
+  statement_amount: number | null;
+  internal_amount: number | null;
+  internal_table: InternalTable | null;
+  internal_ids: string[] | null;
+  statement_rows: Record<string, unknown>[] | null;
+  details: string;
+}
+
+export interface ReconciliationResult {
+  matched: number;
+  issues: ReconciliationIssue[];
+}
+
+const AMOUNT_TOLERANCE = 0.01;
+
+// ─────────────────────────────────────────────────────────────────────
+// CSV statements
+// ─────────────────────────────────────────────────────────────────────
+
+/** Header aliases, compared lowercased with everything but letters/digits removed */
+const COLUMN_ALIASES = {
+  reference: ['receiptno', 'receipt', 'receiptnumber', 'invoiceid', 'invoice', 'trackingid', 'transactionid', 'reference', 'ref'],
+  amount: ['amount', 'value', 'netamount'],
+  paidIn: ['paidin', 'credit'],
+  withdrawn: ['withdrawn', 'debit'],
+  date: ['completiontime', 'initiationtime', 'date', 'createdat', 'transactiondate', 'updatedat'],
+  status: ['transactionstatus', 'status', 'state'],
+  type: ['type', 'transtype', 'transactiontype', 'details', 'narrative'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+const parseAmount = (value: string | undefined) => {
+  if (!value) return 0;
+  const amount = Number(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+const FAILED_STATUSES = ['failed', 'cancelled', 'canceled', 'reversed', 'declined', 'pending'];
+const OUTBOUND_TYPES = ['payout', 'withdraw', 'b2c', 'transfer', 'send', 'disburse', 'payment to'];
+
+/**
+ * Parse an IntaSend or M-Pesa statement export. M-Pesa statements may start with
+ * a few lines of account details, so the header row is the first one that has
+ * both a reference and an amount column.
+ */
+export function parseStatementCsv(text: string): StatementItem[] {
+  const rows = parseCsv(text);
+
+  const headerIndex = rows.findIndex((row) => {
+    const headers = row.map(normalizeHeader);
+    const hasReference = headers.some((h) => COLUMN_ALIASES.reference.includes(h));
+    const hasAmount = headers.some((h) => COLUMN_ALIASES.amount.includes(h) || COLUMN_ALIASES.paidIn.includes(h));
+    return hasReference && hasAmount;
+  });
+
+  if (headerIndex === -1) {
+    throw new Error('Could not find a header row with a reference and an amount column');
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const column = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = headers.indexOf(alias);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const referenceCol = column(COLUMN_ALIASES.reference);
+  const amountCol = column(COLUMN_ALIASES.amount);
+  const paidInCol = column(COLUMN_ALIASES.paidIn);
+  const withdrawnCol = column(COLUMN_ALIASES.withdrawn);
+  const dateCol = column(COLUMN_ALIASES.date);
+  const statusCol = column(COLUMN_ALIASES.status);
+  const typeCol = column(COLUMN_ALIASES.type);
+
+  const items: StatementItem[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const reference = (row[referenceCol] ?? '').trim();
+    if (!reference) continue;
+
+    const status = statusCol !== -1 ? (row[statusCol] ?? '').trim() : null;
+    if (status && FAILED_STATUSES.includes(status.toLowerCase())) continue;
+
+    let amount: number;
+    let direction: Direction;
+
+    if (paidInCol !== -1 || withdrawnCol !== -1) {
+      // M-Pesa style: separate Paid In / Withdrawn columns
+      const paidIn = parseAmount(row[paidInCol]);
+      const withdrawn = Math.abs(parseAmount(row[withdrawnCol]));
+      direction = paidIn > 0 ? 'in' : 'out';
+      amount = paidIn > 0 ? paidIn : withdrawn;
+    } else {
+      const value = parseAmount(row[amountCol]);
+      const type = typeCol !== -1 ? (row[typeCol] ?? '').toLowerCase() : '';
+      direction = value < 0 || OUTBOUND_TYPES.some((t) => type.includes(t)) ? 'out' : 'in';
+      amount = Math.abs(value);
+    }
+
+    if (amount === 0) continue;
+
+    const raw: Record<string, unknown> = {};
+    rows[headerIndex].forEach((header, index) => {
+      raw[header] = row[index];
+    });
+
+    items.push({
+      reference,
+      amount,
+      direction,
+      occurredAt: dateCol !== -1 ? parseStatementDate(row[dateCol]) : null,
+      status,
+      raw,
+    });
+  }
+
+  return items;
+}
+
+/** ISO string for "2026-10-24 14:03:11", "24/10/2026 14:03" or ISO input */
+export function parseStatementDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const dayFirst = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dayFirst) {
+    const [, day, month, year, hour = '0', minute = '0', second = '0'] = dayFirst;
+    // Statement times are East Africa Time (UTC+3)
+    const date = new Date(Date.UTC(+year, +month - 1, +day, +hour - 3, +minute, +second));
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  if (/[zZ]|[+-]\d{2}:?\d{2}$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const local = /[ T]/.test(trimmed) ? trimmed.replace(' ', 'T') : `${trimmed}T00:00:00`;
+  const date = new Date(`${local}+03:00`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ─────────────────────────────────────────────────────────────────────
+// Matching
+// ─────────────────────────────────────────────────────────────────────
+
+const sum = (values: number[]) => Math.round(values.reduce((total, v) => total + v, 0) * 100) / 100;
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+};
+
+const withinPeriod = (iso: string | null, period: { start: string; end: string }) =>
+  !!iso && iso >= period.start && iso < period.end;
+
+/**
+ * Compare a statement with our records. Internal records outside the period are only
+ * used to match statement rows (e.g. a payment captured just after midnight); they are
+ * not reported as missing from the statement.
+ */
+export function reconcile(
+  statement: StatementItem[],
+  internal: InternalRecord[],
+  period: { start: string; end: string },
+  options: { checkUnmatchedInternal?: (record: InternalRecord) => boolean } = {}
+): ReconciliationResult {
+  const issues: ReconciliationIssue[] = [];
+  let matched = 0;
+
+  const keyOf = (direction: Direction, reference: string) => `${direction}:${reference.trim().toUpperCase()}`;
+
+  const statementGroups = groupBy(statement, (item) => keyOf(item.direction, item.reference));
+  const internalGroups = groupBy(
+    internal.filter((record) => record.reference),
+    (record) => keyOf(record.direction, record.reference as string)
+  );
+
+  for (const [key, rows] of statementGroups) {
+    const first = rows[0];
+
+    if (rows.length > 1) {
+      issues.push({
+        issue_type: 'duplicate',
+        reference: first.reference,
+        direction: first.direction,
+        statement_amount: sum(rows.map((r) => r.amount)),
+        internal_amount: null,
+        internal_table: null,
+        internal_ids: null,
+        statement_rows: rows.map((r) => r.raw),
+        details: `Reference appears ${rows.length} times on the statement`,
+      });
+    }
+
+    const records = internalGroups.get(key);
+    if (!records) {
+      issues.push({
+        issue_type: 'unmatched_statement',
+        reference: first.reference,
+        direction: first.direction,
+        statement_amount: first.amount,
+        internal_amount: null,
+        internal_table: null,
+        internal_ids: null,
+        statement_rows: [first.raw],
+        details: first.direction === 'in'
+          ? 'Money received that no payment, plan purchase or M-Pesa transaction refers to'
+          : 'Money sent that no payout refers to',
+      });
+      continue;
+    }
+
+    const internalAmount = sum(records.map((r) => r.amount));
+    if (Math.abs(internalAmount - first.amount) > AMOUNT_TOLERANCE) {
+      issues.push({
+        issue_type: 'amount_mismatch',
+        reference: first.reference,
+        direction: first.direction,
+        statement_amount: first.amount,
+        internal_amount: internalAmount,
+        internal_table: records[0].table,
+        internal_ids: records.map((r) => r.id),
+        statement_rows: [first.raw],
+        details: `Statement shows KES ${first.amount}, our records total KES ${internalAmount}`,
+      });
+    } else {
+      matched++;
+    }
+  }
+
+  for (const [key, records] of internalGroups) {
+    // Payments of one checkout session legitimately share a reference; different groups must not
+    const groups = groupBy(records, (r) => `${r.table}:${r.group}`);
+    if (groups.size > 1) {
+      issues.push({
+        issue_type: 'duplicate',
+        reference: records[0].reference,
+        direction: records[0].direction,
+        statement_amount: statementGroups.get(key)?.[0].amount ?? null,
+        internal_amount: sum(records.map((r) => r.amount)),
+        internal_table: records[0].table,
+        internal_ids: records.map((r) => r.id),
+        statement_rows: null,
+        details: `Reference is recorded on ${groups.size} separate ${[...new Set(records.map((r) => r.table))].join('/')} records`,
+      });
+    }
+
+    if (statementGroups.has(key)) continue;
+
+    const inPeriod = records.filter((r) =>
+      withinPeriod(r.occurredAt, period) && (options.checkUnmatchedInternal?.(r) ?? true)
+    );
+    if (inPeriod.length === 0) continue;
+
+    issues.push({
+      issue_type: 'unmatched_internal',
+      reference: inPeriod[0].reference,
+      direction: inPeriod[0].direction,
+      statement_amount: null,
+      internal_amount: sum(inPeriod.map((r) => r.amount)),
+      internal_table: inPeriod[0].table,
+      internal_ids: inPeriod.map((r) => r.id),
+      statement_rows: null,
+      details: 'Recorded as paid on our side but missing from the gateway statement',
+    });
+  }
+
+  // Captured money we cannot reconcile at all
+  for (const record of internal) {
+    if (record.reference || !withinPeriod(record.occurredAt, period)) continue;
+    issues.push({
+      issue_type: 'unmatched_internal',
+      reference: null,
+      direction: record.direction,
+      statement_amount: null,
+      internal_amount: record.amount,
+      internal_table: record.table,
+      internal_ids: [record.id],
+      statement_rows: null,
+      details: 'Recorded as paid but has no gateway reference',
+    });
+  }
+
+  return { matched, issues };
+}
@@ -0,0 +1,73 @@
+/**
+ * Vendor Plan Payments
+ *
+ * A plan purchase is tracked on a subscription_payments row. IntaSend checkouts
+ * carry it as api_ref `SUB-<payment id>`; M-Pesa STK pushes are matched by the
+ * CheckoutRequestID stored in transaction_reference. Once the gateway confirms,
+ * activate_vendor_subscription() starts or extends the plan.
+ */
+
+import type { SupabaseClient } from './types.ts';
+
+export const SUBSCRIPTION_REF_PREFIX = 'SUB-';
+
+/** Subscription payment ID from an IntaSend api_ref, or null if it isn't a plan purchase */
+export function parseSubscriptionRef(apiRef: string | null | undefined): string | null {
+  if (!apiRef || !apiRef.startsWith(SUBSCRIPTION_REF_PREFIX)) return null;
+  return apiRef.slice(SUBSCRIPTION_REF_PREFIX.length);
+}
+
+/**
+ * Activate the plan paid for by a subscription payment.
+ * Idempotent: a payment that is already paid returns its existing subscription.
+ */
+export async function activateSubscriptionPayment(
+  supabase: SupabaseClient,
+  paymentId: string,
+  options: { transactionId: string | null; amountPaid: number | null; logTag?: string }
+): Promise<{ success: boolean; subscriptionId?: string; error?: string }> {
+  const tag = options.logTag ?? '[Subscription]';
+
+  const { data: subscriptionId, error } = await supabase.rpc('activate_vendor_subscription', {
+    p_payment_id: paymentId,
+    p_transaction_id: options.transactionId,
+    p_amount_paid: options.amountPaid,
+  });
+
+  if (error) {
+    console.error(`${tag} Failed to activate subscription payment ${paymentId}:`, error);
+    return { success: false, error: error.message };
+  }
+
+  if (!subscriptionId) {
+    console.warn(`${tag} ⚠️ Subscription payment ${paymentId} not activated (amount mismatch)`);
+    return { success: false, error: 'Amount paid does not match plan price' };
+  }
+
+  console.log(`${tag} Subscription payment ${paymentId} activated subscription ${subscriptionId}`);
+  return { success: true, subscriptionId };
+}
+
+/**
+ * Mark a pending subscription payment as failed.
+ */
+export async function failSubscriptionPayment(
+  supabase: SupabaseClient,
+  paymentId: string,
+  reason: string | null,
+  logTag = '[Subscription]'
+): Promise<void> {
+  const { error } = await supabase
+    .from('subscription_payments')
+    .update({
+      status: 'failed',
+      metadata: { failed_reason: reason },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', paymentId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error(`${logTag} Failed to mark subscription payment ${paymentId} failed:`, error);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Shared types
+ *
+ * The Supabase client the _shared helpers take - the service-role client each
+ * function creates with createClient().
+ */
+
+export type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
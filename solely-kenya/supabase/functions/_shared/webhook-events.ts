@@ -0,0 +1,116 @@
+/**
+ * Webhook Event Log
+ *
+ * Inbound webhooks are stored in webhook_events (unique on provider + event_id)
+ * before they are processed. A delivery of an event that is already 'processed',
+ * or is being processed by another request, is reported as a duplicate so the caller
+ * can acknowledge it without side effects. Failed or rejected events are processed
+ * again on redelivery, once claim_webhook_event() has moved them to 'processing'.
+ */
+
+import type { SupabaseClient } from './types.ts';
+
+export type WebhookProvider = 'intasend' | 'mpesa';
+
+interface RecordOptions {
+  provider: WebhookProvider;
+  eventId: string;
+  eventType?: string | null;
+  reference?: string | null;
+  payload: unknown;
+  verified: boolean;
+  verificationError?: string | null;
+  /** Admin replay: always reprocess, even if already processed */
+  replay?: boolean;
+  replayedBy?: string | null;
+}
+
+interface RecordResult {
+  id: string | null;
+  duplicate: boolean;
+}
+
+/**
+ * Store (or claim) an incoming event and report whether it was already processed
+ * or is in progress elsewhere.
+ * Logging failures never block processing - the event is handled without a log row.
+ */
+export async function recordWebhookEvent(
+  supabase: SupabaseClient,
+  options: RecordOptions
+): Promise<RecordResult> {
+  const { data: inserted, error: insertError } = await supabase
+    .from('webhook_events')
+    .upsert(
+      {
+        provider: options.provider,
+        event_id: options.eventId,
+        event_type: options.eventType ?? null,
+        reference: options.reference ?? null,
+        payload: options.payload,
+        verified: options.verified,
+        verification_error: options.verificationError ?? null,
+        status: options.verified ? 'processing' : 'rejected',
+      },
+      { onConflict: 'provider,event_id', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (insertError) {
+    console.error(`[Webhook Events] Failed to record ${options.provider} event ${options.eventId}:`, insertError);
+    return { id: null, duplicate: false };
+  }
+
+  if (inserted && inserted.length > 0) {
+    return { id: inserted[0].id, duplicate: false };
+  }
+
+  // Seen before. The caller rejects an unverified redelivery, so leave the stored event as is.
+  if (!options.verified) {
+    return { id: null, duplicate: false };
+  }
+
+  // A failed/rejected event (or an admin replay) is attempted again by whichever
+  // delivery claims it; the rest are duplicates
+  const { data: claim, error: claimError } = await supabase
+    .rpc('claim_webhook_event', {
+      p_provider: options.provider,
+      p_event_id: options.eventId,
+      p_payload: options.payload,
+      p_replay: options.replay ?? false,
+      p_replayed_by: options.replayedBy ?? null,
+    })
+    .maybeSingle<{ id: string; claimed: boolean }>();
+
+  if (claimError || !claim) {
+    console.error(`[Webhook Events] Failed to claim ${options.provider} event ${options.eventId}:`, claimError);
+    return { id: null, duplicate: false };
+  }
+
+  return { id: claim.id, duplicate: !claim.claimed };
+}
+
+/**
+ * Record the outcome of processing an event.
+ */
+export async function completeWebhookEvent(
+  supabase: SupabaseClient,
+  id: string | null,
+  status: 'processed' | 'failed' | 'rejected',
+  error?: string | null
+): Promise<void> {
+  if (!id) return;
+
+  const { error: updateError } = await supabase
+    .from('webhook_events')
+    .update({
+      status,
+      last_error: error ?? null,
+      processed_at: status === 'processed' ? new Date().toISOString() : null,
+    })
+    .eq('id', id);
+
+  if (updateError) {
+    console.error(`[Webhook Events] Failed to update event ${id}:`, updateError);
+  }
+}
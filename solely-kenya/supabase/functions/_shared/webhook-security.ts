@@ -0,0 +1,142 @@
+/**
+ * Webhook Authenticity
+ *
+ * IntaSend: every webhook carries the `challenge` string configured on the IntaSend
+ * dashboard; it must match INTASEND_WEBHOOK_CHALLENGE.
+ *
+ * M-Pesa (Daraja): callbacks are unsigned, so each STK push gets its own callback URL
+ * with a random nonce and an HMAC of it (MPESA_CALLBACK_SECRET). A callback is only
+ * trusted if the signature matches and the nonce is the one stored for that request.
+ *
+ * Replays: replay-webhook-event re-sends a stored event with the service role key and
+ * an x-webhook-replay header; those requests skip verification and deduplication.
+ *
+ * A missing secret fails closed: the callback is refused (misconfigured) rather than
+ * trusted, so the webhook answers 500 and the provider retries once it is configured.
+ */
+
+type VerificationResult = { ok: boolean; reason?: string; misconfigured?: boolean };
+
+const encoder = new TextEncoder();
+
+/** Constant-time string comparison */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < Math.max(aBytes.length, bBytes.length); i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Check the IntaSend challenge against INTASEND_WEBHOOK_CHALLENGE */
+export function verifyIntaSendChallenge(payload: Record<string, unknown>): VerificationResult {
+  const expected = Deno.env.get('INTASEND_WEBHOOK_CHALLENGE');
+  if (!expected) {
+    console.error('[Webhook Security] INTASEND_WEBHOOK_CHALLENGE not set - refusing IntaSend webhook');
+    return { ok: false, reason: 'INTASEND_WEBHOOK_CHALLENGE not configured', misconfigured: true };
+  }
+
+  const challenge = typeof payload.challenge === 'string' ? payload.challenge : '';
+  if (!challenge || !timingSafeEqual(challenge, expected)) {
+    return { ok: false, reason: 'Invalid IntaSend challenge' };
+  }
+  return { ok: true };
+}
+
+/**
+ * Build the per-request callback URL for an STK push.
+ * Store the returned token with the payment so the callback can be matched to it.
+ * Throws without MPESA_CALLBACK_SECRET - the callback would be refused, so the buyer
+ * must not be asked to pay.
+ */
+export async function signMpesaCallbackUrl(baseUrl: string): Promise<{ url: string; token: string }> {
+  const secret = Deno.env.get('MPESA_CALLBACK_SECRET');
+  if (!secret) {
+    console.error('[Webhook Security] MPESA_CALLBACK_SECRET not set - cannot sign the M-Pesa callback URL');
+    throw new Error('M-Pesa payments are not configured');
+  }
+
+  const token = crypto.randomUUID();
+  const sig = await hmacHex(secret, token);
+  const url = new URL(baseUrl);
+  url.searchParams.set('token', token);
+  url.searchParams.set('sig', sig);
+  return { url: url.toString(), token };
+}
+
+/**
+ * Check the token/signature on an incoming Daraja callback URL.
+ * Returns the nonce so the caller can compare it with the one stored for the request.
+ */
+export async function verifyMpesaCallback(req: Request): Promise<VerificationResult & { token: string | null }> {
+  const secret = Deno.env.get('MPESA_CALLBACK_SECRET');
+  const params = new URL(req.url).searchParams;
+  const token = params.get('token');
+  const sig = params.get('sig');
+
+  if (!secret) {
+    console.error('[Webhook Security] MPESA_CALLBACK_SECRET not set - refusing M-Pesa callback');
+    return { ok: false, token, reason: 'MPESA_CALLBACK_SECRET not configured', misconfigured: true };
+  }
+
+  if (!token || !sig) {
+    return { ok: false, token: null, reason: 'Missing callback token' };
+  }
+
+  const expected = await hmacHex(secret, token);
+  if (!timingSafeEqual(sig, expected)) {
+    return { ok: false, token, reason: 'Invalid callback signature' };
+  }
+  return { ok: true, token };
+}
+
+/**
+ * Optional source check against Safaricom's published callback IPs
+ * (comma-separated in MPESA_ALLOWED_IPS).
+ */
+export function verifyMpesaSourceIp(req: Request): VerificationResult {
+  const allowed = (Deno.env.get('MPESA_ALLOWED_IPS') ?? '')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  if (allowed.length === 0) return { ok: true };
+
+  const sourceIp = (req.headers.get('x-forwarded-for') ?? '').split(',')[0].trim();
+  if (!allowed.includes(sourceIp)) {
+    return { ok: false, reason: `Callback from unexpected IP ${sourceIp || 'unknown'}` };
+  }
+  return { ok: true };
+}
+
+/**
+ * Webhook event ID being replayed by an admin, or null for a normal delivery.
+ * Only honoured when the request is authenticated with the service role key.
+ */
+export function getReplayEventId(req: Request): string | null {
+  const eventId = req.headers.get('x-webhook-replay');
+  if (!eventId) return null;
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+  if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+    console.warn('[Webhook Security] Ignoring x-webhook-replay header without service role auth');
+    return null;
+  }
+  return eventId;
+}
@@ -0,0 +1,180 @@
+/**
+ * Abandoned Cart Reminders
+ *
+ * Reminds signed-in buyers about a synced cart they stopped touching: web push, email
+ * and an in-app notification, once per cart change.
+ *
+ * - Hourly (pg_cron): {}
+ * - ABANDONED_CART_DELAY_HOURS: how long a cart must sit untouched (default 24)
+ *
+ * Lines are re-checked with validate_cart() so the reminder shows current prices and
+ * leaves out anything that has sold out; carts with nothing left to buy are skipped.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+type CartLine = {
+    productId: string;
+    name: string;
+    priceKsh: number;
+    imageUrl?: string | null;
+    quantity: number;
+    size?: string;
+    color?: string;
+    variantId?: string | null;
+};
+
+type ClaimedCart = {
+    user_id: string;
+    items: CartLine[];
+    updated_at: string;
+};
+
+type LineCheck = {
+    line_no: number;
+    status: "ok" | "unavailable" | "sold_out" | "option_sold_out" | "low_stock";
+    unit_price: number;
+    available: number;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+    const delayHours = parseInt(Deno.env.get("ABANDONED_CART_DELAY_HOURS") ?? "", 10) || 24;
+
+    try {
+        const { data, error } = await supabase.rpc("claim_abandoned_carts", { p_delay_hours: delayHours });
+        if (error) throw error;
+
+        const carts = (data ?? []) as ClaimedCart[];
+        let reminded = 0;
+        let emailed = 0;
+
+        for (const cart of carts) {
+            try {
+                const { data: checks, error: checkError } = await supabase.rpc("validate_cart", {
+                    p_items: cart.items.map((line) => ({
+                        product_id: line.productId,
+                        variant_id: line.variantId ?? null,
+                        size: line.size ?? null,
+                        color: line.color ?? null,
+                        quantity: line.quantity,
+                    })),
+                });
+                if (checkError) throw checkError;
+
+                const byLine = new Map(((checks ?? []) as LineCheck[]).map((check) => [check.line_no, check]));
+                const changes: string[] = [];
+                const items = cart.items.flatMap((line, index) => {
+                    const check = byLine.get(index);
+                    if (!check || check.status === "unavailable" || check.status === "sold_out" || check.status === "option_sold_out") {
+                        return [];
+                    }
+                    const price = Number(check.unit_price);
+                    if (price < line.priceKsh) {
+                        changes.push(`Good news: ${line.name} is now KES ${price.toLocaleString()} (was KES ${line.priceKsh.toLocaleString()}).`);
+                    }
+                    if (check.status === "low_stock") {
+                        changes.push(`Only ${check.available} left of ${line.name}.`);
+                    }
+                    return [{
+                        name: line.name,
+                        image: line.imageUrl ?? null,
+                        size: line.size ?? null,
+                        price,
+                        quantity: Math.min(line.quantity, check.available),
+                    }];
+                });
+
+                // Everything sold out meanwhile: nothing worth reminding about
+                if (items.length === 0) continue;
+
+                const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+                const message = items.length === 1
+                    ? `${items[0].name} is still in your cart. Check out before it's gone.`
+                    : `${items.length} items are still in your cart (KES ${subtotal.toLocaleString()}). Check out before they're gone.`;
+
+                await supabase.from("notifications").insert({
+                    user_id: cart.user_id,
+                    type: "abandoned_cart",
+                    title: "Your cart is waiting",
+                    message,
+                    related_id: null,
+                });
+
+                await supabase.functions
+                    .invoke("send-push-notification", {
+                        body: {
+                            userId: cart.user_id,
+                            title: "🛒 Your cart is waiting",
+                            body: message,
+                            url: "/cart",
+                            tag: "abandoned-cart",
+                        },
+                    })
+                    .catch((err: Error) => console.log("[AbandonedCartReminders] Push notification failed (non-critical):", err));
+
+                const { data: userData } = await supabase.auth.admin.getUserById(cart.user_id);
+                const email = userData?.user?.email;
+                if (email) {
+                    const { data: profile } = await supabase
+                        .from("profiles")
+                        .select("full_name")
+                        .eq("id", cart.user_id)
+                        .maybeSingle();
+
+                    const result = await sendEmail({
+                        to: email,
+                        subject: items.length === 1
+                            ? `🛒 ${items[0].name} is still in your cart`
+                            : "🛒 You left some shoes in your cart",
+                        html: emailTemplates.abandonedCart({
+                            customerName: profile?.full_name || "there",
+                            items,
+                            changes,
+                            subtotal,
+                            cartUrl: `${SITE_URL}/cart`,
+                        }),
+                    });
+                    if (result.success) emailed++;
+                }
+                reminded++;
+            } catch (error) {
+                // Already claimed; a failed reminder is logged rather than resent
+                console.error(`[AbandonedCartReminders] Failed to remind ${cart.user_id}:`, error);
+            }
+        }
+
+        console.log(`[AbandonedCartReminders] ${carts.length} carts idle ${delayHours}h+, ${reminded} reminded, ${emailed} emails`);
+
+        return jsonResponse({ success: true, carts: carts.length, reminded, emailed });
+    } catch (error) {
+        console.error("[AbandonedCartReminders] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
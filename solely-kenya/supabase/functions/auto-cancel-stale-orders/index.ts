@@ -2,7 +2,8 @@
  * Auto-Cancel Stale Orders
  * 
  * This scheduled Edge Function runs periodically to:
- * 1. Find orders pending_vendor_confirmation for > 48 hours
+ * 1. Find orders pending_vendor_confirmation past their response deadline
+ *    (orders.response_deadline_at, from sla_settings; paused deadlines are skipped)
  * 2. Cancel them automatically
  * 3. Process IntaSend refund to customer
  * 4. Notify the customer (refund confirmation)
@@ -17,6 +18,7 @@
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -36,8 +38,8 @@ Deno.serve(async (req: Request) => {
 
         // Find orders that are:
         // 1. Status = pending_vendor_confirmation
-        // 2. Created more than 48 hours ago
-        const cutoffTime = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
+        // 2. Past their response deadline, and not paused by an admin
+        const now = new Date().toISOString();
 
         const { data: staleOrders, error: fetchError } = await supabase
             .from("orders")
@@ -51,7 +53,8 @@ Deno.serve(async (req: Request) => {
         order_shipping_details(recipient_name, phone, email)
       `)
             .eq("status", "pending_vendor_confirmation")
-            .lt("created_at", cutoffTime);
+            .lte("response_deadline_at", now)
+            .is("sla_paused_at", null);
 
         if (fetchError) {
             console.error("Error fetching stale orders:", fetchError);
@@ -80,19 +83,19 @@ Deno.serve(async (req: Request) => {
         for (const order of staleOrders) {
             try {
                 // 1. Cancel the order
-                const { error: cancelError } = await supabase
+                try {
+                    await transitionOrderStatus(supabase, order.id, "cancelled_by_vendor", {
+                        reason: "No vendor response by the response deadline",
+                    });
+                } catch (error) {
+                    throw new Error(`Failed to cancel order: ${error instanceof Error ? error.message : error}`);
+                }
+
+                await supabase
                     .from("orders")
-                    .update({
-                        status: "cancelled_by_vendor",
-                        cancelled_at: new Date().toISOString(),
-                        vendor_notes: "Auto-cancelled: No vendor response within 48 hours",
-                    })
+                    .update({ vendor_notes: "Auto-cancelled: No vendor response by the response deadline" })
                     .eq("id", order.id);
 
-                if (cancelError) {
-                    throw new Error(`Failed to cancel order: ${cancelError.message}`);
-                }
-
                 // 2. Process actual IntaSend refund (this also updates escrow)
                 const refundResponse = await fetch(`${supabaseUrl}/functions/v1/process-refund`, {
                     method: 'POST',
@@ -102,7 +105,7 @@ Deno.serve(async (req: Request) => {
                     },
                     body: JSON.stringify({
                         orderId: order.id,
-                        reason: "Vendor did not respond within 48 hours",
+                        reason: "Vendor did not respond by the response deadline",
                     }),
                 });
 
@@ -2,17 +2,21 @@
  * Auto-Dispute Undelivered Orders
  * 
  * This scheduled Edge Function runs periodically to:
- * 1. Find orders confirmed by vendor but not marked "arrived" within 5 days
+ * 1. Find accepted/shipped orders past their delivery deadline (orders.delivery_deadline_at,
+ *    stamped on acceptance from sla_settings; pickup orders have none by default)
  * 2. Automatically raise a dispute for admin review
  * 3. Notify both buyer and vendor
  * 
+ * Orders whose deadline an admin has paused are skipped.
+ *
  * Schedule: Run every hour via Supabase cron or external scheduler
- * 
+ *
  * Note: Unlike the old auto-refund, this creates a dispute for admin review
  * because the buyer might be okay with delayed delivery.
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -30,10 +34,8 @@ Deno.serve(async (req: Request) => {
         const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-        // Find orders that are:
-        // 1. Status = vendor_confirmed, processing, or accepted (confirmed but not arrived)
-        // 2. Confirmed more than 5 days ago
-        const cutoffTime = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString();
+        // Confirmed but not arrived, past the delivery deadline and not paused
+        const now = new Date().toISOString();
 
         const { data: undeliveredOrders, error: fetchError } = await supabase
             .from("orders")
@@ -43,11 +45,13 @@ Deno.serve(async (req: Request) => {
                 customer_id,
                 total_ksh,
                 created_at,
+                delivery_deadline_at,
                 order_items(product_name, quantity),
                 order_shipping_details(recipient_name, phone, email, delivery_type)
             `)
-            .in("status", ["vendor_confirmed", "processing", "accepted", "pending_shipment", "confirmed"])
-            .lt("created_at", cutoffTime);
+            .in("status", ["accepted", "shipped"])
+            .lte("delivery_deadline_at", now)
+            .is("sla_paused_at", null);
 
         if (fetchError) {
             console.error("Error fetching undelivered orders:", fetchError);
@@ -75,26 +79,20 @@ Deno.serve(async (req: Request) => {
 
         for (const order of undeliveredOrders) {
             try {
-                // Skip pickup orders - they have no time limit
                 const shippingDetails = order.order_shipping_details?.[0];
-                if (shippingDetails?.delivery_type === 'pickup') {
-                    console.log(`Skipping pickup order ${order.id} - no time limits for pickup`);
-                    continue;
-                }
 
                 // 1. Update order status to disputed
-                const { error: disputeUpdateError } = await supabase
+                await transitionOrderStatus(supabase, order.id, "disputed", {
+                    reason: "Not marked as arrived by the delivery deadline",
+                });
+
+                await supabase
                     .from("orders")
                     .update({
-                        status: "disputed",
-                        vendor_notes: "Auto-disputed: Order not marked as arrived within 5 days. Admin will follow up with vendor.",
+                        vendor_notes: "Auto-disputed: Order not marked as arrived by the delivery deadline. Admin will follow up with vendor.",
                     })
                     .eq("id", order.id);
 
-                if (disputeUpdateError) {
-                    throw new Error(`Failed to update order status: ${disputeUpdateError.message}`);
-                }
-
                 // 2. Create a dispute record
                 const { error: disputeError } = await supabase
                     .from("disputes")
@@ -102,7 +100,7 @@ Deno.serve(async (req: Request) => {
                         order_id: order.id,
                         raised_by: "system",
                         reason: "delivery_delay",
-                        description: "Order was not marked as arrived within 5 days of confirmation. System auto-raised this dispute for admin review.",
+                        description: "Order was not marked as arrived by its delivery deadline. System auto-raised this dispute for admin review.",
                         status: "open",
                     });
 
@@ -125,7 +123,7 @@ Deno.serve(async (req: Request) => {
                             html: `
                                 <h2>Your Order is Under Review</h2>
                                 <p>Dear ${shippingDetails.recipient_name || 'Customer'},</p>
-                                <p>Your order has not been marked as delivered within our 5-day delivery window.</p>
+                                <p>Your order has not been marked as delivered within our delivery window.</p>
                                 <p>We have automatically raised this for admin review. Our team will contact the vendor to investigate the delay.</p>
                                 <p>Your payment of <strong>KES ${order.total_ksh?.toLocaleString()}</strong> remains safely held in escrow until this is resolved.</p>
                                 <p>If you have already received your order, please log in to Solely and confirm delivery.</p>
@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { recordCommission } from '../_shared/commission.ts';
+import { postEscrowRelease } from '../_shared/ledger.ts';
+import { transitionOrderStatus } from '../_shared/order-status.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,7 +21,7 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Find orders that are arrived and have passed the auto-release date
+    // Find orders that are arrived and have passed the auto-release date, unless an admin paused it
     const now = new Date().toISOString();
     const { data: ordersToRelease, error: ordersError } = await supabase
       .from('orders')
@@ -28,12 +31,18 @@ serve(async (req) => {
         status,
         shipped_at,
         auto_release_at,
+        total_ksh,
+        subtotal_ksh,
         payout_amount,
+        commission_rate,
         commission_amount,
+        commission_rule_id,
+        commission_breakdown,
         escrow_transactions(id, status, release_amount, commission_amount)
       `)
       .eq('status', 'arrived')
       .lte('auto_release_at', now)
+      .is('sla_paused_at', null)
       .is('escrow_transactions.status', 'held');
 
     if (ordersError) {
@@ -57,29 +66,36 @@ serve(async (req) => {
           continue;
         }
 
-        // Update escrow status to released
-        const { error: escrowError } = await supabase
+        // Claim the escrow first so a concurrent release cannot pay out twice
+        const { data: released, error: escrowError } = await supabase
           .from('escrow_transactions')
           .update({
             status: 'released',
             released_at: now,
           })
-          .eq('id', escrow.id);
+          .eq('id', escrow.id)
+          .eq('status', 'held')
+          .select('id');
 
         if (escrowError) {
           throw escrowError;
         }
 
-        // Update order status to completed
-        const { error: orderError } = await supabase
-          .from('orders')
-          .update({
-            status: 'completed',
-          })
-          .eq('id', order.id);
+        if (!released || released.length === 0) {
+          continue; // released concurrently
+        }
 
-        if (orderError) {
-          throw orderError;
+        // Complete the order - if the move is refused, the escrow goes back to held
+        try {
+          await transitionOrderStatus(supabase, order.id, 'completed', {
+            reason: 'Auto-released after the buyer review window',
+          });
+        } catch (transitionError) {
+          await supabase
+            .from('escrow_transactions')
+            .update({ status: 'held', released_at: null })
+            .eq('id', escrow.id);
+          throw transitionError;
         }
 
         // Create payout record
@@ -99,20 +115,29 @@ serve(async (req) => {
         }
 
         // Record commission in ledger
-        const { error: commissionError } = await supabase
-          .from('commission_ledger')
-          .insert({
-            order_id: order.id,
-            vendor_id: order.vendor_id,
-            commission_rate: 11, // 11% commission
-            commission_amount: escrow.commission_amount,
-            notes: 'Auto-released 24 hours after marked arrived (no buyer action)',
-          });
+        const { error: commissionError } = await recordCommission(
+          supabase,
+          order,
+          'Auto-released after the buyer review window (no buyer action)',
+          escrow.commission_amount
+        );
 
         if (commissionError) {
           console.error(`Failed to record commission for order ${order.id}:`, commissionError);
         }
 
+        // Post the release to the ledger - this is what credits the vendor's balance
+        const { error: ledgerError } = await postEscrowRelease(
+          supabase,
+          order,
+          escrow,
+          'Auto-released after arrival (no buyer action)'
+        );
+
+        if (ledgerError) {
+          console.error(`Failed to post escrow release for order ${order.id}:`, ledgerError);
+        }
+
         // Transfer funds to vendor's IntaSend wallet (non-blocking)
         supabase.functions.invoke('transfer-to-vendor-wallet', {
           body: { order_id: order.id }
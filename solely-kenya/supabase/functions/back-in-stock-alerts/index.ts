@@ -0,0 +1,130 @@
+/**
+ * Back In Stock Alerts
+ *
+ * Tells buyers when a sold-out product on their wishlist is available again: web push,
+ * email and an in-app notification per wishlist item.
+ *
+ * - Restock (track_wishlist_restock trigger via pg_net): { productId }
+ * - Hourly (pg_cron): {} - every restocked item, in case the immediate call failed
+ *
+ * claim_back_in_stock_alerts() clears the items' restock flags before anything is sent,
+ * so concurrent runs never message the same item twice.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+type ClaimedItem = {
+    item_id: string;
+    user_id: string;
+    product_id: string;
+    product_name: string;
+    brand: string | null;
+    image: string | null;
+    price_ksh: number;
+    size: string | null;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const productId: string | null = body.productId ?? null;
+
+        const { data, error } = await supabase.rpc("claim_back_in_stock_alerts", { p_product_id: productId });
+        if (error) throw error;
+
+        const items = (data ?? []) as ClaimedItem[];
+        let emailed = 0;
+
+        for (const item of items) {
+            const name = item.brand && !item.product_name.toLowerCase().startsWith(item.brand.toLowerCase())
+                ? `${item.brand} ${item.product_name}`
+                : item.product_name;
+            const message = `${name} from your wishlist is available again at KES ${Number(item.price_ksh).toLocaleString()}`;
+
+            try {
+                await supabase.from("notifications").insert({
+                    user_id: item.user_id,
+                    type: "back_in_stock",
+                    title: "Back in stock",
+                    message,
+                    related_id: item.product_id,
+                });
+
+                await supabase.functions
+                    .invoke("send-push-notification", {
+                        body: {
+                            userId: item.user_id,
+                            title: "❤️ Back in stock",
+                            body: message,
+                            url: `/product/${item.product_id}`,
+                            tag: `back-in-stock-${item.product_id}`,
+                        },
+                    })
+                    .catch((err: Error) => console.log("[BackInStockAlerts] Push notification failed (non-critical):", err));
+
+                const { data: userData } = await supabase.auth.admin.getUserById(item.user_id);
+                const email = userData?.user?.email;
+                if (email) {
+                    const { data: profile } = await supabase
+                        .from("profiles")
+                        .select("full_name")
+                        .eq("id", item.user_id)
+                        .maybeSingle();
+
+                    const result = await sendEmail({
+                        to: email,
+                        subject: `❤️ ${name} is back in stock`,
+                        html: emailTemplates.backInStock({
+                            customerName: profile?.full_name || "there",
+                            productName: name,
+                            price: Number(item.price_ksh),
+                            size: item.size,
+                            image: item.image,
+                            productUrl: `${SITE_URL}/product/${item.product_id}`,
+                            wishlistUrl: `${SITE_URL}/wishlist`,
+                        }),
+                    });
+                    if (result.success) emailed++;
+                }
+            } catch (error) {
+                // Already claimed; a failed message is logged rather than resent
+                console.error(`[BackInStockAlerts] Failed to notify wishlist item ${item.item_id}:`, error);
+            }
+        }
+
+        console.log(`[BackInStockAlerts] ${productId ? `Product ${productId}` : "Sweep"}: ${items.length} items, ${emailed} emails`);
+
+        return jsonResponse({ success: true, items: items.length, emailed });
+    } catch (error) {
+        console.error("[BackInStockAlerts] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
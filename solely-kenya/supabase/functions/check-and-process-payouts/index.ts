@@ -6,6 +6,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { postJournalEntry } from "../_shared/ledger.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -145,20 +146,25 @@ serve(async (req: Request) => {
                     payoutId = payout?.id;
                 }
 
-                // 5. Update Balance
-                const { error: updateError } = await supabase
-                    .from('vendor_balances')
-                    .update({
-                        pending_balance: 0,
-                        total_paid_out: (vendorBalanceRec.total_paid_out || 0) + netPayout,
-                        last_payout_at: new Date().toISOString(),
-                        updated_at: new Date().toISOString(),
-                    })
-                    .eq('vendor_id', vendorId);
+                // 5. Post the payout - the vendor's balance is derived from the ledger.
+                // Sent from the settlement wallet; the fee comes out of the vendor's balance.
+                const trackingId = intasendResult.tracking_id || intasendResult.id || `auto-${Date.now()}`;
+                const { error: ledgerError } = await postJournalEntry(supabase, {
+                    type: 'payout',
+                    idempotencyKey: payoutId ? `payout:${payoutId}` : `auto_payout:${trackingId}`,
+                    payoutId,
+                    description: 'Automatic payout to vendor M-Pesa',
+                    metadata: { tracking_id: trackingId, fee: PAYOUT_FEE },
+                    lines: [
+                        { account: 'vendor_payable', vendor_id: vendorId, debit: balance },
+                        { account: 'buyer_funds', credit: netPayout, memo: 'Sent to M-Pesa' },
+                        { account: 'buyer_funds', credit: PAYOUT_FEE, memo: 'Payout fee (paid by vendor)' },
+                    ],
+                });
 
-                if (updateError) {
-                    console.error('Failed to update balance:', updateError);
-                    throw updateError;
+                if (ledgerError) {
+                    console.error('Failed to post payout to ledger:', ledgerError);
+                    throw ledgerError;
                 }
 
                 console.log(`[Auto-Payout Checker] Successfully processed payout for ${vendorId}`);
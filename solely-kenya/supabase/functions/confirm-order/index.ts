@@ -5,10 +5,14 @@
  * 1. Updates order status to 'completed'
  * 2. Updates escrow transaction to 'released'
  * 3. Creates a PAYOUT record for the vendor (Critical for accessing funds)
+ * 4. Posts the escrow release to the ledger (vendor payable + commission revenue)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getOrderCommission, recordCommission } from "../_shared/commission.ts";
+import { postEscrowRelease } from "../_shared/ledger.ts";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -66,11 +70,15 @@ serve(async (req: Request) => {
         // We do this sequentially since Supabase HTTP clients don't support SQL transactions easily in JS
         // But we use the service role key so RLS won't block us
 
-        // A. Update Order
+        // A. Update Order (the transition rejects orders that are not shipped/arrived/delivered)
+        await transitionOrderStatus(supabase, orderId, "completed", {
+            reason: "Buyer confirmed receipt",
+            metadata: { confirmed_by: userId },
+        });
+
         const { error: updateOrderError } = await supabase
             .from("orders")
             .update({
-                status: "completed",
                 buyer_confirmed: true,
                 confirmed_at: new Date().toISOString()
             })
@@ -90,12 +98,9 @@ serve(async (req: Request) => {
         if (updateEscrowError) console.error('Escrow update failed (non-critical if order is completed):', updateEscrowError);
 
         // C. Create Payout Record (CRITICAL MISSING STEP)
-        // Calculate 95% of total order value (assuming 5% commission) - or use stored commission
-        // The previous code in `VendorOrders.tsx` didn't seem to set `payout_amount` on creation?
-        // Let's check if `payout_amount` exists on the order.
-
-        const payoutAmount = order.payout_amount ?? (order.total_ksh * 0.90);
-        const commissionAmount = order.commission_amount ?? (order.total_ksh * 0.10);
+        // Commission and payout are fixed at order creation from the matching commission rule
+        const { amount: commissionAmount } = getOrderCommission(order);
+        const payoutAmount = order.payout_amount ?? (order.total_ksh - commissionAmount);
 
         console.log(`Creating payout: vendor=${order.vendor_id}, order=${orderId}, amount=${payoutAmount}, commission=${commissionAmount}`);
 
@@ -118,15 +123,7 @@ serve(async (req: Request) => {
         }
 
         // D. Record commission in ledger (for admin dashboard tracking)
-        const { error: commissionError } = await supabase
-            .from("commission_ledger")
-            .insert({
-                order_id: orderId,
-                vendor_id: order.vendor_id,
-                commission_rate: 10, // 10% commission
-                commission_amount: commissionAmount,
-                notes: "Buyer confirmed delivery",
-            });
+        const { error: commissionError } = await recordCommission(supabase, order, "Buyer confirmed delivery");
 
         if (commissionError) {
             console.error("Failed to record commission:", commissionError);
@@ -135,6 +132,22 @@ serve(async (req: Request) => {
             console.log(`Commission recorded: ${commissionAmount} KES`);
         }
 
+        // E. Post the release to the ledger - this is what credits the vendor's balance
+        const escrow = order.escrow_transactions?.[0];
+        const { error: ledgerError } = await postEscrowRelease(
+            supabase,
+            order,
+            {
+                release_amount: escrow?.release_amount ?? payoutAmount,
+                commission_amount: escrow?.commission_amount ?? commissionAmount,
+            },
+            "Buyer confirmed delivery"
+        );
+
+        if (ledgerError) {
+            console.error("Failed to post escrow release to ledger:", ledgerError);
+        }
+
         // F. Transfer funds to vendor's IntaSend wallet (non-blocking)
         // This moves the vendor's 89% from the settlement wallet to their own wallet
         console.log(`Initiating fund transfer to vendor wallet for order ${orderId}`);
@@ -150,45 +163,7 @@ serve(async (req: Request) => {
             console.error('Fund transfer exception:', err);
         });
 
-        // E. Decrement Stock for each order item
-        const { data: orderItems, error: itemsError } = await supabase
-            .from("order_items")
-            .select("product_id, quantity")
-            .eq("order_id", orderId);
-
-        if (itemsError) {
-            console.error("Failed to fetch order items for stock update:", itemsError);
-        } else if (orderItems && orderItems.length > 0) {
-            console.log(`Updating stock for ${orderItems.length} items`);
-            for (const item of orderItems) {
-                // Get current stock
-                const { data: product, error: productError } = await supabase
-                    .from("products")
-                    .select("stock")
-                    .eq("id", item.product_id)
-                    .single();
-
-                if (productError || !product) {
-                    console.error(`Failed to fetch product ${item.product_id} for stock update:`, productError);
-                    continue;
-                }
-
-                // Only update if stock is tracked (not null)
-                if (product.stock !== null && typeof product.stock === "number") {
-                    const newStock = Math.max(0, product.stock - item.quantity);
-                    const { error: updateError } = await supabase
-                        .from("products")
-                        .update({ stock: newStock })
-                        .eq("id", item.product_id);
-
-                    if (updateError) {
-                        console.error(`Failed to update stock for product ${item.product_id}:`, updateError);
-                    } else {
-                        console.log(`Stock updated for product ${item.product_id}: ${product.stock} -> ${newStock}`);
-                    }
-                }
-            }
-        }
+        // Stock was deducted by trigger_reduce_stock when the order's payment was captured
 
         // D. Add Rating (Optional)
         if (rating && rating > 0) {
@@ -10,45 +10,49 @@ const corsHeaders = {
 type CartItem = {
   productId: string;
   quantity: number;
+  variantId?: string | null;
+  size?: string | null;
+  color?: string | null;
 };
 
 type ShippingDetails = {
   recipientName: string;
   phone: string;
   email?: string;
-  addressLine1: string;
+  addressLine1?: string;
   addressLine2?: string;
-  city: string;
+  city?: string;
   county?: string;
   postalCode?: string;
-  country?: string;
   deliveryNotes?: string;
-  shippingFeeKsh?: number;
+  gpsLatitude?: number | null;
+  gpsLongitude?: number | null;
 };
 
 type RequestPayload = {
   items: CartItem[];
   shipping: ShippingDetails;
-  paymentGateway: "mpesa" | "card" | "paypal" | "flutterwave";
-  paymentMetadata?: Record<string, unknown>;
+  deliveryType?: "delivery" | "pickup";
+  paymentGateway: "intasend" | "mpesa";
 };
 
+/**
+ * Creates the buyer's orders - the only way orders get created.
+ * Everything that affects money (unit prices, variant stock, delivery fees, commission,
+ * totals) is recomputed by the create_checkout_orders RPC inside one transaction, so
+ * the client cannot tamper with totals and a failure never leaves partial orders.
+ */
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   const authHeader = req.headers.get("Authorization") ?? "";
+  // Plain service-role client: forwarding the buyer's JWT would run the RPC as the
+  // buyer, who is not allowed to execute create_checkout_orders
   const supabase = createClient(
     Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    {
-      global: {
-        headers: {
-          Authorization: authHeader,
-        },
-      },
-    }
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
   );
 
   try {
@@ -78,176 +82,68 @@ serve(async (req) => {
       });
     }
 
-    const productIds = body.items.map((item) => item.productId);
-    const { data: products, error: productsError } = await supabase
-      .from("products")
-      .select("id, vendor_id, name, price_ksh, stock, images, brand")
-      .in("id", productIds);
-
-    if (productsError || !products || products.length !== productIds.length) {
-      throw new Error("Failed to load products for checkout");
-    }
-
-    const vendorId = products[0].vendor_id;
-    const uniqueVendorCount = new Set(products.map((p) => p.vendor_id)).size;
-    if (uniqueVendorCount > 1) {
-      throw new Error("Checkout currently supports items from one vendor at a time");
+    const shipping = body.shipping;
+    if (!shipping?.recipientName || !shipping?.phone) {
+      throw new Error("Recipient name and phone number are required");
     }
 
-    const commissionRate = 10;
-
-    let subtotal = 0;
-    const itemPayload = body.items.map((item) => {
-      const product = products.find((p) => p.id === item.productId);
-      if (!product) {
-        throw new Error("Product not found");
-      }
-      if (typeof product.price_ksh !== "number") {
-        throw new Error("Invalid product pricing");
-      }
-      if (product.stock !== null && typeof product.stock === "number" && product.stock < item.quantity) {
-        throw new Error(`Insufficient stock for ${product.name}`);
-      }
-
-      const lineTotal = product.price_ksh * item.quantity;
-      subtotal += lineTotal;
-
-      return {
-        order_id: "", // placeholder, set later
-        product_id: product.id,
-        product_name: product.name,
-        product_snapshot: {
-          brand: product.brand,
-          images: product.images,
-          price_ksh: product.price_ksh,
-        },
+    const { data: result, error: rpcError } = await supabase.rpc("create_checkout_orders", {
+      p_customer_id: user.id,
+      p_items: body.items.map((item) => ({
+        product_id: item.productId,
+        variant_id: item.variantId ?? null,
+        size: item.size ?? null,
+        color: item.color ?? null,
         quantity: item.quantity,
-        unit_price_ksh: product.price_ksh,
-        line_total_ksh: lineTotal,
-      };
-    });
-
-    const shippingFee = body.shipping.shippingFeeKsh ?? 0;
-    const subtotalRounded = Number(subtotal.toFixed(2));
-    const total = Number((subtotalRounded + shippingFee).toFixed(2));
-    const commissionAmount = Number((subtotalRounded * (commissionRate / 100)).toFixed(2));
-    const payoutAmount = Number((total - commissionAmount).toFixed(2));
-
-    let orderId: string | null = null;
-    let paymentId: string | null = null;
-
-    try {
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          customer_id: user.id,
-          vendor_id: vendorId,
-          subtotal_ksh: subtotalRounded,
-          shipping_fee_ksh: shippingFee,
-          total_ksh: total,
-          commission_rate: commissionRate,
-          commission_amount: commissionAmount,
-          payout_amount: payoutAmount,
-          status: "pending_vendor_confirmation",
-        })
-        .select()
-        .single();
-
-      if (orderError || !order) {
-        throw new Error(orderError?.message ?? "Failed to create order");
-      }
-
-      orderId = order.id;
-
-      const itemsToInsert = itemPayload.map((item) => ({
-        ...item,
-        order_id: order.id,
-      }));
-
-      const { error: itemsError } = await supabase.from("order_items").insert(itemsToInsert);
-      if (itemsError) {
-        throw new Error(itemsError.message ?? "Failed to save order items");
-      }
-
-      const shipping = body.shipping;
-      const { error: shippingError } = await supabase.from("order_shipping_details").insert({
-        order_id: order.id,
+      })),
+      p_shipping: {
         recipient_name: shipping.recipientName,
         phone: shipping.phone,
         email: shipping.email ?? null,
-        address_line1: shipping.addressLine1,
+        address_line1: shipping.addressLine1 ?? null,
         address_line2: shipping.addressLine2 ?? null,
-        city: shipping.city,
+        city: shipping.city ?? null,
         county: shipping.county ?? null,
         postal_code: shipping.postalCode ?? null,
-        country: shipping.country ?? "Kenya",
         delivery_notes: shipping.deliveryNotes ?? null,
-      });
-
-      if (shippingError) {
-        throw new Error(shippingError.message ?? "Failed to save shipping details");
-      }
-
-      const { data: payment, error: paymentError } = await supabase
-        .from("payments")
-        .insert({
-          order_id: order.id,
-          gateway: body.paymentGateway,
-          status: "pending",
-          amount_ksh: total,
-          currency: "KES",
-          metadata: body.paymentMetadata ?? null,
-        })
-        .select()
-        .single();
-
-      if (paymentError || !payment) {
-        throw new Error(paymentError?.message ?? "Failed to create payment record");
-      }
-
-      paymentId = payment.id;
-
-      const { error: escrowError } = await supabase.from("escrow_transactions").insert({
-        order_id: order.id,
-        payment_id: payment.id,
-        status: "held",
-        held_amount: total,
-        commission_amount: commissionAmount,
-        release_amount: payoutAmount,
-      });
+        gps_latitude: shipping.gpsLatitude ?? null,
+        gps_longitude: shipping.gpsLongitude ?? null,
+      },
+      p_delivery_type: body.deliveryType ?? "delivery",
+      p_gateway: body.paymentGateway ?? "intasend",
+      // Payment metadata is read by the payment callbacks, so it is never taken from the client
+      p_payment_metadata: { source: "checkout", delivery_type: body.deliveryType ?? "delivery" },
+    });
 
-      if (escrowError) {
-        throw new Error(escrowError.message ?? "Failed to initialize escrow");
-      }
-
-      return new Response(
-        JSON.stringify({
-          success: true,
-          orderId: order.id,
-          status: order.status,
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Order creation failed, rolling back", error);
-      if (paymentId) {
-        await supabase.from("payments").delete().eq("id", paymentId);
-      }
-      if (orderId) {
-        await supabase.from("order_items").delete().eq("order_id", orderId);
-        await supabase.from("order_shipping_details").delete().eq("order_id", orderId);
-        await supabase.from("orders").delete().eq("id", orderId);
-      }
-      throw error;
+    if (rpcError || !result) {
+      throw new Error(rpcError?.message ?? "Failed to create order");
     }
+
+    console.log(`[create-order] Created ${result.order_ids.length} order(s) for ${user.id}, total ${result.total_ksh}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checkoutSessionId: result.checkout_session_id,
+        orderIds: result.order_ids,
+        // Kept for single-vendor callers
+        orderId: result.order_ids[0],
+        subtotalKsh: result.subtotal_ksh,
+        shippingFeeKsh: result.shipping_fee_ksh,
+        totalKsh: result.total_ksh,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   } catch (error) {
     console.error("create-order error", error);
+    // 200 so the buyer sees the reason (out of stock, unavailable size...):
+    // functions.invoke drops the body of non-2xx responses
     return new Response(
       JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
       }),
-      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
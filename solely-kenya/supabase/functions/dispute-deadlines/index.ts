@@ -0,0 +1,164 @@
+/**
+ * Dispute Deadlines
+ *
+ * Keeps dispute conversations moving. When a dispute is waiting on the buyer or the
+ * vendor (disputes.awaiting_party), they have the dispute_response SLA to reply:
+ *
+ * - reminder: warn_before_hours ahead, the awaited party gets push, email and in-app
+ * - escalation: once the deadline passes the case goes to under_review, a note is added
+ *   to the thread and the assigned admin (or every admin, if unassigned) is alerted
+ *
+ * Schedule: every 15 minutes (pg_cron). claim_dispute_deadlines() stamps the dispute
+ * before anything is sent, so each reminder and escalation happens once.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+import { formatDeadline, formatTimeLeft } from "../_shared/deadlines.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+type ClaimedDeadline = {
+    kind: "reminder" | "escalation";
+    dispute_id: string;
+    order_id: string;
+    awaiting_party: "buyer" | "vendor";
+    response_due_at: string;
+    customer_id: string;
+    vendor_id: string;
+    assigned_to: string | null;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+// deno-lint-ignore no-explicit-any
+async function notifyUser(supabase: any, userId: string, title: string, message: string, url: string, disputeId: string) {
+    await supabase.from("notifications").insert({
+        user_id: userId,
+        type: "dispute_update",
+        title,
+        message,
+        related_id: disputeId,
+    });
+
+    await supabase.functions
+        .invoke("send-push-notification", {
+            body: { userId, title, body: message, url, tag: `dispute-${disputeId}` },
+        })
+        .catch((err: Error) => console.log("[DisputeDeadlines] Push notification failed (non-critical):", err));
+}
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+
+    try {
+        const { data, error } = await supabase.rpc("claim_dispute_deadlines");
+        if (error) throw error;
+
+        const deadlines = (data ?? []) as ClaimedDeadline[];
+        let reminders = 0;
+        let escalations = 0;
+
+        let adminIds: string[] | null = null;
+        const loadAdmins = async () => {
+            if (adminIds) return adminIds;
+            const { data: roles } = await supabase.from("user_roles").select("user_id").eq("role", "admin");
+            adminIds = (roles ?? []).map((r: { user_id: string }) => r.user_id);
+            return adminIds;
+        };
+
+        for (const item of deadlines) {
+            const orderRef = item.order_id.slice(0, 8);
+            const partyId = item.awaiting_party === "vendor" ? item.vendor_id : item.customer_id;
+            const partyPath = item.awaiting_party === "vendor" ? "/vendor/disputes" : "/orders";
+
+            try {
+                if (item.kind === "reminder") {
+                    const timeLeft = formatTimeLeft(item.response_due_at);
+                    const message = `Support is waiting for your reply on the dispute for order #${orderRef}. ${timeLeft} left.`;
+                    await notifyUser(supabase, partyId, "⏰ Reply to your dispute", message, partyPath, item.dispute_id);
+
+                    const { data: userData } = await supabase.auth.admin.getUserById(partyId);
+                    const email = userData?.user?.email;
+                    if (email) {
+                        const { data: profile } = await supabase
+                            .from("profiles")
+                            .select("full_name, store_name")
+                            .eq("id", partyId)
+                            .maybeSingle();
+
+                        await sendEmail({
+                            to: email,
+                            subject: `⏰ Reply needed - Dispute for Order #${orderRef}`,
+                            html: emailTemplates.slaDeadlineWarning({
+                                name: (item.awaiting_party === "vendor" ? profile?.store_name : null) || profile?.full_name || "there",
+                                orderId: orderRef,
+                                title: "Reply to your dispute",
+                                message: `Our support team is waiting for your reply on the dispute for order #${orderRef}.`,
+                                consequence: "If we don't hear from you in time, the case is escalated and may be decided on the information we already have.",
+                                deadline: formatDeadline(item.response_due_at),
+                                timeLeft,
+                                ctaLabel: "Reply Now",
+                                ctaUrl: `${SITE_URL}${partyPath}`,
+                            }),
+                        });
+                    }
+                    reminders++;
+                } else {
+                    const recipients = item.assigned_to ? [item.assigned_to] : await loadAdmins();
+                    for (const adminId of recipients) {
+                        await notifyUser(
+                            supabase,
+                            adminId,
+                            "🚨 Dispute escalated",
+                            `The ${item.awaiting_party} did not reply in time on the dispute for order #${orderRef}.`,
+                            "/admin/disputes",
+                            item.dispute_id
+                        );
+                    }
+
+                    await notifyUser(
+                        supabase,
+                        partyId,
+                        "Dispute escalated",
+                        `We didn't receive your reply on the dispute for order #${orderRef} in time, so it has been escalated to our support team.`,
+                        partyPath,
+                        item.dispute_id
+                    );
+                    escalations++;
+                }
+            } catch (error) {
+                // Already claimed; a failed notification is logged rather than resent
+                console.error(`[DisputeDeadlines] Failed to process ${item.kind} for dispute ${item.dispute_id}:`, error);
+            }
+        }
+
+        console.log(`[DisputeDeadlines] ${reminders} reminders, ${escalations} escalations`);
+
+        return jsonResponse({ success: true, reminders, escalations });
+    } catch (error) {
+        console.error("[DisputeDeadlines] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
@@ -70,6 +70,93 @@ function resolveImageUrl(
     return `${supabaseUrl}/storage/v1/object/public/product-images/${imageValue}`
 }
 
+// Embeds an image as a data URI; empty when it is missing, unreachable or too large (>3MB)
+async function fetchImageDataUri(imageUrl: string): Promise<string> {
+    if (!imageUrl) return ''
+    try {
+        const imgRes = await fetch(imageUrl)
+        if (!imgRes.ok) return ''
+        const imgBuf = await imgRes.arrayBuffer()
+        if (imgBuf.byteLength >= 3 * 1024 * 1024) return ''
+        const base64 = uint8ArrayToBase64(new Uint8Array(imgBuf))
+        const contentType = imgRes.headers.get('content-type') || 'image/jpeg'
+        return `data:${contentType};base64,${base64}`
+    } catch (e) {
+        console.error('Failed to fetch image:', imageUrl, e)
+        return ''
+    }
+}
+
+// Gold "S" logo and site URL along the bottom of every card
+function brandingBar() {
+    return {
+        type: 'div',
+        props: {
+            style: {
+                display: 'flex',
+                alignItems: 'center',
+                gap: '14px',
+                borderTop: '2px solid #f0f0f0',
+                paddingTop: '20px',
+            },
+            children: [
+                // Gold circle logo
+                {
+                    type: 'div',
+                    props: {
+                        style: {
+                            width: '42px',
+                            height: '42px',
+                            backgroundColor: BRAND_GOLD,
+                            borderRadius: '50%',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            color: 'white',
+                            fontSize: '22px',
+                            fontWeight: 700,
+                        },
+                        children: 'S',
+                    },
+                },
+                // Site URL
+                {
+                    type: 'div',
+                    props: {
+                        style: {
+                            display: 'flex',
+                            flexDirection: 'column',
+                        },
+                        children: [
+                            {
+                                type: 'div',
+                                props: {
+                                    style: {
+                                        fontSize: '20px',
+                                        fontWeight: 700,
+                                        color: '#333',
+                                    },
+                                    children: 'Sole-ly',
+                                },
+                            },
+                            {
+                                type: 'div',
+                                props: {
+                                    style: {
+                                        fontSize: '16px',
+                                        color: '#999',
+                                    },
+                                    children: 'solelyshoes.co.ke',
+                                },
+                            },
+                        ],
+                    },
+                },
+            ],
+        },
+    }
+}
+
 // ── Card Layout Builder ────────────────────────────────────────────
 function buildCard(product: {
     name: string
@@ -205,37 +292,124 @@ function buildCard(product: {
                                 },
                             },
                             // Bottom section: Branding bar
+                            brandingBar(),
+                        ],
+                    },
+                },
+            ],
+        },
+    }
+}
+
+// ── Storefront Card Builder ────────────────────────────────────────
+function buildStoreCard(store: {
+    name: string
+    location: string | null
+    rating: number | null
+    ratingCount: number
+    listings: number
+    minPrice: number | null
+    logoDataUri: string
+    bannerDataUri: string
+}) {
+    const { name, location, rating, ratingCount, listings, minPrice, logoDataUri, bannerDataUri } = store
+    const displayName = name.length > 32 ? name.substring(0, 32) + '…' : name
+    const details = [
+        location,
+        rating !== null ? `Rated ${rating.toFixed(1)} / 5 (${ratingCount})` : null,
+        listings > 0
+            ? `${listings} ${listings === 1 ? 'listing' : 'listings'}${minPrice !== null ? ` from KES ${formatPrice(minPrice)}` : ''}`
+            : null,
+    ].filter(Boolean) as string[]
+
+    return {
+        type: 'div',
+        props: {
+            style: {
+                display: 'flex',
+                flexDirection: 'column',
+                width: '100%',
+                height: '100%',
+                backgroundColor: '#ffffff',
+                fontFamily: 'Inter',
+            },
+            children: [
+                // ─── Top: Banner ───
+                bannerDataUri
+                    ? {
+                        type: 'img',
+                        props: {
+                            src: bannerDataUri,
+                            width: WIDTH,
+                            height: 250,
+                            style: { objectFit: 'cover' },
+                        },
+                    }
+                    : {
+                        type: 'div',
+                        props: {
+                            style: {
+                                display: 'flex',
+                                width: '100%',
+                                height: '250px',
+                                backgroundImage: `linear-gradient(90deg, ${BRAND_GOLD}, #f5f0d6)`,
+                            },
+                        },
+                    },
+
+                // ─── Bottom: Logo + Store Details ───
+                {
+                    type: 'div',
+                    props: {
+                        style: {
+                            display: 'flex',
+                            flex: 1,
+                            padding: '0 60px 35px 60px',
+                            gap: '40px',
+                        },
+                        children: [
                             {
                                 type: 'div',
                                 props: {
                                     style: {
                                         display: 'flex',
+                                        width: '200px',
+                                        height: '200px',
+                                        marginTop: '-100px',
+                                        borderRadius: '50%',
+                                        border: '8px solid #ffffff',
+                                        backgroundColor: '#f5f5f5',
                                         alignItems: 'center',
-                                        gap: '14px',
-                                        borderTop: '2px solid #f0f0f0',
-                                        paddingTop: '20px',
+                                        justifyContent: 'center',
+                                        overflow: 'hidden',
+                                        color: BRAND_GOLD,
+                                        fontSize: '80px',
+                                        fontWeight: 700,
                                     },
-                                    children: [
-                                        // Gold circle logo
-                                        {
-                                            type: 'div',
+                                    children: logoDataUri
+                                        ? {
+                                            type: 'img',
                                             props: {
-                                                style: {
-                                                    width: '42px',
-                                                    height: '42px',
-                                                    backgroundColor: BRAND_GOLD,
-                                                    borderRadius: '50%',
-                                                    display: 'flex',
-                                                    alignItems: 'center',
-                                                    justifyContent: 'center',
-                                                    color: 'white',
-                                                    fontSize: '22px',
-                                                    fontWeight: 700,
-                                                },
-                                                children: 'S',
+                                                src: logoDataUri,
+                                                width: 184,
+                                                height: 184,
+                                                style: { objectFit: 'cover' },
                                             },
-                                        },
-                                        // Site URL
+                                        }
+                                        : name.charAt(0).toUpperCase(),
+                                },
+                            },
+                            {
+                                type: 'div',
+                                props: {
+                                    style: {
+                                        display: 'flex',
+                                        flexDirection: 'column',
+                                        flex: 1,
+                                        paddingTop: '30px',
+                                        justifyContent: 'space-between',
+                                    },
+                                    children: [
                                         {
                                             type: 'div',
                                             props: {
@@ -248,26 +422,30 @@ function buildCard(product: {
                                                         type: 'div',
                                                         props: {
                                                             style: {
-                                                                fontSize: '20px',
+                                                                fontSize: '52px',
                                                                 fontWeight: 700,
-                                                                color: '#333',
+                                                                color: '#1a1a1a',
+                                                                lineHeight: 1.1,
+                                                                marginBottom: '16px',
                                                             },
-                                                            children: 'Sole-ly',
+                                                            children: displayName,
                                                         },
                                                     },
-                                                    {
+                                                    ...details.map((detail) => ({
                                                         type: 'div',
                                                         props: {
                                                             style: {
-                                                                fontSize: '16px',
-                                                                color: '#999',
+                                                                fontSize: '24px',
+                                                                color: '#666666',
+                                                                marginBottom: '6px',
                                                             },
-                                                            children: 'solelyshoes.co.ke',
+                                                            children: detail,
                                                         },
-                                                    },
+                                                    })),
                                                 ],
                                             },
                                         },
+                                        brandingBar(),
                                     ],
                                 },
                             },
@@ -279,7 +457,38 @@ function buildCard(product: {
     }
 }
 
+async function renderPng(element: ReturnType<typeof buildCard> | ReturnType<typeof buildStoreCard>): Promise<Response> {
+    // Initialize WASM modules (first call only)
+    await ensureInitialized()
+
+    // Generate SVG with Satori
+    const svg = await satori(element, {
+        width: WIDTH,
+        height: HEIGHT,
+        fonts: [
+            { name: 'Inter', data: fontRegular, weight: 400, style: 'normal' },
+            { name: 'Inter', data: fontBold, weight: 700, style: 'normal' },
+        ],
+    })
+
+    // Convert SVG → PNG with Resvg
+    const resvg = new Resvg(svg, {
+        fitTo: { mode: 'width', value: WIDTH },
+    })
+    const pngData = resvg.render()
+    const pngBuffer = pngData.asPng()
+
+    return new Response(pngBuffer, {
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'image/png',
+            'Cache-Control': 'public, max-age=86400, s-maxage=604800',
+        },
+    })
+}
+
 // ── Main Handler ───────────────────────────────────────────────────
+// ?id=<product id> renders a product card, ?store=<slug> a vendor storefront card
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response(null, { headers: corsHeaders })
@@ -288,19 +497,49 @@ Deno.serve(async (req) => {
     try {
         const url = new URL(req.url)
         const productId = url.searchParams.get('id')
+        const storeSlug = url.searchParams.get('store')
 
-        if (!productId) {
-            return new Response('Missing product ID', {
+        if (!productId && !storeSlug) {
+            return new Response('Missing product ID or store', {
                 status: 400,
                 headers: corsHeaders,
             })
         }
 
-        // Fetch product from Supabase
         const supabaseUrl = Deno.env.get('SUPABASE_URL')!
         const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
         const supabase = createClient(supabaseUrl, supabaseKey)
 
+        if (storeSlug) {
+            const { data: store, error } = await supabase.rpc('get_storefront', {
+                p_slug: storeSlug,
+                p_limit: 1,
+            })
+
+            if (error || !store) {
+                console.error('Store not found:', storeSlug, error)
+                return Response.redirect('https://solelyshoes.co.ke/og-image.png', 302)
+            }
+
+            // No logo: fall back to the newest listing's photo
+            const [logoDataUri, bannerDataUri] = await Promise.all([
+                fetchImageDataUri(store.logo_url || resolveImageUrl(store.products?.[0]?.images?.[0], supabaseUrl)),
+                fetchImageDataUri(store.banner_url || ''),
+            ])
+
+            return await renderPng(buildStoreCard({
+                name: store.store_name,
+                location: store.location,
+                rating: store.average_rating !== null ? Number(store.average_rating) : null,
+                ratingCount: store.rating_count,
+                listings: store.listings,
+                minPrice: store.min_price,
+                logoDataUri,
+                bannerDataUri,
+            }))
+        }
+
+        // Fetch product from Supabase
         const { data: product, error } = await supabase
             .from('products')
             .select('name, price_ksh, images, brand')
@@ -313,61 +552,15 @@ Deno.serve(async (req) => {
         }
 
         // Resolve and fetch product image
-        const imageUrl = resolveImageUrl(product.images?.[0], supabaseUrl)
-        let imageDataUri = ''
-
-        if (imageUrl) {
-            try {
-                const imgRes = await fetch(imageUrl)
-                if (imgRes.ok) {
-                    const imgBuf = await imgRes.arrayBuffer()
-                    // Skip embedding if image is too large (>3MB)
-                    if (imgBuf.byteLength < 3 * 1024 * 1024) {
-                        const base64 = uint8ArrayToBase64(new Uint8Array(imgBuf))
-                        const contentType = imgRes.headers.get('content-type') || 'image/jpeg'
-                        imageDataUri = `data:${contentType};base64,${base64}`
-                    }
-                }
-            } catch (e) {
-                console.error('Failed to fetch product image:', e)
-            }
-        }
-
-        // Initialize WASM modules (first call only)
-        await ensureInitialized()
+        const imageDataUri = await fetchImageDataUri(resolveImageUrl(product.images?.[0], supabaseUrl))
 
         // Build the card layout
-        const cardElement = buildCard({
+        return await renderPng(buildCard({
             name: product.name,
             price_ksh: product.price_ksh,
             brand: product.brand,
             imageDataUri,
-        })
-
-        // Generate SVG with Satori
-        const svg = await satori(cardElement, {
-            width: WIDTH,
-            height: HEIGHT,
-            fonts: [
-                { name: 'Inter', data: fontRegular, weight: 400, style: 'normal' },
-                { name: 'Inter', data: fontBold, weight: 700, style: 'normal' },
-            ],
-        })
-
-        // Convert SVG → PNG with Resvg
-        const resvg = new Resvg(svg, {
-            fitTo: { mode: 'width', value: WIDTH },
-        })
-        const pngData = resvg.render()
-        const pngBuffer = pngData.asPng()
-
-        return new Response(pngBuffer, {
-            headers: {
-                ...corsHeaders,
-                'Content-Type': 'image/png',
-                'Cache-Control': 'public, max-age=86400, s-maxage=604800',
-            },
-        })
+        }))
     } catch (e) {
         console.error('OG image generation error:', e)
         // Graceful fallback: redirect to default OG image
@@ -43,6 +43,25 @@ Deno.serve(async (req) => {
             throw new Error('Failed to fetch products')
         }
 
+        // Brand / category / size / county landing pages with enough listings to index
+        const { data: landingPages, error: landingError } = await supabase.rpc('list_landing_pages', {
+            p_min_listings: 3,
+        })
+
+        if (landingError) {
+            // The rest of the sitemap is still useful without them
+            console.error('Error fetching landing pages:', landingError)
+        }
+
+        // Vendor storefronts with live listings
+        const { data: storefronts, error: storefrontsError } = await supabase.rpc('list_storefronts', {
+            p_min_listings: 1,
+        })
+
+        if (storefrontsError) {
+            console.error('Error fetching storefronts:', storefrontsError)
+        }
+
         // Build XML sitemap
         let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`
@@ -74,10 +93,40 @@ Deno.serve(async (req) => {
             }
         }
 
+        // Add landing pages
+        for (const page of (landingPages || []) as { path: string; lastmod: string | null }[]) {
+            const lastmod = page.lastmod
+                ? new Date(page.lastmod).toISOString().split('T')[0]
+                : new Date().toISOString().split('T')[0]
+
+            xml += `
+  <url>
+    <loc>${SITE_URL}${page.path}</loc>
+    <lastmod>${lastmod}</lastmod>
+    <changefreq>daily</changefreq>
+    <priority>0.7</priority>
+  </url>`
+        }
+
+        // Add storefronts
+        for (const store of (storefronts || []) as { path: string; lastmod: string | null }[]) {
+            const lastmod = store.lastmod
+                ? new Date(store.lastmod).toISOString().split('T')[0]
+                : new Date().toISOString().split('T')[0]
+
+            xml += `
+  <url>
+    <loc>${SITE_URL}${store.path}</loc>
+    <lastmod>${lastmod}</lastmod>
+    <changefreq>weekly</changefreq>
+    <priority>0.6</priority>
+  </url>`
+        }
+
         xml += `
 </urlset>`
 
-        console.log(`Generated sitemap with ${STATIC_PAGES.length} static pages and ${products?.length || 0} products`)
+        console.log(`Generated sitemap with ${STATIC_PAGES.length} static pages, ${products?.length || 0} products, ${landingPages?.length || 0} landing pages and ${storefronts?.length || 0} storefronts`)
 
         return new Response(xml, {
             headers: {
@@ -17,41 +17,80 @@ serve(async (req) => {
             Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
         );
 
-        const { orderId, successUrl, cancelUrl } = await req.json();
+        const { orderId, checkoutSessionId, successUrl, cancelUrl } = await req.json();
 
-        if (!orderId) {
+        if (!orderId && !checkoutSessionId) {
             throw new Error('Order ID is required');
         }
 
-        console.log(`[IntaSend] Creating checkout for order: ${orderId}`);
+        // A multi-vendor checkout is paid once for the whole session;
+        // api_ref carries the session ID so the webhook can settle every order in it
+        const apiRef = checkoutSessionId || orderId;
+        let total: number | string;
+        let customer: { email?: string; full_name?: string } | null;
+        let shippingOrderId: string;
+
+        if (checkoutSessionId) {
+            console.log(`[IntaSend] Creating checkout for session: ${checkoutSessionId}`);
+
+            // 1. Fetch session, its customer and one of its orders (they share shipping details)
+            const { data: session, error: sessionError } = await supabaseClient
+                .from('checkout_sessions')
+                .select('total_ksh, status, profiles:customer_id(email, full_name), orders(id)')
+                .eq('id', checkoutSessionId)
+                .single();
+
+            if (sessionError || !session) {
+                console.error('[IntaSend] Checkout session not found:', sessionError);
+                throw new Error('Checkout session not found');
+            }
 
-        // 1. Fetch order with customer profile
-        const { data: order, error: orderError } = await supabaseClient
-            .from('orders')
-            .select('total_ksh, customer_id, profiles:customer_id(email, full_name)')
-            .eq('id', orderId)
-            .single();
+            if (session.status !== 'pending') {
+                throw new Error(`Checkout session is already ${session.status}`);
+            }
+
+            if (!session.orders || session.orders.length === 0) {
+                throw new Error('Checkout session has no orders');
+            }
+
+            total = session.total_ksh;
+            customer = session.profiles;
+            shippingOrderId = session.orders[0].id;
+        } else {
+            console.log(`[IntaSend] Creating checkout for order: ${orderId}`);
+
+            // 1. Fetch order with customer profile
+            const { data: order, error: orderError } = await supabaseClient
+                .from('orders')
+                .select('total_ksh, customer_id, profiles:customer_id(email, full_name)')
+                .eq('id', orderId)
+                .single();
+
+            if (orderError || !order) {
+                console.error('[IntaSend] Order not found:', orderError);
+                throw new Error('Order not found');
+            }
 
-        if (orderError || !order) {
-            console.error('[IntaSend] Order not found:', orderError);
-            throw new Error('Order not found');
+            total = order.total_ksh;
+            customer = order.profiles;
+            shippingOrderId = orderId;
         }
 
         // 2. Fetch shipping details for phone/email
         const { data: shipping } = await supabaseClient
             .from('order_shipping_details')
             .select('email, phone, recipient_name')
-            .eq('order_id', orderId)
+            .eq('order_id', shippingOrderId)
             .single();
 
         // 3. Prepare customer data with fallbacks
-        const email = shipping?.email || order.profiles?.email || 'customer@solelyshoes.co.ke';
+        const email = shipping?.email || customer?.email || 'customer@solelyshoes.co.ke';
         const phone = shipping?.phone || '';
-        const name = shipping?.recipient_name || order.profiles?.full_name || 'Customer';
-        const amount = Number(order.total_ksh);
+        const name = shipping?.recipient_name || customer?.full_name || 'Customer';
+        const amount = Number(total);
 
         if (isNaN(amount) || amount <= 0) {
-            throw new Error(`Invalid order amount: ${order.total_ksh}`);
+            throw new Error(`Invalid order amount: ${total}`);
         }
 
         // 4. Format phone number for IntaSend (254XXXXXXXXX format)
@@ -86,7 +125,7 @@ serve(async (req) => {
             email: email,
             first_name: firstName,
             last_name: lastName,
-            api_ref: orderId,
+            api_ref: apiRef,
             redirect_url: successUrl || cancelUrl || 'https://solelyshoes.co.ke/orders',
             webhook_url: webhookUrl, // CRITICAL: This tells IntaSend where to POST payment confirmations
         };
@@ -1,11 +1,219 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCheckoutSession, settleCheckoutSession, failCheckoutSession, failOrderPayment, holdOrderEscrow } from "../_shared/checkout-session.ts";
+import { parseSubscriptionRef, activateSubscriptionPayment, failSubscriptionPayment } from "../_shared/subscription.ts";
+import { verifyIntaSendChallenge, getReplayEventId } from "../_shared/webhook-security.ts";
+import { recordWebhookEvent, completeWebhookEvent } from "../_shared/webhook-events.ts";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+/**
+ * Apply a verified IntaSend payment event to the plan purchase, checkout session
+ * or single order it refers to.
+ */
+// deno-lint-ignore no-explicit-any
+async function handlePaymentEvent(supabaseClient: any, payload: any): Promise<Response> {
+    const {
+        invoice_id,
+        state,
+        api_ref,
+        value,
+        account,
+        name,
+        retail_price,
+        net_amount,
+        currency,
+        failed_reason,
+        created_at,
+        updated_at
+    } = payload;
+
+    const orderId = api_ref;
+    console.log(`[IntaSend Webhook] Processing payment for order: ${orderId}, state: ${state}`);
+
+    // ─────────────────────────────────────────────────────────────────────
+    // SECURITY: Cross-verify with IntaSend API (LOG-ONLY MODE)
+    // Logs verification results but doesn't block - prevents breaking payments
+    // while still providing an audit trail for suspicious activity
+    // ─────────────────────────────────────────────────────────────────────
+    if (invoice_id && state === 'COMPLETE') {
+        const intaSendSecretKey = Deno.env.get('INTASEND_SECRET_KEY');
+
+        if (intaSendSecretKey) {
+            try {
+                console.log(`[IntaSend Webhook] Verifying invoice ${invoice_id} with IntaSend API...`);
+
+                const verifyResponse = await fetch(`https://api.intasend.com/api/v1/invoices/${invoice_id}/`, {
+                    method: 'GET',
+                    headers: {
+                        'Authorization': `Bearer ${intaSendSecretKey}`,
+                        'Content-Type': 'application/json',
+                    },
+                });
+
+                if (!verifyResponse.ok) {
+                    // LOG ONLY - don't block the webhook
+                    console.warn(`[IntaSend Webhook] ⚠️ AUDIT: Invoice verification returned ${verifyResponse.status} - proceeding anyway`);
+                } else {
+                    const verifiedInvoice = await verifyResponse.json();
+                    console.log(`[IntaSend Webhook] Verified invoice response:`, JSON.stringify(verifiedInvoice));
+
+                    // Log mismatches but don't block
+                    if (verifiedInvoice.state && verifiedInvoice.state !== 'COMPLETE') {
+                        console.warn(`[IntaSend Webhook] ⚠️ AUDIT: State mismatch - webhook: COMPLETE, API: ${verifiedInvoice.state}`);
+                    }
+
+                    if (verifiedInvoice.api_ref && verifiedInvoice.api_ref !== orderId) {
+                        console.warn(`[IntaSend Webhook] ⚠️ AUDIT: Order ID mismatch - webhook: ${orderId}, API: ${verifiedInvoice.api_ref}`);
+                    }
+
+                    console.log(`[IntaSend Webhook] ✓ Invoice ${invoice_id} verification complete`);
+                }
+            } catch (verifyError) {
+                console.warn('[IntaSend Webhook] Verification API error (proceeding anyway):', verifyError);
+            }
+        } else {
+            console.warn('[IntaSend Webhook] INTASEND_SECRET_KEY not set - skipping invoice verification');
+        }
+    }
+
+    // Vendor plan purchases (api_ref = SUB-<subscription payment ID>)
+    const subscriptionPaymentId = parseSubscriptionRef(api_ref);
+    if (subscriptionPaymentId) {
+        console.log(`[IntaSend Webhook] api_ref ${api_ref} is a plan purchase, state: ${state}`);
+
+        if (state === 'COMPLETE') {
+            await activateSubscriptionPayment(supabaseClient, subscriptionPaymentId, {
+                transactionId: invoice_id ?? null,
+                amountPaid: value !== undefined && value !== null ? Number(value) : null,
+                logTag: '[IntaSend Webhook]',
+            });
+        } else if (state === 'FAILED') {
+            await failSubscriptionPayment(supabaseClient, subscriptionPaymentId, failed_reason || null, '[IntaSend Webhook]');
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, message: 'Webhook processed' }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Multi-vendor checkouts are paid once for the whole session (api_ref = session ID)
+    const checkoutSession = await getCheckoutSession(supabaseClient, api_ref);
+    if (checkoutSession) {
+        console.log(`[IntaSend Webhook] api_ref ${api_ref} is a checkout session, state: ${state}`);
+
+        if (state === 'COMPLETE') {
+            const result = await settleCheckoutSession(supabaseClient, checkoutSession.id, {
+                gateway: 'intasend',
+                transactionId: invoice_id ?? null,
+                amountPaid: value !== undefined && value !== null ? Number(value) : null,
+                metadata: { account, net_amount, currency },
+                logTag: '[IntaSend Webhook]',
+            });
+
+            if (!result.success) {
+                console.error(`[IntaSend Webhook] Session ${checkoutSession.id} not settled: ${result.error}`);
+            }
+        } else if (state === 'FAILED') {
+            console.log(`[IntaSend Webhook] Payment failed for session ${checkoutSession.id}. Reason: ${failed_reason || 'Unknown'}`);
+            await failCheckoutSession(supabaseClient, checkoutSession.id, failed_reason || null, '[IntaSend Webhook]');
+        } else {
+            console.log(`[IntaSend Webhook] Payment pending for session ${checkoutSession.id}`);
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, message: 'Webhook processed' }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Fetch the order
+    const { data: order, error: orderError } = await supabaseClient
+        .from('orders')
+        .select('id, total_ksh, commission_amount, payout_amount, status')
+        .eq('id', orderId)
+        .single();
+
+    if (orderError || !order) {
+        console.error('[IntaSend Webhook] Order not found:', orderId, orderError);
+        return new Response(
+            JSON.stringify({ error: 'Order not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Update payment record
+    const { data: payment, error: paymentUpdateError } = await supabaseClient
+        .from('payments')
+        .update({
+            status: state === 'COMPLETE' ? 'captured' : state === 'FAILED' ? 'pending' : 'pending',
+            transaction_id: invoice_id,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('order_id', orderId)
+        .eq('gateway', 'intasend')
+        .select('id')
+        .maybeSingle();
+
+    if (paymentUpdateError) {
+        console.error('[IntaSend Webhook] Failed to update payment:', paymentUpdateError);
+    }
+
+    // Handle based on payment state
+    if (state === 'COMPLETE') {
+        console.log(`[IntaSend Webhook] Payment successful for order ${orderId}`);
+
+        // Hold the vendor's share until delivery is confirmed
+        await holdOrderEscrow(supabaseClient, order, payment?.id ?? null, '[IntaSend Webhook]');
+
+        // Update order status to confirmed (waiting for vendor to accept). A failure
+        // throws, so the event is logged as failed and can be replayed.
+        if (order.status === 'pending_payment') {
+            await transitionOrderStatus(supabaseClient, orderId, 'pending_vendor_confirmation', {
+                reason: 'Payment confirmed',
+            });
+            console.log(`[IntaSend Webhook] Order ${orderId} status updated to pending_vendor_confirmation`);
+
+            // Stock is deducted by trigger_reduce_stock when the payment above is captured
+
+            // Notify vendor about new order (non-blocking)
+            supabaseClient.functions
+                .invoke('notify-vendor-new-order', {
+                    body: { orderId: orderId },
+                })
+                .catch(err => console.log('[IntaSend Webhook] Vendor notification failed (non-critical):', err));
+
+            // Notify buyer that order has been placed (non-blocking)
+            supabaseClient.functions
+                .invoke('notify-buyer-order-placed', {
+                    body: { orderId: orderId },
+                })
+                .catch(err => console.log('[IntaSend Webhook] Buyer notification failed (non-critical):', err));
+        } else {
+            console.log(`[IntaSend Webhook] Order ${orderId} is already ${order.status} - status left as is`);
+        }
+
+    } else if (state === 'FAILED') {
+        console.log(`[IntaSend Webhook] Payment failed for order ${orderId}. Reason: ${failed_reason || 'Unknown'}`);
+
+        await failOrderPayment(supabaseClient, orderId, failed_reason || null, '[IntaSend Webhook]');
+
+    } else {
+        console.log(`[IntaSend Webhook] Payment pending for order ${orderId}`);
+    }
+
+    // Return success response to IntaSend
+    return new Response(
+        JSON.stringify({ success: true, message: 'Webhook processed' }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+}
+
 serve(async (req) => {
     // Always return 200 for OPTIONS (CORS preflight)
     if (req.method === 'OPTIONS') {
@@ -52,7 +260,7 @@ serve(async (req) => {
         // {
         //   "invoice_id": "XXXXXXX",
         //   "state": "COMPLETE" | "FAILED" | "PENDING",
-        //   "api_ref": "order_id",
+        //   "api_ref": "order_id" | "checkout_session_id" | "SUB-<subscription_payment_id>",
         //   "value": 5000,
         //   "account": "254712345678",
         //   "name": "John Doe",
@@ -61,23 +269,11 @@ serve(async (req) => {
         //   "currency": "KES",
         //   "failed_reason": "...",
         //   "created_at": "2026-01-11T18:00:00Z",
-        //   "updated_at": "2026-01-11T18:05:00Z"
+        //   "updated_at": "2026-01-11T18:05:00Z",
+        //   "challenge": "<challenge configured on the IntaSend dashboard>"
         // }
 
-        const {
-            invoice_id,
-            state,
-            api_ref,
-            value,
-            account,
-            name,
-            retail_price,
-            net_amount,
-            currency,
-            failed_reason,
-            created_at,
-            updated_at
-        } = payload;
+        const { invoice_id, state, api_ref } = payload;
 
         if (!api_ref) {
             console.log('[IntaSend Webhook] No api_ref in payload - likely a test or notification webhook');
@@ -87,172 +283,76 @@ serve(async (req) => {
             );
         }
 
-        const orderId = api_ref;
-        console.log(`[IntaSend Webhook] Processing payment for order: ${orderId}, state: ${state}`);
-
         // ─────────────────────────────────────────────────────────────────────
-        // SECURITY: Cross-verify with IntaSend API (LOG-ONLY MODE)
-        // Logs verification results but doesn't block - prevents breaking payments
-        // while still providing an audit trail for suspicious activity
+        // SECURITY: Authenticity + idempotency
+        // Rejects webhooks without the configured IntaSend challenge and turns
+        // redeliveries of an already-processed event into no-ops
         // ─────────────────────────────────────────────────────────────────────
-        if (invoice_id && state === 'COMPLETE') {
-            const intaSendSecretKey = Deno.env.get('INTASEND_SECRET_KEY');
-
-            if (intaSendSecretKey) {
-                try {
-                    console.log(`[IntaSend Webhook] Verifying invoice ${invoice_id} with IntaSend API...`);
-
-                    const verifyResponse = await fetch(`https://api.intasend.com/api/v1/invoices/${invoice_id}/`, {
-                        method: 'GET',
-                        headers: {
-                            'Authorization': `Bearer ${intaSendSecretKey}`,
-                            'Content-Type': 'application/json',
-                        },
-                    });
-
-                    if (!verifyResponse.ok) {
-                        // LOG ONLY - don't block the webhook
-                        console.warn(`[IntaSend Webhook] ⚠️ AUDIT: Invoice verification returned ${verifyResponse.status} - proceeding anyway`);
-                    } else {
-                        const verifiedInvoice = await verifyResponse.json();
-                        console.log(`[IntaSend Webhook] Verified invoice response:`, JSON.stringify(verifiedInvoice));
-
-                        // Log mismatches but don't block
-                        if (verifiedInvoice.state && verifiedInvoice.state !== 'COMPLETE') {
-                            console.warn(`[IntaSend Webhook] ⚠️ AUDIT: State mismatch - webhook: COMPLETE, API: ${verifiedInvoice.state}`);
-                        }
-
-                        if (verifiedInvoice.api_ref && verifiedInvoice.api_ref !== orderId) {
-                            console.warn(`[IntaSend Webhook] ⚠️ AUDIT: Order ID mismatch - webhook: ${orderId}, API: ${verifiedInvoice.api_ref}`);
-                        }
-
-                        console.log(`[IntaSend Webhook] ✓ Invoice ${invoice_id} verification complete`);
-                    }
-                } catch (verifyError) {
-                    console.warn('[IntaSend Webhook] Verification API error (proceeding anyway):', verifyError);
-                }
-            } else {
-                console.warn('[IntaSend Webhook] INTASEND_SECRET_KEY not set - skipping invoice verification');
-            }
-        }
+        const replayEventId = getReplayEventId(req);
+        const verification = replayEventId ? { ok: true } : verifyIntaSendChallenge(payload);
 
-        // Fetch the order
-        const { data: order, error: orderError } = await supabaseClient
-            .from('orders')
-            .select('id, total_ksh, status')
-            .eq('id', orderId)
-            .single();
-
-        if (orderError || !order) {
-            console.error('[IntaSend Webhook] Order not found:', orderId, orderError);
+        // Not recorded as rejected: IntaSend retries and the event is processed once the secret is set
+        if (verification.misconfigured) {
             return new Response(
-                JSON.stringify({ error: 'Order not found' }),
-                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                JSON.stringify({ error: 'Webhook verification is not configured' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
         }
-
-        // Update payment record
-        const { error: paymentUpdateError } = await supabaseClient
-            .from('payments')
-            .update({
-                status: state === 'COMPLETE' ? 'captured' : state === 'FAILED' ? 'pending' : 'pending',
-                transaction_id: invoice_id,
-                updated_at: new Date().toISOString(),
-            })
-            .eq('order_id', orderId)
-            .eq('gateway', 'intasend');
-
-        if (paymentUpdateError) {
-            console.error('[IntaSend Webhook] Failed to update payment:', paymentUpdateError);
+        const eventId = `${invoice_id || api_ref}:${state || 'UNKNOWN'}`;
+        // The challenge is a shared secret - keep it out of the stored payload
+        const { challenge: _challenge, ...storedPayload } = payload;
+
+        const event = await recordWebhookEvent(supabaseClient, {
+            provider: 'intasend',
+            eventId,
+            eventType: state ?? null,
+            reference: api_ref,
+            payload: storedPayload,
+            verified: verification.ok,
+            verificationError: verification.ok ? null : verification.reason,
+            replay: !!replayEventId,
+        });
+
+        if (!verification.ok) {
+            console.warn(`[IntaSend Webhook] ⚠️ Rejected event ${eventId}: ${verification.reason}`);
+            return new Response(
+                JSON.stringify({ error: 'Webhook verification failed' }),
+                { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
         }
 
-        // Handle based on payment state
-        if (state === 'COMPLETE') {
-            console.log(`[IntaSend Webhook] Payment successful for order ${orderId}`);
-
-            // Update order status to confirmed (waiting for vendor to accept)
-            const { error: orderUpdateError } = await supabaseClient
-                .from('orders')
-                .update({
-                    status: 'pending_vendor_confirmation',
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', orderId);
-
-            if (orderUpdateError) {
-                console.error('[IntaSend Webhook] Failed to update order status:', orderUpdateError);
-            } else {
-                console.log(`[IntaSend Webhook] Order ${orderId} status updated to pending_vendor_confirmation`);
-
-                // Decrement stock for each order item when payment is confirmed
-                const { data: orderItems, error: itemsError } = await supabaseClient
-                    .from('order_items')
-                    .select('product_id, quantity')
-                    .eq('order_id', orderId);
-
-                if (itemsError) {
-                    console.error('[IntaSend Webhook] Failed to fetch order items:', itemsError);
-                } else if (orderItems && orderItems.length > 0) {
-                    console.log(`[IntaSend Webhook] Decrementing stock for ${orderItems.length} items`);
-                    for (const item of orderItems) {
-                        const { data: product, error: productError } = await supabaseClient
-                            .from('products')
-                            .select('stock')
-                            .eq('id', item.product_id)
-                            .single();
-
-                        if (!productError && product && product.stock !== null && typeof product.stock === 'number') {
-                            const newStock = Math.max(0, product.stock - item.quantity);
-                            await supabaseClient
-                                .from('products')
-                                .update({ stock: newStock })
-                                .eq('id', item.product_id);
-                            console.log(`[IntaSend Webhook] Stock for ${item.product_id}: ${product.stock} -> ${newStock}`);
-                        }
-                    }
-                }
-
-                // Notify vendor about new order (non-blocking)
-                supabaseClient.functions
-                    .invoke('notify-vendor-new-order', {
-                        body: { orderId: orderId },
-                    })
-                    .catch(err => console.log('[IntaSend Webhook] Vendor notification failed (non-critical):', err));
-
-                // Notify buyer that order has been placed (non-blocking)
-                supabaseClient.functions
-                    .invoke('notify-buyer-order-placed', {
-                        body: { orderId: orderId },
-                    })
-                    .catch(err => console.log('[IntaSend Webhook] Buyer notification failed (non-critical):', err));
-            }
-
-        } else if (state === 'FAILED') {
-            console.log(`[IntaSend Webhook] Payment failed for order ${orderId}. Reason: ${failed_reason || 'Unknown'}`);
-
-            // Update order status to payment failed
-            const { error: orderUpdateError } = await supabaseClient
-                .from('orders')
-                .update({
-                    status: 'payment_failed',
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', orderId);
+        if (event.duplicate) {
+            console.log(`[IntaSend Webhook] Event ${eventId} already processed - ignoring redelivery`);
+            return new Response(
+                JSON.stringify({ success: true, message: 'Already processed' }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
 
-            if (orderUpdateError) {
-                console.error('[IntaSend Webhook] Failed to update order status:', orderUpdateError);
-            }
+        if (replayEventId) {
+            console.log(`[IntaSend Webhook] Replaying stored event ${replayEventId}`);
+        }
 
-        } else {
-            console.log(`[IntaSend Webhook] Payment pending for order ${orderId}`);
+        let response: Response;
+        try {
+            response = await handlePaymentEvent(supabaseClient, payload);
+        } catch (processingError) {
+            await completeWebhookEvent(
+                supabaseClient,
+                event.id,
+                'failed',
+                processingError instanceof Error ? processingError.message : String(processingError)
+            );
+            throw processingError;
         }
 
-        // Return success response to IntaSend
-        return new Response(
-            JSON.stringify({ success: true, message: 'Webhook processed' }),
-            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        await completeWebhookEvent(
+            supabaseClient,
+            event.id,
+            response.ok ? 'processed' : 'failed',
+            response.ok ? null : `Responded ${response.status}`
         );
-
+        return response;
     } catch (error) {
         console.error('[IntaSend Webhook] Error:', error);
         return new Response(
@@ -0,0 +1,610 @@
+/**
+ * Manage Order Return
+ *
+ * Return/exchange workflow for an order that has arrived. Escrow stays held while the
+ * order is in 'return_in_progress'; it is refunded/released when the return completes.
+ *
+ * Buyer actions:  request, cancel, ship_return, confirm_return (with the vendor's return code)
+ * Vendor actions: respond, confirm_return (item received), ship_exchange,
+ *                 confirm_exchange (with the buyer's exchange code)
+ *
+ * Refund returns go through process-refund (partial refund of the returned item,
+ * rest released to the vendor). Exchanges release escrow once the replacement is delivered.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { releaseHeldEscrow } from "../_shared/escrow.ts";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
+import type { SupabaseClient } from "../_shared/types.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RETURNABLE_ORDER_STATUSES = ["arrived", "delivered"];
+const RETURN_REASONS = ["wrong_size", "wrong_item", "defective", "not_as_described", "other"];
+const DISPUTE_RETURN_REASONS: Record<string, string> = { wrong_item: "wrong_item", damaged: "defective" };
+
+/** The order_returns columns this function reads */
+interface OrderReturn {
+    id: string;
+    order_id: string;
+    order_item_id: string;
+    customer_id: string;
+    vendor_id: string;
+    return_type: "exchange" | "refund";
+    status: string;
+    reason: string;
+    quantity: number;
+    requested_variant_id: string | null;
+    replacement_reserved: boolean;
+    previous_order_status: string;
+    dispute_id: string | null;
+}
+
+class ReturnError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+function generateOTP(): string {
+    const value = crypto.getRandomValues(new Uint32Array(1))[0];
+    return (100000 + (value % 900000)).toString();
+}
+
+function notify(supabase: SupabaseClient, userId: string, title: string, body: string, orderId: string, url: string) {
+    supabase.functions
+        .invoke("send-push-notification", {
+            body: { userId, title, body, url, orderId, tag: `return-${orderId}` },
+        })
+        .catch((err: Error) => console.log("[Return] Push notification failed (non-critical):", err));
+}
+
+/** Move a return on only if it is still in the expected status */
+async function transition(supabase: SupabaseClient, returnId: string, from: string[], updates: Record<string, unknown>) {
+    const { data, error } = await supabase
+        .from("order_returns")
+        .update(updates)
+        .eq("id", returnId)
+        .in("status", from)
+        .select("*")
+        .maybeSingle<OrderReturn>();
+
+    if (error) throw error;
+    if (!data) throw new ReturnError("This return has already moved on - refresh and try again", 409);
+    return data;
+}
+
+/**
+ * Put the order back where it was before the return was requested. Going back to
+ * arrived restarts the buyer review window rather than auto-releasing immediately.
+ * A cancelled dispute return reopens the dispute.
+ */
+async function restoreOrder(supabase: SupabaseClient, ret: OrderReturn) {
+    if (ret.dispute_id) {
+        await supabase
+            .from("disputes")
+            .update({ status: "under_review", settlement_type: null, return_id: null })
+            .eq("id", ret.dispute_id);
+        await supabase.from("dispute_messages").insert({
+            dispute_id: ret.dispute_id,
+            sender_role: "system",
+            body: "The return was cancelled. The dispute is back with support.",
+        });
+    }
+
+    try {
+        await transitionOrderStatus(supabase, ret.order_id, ret.previous_order_status, {
+            reason: "Return closed",
+            metadata: { return_id: ret.id },
+        });
+    } catch (err) {
+        // The return itself has already moved on; support can fix the order by hand
+        console.error(`[Return] Could not restore order ${ret.order_id}:`, err);
+    }
+}
+
+async function saveOtp(supabase: SupabaseClient, returnId: string, leg: "return" | "exchange", holderId: string) {
+    const { error } = await supabase
+        .from("order_return_otps")
+        .upsert({
+            return_id: returnId,
+            leg,
+            code: generateOTP(),
+            holder_id: holderId,
+            generated_at: new Date().toISOString(),
+            verified_at: null,
+        }, { onConflict: "return_id,leg" });
+
+    if (error) throw error;
+}
+
+async function checkOtp(supabase: SupabaseClient, returnId: string, leg: "return" | "exchange", otp: string | undefined) {
+    if (!otp || !/^\d{6}$/.test(otp)) {
+        throw new ReturnError("Enter the 6-digit code");
+    }
+
+    const { data: stored } = await supabase
+        .from("order_return_otps")
+        .select("code")
+        .eq("return_id", returnId)
+        .eq("leg", leg)
+        .maybeSingle();
+
+    if (!stored || stored.code !== otp) {
+        throw new ReturnError("Incorrect code");
+    }
+
+    await supabase
+        .from("order_return_otps")
+        .update({ verified_at: new Date().toISOString() })
+        .eq("return_id", returnId)
+        .eq("leg", leg);
+}
+
+/** Refund the returned item; the rest of the escrow goes to the vendor */
+async function refundReturn(supabase: SupabaseClient, ret: OrderReturn) {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/process-refund`, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({
+            orderId: ret.order_id,
+            items: [{ orderItemId: ret.order_item_id, quantity: ret.quantity }],
+            reason: ret.reason,
+            releaseRemainder: true,
+        }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+        throw new ReturnError(`Item received, but the refund failed: ${result.error || response.status}. Try again shortly.`, 502);
+    }
+
+    const completed = await transition(supabase, ret.id, ["return_received"], {
+        status: "completed",
+        refund_id: result.refundId ?? null,
+        completed_at: new Date().toISOString(),
+    });
+
+    // Return-before-refund dispute settlement: the refund settles the case
+    if (ret.dispute_id) {
+        const { data: order } = await supabase.from("orders").select("status").eq("id", ret.order_id).single();
+        await supabase
+            .from("disputes")
+            .update({
+                status: order?.status === "refunded" ? "resolved_refund" : "resolved_partial_refund",
+                settlement_amount_ksh: result.amount ?? null,
+                resolved_at: new Date().toISOString(),
+            })
+            .eq("id", ret.dispute_id);
+        await supabase.from("dispute_messages").insert({
+            dispute_id: ret.dispute_id,
+            sender_role: "system",
+            body: `The vendor received the returned item. KES ${Number(result.amount ?? 0).toLocaleString()} is being refunded to the buyer.`,
+        });
+        await supabase.functions
+            .invoke("notify-dispute-update", { body: { disputeId: ret.dispute_id } })
+            .catch((err: Error) => console.log("[Return] Dispute update email failed (non-critical):", err));
+    }
+
+    return completed;
+}
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+        const supabase = createClient(
+            Deno.env.get("SUPABASE_URL")!,
+            Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+        );
+
+        const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+        const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+        if (authError || !user) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        const body = await req.json();
+        const { action } = body;
+
+        // ---- New request (buyer) ----
+        if (action === "request") {
+            const { orderId, orderItemId, returnType, reason, details, photoUrls, variantId } = body;
+            const quantity = Number(body.quantity ?? 1);
+
+            if (returnType !== "exchange" && returnType !== "refund") throw new ReturnError("Choose exchange or refund");
+            if (!RETURN_REASONS.includes(reason)) throw new ReturnError("Choose a reason");
+
+            const { data: order } = await supabase
+                .from("orders")
+                .select("id, customer_id, vendor_id, status, escrow_transactions(status)")
+                .eq("id", orderId)
+                .single();
+
+            if (!order || order.customer_id !== user.id) throw new ReturnError("Order not found", 404);
+            if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+                throw new ReturnError("Returns can be requested once the order has arrived and before it is completed");
+            }
+            if (order.escrow_transactions?.[0]?.status !== "held") {
+                throw new ReturnError("Payment for this order has already been settled - please report a problem instead");
+            }
+
+            const { data: item } = await supabase
+                .from("order_items")
+                .select("id, product_id, variant_id, quantity, refunded_quantity")
+                .eq("id", orderItemId)
+                .eq("order_id", orderId)
+                .single();
+
+            if (!item) throw new ReturnError("Item not found on this order");
+            if (!Number.isInteger(quantity) || quantity < 1 || quantity > item.quantity - (item.refunded_quantity ?? 0)) {
+                throw new ReturnError("Invalid quantity");
+            }
+
+            let variant = null;
+            if (returnType === "exchange") {
+                const { data } = await supabase
+                    .from("product_variants")
+                    .select("id, product_id, size, color, stock")
+                    .eq("id", variantId)
+                    .maybeSingle();
+
+                if (!data || data.product_id !== item.product_id) throw new ReturnError("Choose a size of the same product");
+                if (data.id === item.variant_id) throw new ReturnError("Choose a different size or color");
+                if (data.stock < quantity) throw new ReturnError("That size is out of stock");
+                variant = data;
+            }
+
+            const { data: ret, error: insertError } = await supabase
+                .from("order_returns")
+                .insert({
+                    order_id: orderId,
+                    order_item_id: orderItemId,
+                    customer_id: user.id,
+                    vendor_id: order.vendor_id,
+                    return_type: returnType,
+                    reason,
+                    details: details || null,
+                    photo_urls: Array.isArray(photoUrls) && photoUrls.length > 0 ? photoUrls : null,
+                    quantity,
+                    requested_variant_id: variant?.id ?? null,
+                    requested_size: variant?.size || null,
+                    requested_color: variant?.color || null,
+                    previous_order_status: order.status,
+                })
+                .select("*")
+                .single();
+
+            if (insertError) {
+                if (insertError.code === "23505") throw new ReturnError("A return is already open for this order");
+                throw insertError;
+            }
+
+            try {
+                await transitionOrderStatus(supabase, orderId, "return_in_progress", {
+                    reason: "Buyer asked for a return or exchange",
+                    metadata: { return_id: ret.id },
+                });
+            } catch (err) {
+                // The order moved on (e.g. completed) - drop the request so the buyer can report a problem instead
+                await supabase.from("order_returns").delete().eq("id", ret.id);
+                throw new ReturnError(err instanceof Error ? err.message : "Could not start the return", 409);
+            }
+
+            notify(supabase, order.vendor_id, "Return requested",
+                `A buyer wants to ${returnType === "exchange" ? "exchange" : "return"} an item from order #${orderId.slice(0, 8)}`,
+                orderId, "/vendor/orders");
+
+            console.log(`[Return] ${returnType} requested for order ${orderId} (${ret.id})`);
+            return jsonResponse({ success: true, return: ret });
+        }
+
+        // ---- Return-before-refund dispute settlement (admin) ----
+        if (action === "dispute_return") {
+            const { data: adminRole } = await supabase
+                .from("user_roles")
+                .select("role")
+                .eq("user_id", user.id)
+                .eq("role", "admin")
+                .maybeSingle();
+            if (!adminRole) throw new ReturnError("Only support can settle a dispute", 403);
+
+            const { data: dispute } = await supabase
+                .from("disputes")
+                .select("id, order_id, customer_id, vendor_id, reason, status")
+                .eq("id", body.disputeId)
+                .maybeSingle();
+
+            if (!dispute) throw new ReturnError("Dispute not found", 404);
+            if (!["open", "under_review"].includes(dispute.status)) throw new ReturnError("This dispute is already being settled", 409);
+
+            const { data: item } = await supabase
+                .from("order_items")
+                .select("id, quantity, refunded_quantity")
+                .eq("id", body.orderItemId)
+                .eq("order_id", dispute.order_id)
+                .single();
+
+            const quantity = Number(body.quantity ?? item?.quantity);
+            if (!item) throw new ReturnError("Item not found on this order");
+            if (!Number.isInteger(quantity) || quantity < 1 || quantity > item.quantity - (item.refunded_quantity ?? 0)) {
+                throw new ReturnError("Invalid quantity");
+            }
+
+            // Already agreed by support, so it starts accepted: the buyer ships it back next
+            const { data: ret, error: insertError } = await supabase
+                .from("order_returns")
+                .insert({
+                    order_id: dispute.order_id,
+                    order_item_id: item.id,
+                    customer_id: dispute.customer_id,
+                    vendor_id: dispute.vendor_id,
+                    return_type: "refund",
+                    status: "accepted",
+                    reason: DISPUTE_RETURN_REASONS[dispute.reason] ?? "other",
+                    details: body.instructions?.trim() || null,
+                    quantity,
+                    vendor_response: body.instructions?.trim() || null,
+                    previous_order_status: "disputed",
+                    dispute_id: dispute.id,
+                })
+                .select("*")
+                .single();
+
+            if (insertError) {
+                if (insertError.code === "23505") throw new ReturnError("A return is already open for this order");
+                throw insertError;
+            }
+
+            await transitionOrderStatus(supabase, dispute.order_id, "return_in_progress", {
+                reason: "Dispute settled with a return before refund",
+                metadata: { dispute_id: dispute.id, return_id: ret.id },
+            });
+
+            await supabase
+                .from("disputes")
+                .update({
+                    status: "awaiting_return",
+                    settlement_type: "return_then_refund",
+                    return_id: ret.id,
+                    resolved_by: user.id,
+                    resolution_notes: body.notes?.trim() || null,
+                    awaiting_party: null,
+                    response_due_at: null,
+                })
+                .eq("id", dispute.id);
+
+            await supabase.from("dispute_messages").insert({
+                dispute_id: dispute.id,
+                sender_id: user.id,
+                sender_role: "admin",
+                body: `Settlement: please send the item back to the vendor. Your refund is issued as soon as they receive it.${body.instructions?.trim() ? `\n\n${body.instructions.trim()}` : ""}`,
+            });
+
+            notify(supabase, dispute.customer_id, "Send the item back",
+                `Your dispute for order #${dispute.order_id.slice(0, 8)} will be refunded once the vendor receives the item.`,
+                dispute.order_id, "/orders");
+            notify(supabase, dispute.vendor_id, "Return on the way",
+                `Support settled the dispute on order #${dispute.order_id.slice(0, 8)} with a return. Confirm when you receive the item.`,
+                dispute.order_id, "/vendor/orders");
+
+            await supabase.functions
+                .invoke("notify-dispute-update", { body: { disputeId: dispute.id } })
+                .catch((err: Error) => console.log("[Return] Dispute update email failed (non-critical):", err));
+
+            console.log(`[Return] Dispute return opened for dispute ${dispute.id} (${ret.id})`);
+            return jsonResponse({ success: true, return: ret });
+        }
+
+        // ---- Everything else acts on an existing return ----
+        const { data: ret } = await supabase
+            .from("order_returns")
+            .select("*")
+            .eq("id", body.returnId)
+            .maybeSingle<OrderReturn>();
+
+        if (!ret) throw new ReturnError("Return not found", 404);
+
+        const isBuyer = ret.customer_id === user.id;
+        const isVendor = ret.vendor_id === user.id;
+        if (!isBuyer && !isVendor) throw new ReturnError("Not your return", 403);
+
+        const requireBuyer = () => { if (!isBuyer) throw new ReturnError("Only the buyer can do this", 403); };
+        const requireVendor = () => { if (!isVendor) throw new ReturnError("Only the vendor can do this", 403); };
+
+        switch (action) {
+            case "respond": {
+                requireVendor();
+
+                if (body.accept) {
+                    // Hold the replacement size for the buyer
+                    if (ret.return_type === "exchange" && ret.requested_variant_id) {
+                        const { data: reserved } = await supabase.rpc("adjust_variant_stock", {
+                            p_variant_id: ret.requested_variant_id,
+                            p_delta: -ret.quantity,
+                        });
+                        if (!reserved) {
+                            throw new ReturnError("The requested size is now out of stock - decline, or restock it first");
+                        }
+                    }
+
+                    let updated;
+                    try {
+                        updated = await transition(supabase, ret.id, ["requested"], {
+                            status: "accepted",
+                            vendor_response: body.response || null,
+                            responded_at: new Date().toISOString(),
+                            replacement_reserved: ret.return_type === "exchange" && !!ret.requested_variant_id,
+                        });
+                    } catch (err) {
+                        // Already answered or cancelled - put the reserved pair back
+                        if (ret.return_type === "exchange" && ret.requested_variant_id) {
+                            await supabase.rpc("adjust_variant_stock", { p_variant_id: ret.requested_variant_id, p_delta: ret.quantity });
+                        }
+                        throw err;
+                    }
+
+                    notify(supabase, ret.customer_id, "Return accepted",
+                        "The vendor accepted your return. Send the item back and add the tracking details.",
+                        ret.order_id, "/orders");
+                    return jsonResponse({ success: true, return: updated });
+                }
+
+                if (!body.response?.trim()) throw new ReturnError("Tell the buyer why you are declining");
+
+                const updated = await transition(supabase, ret.id, ["requested"], {
+                    status: "declined",
+                    vendor_response: body.response,
+                    responded_at: new Date().toISOString(),
+                });
+                await restoreOrder(supabase, ret);
+
+                notify(supabase, ret.customer_id, "Return declined",
+                    "The vendor declined your return request. You can still report a problem on the order.",
+                    ret.order_id, "/orders");
+                return jsonResponse({ success: true, return: updated });
+            }
+
+            case "cancel": {
+                requireBuyer();
+
+                const updated = await transition(supabase, ret.id, ["requested", "accepted"], { status: "cancelled" });
+                if (ret.replacement_reserved) {
+                    await supabase.rpc("adjust_variant_stock", { p_variant_id: ret.requested_variant_id, p_delta: ret.quantity });
+                }
+                await restoreOrder(supabase, ret);
+                return jsonResponse({ success: true, return: updated });
+            }
+
+            case "ship_return": {
+                requireBuyer();
+                if (!body.courier?.trim()) throw new ReturnError("Enter the courier or how you are sending it");
+
+                const updated = await transition(supabase, ret.id, ["accepted"], {
+                    status: "return_shipped",
+                    return_courier: body.courier.trim(),
+                    return_tracking_number: body.trackingNumber?.trim() || null,
+                    return_shipped_at: new Date().toISOString(),
+                });
+                await saveOtp(supabase, ret.id, "return", ret.vendor_id);
+
+                notify(supabase, ret.vendor_id, "Return on its way",
+                    `The buyer sent back the item from order #${ret.order_id.slice(0, 8)}. Give them your return code when it arrives.`,
+                    ret.order_id, "/vendor/orders");
+                return jsonResponse({ success: true, return: updated });
+            }
+
+            case "confirm_return": {
+                // The vendor confirms directly; the buyer proves the handover with the vendor's code
+                let current = ret;
+                if (ret.status === "return_shipped") {
+                    if (isBuyer && !isVendor) await checkOtp(supabase, ret.id, "return", body.otp);
+
+                    current = await transition(supabase, ret.id, ["return_shipped"], {
+                        status: "return_received",
+                        return_received_at: new Date().toISOString(),
+                    });
+
+                    // Returned pair goes back on the shelf
+                    const { data: item } = await supabase
+                        .from("order_items")
+                        .select("variant_id")
+                        .eq("id", ret.order_item_id)
+                        .single();
+                    if (item?.variant_id) {
+                        await supabase.rpc("adjust_variant_stock", { p_variant_id: item.variant_id, p_delta: ret.quantity });
+                    }
+                } else if (!(ret.status === "return_received" && ret.return_type === "refund")) {
+                    throw new ReturnError("This return is not waiting to be received", 409);
+                }
+
+                if (current.return_type === "refund") {
+                    // Retried here if the gateway failed the first time
+                    current = await refundReturn(supabase, current);
+                    notify(supabase, ret.customer_id, "Refund on its way",
+                        "The vendor received your return and your refund has been initiated.",
+                        ret.order_id, "/orders");
+                } else {
+                    notify(supabase, ret.customer_id, "Return received",
+                        "The vendor received your return and will send the replacement shortly.",
+                        ret.order_id, "/orders");
+                }
+                return jsonResponse({ success: true, return: current });
+            }
+
+            case "ship_exchange": {
+                requireVendor();
+                if (ret.return_type !== "exchange") throw new ReturnError("This is a refund return");
+                if (!body.courier?.trim()) throw new ReturnError("Enter the courier or delivery method");
+
+                const updated = await transition(supabase, ret.id, ["return_received"], {
+                    status: "exchange_shipped",
+                    exchange_courier: body.courier.trim(),
+                    exchange_tracking_number: body.trackingNumber?.trim() || null,
+                    exchange_shipped_at: new Date().toISOString(),
+                });
+                await saveOtp(supabase, ret.id, "exchange", ret.customer_id);
+
+                notify(supabase, ret.customer_id, "Replacement on its way",
+                    "Your replacement has been sent. Share your exchange code with the vendor when it arrives.",
+                    ret.order_id, "/orders");
+                return jsonResponse({ success: true, return: updated });
+            }
+
+            case "confirm_exchange": {
+                requireVendor();
+                await checkOtp(supabase, ret.id, "exchange", body.otp);
+
+                const updated = await transition(supabase, ret.id, ["exchange_shipped"], {
+                    status: "completed",
+                    exchange_delivered_at: new Date().toISOString(),
+                    completed_at: new Date().toISOString(),
+                });
+
+                // Buyer has the right size - the vendor is paid
+                const released = await releaseHeldEscrow(supabase, ret.order_id, "Exchange delivered (code verified)", "[Return]");
+                if (!released) {
+                    // Nothing held, or a concurrent release already completed the order
+                    const { data: order } = await supabase
+                        .from("orders")
+                        .select("status")
+                        .eq("id", ret.order_id)
+                        .single();
+                    if (order?.status !== "completed") {
+                        await transitionOrderStatus(supabase, ret.order_id, "completed", {
+                            reason: "Exchange delivered (code verified)",
+                            metadata: { return_id: ret.id },
+                        });
+                    }
+                }
+
+                notify(supabase, ret.customer_id, "Exchange complete",
+                    "Enjoy your new pair! Your exchange is complete.",
+                    ret.order_id, "/orders");
+                return jsonResponse({ success: true, return: updated, released });
+            }
+
+            default:
+                throw new ReturnError(`Unknown action: ${action}`);
+        }
+    } catch (error) {
+        console.error("[Return] Error:", error);
+        const status = error instanceof ReturnError ? error.status : 500;
+        return jsonResponse({ error: error instanceof Error ? error.message : "Return request failed" }, status);
+    }
+});
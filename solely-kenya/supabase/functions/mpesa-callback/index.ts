@@ -1,201 +1,377 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { settleCheckoutSession, failCheckoutSession, holdOrderEscrow } from '../_shared/checkout-session.ts';
+import { activateSubscriptionPayment, failSubscriptionPayment } from '../_shared/subscription.ts';
+import { verifyMpesaCallback, verifyMpesaSourceIp, getReplayEventId, timingSafeEqual } from '../_shared/webhook-security.ts';
+import { recordWebhookEvent, completeWebhookEvent } from '../_shared/webhook-events.ts';
+import { transitionOrderStatus } from '../_shared/order-status.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+/** A signed callback must carry the nonce stored for this STK push (when one was stored) */
+function isTokenMismatch(storedToken: string | null | undefined, callbackToken: string | null): boolean {
+  return !!storedToken && !!callbackToken && !timingSafeEqual(storedToken, callbackToken);
+}
 
-  try {
-    const payload = await req.json();
-    console.log('M-Pesa callback received:', JSON.stringify(payload, null, 2));
+function rejectedTokenResponse(checkoutRequestId: string): Response {
+  console.warn(`⚠️ Callback token does not match the STK push for ${checkoutRequestId}`);
+  return new Response(
+    JSON.stringify({ success: false, error: 'Callback token mismatch' }),
+    { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
 
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+/**
+ * Apply a verified STK push result to the plan purchase, checkout session or
+ * order payment it belongs to. callbackToken is the nonce from the signed
+ * callback URL; it must match the one stored when the STK push was sent.
+ */
+// deno-lint-ignore no-explicit-any
+async function handleStkCallback(supabase: any, stkCallback: any, callbackToken: string | null): Promise<Response> {
+  const {
+    MerchantRequestID,
+    CheckoutRequestID,
+    ResultCode,
+    ResultDesc,
+    CallbackMetadata,
+  } = stkCallback;
 
-    const { Body } = payload;
-    const { stkCallback } = Body;
+  console.log('Processing callback for CheckoutRequestID:', CheckoutRequestID);
 
-    const {
-      MerchantRequestID,
-      CheckoutRequestID,
-      ResultCode,
-      ResultDesc,
-      CallbackMetadata,
-    } = stkCallback;
+  // Get payment record(s) by checkout request ID - a multi-vendor checkout has one per order
+  const { data: payments, error: fetchError } = await supabase
+    .from('payments')
+    .select('*, orders(id, status, total_ksh, commission_amount, payout_amount)')
+    .eq('transaction_reference', CheckoutRequestID)
+    .eq('gateway', 'mpesa');
 
-    console.log('Processing callback for CheckoutRequestID:', CheckoutRequestID);
+  const payment = payments?.[0];
 
-    // Get payment record by checkout request ID
-    const { data: payment, error: fetchError } = await supabase
-      .from('payments')
-      .select('*, orders(id, status, total_ksh, commission_amount, payout_amount)')
-      .eq('transaction_reference', CheckoutRequestID)
-      .eq('gateway', 'mpesa')
+  if (fetchError || !payment) {
+    console.error('Error fetching payment:', fetchError);
+    // Try legacy mpesa_transactions table for backward compatibility
+    const { data: legacyTransaction } = await supabase
+      .from('mpesa_transactions')
+      .select('*')
+      .eq('checkout_request_id', CheckoutRequestID)
       .single();
 
-    if (fetchError || !payment) {
-      console.error('Error fetching payment:', fetchError);
-      // Try legacy mpesa_transactions table for backward compatibility
-      const { data: legacyTransaction } = await supabase
+    if (legacyTransaction) {
+      if (isTokenMismatch(legacyTransaction.callback_token, callbackToken)) {
+        return rejectedTokenResponse(CheckoutRequestID);
+      }
+
+      // Vendor plan purchase (STK push sent by vendor-subscribe via mpesa-stk-push)
+      let receiptNumber = '';
+      let amountPaid: number | null = null;
+      for (const item of CallbackMetadata?.Item ?? []) {
+        if (item.Name === 'MpesaReceiptNumber') receiptNumber = item.Value;
+        if (item.Name === 'Amount') amountPaid = Number(item.Value);
+      }
+
+      await supabase
         .from('mpesa_transactions')
-        .select('*')
-        .eq('checkout_request_id', CheckoutRequestID)
-        .single();
+        .update({
+          status: ResultCode === 0 ? 'completed' : 'failed',
+          mpesa_receipt_number: receiptNumber || null,
+          result_code: ResultCode,
+          result_desc: ResultDesc,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', legacyTransaction.id);
+
+      const { data: subscriptionPayment } = await supabase
+        .from('subscription_payments')
+        .select('id')
+        .eq('transaction_reference', CheckoutRequestID)
+        .eq('gateway', 'mpesa')
+        .maybeSingle();
 
-      if (legacyTransaction) {
-        // Handle legacy subscription payments
-        return new Response(
-          JSON.stringify({ success: true, message: 'Legacy transaction processed' }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+      if (subscriptionPayment) {
+        if (ResultCode === 0) {
+          await activateSubscriptionPayment(supabase, subscriptionPayment.id, {
+            transactionId: receiptNumber || CheckoutRequestID,
+            amountPaid,
+            logTag: '[M-Pesa Callback]',
+          });
+        } else {
+          await failSubscriptionPayment(supabase, subscriptionPayment.id, ResultDesc, '[M-Pesa Callback]');
+        }
       }
 
       return new Response(
-        JSON.stringify({ success: false, error: 'Payment not found' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: true, message: 'Legacy transaction processed' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (ResultCode === 0) {
-      // Payment successful
-      console.log('M-Pesa payment successful for order:', payment.order_id);
-
-      // Extract payment details from callback metadata
-      let mpesaReceiptNumber = '';
-      let transactionDate = '';
-
-      if (CallbackMetadata && CallbackMetadata.Item) {
-        for (const item of CallbackMetadata.Item) {
-          if (item.Name === 'MpesaReceiptNumber') {
-            mpesaReceiptNumber = item.Value;
-          } else if (item.Name === 'TransactionDate') {
-            transactionDate = item.Value.toString();
-          }
-        }
+    return new Response(
+      JSON.stringify({ success: false, error: 'Payment not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (isTokenMismatch(payment.metadata?.callback_token, callbackToken)) {
+    return rejectedTokenResponse(CheckoutRequestID);
+  }
+
+  // Extract payment details from callback metadata
+  let mpesaReceiptNumber = '';
+  let transactionDate = '';
+  let amountPaid: number | null = null;
+
+  if (CallbackMetadata && CallbackMetadata.Item) {
+    for (const item of CallbackMetadata.Item) {
+      if (item.Name === 'MpesaReceiptNumber') {
+        mpesaReceiptNumber = item.Value;
+      } else if (item.Name === 'TransactionDate') {
+        transactionDate = item.Value.toString();
+      } else if (item.Name === 'Amount') {
+        amountPaid = Number(item.Value);
       }
+    }
+  }
 
-      // Update payment status
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'captured',
-          captured_at: new Date().toISOString(),
-          transaction_reference: mpesaReceiptNumber || CheckoutRequestID,
-          metadata: {
-            ...(payment.metadata || {}),
-            mpesa_receipt_number: mpesaReceiptNumber,
-            transaction_date: transactionDate,
-            merchant_request_id: MerchantRequestID,
-            result_code: ResultCode,
-            result_desc: ResultDesc,
-          },
-        })
-        .eq('id', payment.id);
+  // Shared payment for a multi-vendor checkout: settle every order in the session
+  if (payment.checkout_session_id) {
+    const sessionId = payment.checkout_session_id;
+    const callbackMetadata = {
+      mpesa_receipt_number: mpesaReceiptNumber,
+      transaction_date: transactionDate,
+      merchant_request_id: MerchantRequestID,
+      result_code: ResultCode,
+      result_desc: ResultDesc,
+    };
 
-      if (updateError) {
-        console.error('Error updating payment:', updateError);
+    if (ResultCode === 0) {
+      console.log('M-Pesa payment successful for checkout session:', sessionId);
+
+      const result = await settleCheckoutSession(supabase, sessionId, {
+        gateway: 'mpesa',
+        transactionId: mpesaReceiptNumber || CheckoutRequestID,
+        amountPaid,
+        metadata: callbackMetadata,
+        logTag: '[M-Pesa Callback]',
+      });
+
+      if (!result.success) {
+        console.error(`M-Pesa session ${sessionId} not settled: ${result.error}`);
       }
+    } else {
+      console.log('M-Pesa payment failed for checkout session:', sessionId, ResultDesc);
+      await failCheckoutSession(supabase, sessionId, ResultDesc || null, '[M-Pesa Callback]');
+    }
+
+    // Keep the M-Pesa details on every order's payment row
+    await supabase
+      .from('payments')
+      .update({
+        transaction_reference: ResultCode === 0 ? (mpesaReceiptNumber || CheckoutRequestID) : CheckoutRequestID,
+        metadata: { ...(payment.metadata || {}), ...callbackMetadata },
+      })
+      .eq('checkout_session_id', sessionId);
 
-      // Check if this is a delivery fee payment
-      const isDeliveryFee = payment.metadata?.is_delivery_fee === true;
-      
-      if (isDeliveryFee) {
-        // This is an additional payment for delivery fee
-        // Get the order to update escrow with new totals
-        const { data: order } = await supabase
-          .from('orders')
-          .select('total_ksh, commission_amount, payout_amount')
-          .eq('id', payment.order_id)
+    return new Response(
+      JSON.stringify({ success: true, message: 'Callback processed' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (ResultCode === 0) {
+    // Payment successful
+    console.log('M-Pesa payment successful for order:', payment.order_id);
+
+    // Update payment status
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status: 'captured',
+        captured_at: new Date().toISOString(),
+        transaction_reference: mpesaReceiptNumber || CheckoutRequestID,
+        metadata: {
+          ...(payment.metadata || {}),
+          mpesa_receipt_number: mpesaReceiptNumber,
+          transaction_date: transactionDate,
+          merchant_request_id: MerchantRequestID,
+          result_code: ResultCode,
+          result_desc: ResultDesc,
+        },
+      })
+      .eq('id', payment.id);
+
+    if (updateError) {
+      console.error('Error updating payment:', updateError);
+    }
+
+    // Check if this is a delivery fee payment
+    const isDeliveryFee = payment.metadata?.is_delivery_fee === true;
+    
+    if (isDeliveryFee) {
+      // This is an additional payment for delivery fee
+      // Get the order to update escrow with new totals
+      const { data: order } = await supabase
+        .from('orders')
+        .select('total_ksh, commission_amount, payout_amount')
+        .eq('id', payment.order_id)
+        .single();
+
+      if (order) {
+        // Update escrow transaction with new totals
+        const { data: escrow } = await supabase
+          .from('escrow_transactions')
+          .select('id, held_amount')
+          .eq('order_id', payment.order_id)
           .single();
 
-        if (order) {
-          // Update escrow transaction with new totals
-          const { data: escrow } = await supabase
-            .from('escrow_transactions')
-            .select('id, held_amount')
-            .eq('order_id', payment.order_id)
-            .single();
-
-          if (escrow) {
-            await supabase
-              .from('escrow_transactions')
-              .update({
-                held_amount: order.total_ksh,
-                commission_amount: order.commission_amount,
-                release_amount: order.payout_amount,
-              })
-              .eq('id', escrow.id);
-          }
-        }
-      } else {
-        // This is the initial payment
-        // Update order status to pending_vendor_confirmation
-        if (payment.orders) {
+        if (escrow) {
           await supabase
-            .from('orders')
+            .from('escrow_transactions')
             .update({
-              status: 'pending_vendor_confirmation',
+              held_amount: order.total_ksh,
+              commission_amount: order.commission_amount,
+              release_amount: order.payout_amount,
             })
-            .eq('id', payment.order_id);
-
-          // Ensure escrow transaction exists
-          const { data: escrow } = await supabase
-            .from('escrow_transactions')
-            .select('id')
-            .eq('order_id', payment.order_id)
-            .single();
-
-          if (!escrow && payment.orders) {
-            await supabase
-              .from('escrow_transactions')
-              .insert({
-                order_id: payment.order_id,
-                payment_id: payment.id,
-                status: 'held',
-                held_amount: payment.orders.total_ksh,
-                commission_amount: payment.orders.commission_amount,
-                release_amount: payment.orders.payout_amount,
-              });
+            .eq('id', escrow.id);
+        }
+      }
+    } else {
+      // This is the initial payment
+      // Update order status to pending_vendor_confirmation
+      if (payment.orders) {
+        if (payment.orders.status === 'pending_payment') {
+          try {
+            await transitionOrderStatus(supabase, payment.order_id, 'pending_vendor_confirmation', {
+              reason: 'Payment confirmed',
+            });
+          } catch (err) {
+            console.error('Error updating order status:', err);
           }
         }
+
+        // Ensure escrow transaction exists
+        await holdOrderEscrow(supabase, payment.orders, payment.id, '[M-Pesa Callback]');
       }
+    }
 
-      console.log(`M-Pesa payment processed successfully for order ${payment.order_id}`);
-    } else {
-      // Payment failed
-      console.log('M-Pesa payment failed:', ResultDesc);
+    console.log(`M-Pesa payment processed successfully for order ${payment.order_id}`);
+  } else {
+    // Payment failed
+    console.log('M-Pesa payment failed:', ResultDesc);
 
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'pending', // Keep as pending for retry
-          metadata: {
-            ...(payment.metadata || {}),
-            result_code: ResultCode,
-            result_desc: ResultDesc,
-            merchant_request_id: MerchantRequestID,
-          },
-        })
-        .eq('id', payment.id);
+    const { error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status: 'pending', // Keep as pending for retry
+        metadata: {
+          ...(payment.metadata || {}),
+          result_code: ResultCode,
+          result_desc: ResultDesc,
+          merchant_request_id: MerchantRequestID,
+        },
+      })
+      .eq('id', payment.id);
 
-      if (updateError) {
-        console.error('Error updating failed payment:', updateError);
-      }
+    if (updateError) {
+      console.error('Error updating failed payment:', updateError);
     }
+  }
 
-    return new Response(
-      JSON.stringify({ success: true, message: 'Callback processed' }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  return new Response(
+    JSON.stringify({ success: true, message: 'Callback processed' }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const payload = await req.json();
+    console.log('M-Pesa callback received:', JSON.stringify(payload, null, 2));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const stkCallback = payload?.Body?.stkCallback;
+    if (!stkCallback?.CheckoutRequestID) {
+      console.warn('M-Pesa callback without stkCallback - ignoring');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid callback payload' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Daraja callbacks are unsigned - trust only our signed per-request URL
+    // (and Safaricom's IPs when configured); redeliveries of a processed callback are no-ops
+    const replayEventId = getReplayEventId(req);
+    const urlCheck = replayEventId ? { ok: true, token: null } : await verifyMpesaCallback(req);
+    const ipCheck = replayEventId ? { ok: true } : verifyMpesaSourceIp(req);
+
+    // Not recorded as rejected: Daraja retries and the callback is processed once the secret is set
+    if (urlCheck.misconfigured) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Callback verification is not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const verified = urlCheck.ok && ipCheck.ok;
+    const verificationError = !urlCheck.ok ? urlCheck.reason : !ipCheck.ok ? ipCheck.reason : null;
+
+    const event = await recordWebhookEvent(supabase, {
+      provider: 'mpesa',
+      eventId: stkCallback.CheckoutRequestID,
+      eventType: String(stkCallback.ResultCode ?? ''),
+      reference: stkCallback.CheckoutRequestID,
+      payload,
+      verified,
+      verificationError,
+      replay: !!replayEventId,
+    });
+
+    if (!verified) {
+      console.warn(`⚠️ Rejected M-Pesa callback ${stkCallback.CheckoutRequestID}: ${verificationError}`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Callback verification failed' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (event.duplicate) {
+      console.log(`M-Pesa callback ${stkCallback.CheckoutRequestID} already processed - ignoring redelivery`);
+      return new Response(
+        JSON.stringify({ success: true, message: 'Already processed' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await handleStkCallback(supabase, stkCallback, urlCheck.token);
+    } catch (processingError) {
+      await completeWebhookEvent(
+        supabase,
+        event.id,
+        'failed',
+        processingError instanceof Error ? processingError.message : String(processingError)
+      );
+      throw processingError;
+    }
+
+    await completeWebhookEvent(
+      supabase,
+      event.id,
+      response.ok ? 'processed' : response.status === 403 ? 'rejected' : 'failed',
+      response.ok ? null : `Responded ${response.status}`
     );
+    return response;
   } catch (error) {
     console.error('Error in mpesa-callback:', error);
     return new Response(
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { signMpesaCallbackUrl } from '../_shared/webhook-security.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,11 +14,11 @@ serve(async (req) => {
   }
 
   try {
-    const { orderId, phoneNumber } = await req.json();
+    const { orderId, checkoutSessionId, phoneNumber } = await req.json();
 
-    if (!orderId || !phoneNumber) {
+    if ((!orderId && !checkoutSessionId) || !phoneNumber) {
       return new Response(
-        JSON.stringify({ error: 'Missing orderId or phoneNumber' }),
+        JSON.stringify({ error: 'Missing orderId/checkoutSessionId or phoneNumber' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -27,17 +28,41 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Get order details
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('*, payments(id, status)')
-      .eq('id', orderId)
-      .single();
+    // Multi-vendor checkouts are paid once for every order in the session
+    let session: { id: string; total_ksh: number; status: string } | null = null;
+    let order: { total_ksh: number; payments?: { id: string; status: string }[] } | null = null;
 
-    if (orderError || !order) {
-      throw new Error('Order not found');
+    if (checkoutSessionId) {
+      const { data, error: sessionError } = await supabase
+        .from('checkout_sessions')
+        .select('id, total_ksh, status')
+        .eq('id', checkoutSessionId)
+        .single();
+
+      if (sessionError || !data) {
+        throw new Error('Checkout session not found');
+      }
+      if (data.status !== 'pending') {
+        throw new Error(`Checkout session is already ${data.status}`);
+      }
+      session = data;
+    } else {
+      // Get order details
+      const { data, error: orderError } = await supabase
+        .from('orders')
+        .select('*, payments(id, status)')
+        .eq('id', orderId)
+        .single();
+
+      if (orderError || !data) {
+        throw new Error('Order not found');
+      }
+      order = data;
     }
 
+    const amountKsh = session ? session.total_ksh : order!.total_ksh;
+    const reference = (session ? session.id : orderId) as string;
+
     // Get M-Pesa configuration
     const consumerKey = Deno.env.get('MPESA_CONSUMER_KEY');
     const consumerSecret = Deno.env.get('MPESA_CONSUMER_SECRET');
@@ -97,6 +122,9 @@ serve(async (req) => {
       formattedPhone = '254' + formattedPhone;
     }
 
+    // Per-request callback URL - mpesa-callback only trusts callbacks carrying this token
+    const signedCallback = await signMpesaCallbackUrl(callbackUrl!);
+
     // Initiate STK push
     const stkPushResponse = await fetch(
       'https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest',
@@ -111,13 +139,13 @@ serve(async (req) => {
           Password: password,
           Timestamp: timestamp,
           TransactionType: 'CustomerPayBillOnline',
-          Amount: Math.round(order.total_ksh),
+          Amount: Math.round(amountKsh),
           PartyA: formattedPhone,
           PartyB: shortCode,
           PhoneNumber: formattedPhone,
-          CallBackURL: callbackUrl,
-          AccountReference: `ORDER-${orderId.substring(0, 8).toUpperCase()}`,
-          TransactionDesc: `Order Payment - Order #${orderId.substring(0, 8)}`,
+          CallBackURL: signedCallback.url,
+          AccountReference: `ORDER-${reference.substring(0, 8).toUpperCase()}`,
+          TransactionDesc: `Order Payment - Order #${reference.substring(0, 8)}`,
         }),
       }
     );
@@ -132,31 +160,52 @@ serve(async (req) => {
     console.log('M-Pesa STK Push response:', JSON.stringify(stkPushData));
 
     if (stkPushData.ResponseCode === '0') {
-      // Update or create payment record
-      const existingPayment = order.payments?.[0];
-      const paymentData = {
-        order_id: orderId,
-        gateway: 'mpesa' as const,
-        status: 'pending' as const,
-        transaction_reference: stkPushData.CheckoutRequestID,
-        amount_ksh: order.total_ksh,
-        currency: 'KES',
-        metadata: {
-          merchant_request_id: stkPushData.MerchantRequestID,
-          checkout_request_id: stkPushData.CheckoutRequestID,
-          phone_number: formattedPhone,
-        },
+      const stkMetadata = {
+        merchant_request_id: stkPushData.MerchantRequestID,
+        checkout_request_id: stkPushData.CheckoutRequestID,
+        phone_number: formattedPhone,
+        callback_token: signedCallback.token,
       };
 
-      if (existingPayment) {
+      if (session) {
+        // Every order's payment row shares the STK request so the callback can settle them together
         await supabase
           .from('payments')
-          .update(paymentData)
-          .eq('id', existingPayment.id);
-      } else {
+          .update({
+            gateway: 'mpesa',
+            status: 'pending',
+            transaction_reference: stkPushData.CheckoutRequestID,
+            metadata: stkMetadata,
+          })
+          .eq('checkout_session_id', session.id);
+
         await supabase
-          .from('payments')
-          .insert(paymentData);
+          .from('checkout_sessions')
+          .update({ gateway: 'mpesa', updated_at: new Date().toISOString() })
+          .eq('id', session.id);
+      } else {
+        // Update or create payment record
+        const existingPayment = order?.payments?.[0];
+        const paymentData = {
+          order_id: orderId,
+          gateway: 'mpesa' as const,
+          status: 'pending' as const,
+          transaction_reference: stkPushData.CheckoutRequestID,
+          amount_ksh: amountKsh,
+          currency: 'KES',
+          metadata: stkMetadata,
+        };
+
+        if (existingPayment) {
+          await supabase
+            .from('payments')
+            .update(paymentData)
+            .eq('id', existingPayment.id);
+        } else {
+          await supabase
+            .from('payments')
+            .insert(paymentData);
+        }
       }
 
       return new Response(
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { signMpesaCallbackUrl } from '../_shared/webhook-security.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -62,6 +63,9 @@ serve(async (req) => {
 
     console.log('Formatted phone number:', formattedPhone);
 
+    // Per-request callback URL - mpesa-callback only trusts callbacks carrying this token
+    const signedCallback = await signMpesaCallbackUrl(callbackUrl);
+
     // Initiate STK push
     const stkPushResponse = await fetch(
       'https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest',
@@ -80,7 +84,7 @@ serve(async (req) => {
           PartyA: formattedPhone,
           PartyB: shortCode,
           PhoneNumber: formattedPhone,
-          CallBackURL: callbackUrl,
+          CallBackURL: signedCallback.url,
           AccountReference: accountReference,
           TransactionDesc: `Subscription Payment - ${plan}`,
         }),
@@ -107,6 +111,7 @@ serve(async (req) => {
           amount: amount,
           plan: plan,
           status: 'pending',
+          callback_token: signedCallback.token,
         });
 
       if (insertError) {
@@ -87,6 +87,7 @@ Deno.serve(async (req: Request) => {
         const getResolutionMessage = () => {
             if (isRefund) return "Your payment will be refunded.";
             if (dispute.status === "resolved_release") return "Payment has been released to the vendor.";
+            if (dispute.status === "awaiting_return") return "Please send the item back to the vendor. Your refund is issued as soon as they receive it.";
             if (dispute.resolution_notes) return dispute.resolution_notes;
             return "Our team has reviewed this case.";
         };
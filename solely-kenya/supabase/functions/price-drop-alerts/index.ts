@@ -0,0 +1,135 @@
+/**
+ * Price Drop Alerts
+ *
+ * Tells buyers when a product they are watching gets cheaper: web push, email and an
+ * in-app notification per alert.
+ *
+ * - Price cut (notify_price_drop trigger via pg_net): { productId }
+ * - Hourly (pg_cron): {} - every due alert, in case the immediate call failed
+ *
+ * claim_price_drop_alerts() marks the alerts as notified before anything is sent,
+ * so concurrent runs never message the same alert twice.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+type ClaimedAlert = {
+    alert_id: string;
+    user_id: string;
+    product_id: string;
+    product_name: string;
+    brand: string | null;
+    image: string | null;
+    previous_price: number;
+    current_price: number;
+    target_price: number | null;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+const formatKes = (amount: number) => `KES ${Number(amount).toLocaleString()}`;
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const productId: string | null = body.productId ?? null;
+
+        const { data, error } = await supabase.rpc("claim_price_drop_alerts", { p_product_id: productId });
+        if (error) throw error;
+
+        const alerts = (data ?? []) as ClaimedAlert[];
+        let emailed = 0;
+
+        for (const alert of alerts) {
+            const name = alert.brand && !alert.product_name.toLowerCase().startsWith(alert.brand.toLowerCase())
+                ? `${alert.brand} ${alert.product_name}`
+                : alert.product_name;
+            const title = alert.target_price ? "Target price reached" : "Price drop";
+            const message = `${name} is now ${formatKes(alert.current_price)} (was ${formatKes(alert.previous_price)})`;
+
+            try {
+                await supabase.from("notifications").insert({
+                    user_id: alert.user_id,
+                    type: "price_drop",
+                    title,
+                    message,
+                    related_id: alert.product_id,
+                });
+
+                await supabase.functions
+                    .invoke("send-push-notification", {
+                        body: {
+                            userId: alert.user_id,
+                            title: `📉 ${title}`,
+                            body: message,
+                            url: `/product/${alert.product_id}`,
+                            tag: `price-drop-${alert.product_id}`,
+                        },
+                    })
+                    .catch((err: Error) => console.log("[PriceDropAlerts] Push notification failed (non-critical):", err));
+
+                const { data: userData } = await supabase.auth.admin.getUserById(alert.user_id);
+                const email = userData?.user?.email;
+                if (email) {
+                    const { data: profile } = await supabase
+                        .from("profiles")
+                        .select("full_name")
+                        .eq("id", alert.user_id)
+                        .maybeSingle();
+
+                    const result = await sendEmail({
+                        to: email,
+                        subject: `📉 ${name} is now ${formatKes(alert.current_price)}`,
+                        html: emailTemplates.priceDrop({
+                            customerName: profile?.full_name || "there",
+                            productName: name,
+                            previousPrice: Number(alert.previous_price),
+                            currentPrice: Number(alert.current_price),
+                            targetPrice: alert.target_price !== null ? Number(alert.target_price) : null,
+                            image: alert.image,
+                            productUrl: `${SITE_URL}/product/${alert.product_id}`,
+                            manageUrl: `${SITE_URL}/alerts`,
+                        }),
+                    });
+                    if (result.success) emailed++;
+                }
+            } catch (error) {
+                // Already claimed; a failed message is logged rather than resent
+                console.error(`[PriceDropAlerts] Failed to notify alert ${alert.alert_id}:`, error);
+            }
+        }
+
+        console.log(`[PriceDropAlerts] ${productId ? `Product ${productId}` : "Sweep"}: ${alerts.length} alerts, ${emailed} emails`);
+
+        return jsonResponse({ success: true, alerts: alerts.length, emailed });
+    } catch (error) {
+        console.error("[PriceDropAlerts] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
@@ -6,6 +6,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { postJournalEntry } from "../_shared/ledger.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -146,28 +147,24 @@ serve(async (req: Request) => {
             // Do not throw, continue to update balance
         }
 
-        // Update vendor balance to 0 and increment total_paid_out
-        // First get current total_paid_out
-        const { data: currentBalance } = await supabase
-            .from('vendor_balances')
-            .select('total_paid_out')
-            .eq('vendor_id', vendor_id)
-            .single();
-
-        const currentPaidOut = currentBalance?.total_paid_out || 0;
-
-        const { error: balanceError } = await supabase
-            .from('vendor_balances')
-            .update({
-                pending_balance: 0,
-                total_paid_out: currentPaidOut + netPayout,
-                last_payout_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
-            })
-            .eq('vendor_id', vendor_id);
+        // Post the payout - the vendor's balance is derived from the ledger.
+        // Sent from the vendor's wallet; the vendor pays the disbursement fee.
+        const trackingId = intasendResult.tracking_id || intasendResult.id || `auto-${Date.now()}`;
+        const { error: ledgerError } = await postJournalEntry(supabase, {
+            type: 'payout',
+            idempotencyKey: payoutId ? `payout:${payoutId}` : `auto_payout:${trackingId}`,
+            payoutId,
+            description: 'Automatic payout to vendor M-Pesa',
+            metadata: { tracking_id: trackingId, fee: transactionFee },
+            lines: [
+                { account: 'vendor_payable', vendor_id, debit: balance },
+                { account: 'vendor_wallet', vendor_id, credit: netPayout, memo: 'Sent to M-Pesa' },
+                { account: 'vendor_wallet', vendor_id, credit: transactionFee, memo: 'Disbursement fee (paid by vendor)' },
+            ],
+        });
 
-        if (balanceError) {
-            console.error('Failed to update balance:', balanceError);
+        if (ledgerError) {
+            console.error('Failed to post payout to ledger:', ledgerError);
         }
 
         console.log(`Auto-payout successful: ${payoutId || 'no-record'}`);
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { signMpesaCallbackUrl } from '../_shared/webhook-security.ts';
 import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno';
 
 const corsHeaders = {
@@ -167,6 +168,9 @@ serve(async (req) => {
         formattedPhone = '254' + formattedPhone;
       }
 
+      // Per-request callback URL - mpesa-callback only trusts callbacks carrying this token
+      const signedCallback = await signMpesaCallbackUrl(callbackUrl);
+
       // Initiate STK push for additional amount
       const stkPushResponse = await fetch(
         'https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest',
@@ -185,7 +189,7 @@ serve(async (req) => {
             PartyA: formattedPhone,
             PartyB: shortCode,
             PhoneNumber: formattedPhone,
-            CallBackURL: callbackUrl,
+            CallBackURL: signedCallback.url,
             AccountReference: `DELIVERY-${orderId.substring(0, 8).toUpperCase()}`,
             TransactionDesc: `Delivery Fee - Order #${orderId.substring(0, 8)}`,
           }),
@@ -205,6 +209,7 @@ serve(async (req) => {
               merchant_request_id: stkPushData.MerchantRequestID,
               checkout_request_id: stkPushData.CheckoutRequestID,
               phone_number: formattedPhone,
+              callback_token: signedCallback.token,
             },
           })
           .eq('id', additionalPayment.id);
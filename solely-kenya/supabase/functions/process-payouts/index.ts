@@ -8,6 +8,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { postJournalEntry } from '../_shared/ledger.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -138,6 +139,26 @@ serve(async (req) => {
           })
           .eq('id', payout.id);
 
+        // Post the payout: paid from the vendor's wallet, fee absorbed by the platform
+        const { error: ledgerError } = await postJournalEntry(supabase, {
+          type: 'payout',
+          idempotencyKey: `payout:${payout.id}`,
+          orderId: payout.order_id,
+          payoutId: payout.id,
+          description: 'Batch payout to vendor M-Pesa',
+          metadata: { tracking_id: intasendResult.tracking_id ?? null },
+          lines: [
+            { account: 'vendor_payable', vendor_id: payout.vendor_id, debit: Number(payout.amount_ksh) },
+            { account: 'vendor_wallet', vendor_id: payout.vendor_id, credit: Number(payout.amount_ksh), memo: 'Sent to M-Pesa' },
+            { account: 'gateway_fees', debit: PAYOUT_FEE, memo: 'Payout fee (absorbed by platform)' },
+            { account: 'buyer_funds', credit: PAYOUT_FEE },
+          ],
+        });
+
+        if (ledgerError) {
+          console.error(`Failed to post payout ${payout.id} to ledger:`, ledgerError);
+        }
+
         processedPayouts.push(payout.id);
         console.log(`✅ Initiated payout ${payout.id} - KES ${payout.amount_ksh} to ${phoneNumber}`);
 
@@ -3,10 +3,20 @@
  * 
  * Called when admin resolves a dispute with refund action.
  * Uses IntaSend's Chargeback API to initiate refund.
+ * The refund is posted to the ledger (out of escrow, or reversing the release).
+ *
+ * Partial refunds ({ items: [{ orderItemId, quantity }], refundDeliveryFee, amount }) can be
+ * made by admins or the order's vendor. Held escrow shrinks by the refund and commission is
+ * recalculated on the retained portion (reserve_order_refund / settle_order_refund);
+ * with releaseRemainder (admin dispute resolution) the rest is released to the vendor.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { postRefund } from "../_shared/ledger.ts";
+import { recordCommission } from "../_shared/commission.ts";
+import { releaseHeldEscrow } from "../_shared/escrow.ts";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -24,6 +34,54 @@ const mapReasonToIntaSend = (reason: string): string => {
     return mapping[reason] || "Other";
 };
 
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+// reserve_order_refund raises "CODE: message"; show the message
+const rpcErrorMessage = (error: { message?: string }) =>
+    (error.message || "Refund could not be reserved").replace(/^[A-Z_]+:\s*/, "");
+
+async function requestChargeback(secretKey: string, invoice: string, amount: number, reason: string) {
+    const chargebackPayload = {
+        invoice,
+        amount,
+        reason: mapReasonToIntaSend(reason),
+    };
+
+    console.log("[Refund] Chargeback payload:", JSON.stringify(chargebackPayload));
+
+    const response = await fetch("https://api.intasend.com/api/v1/chargebacks/", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${secretKey}`,
+        },
+        body: JSON.stringify(chargebackPayload),
+    });
+
+    const responseText = await response.text();
+    console.log("[Refund] IntaSend response:", responseText);
+
+    let data;
+    try {
+        data = JSON.parse(responseText);
+    } catch {
+        console.error("[Refund] Invalid JSON response from IntaSend");
+        throw new Error("IntaSend returned invalid response");
+    }
+
+    if (!response.ok) {
+        const errorMessage = data?.detail || data?.message || data?.error || "Refund request failed";
+        console.error("[Refund] IntaSend error:", errorMessage);
+        throw new Error(`IntaSend: ${errorMessage}`);
+    }
+
+    return data;
+}
+
 serve(async (req: Request) => {
     if (req.method === "OPTIONS") {
         return new Response(null, { headers: corsHeaders });
@@ -40,34 +98,78 @@ serve(async (req: Request) => {
 
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-        const { orderId, disputeId, reason } = await req.json();
+        const { orderId, disputeId, reason, items, refundDeliveryFee, amount, releaseRemainder } = await req.json();
 
         if (!orderId) {
             throw new Error("orderId is required");
         }
 
-        console.log(`[Refund] Processing refund for order: ${orderId}`);
+        const isPartial = (Array.isArray(items) && items.length > 0) || !!refundDeliveryFee || Number(amount) > 0;
+
+        // Cron jobs call with the service role key; users must be an admin or (partial refunds) the order's vendor
+        const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+        let requestedBy: string | null = null;
+        let requestedRole: "admin" | "vendor" | "system" = "system";
+
+        if (token !== supabaseServiceKey) {
+            const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+            if (authError || !user) {
+                return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+            }
+
+            const { data: adminRole } = await supabase
+                .from("user_roles")
+                .select("role")
+                .eq("user_id", user.id)
+                .eq("role", "admin")
+                .maybeSingle();
+
+            if (adminRole) {
+                requestedRole = "admin";
+            } else {
+                const { data: vendorOrder } = await supabase
+                    .from("orders")
+                    .select("id")
+                    .eq("id", orderId)
+                    .eq("vendor_id", user.id)
+                    .maybeSingle();
+
+                if (!vendorOrder || !isPartial || disputeId || releaseRemainder) {
+                    return jsonResponse({ success: false, error: "Not allowed to refund this order" }, 403);
+                }
+                requestedRole = "vendor";
+            }
+            requestedBy = user.id;
+        }
+
+        console.log(`[Refund] Processing ${isPartial ? "partial " : ""}refund for order: ${orderId}`);
 
-        // 1. Fetch payment record to get transaction_id
+        // 1. Fetch the captured payment to get transaction_id (the order's own payment, not a later delivery fee top-up)
         const { data: payment, error: paymentError } = await supabase
             .from("payments")
-            .select("id, transaction_id, amount_ksh, status, gateway")
+            .select("id, transaction_id, amount_ksh, refunded_amount_ksh, status, gateway")
             .eq("order_id", orderId)
+            .eq("status", "captured")
             .order("created_at", { ascending: true })
             .limit(1)
-            .single();
+            .maybeSingle();
 
         if (paymentError || !payment) {
-            console.error("[Refund] Payment not found:", paymentError);
-            throw new Error("Payment record not found for this order");
-        }
+            const { data: refundedPayment } = await supabase
+                .from("payments")
+                .select("id")
+                .eq("order_id", orderId)
+                .eq("status", "refunded")
+                .limit(1)
+                .maybeSingle();
+
+            if (refundedPayment) {
+                console.log("[Refund] Payment already refunded");
+                return jsonResponse({ success: true, message: "Payment already refunded", alreadyRefunded: true });
+            }
 
-        if (payment.status === "refunded") {
-            console.log("[Refund] Payment already refunded");
-            return new Response(
-                JSON.stringify({ success: true, message: "Payment already refunded", alreadyRefunded: true }),
-                { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-            );
+            console.error("[Refund] Captured payment not found:", paymentError);
+            throw new Error("Payment record not found for this order");
         }
 
         if (!payment.transaction_id) {
@@ -75,91 +177,173 @@ serve(async (req: Request) => {
             throw new Error("Cannot process refund: No transaction reference found. This order may have been placed before the webhook fix.");
         }
 
-        // 2. Call IntaSend Chargeback API
-        console.log(`[Refund] Calling IntaSend chargeback API for invoice: ${payment.transaction_id}`);
+        if (isPartial) {
+            // 2. Validate against what is left and claim the items
+            const { data: refund, error: reserveError } = await supabase.rpc("reserve_order_refund", {
+                p_order_id: orderId,
+                p_items: (items ?? []).map((item: { orderItemId: string; quantity: number }) => ({
+                    order_item_id: item.orderItemId,
+                    quantity: Number(item.quantity),
+                })),
+                p_refund_delivery: !!refundDeliveryFee,
+                p_amount: Number(amount) || 0,
+                p_reason: reason ?? null,
+                p_dispute_id: disputeId ?? null,
+                p_requested_by: requestedBy,
+                p_requested_role: requestedRole,
+            });
 
-        const chargebackPayload = {
-            invoice: payment.transaction_id,
-            amount: Number(payment.amount_ksh),
-            reason: mapReasonToIntaSend(reason || "other"),
-        };
-
-        console.log("[Refund] Chargeback payload:", JSON.stringify(chargebackPayload));
-
-        const response = await fetch("https://api.intasend.com/api/v1/chargebacks/", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${intaSendSecretKey}`,
-            },
-            body: JSON.stringify(chargebackPayload),
-        });
+            if (reserveError || !refund) {
+                console.error("[Refund] Could not reserve partial refund:", reserveError);
+                return jsonResponse({ success: false, error: rpcErrorMessage(reserveError ?? {}) }, 400);
+            }
 
-        const responseText = await response.text();
-        console.log("[Refund] IntaSend response:", responseText);
+            // 3. Ask IntaSend for the money back; give the items back if it refuses
+            let chargeback;
+            try {
+                chargeback = await requestChargeback(intaSendSecretKey, payment.transaction_id, Number(refund.amount_ksh), reason || "other");
+            } catch (error) {
+                await supabase.rpc("settle_order_refund", {
+                    p_refund_id: refund.id,
+                    p_succeeded: false,
+                    p_error: error instanceof Error ? error.message : "Chargeback failed",
+                });
+                throw error;
+            }
 
-        let data;
-        try {
-            data = JSON.parse(responseText);
-        } catch {
-            console.error("[Refund] Invalid JSON response from IntaSend");
-            throw new Error("IntaSend returned invalid response");
-        }
+            // 4. Apply to order, escrow and payment (commission recalculated on the retained portion)
+            const { error: settleError } = await supabase.rpc("settle_order_refund", {
+                p_refund_id: refund.id,
+                p_succeeded: true,
+                p_gateway_reference: chargeback?.id ? String(chargeback.id) : null,
+            });
+
+            if (settleError) {
+                console.error("[Refund] Chargeback created but refund could not be settled:", settleError);
+            }
+
+            // 5. Ledger: out of held escrow, or taken back from the vendor share and commission after release
+            const { data: refundedOrder } = await supabase
+                .from("orders")
+                .select("id, vendor_id, total_ksh, subtotal_ksh, commission_rate, commission_amount, commission_rule_id, commission_breakdown")
+                .eq("id", orderId)
+                .single();
 
-        if (!response.ok) {
-            const errorMessage = data?.detail || data?.message || data?.error || "Refund request failed";
-            console.error("[Refund] IntaSend error:", errorMessage);
-            throw new Error(`IntaSend: ${errorMessage}`);
+            if (refundedOrder) {
+                const refundAmount = Number(refund.amount_ksh);
+                const commissionReversed = Number(refund.commission_reversed_ksh);
+                const { error: ledgerError } = await postRefund(supabase, refundedOrder, refundAmount, {
+                    escrowReleased: refund.escrow_released,
+                    releaseAmount: refundAmount - commissionReversed,
+                    commissionAmount: commissionReversed,
+                    idempotencyKey: `refund:${refund.id}`,
+                    description: disputeId ? `Dispute ${disputeId} partial refund` : "Partial refund to buyer",
+                    createdBy: requestedBy,
+                });
+
+                if (ledgerError) {
+                    console.error("[Refund] Failed to post partial refund to ledger:", ledgerError);
+                }
+
+                // Commission already booked at release is reversed for the refunded portion
+                if (refund.escrow_released && commissionReversed > 0) {
+                    await recordCommission(supabase, refundedOrder, "Partial refund after release", -commissionReversed);
+                }
+            }
+
+            // 6. Dispute settled with a partial refund: the vendor gets the rest
+            let released = false;
+            if (releaseRemainder && requestedRole !== "vendor") {
+                try {
+                    released = await releaseHeldEscrow(supabase, orderId, "Released after partial refund", "[Refund]");
+                } catch (releaseError) {
+                    // The refund went through; the remainder stays held for support to release
+                    console.error("[Refund] Failed to release the remainder to the vendor:", releaseError);
+                }
+            }
+
+            return jsonResponse({
+                success: true,
+                message: "Partial refund initiated successfully",
+                refundId: refund.id,
+                amount: Number(refund.amount_ksh),
+                commissionReversed: Number(refund.commission_reversed_ksh),
+                released,
+                chargebackId: chargeback?.id || null,
+            });
         }
 
+        // 2. Call IntaSend Chargeback API for whatever has not been refunded yet
+        const remaining = Number(payment.amount_ksh) - Number(payment.refunded_amount_ksh ?? 0);
+        console.log(`[Refund] Calling IntaSend chargeback API for invoice: ${payment.transaction_id}`);
+
+        const data = await requestChargeback(intaSendSecretKey, payment.transaction_id, remaining, reason || "other");
+
         console.log("[Refund] IntaSend chargeback created successfully");
 
-        // 3. Update payment status
-        const { error: updateError } = await supabase
-            .from("payments")
-            .update({
-                status: "refunded",
-                refunded_at: new Date().toISOString(),
-            })
-            .eq("id", payment.id);
-
-        if (updateError) {
-            console.error("[Refund] Failed to update payment status:", updateError);
+        // 3. Apply to payment, order and escrow in one transaction; the refund row says
+        // whether the escrow had already been released, for the ledger
+        const { data: refund, error: settleError } = await supabase.rpc("settle_full_refund", {
+            p_order_id: orderId,
+            p_payment_id: payment.id,
+            p_amount: remaining,
+            p_gateway_reference: data.id ? String(data.id) : null,
+            p_reason: reason ?? null,
+            p_dispute_id: disputeId ?? null,
+            p_requested_by: requestedBy,
+            p_requested_role: requestedRole,
+        });
+
+        if (settleError || !refund) {
             // Don't throw - refund was initiated at IntaSend
+            console.error("[Refund] Chargeback created but refund could not be settled:", settleError);
+        } else {
+            // 4. Ledger: out of held escrow, or taken back from the vendor share and commission after release
+            const { data: refundedOrder } = await supabase
+                .from("orders")
+                .select("id, vendor_id")
+                .eq("id", orderId)
+                .single();
+
+            if (refundedOrder) {
+                const commissionReversed = Number(refund.commission_reversed_ksh);
+                const { error: ledgerError } = await postRefund(supabase, refundedOrder, remaining, {
+                    escrowReleased: refund.escrow_released,
+                    releaseAmount: remaining - commissionReversed,
+                    commissionAmount: commissionReversed,
+                    idempotencyKey: `refund:${payment.id}`,
+                    description: disputeId ? `Dispute ${disputeId} refund` : "Refund to buyer",
+                    createdBy: requestedBy,
+                });
+
+                if (ledgerError) {
+                    console.error("[Refund] Failed to post refund to ledger:", ledgerError);
+                }
+            }
         }
 
-        // 4. Update order status if not already refunded
-        await supabase
-            .from("orders")
-            .update({ status: "refunded" })
-            .eq("id", orderId);
-
-        // 5. Update escrow if exists
-        await supabase
-            .from("escrow_transactions")
-            .update({
-                status: "refunded",
-                refunded_at: new Date().toISOString()
-            })
-            .eq("order_id", orderId);
-
-        return new Response(
-            JSON.stringify({
-                success: true,
-                message: "Refund initiated successfully",
-                chargebackId: data.id || null,
-            }),
-            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        // 5. Move the order to refunded
+        try {
+            await transitionOrderStatus(supabase, orderId, "refunded", {
+                reason: disputeId ? "Dispute resolved with a full refund" : "Refunded in full",
+                metadata: { payment_id: payment.id, ...(disputeId ? { dispute_id: disputeId } : {}) },
+            });
+        } catch (transitionError) {
+            // The money is already on its way back - support fixes the status by hand
+            console.error("[Refund] Refund settled but the order could not be marked refunded:", transitionError);
+        }
+
+        return jsonResponse({
+            success: true,
+            message: "Refund initiated successfully",
+            chargebackId: data.id || null,
+        });
 
     } catch (error) {
         console.error("[Refund] Error:", error);
-        return new Response(
-            JSON.stringify({
-                success: false,
-                error: error instanceof Error ? error.message : "Refund processing failed"
-            }),
-            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return jsonResponse({
+            success: false,
+            error: error instanceof Error ? error.message : "Refund processing failed"
+        }, 500);
     }
 });
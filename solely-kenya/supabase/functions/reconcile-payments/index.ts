@@ -0,0 +1,433 @@
+/**
+ * Reconcile Payments
+ *
+ * Compares a gateway statement with our records and stores the discrepancies
+ * (reconciliation_runs / reconciliation_items) for the admin dashboard.
+ *
+ * - Nightly (pg_cron, service role): pulls yesterday's IntaSend settlement wallet
+ *   transactions from the API. Payouts sent from vendor wallets are checked one by
+ *   one against IntaSend's send-money status.
+ * - Admin upload: { provider, csv, fileName?, from?, to? } with an IntaSend or
+ *   M-Pesa (org portal) statement export. Daraja has no listing API, so M-Pesa is CSV only.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import {
+    type InternalRecord,
+    type ReconciliationIssue,
+    type StatementItem,
+    parseStatementCsv,
+    reconcile,
+} from "../_shared/reconciliation.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SETTLEMENT_WALLET_ID = Deno.env.get("INTASEND_SETTLEMENT_WALLET_ID") || "KZRJ8VY";
+const INTASEND_API = "https://api.intasend.com/api/v1";
+
+// Records this far outside the period can still match statement rows (late captures)
+const MATCH_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const MAX_PAYOUT_STATUS_CHECKS = 50;
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+type Provider = "intasend" | "mpesa";
+
+type RequestPayload = {
+    provider?: Provider;
+    csv?: string;
+    fileName?: string;
+    from?: string;
+    to?: string;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+/** Yesterday in Nairobi time, as UTC instants */
+const previousDay = () => {
+    const nowEat = new Date(Date.now() + EAT_OFFSET_MS);
+    const end = Date.UTC(nowEat.getUTCFullYear(), nowEat.getUTCMonth(), nowEat.getUTCDate()) - EAT_OFFSET_MS;
+    return { start: new Date(end - 24 * 60 * 60 * 1000).toISOString(), end: new Date(end).toISOString() };
+};
+
+/**
+ * Settlement wallet transactions in the period. Fee charges and our own transfers to
+ * vendor wallets are left out - they have no payment/payout record to match.
+ */
+async function fetchIntaSendStatement(secretKey: string, period: { start: string; end: string }): Promise<StatementItem[]> {
+    const items: StatementItem[] = [];
+    let url: string | null = `${INTASEND_API}/wallets/${SETTLEMENT_WALLET_ID}/transactions/?page_size=100`;
+
+    while (url) {
+        const response = await fetch(url, {
+            headers: { "Authorization": `Bearer ${secretKey}` },
+        });
+        if (!response.ok) {
+            throw new Error(`IntaSend transactions request failed: ${response.status} ${(await response.text()).substring(0, 200)}`);
+        }
+
+        const page = await response.json();
+        const results: Record<string, any>[] = page.results ?? page ?? [];
+        let reachedStart = false;
+
+        for (const txn of results) {
+            const occurredAt = txn.created_at ? new Date(txn.created_at).toISOString() : null;
+            if (occurredAt && occurredAt < period.start) {
+                reachedStart = true;
+                continue;
+            }
+            if (occurredAt && occurredAt >= period.end) continue;
+
+            const type = String(txn.trans_type ?? "").toUpperCase();
+            const narrative = String(txn.narrative ?? "");
+            if (type === "CHARGE" || type.includes("TRANSFER") || narrative.includes("vendor share")) continue;
+
+            const value = Number(txn.value ?? 0);
+            const reference = txn.invoice?.invoice_id ?? txn.tracking_id ?? txn.transaction_id;
+            if (!reference || value === 0) continue;
+
+            items.push({
+                reference: String(reference),
+                amount: Math.abs(value),
+                direction: value < 0 ? "out" : "in",
+                occurredAt,
+                status: txn.status ?? txn.invoice?.state ?? null,
+                raw: txn,
+            });
+        }
+
+        // Newest first - stop paging once we are before the period
+        url = reachedStart ? null : page.next ?? null;
+    }
+
+    return items;
+}
+
+/** Payments, plan purchases, legacy M-Pesa transactions and payouts around the period */
+async function loadInternalRecords(
+    supabase: any,
+    provider: Provider,
+    period: { start: string; end: string }
+): Promise<InternalRecord[]> {
+    const wideStart = new Date(new Date(period.start).getTime() - MATCH_WINDOW_MS).toISOString();
+    const wideEnd = new Date(new Date(period.end).getTime() + MATCH_WINDOW_MS).toISOString();
+    const records: InternalRecord[] = [];
+
+    const { data: payments, error: paymentsError } = await supabase
+        .from("payments")
+        .select("id, checkout_session_id, amount_ksh, transaction_id, transaction_reference, captured_at")
+        .eq("gateway", provider)
+        .in("status", ["captured", "refunded"])
+        .gte("captured_at", wideStart)
+        .lt("captured_at", wideEnd);
+    if (paymentsError) throw paymentsError;
+
+    for (const p of payments ?? []) {
+        records.push({
+            table: "payments",
+            id: p.id,
+            // IntaSend invoice id; M-Pesa receipt (kept in transaction_reference for single-order payments)
+            reference: p.transaction_id || (provider === "mpesa" ? p.transaction_reference : null),
+            amount: Number(p.amount_ksh),
+            direction: "in",
+            occurredAt: p.captured_at,
+            group: p.checkout_session_id ?? p.id,
+        });
+    }
+
+    const { data: planPayments, error: planError } = await supabase
+        .from("subscription_payments")
+        .select("id, amount_ksh, amount_paid_ksh, transaction_reference, paid_at, updated_at")
+        .eq("gateway", provider)
+        .in("status", ["paid", "amount_mismatch"])
+        .gte("updated_at", wideStart)
+        .lt("updated_at", wideEnd);
+    if (planError) throw planError;
+
+    const planReferences = new Set<string>();
+    for (const p of planPayments ?? []) {
+        if (p.transaction_reference) planReferences.add(p.transaction_reference);
+        records.push({
+            table: "subscription_payments",
+            id: p.id,
+            reference: p.transaction_reference,
+            amount: Number(p.amount_paid_ksh ?? p.amount_ksh),
+            direction: "in",
+            occurredAt: p.paid_at ?? p.updated_at,
+            group: p.id,
+        });
+    }
+
+    if (provider === "mpesa") {
+        const { data: mpesaTransactions, error: mpesaError } = await supabase
+            .from("mpesa_transactions")
+            .select("id, amount, mpesa_receipt_number, updated_at")
+            .eq("status", "completed")
+            .gte("updated_at", wideStart)
+            .lt("updated_at", wideEnd);
+        if (mpesaError) throw mpesaError;
+
+        for (const t of mpesaTransactions ?? []) {
+            // Plan purchases are also in subscription_payments under the same receipt
+            if (t.mpesa_receipt_number && planReferences.has(t.mpesa_receipt_number)) continue;
+            records.push({
+                table: "mpesa_transactions",
+                id: t.id,
+                reference: t.mpesa_receipt_number,
+                amount: Number(t.amount),
+                direction: "in",
+                occurredAt: t.updated_at,
+                group: t.id,
+            });
+        }
+    }
+
+    if (provider === "intasend") {
+        const { data: payouts, error: payoutsError } = await supabase
+            .from("payouts")
+            .select("id, amount_ksh, reference, paid_at, requested_at")
+            .in("status", ["paid", "processing"])
+            .not("reference", "is", null)
+            .gte("requested_at", wideStart)
+            .lt("requested_at", wideEnd);
+        if (payoutsError) throw payoutsError;
+
+        for (const p of payouts ?? []) {
+            records.push({
+                table: "payouts",
+                id: p.id,
+                reference: p.reference,
+                amount: Number(p.amount_ksh),
+                direction: "out",
+                occurredAt: p.paid_at ?? p.requested_at,
+                group: p.id,
+            });
+        }
+    }
+
+    return records;
+}
+
+/**
+ * Payouts sent from vendor wallets never appear on the settlement statement;
+ * ask IntaSend about each one instead.
+ */
+async function checkPayoutStatuses(secretKey: string, payouts: InternalRecord[]): Promise<{ matched: number; issues: ReconciliationIssue[] }> {
+    const issues: ReconciliationIssue[] = [];
+    let matched = 0;
+
+    for (const payout of payouts.slice(0, MAX_PAYOUT_STATUS_CHECKS)) {
+        const base = {
+            reference: payout.reference,
+            direction: "out" as const,
+            internal_amount: payout.amount,
+            internal_table: "payouts" as const,
+            internal_ids: [payout.id],
+        };
+
+        try {
+            const response = await fetch(`${INTASEND_API}/send-money/status/`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "Authorization": `Bearer ${secretKey}`,
+                },
+                body: JSON.stringify({ tracking_id: payout.reference }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                issues.push({
+                    ...base,
+                    issue_type: "unmatched_internal",
+                    statement_amount: null,
+                    statement_rows: [result],
+                    details: `IntaSend has no payout with this tracking id (${response.status})`,
+                });
+                continue;
+            }
+
+            const status = String(result.status ?? "").toLowerCase();
+            const sent = (result.transactions ?? []).reduce((total: number, t: any) => total + Number(t.amount ?? 0), 0);
+
+            if (status.includes("fail") || status.includes("cancel")) {
+                issues.push({
+                    ...base,
+                    issue_type: "unmatched_internal",
+                    statement_amount: null,
+                    statement_rows: [result],
+                    details: `Marked as paid here but IntaSend reports "${result.status}"`,
+                });
+            } else if (sent > 0 && Math.abs(sent - payout.amount) > 0.01) {
+                issues.push({
+                    ...base,
+                    issue_type: "amount_mismatch",
+                    statement_amount: sent,
+                    statement_rows: [result],
+                    details: `IntaSend sent KES ${sent}, payout records KES ${payout.amount}`,
+                });
+            } else {
+                matched++;
+            }
+        } catch (error) {
+            console.error(`[Reconcile] Payout status check failed for ${payout.reference}:`, error);
+        }
+    }
+
+    return { matched, issues };
+}
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const supabase = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    let runId: string | null = null;
+
+    try {
+        // Cron calls with the service role key; anyone else must be an admin
+        const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+        const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+        let triggeredBy: string | null = null;
+
+        if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+            const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+            if (authError || !user) {
+                return jsonResponse({ error: "Unauthorized" }, 401);
+            }
+
+            const { data: adminRole } = await supabase
+                .from("user_roles")
+                .select("role")
+                .eq("user_id", user.id)
+                .eq("role", "admin")
+                .maybeSingle();
+
+            if (!adminRole) {
+                return jsonResponse({ error: "Admin access required" }, 403);
+            }
+            triggeredBy = user.id;
+        }
+
+        const body = (await req.json().catch(() => ({}))) as RequestPayload;
+        const provider: Provider = body.provider ?? "intasend";
+        const source = body.csv ? "csv" : "api";
+
+        if (provider !== "intasend" && provider !== "mpesa") {
+            throw new Error("Unsupported provider");
+        }
+        if (source === "api" && provider === "mpesa") {
+            throw new Error("M-Pesa statements can't be pulled automatically - upload the CSV from the M-Pesa org portal");
+        }
+
+        const intasendSecretKey = Deno.env.get("INTASEND_SECRET_KEY");
+        if (provider === "intasend" && !intasendSecretKey) {
+            throw new Error("INTASEND_SECRET_KEY is not configured");
+        }
+
+        // 1. Statement and period
+        let statement: StatementItem[];
+        let period: { start: string; end: string };
+
+        if (body.csv) {
+            statement = parseStatementCsv(body.csv);
+            const dates = statement.map((s) => s.occurredAt).filter((d): d is string => !!d).sort();
+            period = {
+                start: body.from ?? dates[0] ?? previousDay().start,
+                end: body.to ?? (dates.length > 0 ? new Date(new Date(dates[dates.length - 1]).getTime() + 1000).toISOString() : previousDay().end),
+            };
+        } else {
+            period = body.from && body.to ? { start: body.from, end: body.to } : previousDay();
+            statement = await fetchIntaSendStatement(intasendSecretKey!, period);
+        }
+
+        console.log(`[Reconcile] ${provider}/${source}: ${statement.length} statement rows for ${period.start} - ${period.end}`);
+
+        const { data: run, error: runError } = await supabase
+            .from("reconciliation_runs")
+            .insert({
+                provider,
+                source,
+                period_start: period.start,
+                period_end: period.end,
+                file_name: body.fileName ?? null,
+                triggered_by: triggeredBy,
+                statement_count: statement.length,
+            })
+            .select("id")
+            .single();
+
+        if (runError) throw runError;
+        runId = run.id;
+
+        // 2. Match
+        const internal = await loadInternalRecords(supabase, provider, period);
+        const statementRefs = new Set(statement.map((s) => `${s.direction}:${s.reference.trim().toUpperCase()}`));
+
+        // API runs check vendor-wallet payouts separately; CSV runs only know what is on the file
+        const payoutsToCheck = source === "api"
+            ? internal.filter((r) =>
+                r.table === "payouts" &&
+                r.occurredAt && r.occurredAt >= period.start && r.occurredAt < period.end &&
+                !statementRefs.has(`out:${(r.reference ?? "").trim().toUpperCase()}`))
+            : [];
+
+        const result = reconcile(statement, internal, period, {
+            checkUnmatchedInternal: (record) => !(source === "api" && record.table === "payouts"),
+        });
+
+        if (payoutsToCheck.length > 0) {
+            const payoutResult = await checkPayoutStatuses(intasendSecretKey!, payoutsToCheck);
+            result.matched += payoutResult.matched;
+            result.issues.push(...payoutResult.issues);
+        }
+
+        // 3. Store
+        const rows = result.issues.map((issue) => ({ ...issue, run_id: runId }));
+        for (let i = 0; i < rows.length; i += 500) {
+            const { error: itemsError } = await supabase.from("reconciliation_items").insert(rows.slice(i, i + 500));
+            if (itemsError) throw itemsError;
+        }
+
+        const count = (type: ReconciliationIssue["issue_type"]) => result.issues.filter((i) => i.issue_type === type).length;
+        const summary = {
+            status: "completed",
+            internal_count: internal.length,
+            matched_count: result.matched,
+            unmatched_statement_count: count("unmatched_statement"),
+            unmatched_internal_count: count("unmatched_internal"),
+            amount_mismatch_count: count("amount_mismatch"),
+            duplicate_count: count("duplicate"),
+            completed_at: new Date().toISOString(),
+        };
+
+        await supabase.from("reconciliation_runs").update(summary).eq("id", runId);
+
+        console.log(`[Reconcile] Run ${runId}: ${result.matched} matched, ${result.issues.length} discrepancies`);
+
+        return jsonResponse({ success: true, run_id: runId, ...summary });
+    } catch (error) {
+        console.error("[Reconcile] Error:", error);
+        const message = error instanceof Error ? error.message : "Reconciliation failed";
+
+        if (runId) {
+            await supabase
+                .from("reconciliation_runs")
+                .update({ status: "failed", error: message, completed_at: new Date().toISOString() })
+                .eq("id", runId);
+        }
+        return jsonResponse({ error: message }, 500);
+    }
+});
@@ -0,0 +1,76 @@
+/**
+ * Release Escrow
+ *
+ * Admin-only. Pays the held escrow of an order out to the vendor, e.g. when a dispute
+ * is resolved in the vendor's favour. Goes through releaseHeldEscrow, so the order is
+ * completed and the payout, commission, ledger entry and wallet transfer are made the
+ * same way as when the buyer confirms delivery.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { releaseHeldEscrow } from "../_shared/escrow.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+        const supabase = createClient(
+            Deno.env.get("SUPABASE_URL") ?? "",
+            Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+        );
+
+        // Verify the user is an admin
+        const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+        const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+        if (authError || !user) {
+            return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+        }
+
+        const { data: adminRole } = await supabase
+            .from("user_roles")
+            .select("role")
+            .eq("user_id", user.id)
+            .eq("role", "admin")
+            .maybeSingle();
+
+        if (!adminRole) {
+            return jsonResponse({ success: false, error: "Admin access required" }, 403);
+        }
+
+        const { orderId, disputeId, notes } = await req.json();
+        if (!orderId) {
+            throw new Error("orderId is required");
+        }
+
+        const reason = notes || (disputeId ? "Dispute resolved: payment released to the vendor" : "Released by admin");
+        console.log(`[Release] ${user.id} releasing escrow for order ${orderId}${disputeId ? ` (dispute ${disputeId})` : ""}`);
+
+        const released = await releaseHeldEscrow(supabase, orderId, reason, "[Release]");
+        if (!released) {
+            // Reported in the body so the admin sees why (invoke hides non-2xx bodies)
+            return jsonResponse({ success: false, error: "Nothing is held in escrow for this order" });
+        }
+
+        return jsonResponse({ success: true, released });
+    } catch (error) {
+        console.error("[Release] Error:", error);
+        return jsonResponse({
+            success: false,
+            error: error instanceof Error ? error.message : "Escrow release failed",
+        }, 500);
+    }
+});
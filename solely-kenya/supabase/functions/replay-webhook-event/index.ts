@@ -0,0 +1,116 @@
+/**
+ * Replay Webhook Event
+ *
+ * Admin-only. Re-sends a stored webhook_events payload to the webhook that received it
+ * (intasend-webhook / mpesa-callback) so it is processed again, e.g. after a failure.
+ * Only events that passed provider verification can be replayed; the replay is then
+ * authenticated with the service role key and skips verification and deduplication -
+ * the handlers themselves are safe to run twice.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const WEBHOOK_FUNCTIONS: Record<string, string> = {
+    intasend: "intasend-webhook",
+    mpesa: "mpesa-callback",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+        const supabase = createClient(
+            Deno.env.get("SUPABASE_URL") ?? "",
+            Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+        );
+
+        // Verify the user is an admin
+        const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+        const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+        if (authError || !user) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        const { data: adminRole } = await supabase
+            .from("user_roles")
+            .select("role")
+            .eq("user_id", user.id)
+            .eq("role", "admin")
+            .maybeSingle();
+
+        if (!adminRole) {
+            return jsonResponse({ error: "Admin access required" }, 403);
+        }
+
+        const { eventId } = await req.json();
+        if (!eventId) {
+            throw new Error("Missing eventId");
+        }
+
+        const { data: event, error: eventError } = await supabase
+            .from("webhook_events")
+            .select("id, provider, event_id, payload, status, verified")
+            .eq("id", eventId)
+            .maybeSingle();
+
+        if (eventError || !event) {
+            return jsonResponse({ error: "Webhook event not found" }, 404);
+        }
+
+        // An unverified payload may be forged - replaying it would bypass the check it failed
+        if (!event.verified) {
+            return jsonResponse({ error: "Unverified webhook events cannot be replayed" }, 403);
+        }
+
+        const functionName = WEBHOOK_FUNCTIONS[event.provider];
+        if (!functionName) {
+            throw new Error(`Unsupported provider: ${event.provider}`);
+        }
+
+        console.log(`[Webhook Replay] ${user.id} replaying ${event.provider} event ${event.event_id} (was ${event.status})`);
+
+        const { data: result, error: invokeError } = await supabase.functions.invoke(functionName, {
+            body: event.payload,
+            headers: { "x-webhook-replay": event.id },
+        });
+
+        await supabase
+            .from("webhook_events")
+            .update({ replayed_by: user.id, replayed_at: new Date().toISOString() })
+            .eq("id", event.id);
+
+        const { data: updated } = await supabase
+            .from("webhook_events")
+            .select("id, status, attempts, last_error, processed_at, replayed_at")
+            .eq("id", event.id)
+            .single();
+
+        if (invokeError) {
+            console.error(`[Webhook Replay] ${functionName} failed for event ${event.id}:`, invokeError);
+            return jsonResponse({
+                success: false,
+                error: invokeError.message || "Replay failed",
+                event: updated,
+            }, 502);
+        }
+
+        return jsonResponse({ success: true, result, event: updated });
+    } catch (error) {
+        console.error("[Webhook Replay] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
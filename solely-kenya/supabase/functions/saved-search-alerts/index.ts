@@ -0,0 +1,209 @@
+/**
+ * Saved Search Alerts
+ *
+ * Runs every 30 minutes (pg_cron, service role). Finds listings published since each
+ * saved search was last checked that match its filters (match_saved_searches) and
+ * tells the buyer by push, email and an in-app notification, according to the
+ * search's preferences. One message per saved search per run, however many matches.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+// Listings shown in the email; the rest are summarised as "...and N more"
+const MAX_EMAIL_PRODUCTS = 4;
+
+type SavedSearch = {
+    id: string;
+    user_id: string;
+    name: string;
+    query: string | null;
+    brand: string | null;
+    category: string | null;
+    size: string | null;
+    condition: string | null;
+    accessory_type: string | null;
+    min_price: number | null;
+    max_price: number | null;
+    notify_push: boolean;
+    notify_email: boolean;
+};
+
+type Match = { saved_search_id: string; user_id: string; product_id: string };
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+/** Same parameters the Shop page reads on load */
+function shopPath(search: SavedSearch): string {
+    const params = new URLSearchParams();
+    if (search.query) params.set("search", search.query);
+    if (search.brand) params.set("brand", search.brand);
+    if (search.category) params.set("category", search.category);
+    if (search.size) params.set("size", search.size);
+    if (search.condition) params.set("condition", search.condition);
+    if (search.accessory_type) params.set("type", search.accessory_type);
+    if (search.min_price !== null) params.set("min", String(search.min_price));
+    if (search.max_price !== null) params.set("max", String(search.max_price));
+    return `/shop?${params}`;
+}
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+
+    try {
+        // Listings published after this are left for the next run
+        const until = new Date().toISOString();
+
+        const { data: matches, error: matchError } = await supabase.rpc("match_saved_searches", { p_until: until });
+        if (matchError) throw matchError;
+
+        const bySearch = new Map<string, string[]>();
+        for (const match of (matches ?? []) as Match[]) {
+            const productIds = bySearch.get(match.saved_search_id) ?? [];
+            productIds.push(match.product_id);
+            bySearch.set(match.saved_search_id, productIds);
+        }
+
+        let notified = 0;
+        const failed: string[] = [];
+
+        if (bySearch.size > 0) {
+            const searchIds = [...bySearch.keys()];
+            const productIds = [...new Set(((matches ?? []) as Match[]).map((m) => m.product_id))];
+
+            const [{ data: searches, error: searchError }, { data: products, error: productError }] = await Promise.all([
+                supabase.from("saved_searches").select("*").in("id", searchIds),
+                supabase.from("products").select("id, name, brand, price_ksh, images").in("id", productIds),
+            ]);
+            if (searchError) throw searchError;
+            if (productError) throw productError;
+
+            const productMap = new Map((products ?? []).map((p: any) => [p.id, p]));
+
+            for (const search of (searches ?? []) as SavedSearch[]) {
+                const found = (bySearch.get(search.id) ?? []).map((id) => productMap.get(id)).filter(Boolean) as any[];
+                if (found.length === 0) continue;
+
+                try {
+                    // Record first so a retry never announces the same listing twice
+                    const { error: alertError } = await supabase
+                        .from("saved_search_alerts")
+                        .upsert(
+                            found.map((p) => ({ saved_search_id: search.id, product_id: p.id })),
+                            { onConflict: "saved_search_id,product_id", ignoreDuplicates: true }
+                        );
+                    if (alertError) throw alertError;
+
+                    const url = shopPath(search);
+                    const title = found.length === 1
+                        ? `New match for "${search.name}"`
+                        : `${found.length} new matches for "${search.name}"`;
+                    const message = found.length === 1
+                        ? `${found[0].name} - KES ${Number(found[0].price_ksh).toLocaleString()}`
+                        : `${found.slice(0, 2).map((p) => p.name).join(", ")}${found.length > 2 ? ` and ${found.length - 2} more` : ""}`;
+
+                    await supabase.from("notifications").insert({
+                        user_id: search.user_id,
+                        type: "saved_search_match",
+                        title,
+                        message,
+                        related_id: search.id,
+                    });
+
+                    if (search.notify_push) {
+                        await supabase.functions
+                            .invoke("send-push-notification", {
+                                body: {
+                                    userId: search.user_id,
+                                    title,
+                                    body: message,
+                                    url: found.length === 1 ? `/product/${found[0].id}` : url,
+                                    tag: `saved-search-${search.id}`,
+                                },
+                            })
+                            .catch((err: Error) => console.log("[SavedSearchAlerts] Push notification failed (non-critical):", err));
+                    }
+
+                    if (search.notify_email) {
+                        const { data: userData } = await supabase.auth.admin.getUserById(search.user_id);
+                        const email = userData?.user?.email;
+
+                        if (email) {
+                            const { data: profile } = await supabase
+                                .from("profiles")
+                                .select("full_name")
+                                .eq("id", search.user_id)
+                                .maybeSingle();
+
+                            await sendEmail({
+                                to: email,
+                                subject: `👟 ${title}`,
+                                html: emailTemplates.savedSearchMatches({
+                                    customerName: profile?.full_name || "there",
+                                    searchName: search.name,
+                                    products: found.slice(0, MAX_EMAIL_PRODUCTS).map((p) => ({
+                                        name: p.brand ? `${p.brand} ${p.name}` : p.name,
+                                        price: Number(p.price_ksh),
+                                        image: p.images?.[0] ?? null,
+                                        url: `${SITE_URL}/product/${p.id}`,
+                                    })),
+                                    moreCount: Math.max(0, found.length - MAX_EMAIL_PRODUCTS),
+                                    searchUrl: `${SITE_URL}${url}`,
+                                    manageUrl: `${SITE_URL}/alerts?tab=searches`,
+                                }),
+                            });
+                        }
+                    }
+
+                    await supabase
+                        .from("saved_searches")
+                        .update({ last_notified_at: new Date().toISOString() })
+                        .eq("id", search.id);
+                    notified++;
+                } catch (error) {
+                    console.error(`[SavedSearchAlerts] Failed for saved search ${search.id}:`, error);
+                    failed.push(search.id);
+                }
+            }
+        }
+
+        // Everything up to `until` has now been looked at (failed searches are retried next run)
+        let advance = supabase
+            .from("saved_searches")
+            .update({ last_checked_at: until })
+            .eq("is_active", true)
+            .lt("last_checked_at", until);
+        if (failed.length > 0) advance = advance.not("id", "in", `(${failed.join(",")})`);
+        const { error: advanceError } = await advance;
+        if (advanceError) throw advanceError;
+
+        console.log(`[SavedSearchAlerts] ${(matches ?? []).length} matches, ${notified} searches notified, ${failed.length} failed`);
+
+        return jsonResponse({ success: true, matches: (matches ?? []).length, notified, failed: failed.length });
+    } catch (error) {
+        console.error("[SavedSearchAlerts] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
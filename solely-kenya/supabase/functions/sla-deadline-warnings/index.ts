@@ -0,0 +1,175 @@
+/**
+ * SLA Deadline Warnings
+ *
+ * Warns ahead of the order deadlines set from sla_settings, warn_before_hours before
+ * each runs out: push, email and an in-app notification.
+ *
+ * - vendor_response: the vendor, before an unanswered order is auto-cancelled
+ * - delivery: the vendor, before an undelivered order is auto-disputed
+ * - buyer_review: the buyer, before escrow is released to the vendor
+ *
+ * Schedule: every 15 minutes (pg_cron). claim_sla_warnings() stamps sla_warned_at
+ * before anything is sent, so each deadline is warned about once; pausing or
+ * extending a deadline clears it so the new deadline gets its own warning.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+import { formatDeadline, formatTimeLeft } from "../_shared/deadlines.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+type SlaTimer = "vendor_response" | "delivery" | "buyer_review";
+
+type ClaimedWarning = {
+    order_id: string;
+    timer: SlaTimer;
+    deadline_at: string;
+    vendor_id: string;
+    customer_id: string;
+    total_ksh: number;
+};
+
+/** Who is warned and what they are told, per timer */
+const WARNINGS: Record<SlaTimer, {
+    recipient: "vendor" | "buyer";
+    title: string;
+    message: (orderRef: string) => string;
+    consequence: string;
+    ctaLabel: string;
+    path: string;
+}> = {
+    vendor_response: {
+        recipient: "vendor",
+        title: "Respond to your order",
+        message: (orderRef) => `Order #${orderRef} is still waiting for you to accept or decline it.`,
+        consequence: "If you don't respond in time, the order is cancelled automatically and the buyer is refunded. Missed orders affect your seller rating.",
+        ctaLabel: "Respond Now",
+        path: "/vendor/orders",
+    },
+    delivery: {
+        recipient: "vendor",
+        title: "Delivery deadline approaching",
+        message: (orderRef) => `Order #${orderRef} hasn't been marked as arrived yet.`,
+        consequence: "If it isn't marked as arrived in time, a dispute is opened automatically for our team to follow up with you.",
+        ctaLabel: "Update Order",
+        path: "/vendor/orders",
+    },
+    buyer_review: {
+        recipient: "buyer",
+        title: "Check your order",
+        message: (orderRef) => `Your order #${orderRef} has arrived. If anything is wrong with it, let us know before your payment is released to the vendor.`,
+        consequence: "After the deadline the payment is released automatically. If everything is fine there's nothing you need to do.",
+        ctaLabel: "View Order",
+        path: "/orders",
+    },
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+
+    try {
+        const { data, error } = await supabase.rpc("claim_sla_warnings");
+        if (error) throw error;
+
+        const warnings = (data ?? []) as ClaimedWarning[];
+        let emailed = 0;
+
+        for (const warning of warnings) {
+            const config = WARNINGS[warning.timer];
+            if (!config) continue;
+
+            const userId = config.recipient === "vendor" ? warning.vendor_id : warning.customer_id;
+            const orderRef = warning.order_id.slice(0, 8);
+            const timeLeft = formatTimeLeft(warning.deadline_at);
+            const message = `${config.message(orderRef)} ${timeLeft} left.`;
+
+            try {
+                await supabase.from("notifications").insert({
+                    user_id: userId,
+                    type: "sla_warning",
+                    title: config.title,
+                    message,
+                    related_id: warning.order_id,
+                });
+
+                await supabase.functions
+                    .invoke("send-push-notification", {
+                        body: {
+                            userId,
+                            title: `⏰ ${config.title}`,
+                            body: message,
+                            url: config.path,
+                            orderId: warning.order_id,
+                            tag: `sla-${warning.order_id}`,
+                        },
+                    })
+                    .catch((err: Error) => console.log("[SlaDeadlineWarnings] Push notification failed (non-critical):", err));
+
+                const { data: userData } = await supabase.auth.admin.getUserById(userId);
+                const email = userData?.user?.email;
+                if (email) {
+                    const { data: profile } = await supabase
+                        .from("profiles")
+                        .select("full_name, store_name")
+                        .eq("id", userId)
+                        .maybeSingle();
+
+                    const name = config.recipient === "vendor"
+                        ? profile?.store_name || profile?.full_name || "there"
+                        : profile?.full_name || "there";
+
+                    const result = await sendEmail({
+                        to: email,
+                        subject: `⏰ ${config.title} - Order #${orderRef}`,
+                        html: emailTemplates.slaDeadlineWarning({
+                            name,
+                            orderId: orderRef,
+                            title: config.title,
+                            message: config.message(orderRef),
+                            consequence: config.consequence,
+                            deadline: formatDeadline(warning.deadline_at),
+                            timeLeft,
+                            ctaLabel: config.ctaLabel,
+                            ctaUrl: `${SITE_URL}${config.path}`,
+                        }),
+                    });
+                    if (result.success) emailed++;
+                }
+            } catch (error) {
+                // Already claimed; a failed warning is logged rather than resent
+                console.error(`[SlaDeadlineWarnings] Failed to warn about order ${warning.order_id}:`, error);
+            }
+        }
+
+        console.log(`[SlaDeadlineWarnings] ${warnings.length} warnings, ${emailed} emails`);
+
+        return jsonResponse({ success: true, warned: warnings.length, emailed });
+    } catch (error) {
+        console.error("[SlaDeadlineWarnings] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
@@ -2,17 +2,20 @@
  * Transfer to Vendor Wallet
  * Transfers vendor's share (minus commission) from settlement to vendor wallet
  * Called after order completion
+ * The vendor already holds the share as a payable (posted on escrow release);
+ * this only records where the cash now sits.
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getOrderCommission } from "../_shared/commission.ts";
+import { postJournalEntry } from "../_shared/ledger.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const PLATFORM_COMMISSION_RATE = 0.10; // 10%
 const SETTLEMENT_WALLET_ID = Deno.env.get('INTASEND_SETTLEMENT_WALLET_ID') || 'KZRJ8VY';
 
 serve(async (req: Request) => {
@@ -42,7 +45,7 @@ serve(async (req: Request) => {
         // Get order details
         const { data: order, error: orderError } = await supabase
             .from('orders')
-            .select('id, vendor_id, total_ksh, payout_amount, status')
+            .select('id, vendor_id, total_ksh, subtotal_ksh, commission_rate, commission_amount, payout_amount, refunded_amount_ksh, status')
             .eq('id', order_id)
             .single();
 
@@ -54,6 +57,21 @@ serve(async (req: Request) => {
             throw new Error(`Order is not completed: ${order.status}`);
         }
 
+        // The ledger entry doubles as the record that this order's share was already moved
+        const { data: existingTransfer } = await supabase
+            .from('journal_entries')
+            .select('id')
+            .eq('idempotency_key', `wallet_transfer:${order_id}`)
+            .maybeSingle();
+
+        if (existingTransfer) {
+            console.log(`[Transfer to Vendor] Order ${order_id} already transferred - skipping`);
+            return new Response(
+                JSON.stringify({ success: true, order_id: order_id, already_transferred: true }),
+                { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+            );
+        }
+
         // Get vendor's IntaSend wallet ID
         const { data: vendorBalance, error: balanceError } = await supabase
             .from('vendor_balances')
@@ -78,9 +96,9 @@ serve(async (req: Request) => {
 
         const vendorWalletId = vendorBalance.intasend_wallet_id;
 
-        // Calculate vendor share (order total minus commission)
-        const orderTotal = Number(order.total_ksh);
-        const commission = Math.round(orderTotal * PLATFORM_COMMISSION_RATE * 100) / 100;
+        // Vendor share is the order total (less partial refunds) minus the commission
+        const orderTotal = Number(order.total_ksh) - Number(order.refunded_amount_ksh ?? 0);
+        const commission = Math.round(getOrderCommission(order).amount * 100) / 100;
         const vendorShare = Math.round((orderTotal - commission) * 100) / 100;
 
         console.log(`[Transfer to Vendor] Order total: ${orderTotal}, Commission: ${commission}, Vendor share: ${vendorShare}`);
@@ -115,36 +133,23 @@ serve(async (req: Request) => {
 
         console.log(`[Transfer to Vendor] Successfully transferred ${vendorShare} to vendor wallet ${vendorWalletId}`);
 
-        // Update vendor_balances to reflect the transfer
-        const { error: updateError } = await supabase
-            .from('vendor_balances')
-            .update({
-                pending_balance: supabase.rpc('increment_balance', { amount: vendorShare }),
-                total_earned: supabase.rpc('increment_earned', { amount: vendorShare }),
-                updated_at: new Date().toISOString(),
-            })
-            .eq('vendor_id', order.vendor_id);
-
-        // Update using raw SQL since RPC might not exist
-        await supabase.rpc('sql', {
-            query: `
-                UPDATE vendor_balances 
-                SET pending_balance = pending_balance + $1,
-                    total_earned = total_earned + $1,
-                    updated_at = NOW()
-                WHERE vendor_id = $2
-            `,
-            params: [vendorShare, order.vendor_id]
-        }).catch(() => {
-            // Fallback: direct update
-            supabase.from('vendor_balances')
-                .update({
-                    pending_balance: vendorShare,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('vendor_id', order.vendor_id);
+        // Post the transfer - the vendor's balance itself is derived from the ledger
+        const { error: ledgerError } = await postJournalEntry(supabase, {
+            type: 'wallet_transfer',
+            idempotencyKey: `wallet_transfer:${order_id}`,
+            orderId: order_id,
+            description: 'Vendor share moved from settlement wallet to vendor wallet',
+            metadata: { vendor_wallet_id: vendorWalletId, intasend: transferResult },
+            lines: [
+                { account: 'vendor_wallet', vendor_id: order.vendor_id, debit: vendorShare },
+                { account: 'buyer_funds', credit: vendorShare },
+            ],
         });
 
+        if (ledgerError) {
+            console.error('[Transfer to Vendor] Failed to post transfer to ledger:', ledgerError);
+        }
+
         return new Response(
             JSON.stringify({
                 success: true,
@@ -0,0 +1,181 @@
+/**
+ * Vendor Scorecards
+ *
+ * Nightly vendor performance run:
+ * 1. refresh_vendor_scorecards() recomputes every vendor's scorecard over the last 90 days,
+ *    applies the admin-configured enforcement rules (vendor_enforcement_rules) and syncs
+ *    listings: seller badges, search demotion, suspension and restoring expired ones
+ * 2. claim_vendor_enforcement_notices() hands back the new warnings, demotions and
+ *    suspensions, and each vendor is told by email, push and in-app notification
+ *
+ * Schedule: daily at 03:00 (pg_cron). Notices are stamped when claimed, so each is sent once.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { timingSafeEqual } from "../_shared/webhook-security.ts";
+import { sendEmail, emailTemplates } from "../_shared/email-service.ts";
+import { formatDeadline } from "../_shared/deadlines.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SITE_URL = "https://solelyshoes.co.ke";
+
+type EnforcementAction = "warning" | "demotion" | "suspension";
+
+type ClaimedNotice = {
+    action_id: string;
+    vendor_id: string;
+    action: EnforcementAction;
+    metric: string;
+    metric_value: number | null;
+    threshold: number | null;
+    score: number | null;
+    ends_at: string;
+};
+
+type Scorecard = {
+    score: number;
+    acceptance_rate: number | null;
+    avg_response_hours: number | null;
+    auto_cancelled: number;
+    on_time_rate: number | null;
+    dispute_rate: number | null;
+    average_rating: number | null;
+};
+
+const percent = (value: number | null) => (value === null ? "No data yet" : `${Math.round(value * 100)}%`);
+
+/** Label and display of each metric a rule can watch */
+const METRICS: Record<string, { label: string; format: (value: number | null) => string }> = {
+    score: { label: "Seller score", format: (v) => (v === null ? "-" : `${Math.round(v)} / 100`) },
+    acceptance_rate: { label: "Orders accepted", format: percent },
+    on_time_rate: { label: "Delivered on time", format: percent },
+    dispute_rate: { label: "Orders disputed", format: percent },
+    auto_cancelled: { label: "Orders left to auto-cancel", format: (v) => String(v ?? 0) },
+    average_rating: { label: "Average rating", format: (v) => (v === null ? "No ratings yet" : `${Number(v).toFixed(1)} ★`) },
+    avg_response_hours: { label: "Average response time", format: (v) => (v === null ? "No data yet" : `${Number(v).toFixed(1)} hours`) },
+};
+
+const NOTICES: Record<EnforcementAction, {
+    title: string;
+    message: (metric: string, until: string) => string;
+    consequence: string;
+}> = {
+    warning: {
+        title: "Your seller performance needs attention",
+        message: (metric) => `Your ${metric.toLowerCase()} has fallen below our standard for sellers on Solely.`,
+        consequence: "Accept orders quickly, mark them arrived before the delivery deadline and resolve buyer problems early. If your performance keeps slipping, your listings may be moved down in search or suspended.",
+    },
+    demotion: {
+        title: "Your listings have been moved down in search",
+        message: (metric, until) => `Because your ${metric.toLowerCase()} is below our standard, your listings will appear lower in the shop and lose featured placement until ${until}.`,
+        consequence: "Your listings stay live and buyers can still order. Placement is restored automatically when the period ends.",
+    },
+    suspension: {
+        title: "Your listings have been suspended",
+        message: (metric, until) => `Because your ${metric.toLowerCase()} is well below our standard, your listings are hidden from the shop until ${until}.`,
+        consequence: "Orders already placed are not affected - please complete them as usual. Your listings are restored automatically when the suspension ends. Contact support if you think this is a mistake.",
+    },
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+    if (!serviceKey || !timingSafeEqual(token, serviceKey)) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+
+    try {
+        const { data: scored, error: refreshError } = await supabase.rpc("refresh_vendor_scorecards");
+        if (refreshError) throw refreshError;
+
+        const { data, error } = await supabase.rpc("claim_vendor_enforcement_notices");
+        if (error) throw error;
+
+        const notices = (data ?? []) as ClaimedNotice[];
+        let emailed = 0;
+
+        for (const notice of notices) {
+            const config = NOTICES[notice.action];
+            const metric = METRICS[notice.metric] ?? METRICS.score;
+            const until = formatDeadline(notice.ends_at);
+            const message = config.message(metric.label, until);
+
+            try {
+                await supabase.from("notifications").insert({
+                    user_id: notice.vendor_id,
+                    type: "vendor_performance",
+                    title: config.title,
+                    message,
+                    related_id: notice.action_id,
+                });
+
+                await supabase.functions
+                    .invoke("send-push-notification", {
+                        body: {
+                            userId: notice.vendor_id,
+                            title: config.title,
+                            body: message,
+                            url: "/vendor/dashboard",
+                            tag: `vendor-performance-${notice.action_id}`,
+                        },
+                    })
+                    .catch((err: Error) => console.log("[VendorScorecards] Push notification failed (non-critical):", err));
+
+                const { data: userData } = await supabase.auth.admin.getUserById(notice.vendor_id);
+                const email = userData?.user?.email;
+                if (!email) continue;
+
+                const [{ data: profile }, { data: scorecard }] = await Promise.all([
+                    supabase.from("profiles").select("full_name, store_name").eq("id", notice.vendor_id).maybeSingle(),
+                    supabase.from("vendor_scorecards").select("*").eq("vendor_id", notice.vendor_id).maybeSingle(),
+                ]);
+                const card = scorecard as Scorecard | null;
+
+                const result = await sendEmail({
+                    to: email,
+                    subject: config.title,
+                    html: emailTemplates.vendorPerformanceNotice({
+                        storeName: profile?.store_name || profile?.full_name || "there",
+                        title: config.title,
+                        message,
+                        score: Number(card?.score ?? notice.score ?? 0),
+                        metrics: card
+                            ? (["acceptance_rate", "avg_response_hours", "auto_cancelled", "on_time_rate", "dispute_rate", "average_rating"] as const)
+                                .map((key) => ({ label: METRICS[key].label, value: METRICS[key].format(card[key]) }))
+                            : [{ label: metric.label, value: metric.format(notice.metric_value) }],
+                        consequence: config.consequence,
+                        dashboardUrl: `${SITE_URL}/vendor/dashboard`,
+                    }),
+                });
+                if (result.success) emailed++;
+            } catch (error) {
+                // Already claimed; a failed notice is logged rather than resent
+                console.error(`[VendorScorecards] Failed to notify vendor ${notice.vendor_id} of ${notice.action}:`, error);
+            }
+        }
+
+        console.log(`[VendorScorecards] ${scored ?? 0} scorecards, ${notices.length} notices, ${emailed} emails`);
+
+        return jsonResponse({ success: true, scored: scored ?? 0, notices: notices.length, emailed });
+    } catch (error) {
+        console.error("[VendorScorecards] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+    }
+});
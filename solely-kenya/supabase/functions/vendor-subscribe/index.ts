@@ -0,0 +1,186 @@
+/**
+ * Vendor Subscribe
+ *
+ * Starts a plan purchase/renewal for the signed-in vendor.
+ * 1. Looks up the plan price (never trusts the client)
+ * 2. Records a pending subscription_payments row
+ * 3. Opens an IntaSend checkout (api_ref SUB-<payment id>) or sends an M-Pesa STK push
+ *
+ * The plan is activated by intasend-webhook / mpesa-callback once payment is confirmed.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SUBSCRIPTION_REF_PREFIX } from "../_shared/subscription.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type RequestPayload = {
+    plan: string;
+    gateway: "intasend" | "mpesa";
+    phoneNumber?: string;
+    successUrl?: string;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+        const supabase = createClient(
+            Deno.env.get("SUPABASE_URL") ?? "",
+            Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+        );
+
+        const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+        const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+        if (userError || !user) {
+            return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        const { plan, gateway, phoneNumber, successUrl } = (await req.json()) as RequestPayload;
+
+        if (gateway !== "intasend" && gateway !== "mpesa") {
+            throw new Error("Unsupported payment method");
+        }
+
+        const { data: isVendor } = await supabase
+            .from("user_roles")
+            .select("id")
+            .eq("user_id", user.id)
+            .eq("role", "vendor")
+            .maybeSingle();
+
+        if (!isVendor) {
+            return jsonResponse({ error: "Only vendors can subscribe to a plan" }, 403);
+        }
+
+        // 1. Price comes from the plan catalogue
+        const { data: planRow, error: planError } = await supabase
+            .from("subscription_plans")
+            .select("plan, name, price_ksh, is_active")
+            .eq("plan", plan)
+            .maybeSingle();
+
+        if (planError || !planRow || !planRow.is_active) {
+            throw new Error("Plan not found");
+        }
+
+        if (planRow.price_ksh <= 0) {
+            throw new Error(`${planRow.name} is free - no payment needed`);
+        }
+
+        // 2. Record the pending purchase
+        const { data: payment, error: paymentError } = await supabase
+            .from("subscription_payments")
+            .insert({
+                vendor_id: user.id,
+                plan: planRow.plan,
+                amount_ksh: planRow.price_ksh,
+                gateway,
+                status: "pending",
+            })
+            .select("id")
+            .single();
+
+        if (paymentError || !payment) {
+            console.error("[Vendor Subscribe] Failed to record payment:", paymentError);
+            throw new Error("Could not start payment");
+        }
+
+        console.log(`[Vendor Subscribe] ${user.id} buying ${planRow.plan} via ${gateway} (payment ${payment.id})`);
+
+        // 3a. M-Pesa: STK push straight to the vendor's phone
+        if (gateway === "mpesa") {
+            if (!phoneNumber) {
+                throw new Error("Phone number is required for M-Pesa");
+            }
+
+            const { data: stk, error: stkError } = await supabase.functions.invoke("mpesa-stk-push", {
+                body: {
+                    phoneNumber,
+                    amount: planRow.price_ksh,
+                    accountReference: `SOLELY-${planRow.plan.toUpperCase()}`,
+                    vendorId: user.id,
+                    plan: planRow.plan,
+                },
+            });
+
+            if (stkError || !stk?.success) {
+                await supabase
+                    .from("subscription_payments")
+                    .update({ status: "failed", metadata: { failed_reason: stk?.message || "STK push failed" } })
+                    .eq("id", payment.id);
+                throw new Error(stk?.message || "Failed to send M-Pesa prompt");
+            }
+
+            // mpesa-callback matches the result back to this payment by CheckoutRequestID
+            await supabase
+                .from("subscription_payments")
+                .update({
+                    transaction_reference: stk.checkoutRequestId,
+                    metadata: { merchant_request_id: stk.merchantRequestId },
+                })
+                .eq("id", payment.id);
+
+            return jsonResponse({ success: true, paymentId: payment.id, checkoutRequestId: stk.checkoutRequestId });
+        }
+
+        // 3b. IntaSend hosted checkout (card or M-Pesa)
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("full_name, email, whatsapp_number")
+            .eq("id", user.id)
+            .maybeSingle();
+
+        const nameParts = (profile?.full_name || "Vendor").trim().split(" ");
+        const intaSendPayload: Record<string, unknown> = {
+            public_key: Deno.env.get("INTASEND_PUBLISHABLE_KEY"),
+            amount: planRow.price_ksh,
+            currency: "KES",
+            email: profile?.email || user.email || "vendor@solelyshoes.co.ke",
+            first_name: nameParts[0] || "Vendor",
+            last_name: nameParts.length > 1 ? nameParts.slice(1).join(" ") : "Vendor",
+            api_ref: `${SUBSCRIPTION_REF_PREFIX}${payment.id}`,
+            redirect_url: successUrl || "https://solelyshoes.co.ke/vendor/settings",
+            webhook_url: `${Deno.env.get("SUPABASE_URL") ?? ""}/functions/v1/intasend-webhook`,
+        };
+
+        const phone = (phoneNumber || profile?.whatsapp_number || "").replace(/\D/g, "");
+        if (phone.length >= 9) {
+            intaSendPayload.phone_number = phone.startsWith("0") ? `254${phone.slice(1)}` : phone;
+        }
+
+        const response = await fetch("https://api.intasend.com/api/v1/checkout/", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(intaSendPayload),
+        });
+
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || !data?.url) {
+            console.error("[Vendor Subscribe] IntaSend checkout failed:", response.status, data);
+            await supabase
+                .from("subscription_payments")
+                .update({ status: "failed", metadata: { failed_reason: data?.detail || "Checkout failed" } })
+                .eq("id", payment.id);
+            throw new Error(data?.detail || "Payment initialization failed");
+        }
+
+        return jsonResponse({ success: true, paymentId: payment.id, url: data.url });
+    } catch (error) {
+        console.error("[Vendor Subscribe] Error:", error);
+        return jsonResponse({ error: error instanceof Error ? error.message : "Failed to start subscription" }, 400);
+    }
+});
@@ -6,6 +6,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { postJournalEntry } from "../_shared/ledger.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -143,50 +144,50 @@ serve(async (req: Request) => {
             console.log(`[Vendor Withdraw] Withdrawal initiated successfully. Tracking ID: ${result.tracking_id || result.id}`);
         }
 
-        // Get current balance values for proper update
-        const { data: currentBalance } = await supabase
-            .from('vendor_balances')
-            .select('pending_balance, total_paid_out')
-            .eq('vendor_id', vendor_id)
-            .single();
-
-        const currentPaidOut = currentBalance?.total_paid_out || 0;
-        const currentPending = currentBalance?.pending_balance || 0;
-
-        // Determine new Balance.
-        // We deducted (amountToSend + transactionFee) which should equal totalBalance.
-        // So new balance should be 0. 
-        // But to be safe against race conditions, we deduct from 'currentPending'.
-
         const totalDeducted = amountToSend + transactionFee;
-        const newBalance = Math.max(0, currentPending - totalDeducted);
-        const newTotalPaidOut = currentPaidOut + amountToSend;
+        const trackingId = result.tracking_id || result.id || `withdraw-${Date.now()}`;
 
-        // Update vendor balance
-        const { error: updateError } = await supabase
-            .from('vendor_balances')
-            .update({
-                pending_balance: newBalance,
-                total_paid_out: newTotalPaidOut,
-                last_payout_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
+        // Record the payout
+        const { data: payout } = await supabase
+            .from('payouts')
+            .insert({
+                vendor_id: vendor_id,
+                amount_ksh: amountToSend,
+                commission_amount: 0,
+                method: 'mpesa',
+                reference: trackingId,
+                status: 'paid',
+                trigger_type: 'manual',
             })
-            .eq('vendor_id', vendor_id);
+            .select('id')
+            .single();
 
-        if (updateError) {
-            console.error('[Vendor Withdraw] Balance update failed:', updateError);
+        // Post the withdrawal - the vendor's balance is derived from the ledger.
+        // The vendor pays the disbursement fee, so the whole amount leaves their balance.
+        const { error: ledgerError } = await postJournalEntry(supabase, {
+            type: 'vendor_withdrawal',
+            idempotencyKey: `vendor_withdrawal:${trackingId}`,
+            payoutId: payout?.id ?? null,
+            description: 'Vendor withdrawal to M-Pesa',
+            metadata: { tracking_id: trackingId, fee: transactionFee },
+            lines: [
+                { account: 'vendor_payable', vendor_id: vendor_id, debit: totalDeducted },
+                { account: 'vendor_wallet', vendor_id: vendor_id, credit: amountToSend, memo: 'Sent to M-Pesa' },
+                { account: 'vendor_wallet', vendor_id: vendor_id, credit: transactionFee, memo: 'Disbursement fee (paid by vendor)' },
+            ],
+        });
+
+        if (ledgerError) {
+            console.error('[Vendor Withdraw] Failed to post withdrawal to ledger:', ledgerError);
         }
 
-        // Record the payout
-        await supabase.from('payouts').insert({
-            vendor_id: vendor_id,
-            amount_ksh: amountToSend,
-            commission_amount: 0,
-            method: 'mpesa',
-            reference: result.tracking_id || result.id || `withdraw-${Date.now()}`,
-            status: 'paid',
-            trigger_type: 'manual',
-        });
+        const { data: updatedBalance } = await supabase
+            .from('vendor_balances')
+            .select('pending_balance')
+            .eq('vendor_id', vendor_id)
+            .single();
+
+        const newBalance = Number(updatedBalance?.pending_balance ?? 0);
 
         return new Response(
             JSON.stringify({
@@ -6,11 +6,15 @@
  * 1. Updates order status to 'completed'
  * 2. Updates escrow transaction to 'released'
  * 3. Creates a PAYOUT record for the vendor
- * 4. Transfers funds to vendor wallet
+ * 4. Posts the escrow release to the ledger
+ * 5. Transfers funds to vendor wallet
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getOrderCommission, recordCommission } from "../_shared/commission.ts";
+import { postEscrowRelease } from "../_shared/ledger.ts";
+import { transitionOrderStatus } from "../_shared/order-status.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -90,13 +94,16 @@ serve(async (req: Request) => {
         const now = new Date().toISOString();
 
         // A. Update Order - mark as completed with OTP verification
+        await transitionOrderStatus(supabase, orderId, "completed", {
+            reason: "Delivery code verified",
+            metadata: { verified_by: userId },
+        });
+
         const { error: updateOrderError } = await supabase
             .from("orders")
             .update({
-                status: "completed",
                 buyer_confirmed: true,
                 vendor_confirmed: true,
-                completed_at: now,
                 otp_verified_at: now,
             })
             .eq("id", orderId);
@@ -117,8 +124,8 @@ serve(async (req: Request) => {
         }
 
         // C. Create Payout Record
-        const payoutAmount = order.payout_amount ?? (order.total_ksh * 0.90);
-        const commissionAmount = order.commission_amount ?? (order.total_ksh * 0.10);
+        const { amount: commissionAmount } = getOrderCommission(order);
+        const payoutAmount = order.payout_amount ?? (order.total_ksh - commissionAmount);
 
         console.log(`Creating payout: vendor=${order.vendor_id}, order=${orderId}, amount=${payoutAmount}`);
 
@@ -140,21 +147,29 @@ serve(async (req: Request) => {
         }
 
         // D. Record commission in ledger
-        const { error: commissionError } = await supabase
-            .from("commission_ledger")
-            .insert({
-                order_id: orderId,
-                vendor_id: order.vendor_id,
-                commission_rate: order.commission_rate || 10,
-                commission_amount: commissionAmount,
-                notes: "Delivery confirmed via OTP",
-            });
+        const { error: commissionError } = await recordCommission(supabase, order, "Delivery confirmed via OTP");
 
         if (commissionError) {
             console.error("Failed to record commission:", commissionError);
         }
 
-        // E. Transfer funds to vendor's IntaSend wallet (non-blocking)
+        // E. Post the release to the ledger - this is what credits the vendor's balance
+        const escrow = order.escrow_transactions?.[0];
+        const { error: ledgerError } = await postEscrowRelease(
+            supabase,
+            order,
+            {
+                release_amount: escrow?.release_amount ?? payoutAmount,
+                commission_amount: escrow?.commission_amount ?? commissionAmount,
+            },
+            "Delivery confirmed via OTP"
+        );
+
+        if (ledgerError) {
+            console.error("Failed to post escrow release to ledger:", ledgerError);
+        }
+
+        // F. Transfer funds to vendor's IntaSend wallet (non-blocking)
         console.log(`Initiating fund transfer to vendor wallet for order ${orderId}`);
         supabase.functions.invoke('transfer-to-vendor-wallet', {
             body: { order_id: orderId }
@@ -168,43 +183,7 @@ serve(async (req: Request) => {
             console.error('Fund transfer exception:', err);
         });
 
-        // F. Decrement Stock for each order item
-        const { data: orderItems, error: itemsError } = await supabase
-            .from("order_items")
-            .select("product_id, quantity")
-            .eq("order_id", orderId);
-
-        if (itemsError) {
-            console.error("Failed to fetch order items for stock update:", itemsError);
-        } else if (orderItems && orderItems.length > 0) {
-            console.log(`Updating stock for ${orderItems.length} items`);
-            for (const item of orderItems) {
-                const { data: product, error: productError } = await supabase
-                    .from("products")
-                    .select("stock")
-                    .eq("id", item.product_id)
-                    .single();
-
-                if (productError || !product) {
-                    console.error(`Failed to fetch product ${item.product_id}:`, productError);
-                    continue;
-                }
-
-                if (product.stock !== null && typeof product.stock === "number") {
-                    const newStock = Math.max(0, product.stock - item.quantity);
-                    const { error: updateError } = await supabase
-                        .from("products")
-                        .update({ stock: newStock })
-                        .eq("id", item.product_id);
-
-                    if (updateError) {
-                        console.error(`Failed to update stock for product ${item.product_id}:`, updateError);
-                    } else {
-                        console.log(`Stock updated for product ${item.product_id}: ${product.stock} -> ${newStock}`);
-                    }
-                }
-            }
-        }
+        // Stock was deducted by trigger_reduce_stock when the order's payment was captured
 
         return new Response(
             JSON.stringify({
@@ -0,0 +1,165 @@
+-- Per-size, per-color inventory (SKU variants)
+-- Replaces the single products.stock number for shoes with one row per size × color.
+-- products.stock is kept as the sum of its variants so listings, badges and
+-- accessories (which have no variants) keep working unchanged.
+
+-- 1. Variants table
+-- Empty string means "not applicable" (e.g. an accessory with colors but no sizes),
+-- which keeps (product_id, size, color) a plain unique key usable by upserts.
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  size TEXT NOT NULL DEFAULT '',
+  color TEXT NOT NULL DEFAULT '',
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  price_ksh INTEGER CHECK (price_ksh IS NULL OR price_ksh > 0), -- Optional override of products.price_ksh
+  sku TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(product_id, size, color)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_in_stock ON product_variants(product_id) WHERE stock > 0;
+
+-- 2. Link order items to the variant that was bought
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+
+-- 3. Backfill variants for existing shoes
+-- Every size × color combination gets a row; the old product-level stock is split
+-- evenly across them (remainder to the first combinations) so nothing disappears
+-- from the marketplace. Vendors can then correct the real counts per size.
+WITH combos AS (
+  SELECT
+    p.id AS product_id,
+    TRIM(COALESCE(s.size, '')) AS size,
+    TRIM(COALESCE(c.color, '')) AS color,
+    COALESCE(p.stock, 0) AS total_stock,
+    ROW_NUMBER() OVER (PARTITION BY p.id ORDER BY s.ord, c.ord) - 1 AS idx,
+    COUNT(*) OVER (PARTITION BY p.id) AS combo_count
+  FROM products p
+  LEFT JOIN LATERAL unnest(COALESCE(p.sizes, '{}')) WITH ORDINALITY AS s(size, ord) ON true
+  LEFT JOIN LATERAL unnest(COALESCE(p.colors, '{}')) WITH ORDINALITY AS c(color, ord) ON true
+  WHERE COALESCE(array_length(p.sizes, 1), 0) > 0
+     OR COALESCE(array_length(p.colors, 1), 0) > 0
+)
+INSERT INTO product_variants (product_id, size, color, stock)
+SELECT
+  product_id,
+  size,
+  color,
+  (total_stock / combo_count) + CASE WHEN idx < (total_stock % combo_count) THEN 1 ELSE 0 END
+FROM combos
+WHERE NOT (size = '' AND color = '')
+ON CONFLICT (product_id, size, color) DO NOTHING;
+
+-- 4. Keep products.stock equal to the sum of its variants
+CREATE OR REPLACE FUNCTION sync_product_stock_from_variants()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_product_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_product_id := OLD.product_id;
+  ELSE
+    target_product_id := NEW.product_id;
+  END IF;
+
+  UPDATE products
+  SET stock = COALESCE((
+        SELECT SUM(stock) FROM product_variants WHERE product_id = target_product_id
+      ), 0),
+      updated_at = NOW()
+  WHERE id = target_product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS product_variants_sync_stock ON product_variants;
+CREATE TRIGGER product_variants_sync_stock
+  AFTER INSERT OR UPDATE OF stock OR DELETE
+  ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_stock_from_variants();
+
+-- 5. Stock deduction now targets the purchased variant
+-- Items without a variant (accessories, legacy orders) still decrement products.stock.
+CREATE OR REPLACE FUNCTION deduct_order_items_stock(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE product_variants v
+  SET stock = GREATEST(0, v.stock - oi.quantity),
+      updated_at = NOW()
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) oi
+  WHERE v.id = oi.variant_id;
+
+  UPDATE products p
+  SET stock = GREATEST(0, p.stock - oi.quantity)
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NULL
+    GROUP BY product_id
+  ) oi
+  WHERE p.id = oi.product_id
+    AND p.stock IS NOT NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reduce_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only reduce stock when payment status changes to 'captured'
+  IF NEW.status = 'captured' AND (OLD.status IS NULL OR OLD.status != 'captured') THEN
+    PERFORM deduct_order_items_stock(NEW.order_id);
+    RAISE NOTICE 'Stock reduced for order %', NEW.order_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. RLS
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Anyone browsing can see which sizes are in stock
+CREATE POLICY "Anyone can view product variants"
+ON product_variants FOR SELECT
+USING (true);
+
+-- Vendors manage variants of their own products
+CREATE POLICY "Vendors can insert own product variants"
+ON product_variants FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM products p WHERE p.id = product_id AND p.vendor_id = auth.uid())
+);
+
+CREATE POLICY "Vendors can update own product variants"
+ON product_variants FOR UPDATE
+USING (
+  EXISTS (SELECT 1 FROM products p WHERE p.id = product_id AND p.vendor_id = auth.uid())
+);
+
+CREATE POLICY "Vendors can delete own product variants"
+ON product_variants FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM products p WHERE p.id = product_id AND p.vendor_id = auth.uid())
+);
+
+COMMENT ON TABLE product_variants IS 'Per-size, per-color inventory (SKU) for each product';
+COMMENT ON COLUMN product_variants.size IS 'EU size, empty string when the product has no sizes';
+COMMENT ON COLUMN product_variants.color IS 'Color name, empty string when the product has no colors';
+COMMENT ON COLUMN product_variants.price_ksh IS 'Optional price override; NULL uses products.price_ksh';
+COMMENT ON COLUMN order_items.variant_id IS 'Variant (size × color SKU) the buyer purchased';
@@ -0,0 +1,58 @@
+-- Multi-vendor checkout
+-- A buyer pays once for a cart that spans several vendors. The checkout is split into
+-- one order (with its own escrow row and delivery fee) per vendor, all linked to a
+-- checkout session that holds the shared gateway payment.
+
+-- 1. Checkout sessions
+CREATE TABLE IF NOT EXISTS checkout_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'failed', 'amount_mismatch', 'cancelled')),
+  gateway TEXT NOT NULL DEFAULT 'intasend',
+  subtotal_ksh NUMERIC(12,2) NOT NULL,
+  shipping_fee_ksh NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total_ksh NUMERIC(12,2) NOT NULL,
+  amount_paid_ksh NUMERIC(12,2),  -- What the gateway actually reported
+  transaction_id TEXT,            -- Gateway reference (IntaSend invoice / M-Pesa receipt)
+  metadata JSONB DEFAULT '{}',
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_sessions_customer ON checkout_sessions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_checkout_sessions_status ON checkout_sessions(status);
+
+-- 2. Link orders and their payment rows to the session
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS checkout_session_id UUID REFERENCES checkout_sessions(id) ON DELETE SET NULL,
+  -- Set when the gateway reports the payment failed; the order is then cancelled_by_customer
+  ADD COLUMN IF NOT EXISTS payment_failed_at TIMESTAMPTZ;
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS checkout_session_id UUID REFERENCES checkout_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_checkout_session ON orders(checkout_session_id) WHERE checkout_session_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payments_checkout_session ON payments(checkout_session_id) WHERE checkout_session_id IS NOT NULL;
+
+-- 3. RLS
+ALTER TABLE checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Buyers see and create their own sessions; admins see all
+CREATE POLICY "Users can view own checkout sessions"
+ON checkout_sessions FOR SELECT
+USING (auth.uid() = customer_id OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can create own checkout sessions"
+ON checkout_sessions FOR INSERT
+WITH CHECK (auth.uid() = customer_id AND status = 'pending');
+
+-- Allows the browser to roll back a session whose orders failed to save
+CREATE POLICY "Users can delete own pending checkout sessions"
+ON checkout_sessions FOR DELETE
+USING (auth.uid() = customer_id AND status = 'pending');
+
+COMMENT ON TABLE checkout_sessions IS 'One buyer payment covering the per-vendor orders created from a single cart';
+COMMENT ON COLUMN orders.checkout_session_id IS 'Checkout session this order was paid under (multi-vendor carts)';
+COMMENT ON COLUMN payments.checkout_session_id IS 'Shared gateway payment this order payment is part of';
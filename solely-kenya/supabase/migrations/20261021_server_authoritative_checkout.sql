@@ -0,0 +1,365 @@
+-- Server-authoritative checkout
+-- Orders are created in ONE transaction by create_checkout_orders(), called only by the
+-- create-order edge function (service role). Prices, variant stock, delivery fees,
+-- commission and totals are all recomputed here from the database; the browser only
+-- sends product/variant IDs, quantities and the delivery address.
+
+-- 1. Delivery fee (mirrors src/utils/deliveryPricing.ts - keep the two in sync)
+CREATE OR REPLACE FUNCTION delivery_metro_area(p_county TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_county IS NULL OR trim(p_county) = '' THEN NULL
+    WHEN lower(p_county) ~ '(nairobi|kiambu|machakos|kajiado)' THEN 'nairobi'
+    WHEN lower(p_county) ~ '(mombasa|kilifi)' THEN 'mombasa'
+    WHEN lower(p_county) LIKE '%kisumu%' THEN 'kisumu'
+    WHEN lower(p_county) LIKE '%nakuru%' THEN 'nakuru'
+    WHEN lower(p_county) LIKE '%uasin gishu%' THEN 'eldoret'
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_delivery_fee(
+  p_vendor_county TEXT,
+  p_buyer_county TEXT,
+  p_is_pickup BOOLEAN DEFAULT false
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_vendor_metro TEXT := delivery_metro_area(p_vendor_county);
+  v_buyer_metro TEXT := delivery_metro_area(p_buyer_county);
+  v_major_cities TEXT := '(nairobi|mombasa|kisumu|nakuru|eldoret|kiambu|machakos|kajiado|kilifi|uasin gishu)';
+BEGIN
+  IF p_is_pickup THEN
+    RETURN 0;
+  END IF;
+
+  -- Vendor location not set: legacy Nairobi 200 / outside 300
+  IF p_vendor_county IS NULL OR trim(p_vendor_county) = '' THEN
+    RETURN CASE WHEN v_buyer_metro = 'nairobi' THEN 200 ELSE 300 END;
+  END IF;
+
+  -- Same metro area
+  IF v_vendor_metro IS NOT NULL AND v_vendor_metro = v_buyer_metro THEN
+    RETURN 200;
+  END IF;
+
+  -- Both are major cities but different metros
+  IF lower(p_vendor_county) ~ v_major_cities AND lower(coalesce(p_buyer_county, '')) ~ v_major_cities THEN
+    RETURN 400;
+  END IF;
+
+  -- One or both in smaller towns
+  RETURN 500;
+END;
+$$;
+
+COMMENT ON FUNCTION calculate_delivery_fee(TEXT, TEXT, BOOLEAN) IS 'Delivery fee in KES for one vendor shipment; same rules as deliveryPricing.ts';
+
+-- 2. GPS pin columns written by checkout
+ALTER TABLE order_shipping_details
+  ADD COLUMN IF NOT EXISTS gps_latitude NUMERIC,
+  ADD COLUMN IF NOT EXISTS gps_longitude NUMERIC;
+
+-- 3. Transactional order creation
+-- p_items:    [{ "product_id": uuid, "variant_id": uuid|null, "size": text|null, "color": text|null, "quantity": int }]
+-- p_shipping: { recipient_name, phone, email, address_line1, address_line2, city, county,
+--               postal_code, delivery_notes, gps_latitude, gps_longitude }
+-- Any RAISE rolls back every row created, so partial orders can never leak.
+CREATE OR REPLACE FUNCTION create_checkout_orders(
+  p_customer_id UUID,
+  p_items JSONB,
+  p_shipping JSONB,
+  p_delivery_type TEXT DEFAULT 'delivery',
+  p_gateway TEXT DEFAULT 'intasend',
+  p_payment_metadata JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_commission_rate NUMERIC := 10;
+  v_is_pickup BOOLEAN := p_delivery_type = 'pickup';
+  v_item JSONB;
+  v_product RECORD;
+  v_variant_id UUID;
+  v_variant_size TEXT;
+  v_variant_color TEXT;
+  v_variant_stock INT;
+  v_variant_price NUMERIC;
+  v_has_variants BOOLEAN;
+  v_size TEXT;
+  v_color TEXT;
+  v_quantity INT;
+  v_unit_price NUMERIC;
+  v_vendor RECORD;
+  v_short RECORD;
+  v_session_id UUID;
+  v_order_id UUID;
+  v_order_ids UUID[] := '{}';
+  v_subtotal NUMERIC;
+  v_shipping_fee NUMERIC;
+  v_total NUMERIC;
+  v_commission NUMERIC;
+  v_grand_subtotal NUMERIC := 0;
+  v_grand_shipping NUMERIC := 0;
+  v_vendor_count INT;
+BEGIN
+  IF p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'No items provided for order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('delivery', 'pickup') THEN
+    RAISE EXCEPTION 'Invalid delivery type: %', p_delivery_type;
+  END IF;
+
+  IF coalesce(trim(p_shipping->>'recipient_name'), '') = '' OR coalesce(trim(p_shipping->>'phone'), '') = '' THEN
+    RAISE EXCEPTION 'Recipient name and phone number are required';
+  END IF;
+
+  -- Price every line from the database into a scratch table
+  DROP TABLE IF EXISTS checkout_lines;
+  CREATE TEMP TABLE checkout_lines (
+    line_no SERIAL,
+    vendor_id UUID,
+    product_id UUID,
+    product_name TEXT,
+    product_snapshot JSONB,
+    quantity INT,
+    unit_price_ksh NUMERIC,
+    line_total_ksh NUMERIC,
+    size TEXT,
+    color TEXT,
+    variant_id UUID
+  ) ON COMMIT DROP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INT;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    -- Lock the product so concurrent checkouts see consistent stock
+    SELECT id, vendor_id, name, price_ksh, stock, images, brand, status
+      INTO v_product
+      FROM products
+     WHERE id = (v_item->>'product_id')::UUID
+     FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    IF v_product.status IS DISTINCT FROM 'active' THEN
+      RAISE EXCEPTION '% is no longer available', v_product.name;
+    END IF;
+
+    IF v_product.price_ksh IS NULL THEN
+      RAISE EXCEPTION 'Invalid product pricing';
+    END IF;
+
+    SELECT EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product.id) INTO v_has_variants;
+    v_variant_id := NULL;
+    v_variant_size := NULL;
+    v_variant_color := NULL;
+
+    IF v_has_variants THEN
+      SELECT id, size, color, stock, price_ksh
+        INTO v_variant_id, v_variant_size, v_variant_color, v_variant_stock, v_variant_price
+        FROM product_variants
+       WHERE product_id = v_product.id
+         AND (
+           id = NULLIF(v_item->>'variant_id', '')::UUID
+           OR (
+             NULLIF(v_item->>'variant_id', '') IS NULL
+             AND size = coalesce(v_item->>'size', '')
+             AND color = coalesce(v_item->>'color', '')
+           )
+         )
+       FOR UPDATE;
+
+      IF v_variant_id IS NULL THEN
+        RAISE EXCEPTION 'Selected size/color is not available for %', v_product.name;
+      END IF;
+
+      IF v_variant_stock < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for % in size %. Only % available.',
+          v_product.name, coalesce(NULLIF(v_variant_size, ''), '-'), v_variant_stock;
+      END IF;
+
+      v_unit_price := coalesce(v_variant_price, v_product.price_ksh);
+    ELSE
+      IF v_product.stock IS NOT NULL AND v_product.stock < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for %. Only % available.', v_product.name, v_product.stock;
+      END IF;
+
+      v_unit_price := v_product.price_ksh;
+    END IF;
+
+    v_size := coalesce(NULLIF(v_variant_size, ''), NULLIF(v_item->>'size', ''));
+    v_color := coalesce(NULLIF(v_variant_color, ''), NULLIF(v_item->>'color', ''));
+
+    INSERT INTO checkout_lines (
+      vendor_id, product_id, product_name, product_snapshot, quantity,
+      unit_price_ksh, line_total_ksh, size, color, variant_id
+    ) VALUES (
+      v_product.vendor_id,
+      v_product.id,
+      v_product.name,
+      jsonb_build_object(
+        'brand', v_product.brand,
+        'images', v_product.images,
+        'price_ksh', v_unit_price,
+        'size', v_size,
+        'color', v_color
+      ),
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      v_size,
+      v_color,
+      v_variant_id
+    );
+  END LOOP;
+
+  -- The same size (or product) can be on several lines; check the combined quantity too
+  SELECT min(l.product_name) AS product_name, min(v.size) AS size, sum(l.quantity) AS quantity, min(v.stock) AS stock
+    INTO v_short
+    FROM checkout_lines l
+    JOIN product_variants v ON v.id = l.variant_id
+   GROUP BY l.variant_id
+  HAVING sum(l.quantity) > min(v.stock)
+   LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Insufficient stock for % in size %. Only % available.',
+      v_short.product_name, coalesce(NULLIF(v_short.size, ''), '-'), v_short.stock;
+  END IF;
+
+  SELECT min(l.product_name) AS product_name, sum(l.quantity) AS quantity, min(p.stock) AS stock
+    INTO v_short
+    FROM checkout_lines l
+    JOIN products p ON p.id = l.product_id
+   WHERE l.variant_id IS NULL
+     AND p.stock IS NOT NULL
+   GROUP BY l.product_id
+  HAVING sum(l.quantity) > min(p.stock)
+   LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Insufficient stock for %. Only % available.', v_short.product_name, v_short.stock;
+  END IF;
+
+  SELECT count(DISTINCT vendor_id) INTO v_vendor_count FROM checkout_lines;
+
+  -- Several vendors share one payment through a checkout session
+  IF v_vendor_count > 1 THEN
+    INSERT INTO checkout_sessions (customer_id, gateway, subtotal_ksh, shipping_fee_ksh, total_ksh, metadata)
+    VALUES (p_customer_id, p_gateway, 0, 0, 0, jsonb_build_object('vendor_count', v_vendor_count))
+    RETURNING id INTO v_session_id;
+  END IF;
+
+  -- One order, delivery fee and payment row per vendor
+  FOR v_vendor IN
+    SELECT l.vendor_id, sum(l.line_total_ksh) AS subtotal, p.vendor_county
+      FROM checkout_lines l
+      LEFT JOIN profiles p ON p.id = l.vendor_id
+     GROUP BY l.vendor_id, p.vendor_county
+     ORDER BY min(l.line_no)
+  LOOP
+    v_subtotal := round(v_vendor.subtotal, 2);
+    v_shipping_fee := calculate_delivery_fee(v_vendor.vendor_county, p_shipping->>'county', v_is_pickup);
+    v_total := round(v_subtotal + v_shipping_fee, 2);
+    v_commission := round(v_subtotal * v_commission_rate / 100, 2);
+
+    INSERT INTO orders (
+      customer_id, vendor_id, subtotal_ksh, shipping_fee_ksh, total_ksh,
+      commission_rate, commission_amount, payout_amount, status, checkout_session_id
+    ) VALUES (
+      p_customer_id, v_vendor.vendor_id, v_subtotal, v_shipping_fee, v_total,
+      v_commission_rate, v_commission, round(v_total - v_commission, 2), 'pending_payment', v_session_id
+    )
+    RETURNING id INTO v_order_id;
+
+    v_order_ids := array_append(v_order_ids, v_order_id);
+
+    INSERT INTO order_items (
+      order_id, product_id, product_name, product_snapshot, quantity,
+      unit_price_ksh, line_total_ksh, size, color, variant_id
+    )
+    SELECT v_order_id, product_id, product_name, product_snapshot, quantity,
+           unit_price_ksh, line_total_ksh, size, color, variant_id
+      FROM checkout_lines
+     WHERE vendor_id = v_vendor.vendor_id;
+
+    INSERT INTO order_shipping_details (
+      order_id, recipient_name, phone, email, address_line1, address_line2, city, county,
+      postal_code, country, delivery_notes, delivery_type, gps_latitude, gps_longitude
+    ) VALUES (
+      v_order_id,
+      p_shipping->>'recipient_name',
+      p_shipping->>'phone',
+      NULLIF(p_shipping->>'email', ''),
+      CASE WHEN v_is_pickup THEN NULL ELSE p_shipping->>'address_line1' END,
+      CASE WHEN v_is_pickup THEN NULL ELSE NULLIF(p_shipping->>'address_line2', '') END,
+      CASE WHEN v_is_pickup THEN NULL ELSE p_shipping->>'city' END,
+      NULLIF(p_shipping->>'county', ''),
+      NULLIF(p_shipping->>'postal_code', ''),
+      'Kenya',
+      NULLIF(p_shipping->>'delivery_notes', ''),
+      p_delivery_type,
+      (p_shipping->>'gps_latitude')::NUMERIC,
+      (p_shipping->>'gps_longitude')::NUMERIC
+    );
+
+    INSERT INTO payments (order_id, gateway, status, amount_ksh, currency, metadata, checkout_session_id)
+    VALUES (v_order_id, p_gateway::payment_gateway, 'pending', v_total, 'KES', p_payment_metadata, v_session_id);
+
+    v_grand_subtotal := v_grand_subtotal + v_subtotal;
+    v_grand_shipping := v_grand_shipping + v_shipping_fee;
+  END LOOP;
+
+  IF v_session_id IS NOT NULL THEN
+    UPDATE checkout_sessions
+       SET subtotal_ksh = v_grand_subtotal,
+           shipping_fee_ksh = v_grand_shipping,
+           total_ksh = v_grand_subtotal + v_grand_shipping
+     WHERE id = v_session_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'checkout_session_id', v_session_id,
+    'order_ids', to_jsonb(v_order_ids),
+    'subtotal_ksh', v_grand_subtotal,
+    'shipping_fee_ksh', v_grand_shipping,
+    'total_ksh', v_grand_subtotal + v_grand_shipping
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION create_checkout_orders(UUID, JSONB, JSONB, TEXT, TEXT, JSONB) IS 'Only path for creating orders: prices, fees and totals are computed from the database in one transaction';
+
+-- Only the create-order edge function (service role) may create orders
+REVOKE ALL ON FUNCTION create_checkout_orders(UUID, JSONB, JSONB, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_checkout_orders(UUID, JSONB, JSONB, TEXT, TEXT, JSONB) TO service_role;
+
+-- 4. Retire browser-side inserts
+DROP POLICY IF EXISTS "Authenticated users or valid email can create orders" ON public.orders;
+DROP POLICY IF EXISTS "orders_insert_customer" ON orders;
+DROP POLICY IF EXISTS "order_items_insert" ON order_items;
+DROP POLICY IF EXISTS "order_shipping_insert" ON order_shipping_details;
+DROP POLICY IF EXISTS "payments_insert" ON payments;
+DROP POLICY IF EXISTS "Users can create own checkout sessions" ON checkout_sessions;
+DROP POLICY IF EXISTS "Users can delete own pending checkout sessions" ON checkout_sessions;
@@ -0,0 +1,487 @@
+-- Configurable commission engine
+-- Replaces the hardcoded 10% with rules stored in commission_rules and edited from the
+-- admin dashboard. At order creation each line is matched to the most specific active rule:
+--   vendor override > promotion (time-boxed) > category > monthly GMV tier > default
+-- Ties within a level go to the higher priority, then the newest rule.
+-- The rule(s) used are stored on the order and copied to commission_ledger for audit.
+
+-- 1. Rules
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('default', 'category', 'vendor', 'promotion', 'gmv_tier')),
+  rate NUMERIC(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  category TEXT,                -- products.category key or 'shoes' (category rules; optional scope for promotions)
+  vendor_id UUID REFERENCES profiles(id) ON DELETE CASCADE, -- vendor overrides; optional scope for promotions
+  min_monthly_gmv NUMERIC(12,2), -- gmv_tier: applies once the vendor's month-to-date GMV reaches this
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  priority INT NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT commission_rules_category_required CHECK (rule_type <> 'category' OR category IS NOT NULL),
+  CONSTRAINT commission_rules_vendor_required CHECK (rule_type <> 'vendor' OR vendor_id IS NOT NULL),
+  CONSTRAINT commission_rules_tier_required CHECK (rule_type <> 'gmv_tier' OR min_monthly_gmv IS NOT NULL),
+  CONSTRAINT commission_rules_promotion_window CHECK (rule_type <> 'promotion' OR (starts_at IS NOT NULL AND ends_at IS NOT NULL)),
+  CONSTRAINT commission_rules_valid_window CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_rules_active ON commission_rules(rule_type) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_commission_rules_vendor ON commission_rules(vendor_id) WHERE vendor_id IS NOT NULL;
+
+-- Today's flat rate becomes the default rule
+INSERT INTO commission_rules (name, rule_type, rate, notes)
+SELECT 'Standard commission', 'default', 10, 'Applies when no more specific rule matches'
+WHERE NOT EXISTS (SELECT 1 FROM commission_rules WHERE rule_type = 'default');
+
+-- 2. Where the rule is recorded
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS commission_rule_id UUID REFERENCES commission_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS commission_rate NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS commission_amount NUMERIC(12,2);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS commission_rule_id UUID REFERENCES commission_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS commission_breakdown JSONB DEFAULT '[]';
+
+ALTER TABLE commission_ledger
+  ADD COLUMN IF NOT EXISTS commission_rule_id UUID REFERENCES commission_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rule_breakdown JSONB;
+
+COMMENT ON COLUMN orders.commission_rule_id IS 'Rule that produced most of this order''s commission';
+COMMENT ON COLUMN orders.commission_breakdown IS 'Per-rule split: [{rule_id, rule_name, rule_type, rate, base_ksh, commission_ksh}]';
+COMMENT ON COLUMN commission_ledger.commission_rule_id IS 'Commission rule that produced this entry (see rule_breakdown for mixed orders)';
+
+-- 3. Vendor month-to-date GMV (paid orders only, product value excluding delivery)
+CREATE OR REPLACE FUNCTION vendor_monthly_gmv(p_vendor_id UUID, p_at TIMESTAMPTZ DEFAULT now())
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(subtotal_ksh), 0)
+    FROM orders
+   WHERE vendor_id = p_vendor_id
+     AND created_at >= date_trunc('month', p_at)
+     AND created_at < p_at
+     AND status IN ('pending_vendor_confirmation', 'accepted', 'shipped', 'arrived', 'delivered', 'completed');
+$$;
+
+-- 4. Rule resolution
+CREATE OR REPLACE FUNCTION resolve_commission_rule(
+  p_vendor_id UUID,
+  p_category TEXT,
+  p_monthly_gmv NUMERIC DEFAULT NULL,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (rule_id UUID, rule_name TEXT, rule_type TEXT, rate NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.name, r.rule_type, r.rate
+    FROM commission_rules r
+   WHERE r.is_active
+     AND (r.starts_at IS NULL OR r.starts_at <= p_at)
+     AND (r.ends_at IS NULL OR r.ends_at > p_at)
+     AND CASE r.rule_type
+           WHEN 'vendor' THEN r.vendor_id = p_vendor_id
+           WHEN 'promotion' THEN (r.vendor_id IS NULL OR r.vendor_id = p_vendor_id)
+                             AND (r.category IS NULL OR lower(r.category) = lower(coalesce(p_category, ''))
+                                  OR (lower(r.category) = 'shoes' AND lower(coalesce(p_category, '')) <> 'accessories'))
+           -- 'shoes' is a group key covering every footwear category (anything but accessories)
+           WHEN 'category' THEN lower(r.category) = lower(coalesce(p_category, ''))
+                             OR (lower(r.category) = 'shoes' AND lower(coalesce(p_category, '')) <> 'accessories')
+           WHEN 'gmv_tier' THEN coalesce(p_monthly_gmv, vendor_monthly_gmv(p_vendor_id, p_at)) >= r.min_monthly_gmv
+           ELSE true
+         END
+   ORDER BY
+     CASE r.rule_type
+       WHEN 'vendor' THEN 1
+       WHEN 'promotion' THEN 2
+       WHEN 'category' THEN 3
+       WHEN 'gmv_tier' THEN 4
+       ELSE 5
+     END,
+     (lower(r.category) = lower(coalesce(p_category, ''))) DESC NULLS LAST,
+     r.priority DESC,
+     r.min_monthly_gmv DESC NULLS LAST,
+     r.created_at DESC
+   LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ) IS 'Most specific active commission rule for a vendor/category at a point in time';
+
+-- Vendor GMV and commission terms are private - only checkout (security definer) and the service role use them
+REVOKE ALL ON FUNCTION vendor_monthly_gmv(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION vendor_monthly_gmv(UUID, TIMESTAMPTZ) TO service_role;
+REVOKE ALL ON FUNCTION resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ) TO service_role;
+
+-- 5. Order creation now applies the rules
+-- p_items:    [{ "product_id": uuid, "variant_id": uuid|null, "size": text|null, "color": text|null, "quantity": int }]
+-- p_shipping: { recipient_name, phone, email, address_line1, address_line2, city, county,
+--               postal_code, delivery_notes, gps_latitude, gps_longitude }
+-- Any RAISE rolls back every row created, so partial orders can never leak.
+CREATE OR REPLACE FUNCTION create_checkout_orders(
+  p_customer_id UUID,
+  p_items JSONB,
+  p_shipping JSONB,
+  p_delivery_type TEXT DEFAULT 'delivery',
+  p_gateway TEXT DEFAULT 'intasend',
+  p_payment_metadata JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fallback_rate NUMERIC := 10; -- Only used if no commission rule matches at all
+  v_commission_rate NUMERIC;
+  v_line RECORD;
+  v_rule_id UUID;
+  v_rule_rate NUMERIC;
+  v_primary_rule_id UUID;
+  v_breakdown JSONB;
+  v_monthly_gmv NUMERIC;
+  v_is_pickup BOOLEAN := p_delivery_type = 'pickup';
+  v_item JSONB;
+  v_product RECORD;
+  v_variant_id UUID;
+  v_variant_size TEXT;
+  v_variant_color TEXT;
+  v_variant_stock INT;
+  v_variant_price NUMERIC;
+  v_has_variants BOOLEAN;
+  v_size TEXT;
+  v_color TEXT;
+  v_quantity INT;
+  v_unit_price NUMERIC;
+  v_vendor RECORD;
+  v_short RECORD;
+  v_session_id UUID;
+  v_order_id UUID;
+  v_order_ids UUID[] := '{}';
+  v_subtotal NUMERIC;
+  v_shipping_fee NUMERIC;
+  v_total NUMERIC;
+  v_commission NUMERIC;
+  v_grand_subtotal NUMERIC := 0;
+  v_grand_shipping NUMERIC := 0;
+  v_vendor_count INT;
+BEGIN
+  IF p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'No items provided for order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('delivery', 'pickup') THEN
+    RAISE EXCEPTION 'Invalid delivery type: %', p_delivery_type;
+  END IF;
+
+  IF coalesce(trim(p_shipping->>'recipient_name'), '') = '' OR coalesce(trim(p_shipping->>'phone'), '') = '' THEN
+    RAISE EXCEPTION 'Recipient name and phone number are required';
+  END IF;
+
+  -- Price every line from the database into a scratch table
+  DROP TABLE IF EXISTS checkout_lines;
+  CREATE TEMP TABLE checkout_lines (
+    line_no SERIAL,
+    vendor_id UUID,
+    category TEXT,
+    product_id UUID,
+    product_name TEXT,
+    product_snapshot JSONB,
+    quantity INT,
+    unit_price_ksh NUMERIC,
+    line_total_ksh NUMERIC,
+    size TEXT,
+    color TEXT,
+    variant_id UUID,
+    commission_rule_id UUID,
+    commission_rate NUMERIC,
+    commission_amount NUMERIC
+  ) ON COMMIT DROP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INT;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    -- Lock the product so concurrent checkouts see consistent stock
+    SELECT id, vendor_id, name, category, price_ksh, stock, images, brand, status
+      INTO v_product
+      FROM products
+     WHERE id = (v_item->>'product_id')::UUID
+     FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    IF v_product.status IS DISTINCT FROM 'active' THEN
+      RAISE EXCEPTION '% is no longer available', v_product.name;
+    END IF;
+
+    IF v_product.price_ksh IS NULL THEN
+      RAISE EXCEPTION 'Invalid product pricing';
+    END IF;
+
+    SELECT EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product.id) INTO v_has_variants;
+    v_variant_id := NULL;
+    v_variant_size := NULL;
+    v_variant_color := NULL;
+
+    IF v_has_variants THEN
+      SELECT id, size, color, stock, price_ksh
+        INTO v_variant_id, v_variant_size, v_variant_color, v_variant_stock, v_variant_price
+        FROM product_variants
+       WHERE product_id = v_product.id
+         AND (
+           id = NULLIF(v_item->>'variant_id', '')::UUID
+           OR (
+             NULLIF(v_item->>'variant_id', '') IS NULL
+             AND size = coalesce(v_item->>'size', '')
+             AND color = coalesce(v_item->>'color', '')
+           )
+         )
+       FOR UPDATE;
+
+      IF v_variant_id IS NULL THEN
+        RAISE EXCEPTION 'Selected size/color is not available for %', v_product.name;
+      END IF;
+
+      IF v_variant_stock < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for % in size %. Only % available.',
+          v_product.name, coalesce(NULLIF(v_variant_size, ''), '-'), v_variant_stock;
+      END IF;
+
+      v_unit_price := coalesce(v_variant_price, v_product.price_ksh);
+    ELSE
+      IF v_product.stock IS NOT NULL AND v_product.stock < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for %. Only % available.', v_product.name, v_product.stock;
+      END IF;
+
+      v_unit_price := v_product.price_ksh;
+    END IF;
+
+    v_size := coalesce(NULLIF(v_variant_size, ''), NULLIF(v_item->>'size', ''));
+    v_color := coalesce(NULLIF(v_variant_color, ''), NULLIF(v_item->>'color', ''));
+
+    INSERT INTO checkout_lines (
+      vendor_id, category, product_id, product_name, product_snapshot, quantity,
+      unit_price_ksh, line_total_ksh, size, color, variant_id
+    ) VALUES (
+      v_product.vendor_id,
+      v_product.category,
+      v_product.id,
+      v_product.name,
+      jsonb_build_object(
+        'brand', v_product.brand,
+        'images', v_product.images,
+        'price_ksh', v_unit_price,
+        'size', v_size,
+        'color', v_color
+      ),
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      v_size,
+      v_color,
+      v_variant_id
+    );
+  END LOOP;
+
+  -- The same size (or product) can be on several lines; check the combined quantity too
+  SELECT min(l.product_name) AS product_name, min(v.size) AS size, sum(l.quantity) AS quantity, min(v.stock) AS stock
+    INTO v_short
+    FROM checkout_lines l
+    JOIN product_variants v ON v.id = l.variant_id
+   GROUP BY l.variant_id
+  HAVING sum(l.quantity) > min(v.stock)
+   LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Insufficient stock for % in size %. Only % available.',
+      v_short.product_name, coalesce(NULLIF(v_short.size, ''), '-'), v_short.stock;
+  END IF;
+
+  SELECT min(l.product_name) AS product_name, sum(l.quantity) AS quantity, min(p.stock) AS stock
+    INTO v_short
+    FROM checkout_lines l
+    JOIN products p ON p.id = l.product_id
+   WHERE l.variant_id IS NULL
+     AND p.stock IS NOT NULL
+   GROUP BY l.product_id
+  HAVING sum(l.quantity) > min(p.stock)
+   LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Insufficient stock for %. Only % available.', v_short.product_name, v_short.stock;
+  END IF;
+
+  SELECT count(DISTINCT vendor_id) INTO v_vendor_count FROM checkout_lines;
+
+  -- Several vendors share one payment through a checkout session
+  IF v_vendor_count > 1 THEN
+    INSERT INTO checkout_sessions (customer_id, gateway, subtotal_ksh, shipping_fee_ksh, total_ksh, metadata)
+    VALUES (p_customer_id, p_gateway, 0, 0, 0, jsonb_build_object('vendor_count', v_vendor_count))
+    RETURNING id INTO v_session_id;
+  END IF;
+
+  -- One order, delivery fee and payment row per vendor
+  FOR v_vendor IN
+    SELECT l.vendor_id, sum(l.line_total_ksh) AS subtotal, p.vendor_county
+      FROM checkout_lines l
+      LEFT JOIN profiles p ON p.id = l.vendor_id
+     GROUP BY l.vendor_id, p.vendor_county
+     ORDER BY min(l.line_no)
+  LOOP
+    v_subtotal := round(v_vendor.subtotal, 2);
+    v_shipping_fee := calculate_delivery_fee(v_vendor.vendor_county, p_shipping->>'county', v_is_pickup);
+    v_total := round(v_subtotal + v_shipping_fee, 2);
+
+    -- Commission is resolved per line so e.g. accessories and shoes can carry different rates
+    v_monthly_gmv := vendor_monthly_gmv(v_vendor.vendor_id);
+    FOR v_line IN
+      SELECT line_no, category, line_total_ksh FROM checkout_lines WHERE vendor_id = v_vendor.vendor_id
+    LOOP
+      v_rule_id := NULL;
+      v_rule_rate := NULL;
+      SELECT r.rule_id, r.rate INTO v_rule_id, v_rule_rate
+        FROM resolve_commission_rule(v_vendor.vendor_id, v_line.category, v_monthly_gmv) r;
+
+      UPDATE checkout_lines
+         SET commission_rule_id = v_rule_id,
+             commission_rate = coalesce(v_rule_rate, v_fallback_rate),
+             commission_amount = round(v_line.line_total_ksh * coalesce(v_rule_rate, v_fallback_rate) / 100, 2)
+       WHERE line_no = v_line.line_no;
+    END LOOP;
+
+    SELECT coalesce(sum(commission_amount), 0) INTO v_commission
+      FROM checkout_lines WHERE vendor_id = v_vendor.vendor_id;
+    v_commission_rate := CASE WHEN v_subtotal > 0 THEN round(v_commission / v_subtotal * 100, 2) ELSE v_fallback_rate END;
+
+    -- Which rule(s) produced the commission, for the ledger
+    SELECT jsonb_agg(jsonb_build_object(
+             'rule_id', b.rule_id,
+             'rule_name', b.rule_name,
+             'rule_type', b.rule_type,
+             'rate', b.rate,
+             'base_ksh', b.base_ksh,
+             'commission_ksh', b.commission_ksh
+           ) ORDER BY b.commission_ksh DESC),
+           (array_agg(b.rule_id ORDER BY b.commission_ksh DESC))[1]
+      INTO v_breakdown, v_primary_rule_id
+      FROM (
+        SELECT l.commission_rule_id AS rule_id, r.name AS rule_name, r.rule_type, l.commission_rate AS rate,
+               sum(l.line_total_ksh) AS base_ksh, sum(l.commission_amount) AS commission_ksh
+          FROM checkout_lines l
+          LEFT JOIN commission_rules r ON r.id = l.commission_rule_id
+         WHERE l.vendor_id = v_vendor.vendor_id
+         GROUP BY l.commission_rule_id, r.name, r.rule_type, l.commission_rate
+      ) b;
+
+    INSERT INTO orders (
+      customer_id, vendor_id, subtotal_ksh, shipping_fee_ksh, total_ksh,
+      commission_rate, commission_amount, payout_amount, status, checkout_session_id,
+      commission_rule_id, commission_breakdown
+    ) VALUES (
+      p_customer_id, v_vendor.vendor_id, v_subtotal, v_shipping_fee, v_total,
+      v_commission_rate, v_commission, round(v_total - v_commission, 2), 'pending_payment', v_session_id,
+      v_primary_rule_id, coalesce(v_breakdown, '[]'::jsonb)
+    )
+    RETURNING id INTO v_order_id;
+
+    v_order_ids := array_append(v_order_ids, v_order_id);
+
+    INSERT INTO order_items (
+      order_id, product_id, product_name, product_snapshot, quantity,
+      unit_price_ksh, line_total_ksh, size, color, variant_id,
+      commission_rule_id, commission_rate, commission_amount
+    )
+    SELECT v_order_id, product_id, product_name, product_snapshot, quantity,
+           unit_price_ksh, line_total_ksh, size, color, variant_id,
+           commission_rule_id, commission_rate, commission_amount
+      FROM checkout_lines
+     WHERE vendor_id = v_vendor.vendor_id;
+
+    INSERT INTO order_shipping_details (
+      order_id, recipient_name, phone, email, address_line1, address_line2, city, county,
+      postal_code, country, delivery_notes, delivery_type, gps_latitude, gps_longitude
+    ) VALUES (
+      v_order_id,
+      p_shipping->>'recipient_name',
+      p_shipping->>'phone',
+      NULLIF(p_shipping->>'email', ''),
+      CASE WHEN v_is_pickup THEN NULL ELSE p_shipping->>'address_line1' END,
+      CASE WHEN v_is_pickup THEN NULL ELSE NULLIF(p_shipping->>'address_line2', '') END,
+      CASE WHEN v_is_pickup THEN NULL ELSE p_shipping->>'city' END,
+      NULLIF(p_shipping->>'county', ''),
+      NULLIF(p_shipping->>'postal_code', ''),
+      'Kenya',
+      NULLIF(p_shipping->>'delivery_notes', ''),
+      p_delivery_type,
+      (p_shipping->>'gps_latitude')::NUMERIC,
+      (p_shipping->>'gps_longitude')::NUMERIC
+    );
+
+    INSERT INTO payments (order_id, gateway, status, amount_ksh, currency, metadata, checkout_session_id)
+    VALUES (v_order_id, p_gateway::payment_gateway, 'pending', v_total, 'KES', p_payment_metadata, v_session_id);
+
+    v_grand_subtotal := v_grand_subtotal + v_subtotal;
+    v_grand_shipping := v_grand_shipping + v_shipping_fee;
+  END LOOP;
+
+  IF v_session_id IS NOT NULL THEN
+    UPDATE checkout_sessions
+       SET subtotal_ksh = v_grand_subtotal,
+           shipping_fee_ksh = v_grand_shipping,
+           total_ksh = v_grand_subtotal + v_grand_shipping
+     WHERE id = v_session_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'checkout_session_id', v_session_id,
+    'order_ids', to_jsonb(v_order_ids),
+    'subtotal_ksh', v_grand_subtotal,
+    'shipping_fee_ksh', v_grand_shipping,
+    'total_ksh', v_grand_subtotal + v_grand_shipping
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION create_checkout_orders(UUID, JSONB, JSONB, TEXT, TEXT, JSONB) IS 'Only path for creating orders: prices, fees, commission and totals are computed from the database in one transaction';
+
+-- CREATE OR REPLACE keeps existing grants, restated here so this file stands alone
+REVOKE ALL ON FUNCTION create_checkout_orders(UUID, JSONB, JSONB, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_checkout_orders(UUID, JSONB, JSONB, TEXT, TEXT, JSONB) TO service_role;
+
+-- 6. RLS
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+
+-- Marketplace-wide rules are public (shown on the vendor landing page); vendors see their own overrides
+CREATE POLICY "Anyone can view general commission rules"
+ON commission_rules FOR SELECT
+USING (vendor_id IS NULL OR vendor_id = auth.uid() OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage commission rules"
+ON commission_rules FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_commission_rules_updated_at
+BEFORE UPDATE ON commission_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
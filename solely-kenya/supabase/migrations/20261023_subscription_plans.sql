@@ -0,0 +1,534 @@
+-- Vendor subscription plans
+-- Commission stays the core model; plans are optional upgrades on top of it.
+-- Every vendor without a paid plan is on 'starter' (free). Paid plans raise the
+-- listing limit and add perks (commission discount, featured placement).
+-- Plans are bought/renewed from VendorSettings via IntaSend or M-Pesa (vendor-subscribe).
+-- When a paid plan expires the vendor drops back to starter and listings beyond the
+-- starter limit are moved to draft.
+
+-- 1. Plan catalogue
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  plan subscription_plan PRIMARY KEY,
+  name TEXT NOT NULL,
+  price_ksh INTEGER NOT NULL DEFAULT 0 CHECK (price_ksh >= 0),
+  duration_days INTEGER NOT NULL DEFAULT 30 CHECK (duration_days > 0),
+  product_limit INTEGER,                 -- NULL = unlimited listings
+  commission_discount NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (commission_discount >= 0), -- percentage points off
+  is_featured BOOLEAN NOT NULL DEFAULT false, -- listings shown first in the shop
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO subscription_plans (plan, name, price_ksh, product_limit, commission_discount, is_featured, description, sort_order)
+VALUES
+  ('starter', 'Starter', 0, 10, 0, false, 'Free plan for every vendor', 1),
+  ('growth', 'Growth', 1500, 50, 1, false, 'More listings and 1% off commission', 2),
+  ('pro', 'Pro', 3500, 150, 2, true, 'Featured placement and 2% off commission', 3),
+  ('unlimited', 'Unlimited', 7500, NULL, 3, true, 'Unlimited listings, featured placement and 3% off commission', 4)
+ON CONFLICT (plan) DO NOTHING;
+
+-- 2. Plan purchases (one row per IntaSend checkout / M-Pesa STK push)
+CREATE TABLE IF NOT EXISTS subscription_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  plan subscription_plan NOT NULL,
+  amount_ksh INTEGER NOT NULL,
+  gateway TEXT NOT NULL CHECK (gateway IN ('intasend', 'mpesa')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'failed', 'amount_mismatch')),
+  transaction_reference TEXT,  -- M-Pesa CheckoutRequestID until paid, then the receipt / IntaSend invoice
+  amount_paid_ksh NUMERIC(12,2),
+  subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+  metadata JSONB DEFAULT '{}',
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_payments_vendor ON subscription_payments(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_payments_reference ON subscription_payments(transaction_reference);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_vendor_active ON subscriptions(vendor_id, end_date) WHERE is_active;
+
+-- 3. Featured placement flag, kept in sync with the vendor's plan
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS is_featured BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_products_featured ON products(is_featured) WHERE is_featured;
+
+COMMENT ON COLUMN products.is_featured IS 'Vendor is on a plan with featured placement (maintained by sync_vendor_plan_perks)';
+
+-- 4. Current plan for a vendor (falls back to starter)
+CREATE OR REPLACE FUNCTION get_vendor_plan(p_vendor_id UUID)
+RETURNS TABLE (
+  plan subscription_plan,
+  plan_name TEXT,
+  product_limit INTEGER,
+  commission_discount NUMERIC,
+  is_featured BOOLEAN,
+  subscription_id UUID,
+  end_date TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.plan, p.name, coalesce(s.product_limit, p.product_limit), p.commission_discount, p.is_featured, s.id, s.end_date
+    FROM subscriptions s
+    JOIN subscription_plans p ON p.plan = s.plan
+   WHERE s.vendor_id = p_vendor_id
+     AND s.is_active
+     AND s.end_date > now()
+  UNION ALL
+  SELECT p.plan, p.name, p.product_limit, p.commission_discount, p.is_featured, NULL::UUID, NULL::TIMESTAMPTZ
+    FROM subscription_plans p
+   WHERE p.plan = 'starter'
+  ORDER BY end_date DESC NULLS LAST
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION get_vendor_plan(UUID) IS 'Active paid plan for a vendor, or the free starter plan';
+
+-- Listings count against the limit while active or out of stock (drafts are free)
+CREATE OR REPLACE FUNCTION vendor_listing_count(p_vendor_id UUID, p_exclude_product_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+    FROM products
+   WHERE vendor_id = p_vendor_id
+     AND status IN ('active', 'out_of_stock')
+     AND (p_exclude_product_id IS NULL OR id <> p_exclude_product_id);
+$$;
+
+-- 5. Enforce the listing limit on every path that makes a product live, and keep
+-- is_featured in line with the plan (vendors can update their own product rows)
+CREATE OR REPLACE FUNCTION enforce_vendor_plan_on_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan RECORD;
+BEGIN
+  SELECT * INTO v_plan FROM get_vendor_plan(NEW.vendor_id);
+
+  -- Featured placement always comes from the plan, never from the vendor's own update
+  NEW.is_featured := coalesce(v_plan.is_featured, false);
+
+  -- Restocking (out_of_stock -> active) is not a new listing
+  IF NEW.status = 'active'
+     AND (TG_OP = 'INSERT' OR OLD.status = 'draft')
+     AND v_plan.product_limit IS NOT NULL
+     AND NOT has_role(NEW.vendor_id, 'admin')
+     AND vendor_listing_count(NEW.vendor_id, NEW.id) >= v_plan.product_limit THEN
+    RAISE EXCEPTION 'PRODUCT_LIMIT_REACHED'
+      USING HINT = format('The %s plan allows %s live listings', v_plan.plan_name, v_plan.product_limit);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_vendor_plan ON products;
+CREATE TRIGGER trigger_enforce_vendor_plan
+BEFORE INSERT OR UPDATE OF status, is_featured ON products
+FOR EACH ROW
+EXECUTE FUNCTION enforce_vendor_plan_on_product();
+
+-- 6. publish_product checks the plan limit up front for a clear error
+CREATE OR REPLACE FUNCTION public.publish_product(product_id_to_publish uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  current_vendor_id uuid;
+  vendor_product_limit integer;
+BEGIN
+  -- 1. Get the current user's ID from the session
+  current_vendor_id := auth.uid();
+
+  -- 2. Ensure user is authenticated
+  IF current_vendor_id IS NULL THEN
+    RAISE EXCEPTION 'AUTHENTICATION_REQUIRED';
+  END IF;
+
+  -- 3. Check the listing limit of the vendor's plan (admins are exempt)
+  IF NOT has_role(current_vendor_id, 'admin') THEN
+    SELECT product_limit INTO vendor_product_limit FROM get_vendor_plan(current_vendor_id);
+
+    IF vendor_product_limit IS NOT NULL
+       AND vendor_listing_count(current_vendor_id, product_id_to_publish) >= vendor_product_limit THEN
+      RAISE EXCEPTION 'PRODUCT_LIMIT_REACHED';
+    END IF;
+  END IF;
+
+  -- 4. Publish the product by setting its status to 'active'
+  -- Only allow publishing if the product belongs to the current user
+  UPDATE public.products
+  SET status = 'active'
+  WHERE id = product_id_to_publish
+    AND vendor_id = current_vendor_id;
+
+  -- 5. Check if the update succeeded
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PRODUCT_NOT_FOUND_OR_NOT_OWNED';
+  END IF;
+
+END;
+$$;
+
+-- 7. Apply plan perks to a vendor's existing listings
+CREATE OR REPLACE FUNCTION sync_vendor_plan_perks(p_vendor_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_featured BOOLEAN;
+BEGIN
+  SELECT is_featured INTO v_featured FROM get_vendor_plan(p_vendor_id);
+
+  UPDATE products
+     SET is_featured = coalesce(v_featured, false)
+   WHERE vendor_id = p_vendor_id
+     AND is_featured IS DISTINCT FROM coalesce(v_featured, false);
+END;
+$$;
+
+-- 8. Activate (or renew) a plan once its payment is confirmed
+-- Renewing the current plan extends it from its end date; switching plans starts now.
+CREATE OR REPLACE FUNCTION activate_vendor_subscription(
+  p_payment_id UUID,
+  p_transaction_id TEXT DEFAULT NULL,
+  p_amount_paid NUMERIC DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment subscription_payments%ROWTYPE;
+  v_plan subscription_plans%ROWTYPE;
+  v_current_id UUID;
+  v_current_plan subscription_plan;
+  v_current_end TIMESTAMPTZ;
+  v_subscription_id UUID;
+BEGIN
+  SELECT * INTO v_payment FROM subscription_payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SUBSCRIPTION_PAYMENT_NOT_FOUND';
+  END IF;
+
+  -- Idempotent for repeated webhooks
+  IF v_payment.status = 'paid' THEN
+    RETURN v_payment.subscription_id;
+  END IF;
+
+  IF p_amount_paid IS NOT NULL AND round(p_amount_paid) < v_payment.amount_ksh THEN
+    UPDATE subscription_payments
+       SET status = 'amount_mismatch',
+           amount_paid_ksh = p_amount_paid,
+           transaction_reference = coalesce(p_transaction_id, transaction_reference),
+           updated_at = now()
+     WHERE id = p_payment_id;
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_plan FROM subscription_plans WHERE plan = v_payment.plan;
+
+  SELECT id, plan, end_date INTO v_current_id, v_current_plan, v_current_end
+    FROM subscriptions
+   WHERE vendor_id = v_payment.vendor_id
+     AND is_active
+     AND end_date > now()
+   ORDER BY end_date DESC
+   LIMIT 1;
+
+  IF v_current_id IS NOT NULL AND v_current_plan = v_payment.plan THEN
+    UPDATE subscriptions
+       SET end_date = v_current_end + make_interval(days => v_plan.duration_days),
+           payment_reference = coalesce(p_transaction_id, payment_reference),
+           updated_at = now()
+     WHERE id = v_current_id;
+    v_subscription_id := v_current_id;
+  ELSE
+    UPDATE subscriptions
+       SET is_active = false, updated_at = now()
+     WHERE vendor_id = v_payment.vendor_id AND is_active;
+
+    INSERT INTO subscriptions (vendor_id, plan, price_ksh, product_limit, start_date, end_date, is_active, payment_reference)
+    VALUES (
+      v_payment.vendor_id, v_payment.plan, v_payment.amount_ksh, v_plan.product_limit,
+      now(), now() + make_interval(days => v_plan.duration_days), true, p_transaction_id
+    )
+    RETURNING id INTO v_subscription_id;
+  END IF;
+
+  UPDATE subscription_payments
+     SET status = 'paid',
+         amount_paid_ksh = coalesce(p_amount_paid, amount_ksh),
+         transaction_reference = coalesce(p_transaction_id, transaction_reference),
+         subscription_id = v_subscription_id,
+         paid_at = now(),
+         updated_at = now()
+   WHERE id = p_payment_id;
+
+  PERFORM sync_vendor_plan_perks(v_payment.vendor_id);
+
+  INSERT INTO notifications (user_id, title, message, type, related_id)
+  VALUES (
+    v_payment.vendor_id,
+    'Subscription Active',
+    'Your ' || v_plan.name || ' plan is active until ' ||
+      to_char((SELECT end_date FROM subscriptions WHERE id = v_subscription_id), 'DD Mon YYYY'),
+    'subscription_activated',
+    v_subscription_id
+  );
+
+  RETURN v_subscription_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION activate_vendor_subscription(UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION activate_vendor_subscription(UUID, TEXT, NUMERIC) TO service_role;
+
+-- 9. Downgrade on expiry
+-- Expired plans are deactivated and the vendor falls back to starter. Listings over the
+-- starter limit go back to draft, keeping the most recently updated ones live.
+CREATE OR REPLACE FUNCTION expire_vendor_subscriptions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id UUID;
+  v_limit INTEGER;
+  v_drafted INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_vendor_id IN
+    WITH expired AS (
+      UPDATE subscriptions
+         SET is_active = false, updated_at = now()
+       WHERE is_active AND end_date <= now()
+      RETURNING vendor_id
+    )
+    SELECT DISTINCT vendor_id FROM expired
+  LOOP
+    -- Still covered by another plan (e.g. renewed onto a different plan)
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM subscriptions
+       WHERE vendor_id = v_vendor_id AND is_active AND end_date > now()
+    );
+
+    SELECT product_limit INTO v_limit FROM get_vendor_plan(v_vendor_id);
+    v_drafted := 0;
+
+    IF v_limit IS NOT NULL THEN
+      UPDATE products
+         SET status = 'draft'
+       WHERE id IN (
+         SELECT id FROM products
+          WHERE vendor_id = v_vendor_id
+            AND status IN ('active', 'out_of_stock')
+          ORDER BY updated_at DESC NULLS LAST, created_at DESC
+          OFFSET v_limit
+       );
+      GET DIAGNOSTICS v_drafted = ROW_COUNT;
+    END IF;
+
+    PERFORM sync_vendor_plan_perks(v_vendor_id);
+
+    INSERT INTO notifications (user_id, title, message, type, related_id)
+    VALUES (
+      v_vendor_id,
+      'Subscription Expired',
+      CASE WHEN v_drafted > 0
+        THEN 'Your plan has expired and you are back on Starter. ' || v_drafted || ' listing(s) over the Starter limit were moved to draft. Renew to republish them.'
+        ELSE 'Your plan has expired and you are back on Starter. Renew anytime from Settings.'
+      END,
+      'subscription_expired',
+      NULL
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_vendor_subscriptions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_vendor_subscriptions() TO service_role;
+
+-- check_subscription_expiry now also performs the downgrade
+CREATE OR REPLACE FUNCTION public.check_subscription_expiry()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub_record RECORD;
+BEGIN
+  PERFORM expire_vendor_subscriptions();
+
+  -- Check for subscriptions expiring in 7 days
+  FOR sub_record IN
+    SELECT vendor_id, end_date, plan
+    FROM subscriptions
+    WHERE is_active = true
+    AND end_date > now()
+    AND end_date <= now() + interval '7 days'
+    AND NOT EXISTS (
+      SELECT 1 FROM notifications
+      WHERE user_id = subscriptions.vendor_id
+      AND type = 'subscription_expiring_7'
+      AND created_at > now() - interval '7 days'
+    )
+  LOOP
+    INSERT INTO notifications (user_id, title, message, type, related_id)
+    VALUES (
+      sub_record.vendor_id,
+      'Subscription Expiring Soon',
+      'Your ' || sub_record.plan || ' subscription expires in 7 days',
+      'subscription_expiring_7',
+      NULL
+    );
+  END LOOP;
+
+  -- Check for subscriptions expiring in 1 day
+  FOR sub_record IN
+    SELECT vendor_id, end_date, plan
+    FROM subscriptions
+    WHERE is_active = true
+    AND end_date > now()
+    AND end_date <= now() + interval '1 day'
+    AND NOT EXISTS (
+      SELECT 1 FROM notifications
+      WHERE user_id = subscriptions.vendor_id
+      AND type = 'subscription_expiring_1'
+      AND created_at > now() - interval '1 day'
+    )
+  LOOP
+    INSERT INTO notifications (user_id, title, message, type, related_id)
+    VALUES (
+      sub_record.vendor_id,
+      'Subscription Expiring Tomorrow',
+      'Your ' || sub_record.plan || ' subscription expires tomorrow!',
+      'subscription_expiring_1',
+      NULL
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'check-subscription-expiry',
+    '15 * * * *',  -- Hourly
+    $$ SELECT public.check_subscription_expiry(); $$
+);
+
+-- 10. Plan perk: commission discount
+-- Same precedence as before; the vendor's plan discount comes off every rule except
+-- negotiated vendor overrides. Return type gains plan_discount, so drop and recreate.
+DROP FUNCTION IF EXISTS resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ);
+
+CREATE FUNCTION resolve_commission_rule(
+  p_vendor_id UUID,
+  p_category TEXT,
+  p_monthly_gmv NUMERIC DEFAULT NULL,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (rule_id UUID, rule_name TEXT, rule_type TEXT, rate NUMERIC, plan_discount NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH matched AS (
+    SELECT r.id, r.name, r.rule_type, r.rate
+      FROM commission_rules r
+     WHERE r.is_active
+       AND (r.starts_at IS NULL OR r.starts_at <= p_at)
+       AND (r.ends_at IS NULL OR r.ends_at > p_at)
+       AND CASE r.rule_type
+             WHEN 'vendor' THEN r.vendor_id = p_vendor_id
+             WHEN 'promotion' THEN (r.vendor_id IS NULL OR r.vendor_id = p_vendor_id)
+                               AND (r.category IS NULL OR lower(r.category) = lower(coalesce(p_category, ''))
+                                    OR (lower(r.category) = 'shoes' AND lower(coalesce(p_category, '')) <> 'accessories'))
+             -- 'shoes' is a group key covering every footwear category (anything but accessories)
+             WHEN 'category' THEN lower(r.category) = lower(coalesce(p_category, ''))
+                               OR (lower(r.category) = 'shoes' AND lower(coalesce(p_category, '')) <> 'accessories')
+             WHEN 'gmv_tier' THEN coalesce(p_monthly_gmv, vendor_monthly_gmv(p_vendor_id, p_at)) >= r.min_monthly_gmv
+             ELSE true
+           END
+     ORDER BY
+       CASE r.rule_type
+         WHEN 'vendor' THEN 1
+         WHEN 'promotion' THEN 2
+         WHEN 'category' THEN 3
+         WHEN 'gmv_tier' THEN 4
+         ELSE 5
+       END,
+       (lower(r.category) = lower(coalesce(p_category, ''))) DESC NULLS LAST,
+       r.priority DESC,
+       r.min_monthly_gmv DESC NULLS LAST,
+       r.created_at DESC
+     LIMIT 1
+  ),
+  discount AS (
+    SELECT coalesce((SELECT commission_discount FROM get_vendor_plan(p_vendor_id)), 0) AS points
+  )
+  SELECT m.id, m.name, m.rule_type,
+         CASE WHEN m.rule_type = 'vendor' THEN m.rate ELSE greatest(m.rate - d.points, 0) END,
+         CASE WHEN m.rule_type = 'vendor' THEN 0 ELSE least(d.points, m.rate) END
+    FROM matched m, discount d;
+$$;
+
+COMMENT ON FUNCTION resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ) IS 'Most specific active commission rule for a vendor/category at a point in time, net of the vendor''s plan discount';
+
+-- Recreated, so the grants from 20261022 are applied again
+REVOKE ALL ON FUNCTION resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_commission_rule(UUID, TEXT, NUMERIC, TIMESTAMPTZ) TO service_role;
+
+-- 11. RLS
+ALTER TABLE subscription_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view subscription plans"
+ON subscription_plans FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage subscription plans"
+ON subscription_plans FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- Purchases are created and settled by edge functions (service role)
+CREATE POLICY "Vendors can view own subscription payments"
+ON subscription_payments FOR SELECT
+USING (auth.uid() = vendor_id OR has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_subscription_plans_updated_at
+BEFORE UPDATE ON subscription_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE subscription_plans IS 'Optional vendor plans: listing limits and perks on top of commission';
+COMMENT ON TABLE subscription_payments IS 'IntaSend / M-Pesa payments for buying or renewing a vendor plan';
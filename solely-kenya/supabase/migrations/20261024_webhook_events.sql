@@ -0,0 +1,112 @@
+-- Webhook authenticity and idempotency
+-- Every IntaSend webhook and M-Pesa (Daraja) callback is stored here before it is
+-- processed, keyed on the provider's event id. A second delivery of an event that was
+-- already processed, or is being processed by a concurrent request, is acknowledged
+-- without touching orders again. Admins can replay a
+-- stored event (e.g. after a bug fix) from the dashboard via replay-webhook-event.
+
+-- 1. Event log
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('intasend', 'mpesa')),
+  event_id TEXT NOT NULL,      -- IntaSend: invoice_id:state, M-Pesa: CheckoutRequestID
+  event_type TEXT,             -- IntaSend state / M-Pesa ResultCode
+  reference TEXT,              -- api_ref / CheckoutRequestID, for searching
+  payload JSONB NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT false,
+  verification_error TEXT,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processing', 'processed', 'failed', 'rejected')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  duplicate_count INTEGER NOT NULL DEFAULT 0, -- deliveries ignored because the event was already processed
+  last_error TEXT,
+  processed_at TIMESTAMPTZ,
+  replayed_at TIMESTAMPTZ,
+  replayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT webhook_events_provider_event_unique UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_reference ON webhook_events(reference);
+
+-- 2. Per-request M-Pesa callback tokens
+-- The STK push callback URL carries ?token=<nonce>&sig=<hmac>. Order payments keep the
+-- nonce in payments.metadata.callback_token; plan purchases keep it here.
+ALTER TABLE mpesa_transactions
+  ADD COLUMN IF NOT EXISTS callback_token TEXT;
+
+-- 3. RLS: service role writes, admins read
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events"
+ON webhook_events FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_webhook_events_updated_at
+BEFORE UPDATE ON webhook_events
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- 4. Claiming a redelivered event
+-- The first delivery inserts the row as 'processing'. A later delivery (or an admin replay
+-- of a verified event) reprocesses it only if this UPDATE moves it to 'processing', so two
+-- concurrent deliveries can never both go on to settle the same payment. Returns the row
+-- with claimed = false when it is already processed or in progress.
+CREATE OR REPLACE FUNCTION claim_webhook_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_payload JSONB,
+  p_replay BOOLEAN DEFAULT false,
+  p_replayed_by UUID DEFAULT NULL
+)
+RETURNS TABLE (id UUID, claimed BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  UPDATE webhook_events e
+  SET status = 'processing',
+      attempts = e.attempts + 1,
+      last_error = NULL,
+      -- A verified delivery replaces whatever payload was stored under this ID
+      payload = CASE WHEN p_replay THEN e.payload ELSE p_payload END,
+      verified = true,
+      verification_error = NULL,
+      replayed_at = CASE WHEN p_replay THEN NOW() ELSE e.replayed_at END,
+      replayed_by = CASE WHEN p_replay THEN p_replayed_by ELSE e.replayed_by END
+  WHERE e.provider = p_provider
+    AND e.event_id = p_event_id
+    AND (
+      e.status IN ('received', 'failed', 'rejected')
+      OR (p_replay AND e.status = 'processed')
+    )
+    AND (NOT p_replay OR e.verified)
+  RETURNING e.id INTO v_id;
+
+  IF v_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_id, true;
+    RETURN;
+  END IF;
+
+  UPDATE webhook_events e
+  SET duplicate_count = e.duplicate_count + 1
+  WHERE e.provider = p_provider
+    AND e.event_id = p_event_id
+  RETURNING e.id INTO v_id;
+
+  IF v_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_id, false;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_webhook_event(TEXT, TEXT, JSONB, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_event(TEXT, TEXT, JSONB, BOOLEAN, UUID) TO service_role;
+
+COMMENT ON TABLE webhook_events IS 'Inbound payment webhooks/callbacks: verification result, processing status and replay history';
+COMMENT ON COLUMN mpesa_transactions.callback_token IS 'Nonce in the signed CallBackURL sent with this STK push';
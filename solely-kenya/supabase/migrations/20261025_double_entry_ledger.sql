@@ -0,0 +1,472 @@
+-- Double-entry ledger
+-- Every money movement (payment captured, escrow released, refund, transfer to a vendor
+-- wallet, withdrawal/payout, gateway fees) is posted as a balanced journal entry.
+-- vendor_balances.pending_balance is derived from the vendor's payable account instead of
+-- being adjusted by hand in edge functions, so the fix_*_balance.sql repairs are no longer
+-- needed. Corrections are made with new (reversing) entries - posted entries are immutable.
+--
+-- Accounts
+--   buyer_funds       asset      Money received from buyers, held in the platform settlement wallet
+--   escrow            liability  Buyer money held until delivery is confirmed
+--   platform_revenue  revenue    Commission and vendor plan fees
+--   gateway_fees      expense    Payment/payout fees the platform absorbs
+--   opening_balances  equity     Balances carried over when the ledger was introduced
+--   vendor_payable:*  liability  What the platform owes each vendor (their balance)
+--   vendor_wallet:*   asset      Vendor money already moved to the vendor's IntaSend wallet
+
+-- 1. Accounts
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  account_type TEXT NOT NULL CHECK (account_type IN ('asset', 'liability', 'equity', 'revenue', 'expense')),
+  vendor_id UUID REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_vendor ON ledger_accounts(vendor_id) WHERE vendor_id IS NOT NULL;
+
+INSERT INTO ledger_accounts (code, name, account_type) VALUES
+  ('buyer_funds', 'Buyer funds (settlement wallet)', 'asset'),
+  ('escrow', 'Escrow held for buyers', 'liability'),
+  ('platform_revenue', 'Platform revenue', 'revenue'),
+  ('gateway_fees', 'Gateway fees', 'expense'),
+  ('opening_balances', 'Opening balances', 'equity')
+ON CONFLICT (code) DO NOTHING;
+
+-- 2. Journal
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'payment_captured', 'escrow_release', 'refund', 'wallet_transfer',
+    'vendor_withdrawal', 'payout', 'gateway_fee', 'subscription_payment',
+    'opening_balance', 'adjustment'
+  )),
+  idempotency_key TEXT UNIQUE,   -- e.g. escrow_release:<order_id>; re-posting the same key is a no-op
+  order_id UUID REFERENCES orders(id),
+  payout_id UUID REFERENCES payouts(id),
+  description TEXT,
+  metadata JSONB,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  posted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE RESTRICT,
+  account_id UUID NOT NULL REFERENCES ledger_accounts(id) ON DELETE RESTRICT,
+  debit NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  memo TEXT,
+  CONSTRAINT journal_lines_one_side CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_order ON journal_entries(order_id) WHERE order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_journal_entries_type ON journal_entries(entry_type, posted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account_id);
+
+-- 3. Integrity: entries balance at commit, and the journal is append-only
+CREATE OR REPLACE FUNCTION check_journal_entry_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_debit NUMERIC;
+  v_credit NUMERIC;
+BEGIN
+  SELECT coalesce(sum(debit), 0), coalesce(sum(credit), 0)
+    INTO v_debit, v_credit
+    FROM journal_lines
+   WHERE entry_id = NEW.entry_id;
+
+  IF v_debit <> v_credit THEN
+    RAISE EXCEPTION 'UNBALANCED_ENTRY: entry % debits % <> credits %', NEW.entry_id, v_debit, v_credit;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_journal_entry_balanced ON journal_lines;
+CREATE CONSTRAINT TRIGGER trigger_journal_entry_balanced
+AFTER INSERT ON journal_lines
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+EXECUTE FUNCTION check_journal_entry_balanced();
+
+CREATE OR REPLACE FUNCTION prevent_journal_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'JOURNAL_IMMUTABLE: post a reversing entry instead of changing %', TG_TABLE_NAME;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_journal_entries_immutable ON journal_entries;
+CREATE TRIGGER trigger_journal_entries_immutable
+BEFORE UPDATE OR DELETE ON journal_entries
+FOR EACH ROW
+EXECUTE FUNCTION prevent_journal_changes();
+
+DROP TRIGGER IF EXISTS trigger_journal_lines_immutable ON journal_lines;
+CREATE TRIGGER trigger_journal_lines_immutable
+BEFORE UPDATE OR DELETE ON journal_lines
+FOR EACH ROW
+EXECUTE FUNCTION prevent_journal_changes();
+
+-- 4. Account lookup (vendor accounts are created on first use)
+CREATE OR REPLACE FUNCTION ledger_account_id(p_code TEXT, p_vendor_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_code TEXT;
+BEGIN
+  IF p_code IN ('vendor_payable', 'vendor_wallet') THEN
+    IF p_vendor_id IS NULL THEN
+      RAISE EXCEPTION 'LEDGER_VENDOR_REQUIRED: % needs a vendor', p_code;
+    END IF;
+    v_code := p_code || ':' || p_vendor_id;
+
+    INSERT INTO ledger_accounts (code, name, account_type, vendor_id)
+    VALUES (
+      v_code,
+      CASE p_code WHEN 'vendor_payable' THEN 'Vendor payable' ELSE 'Vendor wallet' END,
+      CASE p_code WHEN 'vendor_payable' THEN 'liability' ELSE 'asset' END,
+      p_vendor_id
+    )
+    ON CONFLICT (code) DO NOTHING;
+  ELSE
+    v_code := p_code;
+  END IF;
+
+  SELECT id INTO v_id FROM ledger_accounts WHERE code = v_code;
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'LEDGER_ACCOUNT_NOT_FOUND: %', v_code;
+  END IF;
+  RETURN v_id;
+END;
+$$;
+
+-- 5. Posting
+-- p_lines: [{ "account": "escrow", "vendor_id": null, "debit": 100, "credit": 0, "memo": "..." }, ...]
+-- Zero-amount lines are skipped. Returns the entry id (the existing one for a repeated key).
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_entry_type TEXT,
+  p_lines JSONB,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_payout_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_line JSONB;
+  v_debit NUMERIC;
+  v_credit NUMERIC;
+  v_total_debit NUMERIC := 0;
+  v_total_credit NUMERIC := 0;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_entry_id FROM journal_entries WHERE idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+      RETURN v_entry_id;
+    END IF;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'INVALID_ENTRY: a journal entry needs at least two lines';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_total_debit := v_total_debit + round(coalesce((v_line->>'debit')::NUMERIC, 0), 2);
+    v_total_credit := v_total_credit + round(coalesce((v_line->>'credit')::NUMERIC, 0), 2);
+  END LOOP;
+
+  IF v_total_debit <> v_total_credit THEN
+    RAISE EXCEPTION 'UNBALANCED_ENTRY: debits % <> credits %', v_total_debit, v_total_credit;
+  END IF;
+
+  IF v_total_debit = 0 THEN
+    RETURN NULL; -- nothing to post
+  END IF;
+
+  INSERT INTO journal_entries (entry_type, idempotency_key, order_id, payout_id, description, metadata, created_by)
+  VALUES (p_entry_type, p_idempotency_key, p_order_id, p_payout_id, p_description, p_metadata, p_created_by)
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  IF v_entry_id IS NULL THEN
+    -- Posted concurrently under the same key
+    SELECT id INTO v_entry_id FROM journal_entries WHERE idempotency_key = p_idempotency_key;
+    RETURN v_entry_id;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_debit := round(coalesce((v_line->>'debit')::NUMERIC, 0), 2);
+    v_credit := round(coalesce((v_line->>'credit')::NUMERIC, 0), 2);
+    IF v_debit < 0 OR v_credit < 0 THEN
+      RAISE EXCEPTION 'INVALID_ENTRY: negative amount on %', v_line->>'account';
+    END IF;
+    CONTINUE WHEN v_debit = 0 AND v_credit = 0;
+
+    INSERT INTO journal_lines (entry_id, account_id, debit, credit, memo)
+    VALUES (
+      v_entry_id,
+      ledger_account_id(v_line->>'account', nullif(v_line->>'vendor_id', '')::UUID),
+      v_debit,
+      v_credit,
+      v_line->>'memo'
+    );
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION post_journal_entry(TEXT, JSONB, TEXT, UUID, UUID, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION post_journal_entry(TEXT, JSONB, TEXT, UUID, UUID, TEXT, JSONB, UUID) TO service_role;
+REVOKE ALL ON FUNCTION ledger_account_id(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION ledger_account_id(TEXT, UUID) TO service_role;
+
+COMMENT ON FUNCTION post_journal_entry(TEXT, JSONB, TEXT, UUID, UUID, TEXT, JSONB, UUID) IS 'Only way to write the ledger: posts a balanced entry, idempotent on p_idempotency_key';
+
+-- 6. Balances
+CREATE OR REPLACE VIEW ledger_account_balances AS
+SELECT
+  a.id AS account_id,
+  a.code,
+  a.name,
+  a.account_type,
+  a.vendor_id,
+  coalesce(sum(l.debit), 0) AS total_debit,
+  coalesce(sum(l.credit), 0) AS total_credit,
+  -- Positive in the account's normal direction
+  CASE WHEN a.account_type IN ('asset', 'expense')
+    THEN coalesce(sum(l.debit), 0) - coalesce(sum(l.credit), 0)
+    ELSE coalesce(sum(l.credit), 0) - coalesce(sum(l.debit), 0)
+  END AS balance
+FROM ledger_accounts a
+LEFT JOIN journal_lines l ON l.account_id = a.id
+GROUP BY a.id;
+
+ALTER VIEW ledger_account_balances SET (security_invoker = true);
+
+CREATE OR REPLACE FUNCTION vendor_ledger_balance(p_vendor_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(l.credit) - sum(l.debit), 0)
+    FROM journal_lines l
+    JOIN ledger_accounts a ON a.id = l.account_id
+   WHERE a.code = 'vendor_payable:' || p_vendor_id;
+$$;
+
+REVOKE ALL ON FUNCTION vendor_ledger_balance(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION vendor_ledger_balance(UUID) TO service_role;
+
+COMMENT ON FUNCTION vendor_ledger_balance(UUID) IS 'What the platform owes a vendor: credit balance of their vendor_payable account';
+
+-- 7. vendor_balances is derived from the ledger
+-- pending_balance is recomputed from the vendor_payable account after every posting;
+-- total_earned / total_paid_out accumulate release credits and payout debits.
+-- A refund after release can leave a vendor owing the platform, so the balance may go negative.
+ALTER TABLE vendor_balances DROP CONSTRAINT IF EXISTS vendor_balances_pending_balance_check;
+
+-- Every release path (confirm-order, verify-delivery-otp, auto-release-escrow and
+-- releaseHeldEscrow, used by returns, dispute releases and refund remainders) posts an
+-- escrow_release entry, so crediting on order completion as well would pay twice.
+DROP TRIGGER IF EXISTS order_completed_balance_trigger ON orders;
+DROP FUNCTION IF EXISTS add_to_vendor_balance();
+
+CREATE OR REPLACE FUNCTION sync_vendor_balance_from_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id UUID;
+  v_entry_type TEXT;
+BEGIN
+  SELECT a.vendor_id INTO v_vendor_id
+    FROM ledger_accounts a
+   WHERE a.id = NEW.account_id AND a.code LIKE 'vendor_payable:%';
+
+  IF v_vendor_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT entry_type INTO v_entry_type FROM journal_entries WHERE id = NEW.entry_id;
+
+  INSERT INTO vendor_balances (vendor_id, pending_balance, total_earned, total_paid_out)
+  VALUES (v_vendor_id, 0, 0, 0)
+  ON CONFLICT (vendor_id) DO NOTHING;
+
+  UPDATE vendor_balances
+     SET pending_balance = vendor_ledger_balance(v_vendor_id),
+         total_earned = coalesce(total_earned, 0)
+           + CASE WHEN v_entry_type = 'escrow_release' THEN NEW.credit ELSE 0 END,
+         total_paid_out = coalesce(total_paid_out, 0)
+           + CASE WHEN v_entry_type IN ('vendor_withdrawal', 'payout') THEN NEW.debit ELSE 0 END,
+         last_payout_at = CASE WHEN v_entry_type IN ('vendor_withdrawal', 'payout') THEN NOW() ELSE last_payout_at END,
+         updated_at = NOW()
+   WHERE vendor_id = v_vendor_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_vendor_balance ON journal_lines;
+CREATE TRIGGER trigger_sync_vendor_balance
+AFTER INSERT ON journal_lines
+FOR EACH ROW
+EXECUTE FUNCTION sync_vendor_balance_from_ledger();
+
+-- 8. Payments are posted by the database, whichever webhook captured them
+CREATE OR REPLACE FUNCTION post_captured_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'captured' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'captured') THEN
+    PERFORM post_journal_entry(
+      'payment_captured',
+      jsonb_build_array(
+        jsonb_build_object('account', 'buyer_funds', 'debit', NEW.amount_ksh, 'memo', NEW.gateway::TEXT || ' ' || coalesce(NEW.transaction_reference, '')),
+        jsonb_build_object('account', 'escrow', 'credit', NEW.amount_ksh)
+      ),
+      'payment_captured:' || NEW.id,
+      NEW.order_id,
+      NULL,
+      'Buyer payment captured into escrow'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_post_captured_payment ON payments;
+CREATE TRIGGER trigger_post_captured_payment
+AFTER INSERT OR UPDATE OF status ON payments
+FOR EACH ROW
+EXECUTE FUNCTION post_captured_payment();
+
+CREATE OR REPLACE FUNCTION post_subscription_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    PERFORM post_journal_entry(
+      'subscription_payment',
+      jsonb_build_array(
+        jsonb_build_object('account', 'buyer_funds', 'debit', coalesce(NEW.amount_paid_ksh, NEW.amount_ksh)),
+        jsonb_build_object('account', 'platform_revenue', 'credit', coalesce(NEW.amount_paid_ksh, NEW.amount_ksh), 'memo', 'Plan ' || NEW.plan::TEXT)
+      ),
+      'subscription_payment:' || NEW.id,
+      NULL,
+      NULL,
+      'Vendor plan payment',
+      jsonb_build_object('vendor_id', NEW.vendor_id, 'subscription_payment_id', NEW.id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_post_subscription_payment ON subscription_payments;
+CREATE TRIGGER trigger_post_subscription_payment
+AFTER UPDATE OF status ON subscription_payments
+FOR EACH ROW
+EXECUTE FUNCTION post_subscription_payment();
+
+-- 9. Opening balances
+-- Escrow still held and vendor balances as they stand today are carried into the ledger
+-- once, so derived balances start from the current figures.
+SELECT post_journal_entry(
+  'opening_balance',
+  jsonb_build_array(
+    jsonb_build_object('account', 'buyer_funds', 'debit', e.held_amount),
+    jsonb_build_object('account', 'escrow', 'credit', e.held_amount)
+  ),
+  'opening_escrow:' || e.order_id,
+  e.order_id,
+  NULL,
+  'Escrow held when the ledger was introduced'
+)
+FROM (
+  SELECT order_id, sum(held_amount) AS held_amount
+    FROM escrow_transactions
+   WHERE status = 'held'
+   GROUP BY order_id
+) e
+WHERE e.held_amount > 0;
+
+SELECT post_journal_entry(
+  'opening_balance',
+  jsonb_build_array(
+    jsonb_build_object('account', 'opening_balances', 'debit', vb.pending_balance),
+    jsonb_build_object('account', 'vendor_payable', 'vendor_id', vb.vendor_id, 'credit', vb.pending_balance)
+  ),
+  'opening_vendor_balance:' || vb.vendor_id,
+  NULL,
+  NULL,
+  'Vendor balance when the ledger was introduced'
+)
+FROM vendor_balances vb
+WHERE vb.pending_balance > 0;
+
+-- 10. RLS: service role writes through post_journal_entry, admins read everything,
+-- vendors read their own accounts
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ledger accounts"
+ON ledger_accounts FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Vendors can view their ledger accounts"
+ON ledger_accounts FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view journal entries"
+ON journal_entries FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view journal lines"
+ON journal_lines FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Vendors can view their journal lines"
+ON journal_lines FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM ledger_accounts a
+    WHERE a.id = journal_lines.account_id AND a.vendor_id = auth.uid()
+  )
+);
+
+COMMENT ON TABLE ledger_accounts IS 'Chart of accounts for the double-entry ledger; vendor accounts are created on first posting';
+COMMENT ON TABLE journal_entries IS 'Immutable journal: one row per money movement, idempotent on idempotency_key';
+COMMENT ON TABLE journal_lines IS 'Debit/credit lines of a journal entry; every entry balances';
+COMMENT ON COLUMN vendor_balances.pending_balance IS 'Derived from the ledger: credit balance of the vendor_payable account';
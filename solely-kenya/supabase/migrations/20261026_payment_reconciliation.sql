@@ -0,0 +1,77 @@
+-- Payment reconciliation
+-- reconcile-payments compares a gateway statement (pulled from the IntaSend API nightly,
+-- or an uploaded IntaSend / M-Pesa CSV) with payments, subscription_payments,
+-- mpesa_transactions and payouts. Each run stores the discrepancies it found so admins can
+-- work through them from the dashboard.
+
+-- 1. Runs
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('intasend', 'mpesa')),
+  source TEXT NOT NULL CHECK (source IN ('api', 'csv')),
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  statement_count INTEGER NOT NULL DEFAULT 0,
+  internal_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  unmatched_statement_count INTEGER NOT NULL DEFAULT 0,
+  unmatched_internal_count INTEGER NOT NULL DEFAULT 0,
+  amount_mismatch_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  file_name TEXT,                -- uploaded statement
+  error TEXT,
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for the nightly job
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at DESC);
+
+-- 2. Discrepancies
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+  issue_type TEXT NOT NULL CHECK (issue_type IN (
+    'unmatched_statement',  -- on the gateway statement, not in our records
+    'unmatched_internal',   -- in our records, not on the statement
+    'amount_mismatch',
+    'duplicate'
+  )),
+  reference TEXT,
+  direction TEXT CHECK (direction IN ('in', 'out')),
+  statement_amount NUMERIC(12,2),
+  internal_amount NUMERIC(12,2),
+  internal_table TEXT CHECK (internal_table IN ('payments', 'subscription_payments', 'mpesa_transactions', 'payouts')),
+  internal_ids UUID[],
+  statement_rows JSONB,
+  details TEXT,
+  resolved BOOLEAN NOT NULL DEFAULT false,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolution_notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_run ON reconciliation_items(run_id, issue_type);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_open ON reconciliation_items(resolved) WHERE NOT resolved;
+
+-- 3. RLS: the edge function writes with the service role; admins read and resolve
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs"
+ON reconciliation_runs FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view reconciliation items"
+ON reconciliation_items FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can resolve reconciliation items"
+ON reconciliation_items FOR UPDATE
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+COMMENT ON TABLE reconciliation_runs IS 'One gateway statement compared against payments/payouts, with discrepancy counts';
+COMMENT ON TABLE reconciliation_items IS 'Unmatched, amount-mismatched and duplicate transactions found by a reconciliation run';
@@ -0,0 +1,381 @@
+-- Partial refunds
+-- Admins (dispute resolution) and vendors can refund individual order items, the delivery
+-- fee or an arbitrary amount instead of the whole order. Each refund is recorded in
+-- order_refunds. While escrow is held, the refunded amount comes off the escrow and the
+-- commission is recalculated on what the vendor keeps, so the later release pays out
+-- only the retained portion.
+--
+-- process-refund calls reserve_order_refund before asking the gateway for the money back
+-- (locks the order and claims the items) and settle_order_refund afterwards.
+
+-- 1. Dispute outcome
+ALTER TYPE dispute_status ADD VALUE IF NOT EXISTS 'resolved_partial_refund';
+
+-- 2. Running refund totals
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS refunded_amount_ksh NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS delivery_fee_refunded BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS refunded_amount_ksh NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE escrow_transactions
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN orders.refunded_amount_ksh IS 'Total refunded to the buyer so far (full and partial refunds)';
+COMMENT ON COLUMN order_items.refunded_quantity IS 'Units refunded, including refunds still waiting on the gateway';
+COMMENT ON COLUMN escrow_transactions.refunded_amount IS 'Refunded out of this escrow; held/commission/release amounts are already reduced by it';
+
+-- 3. Refunds
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  dispute_id UUID REFERENCES disputes(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  amount_ksh NUMERIC(12,2) NOT NULL CHECK (amount_ksh > 0),
+  items_amount_ksh NUMERIC(12,2) NOT NULL DEFAULT 0,
+  delivery_fee_ksh NUMERIC(12,2) NOT NULL DEFAULT 0,
+  adjustment_ksh NUMERIC(12,2) NOT NULL DEFAULT 0,   -- arbitrary amount off the product value
+  commission_reversed_ksh NUMERIC(12,2) NOT NULL DEFAULT 0,
+  items JSONB NOT NULL DEFAULT '[]',                 -- [{order_item_id, product_name, quantity, amount_ksh, commission_ksh}]
+  escrow_released BOOLEAN NOT NULL DEFAULT false,    -- refund taken back from the vendor after release
+  reason TEXT,
+  gateway_reference TEXT,
+  error TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_role TEXT NOT NULL DEFAULT 'admin' CHECK (requested_role IN ('admin', 'vendor', 'system')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order ON order_refunds(order_id, created_at DESC);
+
+-- One gateway call per order at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_refunds_one_pending
+  ON order_refunds(order_id) WHERE status = 'pending';
+
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view refunds"
+ON order_refunds FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Vendors can view refunds on their orders"
+ON order_refunds FOR SELECT
+USING (EXISTS (SELECT 1 FROM orders o WHERE o.id = order_refunds.order_id AND o.vendor_id = auth.uid()));
+
+CREATE POLICY "Buyers can view refunds on their orders"
+ON order_refunds FOR SELECT
+USING (EXISTS (SELECT 1 FROM orders o WHERE o.id = order_refunds.order_id AND o.customer_id = auth.uid()));
+
+-- 4. Reserve: validate the request against what is left and claim the items
+CREATE OR REPLACE FUNCTION reserve_order_refund(
+  p_order_id UUID,
+  p_items JSONB DEFAULT '[]',            -- [{order_item_id, quantity}]
+  p_refund_delivery BOOLEAN DEFAULT false,
+  p_amount NUMERIC DEFAULT 0,
+  p_reason TEXT DEFAULT NULL,
+  p_dispute_id UUID DEFAULT NULL,
+  p_requested_by UUID DEFAULT NULL,
+  p_requested_role TEXT DEFAULT 'admin'
+)
+RETURNS order_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item order_items%ROWTYPE;
+  v_escrow escrow_transactions%ROWTYPE;
+  v_payment_id UUID;
+  v_request RECORD;
+  v_items JSONB := '[]'::jsonb;
+  v_line_amount NUMERIC;
+  v_line_commission NUMERIC;
+  v_items_amount NUMERIC := 0;
+  v_items_commission NUMERIC := 0;
+  v_delivery NUMERIC := 0;
+  v_adjustment NUMERIC := round(coalesce(p_amount, 0), 2);
+  v_adjustment_commission NUMERIC := 0;
+  v_product_left NUMERIC;
+  v_total NUMERIC;
+  v_refund order_refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND: order % does not exist', p_order_id;
+  END IF;
+
+  IF v_order.status::TEXT IN ('pending_payment', 'refunded', 'cancelled_by_vendor', 'cancelled_by_customer') THEN
+    RAISE EXCEPTION 'NOT_REFUNDABLE: order is %', v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_refunds WHERE order_id = p_order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'REFUND_IN_PROGRESS: another refund for this order is still being processed';
+  END IF;
+
+  IF v_adjustment < 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT: refund amount cannot be negative';
+  END IF;
+
+  -- Items: unit price times quantity, with that share of the line's commission
+  FOR v_request IN
+    SELECT * FROM jsonb_to_recordset(coalesce(p_items, '[]'::jsonb)) AS x(order_item_id UUID, quantity INTEGER)
+  LOOP
+    SELECT * INTO v_item FROM order_items
+     WHERE id = v_request.order_item_id AND order_id = p_order_id
+     FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'ITEM_NOT_FOUND: item % is not part of this order', v_request.order_item_id;
+    END IF;
+
+    IF coalesce(v_request.quantity, 0) <= 0 OR v_request.quantity > v_item.quantity - v_item.refunded_quantity THEN
+      RAISE EXCEPTION 'INVALID_QUANTITY: only % of % can still be refunded',
+        v_item.quantity - v_item.refunded_quantity, v_item.product_name;
+    END IF;
+
+    v_line_amount := round(v_item.unit_price_ksh * v_request.quantity, 2);
+    v_line_commission := round(
+      coalesce(v_item.commission_amount, v_item.line_total_ksh * coalesce(v_order.commission_rate, 10) / 100)
+        * v_request.quantity / v_item.quantity,
+      2
+    );
+
+    UPDATE order_items SET refunded_quantity = refunded_quantity + v_request.quantity WHERE id = v_item.id;
+
+    v_items_amount := v_items_amount + v_line_amount;
+    v_items_commission := v_items_commission + v_line_commission;
+    v_items := v_items || jsonb_build_object(
+      'order_item_id', v_item.id,
+      'product_name', v_item.product_name,
+      'quantity', v_request.quantity,
+      'amount_ksh', v_line_amount,
+      'commission_ksh', v_line_commission
+    );
+  END LOOP;
+
+  -- Delivery fee carries no commission
+  IF p_refund_delivery THEN
+    IF v_order.delivery_fee_refunded THEN
+      RAISE EXCEPTION 'ALREADY_REFUNDED: the delivery fee was already refunded';
+    END IF;
+    v_delivery := coalesce(v_order.shipping_fee_ksh, 0);
+    UPDATE orders SET delivery_fee_refunded = true WHERE id = p_order_id;
+  END IF;
+
+  -- An arbitrary amount comes off the product value, reducing commission pro rata
+  IF v_adjustment > 0 THEN
+    v_product_left := v_order.subtotal_ksh
+      - (v_order.refunded_amount_ksh - CASE WHEN v_order.delivery_fee_refunded THEN coalesce(v_order.shipping_fee_ksh, 0) ELSE 0 END)
+      - v_items_amount;
+
+    IF v_adjustment > v_product_left THEN
+      RAISE EXCEPTION 'AMOUNT_TOO_HIGH: at most KES % of the product value is left to refund', v_product_left;
+    END IF;
+
+    v_adjustment_commission := round(
+      (coalesce(v_order.commission_amount, 0) - v_items_commission) * v_adjustment / v_product_left,
+      2
+    );
+  END IF;
+
+  v_total := v_items_amount + v_delivery + v_adjustment;
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'NOTHING_TO_REFUND: choose items, the delivery fee or an amount';
+  END IF;
+
+  IF v_total > v_order.total_ksh - v_order.refunded_amount_ksh THEN
+    RAISE EXCEPTION 'AMOUNT_TOO_HIGH: only KES % is left to refund', v_order.total_ksh - v_order.refunded_amount_ksh;
+  END IF;
+
+  SELECT id INTO v_payment_id FROM payments
+   WHERE order_id = p_order_id AND status IN ('captured', 'refunded')
+   ORDER BY created_at
+   LIMIT 1;
+
+  SELECT * INTO v_escrow FROM escrow_transactions WHERE order_id = p_order_id LIMIT 1;
+
+  INSERT INTO order_refunds (
+    order_id, payment_id, dispute_id, amount_ksh, items_amount_ksh, delivery_fee_ksh, adjustment_ksh,
+    commission_reversed_ksh, items, escrow_released, reason, requested_by, requested_role
+  ) VALUES (
+    p_order_id, v_payment_id, p_dispute_id, v_total, v_items_amount, v_delivery, v_adjustment,
+    v_items_commission + v_adjustment_commission, v_items, coalesce(v_escrow.status = 'released', false),
+    p_reason, p_requested_by, p_requested_role
+  )
+  RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- 5. Settle: apply a refund the gateway accepted, or give the items back if it failed
+CREATE OR REPLACE FUNCTION settle_order_refund(
+  p_refund_id UUID,
+  p_succeeded BOOLEAN,
+  p_gateway_reference TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS order_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund order_refunds%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_line JSONB;
+  v_refunded NUMERIC;
+  v_commission NUMERIC;
+  v_fully_refunded BOOLEAN;
+BEGIN
+  SELECT * INTO v_refund FROM order_refunds WHERE id = p_refund_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REFUND_NOT_FOUND: refund % does not exist', p_refund_id;
+  END IF;
+
+  IF v_refund.status <> 'pending' THEN
+    RETURN v_refund; -- already settled
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_refund.order_id FOR UPDATE;
+
+  IF NOT p_succeeded THEN
+    FOR v_line IN SELECT * FROM jsonb_array_elements(v_refund.items) LOOP
+      UPDATE order_items
+         SET refunded_quantity = greatest(refunded_quantity - (v_line->>'quantity')::INTEGER, 0)
+       WHERE id = (v_line->>'order_item_id')::UUID;
+    END LOOP;
+
+    IF v_refund.delivery_fee_ksh > 0 THEN
+      UPDATE orders SET delivery_fee_refunded = false WHERE id = v_refund.order_id;
+    END IF;
+
+    UPDATE order_refunds
+       SET status = 'failed', error = p_error, completed_at = now()
+     WHERE id = p_refund_id
+     RETURNING * INTO v_refund;
+    RETURN v_refund;
+  END IF;
+
+  v_refunded := v_order.refunded_amount_ksh + v_refund.amount_ksh;
+  v_commission := greatest(coalesce(v_order.commission_amount, 0) - v_refund.commission_reversed_ksh, 0);
+  v_fully_refunded := v_refunded >= v_order.total_ksh;
+
+  UPDATE orders
+     SET refunded_amount_ksh = v_refunded,
+         commission_amount = v_commission,
+         payout_amount = round(total_ksh - v_refunded - v_commission, 2),
+         status = CASE WHEN v_fully_refunded THEN 'refunded'::order_status ELSE status END
+   WHERE id = v_order.id;
+
+  -- Held escrow shrinks so the release pays out only the retained portion
+  UPDATE escrow_transactions
+     SET refunded_amount = refunded_amount + v_refund.amount_ksh,
+         held_amount = CASE WHEN status = 'held' THEN held_amount - v_refund.amount_ksh ELSE held_amount END,
+         commission_amount = CASE WHEN status = 'held'
+           THEN greatest(commission_amount - v_refund.commission_reversed_ksh, 0) ELSE commission_amount END,
+         release_amount = CASE WHEN status = 'held'
+           THEN held_amount - v_refund.amount_ksh - greatest(commission_amount - v_refund.commission_reversed_ksh, 0)
+           ELSE release_amount END,
+         status = CASE WHEN v_fully_refunded AND status = 'held' THEN 'refunded'::escrow_status ELSE status END,
+         refunded_at = CASE WHEN v_fully_refunded AND status = 'held' THEN now() ELSE refunded_at END
+   WHERE order_id = v_order.id;
+
+  IF v_refund.payment_id IS NOT NULL THEN
+    UPDATE payments
+       SET refunded_amount_ksh = refunded_amount_ksh + v_refund.amount_ksh,
+           status = CASE WHEN refunded_amount_ksh + v_refund.amount_ksh >= amount_ksh THEN 'refunded'::payment_status ELSE status END,
+           refunded_at = now()
+     WHERE id = v_refund.payment_id;
+  END IF;
+
+  UPDATE order_refunds
+     SET status = 'completed', gateway_reference = p_gateway_reference, completed_at = now()
+   WHERE id = p_refund_id
+   RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- 6. Full refund: once the gateway accepted it, apply it to payment, order and escrow in one
+-- transaction. The refund row records whether the escrow had already been released
+-- (read before it is marked refunded) so process-refund posts the ledger from it.
+-- The order status is moved by process-refund through transition_order_status.
+CREATE OR REPLACE FUNCTION settle_full_refund(
+  p_order_id UUID,
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_gateway_reference TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_dispute_id UUID DEFAULT NULL,
+  p_requested_by UUID DEFAULT NULL,
+  p_requested_role TEXT DEFAULT 'admin'
+)
+RETURNS order_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_escrow escrow_transactions%ROWTYPE;
+  v_refund order_refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND: order % does not exist', p_order_id;
+  END IF;
+
+  SELECT * INTO v_escrow FROM escrow_transactions WHERE order_id = p_order_id LIMIT 1 FOR UPDATE;
+
+  UPDATE payments
+     SET status = 'refunded',
+         refunded_amount_ksh = amount_ksh,
+         refunded_at = now()
+   WHERE id = p_payment_id;
+
+  UPDATE orders
+     SET refunded_amount_ksh = least(refunded_amount_ksh + p_amount, total_ksh)
+   WHERE id = p_order_id;
+
+  UPDATE escrow_transactions
+     SET status = 'refunded',
+         refunded_amount = refunded_amount + p_amount,
+         refunded_at = now()
+   WHERE order_id = p_order_id
+     AND status <> 'refunded';
+
+  INSERT INTO order_refunds (
+    order_id, payment_id, dispute_id, status, amount_ksh, commission_reversed_ksh,
+    escrow_released, reason, gateway_reference, requested_by, requested_role, completed_at
+  ) VALUES (
+    p_order_id, p_payment_id, p_dispute_id, 'completed', p_amount,
+    least(coalesce(v_escrow.commission_amount, 0), p_amount),
+    coalesce(v_escrow.status = 'released', false),
+    p_reason, p_gateway_reference, p_requested_by, p_requested_role, now()
+  )
+  RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reserve_order_refund(UUID, JSONB, BOOLEAN, NUMERIC, TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_order_refund(UUID, JSONB, BOOLEAN, NUMERIC, TEXT, UUID, UUID, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION settle_order_refund(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION settle_order_refund(UUID, BOOLEAN, TEXT, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION settle_full_refund(UUID, UUID, NUMERIC, TEXT, TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION settle_full_refund(UUID, UUID, NUMERIC, TEXT, TEXT, UUID, UUID, TEXT) TO service_role;
+
+COMMENT ON TABLE order_refunds IS 'Full and partial refunds of an order: items, delivery fee or an arbitrary amount';
+COMMENT ON FUNCTION reserve_order_refund IS 'Validates a refund request, claims the refunded items and records it as pending';
+COMMENT ON FUNCTION settle_order_refund IS 'Applies a completed refund to the order, escrow and payment, or releases the claim if the gateway failed';
+COMMENT ON FUNCTION settle_full_refund IS 'Applies a completed full refund to the payment, order and escrow and records it';
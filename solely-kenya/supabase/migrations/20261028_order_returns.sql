@@ -0,0 +1,153 @@
+-- Returns and exchanges
+-- After an order arrives the buyer can ask to return an item for a refund or swap it for
+-- another size/color of the same product. The vendor accepts or declines; the item travels
+-- back on its own shipment (tracking + OTP), and for exchanges the replacement goes out on
+-- a third leg with its own OTP. The order sits in 'return_in_progress' meanwhile, so
+-- auto-release skips it and escrow stays held until the refund or exchange completes.
+--
+-- All transitions go through the manage-order-return edge function (service role).
+--
+--   requested -> accepted -> return_shipped -> return_received -> completed           (refund)
+--                                                              -> exchange_shipped -> completed (exchange)
+--   requested -> declined            requested/accepted -> cancelled (by buyer)
+
+-- 1. Order status while a return is open
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'return_in_progress';
+
+-- 2. Return requests
+CREATE TABLE IF NOT EXISTS order_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  return_type TEXT NOT NULL CHECK (return_type IN ('exchange', 'refund')),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN (
+    'requested', 'accepted', 'declined', 'return_shipped', 'return_received',
+    'exchange_shipped', 'completed', 'cancelled'
+  )),
+  reason TEXT NOT NULL CHECK (reason IN ('wrong_size', 'wrong_item', 'defective', 'not_as_described', 'other')),
+  details TEXT,
+  photo_urls TEXT[],
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+
+  -- Exchange target (same product)
+  requested_variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  requested_size TEXT,
+  requested_color TEXT,
+  replacement_reserved BOOLEAN NOT NULL DEFAULT false, -- stock taken for the replacement
+
+  -- Vendor decision
+  vendor_response TEXT,
+  responded_at TIMESTAMPTZ,
+
+  -- Return leg: buyer -> vendor
+  return_courier TEXT,
+  return_tracking_number TEXT,
+  return_shipped_at TIMESTAMPTZ,
+  return_received_at TIMESTAMPTZ,
+
+  -- Exchange leg: vendor -> buyer
+  exchange_courier TEXT,
+  exchange_tracking_number TEXT,
+  exchange_shipped_at TIMESTAMPTZ,
+  exchange_delivered_at TIMESTAMPTZ,
+
+  refund_id UUID REFERENCES order_refunds(id) ON DELETE SET NULL,
+  previous_order_status TEXT NOT NULL,   -- restored when the request is declined or cancelled
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_order ON order_returns(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_returns_vendor_open ON order_returns(vendor_id)
+  WHERE status NOT IN ('completed', 'declined', 'cancelled');
+
+-- One open return per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_returns_one_open ON order_returns(order_id)
+  WHERE status NOT IN ('completed', 'declined', 'cancelled');
+
+CREATE TRIGGER update_order_returns_updated_at
+BEFORE UPDATE ON order_returns
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- 3. RLS: both parties and admins read; writes go through the edge function
+ALTER TABLE order_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can view their returns"
+ON order_returns FOR SELECT
+USING (customer_id = auth.uid());
+
+CREATE POLICY "Vendors can view returns on their orders"
+ON order_returns FOR SELECT
+USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all returns"
+ON order_returns FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+-- 4. Delivery codes for the two legs
+-- Kept apart from order_returns so each party only ever sees the code they hold:
+-- the receiver holds it and hands it over on receipt, the sender enters it.
+--   return    held by the vendor, entered by the buyer
+--   exchange  held by the buyer, entered by the vendor (like orders.delivery_otp)
+CREATE TABLE IF NOT EXISTS order_return_otps (
+  return_id UUID NOT NULL REFERENCES order_returns(id) ON DELETE CASCADE,
+  leg TEXT NOT NULL CHECK (leg IN ('return', 'exchange')),
+  code TEXT NOT NULL,
+  holder_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  verified_at TIMESTAMPTZ,
+  PRIMARY KEY (return_id, leg)
+);
+
+ALTER TABLE order_return_otps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Holders can view their return codes"
+ON order_return_otps FOR SELECT
+USING (holder_id = auth.uid());
+
+-- 5. Stock moves for the replacement and the returned item
+CREATE OR REPLACE FUNCTION adjust_variant_stock(p_variant_id UUID, p_delta INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE product_variants
+     SET stock = stock + p_delta,
+         updated_at = NOW()
+   WHERE id = p_variant_id
+     AND stock + p_delta >= 0;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION adjust_variant_stock(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION adjust_variant_stock(UUID, INTEGER) TO service_role;
+
+-- 6. Photos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+CREATE POLICY "Buyers can upload return photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'return-photos'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Public read access for return photos"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'return-photos');
+
+COMMENT ON TABLE order_returns IS 'Buyer return/exchange requests with the return and replacement shipments';
+COMMENT ON TABLE order_return_otps IS 'Delivery code for the return or replacement shipment, visible only to the party receiving it';
+COMMENT ON FUNCTION adjust_variant_stock(UUID, INTEGER) IS 'Adds p_delta to a variant''s stock; returns false instead of going negative';
@@ -0,0 +1,287 @@
+-- Server-side product search
+-- The shop used to download every active product and every review and filter in the
+-- browser with String.includes. search_products() does it in Postgres instead:
+--   * full-text match (weighted tsvector over name, brand, category, key features, description)
+--     with prefix matching so "nik" finds Nike
+--   * typo tolerance through trigram word similarity, so "nikee" finds Nike and
+--     "airforce" finds "Air Force 1"
+--   * one page of results plus facet counts for the sidebar (brand, size, condition,
+--     category, price buckets). Each facet is counted with every other filter applied
+--     but not its own, so picking a brand still shows how many items the other brands have.
+
+-- 1. Extensions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Written by the accessory forms; declared here so search can filter on it
+ALTER TABLE products ADD COLUMN IF NOT EXISTS accessory_type TEXT;
+
+-- 2. Search columns
+-- Wrapped in functions declared IMMUTABLE so they can back generated columns
+-- (array_to_string is only STABLE in general, but is immutable for text[]).
+CREATE OR REPLACE FUNCTION product_search_document(
+  p_name TEXT, p_brand TEXT, p_category TEXT, p_key_features TEXT[], p_description TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple', COALESCE(p_name, '')), 'A')
+      || setweight(to_tsvector('simple', COALESCE(p_brand, '')), 'A')
+      || setweight(to_tsvector('simple', COALESCE(p_category, '')), 'B')
+      || setweight(to_tsvector('simple', COALESCE(array_to_string(p_key_features, ' '), '')), 'B')
+      || setweight(to_tsvector('simple', COALESCE(p_description, '')), 'C');
+$$;
+
+-- Short text for trigram matching. The name is repeated without spaces so a query
+-- typed as one word ("airforce") still lines up with "Air Force 1".
+CREATE OR REPLACE FUNCTION product_search_text(p_name TEXT, p_brand TEXT, p_category TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(concat_ws(' ',
+    p_brand,
+    p_name,
+    regexp_replace(COALESCE(p_name, ''), '\s+', '', 'g'),
+    p_category
+  ));
+$$;
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (product_search_document(name, brand, category, key_features, description)) STORED,
+  ADD COLUMN IF NOT EXISTS search_text TEXT
+    GENERATED ALWAYS AS (product_search_text(name, brand, category)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON products USING GIN (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_active_price ON products(price_ksh) WHERE status = 'active';
+
+-- 3. Query parsing
+-- Lowercased alphanumeric words of the query; everything else is a separator,
+-- which also keeps user input out of tsquery syntax.
+CREATE OR REPLACE FUNCTION product_search_terms(p_query TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(term), '{}')
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS term
+  WHERE term <> '';
+$$;
+
+-- True when every query word appears in the product, either as a word prefix
+-- or close enough by trigram similarity (typos, missing spaces)
+CREATE OR REPLACE FUNCTION product_matches_terms(p_terms TEXT[], p_vector tsvector, p_text TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM unnest(p_terms) AS term
+    WHERE NOT (
+      p_vector @@ to_tsquery('simple', term || ':*')
+      OR (length(term) >= 3 AND term <% p_text)
+    )
+  );
+$$;
+
+-- 4. Search
+-- p_sort: 'relevance' | 'newest' | 'price_low' | 'price_high' | 'smart'
+--   smart = featured listings first, then relevance, then a shuffle that is stable
+--   for the day so "load more" pages never repeat or skip a product.
+-- Filters are NULL for "any". p_size is ignored for accessories by the caller.
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT DEFAULT NULL,
+  p_brand TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_size TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_accessory_type TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'smart',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+DECLARE
+  v_terms TEXT[] := product_search_terms(p_query);
+  v_query TEXT := array_to_string(v_terms, ' ');
+  v_tsquery tsquery;
+  v_result JSONB;
+BEGIN
+  IF array_length(v_terms, 1) > 0 THEN
+    SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+      INTO v_tsquery
+      FROM unnest(v_terms) AS term;
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.brand,
+      p.category,
+      p.condition,
+      p.price_ksh,
+      p.images,
+      p.video_url,
+      p.description,
+      p.is_featured,
+      p.created_at,
+      p.accessory_type,
+      -- Sizes actually in stock when the product has variants, otherwise the listed sizes
+      CASE WHEN v.variant_count > 0 THEN COALESCE(v.sizes, '{}') ELSE COALESCE(p.sizes, '{}') END AS sizes,
+      CASE WHEN v_tsquery IS NULL THEN 0
+           ELSE ts_rank(p.search_vector, v_tsquery) + word_similarity(v_query, p.search_text)
+      END AS rank
+    FROM products p
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) AS variant_count,
+        array_agg(DISTINCT pv.size) FILTER (WHERE pv.stock > 0 AND pv.size <> '') AS sizes
+      FROM product_variants pv
+      WHERE pv.product_id = p.id
+    ) v ON true
+    WHERE p.status = 'active'
+      AND (v_tsquery IS NULL OR product_matches_terms(v_terms, p.search_vector, p.search_text))
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (p_brand IS NULL OR lower(m.brand) = lower(p_brand)) AS f_brand,
+      (p_category IS NULL OR lower(m.category) = lower(p_category)) AS f_category,
+      (p_size IS NULL OR p_size = ANY(m.sizes)) AS f_size,
+      (p_condition IS NULL OR m.condition = p_condition) AS f_condition,
+      (m.price_ksh >= COALESCE(p_min_price, 0) AND (p_max_price IS NULL OR m.price_ksh <= p_max_price)) AS f_price,
+      (p_accessory_type IS NULL OR m.accessory_type = p_accessory_type) AS f_accessory
+    FROM matched m
+  ),
+  hits AS (
+    SELECT * FROM flagged
+    WHERE f_brand AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+  ),
+  ranked AS (
+    SELECT h.*, row_number() OVER (ORDER BY
+      CASE WHEN p_sort = 'smart' THEN h.is_featured END DESC NULLS LAST,
+      CASE WHEN p_sort = 'price_low' THEN h.price_ksh END ASC,
+      CASE WHEN p_sort = 'price_high' THEN h.price_ksh END DESC,
+      CASE WHEN p_sort = 'newest' THEN h.created_at END DESC,
+      h.rank DESC,
+      CASE WHEN p_sort = 'smart' THEN md5(h.id::text || CURRENT_DATE::text) END,
+      h.created_at DESC,
+      h.id
+    ) AS position
+    FROM hits h
+  ),
+  page AS (
+    SELECT * FROM ranked
+    ORDER BY position
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  ),
+  page_rows AS (
+    SELECT
+      page.*,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count
+    FROM page
+    LEFT JOIN LATERAL (
+      SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*) AS review_count
+      FROM reviews rv
+      WHERE rv.product_id = page.id
+    ) r ON true
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM hits),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', id,
+        'name', name,
+        'brand', brand,
+        'category', category,
+        'condition', condition,
+        'price_ksh', price_ksh,
+        'images', images,
+        'video_url', video_url,
+        'description', description,
+        'is_featured', is_featured,
+        'created_at', created_at,
+        'sizes', sizes,
+        'average_rating', average_rating,
+        'review_count', review_count
+      ) ORDER BY position)
+      FROM page_rows
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'brand', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'label', label, 'count', count) ORDER BY count DESC, label)
+        FROM (
+          SELECT lower(brand) AS value, MIN(brand) AS label, COUNT(*) AS count
+          FROM flagged
+          WHERE brand IS NOT NULL AND brand <> ''
+            AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(brand)
+        ) b
+      ), '[]'::jsonb),
+      'category', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+        FROM (
+          SELECT lower(category) AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE category IS NOT NULL
+            AND f_brand AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(category)
+        ) c
+      ), '[]'::jsonb),
+      'size', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count)
+          ORDER BY CASE WHEN value ~ '^\d+(\.\d+)?$' THEN value::NUMERIC END NULLS LAST, value)
+        FROM (
+          SELECT size AS value, COUNT(DISTINCT id) AS count
+          FROM flagged, unnest(sizes) AS size
+          WHERE f_brand AND f_category AND f_condition AND f_price AND f_accessory
+          GROUP BY size
+        ) s
+      ), '[]'::jsonb),
+      'condition', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC)
+        FROM (
+          SELECT condition AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE condition IS NOT NULL
+            AND f_brand AND f_category AND f_size AND f_price AND f_accessory
+          GROUP BY condition
+        ) c
+      ), '[]'::jsonb),
+      'price', (
+        SELECT jsonb_agg(jsonb_build_object('min', bucket.min, 'max', bucket.max, 'count', (
+          SELECT COUNT(*)
+          FROM flagged
+          WHERE f_brand AND f_category AND f_size AND f_condition AND f_accessory
+            AND price_ksh >= bucket.min
+            AND (bucket.max IS NULL OR price_ksh < bucket.max)
+        )) ORDER BY bucket.min)
+        FROM (VALUES (0, 2000), (2000, 5000), (5000, 10000), (10000, 20000), (20000, NULL::INTEGER)) AS bucket(min, max)
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+COMMENT ON COLUMN products.search_vector IS 'Weighted full-text document: name/brand (A), category/key features (B), description (C)';
+COMMENT ON COLUMN products.search_text IS 'Lowercased brand + name + category for trigram (typo-tolerant) matching';
+COMMENT ON FUNCTION search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER) IS
+  'Shop search: full-text + trigram match over active products, one page of results and facet counts';
@@ -0,0 +1,222 @@
+-- Search autocomplete and "did you mean"
+-- search_suggestions() powers the dropdown under the hero and Shop search boxes:
+-- matching brands and popular product names for what has been typed so far, plus a
+-- spelling correction. Corrections come from a curated dictionary of common
+-- misspellings and Kenyan sneaker slang first, then from the closest word in the
+-- live catalog by trigram similarity. Categories and recent searches are added by
+-- the client (they live in lib/categories.ts and localStorage).
+
+-- 1. Dictionary of misspellings and slang
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  term TEXT PRIMARY KEY CHECK (term = lower(term)),
+  replacement TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'misspelling' CHECK (kind IN ('misspelling', 'slang')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read search synonyms"
+ON search_synonyms FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage search synonyms"
+ON search_synonyms FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+INSERT INTO search_synonyms (term, replacement, kind) VALUES
+  -- Brands
+  ('nikee', 'nike', 'misspelling'),
+  ('naiki', 'nike', 'misspelling'),
+  ('nyke', 'nike', 'misspelling'),
+  ('addidas', 'adidas', 'misspelling'),
+  ('adiddas', 'adidas', 'misspelling'),
+  ('adidass', 'adidas', 'misspelling'),
+  ('addidass', 'adidas', 'misspelling'),
+  ('jodan', 'jordan', 'misspelling'),
+  ('jodans', 'jordan', 'misspelling'),
+  ('jordans', 'jordan', 'misspelling'),
+  ('jordani', 'jordan', 'slang'),
+  ('pumma', 'puma', 'misspelling'),
+  ('sketchers', 'skechers', 'misspelling'),
+  ('timberlands', 'timberland', 'misspelling'),
+  ('timbaland', 'timberland', 'misspelling'),
+  ('timbalands', 'timberland', 'misspelling'),
+  ('timbs', 'timberland', 'slang'),
+  ('convers', 'converse', 'misspelling'),
+  ('convas', 'converse', 'misspelling'),
+  ('rebok', 'reebok', 'misspelling'),
+  ('reebock', 'reebok', 'misspelling'),
+  ('nb', 'new balance', 'slang'),
+  ('newbalance', 'new balance', 'misspelling'),
+  ('yezzy', 'yeezy', 'misspelling'),
+  ('yeezys', 'yeezy', 'misspelling'),
+  ('clarkes', 'clarks', 'misspelling'),
+  ('vanz', 'vans', 'misspelling'),
+  -- Models
+  ('airforce', 'air force', 'misspelling'),
+  ('airforces', 'air force', 'misspelling'),
+  ('forces', 'air force', 'slang'),
+  ('af1', 'air force 1', 'slang'),
+  ('airmax', 'air max', 'misspelling'),
+  ('airmaxes', 'air max', 'misspelling'),
+  ('dunks', 'dunk', 'slang'),
+  ('sambas', 'samba', 'slang'),
+  ('superstars', 'superstar', 'slang'),
+  ('allstar', 'all star', 'misspelling'),
+  ('allstars', 'all star', 'misspelling'),
+  -- Kenyan slang
+  ('raba', 'sneakers', 'slang'),
+  ('rabas', 'sneakers', 'slang'),
+  ('rubber', 'sneakers', 'slang'),
+  ('rubbers', 'sneakers', 'slang'),
+  ('viatu', 'shoes', 'slang'),
+  ('kiatu', 'shoes', 'slang'),
+  ('official', 'formal', 'slang'),
+  ('officials', 'formal', 'slang'),
+  ('akala', 'sandals', 'slang'),
+  ('sapatu', 'shoes', 'slang'),
+  ('mtumba', 'second hand', 'slang'),
+  ('sandles', 'sandals', 'misspelling'),
+  ('snickers', 'sneakers', 'misspelling'),
+  ('sneeker', 'sneakers', 'misspelling'),
+  ('sneekers', 'sneakers', 'misspelling')
+ON CONFLICT (term) DO NOTHING;
+
+-- 2. Words used in live listings (brand, name, category), for trigram correction
+CREATE OR REPLACE VIEW product_search_vocabulary
+WITH (security_invoker = true)
+AS
+SELECT word, COUNT(DISTINCT id) AS product_count
+FROM (
+  SELECT p.id, unnest(product_search_terms(concat_ws(' ', p.brand, p.name, p.category))) AS word
+  FROM products p
+  WHERE p.status = 'active'
+) words
+WHERE length(word) >= 3
+GROUP BY word;
+
+-- 3. Spelling correction
+-- Returns the corrected query, or NULL when nothing needed correcting.
+-- A word is left alone when it is the start of a real catalog word ("nik" while typing Nike).
+CREATE OR REPLACE FUNCTION correct_search_query(p_query TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_terms TEXT[] := product_search_terms(p_query);
+  v_original TEXT := array_to_string(v_terms, ' ');
+  v_corrected TEXT[] := '{}';
+  v_term TEXT;
+  v_replacement TEXT;
+BEGIN
+  IF array_length(v_terms, 1) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Whole-phrase entries first ("air forces")
+  SELECT replacement INTO v_replacement FROM search_synonyms WHERE term = v_original;
+  IF v_replacement IS NOT NULL THEN
+    RETURN v_replacement;
+  END IF;
+
+  FOREACH v_term IN ARRAY v_terms LOOP
+    v_replacement := NULL;
+
+    SELECT replacement INTO v_replacement FROM search_synonyms WHERE term = v_term;
+
+    IF v_replacement IS NULL
+       AND length(v_term) >= 4
+       AND v_term !~ '^\d+$'
+       AND NOT EXISTS (SELECT 1 FROM product_search_vocabulary WHERE word LIKE v_term || '%') THEN
+      SELECT word INTO v_replacement
+      FROM product_search_vocabulary
+      WHERE similarity(v_term, word) >= 0.4
+      ORDER BY similarity(v_term, word) DESC, product_count DESC
+      LIMIT 1;
+    END IF;
+
+    v_corrected := v_corrected || COALESCE(v_replacement, v_term);
+  END LOOP;
+
+  IF array_to_string(v_corrected, ' ') = v_original THEN
+    RETURN NULL;
+  END IF;
+  RETURN array_to_string(v_corrected, ' ');
+END;
+$$;
+
+-- 4. Suggestions
+-- Brands and product names matching the query (or its correction when the query
+-- itself finds nothing), most viewed products first.
+CREATE OR REPLACE FUNCTION search_suggestions(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 5), 1), 10);
+  v_correction TEXT := correct_search_query(p_query);
+  v_terms TEXT[] := product_search_terms(p_query);
+  v_query TEXT := array_to_string(v_terms, ' ');
+  v_brands JSONB;
+  v_products JSONB;
+BEGIN
+  IF array_length(v_terms, 1) IS NULL THEN
+    RETURN jsonb_build_object('correction', NULL, 'brands', '[]'::jsonb, 'products', '[]'::jsonb);
+  END IF;
+
+  -- Match on the correction when the query as typed has no hits
+  IF v_correction IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM products p
+    WHERE p.status = 'active' AND product_matches_terms(v_terms, p.search_vector, p.search_text)
+  ) THEN
+    v_terms := product_search_terms(v_correction);
+    v_query := v_correction;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'label', label, 'count', count) ORDER BY count DESC), '[]'::jsonb)
+  INTO v_brands
+  FROM (
+    SELECT lower(p.brand) AS value, MIN(p.brand) AS label, COUNT(*) AS count
+    FROM products p
+    WHERE p.status = 'active'
+      AND p.brand IS NOT NULL AND p.brand <> ''
+      AND (lower(p.brand) LIKE v_query || '%' OR word_similarity(v_query, lower(p.brand)) >= 0.6)
+    GROUP BY lower(p.brand)
+    ORDER BY COUNT(*) DESC
+    LIMIT 3
+  ) b;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'name', name,
+    'brand', brand,
+    'price_ksh', price_ksh,
+    'image', images[1]
+  ) ORDER BY views DESC NULLS LAST, created_at DESC), '[]'::jsonb)
+  INTO v_products
+  FROM (
+    SELECT p.id, p.name, p.brand, p.price_ksh, p.images, p.views, p.created_at
+    FROM products p
+    WHERE p.status = 'active'
+      AND product_matches_terms(v_terms, p.search_vector, p.search_text)
+    ORDER BY p.views DESC NULLS LAST, p.created_at DESC
+    LIMIT v_limit
+  ) top;
+
+  RETURN jsonb_build_object('correction', v_correction, 'brands', v_brands, 'products', v_products);
+END;
+$$;
+
+GRANT SELECT ON product_search_vocabulary TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION correct_search_query(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_suggestions(TEXT, INTEGER) TO anon, authenticated;
+
+COMMENT ON TABLE search_synonyms IS 'Misspellings and slang mapped to catalog terms for "did you mean"';
+COMMENT ON VIEW product_search_vocabulary IS 'Distinct words in active listings, used for trigram spelling correction';
+COMMENT ON FUNCTION search_suggestions(TEXT, INTEGER) IS 'Autocomplete: matching brands, popular product names and a spelling correction';
@@ -0,0 +1,408 @@
+-- Personalised "For You" ranking
+-- Replaces the browser-side rankBySearchHistory (last 15 localStorage terms, everything
+-- else reshuffled on each render) with a score computed in Postgres:
+--   quality   review rating, vendor rating, freshness, stock, popularity (everyone)
+--   personal  brands, categories and sizes the shopper has viewed, added to cart and
+--             bought, plus products matching their recent searches (signed-in users
+--             from the tables below; guests pass their local search terms)
+-- Signals are only read up to p_as_of (when the shopper opened the page), and ties
+-- break on a per-shopper daily hash, so the order is deterministic and "load more"
+-- pages never repeat or skip products even while new views are being recorded.
+
+-- 1. Signals
+-- Who viewed: filled from the session automatically, NULL for guests
+ALTER TABLE product_views
+  ADD COLUMN IF NOT EXISTS viewer_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_views_viewer ON product_views(viewer_id, viewed_at DESC)
+  WHERE viewer_id IS NOT NULL;
+
+DROP POLICY IF EXISTS "Anyone can insert product views" ON product_views;
+CREATE POLICY "Anyone can insert product views"
+ON product_views FOR INSERT
+WITH CHECK (viewer_id IS NULL OR viewer_id = auth.uid());
+
+-- Searches by signed-in shoppers (guests keep theirs in localStorage only)
+CREATE TABLE IF NOT EXISTS user_search_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  term TEXT NOT NULL CHECK (length(term) BETWEEN 1 AND 100),
+  searched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_search_terms_user ON user_search_terms(user_id, searched_at DESC);
+
+ALTER TABLE user_search_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their searches"
+ON user_search_terms FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view their searches"
+ON user_search_terms FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can clear their searches"
+ON user_search_terms FOR DELETE
+USING (user_id = auth.uid());
+
+-- Add-to-cart events by signed-in shoppers (the cart itself lives in the browser)
+CREATE TABLE IF NOT EXISTS cart_additions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  size TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cart_additions_user ON cart_additions(user_id, created_at DESC);
+
+ALTER TABLE cart_additions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their cart additions"
+ON cart_additions FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view their cart additions"
+ON cart_additions FOR SELECT
+USING (user_id = auth.uid());
+
+-- 2. Scores
+-- One row per active product. SECURITY DEFINER because it aggregates reviews, vendor
+-- ratings and the caller's own orders/views across RLS; it only ever reads the
+-- signals of auth.uid(), never another shopper's.
+--
+--   quality  = 2 * rating + 1 * vendor rating    (Bayesian averages mapped to -1..1)
+--            + 1.5 * freshness                   (halves every ~3 weeks)
+--            + 0.5 * popularity                  (log of views, capped at 1)
+--            - 3 when out of stock
+--   personal = 2 * brand affinity + 1 * category affinity + 1 * size match
+--            + 1.5 * search-term match - 1 when already bought
+--   Affinities are the shopper's decayed view (1) / cart (3) / purchase (5) weights
+--   per brand or category, divided by their strongest one.
+CREATE OR REPLACE FUNCTION product_ranking_scores(
+  p_as_of TIMESTAMPTZ DEFAULT NULL,
+  p_recent_terms TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (product_id UUID, score NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT auth.uid() AS user_id, COALESCE(p_as_of, NOW()) AS as_of
+  ),
+  events AS (
+    SELECT v.product_id, 1.0 AS weight, v.viewed_at AS at, NULL::TEXT AS size
+    FROM product_views v, params
+    WHERE v.viewer_id = params.user_id
+      AND v.viewed_at < params.as_of
+      AND v.viewed_at >= params.as_of - INTERVAL '90 days'
+    UNION ALL
+    SELECT c.product_id, 3.0, c.created_at, NULLIF(c.size, '')
+    FROM cart_additions c, params
+    WHERE c.user_id = params.user_id
+      AND c.created_at < params.as_of
+      AND c.created_at >= params.as_of - INTERVAL '90 days'
+    UNION ALL
+    SELECT oi.product_id, 5.0, o.created_at, NULLIF(oi.size, '')
+    FROM orders o
+    JOIN order_items oi ON oi.order_id = o.id
+    CROSS JOIN params
+    WHERE o.customer_id = params.user_id
+      AND o.created_at < params.as_of
+      AND o.status NOT IN ('pending_payment', 'cancelled_by_vendor', 'cancelled_by_customer')
+  ),
+  weighted AS (
+    SELECT e.product_id, e.size, p.brand, p.category,
+           e.weight * exp(-GREATEST(EXTRACT(EPOCH FROM (params.as_of - e.at)) / 86400, 0) / 30) AS weight
+    FROM events e
+    JOIN products p ON p.id = e.product_id
+    CROSS JOIN params
+  ),
+  brand_affinity AS (
+    SELECT lower(brand) AS brand, SUM(weight) / MAX(SUM(weight)) OVER () AS affinity
+    FROM weighted WHERE brand IS NOT NULL GROUP BY lower(brand)
+  ),
+  category_affinity AS (
+    SELECT lower(category) AS category, SUM(weight) / MAX(SUM(weight)) OVER () AS affinity
+    FROM weighted WHERE category IS NOT NULL GROUP BY lower(category)
+  ),
+  preferred_sizes AS (
+    SELECT DISTINCT size FROM weighted WHERE size IS NOT NULL
+  ),
+  purchased AS (
+    SELECT DISTINCT oi.product_id
+    FROM orders o
+    JOIN order_items oi ON oi.order_id = o.id
+    CROSS JOIN params
+    WHERE o.customer_id = params.user_id
+      AND o.status NOT IN ('pending_payment', 'cancelled_by_vendor', 'cancelled_by_customer')
+  ),
+  -- Last 15 searches, newest weighted highest (same horizon as the old localStorage ranking)
+  terms AS (
+    SELECT term, (16 - row_number() OVER (ORDER BY searched_at DESC))::NUMERIC / 15 AS weight
+    FROM (
+      SELECT s.term, MAX(s.searched_at) AS searched_at
+      FROM (
+        SELECT ust.term, ust.searched_at
+        FROM user_search_terms ust, params
+        WHERE ust.user_id = params.user_id AND ust.searched_at < params.as_of
+        UNION ALL
+        SELECT t.term, params.as_of - (t.ord || ' seconds')::INTERVAL
+        FROM unnest(COALESCE(p_recent_terms, '{}')) WITH ORDINALITY AS t(term, ord), params
+      ) s
+      GROUP BY s.term
+      ORDER BY MAX(s.searched_at) DESC
+      LIMIT 15
+    ) recent
+  ),
+  review_stats AS (
+    SELECT r.product_id, AVG(r.rating) AS average, COUNT(*) AS count
+    FROM reviews r GROUP BY r.product_id
+  ),
+  vendor_stats AS (
+    SELECT vr.vendor_id, AVG(vr.rating) AS average, COUNT(*) AS count
+    FROM vendor_ratings vr GROUP BY vr.vendor_id
+  )
+  SELECT
+    p.id,
+    (
+      -- Quality: Bayesian averages pull items with few ratings towards 3 stars
+      2 * ((COALESCE(rs.average * rs.count, 0) + 3 * 2) / (COALESCE(rs.count, 0) + 2) - 3) / 2
+      + ((COALESCE(vs.average * vs.count, 0) + 3 * 2) / (COALESCE(vs.count, 0) + 2) - 3) / 2
+      + 1.5 * exp(-GREATEST(EXTRACT(EPOCH FROM (params.as_of - p.created_at)) / 86400, 0) / 30)
+      + 0.5 * LEAST(ln(1 + COALESCE(p.views, 0)) / ln(500), 1)
+      - CASE WHEN COALESCE(p.stock, 0) <= 0 THEN 3 ELSE 0 END
+      -- Personal
+      + 2 * COALESCE(ba.affinity, 0)
+      + COALESCE(ca.affinity, 0)
+      + CASE WHEN EXISTS (SELECT 1 FROM preferred_sizes ps WHERE ps.size = ANY(p.sizes)) THEN 1 ELSE 0 END
+      + 1.5 * COALESCE((
+          SELECT MAX(t.weight) FROM terms t
+          WHERE product_matches_terms(product_search_terms(t.term), p.search_vector, p.search_text)
+        ), 0)
+      - CASE WHEN pu.product_id IS NOT NULL THEN 1 ELSE 0 END
+    )::NUMERIC AS score
+  FROM products p
+  CROSS JOIN params
+  LEFT JOIN review_stats rs ON rs.product_id = p.id
+  LEFT JOIN vendor_stats vs ON vs.vendor_id = p.vendor_id
+  LEFT JOIN brand_affinity ba ON ba.brand = lower(p.brand)
+  LEFT JOIN category_affinity ca ON ca.category = lower(p.category)
+  LEFT JOIN purchased pu ON pu.product_id = p.id
+  WHERE p.status = 'active';
+$$;
+
+REVOKE ALL ON FUNCTION product_ranking_scores(TIMESTAMPTZ, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION product_ranking_scores(TIMESTAMPTZ, TEXT[]) TO anon, authenticated;
+
+-- 3. Search with the personalised smart sort
+-- Same as before plus p_as_of / p_recent_terms for product_ranking_scores. With a
+-- query, smart sort weighs relevance heavily and adds the score; without one it is
+-- the score alone. Featured listings still come first.
+DROP FUNCTION IF EXISTS search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT DEFAULT NULL,
+  p_brand TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_size TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_accessory_type TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'smart',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_as_of TIMESTAMPTZ DEFAULT NULL,
+  p_recent_terms TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+DECLARE
+  v_terms TEXT[] := product_search_terms(p_query);
+  v_query TEXT := array_to_string(v_terms, ' ');
+  v_tsquery tsquery;
+  v_as_of TIMESTAMPTZ := COALESCE(p_as_of, NOW());
+  -- Ties break the same way for the same shopper all day
+  v_seed TEXT := COALESCE(auth.uid()::TEXT, 'guest') || (COALESCE(p_as_of, NOW()))::DATE::TEXT;
+  v_result JSONB;
+BEGIN
+  IF array_length(v_terms, 1) > 0 THEN
+    SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+      INTO v_tsquery
+      FROM unnest(v_terms) AS term;
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.brand,
+      p.category,
+      p.condition,
+      p.price_ksh,
+      p.images,
+      p.video_url,
+      p.description,
+      p.is_featured,
+      p.created_at,
+      p.accessory_type,
+      -- Sizes actually in stock when the product has variants, otherwise the listed sizes
+      CASE WHEN v.variant_count > 0 THEN COALESCE(v.sizes, '{}') ELSE COALESCE(p.sizes, '{}') END AS sizes,
+      CASE WHEN v_tsquery IS NULL THEN 0
+           ELSE ts_rank(p.search_vector, v_tsquery) + word_similarity(v_query, p.search_text)
+      END AS rank,
+      COALESCE(s.score, 0) AS score
+    FROM products p
+    LEFT JOIN product_ranking_scores(v_as_of, p_recent_terms) s ON s.product_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) AS variant_count,
+        array_agg(DISTINCT pv.size) FILTER (WHERE pv.stock > 0 AND pv.size <> '') AS sizes
+      FROM product_variants pv
+      WHERE pv.product_id = p.id
+    ) v ON true
+    WHERE p.status = 'active'
+      AND (v_tsquery IS NULL OR product_matches_terms(v_terms, p.search_vector, p.search_text))
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (p_brand IS NULL OR lower(m.brand) = lower(p_brand)) AS f_brand,
+      (p_category IS NULL OR lower(m.category) = lower(p_category)) AS f_category,
+      (p_size IS NULL OR p_size = ANY(m.sizes)) AS f_size,
+      (p_condition IS NULL OR m.condition = p_condition) AS f_condition,
+      (m.price_ksh >= COALESCE(p_min_price, 0) AND (p_max_price IS NULL OR m.price_ksh <= p_max_price)) AS f_price,
+      (p_accessory_type IS NULL OR m.accessory_type = p_accessory_type) AS f_accessory
+    FROM matched m
+  ),
+  hits AS (
+    SELECT * FROM flagged
+    WHERE f_brand AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+  ),
+  ranked AS (
+    SELECT h.*, row_number() OVER (ORDER BY
+      CASE WHEN p_sort = 'smart' THEN h.is_featured END DESC NULLS LAST,
+      CASE WHEN p_sort = 'price_low' THEN h.price_ksh END ASC,
+      CASE WHEN p_sort = 'price_high' THEN h.price_ksh END DESC,
+      CASE WHEN p_sort = 'newest' THEN h.created_at END DESC,
+      CASE WHEN p_sort = 'smart' THEN h.rank * 5 + h.score END DESC,
+      h.rank DESC,
+      md5(h.id::text || v_seed),
+      h.created_at DESC,
+      h.id
+    ) AS position
+    FROM hits h
+  ),
+  page AS (
+    SELECT * FROM ranked
+    ORDER BY position
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  ),
+  page_rows AS (
+    SELECT
+      page.*,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count
+    FROM page
+    LEFT JOIN LATERAL (
+      SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*) AS review_count
+      FROM reviews rv
+      WHERE rv.product_id = page.id
+    ) r ON true
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM hits),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', id,
+        'name', name,
+        'brand', brand,
+        'category', category,
+        'condition', condition,
+        'price_ksh', price_ksh,
+        'images', images,
+        'video_url', video_url,
+        'description', description,
+        'is_featured', is_featured,
+        'created_at', created_at,
+        'sizes', sizes,
+        'average_rating', average_rating,
+        'review_count', review_count
+      ) ORDER BY position)
+      FROM page_rows
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'brand', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'label', label, 'count', count) ORDER BY count DESC, label)
+        FROM (
+          SELECT lower(brand) AS value, MIN(brand) AS label, COUNT(*) AS count
+          FROM flagged
+          WHERE brand IS NOT NULL AND brand <> ''
+            AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(brand)
+        ) b
+      ), '[]'::jsonb),
+      'category', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+        FROM (
+          SELECT lower(category) AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE category IS NOT NULL
+            AND f_brand AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(category)
+        ) c
+      ), '[]'::jsonb),
+      'size', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count)
+          ORDER BY CASE WHEN value ~ '^\d+(\.\d+)?$' THEN value::NUMERIC END NULLS LAST, value)
+        FROM (
+          SELECT size AS value, COUNT(DISTINCT id) AS count
+          FROM flagged, unnest(sizes) AS size
+          WHERE f_brand AND f_category AND f_condition AND f_price AND f_accessory
+          GROUP BY size
+        ) s
+      ), '[]'::jsonb),
+      'condition', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC)
+        FROM (
+          SELECT condition AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE condition IS NOT NULL
+            AND f_brand AND f_category AND f_size AND f_price AND f_accessory
+          GROUP BY condition
+        ) c
+      ), '[]'::jsonb),
+      'price', (
+        SELECT jsonb_agg(jsonb_build_object('min', bucket.min, 'max', bucket.max, 'count', (
+          SELECT COUNT(*)
+          FROM flagged
+          WHERE f_brand AND f_category AND f_size AND f_condition AND f_accessory
+            AND price_ksh >= bucket.min
+            AND (bucket.max IS NULL OR price_ksh < bucket.max)
+        )) ORDER BY bucket.min)
+        FROM (VALUES (0, 2000), (2000, 5000), (5000, 10000), (10000, 20000), (20000, NULL::INTEGER)) AS bucket(min, max)
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TEXT[]) TO anon, authenticated;
+
+COMMENT ON TABLE user_search_terms IS 'Search terms typed by signed-in shoppers, used for personalised ranking';
+COMMENT ON TABLE cart_additions IS 'Add-to-cart events by signed-in shoppers, used for personalised ranking';
+COMMENT ON COLUMN product_views.viewer_id IS 'Signed-in viewer (NULL for guests)';
+COMMENT ON FUNCTION product_ranking_scores(TIMESTAMPTZ, TEXT[]) IS 'Quality + personal score per active product for the smart sort, from signals before p_as_of';
+COMMENT ON FUNCTION search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TEXT[]) IS
+  'Shop search: full-text + trigram match over active products, personalised smart sort, one page of results and facet counts';
@@ -0,0 +1,215 @@
+-- Saved searches with new-listing alerts
+-- Buyers save the Shop filters they keep coming back to ("Jordan 4, EU 43, under 6000").
+-- The saved-search-alerts edge function runs on a schedule, matches listings published
+-- since each search was last checked and notifies the buyer by push, email and an
+-- in-app notification. saved_search_alerts remembers what was sent so a listing is
+-- never announced twice for the same search.
+
+-- 1. When a listing went live
+-- Set whenever a product becomes active: publish_product for shoes, and the accessory
+-- form which inserts accessories as active directly.
+ALTER TABLE products ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+UPDATE products SET published_at = created_at WHERE status = 'active' AND published_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_published_at ON products(published_at) WHERE status = 'active';
+
+CREATE OR REPLACE FUNCTION set_product_published_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'active' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'active') THEN
+    NEW.published_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_product_published_at ON products;
+CREATE TRIGGER set_product_published_at
+BEFORE INSERT OR UPDATE OF status ON products
+FOR EACH ROW
+EXECUTE FUNCTION set_product_published_at();
+
+-- 2. Saved searches
+-- Filters mirror the Shop sidebar; NULL means "any".
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  query TEXT,
+  brand TEXT,
+  category TEXT,
+  size TEXT,
+  condition TEXT CHECK (condition IS NULL OR condition IN ('new', 'like_new', 'good', 'fair')),
+  accessory_type TEXT,
+  min_price INTEGER CHECK (min_price IS NULL OR min_price >= 0),
+  max_price INTEGER CHECK (max_price IS NULL OR max_price >= 0),
+  notify_push BOOLEAN NOT NULL DEFAULT true,
+  notify_email BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- listings published after this are "new"
+  last_notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (min_price IS NULL OR max_price IS NULL OR min_price <= max_price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_active ON saved_searches(last_checked_at) WHERE is_active;
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved searches"
+ON saved_searches FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own saved searches"
+ON saved_searches FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches"
+ON saved_searches FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches"
+ON saved_searches FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Keep the list manageable and the matcher cheap
+CREATE OR REPLACE FUNCTION enforce_saved_search_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (SELECT COUNT(*) FROM saved_searches WHERE user_id = NEW.user_id) >= 20 THEN
+    RAISE EXCEPTION 'SAVED_SEARCH_LIMIT_REACHED';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_saved_search_limit ON saved_searches;
+CREATE TRIGGER enforce_saved_search_limit
+BEFORE INSERT ON saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION enforce_saved_search_limit();
+
+-- Editing the filters starts the alerts afresh; only toggling notifications does not
+CREATE OR REPLACE FUNCTION touch_saved_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  IF (NEW.query, NEW.brand, NEW.category, NEW.size, NEW.condition, NEW.accessory_type, NEW.min_price, NEW.max_price)
+     IS DISTINCT FROM
+     (OLD.query, OLD.brand, OLD.category, OLD.size, OLD.condition, OLD.accessory_type, OLD.min_price, OLD.max_price)
+     OR (NEW.is_active AND NOT OLD.is_active) THEN
+    NEW.last_checked_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_saved_search ON saved_searches;
+CREATE TRIGGER touch_saved_search
+BEFORE UPDATE ON saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION touch_saved_search();
+
+-- 3. Alerts sent
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (saved_search_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_search ON saved_search_alerts(saved_search_id, created_at DESC);
+
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view alerts for own saved searches"
+ON saved_search_alerts FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM saved_searches s
+  WHERE s.id = saved_search_alerts.saved_search_id AND s.user_id = auth.uid()
+));
+
+-- 4. Matching
+-- New listings (published after the search was last checked, up to p_until) that fit
+-- each active saved search and have not been announced for it yet. Uses the same
+-- matching rules as search_products: every query word, in-stock variant sizes.
+-- Buyers are not alerted about their own listings.
+CREATE OR REPLACE FUNCTION match_saved_searches(p_until TIMESTAMPTZ)
+RETURNS TABLE (saved_search_id UUID, user_id UUID, product_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT s.id, s.user_id, p.id
+  FROM saved_searches s
+  JOIN products p
+    ON p.status = 'active'
+   AND p.published_at > s.last_checked_at
+   AND p.published_at <= p_until
+   AND p.vendor_id <> s.user_id
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS variant_count,
+      array_agg(DISTINCT pv.size) FILTER (WHERE pv.stock > 0 AND pv.size <> '') AS sizes
+    FROM product_variants pv
+    WHERE pv.product_id = p.id
+  ) v ON s.size IS NOT NULL
+  WHERE s.is_active
+    AND s.last_checked_at < p_until
+    AND (s.query IS NULL OR product_matches_terms(product_search_terms(s.query), p.search_vector, p.search_text))
+    AND (s.brand IS NULL OR lower(p.brand) = lower(s.brand))
+    AND (s.category IS NULL OR lower(p.category) = lower(s.category))
+    AND (s.size IS NULL OR s.size = ANY(
+      CASE WHEN v.variant_count > 0 THEN COALESCE(v.sizes, '{}') ELSE COALESCE(p.sizes, '{}') END
+    ))
+    AND (s.condition IS NULL OR p.condition = s.condition)
+    AND (s.accessory_type IS NULL OR p.accessory_type = s.accessory_type)
+    AND (s.min_price IS NULL OR p.price_ksh >= s.min_price)
+    AND (s.max_price IS NULL OR p.price_ksh <= s.max_price)
+    AND NOT EXISTS (
+      SELECT 1 FROM saved_search_alerts a
+      WHERE a.saved_search_id = s.id AND a.product_id = p.id
+    )
+  ORDER BY s.id, p.published_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION match_saved_searches(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION match_saved_searches(TIMESTAMPTZ) TO service_role;
+
+-- 5. Schedule
+-- Every 30 minutes. The service role key is read from Vault (Dashboard > Project
+-- Settings > Vault, secret name 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'saved-search-alerts',
+    '*/30 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/saved-search-alerts',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON COLUMN products.published_at IS 'When the listing last went live; drives saved-search alerts';
+COMMENT ON TABLE saved_searches IS 'Shop filters saved by buyers, with new-listing alert preferences';
+COMMENT ON TABLE saved_search_alerts IS 'Listings already announced for each saved search';
+COMMENT ON FUNCTION match_saved_searches(TIMESTAMPTZ) IS 'New listings matching active saved searches, not yet announced (service role only)';
@@ -0,0 +1,141 @@
+-- Price-drop alerts that actually reach the buyer
+-- price_alerts rows were created from the product page but check_price_drop_alerts()
+-- only ever marked them notified. Now:
+--   * a price cut on products.price_ksh calls the price-drop-alerts edge function at once
+--     (pg_net), and an hourly cron run catches anything that call missed
+--   * the edge function claims due alerts with claim_price_drop_alerts() and sends a
+--     push, an email and an in-app notification for each
+--   * "any drop" alerts (target_price NULL) stay on and re-arm at the new price, so the
+--     next cut is announced too; target-price alerts switch off once the target is met
+
+-- 1. Columns
+ALTER TABLE price_alerts
+  ADD COLUMN IF NOT EXISTS last_notified_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS notify_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_target_price_check;
+ALTER TABLE price_alerts
+  ADD CONSTRAINT price_alerts_target_price_check CHECK (target_price IS NULL OR target_price > 0);
+
+-- Alerts that the old function switched off without telling anyone get another chance
+UPDATE price_alerts
+SET is_active = true, notified_at = NULL
+WHERE is_active = false AND notified_at IS NOT NULL AND last_notified_price IS NULL;
+
+-- Replaced by claim_price_drop_alerts()
+DROP FUNCTION IF EXISTS check_price_drop_alerts();
+
+-- 2. Claiming due alerts
+-- Marks every due alert (optionally for one product) as notified and returns what the
+-- message needs. Rows are locked with SKIP LOCKED so the trigger call and the cron run
+-- never both claim the same alert.
+CREATE OR REPLACE FUNCTION claim_price_drop_alerts(p_product_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  alert_id UUID,
+  user_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  brand TEXT,
+  image TEXT,
+  previous_price NUMERIC,
+  current_price NUMERIC,
+  target_price NUMERIC
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT pa.id, pa.original_price AS previous_price, p.price_ksh AS current_price
+    FROM price_alerts pa
+    JOIN products p ON p.id = pa.product_id
+    WHERE pa.is_active
+      AND p.status = 'active'
+      AND (p_product_id IS NULL OR pa.product_id = p_product_id)
+      AND p.vendor_id <> pa.user_id
+      AND CASE
+        WHEN pa.target_price IS NOT NULL THEN p.price_ksh <= pa.target_price
+        ELSE p.price_ksh < pa.original_price
+      END
+    FOR UPDATE OF pa SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE price_alerts pa
+    SET notified_at = NOW(),
+        last_notified_price = due.current_price,
+        notify_count = pa.notify_count + 1,
+        -- Any-drop alerts watch for the next cut from here
+        original_price = CASE WHEN pa.target_price IS NULL THEN due.current_price ELSE pa.original_price END,
+        is_active = pa.target_price IS NULL
+    FROM due
+    WHERE pa.id = due.id
+    RETURNING pa.id, pa.user_id, pa.product_id, pa.target_price
+  )
+  SELECT c.id, c.user_id, c.product_id, p.name, p.brand, p.images[1], due.previous_price, due.current_price, c.target_price
+  FROM claimed c
+  JOIN due ON due.id = c.id
+  JOIN products p ON p.id = c.product_id;
+$$;
+
+REVOKE ALL ON FUNCTION claim_price_drop_alerts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_price_drop_alerts(UUID) TO service_role;
+
+-- 3. Immediate delivery on a price cut
+-- Only calls out when someone is watching the product. pg_net queues the request, so
+-- the vendor's update never waits on it. The service role key is read from Vault
+-- (secret 'service_role_key', as for the saved-search schedule).
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION notify_price_drop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active' AND EXISTS (
+    SELECT 1 FROM price_alerts WHERE product_id = NEW.id AND is_active
+  ) THEN
+    PERFORM net.http_post(
+      url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/price-drop-alerts',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('productId', NEW.id)
+    );
+  END IF;
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block a price change; the hourly run will pick the alerts up
+  RAISE WARNING 'notify_price_drop failed for product %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_price_drop ON products;
+CREATE TRIGGER notify_price_drop
+AFTER UPDATE OF price_ksh ON products
+FOR EACH ROW
+WHEN (NEW.price_ksh < OLD.price_ksh)
+EXECUTE FUNCTION notify_price_drop();
+
+-- 4. Hourly safety net
+SELECT cron.schedule(
+    'price-drop-alerts',
+    '5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/price-drop-alerts',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON COLUMN price_alerts.target_price IS 'Notify at or below this price; NULL = any drop below original_price';
+COMMENT ON COLUMN price_alerts.original_price IS 'Baseline for any-drop alerts; moves down to each announced price';
+COMMENT ON FUNCTION claim_price_drop_alerts(UUID) IS 'Marks due price alerts as notified and returns them for delivery (service role only)';
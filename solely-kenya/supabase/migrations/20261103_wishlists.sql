@@ -0,0 +1,250 @@
+-- Wishlists
+-- Buyers heart shoes to save them for later (from product cards and the product page).
+-- Each buyer has one wishlist which they can share through a public link, e.g. for
+-- birthday gifting; the link only works while sharing is switched on.
+-- When a wished product sells out and later comes back into stock, the
+-- back-in-stock-alerts edge function lets the buyer know.
+
+-- 1. Lists
+CREATE TABLE IF NOT EXISTS wishlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'My Wishlist' CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  note TEXT CHECK (note IS NULL OR length(note) <= 280), -- shown on the shared page ("My birthday is on the 12th!")
+  share_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE wishlists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wishlist"
+ON wishlists FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own wishlist"
+ON wishlists FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own wishlist"
+ON wishlists FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 2. Items
+CREATE TABLE IF NOT EXISTS wishlist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wishlist_id UUID NOT NULL REFERENCES wishlists(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  size TEXT, -- preferred size, for gift buyers
+  awaiting_restock BOOLEAN NOT NULL DEFAULT false,
+  restock_notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (wishlist_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_wishlist ON wishlist_items(wishlist_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_restock ON wishlist_items(product_id) WHERE awaiting_restock;
+
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wishlist items"
+ON wishlist_items FOR SELECT
+USING (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_items.wishlist_id AND w.user_id = auth.uid()));
+
+CREATE POLICY "Users can add own wishlist items"
+ON wishlist_items FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_items.wishlist_id AND w.user_id = auth.uid()));
+
+CREATE POLICY "Users can update own wishlist items"
+ON wishlist_items FOR UPDATE
+USING (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_items.wishlist_id AND w.user_id = auth.uid()));
+
+CREATE POLICY "Users can remove own wishlist items"
+ON wishlist_items FOR DELETE
+USING (EXISTS (SELECT 1 FROM wishlists w WHERE w.id = wishlist_items.wishlist_id AND w.user_id = auth.uid()));
+
+-- Items wished while sold out wait for a restock; the flag is not the buyer's to set
+CREATE OR REPLACE FUNCTION prepare_wishlist_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.awaiting_restock := COALESCE((SELECT stock <= 0 FROM products WHERE id = NEW.product_id), false);
+    NEW.restock_notified_at := NULL;
+  ELSE
+    NEW.awaiting_restock := OLD.awaiting_restock;
+    NEW.restock_notified_at := OLD.restock_notified_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_wishlist_item ON wishlist_items;
+CREATE TRIGGER prepare_wishlist_item
+BEFORE INSERT OR UPDATE ON wishlist_items
+FOR EACH ROW
+WHEN (current_user IN ('anon', 'authenticated'))
+EXECUTE FUNCTION prepare_wishlist_item();
+
+CREATE OR REPLACE FUNCTION touch_wishlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_wishlist ON wishlists;
+CREATE TRIGGER touch_wishlist
+BEFORE UPDATE ON wishlists
+FOR EACH ROW
+EXECUTE FUNCTION touch_wishlist();
+
+-- 3. Shared view
+-- Everything the public page (and the link-preview middleware) needs, or NULL when the
+-- token is unknown or sharing is off. Only the owner's first name is exposed.
+CREATE OR REPLACE FUNCTION get_shared_wishlist(p_token TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'name', w.name,
+    'note', w.note,
+    'owner_name', NULLIF(split_part(COALESCE(pr.full_name, ''), ' ', 1), ''),
+    'updated_at', w.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'name', p.name,
+        'brand', p.brand,
+        'price_ksh', p.price_ksh,
+        'image', p.images[1],
+        'condition', p.condition,
+        'size', wi.size,
+        'in_stock', COALESCE(p.stock, 0) > 0
+      ) ORDER BY wi.created_at DESC)
+      FROM wishlist_items wi
+      JOIN products p ON p.id = wi.product_id AND p.status = 'active'
+      WHERE wi.wishlist_id = w.id
+    ), '[]'::jsonb)
+  )
+  FROM wishlists w
+  LEFT JOIN profiles pr ON pr.id = w.user_id
+  WHERE w.share_token = p_token
+    AND w.is_public;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_wishlist(TEXT) TO anon, authenticated;
+
+-- 4. Back in stock
+-- Selling out flags the product's wishlist items; coming back calls the edge function
+-- straight away (pg_net, service role key from Vault) when anyone is waiting.
+CREATE OR REPLACE FUNCTION track_wishlist_restock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.stock, 0) <= 0 AND COALESCE(OLD.stock, 0) > 0 THEN
+    UPDATE wishlist_items SET awaiting_restock = true WHERE product_id = NEW.id AND NOT awaiting_restock;
+  ELSIF COALESCE(NEW.stock, 0) > 0 AND COALESCE(OLD.stock, 0) <= 0 AND NEW.status = 'active'
+        AND EXISTS (SELECT 1 FROM wishlist_items WHERE product_id = NEW.id AND awaiting_restock) THEN
+    BEGIN
+      PERFORM net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/back-in-stock-alerts',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := jsonb_build_object('productId', NEW.id)
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Never block a stock change; the hourly run will pick it up
+      RAISE WARNING 'back-in-stock call failed for product %: %', NEW.id, SQLERRM;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_wishlist_restock ON products;
+CREATE TRIGGER track_wishlist_restock
+AFTER UPDATE OF stock ON products
+FOR EACH ROW
+WHEN (OLD.stock IS DISTINCT FROM NEW.stock)
+EXECUTE FUNCTION track_wishlist_restock();
+
+-- Clears the flag on restocked items (optionally one product) and returns who to tell.
+-- SKIP LOCKED keeps the trigger call and the hourly run from both claiming an item.
+CREATE OR REPLACE FUNCTION claim_back_in_stock_alerts(p_product_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  item_id UUID,
+  user_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  brand TEXT,
+  image TEXT,
+  price_ksh NUMERIC,
+  size TEXT
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT wi.id
+    FROM wishlist_items wi
+    JOIN products p ON p.id = wi.product_id
+    WHERE wi.awaiting_restock
+      AND p.status = 'active'
+      AND COALESCE(p.stock, 0) > 0
+      AND (p_product_id IS NULL OR wi.product_id = p_product_id)
+    FOR UPDATE OF wi SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE wishlist_items wi
+    SET awaiting_restock = false,
+        restock_notified_at = NOW()
+    FROM due
+    WHERE wi.id = due.id
+    RETURNING wi.id, wi.wishlist_id, wi.product_id, wi.size
+  )
+  SELECT c.id, w.user_id, p.id, p.name, p.brand, p.images[1], p.price_ksh, c.size
+  FROM claimed c
+  JOIN wishlists w ON w.id = c.wishlist_id
+  JOIN products p ON p.id = c.product_id;
+$$;
+
+REVOKE ALL ON FUNCTION claim_back_in_stock_alerts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_back_in_stock_alerts(UUID) TO service_role;
+
+SELECT cron.schedule(
+    'back-in-stock-alerts',
+    '20 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/back-in-stock-alerts',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON TABLE wishlists IS 'One wishlist per buyer; shareable by token while is_public';
+COMMENT ON TABLE wishlist_items IS 'Products on a wishlist; awaiting_restock while the product is sold out';
+COMMENT ON FUNCTION get_shared_wishlist(TEXT) IS 'Public view of a shared wishlist, NULL unless sharing is on';
+COMMENT ON FUNCTION claim_back_in_stock_alerts(UUID) IS 'Clears restock flags on items back in stock and returns them for delivery (service role only)';
@@ -0,0 +1,191 @@
+-- Cart sync, validation and abandoned-cart reminders
+-- Signed-in buyers' carts are saved to the server so a cart built on mobile is there on
+-- desktop (CartContext merges the guest cart in on sign-in). validate_cart() checks cart
+-- lines against current prices and stock with the same rules as create_checkout_orders,
+-- so the cart can show "price changed / now sold out" before checkout does.
+-- Carts left untouched for a while (ABANDONED_CART_DELAY_HOURS on the edge function,
+-- default 24) get one email/push reminder from abandoned-cart-reminders.
+
+-- 1. Server carts
+-- items holds the client's cart lines (productId, vendorId, name, priceKsh, quantity,
+-- size, color, variantId, ...); prices in it are a snapshot, never trusted at checkout.
+CREATE TABLE IF NOT EXISTS carts (
+  user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) <= 50),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reminder_sent_at TIMESTAMPTZ -- cleared whenever the cart changes
+);
+
+CREATE INDEX IF NOT EXISTS idx_carts_abandoned ON carts(updated_at) WHERE reminder_sent_at IS NULL;
+
+ALTER TABLE carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own cart"
+ON carts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own cart"
+ON carts FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own cart"
+ON carts FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION touch_cart()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.items IS DISTINCT FROM OLD.items THEN
+    NEW.updated_at := NOW();
+    NEW.reminder_sent_at := NULL;
+  ELSIF current_user IN ('anon', 'authenticated') THEN
+    -- Reminder bookkeeping belongs to the service role
+    NEW.updated_at := OLD.updated_at;
+    NEW.reminder_sent_at := OLD.reminder_sent_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_cart ON carts;
+CREATE TRIGGER touch_cart
+BEFORE INSERT OR UPDATE ON carts
+FOR EACH ROW
+EXECUTE FUNCTION touch_cart();
+
+-- 2. Validation
+-- One row per cart line, in input order. p_items: [{ product_id, variant_id, size,
+-- color, quantity }]. status:
+--   ok             - can be bought as is
+--   unavailable    - product removed or no longer active
+--   sold_out       - no stock left at all
+--   option_sold_out - the chosen size/color is gone but other options remain
+--   low_stock      - fewer units left than the line's quantity (see available)
+-- A line without a size/color yet is checked against the product as a whole.
+CREATE OR REPLACE FUNCTION validate_cart(p_items JSONB)
+RETURNS TABLE (
+  line_no INT,
+  product_id UUID,
+  status TEXT,
+  unit_price NUMERIC,
+  available INT,
+  variant_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH lines AS (
+    SELECT (l.ord - 1)::INT AS line_no,
+           NULLIF(l.item->>'product_id', '')::UUID AS product_id,
+           NULLIF(l.item->>'variant_id', '')::UUID AS variant_id,
+           COALESCE(l.item->>'size', '') AS size,
+           COALESCE(l.item->>'color', '') AS color,
+           GREATEST(COALESCE((l.item->>'quantity')::INT, 1), 1) AS quantity
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS l(item, ord)
+  ),
+  checked AS (
+    SELECT ln.line_no,
+           ln.product_id,
+           ln.quantity,
+           p.id IS NOT NULL AND p.status = 'active' AS active,
+           p.price_ksh,
+           COALESCE(p.stock, 0) AS product_stock,
+           EXISTS (SELECT 1 FROM product_variants pv WHERE pv.product_id = ln.product_id) AS has_variants,
+           ln.size = '' AND ln.color = '' AND ln.variant_id IS NULL AS unselected,
+           v.id AS matched_variant_id,
+           v.stock AS variant_stock,
+           v.price_ksh AS variant_price
+    FROM lines ln
+    LEFT JOIN products p ON p.id = ln.product_id
+    LEFT JOIN LATERAL (
+      SELECT pv.id, pv.stock, pv.price_ksh
+      FROM product_variants pv
+      WHERE pv.product_id = ln.product_id
+        AND (pv.id = ln.variant_id OR (ln.variant_id IS NULL AND pv.size = ln.size AND pv.color = ln.color))
+      LIMIT 1
+    ) v ON true
+  )
+  SELECT c.line_no,
+         c.product_id,
+         CASE
+           WHEN NOT c.active THEN 'unavailable'
+           WHEN c.product_stock <= 0 THEN 'sold_out'
+           WHEN c.has_variants AND NOT c.unselected AND COALESCE(c.variant_stock, 0) <= 0 THEN 'option_sold_out'
+           WHEN COALESCE(CASE WHEN c.has_variants AND NOT c.unselected THEN c.variant_stock ELSE c.product_stock END, 0) < c.quantity THEN 'low_stock'
+           ELSE 'ok'
+         END,
+         COALESCE(c.variant_price, c.price_ksh),
+         CASE
+           WHEN NOT c.active THEN 0
+           WHEN c.has_variants AND NOT c.unselected THEN COALESCE(c.variant_stock, 0)
+           ELSE GREATEST(c.product_stock, 0)
+         END,
+         c.matched_variant_id
+  FROM checked c
+  ORDER BY c.line_no;
+$$;
+
+GRANT EXECUTE ON FUNCTION validate_cart(JSONB) TO anon, authenticated, service_role;
+
+-- 3. Abandoned-cart reminders
+-- Marks carts idle for p_delay_hours (but less than two weeks) as reminded and returns
+-- them. Buyers who have ordered since their last cart change are skipped; SKIP LOCKED
+-- keeps overlapping runs from claiming the same cart.
+CREATE OR REPLACE FUNCTION claim_abandoned_carts(p_delay_hours INT DEFAULT 24)
+RETURNS TABLE (
+  user_id UUID,
+  items JSONB,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT c.user_id
+    FROM carts c
+    WHERE c.reminder_sent_at IS NULL
+      AND jsonb_array_length(c.items) > 0
+      AND c.updated_at < NOW() - make_interval(hours => GREATEST(p_delay_hours, 1))
+      AND c.updated_at > NOW() - INTERVAL '14 days'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.customer_id = c.user_id
+          AND o.created_at > c.updated_at
+      )
+    ORDER BY c.updated_at
+    LIMIT 200
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  UPDATE carts c
+  SET reminder_sent_at = NOW()
+  FROM due
+  WHERE c.user_id = due.user_id
+  RETURNING c.user_id, c.items, c.updated_at;
+$$;
+
+REVOKE ALL ON FUNCTION claim_abandoned_carts(INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_abandoned_carts(INT) TO service_role;
+
+SELECT cron.schedule(
+    'abandoned-cart-reminders',
+    '45 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/abandoned-cart-reminders',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON TABLE carts IS 'Signed-in buyers'' carts, synced from CartContext; prices are a client snapshot';
+COMMENT ON FUNCTION validate_cart(JSONB) IS 'Checks cart lines against current price and stock (same rules as create_checkout_orders, without locking)';
+COMMENT ON FUNCTION claim_abandoned_carts(INT) IS 'Marks idle carts as reminded and returns them for delivery (service role only)';
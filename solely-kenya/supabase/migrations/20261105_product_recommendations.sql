@@ -0,0 +1,246 @@
+-- Product recommendations
+-- Replaces the product page's brand-then-category queries with three precomputed lists
+-- per product, refreshed nightly by refresh_product_recommendations():
+--   similar          same style: brand, category, name (trigram), colors, condition and a
+--                    similar price, scored from the listing attributes
+--   bought_together  products ordered in the same checkout (order_items co-occurrence)
+--   also_viewed      products viewed in the same browsing session (product_views)
+-- get_product_recommendations() returns all three, with card data, in one call.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 1. Browsing sessions
+-- Signed-in views already carry viewer_id; guests send a per-tab session id so their
+-- views can be grouped too. A session is one key on one day.
+ALTER TABLE product_views
+  ADD COLUMN IF NOT EXISTS session_id TEXT CHECK (session_id IS NULL OR length(session_id) <= 64);
+
+CREATE INDEX IF NOT EXISTS idx_product_views_viewed_at ON product_views(viewed_at DESC);
+
+-- 2. Precomputed lists
+CREATE TABLE IF NOT EXISTS product_recommendations (
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('similar', 'bought_together', 'also_viewed')),
+  recommended_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  score NUMERIC NOT NULL,
+  rank INT NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (product_id, kind, recommended_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_recommendations_lookup ON product_recommendations(product_id, kind, rank);
+
+ALTER TABLE product_recommendations ENABLE ROW LEVEL SECURITY;
+
+-- Only links between listings; nothing about who viewed or bought
+CREATE POLICY "Anyone can view product recommendations"
+ON product_recommendations FOR SELECT
+USING (true);
+
+-- 3. Refresh
+-- Rebuilds every list in one transaction, so readers see either the old or the new set.
+-- Only active, in-stock products are recommended; each list keeps its top 12.
+CREATE OR REPLACE FUNCTION refresh_product_recommendations()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+DECLARE
+  v_rows INT;
+BEGIN
+  DELETE FROM product_recommendations;
+
+  -- Similar style: candidates share a brand or a category
+  INSERT INTO product_recommendations (product_id, kind, recommended_id, score, rank)
+  SELECT product_id, 'similar', recommended_id, score, rank
+  FROM (
+    SELECT a.id AS product_id,
+           b.id AS recommended_id,
+           s.score,
+           row_number() OVER (PARTITION BY a.id ORDER BY s.score DESC, b.created_at DESC)::INT AS rank
+    FROM products a
+    JOIN products b
+      ON b.id <> a.id
+     AND b.status = 'active'
+     AND COALESCE(b.stock, 0) > 0
+     AND (lower(b.brand) = lower(a.brand) OR b.category = a.category)
+    CROSS JOIN LATERAL (
+      SELECT 2.0 * (lower(b.brand) IS NOT DISTINCT FROM lower(a.brand))::INT
+           + 1.0 * (b.category IS NOT DISTINCT FROM a.category)::INT
+           + 1.5 * similarity(lower(a.name), lower(b.name))
+           + 0.5 * (COALESCE(a.colors && b.colors, false))::INT
+           + 0.25 * (b.condition IS NOT DISTINCT FROM a.condition)::INT
+           -- 1 at the same price, 0 at half or double
+           + GREATEST(0, 1 - abs(ln(GREATEST(b.price_ksh, 1)::NUMERIC / GREATEST(a.price_ksh, 1))) / ln(2)) AS score
+    ) s
+    WHERE a.status = 'active'
+  ) ranked
+  WHERE rank <= 12;
+
+  -- Bought together: same checkout (one checkout can hold several vendors' orders)
+  INSERT INTO product_recommendations (product_id, kind, recommended_id, score, rank)
+  WITH baskets AS (
+    SELECT DISTINCT COALESCE(o.checkout_session_id, o.id) AS basket_id, oi.product_id
+    FROM orders o
+    JOIN order_items oi ON oi.order_id = o.id
+    WHERE o.created_at > NOW() - INTERVAL '365 days'
+      AND o.status NOT IN ('pending_payment', 'cancelled_by_vendor', 'cancelled_by_customer')
+      AND oi.product_id IS NOT NULL
+  ),
+  pairs AS (
+    SELECT x.product_id, y.product_id AS recommended_id, COUNT(*) AS baskets
+    FROM baskets x
+    JOIN baskets y ON y.basket_id = x.basket_id AND y.product_id <> x.product_id
+    GROUP BY x.product_id, y.product_id
+  )
+  SELECT product_id, 'bought_together', recommended_id, baskets, rank
+  FROM (
+    SELECT pairs.product_id,
+           pairs.recommended_id,
+           pairs.baskets,
+           row_number() OVER (PARTITION BY pairs.product_id ORDER BY pairs.baskets DESC, pairs.recommended_id)::INT AS rank
+    FROM pairs
+    JOIN products p ON p.id = pairs.product_id AND p.status = 'active'
+    JOIN products r ON r.id = pairs.recommended_id AND r.status = 'active' AND COALESCE(r.stock, 0) > 0
+  ) ranked
+  WHERE rank <= 12;
+
+  -- Also viewed: co-views in the last 90 days, as a cosine score so a handful of very
+  -- popular listings don't show up everywhere. Sessions over 50 products (crawlers) are ignored.
+  INSERT INTO product_recommendations (product_id, kind, recommended_id, score, rank)
+  WITH session_views AS (
+    SELECT DISTINCT COALESCE(v.viewer_id::TEXT, v.session_id) || ':' || v.viewed_at::DATE AS session_key,
+           v.product_id
+    FROM product_views v
+    WHERE v.viewed_at > NOW() - INTERVAL '90 days'
+      AND (v.viewer_id IS NOT NULL OR v.session_id IS NOT NULL)
+  ),
+  sessions AS (
+    SELECT session_key
+    FROM session_views
+    GROUP BY session_key
+    HAVING COUNT(*) BETWEEN 2 AND 50
+  ),
+  views AS (
+    SELECT sv.session_key, sv.product_id
+    FROM session_views sv
+    JOIN sessions s ON s.session_key = sv.session_key
+  ),
+  totals AS (
+    SELECT product_id, COUNT(*) AS sessions FROM views GROUP BY product_id
+  ),
+  pairs AS (
+    SELECT x.product_id, y.product_id AS recommended_id, COUNT(*) AS co_sessions
+    FROM views x
+    JOIN views y ON y.session_key = x.session_key AND y.product_id <> x.product_id
+    GROUP BY x.product_id, y.product_id
+  )
+  SELECT product_id, 'also_viewed', recommended_id, score, rank
+  FROM (
+    SELECT pairs.product_id,
+           pairs.recommended_id,
+           round(pairs.co_sessions / sqrt(ta.sessions * tb.sessions), 4) AS score,
+           row_number() OVER (
+             PARTITION BY pairs.product_id
+             ORDER BY pairs.co_sessions / sqrt(ta.sessions * tb.sessions) DESC, pairs.co_sessions DESC
+           )::INT AS rank
+    FROM pairs
+    JOIN totals ta ON ta.product_id = pairs.product_id
+    JOIN totals tb ON tb.product_id = pairs.recommended_id
+    JOIN products p ON p.id = pairs.product_id AND p.status = 'active'
+    JOIN products r ON r.id = pairs.recommended_id AND r.status = 'active' AND COALESCE(r.stock, 0) > 0
+  ) ranked
+  WHERE rank <= 12;
+
+  SELECT COUNT(*) INTO v_rows FROM product_recommendations;
+  RETURN v_rows;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_product_recommendations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_product_recommendations() TO service_role;
+
+-- 4. Product page
+-- All three lists with what ProductCard needs. Products listed after the last refresh
+-- have no similar list yet and fall back to newest same-brand/category listings.
+CREATE OR REPLACE FUNCTION get_product_recommendations(p_product_id UUID, p_limit INT DEFAULT 10)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH source AS (
+    SELECT id, brand, category FROM products WHERE id = p_product_id
+  ),
+  picks AS (
+    SELECT pr.kind, pr.recommended_id AS id, pr.rank
+    FROM product_recommendations pr
+    WHERE pr.product_id = p_product_id
+      AND pr.rank <= p_limit
+    UNION ALL
+    SELECT 'similar', fallback.id, fallback.rank
+    FROM (
+      SELECT p.id, row_number() OVER (
+               ORDER BY (lower(p.brand) IS NOT DISTINCT FROM lower(s.brand)) DESC, p.created_at DESC
+             )::INT AS rank
+      FROM products p, source s
+      WHERE p.id <> s.id
+        AND p.status = 'active'
+        AND COALESCE(p.stock, 0) > 0
+        AND (lower(p.brand) = lower(s.brand) OR p.category = s.category)
+        AND NOT EXISTS (
+          SELECT 1 FROM product_recommendations pr
+          WHERE pr.product_id = p_product_id AND pr.kind = 'similar'
+        )
+    ) fallback
+    WHERE fallback.rank <= p_limit
+  ),
+  cards AS (
+    SELECT picks.kind,
+           picks.rank,
+           jsonb_build_object(
+             'id', p.id,
+             'name', p.name,
+             'brand', p.brand,
+             'price_ksh', p.price_ksh,
+             'images', p.images,
+             'condition', p.condition,
+             'video_url', p.video_url,
+             'created_at', p.created_at,
+             'average_rating', r.average_rating,
+             'review_count', COALESCE(r.review_count, 0)
+           ) AS card
+    FROM picks
+    JOIN products p ON p.id = picks.id AND p.status = 'active'
+    LEFT JOIN LATERAL (
+      SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*)::INT AS review_count
+      FROM reviews rv
+      WHERE rv.product_id = p.id
+    ) r ON true
+  )
+  SELECT jsonb_build_object(
+    'similar', COALESCE((SELECT jsonb_agg(card ORDER BY rank) FROM cards WHERE kind = 'similar'), '[]'::jsonb),
+    'bought_together', COALESCE((SELECT jsonb_agg(card ORDER BY rank) FROM cards WHERE kind = 'bought_together'), '[]'::jsonb),
+    'also_viewed', COALESCE((SELECT jsonb_agg(card ORDER BY rank) FROM cards WHERE kind = 'also_viewed'), '[]'::jsonb)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_product_recommendations(UUID, INT) TO anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'refresh-product-recommendations',
+    '30 2 * * *',  -- Nightly, 05:30 EAT
+    $$ SELECT public.refresh_product_recommendations(); $$
+);
+
+-- First build, so the product page has lists straight away
+SELECT refresh_product_recommendations();
+
+COMMENT ON TABLE product_recommendations IS 'Precomputed similar / bought-together / also-viewed lists, rebuilt nightly';
+COMMENT ON COLUMN product_views.session_id IS 'Guest browsing session (per tab) for also-viewed; signed-in views use viewer_id';
+COMMENT ON FUNCTION refresh_product_recommendations() IS 'Rebuilds product_recommendations (pg_cron, nightly)';
+COMMENT ON FUNCTION get_product_recommendations(UUID, INT) IS 'Product page recommendations with card data, in one call';
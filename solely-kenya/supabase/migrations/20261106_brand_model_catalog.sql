@@ -0,0 +1,459 @@
+-- Brand and model catalog
+-- products.brand was free text, so "Nike", "nike " and "NIKE" were three brands in the
+-- shop filters and price comparison had to guess matches from names. Listings now point
+-- at a canonical catalog:
+--   brands           Nike
+--   shoe_models      Nike → Air Force 1
+--   model_colorways  Nike → Air Force 1 → Triple White
+-- Vendors pick (or add) entries with fuzzy search when listing a shoe; admins merge
+-- duplicates. products.brand is kept as the canonical brand name for existing filters
+-- and search, and known spellings (aliases) resolve to their brand automatically.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 1. Catalog
+CREATE OR REPLACE FUNCTION catalog_slug(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(lower(p_name), '[^a-z0-9]+', '-', 'g'));
+$$;
+
+CREATE TABLE IF NOT EXISTS brands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 60),
+  slug TEXT NOT NULL UNIQUE,
+  aliases TEXT[] NOT NULL DEFAULT '{}', -- lower-case spellings that mean this brand (merged duplicates)
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brands_name ON brands(lower(name));
+CREATE INDEX IF NOT EXISTS idx_brands_name_trgm ON brands USING gin (lower(name) gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS shoe_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 80),
+  slug TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (brand_id, slug)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shoe_models_name ON shoe_models(brand_id, lower(name));
+CREATE INDEX IF NOT EXISTS idx_shoe_models_name_trgm ON shoe_models USING gin (lower(name) gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS model_colorways (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_id UUID NOT NULL REFERENCES shoe_models(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 80),
+  style_code TEXT CHECK (style_code IS NULL OR length(style_code) <= 30), -- e.g. CW2288-111
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_colorways_name ON model_colorways(model_id, lower(name));
+
+-- Tidy names (single spaces) and derive slugs
+CREATE OR REPLACE FUNCTION normalize_catalog_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.name := trim(regexp_replace(NEW.name, '\s+', ' ', 'g'));
+  IF TG_TABLE_NAME IN ('brands', 'shoe_models') THEN
+    NEW.slug := catalog_slug(NEW.name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_brand ON brands;
+CREATE TRIGGER normalize_brand
+BEFORE INSERT OR UPDATE OF name ON brands
+FOR EACH ROW
+EXECUTE FUNCTION normalize_catalog_entry();
+
+DROP TRIGGER IF EXISTS normalize_shoe_model ON shoe_models;
+CREATE TRIGGER normalize_shoe_model
+BEFORE INSERT OR UPDATE OF name ON shoe_models
+FOR EACH ROW
+EXECUTE FUNCTION normalize_catalog_entry();
+
+DROP TRIGGER IF EXISTS normalize_model_colorway ON model_colorways;
+CREATE TRIGGER normalize_model_colorway
+BEFORE INSERT OR UPDATE OF name ON model_colorways
+FOR EACH ROW
+EXECUTE FUNCTION normalize_catalog_entry();
+
+ALTER TABLE brands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shoe_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE model_colorways ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view brands"
+ON brands FOR SELECT
+USING (true);
+
+CREATE POLICY "Vendors can add brands"
+ON brands FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'vendor') OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage brands"
+ON brands FOR UPDATE
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view shoe models"
+ON shoe_models FOR SELECT
+USING (true);
+
+CREATE POLICY "Vendors can add shoe models"
+ON shoe_models FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'vendor') OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage shoe models"
+ON shoe_models FOR UPDATE
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view colorways"
+ON model_colorways FOR SELECT
+USING (true);
+
+CREATE POLICY "Vendors can add colorways"
+ON model_colorways FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'vendor') OR has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage colorways"
+ON model_colorways FOR UPDATE
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- 2. Listings
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS brand_id UUID REFERENCES brands(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS model_id UUID REFERENCES shoe_models(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS colorway_id UUID REFERENCES model_colorways(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_brand_id ON products(brand_id) WHERE brand_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_products_model_id ON products(model_id) WHERE model_id IS NOT NULL;
+
+-- The most specific pick wins: a colorway implies its model, a model its brand, and the
+-- brand's canonical name replaces whatever was typed. Free-text brands that match a
+-- brand name or alias are linked too (older clients, accessories).
+CREATE OR REPLACE FUNCTION link_product_catalog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_typed TEXT := lower(trim(regexp_replace(COALESCE(NEW.brand, ''), '\s+', ' ', 'g')));
+BEGIN
+  IF NEW.colorway_id IS NOT NULL THEN
+    SELECT model_id INTO NEW.model_id FROM model_colorways WHERE id = NEW.colorway_id;
+  END IF;
+
+  IF NEW.model_id IS NOT NULL THEN
+    SELECT brand_id INTO NEW.brand_id FROM shoe_models WHERE id = NEW.model_id;
+  ELSIF NEW.brand_id IS NULL AND v_typed <> '' THEN
+    SELECT id INTO NEW.brand_id
+    FROM brands
+    WHERE lower(name) = v_typed OR v_typed = ANY(aliases)
+    ORDER BY lower(name) = v_typed DESC
+    LIMIT 1;
+  END IF;
+
+  IF NEW.brand_id IS NOT NULL THEN
+    SELECT name INTO NEW.brand FROM brands WHERE id = NEW.brand_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_product_catalog ON products;
+CREATE TRIGGER link_product_catalog
+BEFORE INSERT OR UPDATE OF brand, brand_id, model_id, colorway_id ON products
+FOR EACH ROW
+EXECUTE FUNCTION link_product_catalog();
+
+-- Existing brands: one per spelling ignoring case and spaces, named after the most used
+-- spelling (ALL CAPS / all lower-case become Title Case). Admins merge the rest.
+INSERT INTO brands (name)
+SELECT DISTINCT ON (lower(spelling))
+       CASE WHEN spelling = upper(spelling) OR spelling = lower(spelling) THEN initcap(spelling) ELSE spelling END
+FROM (
+  SELECT trim(regexp_replace(brand, '\s+', ' ', 'g')) AS spelling, COUNT(*) AS listings
+  FROM products
+  WHERE brand IS NOT NULL AND trim(brand) <> ''
+  GROUP BY 1
+) spellings
+ORDER BY lower(spelling), listings DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE products
+SET brand_id = b.id
+FROM brands b
+WHERE products.brand_id IS NULL
+  AND lower(trim(regexp_replace(products.brand, '\s+', ' ', 'g'))) = lower(b.name);
+
+-- 3. Fuzzy search for the vendor pickers
+-- Scores cover typos ("adiddas"), partial input ("air for") and names inside a longer
+-- listing title ("Nike Air Force 1 Low White" → Air Force 1).
+CREATE OR REPLACE FUNCTION search_brands(p_query TEXT, p_limit INT DEFAULT 8)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  listings BIGINT,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+  WITH q AS (SELECT lower(trim(COALESCE(p_query, ''))) AS term)
+  SELECT b.id, b.name,
+         (SELECT COUNT(*) FROM products p WHERE p.brand_id = b.id AND p.status = 'active') AS listings,
+         s.score
+  FROM brands b, q
+  CROSS JOIN LATERAL (
+    SELECT GREATEST(
+      CASE WHEN lower(b.name) LIKE q.term || '%' THEN 1 ELSE 0 END,
+      similarity(lower(b.name), q.term),
+      word_similarity(q.term, lower(b.name)),
+      COALESCE((SELECT MAX(similarity(a, q.term)) FROM unnest(b.aliases) a), 0)
+    )::REAL AS score
+  ) s
+  WHERE q.term = '' OR s.score >= 0.3
+  ORDER BY s.score DESC, listings DESC, b.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+CREATE OR REPLACE FUNCTION search_shoe_models(p_brand_id UUID, p_query TEXT, p_limit INT DEFAULT 8)
+RETURNS TABLE (
+  id UUID,
+  brand_id UUID,
+  name TEXT,
+  listings BIGINT,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+  WITH q AS (SELECT lower(trim(COALESCE(p_query, ''))) AS term)
+  SELECT m.id, m.brand_id, m.name,
+         (SELECT COUNT(*) FROM products p WHERE p.model_id = m.id AND p.status = 'active') AS listings,
+         s.score
+  FROM shoe_models m, q
+  CROSS JOIN LATERAL (
+    SELECT GREATEST(
+      CASE WHEN lower(m.name) LIKE q.term || '%' THEN 1 ELSE 0 END,
+      similarity(lower(m.name), q.term),
+      word_similarity(q.term, lower(m.name)),
+      word_similarity(lower(m.name), q.term),
+      COALESCE((SELECT MAX(similarity(a, q.term)) FROM unnest(m.aliases) a), 0)
+    )::REAL AS score
+  ) s
+  WHERE m.brand_id = p_brand_id
+    AND (q.term = '' OR s.score >= 0.3)
+  ORDER BY s.score DESC, listings DESC, m.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_brands(TEXT, INT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_shoe_models(UUID, TEXT, INT) TO anon, authenticated;
+
+-- 4. Merging duplicates (admins)
+-- The source's listings, models/colorways and spellings move to the target, then the
+-- source is deleted. Same-named children are merged rather than duplicated.
+CREATE OR REPLACE FUNCTION merge_shoe_models(p_source_id UUID, p_target_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source shoe_models%ROWTYPE;
+  v_colorway model_colorways%ROWTYPE;
+  v_existing UUID;
+  v_moved INT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a model into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM shoe_models WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM shoe_models WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Model not found';
+  END IF;
+
+  FOR v_colorway IN SELECT * FROM model_colorways WHERE model_id = p_source_id LOOP
+    SELECT id INTO v_existing
+    FROM model_colorways
+    WHERE model_id = p_target_id AND lower(name) = lower(v_colorway.name);
+
+    IF v_existing IS NULL THEN
+      UPDATE model_colorways SET model_id = p_target_id WHERE id = v_colorway.id;
+    ELSE
+      UPDATE products SET colorway_id = v_existing WHERE colorway_id = v_colorway.id;
+      DELETE FROM model_colorways WHERE id = v_colorway.id;
+    END IF;
+  END LOOP;
+
+  UPDATE products SET model_id = p_target_id WHERE model_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE shoe_models
+  SET aliases = ARRAY(
+    SELECT DISTINCT a FROM unnest(aliases || v_source.aliases || lower(v_source.name)) a
+    WHERE a <> lower(name)
+  )
+  WHERE id = p_target_id;
+
+  DELETE FROM shoe_models WHERE id = p_source_id;
+  RETURN v_moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_brands(p_source_id UUID, p_target_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source brands%ROWTYPE;
+  v_model shoe_models%ROWTYPE;
+  v_existing UUID;
+  v_moved INT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a brand into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM brands WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM brands WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Brand not found';
+  END IF;
+
+  FOR v_model IN SELECT * FROM shoe_models WHERE brand_id = p_source_id LOOP
+    SELECT id INTO v_existing
+    FROM shoe_models
+    WHERE brand_id = p_target_id AND lower(name) = lower(v_model.name);
+
+    IF v_existing IS NULL THEN
+      UPDATE shoe_models SET brand_id = p_target_id WHERE id = v_model.id;
+    ELSE
+      PERFORM merge_shoe_models(v_model.id, v_existing);
+    END IF;
+  END LOOP;
+
+  -- Listings without a model; the rest followed their model above
+  UPDATE products SET brand_id = p_target_id WHERE brand_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE brands
+  SET aliases = ARRAY(
+    SELECT DISTINCT a FROM unnest(aliases || v_source.aliases || lower(v_source.name)) a
+    WHERE a <> lower(name)
+  )
+  WHERE id = p_target_id;
+
+  DELETE FROM brands WHERE id = p_source_id;
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_shoe_models(UUID, UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION merge_brands(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_shoe_models(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_brands(UUID, UUID) TO authenticated;
+
+-- 5. Price comparison
+-- Other active listings of the same model, best match first:
+--   colorway  same model and colorway
+--   model     same model, another (or unknown) colorway
+--   similar   same brand (or category for unbranded listings), for listings not linked
+--             to a model yet
+CREATE OR REPLACE FUNCTION get_comparable_listings(p_product_id UUID, p_limit INT DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  price_ksh INTEGER,
+  images TEXT[],
+  brand TEXT,
+  condition TEXT,
+  sizes TEXT[],
+  vendor_id UUID,
+  store_name TEXT,
+  average_rating NUMERIC,
+  review_count INT,
+  model_name TEXT,
+  colorway_name TEXT,
+  match TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH source AS (
+    SELECT p.id, p.brand_id, p.model_id, p.colorway_id, p.brand, p.category
+    FROM products p
+    WHERE p.id = p_product_id
+  ),
+  candidates AS (
+    SELECT p.*,
+           CASE
+             WHEN s.model_id IS NOT NULL AND s.colorway_id IS NOT NULL AND p.colorway_id = s.colorway_id THEN 'colorway'
+             WHEN s.model_id IS NOT NULL THEN 'model'
+             ELSE 'similar'
+           END AS match
+    FROM products p, source s
+    WHERE p.id <> s.id
+      AND p.status = 'active'
+      AND CASE
+            WHEN s.model_id IS NOT NULL THEN p.model_id = s.model_id
+            WHEN s.brand_id IS NOT NULL THEN p.brand_id = s.brand_id
+            WHEN s.brand IS NOT NULL THEN lower(p.brand) = lower(s.brand)
+            ELSE p.category = s.category
+          END
+  )
+  SELECT c.id, c.name, c.price_ksh, c.images, c.brand, c.condition::TEXT, c.sizes, c.vendor_id,
+         pr.store_name,
+         r.average_rating, COALESCE(r.review_count, 0),
+         m.name, cw.name, c.match
+  FROM candidates c
+  LEFT JOIN profiles pr ON pr.id = c.vendor_id
+  LEFT JOIN shoe_models m ON m.id = c.model_id
+  LEFT JOIN model_colorways cw ON cw.id = c.colorway_id
+  LEFT JOIN LATERAL (
+    SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*)::INT AS review_count
+    FROM reviews rv
+    WHERE rv.product_id = c.id
+  ) r ON true
+  ORDER BY CASE c.match WHEN 'colorway' THEN 0 WHEN 'model' THEN 1 ELSE 2 END, c.price_ksh
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_comparable_listings(UUID, INT) TO anon, authenticated;
+
+COMMENT ON TABLE brands IS 'Canonical brands; products.brand mirrors the linked brand name';
+COMMENT ON TABLE shoe_models IS 'Canonical models per brand (e.g. Air Force 1)';
+COMMENT ON TABLE model_colorways IS 'Colorways of a model (e.g. Triple White)';
+COMMENT ON COLUMN brands.aliases IS 'Lower-case spellings of merged duplicates; typed brands matching one link here';
+COMMENT ON FUNCTION merge_brands(UUID, UUID) IS 'Admin: moves a duplicate brand''s models, listings and spellings to another brand and deletes it';
+COMMENT ON FUNCTION merge_shoe_models(UUID, UUID) IS 'Admin: moves a duplicate model''s colorways, listings and spellings to another model and deletes it';
+COMMENT ON FUNCTION get_comparable_listings(UUID, INT) IS 'Price comparison: listings of the same model/colorway, falling back to the same brand or category';
@@ -0,0 +1,298 @@
+-- SEO landing pages
+-- Indexable pages for shoppers searching "nike shoes kenya" or "men's shoes size 42":
+--   /shoes/nike  /shoes/men  /shoes/size-42  /shoes/nairobi  /shoes/nike/men  /shoes/men/size-42
+-- A path is up to four segments: a brand (catalog slug), a shoe category, a size
+-- (size-NN) and a county (the seller's). The canonical order is always
+-- brand / category / size / county, so /shoes/men/nike and /shoes/nike/men are one page.
+-- get_landing_page() resolves a path for the SPA and the Cloudflare function (which
+-- redirects to the canonical path and injects meta and JSON-LD); list_landing_pages()
+-- feeds the sitemap. Pages with more than two filters, or fewer than three listings,
+-- are served but marked noindex and kept out of the sitemap.
+
+-- 1. Facets
+CREATE OR REPLACE FUNCTION landing_shoe_categories()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- src/lib/categories.ts without accessories
+  SELECT ARRAY['men', 'ladies', 'casual', 'kids', 'formal', 'sports', 'school', 'boots', 'open'];
+$$;
+
+-- "42", "EU 42" and "42.5" are sizes; free text like "Adjustable" is not
+CREATE OR REPLACE FUNCTION landing_size(p_size TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT substring(p_size FROM '^\s*(?:[Ee][Uu]\s*)?(\d{2}(?:\.5)?)\s*$');
+$$;
+
+-- "Nairobi County" and "nairobi" are both /shoes/nairobi
+CREATE OR REPLACE FUNCTION landing_county_name(p_county TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(initcap(trim(regexp_replace(p_county, '\s+county\s*$', '', 'i'))), '');
+$$;
+
+CREATE OR REPLACE FUNCTION landing_path(p_brand TEXT, p_category TEXT, p_size TEXT, p_location TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- array_to_string skips NULLs, so missing filters drop out
+  SELECT '/shoes/' || array_to_string(ARRAY[p_brand, p_category, 'size-' || p_size, p_location], '/');
+$$;
+
+-- One row per active shoe listing and size (size NULL when none are listed). Sizes are
+-- the in-stock variant sizes when the listing has variants, as in search_products().
+CREATE OR REPLACE VIEW landing_page_facets AS
+SELECT p.id AS product_id,
+       p.updated_at,
+       b.slug AS brand,
+       b.name AS brand_name,
+       CASE WHEN p.category = ANY(landing_shoe_categories()) THEN p.category END AS category,
+       s.size,
+       catalog_slug(landing_county_name(pr.vendor_county)) AS location,
+       landing_county_name(pr.vendor_county) AS location_name
+FROM products p
+LEFT JOIN brands b ON b.id = p.brand_id
+LEFT JOIN profiles pr ON pr.id = p.vendor_id
+LEFT JOIN LATERAL (
+  SELECT DISTINCT landing_size(raw) AS size
+  FROM unnest(
+    CASE
+      WHEN EXISTS (SELECT 1 FROM product_variants pv WHERE pv.product_id = p.id)
+        THEN ARRAY(SELECT pv.size FROM product_variants pv WHERE pv.product_id = p.id AND pv.stock > 0)
+      ELSE COALESCE(p.sizes, '{}')
+    END
+  ) AS raw
+  WHERE landing_size(raw) IS NOT NULL
+) s ON true
+WHERE p.status = 'active'
+  AND p.category IS DISTINCT FROM 'accessories';
+
+-- Read through the functions below only (it joins seller profiles)
+REVOKE ALL ON landing_page_facets FROM PUBLIC, anon, authenticated;
+
+-- 2. Page
+-- NULL when a segment is not a known brand, category, size or county (the page 404s).
+CREATE OR REPLACE FUNCTION get_landing_page(p_segments TEXT[], p_limit INT DEFAULT 24)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_segment TEXT;
+  v_brand TEXT;
+  v_brand_name TEXT;
+  v_category TEXT;
+  v_size TEXT;
+  v_location TEXT;
+  v_location_name TEXT;
+  v_filters INT;
+  v_ids UUID[];
+  v_lastmod TIMESTAMPTZ;
+  v_min_price INT;
+  v_max_price INT;
+  v_heading TEXT;
+  v_products JSONB;
+  v_related JSONB := '[]'::jsonb;
+BEGIN
+  IF p_segments IS NULL OR cardinality(p_segments) NOT BETWEEN 1 AND 4 THEN
+    RETURN NULL;
+  END IF;
+
+  FOREACH v_segment IN ARRAY p_segments LOOP
+    v_segment := lower(trim(v_segment));
+    IF v_size IS NULL AND v_segment ~ '^size-\d{2}(\.5)?$' THEN
+      v_size := substring(v_segment FROM 6);
+    ELSIF v_category IS NULL AND v_segment = ANY(landing_shoe_categories()) THEN
+      v_category := v_segment;
+    ELSIF v_brand IS NULL AND EXISTS (SELECT 1 FROM brands WHERE slug = v_segment) THEN
+      SELECT slug, name INTO v_brand, v_brand_name FROM brands WHERE slug = v_segment;
+    ELSIF v_location IS NULL AND EXISTS (SELECT 1 FROM landing_page_facets WHERE location = v_segment) THEN
+      v_location := v_segment;
+      SELECT location_name INTO v_location_name FROM landing_page_facets WHERE location = v_segment LIMIT 1;
+    ELSE
+      RETURN NULL;
+    END IF;
+  END LOOP;
+
+  v_filters := cardinality(p_segments);
+
+  v_ids := ARRAY(
+    SELECT DISTINCT f.product_id
+    FROM landing_page_facets f
+    WHERE (v_brand IS NULL OR f.brand = v_brand)
+      AND (v_category IS NULL OR f.category = v_category)
+      AND (v_size IS NULL OR f.size = v_size)
+      AND (v_location IS NULL OR f.location = v_location)
+  );
+
+  SELECT MAX(p.updated_at), MIN(p.price_ksh), MAX(p.price_ksh)
+  INTO v_lastmod, v_min_price, v_max_price
+  FROM products p
+  WHERE p.id = ANY(v_ids);
+
+  -- "Nike Men's Shoes Size 42 in Nairobi", "Boots in Mombasa"
+  v_heading := concat_ws(' ',
+    v_brand_name,
+    CASE v_category
+      WHEN 'men' THEN 'Men''s Shoes'
+      WHEN 'ladies' THEN 'Ladies'' Shoes'
+      WHEN 'kids' THEN 'Kids'' Shoes'
+      WHEN 'boots' THEN 'Boots'
+      WHEN 'open' THEN 'Open Shoes'
+      WHEN 'sports' THEN 'Sports Shoes'
+      WHEN 'school' THEN 'School Shoes'
+      WHEN 'casual' THEN 'Casual Shoes'
+      WHEN 'formal' THEN 'Formal Shoes'
+      ELSE 'Shoes'
+    END,
+    'Size ' || v_size,
+    'in ' || v_location_name
+  );
+
+  SELECT COALESCE(jsonb_agg(card ORDER BY is_featured DESC, created_at DESC), '[]'::jsonb)
+  INTO v_products
+  FROM (
+    SELECT p.is_featured,
+           p.created_at,
+           jsonb_build_object(
+             'id', p.id,
+             'name', p.name,
+             'brand', p.brand,
+             'price_ksh', p.price_ksh,
+             'images', p.images,
+             'condition', p.condition,
+             'video_url', p.video_url,
+             'created_at', p.created_at,
+             'average_rating', r.average_rating,
+             'review_count', COALESCE(r.review_count, 0)
+           ) AS card
+    FROM products p
+    LEFT JOIN LATERAL (
+      SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*)::INT AS review_count
+      FROM reviews rv
+      WHERE rv.product_id = p.id
+    ) r ON true
+    WHERE p.id = ANY(v_ids)
+    ORDER BY p.is_featured DESC NULLS LAST, p.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 60)
+  ) cards;
+
+  -- Links one filter deeper, for pages that would still be indexable
+  IF v_filters < 2 THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+             'kind', kind, 'label', label, 'listings', listings,
+             'path', landing_path(
+               COALESCE(v_brand, CASE WHEN kind = 'brand' THEN value END),
+               COALESCE(v_category, CASE WHEN kind = 'category' THEN value END),
+               COALESCE(v_size, CASE WHEN kind = 'size' THEN value END),
+               COALESCE(v_location, CASE WHEN kind = 'location' THEN value END)
+             )
+           ) ORDER BY kind, listings DESC, label), '[]'::jsonb)
+    INTO v_related
+    FROM (
+      SELECT kind, value, label, listings,
+             row_number() OVER (PARTITION BY kind ORDER BY listings DESC, label) AS rank
+      FROM (
+        SELECT 'brand' AS kind, f.brand AS value, MAX(f.brand_name) AS label, COUNT(DISTINCT f.product_id) AS listings
+        FROM landing_page_facets f
+        WHERE v_brand IS NULL AND f.brand IS NOT NULL AND f.product_id = ANY(v_ids)
+        GROUP BY f.brand
+        UNION ALL
+        SELECT 'category', f.category, f.category, COUNT(DISTINCT f.product_id)
+        FROM landing_page_facets f
+        WHERE v_category IS NULL AND f.category IS NOT NULL AND f.product_id = ANY(v_ids)
+        GROUP BY f.category
+        UNION ALL
+        SELECT 'size', f.size, f.size, COUNT(DISTINCT f.product_id)
+        FROM landing_page_facets f
+        WHERE v_size IS NULL AND f.size IS NOT NULL AND f.product_id = ANY(v_ids)
+        GROUP BY f.size
+        UNION ALL
+        SELECT 'location', f.location, MAX(f.location_name), COUNT(DISTINCT f.product_id)
+        FROM landing_page_facets f
+        WHERE v_location IS NULL AND f.location IS NOT NULL AND f.product_id = ANY(v_ids)
+        GROUP BY f.location
+      ) facet_values
+      WHERE listings >= 3 -- same threshold as list_landing_pages()
+    ) ranked
+    WHERE rank <= 12;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'path', landing_path(v_brand, v_category, v_size, v_location),
+    'brand', CASE WHEN v_brand IS NOT NULL THEN jsonb_build_object('slug', v_brand, 'name', v_brand_name) END,
+    'category', v_category,
+    'size', v_size,
+    'location', CASE WHEN v_location IS NOT NULL THEN jsonb_build_object('slug', v_location, 'name', v_location_name) END,
+    'heading', v_heading,
+    'description', CASE
+      WHEN cardinality(v_ids) = 0 THEN
+        format('Shop %s on Solely, Kenya''s escrow-protected shoe marketplace. New listings from verified sellers every day.', v_heading)
+      ELSE
+        format('Shop %s %s from verified sellers on Solely, from KES %s. Escrow-protected payments and delivery across Kenya.',
+               cardinality(v_ids), v_heading, to_char(v_min_price, 'FM999,999,999'))
+    END,
+    'total', cardinality(v_ids),
+    'min_price', v_min_price,
+    'max_price', v_max_price,
+    'lastmod', v_lastmod,
+    'indexable', v_filters <= 2 AND cardinality(v_ids) >= 3,
+    'products', v_products,
+    'related', v_related
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_landing_page(TEXT[], INT) TO anon, authenticated;
+
+-- 3. Sitemap
+-- Every one- and two-filter page with at least p_min_listings listings, with lastmod
+-- from the most recently updated listing on it.
+CREATE OR REPLACE FUNCTION list_landing_pages(p_min_listings INT DEFAULT 3)
+RETURNS TABLE (
+  path TEXT,
+  listings BIGINT,
+  lastmod TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT landing_path(
+           CASE WHEN GROUPING(f.brand) = 0 THEN f.brand END,
+           CASE WHEN GROUPING(f.category) = 0 THEN f.category END,
+           CASE WHEN GROUPING(f.size) = 0 THEN f.size END,
+           CASE WHEN GROUPING(f.location) = 0 THEN f.location END
+         ),
+         COUNT(DISTINCT f.product_id),
+         MAX(f.updated_at)
+  FROM landing_page_facets f
+  GROUP BY GROUPING SETS (
+    (f.brand), (f.category), (f.size), (f.location),
+    (f.brand, f.category), (f.brand, f.size), (f.brand, f.location),
+    (f.category, f.size), (f.category, f.location), (f.size, f.location)
+  )
+  -- Skip the groups of listings that have no value for a grouped filter
+  HAVING (GROUPING(f.brand) = 1 OR f.brand IS NOT NULL)
+     AND (GROUPING(f.category) = 1 OR f.category IS NOT NULL)
+     AND (GROUPING(f.size) = 1 OR f.size IS NOT NULL)
+     AND (GROUPING(f.location) = 1 OR f.location IS NOT NULL)
+     AND COUNT(DISTINCT f.product_id) >= GREATEST(p_min_listings, 1)
+  ORDER BY 2 DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_landing_pages(INT) TO anon, authenticated, service_role;
+
+COMMENT ON VIEW landing_page_facets IS 'Active shoe listings by brand / category / size / seller county, for /shoes landing pages';
+COMMENT ON FUNCTION get_landing_page(TEXT[], INT) IS 'Resolves a /shoes/... path: canonical path, copy, listings and deeper links; NULL when unknown';
+COMMENT ON FUNCTION list_landing_pages(INT) IS 'Indexable /shoes landing pages (one or two filters, enough listings) for the sitemap';
@@ -0,0 +1,317 @@
+-- Order state machine
+-- Order status used to be written ad hoc by the vendor dashboard, the buyer's order page,
+-- admin dispute resolution and a dozen edge functions. The allowed moves now live in
+-- order_status_transitions, each with the actors that may make it:
+--
+--   buyer   the order's customer
+--   vendor  the order's vendor
+--   admin   has_role(.., 'admin')
+--   system  edge functions, webhooks and cron (service role, no signed-in user)
+--
+-- Signed-in users change status only through transition_order_status(). A trigger on
+-- orders checks every other writer (service-role updates, settle_order_refund, ...)
+-- against the same table, stamps accepted_at / shipped_at / delivered_at / completed_at /
+-- cancelled_at, and records each change in order_events for the order timelines.
+--
+-- Moves that pay out or refund money (-> completed, -> refunded) are system/admin only:
+-- the edge functions that make them also release or return the escrow.
+
+-- 1. Allowed transitions
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status order_status NOT NULL,
+  to_status order_status NOT NULL,
+  actors TEXT[] NOT NULL CHECK (actors <@ ARRAY['buyer', 'vendor', 'admin', 'system']),
+  description TEXT,
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order status transitions"
+ON order_status_transitions FOR SELECT
+USING (true);
+
+INSERT INTO order_status_transitions (from_status, to_status, actors, description) VALUES
+  ('pending_payment', 'pending_vendor_confirmation', ARRAY['system'], 'Payment confirmed'),
+  ('pending_payment', 'cancelled_by_customer', ARRAY['buyer', 'admin', 'system'], 'Checkout abandoned'),
+
+  ('pending_vendor_confirmation', 'accepted', ARRAY['vendor', 'admin'], 'Vendor accepted the order'),
+  ('pending_vendor_confirmation', 'cancelled_by_vendor', ARRAY['vendor', 'admin', 'system'], 'Vendor declined, or did not respond within 48 hours'),
+  ('pending_vendor_confirmation', 'cancelled_by_customer', ARRAY['buyer', 'admin'], 'Buyer cancelled before the vendor accepted'),
+  ('pending_vendor_confirmation', 'disputed', ARRAY['buyer', 'admin'], 'Buyer reported a problem'),
+
+  ('accepted', 'shipped', ARRAY['vendor', 'admin'], 'Handed to the courier'),
+  ('accepted', 'arrived', ARRAY['vendor', 'admin'], 'Pickup order ready for collection'),
+  ('accepted', 'cancelled_by_vendor', ARRAY['vendor', 'admin'], 'Vendor cancelled after accepting'),
+  ('accepted', 'disputed', ARRAY['buyer', 'admin', 'system'], 'Buyer reported a problem, or the order was not shipped in time'),
+
+  ('shipped', 'arrived', ARRAY['vendor', 'admin'], 'Vendor marked the order as delivered'),
+  ('shipped', 'delivered', ARRAY['vendor', 'admin', 'system'], 'Courier confirmed delivery'),
+  ('shipped', 'completed', ARRAY['admin', 'system'], 'Delivery code verified or buyer confirmed receipt'),
+  ('shipped', 'disputed', ARRAY['buyer', 'admin', 'system'], 'Buyer reported a problem'),
+
+  ('arrived', 'completed', ARRAY['admin', 'system'], 'Buyer confirmed, code verified or auto-released'),
+  ('arrived', 'disputed', ARRAY['buyer', 'admin', 'system'], 'Buyer reported a problem'),
+  ('arrived', 'return_in_progress', ARRAY['admin', 'system'], 'Buyer asked for a return or exchange'),
+
+  ('delivered', 'completed', ARRAY['admin', 'system'], 'Buyer confirmed, code verified or auto-released'),
+  ('delivered', 'disputed', ARRAY['buyer', 'admin', 'system'], 'Buyer reported a problem'),
+  ('delivered', 'return_in_progress', ARRAY['admin', 'system'], 'Buyer asked for a return or exchange'),
+
+  ('return_in_progress', 'arrived', ARRAY['admin', 'system'], 'Return declined or cancelled'),
+  ('return_in_progress', 'delivered', ARRAY['admin', 'system'], 'Return declined or cancelled'),
+  ('return_in_progress', 'completed', ARRAY['admin', 'system'], 'Exchange delivered or return refunded'),
+
+  ('disputed', 'completed', ARRAY['admin', 'system'], 'Dispute resolved in the vendor''s favour'),
+
+  ('pending_vendor_confirmation', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('accepted', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('shipped', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('arrived', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('delivered', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('completed', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('disputed', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('return_in_progress', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('cancelled_by_vendor', 'refunded', ARRAY['admin', 'system'], 'Refunded in full'),
+  ('cancelled_by_customer', 'refunded', ARRAY['admin', 'system'], 'Refunded in full')
+ON CONFLICT (from_status, to_status) DO UPDATE
+  SET actors = EXCLUDED.actors, description = EXCLUDED.description;
+
+-- 2. History
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,                  -- NULL for the order being placed
+  to_status order_status NOT NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('buyer', 'vendor', 'admin', 'system')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id, created_at);
+
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view order events"
+ON order_events FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Vendors can view events on their orders"
+ON order_events FOR SELECT
+USING (EXISTS (SELECT 1 FROM orders o WHERE o.id = order_events.order_id AND o.vendor_id = auth.uid()));
+
+CREATE POLICY "Buyers can view events on their orders"
+ON order_events FOR SELECT
+USING (EXISTS (SELECT 1 FROM orders o WHERE o.id = order_events.order_id AND o.customer_id = auth.uid()));
+
+-- 3. Who may make a move
+CREATE OR REPLACE FUNCTION order_transition_allowed(p_from order_status, p_to order_status, p_actor TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM order_status_transitions
+     WHERE from_status = p_from AND to_status = p_to AND p_actor = ANY (actors)
+  );
+$$;
+
+-- 4. The transition RPC
+-- The caller may be the buyer, the vendor and/or an admin; the first of those roles that
+-- is allowed to make the move is recorded. Calls without a signed-in user are 'system'.
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_status order_status,
+  p_reason TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_user UUID := auth.uid();
+  v_roles TEXT[];
+  v_actor TEXT;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND: order % does not exist', p_order_id;
+  END IF;
+
+  IF v_user IS NULL THEN
+    v_roles := ARRAY['system'];
+  ELSE
+    v_roles := array_remove(ARRAY[
+      CASE WHEN v_order.customer_id = v_user THEN 'buyer' END,
+      CASE WHEN v_order.vendor_id = v_user THEN 'vendor' END,
+      CASE WHEN has_role(v_user, 'admin') THEN 'admin' END
+    ], NULL);
+
+    IF cardinality(v_roles) = 0 THEN
+      RAISE EXCEPTION 'NOT_AUTHORIZED: not your order';
+    END IF;
+  END IF;
+
+  IF v_order.status = p_status THEN
+    RAISE EXCEPTION 'ALREADY_IN_STATUS: order is already %', p_status;
+  END IF;
+
+  SELECT r INTO v_actor
+    FROM unnest(v_roles) WITH ORDINALITY AS x(r, n)
+   WHERE order_transition_allowed(v_order.status, p_status, r)
+   ORDER BY n
+   LIMIT 1;
+
+  IF v_actor IS NULL THEN
+    IF EXISTS (SELECT 1 FROM order_status_transitions WHERE from_status = v_order.status AND to_status = p_status) THEN
+      RAISE EXCEPTION 'NOT_AUTHORIZED: you cannot move this order from % to %', v_order.status, p_status;
+    END IF;
+    RAISE EXCEPTION 'INVALID_TRANSITION: an order cannot move from % to %', v_order.status, p_status;
+  END IF;
+
+  -- Read by the orders triggers below, then cleared
+  PERFORM set_config('solely.order_transition', jsonb_build_object(
+    'order_id', p_order_id,
+    'actor_role', v_actor,
+    'actor_id', v_user,
+    'reason', p_reason,
+    'metadata', coalesce(p_metadata, '{}'::jsonb)
+  )::text, true);
+
+  UPDATE orders SET status = p_status WHERE id = p_order_id RETURNING * INTO v_order;
+
+  PERFORM set_config('solely.order_transition', '', true);
+  RETURN v_order;
+END;
+$$;
+
+-- 5. Enforcement and timestamps for every writer
+CREATE OR REPLACE FUNCTION enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context JSONB := NULLIF(current_setting('solely.order_transition', true), '')::jsonb;
+  v_actor TEXT;
+BEGIN
+  IF v_context IS NOT NULL AND (v_context->>'order_id')::uuid = NEW.id THEN
+    v_actor := v_context->>'actor_role';
+  ELSIF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'USE_TRANSITION_RPC: order status changes go through transition_order_status';
+  ELSE
+    v_actor := 'system';
+  END IF;
+
+  IF NOT order_transition_allowed(OLD.status, NEW.status, v_actor) THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION: an order cannot move from % to % (%)', OLD.status, NEW.status, v_actor;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'accepted' THEN
+      NEW.accepted_at := coalesce(NEW.accepted_at, now());
+    WHEN 'shipped' THEN
+      NEW.shipped_at := coalesce(NEW.shipped_at, now());
+    WHEN 'arrived' THEN
+      -- Pickup orders go straight from accepted; shipped_at is their "ready since"
+      NEW.shipped_at := coalesce(NEW.shipped_at, now());
+      NEW.delivered_at := coalesce(NEW.delivered_at, now());
+      NEW.vendor_confirmed := true;
+      -- Delivered orders auto-release 24 hours after arriving unless the buyer objects
+      IF OLD.status = 'shipped' THEN
+        NEW.auto_release_at := coalesce(NEW.auto_release_at, now() + INTERVAL '24 hours');
+      END IF;
+    WHEN 'delivered' THEN
+      NEW.delivered_at := coalesce(NEW.delivered_at, now());
+    WHEN 'completed' THEN
+      NEW.completed_at := coalesce(NEW.completed_at, now());
+    WHEN 'cancelled_by_vendor', 'cancelled_by_customer' THEN
+      NEW.cancelled_at := coalesce(NEW.cancelled_at, now());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_order_transition ON orders;
+CREATE TRIGGER enforce_order_transition
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION enforce_order_transition();
+
+CREATE OR REPLACE FUNCTION log_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context JSONB := NULLIF(current_setting('solely.order_transition', true), '')::jsonb;
+BEGIN
+  IF v_context IS NULL OR (v_context->>'order_id')::uuid IS DISTINCT FROM NEW.id THEN
+    v_context := jsonb_build_object(
+      'actor_role', CASE WHEN TG_OP = 'INSERT' AND auth.uid() = NEW.customer_id THEN 'buyer' ELSE 'system' END,
+      'actor_id', CASE WHEN TG_OP = 'INSERT' THEN auth.uid() END
+    );
+  END IF;
+
+  INSERT INTO order_events (order_id, from_status, to_status, actor_role, actor_id, reason, metadata)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    v_context->>'actor_role',
+    (v_context->>'actor_id')::uuid,
+    v_context->>'reason',
+    coalesce(v_context->'metadata', '{}'::jsonb)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_order_placed ON orders;
+CREATE TRIGGER log_order_placed
+AFTER INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION log_order_event();
+
+DROP TRIGGER IF EXISTS log_order_status_change ON orders;
+CREATE TRIGGER log_order_status_change
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION log_order_event();
+
+-- 6. History for existing orders, from the timestamps they already carry
+INSERT INTO order_events (order_id, from_status, to_status, actor_role, metadata, created_at)
+SELECT o.id, NULL, e.status, 'system', '{"backfilled": true}'::jsonb, e.at
+  FROM orders o
+ CROSS JOIN LATERAL (VALUES
+   ('accepted'::order_status, o.accepted_at),
+   ('shipped'::order_status, o.shipped_at),
+   ('completed'::order_status, o.completed_at),
+   -- Wherever the order ended up, if none of the above covers it
+   (o.status, CASE WHEN o.status::TEXT NOT IN ('pending_payment', 'pending_vendor_confirmation', 'accepted', 'shipped', 'completed')
+                   THEN coalesce(o.cancelled_at, o.delivered_at, o.updated_at) END)
+ ) AS e(status, at)
+ WHERE e.at IS NOT NULL
+   AND NOT EXISTS (SELECT 1 FROM order_events x WHERE x.order_id = o.id);
+
+REVOKE ALL ON FUNCTION transition_order_status(UUID, order_status, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transition_order_status(UUID, order_status, TEXT, JSONB) TO authenticated, service_role;
+
+COMMENT ON TABLE order_status_transitions IS 'Allowed order status moves and which actors (buyer, vendor, admin, system) may make them';
+COMMENT ON TABLE order_events IS 'Order status history, written by triggers on orders';
+COMMENT ON FUNCTION transition_order_status IS 'Moves an order to a new status if the caller is allowed to; records the reason in order_events';
+COMMENT ON FUNCTION enforce_order_transition IS 'Rejects status changes not in order_status_transitions and stamps the matching *_at column';
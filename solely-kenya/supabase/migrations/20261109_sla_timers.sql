@@ -0,0 +1,386 @@
+-- Configurable SLA timers
+-- The 48-hour vendor response window (auto-cancel-stale-orders), the 5-day delivery window
+-- (auto-refund-unshipped) and the 24-hour buyer review window before escrow auto-releases
+-- (auto-release-escrow) were hardcoded. They now come from sla_settings, edited by admins,
+-- with optional overrides per delivery type and/or buyer county. The most specific row wins:
+--   county + delivery type > county > delivery type > default
+-- A NULL duration means no deadline (pickup orders have no delivery or review deadline).
+--
+-- Each order carries the deadline of the timer it is on, stamped when it enters the status:
+--   pending_vendor_confirmation  response_deadline_at  -> auto-cancelled and refunded
+--   accepted / shipped           delivery_deadline_at  -> auto-disputed
+--   arrived                      auto_release_at       -> escrow released to the vendor
+--
+-- sla-deadline-warnings warns the vendor (or buyer, for the review window) warn_before_hours
+-- ahead. Admins can pause an order's deadline (resuming shifts it by the time paused) or
+-- extend it; both are recorded in order_events.
+
+-- 1. Settings
+CREATE TABLE IF NOT EXISTS sla_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  timer TEXT NOT NULL CHECK (timer IN ('vendor_response', 'delivery', 'buyer_review')),
+  delivery_type TEXT CHECK (delivery_type IN ('delivery', 'pickup')),   -- NULL: any
+  county TEXT,                                                           -- NULL: any; buyer's county
+  hours NUMERIC(6,2) CHECK (hours IS NULL OR hours > 0),                 -- NULL: no deadline
+  warn_before_hours NUMERIC(6,2) NOT NULL DEFAULT 0 CHECK (warn_before_hours >= 0), -- 0: no warning
+  notes TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sla_settings_scope
+  ON sla_settings(timer, coalesce(delivery_type, ''), lower(coalesce(county, '')));
+
+-- Today's hardcoded windows become the defaults
+INSERT INTO sla_settings (timer, delivery_type, county, hours, warn_before_hours, notes) VALUES
+  ('vendor_response', NULL, NULL, 48, 6, 'Unanswered orders are cancelled and refunded'),
+  ('delivery', NULL, NULL, 120, 24, 'Orders not marked arrived are escalated to a dispute'),
+  ('delivery', 'pickup', NULL, NULL, 0, 'Pickup orders have no delivery deadline'),
+  ('buyer_review', NULL, NULL, 24, 6, 'Escrow is released to the vendor unless the buyer reports a problem'),
+  ('buyer_review', 'pickup', NULL, NULL, 0, 'Pickup orders are released when the buyer confirms collection')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE sla_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view SLA settings"
+ON sla_settings FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage SLA settings"
+ON sla_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sla_settings_updated_at
+BEFORE UPDATE ON sla_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- 2. Per-order deadlines
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS response_deadline_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS delivery_deadline_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sla_warned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sla_paused_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sla_pause_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_response_deadline ON orders(response_deadline_at)
+  WHERE status = 'pending_vendor_confirmation';
+CREATE INDEX IF NOT EXISTS idx_orders_delivery_deadline ON orders(delivery_deadline_at)
+  WHERE status IN ('accepted', 'shipped');
+
+COMMENT ON COLUMN orders.response_deadline_at IS 'Vendor must accept or decline by then, or the order is auto-cancelled';
+COMMENT ON COLUMN orders.delivery_deadline_at IS 'Order must be marked arrived by then, or it is auto-disputed';
+COMMENT ON COLUMN orders.sla_warned_at IS 'Deadline warning sent for the current deadline';
+COMMENT ON COLUMN orders.sla_paused_at IS 'Set while an admin has paused the current deadline; the auto jobs skip the order';
+
+-- 3. Resolution
+CREATE OR REPLACE FUNCTION resolve_sla(p_timer TEXT, p_delivery_type TEXT, p_county TEXT)
+RETURNS sla_settings
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+    FROM sla_settings
+   WHERE timer = p_timer
+     AND (delivery_type IS NULL OR delivery_type = coalesce(p_delivery_type, 'delivery'))
+     AND (county IS NULL OR lower(county) = lower(trim(p_county)))
+   ORDER BY (county IS NOT NULL) DESC, (delivery_type IS NOT NULL) DESC
+   LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION order_sla(p_order_id UUID, p_timer TEXT)
+RETURNS sla_settings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery_type TEXT;
+  v_county TEXT;
+BEGIN
+  SELECT delivery_type, county INTO v_delivery_type, v_county
+    FROM order_shipping_details
+   WHERE order_id = p_order_id;
+
+  RETURN resolve_sla(p_timer, v_delivery_type, v_county);
+END;
+$$;
+
+-- The timer an order in this status is on
+CREATE OR REPLACE FUNCTION order_sla_timer(p_status order_status)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'pending_vendor_confirmation' THEN 'vendor_response'
+    WHEN 'accepted' THEN 'delivery'
+    WHEN 'shipped' THEN 'delivery'
+    WHEN 'arrived' THEN 'buyer_review'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION order_sla_deadline(p_order orders)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE order_sla_timer(p_order.status)
+    WHEN 'vendor_response' THEN p_order.response_deadline_at
+    WHEN 'delivery' THEN p_order.delivery_deadline_at
+    WHEN 'buyer_review' THEN p_order.auto_release_at
+  END;
+$$;
+
+-- 4. Stamp deadlines on status changes
+-- Replaces the hardcoded 24-hour auto-release from the state machine migration.
+CREATE OR REPLACE FUNCTION enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context JSONB := NULLIF(current_setting('solely.order_transition', true), '')::jsonb;
+  v_actor TEXT;
+BEGIN
+  IF v_context IS NOT NULL AND (v_context->>'order_id')::uuid = NEW.id THEN
+    v_actor := v_context->>'actor_role';
+  ELSIF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'USE_TRANSITION_RPC: order status changes go through transition_order_status';
+  ELSE
+    v_actor := 'system';
+  END IF;
+
+  IF NOT order_transition_allowed(OLD.status, NEW.status, v_actor) THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION: an order cannot move from % to % (%)', OLD.status, NEW.status, v_actor;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'accepted' THEN
+      NEW.accepted_at := coalesce(NEW.accepted_at, now());
+    WHEN 'shipped' THEN
+      NEW.shipped_at := coalesce(NEW.shipped_at, now());
+    WHEN 'arrived' THEN
+      -- Pickup orders go straight from accepted; shipped_at is their "ready since"
+      NEW.shipped_at := coalesce(NEW.shipped_at, now());
+      NEW.delivered_at := coalesce(NEW.delivered_at, now());
+      NEW.vendor_confirmed := true;
+    WHEN 'delivered' THEN
+      NEW.delivered_at := coalesce(NEW.delivered_at, now());
+    WHEN 'completed' THEN
+      NEW.completed_at := coalesce(NEW.completed_at, now());
+    WHEN 'cancelled_by_vendor', 'cancelled_by_customer' THEN
+      NEW.cancelled_at := coalesce(NEW.cancelled_at, now());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION stamp_order_sla_deadlines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timer TEXT := order_sla_timer(NEW.status);
+  v_hours NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+      RETURN NEW;
+    END IF;
+    -- Shipping keeps the delivery deadline (and its warning and pause) set on acceptance
+    IF OLD.status = 'accepted' AND NEW.status = 'shipped' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- A pause belongs to the deadline it was applied to
+  NEW.sla_paused_at := NULL;
+  NEW.sla_pause_reason := NULL;
+  NEW.sla_warned_at := NULL;
+
+  IF v_timer IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_hours := (order_sla(NEW.id, v_timer)).hours;
+
+  CASE v_timer
+    WHEN 'vendor_response' THEN
+      NEW.response_deadline_at := now() + v_hours * INTERVAL '1 hour';
+    WHEN 'delivery' THEN
+      NEW.delivery_deadline_at := now() + v_hours * INTERVAL '1 hour';
+    WHEN 'buyer_review' THEN
+      NEW.auto_release_at := now() + v_hours * INTERVAL '1 hour';
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_order_sla_deadlines ON orders;
+CREATE TRIGGER stamp_order_sla_deadlines
+BEFORE INSERT OR UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION stamp_order_sla_deadlines();
+
+-- Orders already on a timer, measured from when it started
+UPDATE orders
+   SET response_deadline_at = created_at + (order_sla(id, 'vendor_response')).hours * INTERVAL '1 hour'
+ WHERE status = 'pending_vendor_confirmation'
+   AND response_deadline_at IS NULL;
+
+UPDATE orders
+   SET delivery_deadline_at = coalesce(accepted_at, created_at) + (order_sla(id, 'delivery')).hours * INTERVAL '1 hour'
+ WHERE status IN ('accepted', 'shipped')
+   AND delivery_deadline_at IS NULL;
+
+-- 5. Deadline warnings
+-- Marks orders whose deadline is within its warning window and returns them, once per
+-- deadline; SKIP LOCKED keeps overlapping runs from both claiming an order.
+CREATE OR REPLACE FUNCTION claim_sla_warnings()
+RETURNS TABLE (
+  order_id UUID,
+  timer TEXT,
+  deadline_at TIMESTAMPTZ,
+  vendor_id UUID,
+  customer_id UUID,
+  total_ksh NUMERIC
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT o.id
+      FROM orders o
+     WHERE o.status IN ('pending_vendor_confirmation', 'accepted', 'shipped', 'arrived')
+       AND o.sla_paused_at IS NULL
+       AND o.sla_warned_at IS NULL
+       AND order_sla_deadline(o) > now()
+       AND order_sla_deadline(o)
+           - (order_sla(o.id, order_sla_timer(o.status))).warn_before_hours * INTERVAL '1 hour' <= now()
+     FOR UPDATE OF o SKIP LOCKED
+  )
+  UPDATE orders o
+     SET sla_warned_at = now()
+    FROM due
+   WHERE o.id = due.id
+  RETURNING o.id, order_sla_timer(o.status), order_sla_deadline(o), o.vendor_id, o.customer_id, o.total_ksh;
+$$;
+
+-- 6. Admin pause / resume / extend
+CREATE OR REPLACE FUNCTION manage_order_sla(
+  p_order_id UUID,
+  p_action TEXT,              -- 'pause' | 'resume' | 'extend'
+  p_hours NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_timer TEXT;
+  v_deadline TIMESTAMPTZ;
+  v_shift INTERVAL;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED: only admins can change order deadlines';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_FOUND: order % does not exist', p_order_id;
+  END IF;
+
+  v_timer := order_sla_timer(v_order.status);
+  v_deadline := order_sla_deadline(v_order);
+  IF v_deadline IS NULL THEN
+    RAISE EXCEPTION 'NO_DEADLINE: this order has no running deadline';
+  END IF;
+
+  IF p_action = 'pause' THEN
+    IF v_order.sla_paused_at IS NOT NULL THEN
+      RAISE EXCEPTION 'ALREADY_PAUSED: the deadline is already paused';
+    END IF;
+    UPDATE orders
+       SET sla_paused_at = now(), sla_pause_reason = p_reason
+     WHERE id = p_order_id
+    RETURNING * INTO v_order;
+  ELSE
+    IF p_action = 'resume' THEN
+      IF v_order.sla_paused_at IS NULL THEN
+        RAISE EXCEPTION 'NOT_PAUSED: the deadline is not paused';
+      END IF;
+      v_shift := now() - v_order.sla_paused_at;
+    ELSIF p_action = 'extend' THEN
+      IF p_hours IS NULL OR p_hours <= 0 THEN
+        RAISE EXCEPTION 'INVALID_HOURS: extend by a positive number of hours';
+      END IF;
+      -- An overdue deadline is extended from now
+      v_shift := greatest(v_deadline, now()) - v_deadline + p_hours * INTERVAL '1 hour';
+    ELSE
+      RAISE EXCEPTION 'INVALID_ACTION: %', p_action;
+    END IF;
+
+    UPDATE orders
+       SET response_deadline_at = CASE WHEN v_timer = 'vendor_response' THEN response_deadline_at + v_shift ELSE response_deadline_at END,
+           delivery_deadline_at = CASE WHEN v_timer = 'delivery' THEN delivery_deadline_at + v_shift ELSE delivery_deadline_at END,
+           auto_release_at = CASE WHEN v_timer = 'buyer_review' THEN auto_release_at + v_shift ELSE auto_release_at END,
+           sla_paused_at = CASE WHEN p_action = 'resume' THEN NULL ELSE sla_paused_at END,
+           sla_pause_reason = CASE WHEN p_action = 'resume' THEN NULL ELSE sla_pause_reason END,
+           sla_warned_at = NULL
+     WHERE id = p_order_id
+    RETURNING * INTO v_order;
+  END IF;
+
+  -- Same status on both sides: the timeline shows it as a deadline change
+  INSERT INTO order_events (order_id, from_status, to_status, actor_role, actor_id, reason, metadata)
+  VALUES (
+    p_order_id, v_order.status, v_order.status, 'admin', auth.uid(), p_reason,
+    jsonb_build_object('sla', p_action, 'timer', v_timer, 'hours', p_hours, 'deadline_at', order_sla_deadline(v_order))
+  );
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_sla_warnings() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_sla_warnings() TO service_role;
+REVOKE ALL ON FUNCTION manage_order_sla(UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION manage_order_sla(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+
+SELECT cron.schedule(
+    'sla-deadline-warnings',
+    '*/15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/sla-deadline-warnings',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON TABLE sla_settings IS 'Order deadline durations and warning lead times, with per-delivery-type and per-county overrides';
+COMMENT ON FUNCTION resolve_sla(TEXT, TEXT, TEXT) IS 'Most specific SLA setting for a timer, delivery type and county';
+COMMENT ON FUNCTION order_sla_deadline(orders) IS 'Deadline of the timer the order is currently on, if any';
+COMMENT ON FUNCTION claim_sla_warnings() IS 'Marks orders due a deadline warning and returns them for delivery (service role only)';
+COMMENT ON FUNCTION manage_order_sla(UUID, TEXT, NUMERIC, TEXT) IS 'Admin pause, resume or extend of an order''s current deadline';
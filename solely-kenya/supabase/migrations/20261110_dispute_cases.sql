@@ -0,0 +1,322 @@
+-- Dispute case management
+-- A dispute used to be a single description, a single vendor_response and free-text
+-- resolution_notes. It is now a case:
+--   - a threaded conversation (dispute_messages) between buyer, vendor and admin, with
+--     attachments in the dispute-evidence bucket and admin-only internal notes
+--   - an assigned admin
+--   - a reason-specific checklist (the items live in the app; progress in disputes.checklist)
+--   - a response deadline: the party the case is waiting on must reply within the
+--     dispute_response SLA (sla_settings) or the case is escalated by dispute-deadlines
+--   - settlement: full refund, release, partial refund, split payout, or return-before-refund
+--     (an admin-opened order_returns row; the refund is issued when the vendor receives it)
+--
+-- Messages are written through post_dispute_message(), which also moves the deadline on.
+
+-- 1. Case fields
+ALTER TYPE dispute_status ADD VALUE IF NOT EXISTS 'awaiting_return';
+
+ALTER TABLE disputes
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS awaiting_party TEXT CHECK (awaiting_party IN ('buyer', 'vendor')),
+  ADD COLUMN IF NOT EXISTS response_due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS checklist JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS settlement_type TEXT
+    CHECK (settlement_type IN ('refund', 'release', 'partial_refund', 'split', 'return_then_refund', 'closed')),
+  ADD COLUMN IF NOT EXISTS settlement_amount_ksh NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS return_id UUID REFERENCES order_returns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_disputes_response_due ON disputes(response_due_at)
+  WHERE awaiting_party IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_disputes_assigned ON disputes(assigned_to);
+
+COMMENT ON COLUMN disputes.awaiting_party IS 'Who the case is waiting on; cleared when they reply';
+COMMENT ON COLUMN disputes.response_due_at IS 'Reply deadline for awaiting_party (dispute_response SLA); escalated when it passes';
+COMMENT ON COLUMN disputes.checklist IS 'Checked checklist items: {item_key: {by, at}}';
+COMMENT ON COLUMN disputes.settlement_type IS 'How the case was (or is being) settled';
+COMMENT ON COLUMN disputes.settlement_amount_ksh IS 'Amount refunded to the buyer for partial/split settlements';
+
+-- Dispute returns: the refund settles the case
+ALTER TABLE order_returns
+  ADD COLUMN IF NOT EXISTS dispute_id UUID REFERENCES disputes(id) ON DELETE SET NULL;
+
+INSERT INTO order_status_transitions (from_status, to_status, actors, description) VALUES
+  ('disputed', 'return_in_progress', ARRAY['admin', 'system'], 'Dispute settled with a return before refund'),
+  ('return_in_progress', 'disputed', ARRAY['admin', 'system'], 'Dispute return cancelled')
+ON CONFLICT (from_status, to_status) DO UPDATE
+  SET actors = EXCLUDED.actors, description = EXCLUDED.description;
+
+-- 2. Response deadline
+ALTER TABLE sla_settings DROP CONSTRAINT IF EXISTS sla_settings_timer_check;
+ALTER TABLE sla_settings ADD CONSTRAINT sla_settings_timer_check
+  CHECK (timer IN ('vendor_response', 'delivery', 'buyer_review', 'dispute_response'));
+
+INSERT INTO sla_settings (timer, delivery_type, county, hours, warn_before_hours, notes) VALUES
+  ('dispute_response', NULL, NULL, 48, 12, 'Disputes are escalated when the buyer or vendor does not reply in time')
+ON CONFLICT DO NOTHING;
+
+-- 3. Messages
+CREATE TABLE IF NOT EXISTS dispute_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sender_role TEXT NOT NULL CHECK (sender_role IN ('buyer', 'vendor', 'admin', 'system')),
+  body TEXT NOT NULL DEFAULT '',
+  attachment_urls TEXT[] NOT NULL DEFAULT '{}',
+  internal BOOLEAN NOT NULL DEFAULT false,   -- admin-only note
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_messages_dispute ON dispute_messages(dispute_id, created_at);
+
+ALTER TABLE dispute_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view dispute messages"
+ON dispute_messages FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Parties can view their dispute messages"
+ON dispute_messages FOR SELECT
+USING (
+  NOT internal
+  AND EXISTS (
+    SELECT 1 FROM disputes d
+     WHERE d.id = dispute_messages.dispute_id
+       AND (d.customer_id = auth.uid() OR d.vendor_id = auth.uid())
+  )
+);
+
+-- Existing cases: the description and vendor response become the start of the thread
+INSERT INTO dispute_messages (dispute_id, sender_id, sender_role, body, attachment_urls, created_at)
+SELECT d.id, d.customer_id, 'buyer', d.description, coalesce(d.buyer_evidence_urls, '{}'), d.opened_at
+  FROM disputes d
+ WHERE (d.description IS NOT NULL OR d.buyer_evidence_urls IS NOT NULL)
+   AND NOT EXISTS (SELECT 1 FROM dispute_messages m WHERE m.dispute_id = d.id);
+
+INSERT INTO dispute_messages (dispute_id, sender_id, sender_role, body, attachment_urls, created_at)
+SELECT d.id, d.vendor_id, 'vendor', d.vendor_response, coalesce(d.vendor_evidence_urls, '{}'),
+       coalesce(d.vendor_response_at, d.opened_at)
+  FROM disputes d
+ WHERE d.vendor_response IS NOT NULL
+   AND NOT EXISTS (SELECT 1 FROM dispute_messages m WHERE m.dispute_id = d.id AND m.sender_role = 'vendor');
+
+-- Open cases still waiting on the vendor get a deadline from now
+UPDATE disputes
+   SET awaiting_party = 'vendor',
+       response_due_at = now() + (order_sla(order_id, 'dispute_response')).hours * INTERVAL '1 hour'
+ WHERE status = 'open'
+   AND vendor_response IS NULL
+   AND awaiting_party IS NULL;
+
+-- 4. New cases wait on the vendor, and the buyer's report opens the thread
+CREATE OR REPLACE FUNCTION open_dispute_case()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND TG_WHEN = 'BEFORE' THEN
+    NEW.awaiting_party := 'vendor';
+    NEW.response_due_at := now() + (order_sla(NEW.order_id, 'dispute_response')).hours * INTERVAL '1 hour';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.description IS NOT NULL OR NEW.buyer_evidence_urls IS NOT NULL THEN
+    INSERT INTO dispute_messages (dispute_id, sender_id, sender_role, body, attachment_urls, created_at)
+    VALUES (
+      NEW.id,
+      CASE WHEN auth.uid() = NEW.customer_id THEN NEW.customer_id END,
+      CASE WHEN auth.uid() = NEW.customer_id THEN 'buyer' ELSE 'system' END,
+      coalesce(NEW.description, ''),
+      coalesce(NEW.buyer_evidence_urls, '{}'),
+      NEW.opened_at
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_dispute_response_deadline ON disputes;
+CREATE TRIGGER set_dispute_response_deadline
+BEFORE INSERT ON disputes
+FOR EACH ROW
+EXECUTE FUNCTION open_dispute_case();
+
+DROP TRIGGER IF EXISTS start_dispute_thread ON disputes;
+CREATE TRIGGER start_dispute_thread
+AFTER INSERT ON disputes
+FOR EACH ROW
+EXECUTE FUNCTION open_dispute_case();
+
+-- 5. Posting
+CREATE OR REPLACE FUNCTION post_dispute_message(
+  p_dispute_id UUID,
+  p_body TEXT,
+  p_attachment_urls TEXT[] DEFAULT '{}',
+  p_internal BOOLEAN DEFAULT false,
+  p_request_response_from TEXT DEFAULT NULL   -- admin only: 'buyer' | 'vendor'
+)
+RETURNS dispute_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute disputes%ROWTYPE;
+  v_role TEXT;
+  v_body TEXT := trim(coalesce(p_body, ''));
+  v_attachments TEXT[] := coalesce(p_attachment_urls, '{}');
+  v_message dispute_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DISPUTE_NOT_FOUND: dispute % does not exist', p_dispute_id;
+  END IF;
+
+  IF has_role(auth.uid(), 'admin') THEN
+    v_role := 'admin';
+  ELSIF auth.uid() = v_dispute.customer_id THEN
+    v_role := 'buyer';
+  ELSIF auth.uid() = v_dispute.vendor_id THEN
+    v_role := 'vendor';
+  ELSE
+    RAISE EXCEPTION 'NOT_AUTHORIZED: you are not part of this dispute';
+  END IF;
+
+  IF v_dispute.status::TEXT NOT IN ('open', 'under_review', 'awaiting_return') THEN
+    RAISE EXCEPTION 'DISPUTE_CLOSED: this dispute has been settled';
+  END IF;
+
+  IF v_role <> 'admin' AND (p_internal OR p_request_response_from IS NOT NULL) THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED: only support can post internal notes or request replies';
+  END IF;
+
+  IF p_request_response_from IS NOT NULL AND p_request_response_from NOT IN ('buyer', 'vendor') THEN
+    RAISE EXCEPTION 'INVALID_PARTY: ask the buyer or the vendor';
+  END IF;
+
+  IF v_body = '' AND cardinality(v_attachments) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_MESSAGE: write a message or attach a file';
+  END IF;
+
+  INSERT INTO dispute_messages (dispute_id, sender_id, sender_role, body, attachment_urls, internal)
+  VALUES (p_dispute_id, auth.uid(), v_role, v_body, v_attachments, p_internal)
+  RETURNING * INTO v_message;
+
+  IF v_role = v_dispute.awaiting_party THEN
+    -- The party we were waiting on replied; the case is back with support
+    UPDATE disputes
+       SET awaiting_party = NULL,
+           response_due_at = NULL,
+           reminder_sent_at = NULL,
+           status = CASE WHEN status = 'open' THEN 'under_review'::dispute_status ELSE status END,
+           vendor_response = CASE WHEN v_role = 'vendor' THEN coalesce(vendor_response, v_body) ELSE vendor_response END,
+           vendor_response_at = CASE WHEN v_role = 'vendor' THEN coalesce(vendor_response_at, now()) ELSE vendor_response_at END
+     WHERE id = p_dispute_id;
+  ELSIF v_role = 'admin' AND p_request_response_from IS NOT NULL AND NOT p_internal THEN
+    UPDATE disputes
+       SET awaiting_party = p_request_response_from,
+           response_due_at = now() + (order_sla(order_id, 'dispute_response')).hours * INTERVAL '1 hour',
+           reminder_sent_at = NULL,
+           escalated_at = NULL,
+           status = CASE WHEN status = 'open' THEN 'under_review'::dispute_status ELSE status END
+     WHERE id = p_dispute_id;
+  END IF;
+
+  RETURN v_message;
+END;
+$$;
+
+-- 6. Reminders and escalation
+-- Claims cases whose reply deadline is within the warning window (reminder) or has
+-- passed (escalation: status under_review, a system note in the thread). Each is
+-- returned once; SKIP LOCKED keeps overlapping runs apart.
+CREATE OR REPLACE FUNCTION claim_dispute_deadlines()
+RETURNS TABLE (
+  kind TEXT,
+  dispute_id UUID,
+  order_id UUID,
+  awaiting_party TEXT,
+  response_due_at TIMESTAMPTZ,
+  customer_id UUID,
+  vendor_id UUID,
+  assigned_to UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+      FROM disputes d
+     WHERE d.awaiting_party IS NOT NULL
+       AND d.escalated_at IS NULL
+       AND d.response_due_at <= now()
+       AND d.status IN ('open', 'under_review')
+     FOR UPDATE OF d SKIP LOCKED
+  ), escalated AS (
+    UPDATE disputes d
+       SET escalated_at = now(),
+           status = 'under_review'
+      FROM due
+     WHERE d.id = due.id
+    RETURNING d.*
+  ), noted AS (
+    INSERT INTO dispute_messages (dispute_id, sender_role, body, internal)
+    SELECT e.id, 'system',
+           format('No reply from the %s by the deadline - escalated to support.', e.awaiting_party),
+           false
+      FROM escalated e
+  )
+  SELECT 'escalation', e.id, e.order_id, e.awaiting_party, e.response_due_at, e.customer_id, e.vendor_id, e.assigned_to
+    FROM escalated e;
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+      FROM disputes d
+     WHERE d.awaiting_party IS NOT NULL
+       AND d.reminder_sent_at IS NULL
+       AND d.escalated_at IS NULL
+       AND d.response_due_at > now()
+       AND d.response_due_at
+           - (order_sla(d.order_id, 'dispute_response')).warn_before_hours * INTERVAL '1 hour' <= now()
+       AND d.status IN ('open', 'under_review')
+     FOR UPDATE OF d SKIP LOCKED
+  )
+  UPDATE disputes d
+     SET reminder_sent_at = now()
+    FROM due
+   WHERE d.id = due.id
+  RETURNING 'reminder', d.id, d.order_id, d.awaiting_party, d.response_due_at, d.customer_id, d.vendor_id, d.assigned_to;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION post_dispute_message(UUID, TEXT, TEXT[], BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION post_dispute_message(UUID, TEXT, TEXT[], BOOLEAN, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION claim_dispute_deadlines() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_dispute_deadlines() TO service_role;
+
+SELECT cron.schedule(
+    'dispute-deadlines',
+    '*/15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/dispute-deadlines',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON TABLE dispute_messages IS 'Dispute conversation between buyer, vendor and support; internal notes are admin-only';
+COMMENT ON FUNCTION post_dispute_message(UUID, TEXT, TEXT[], BOOLEAN, TEXT) IS 'Adds a message to a dispute and moves its reply deadline on';
+COMMENT ON FUNCTION claim_dispute_deadlines() IS 'Claims disputes due a reply reminder or escalation (service role only)';
@@ -0,0 +1,787 @@
+-- Vendor performance scorecards
+-- Every night each vendor gets a scorecard over the last 90 days, computed from data we
+-- already keep:
+--   acceptance     accepted orders out of those accepted, declined or left to auto-cancel
+--   response time  accepted_at - created_at
+--   auto-cancels   orders cancelled by auto-cancel-stale-orders (order_events, actor 'system')
+--   disputes       disputes opened per accepted order, and how they were settled
+--   on time        orders marked arrived by their delivery deadline (pickups have none)
+--   rating         vendor_ratings, all time
+-- The score (0-100) weighs acceptance 25, on time 25, disputes 20, rating 20 and response
+-- time 10. A metric with no data yet scores full marks; ratings are pulled towards 4 stars
+-- until a vendor has a few. Vendors with fewer than 5 orders in the window are 'new'.
+--
+-- Admins configure enforcement rules (vendor_enforcement_rules): when a metric crosses a
+-- threshold, an action is logged in vendor_enforcement_actions and the vendor is told
+-- (vendor-scorecards edge function):
+--   warning     email, push and in-app notice
+--   demotion    listings lose featured placement and drop down the smart sort
+--               (products.search_penalty) for duration_days
+--   suspension  live listings are hidden (status 'suspended') for duration_days, then restored
+-- A rule fires again for the same vendor only once its last action has run its course.
+-- Excellent and good vendors show a seller badge (products.seller_badge) unless demoted or
+-- suspended.
+
+-- 1. Scorecards
+CREATE TABLE IF NOT EXISTS vendor_scorecards (
+  vendor_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  window_days INTEGER NOT NULL DEFAULT 90,
+  orders_received INTEGER NOT NULL DEFAULT 0,     -- accepted + declined + auto-cancelled
+  orders_accepted INTEGER NOT NULL DEFAULT 0,
+  orders_declined INTEGER NOT NULL DEFAULT 0,
+  auto_cancelled INTEGER NOT NULL DEFAULT 0,
+  acceptance_rate NUMERIC(5,4),                   -- NULL: no orders yet
+  avg_response_hours NUMERIC(8,2),
+  deliveries_due INTEGER NOT NULL DEFAULT 0,      -- accepted orders whose delivery deadline has come
+  deliveries_on_time INTEGER NOT NULL DEFAULT 0,
+  on_time_rate NUMERIC(5,4),
+  disputes_opened INTEGER NOT NULL DEFAULT 0,
+  disputes_lost INTEGER NOT NULL DEFAULT 0,       -- resolved_refund
+  disputes_partial INTEGER NOT NULL DEFAULT 0,    -- resolved_partial_refund
+  disputes_won INTEGER NOT NULL DEFAULT 0,        -- resolved_release
+  dispute_rate NUMERIC(5,4),
+  average_rating NUMERIC(3,2),
+  rating_count INTEGER NOT NULL DEFAULT 0,
+  score NUMERIC(5,2) NOT NULL DEFAULT 100,
+  tier TEXT NOT NULL DEFAULT 'new' CHECK (tier IN ('excellent', 'good', 'fair', 'poor', 'new')),
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE vendor_scorecards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their own scorecard"
+ON vendor_scorecards FOR SELECT
+USING (auth.uid() = vendor_id);
+
+CREATE POLICY "Admins can view all scorecards"
+ON vendor_scorecards FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+-- 2. Enforcement rules
+-- Thresholds are in the metric's own units (rates are fractions). Score, rates and rating
+-- are breached below the threshold; dispute rate, auto-cancels and response time above it.
+CREATE TABLE IF NOT EXISTS vendor_enforcement_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  metric TEXT NOT NULL CHECK (metric IN (
+    'score', 'acceptance_rate', 'on_time_rate', 'dispute_rate', 'auto_cancelled', 'average_rating', 'avg_response_hours'
+  )),
+  threshold NUMERIC(8,2) NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('warning', 'demotion', 'suspension')),
+  min_orders INTEGER NOT NULL DEFAULT 5 CHECK (min_orders >= 0),           -- orders_received before the rule applies
+  duration_days INTEGER NOT NULL DEFAULT 7 CHECK (duration_days > 0),      -- how long the action lasts (warnings: before repeating)
+  search_penalty NUMERIC(4,2) NOT NULL DEFAULT 0 CHECK (search_penalty >= 0), -- demotion: taken off the smart-sort score
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO vendor_enforcement_rules (metric, threshold, action, min_orders, duration_days, search_penalty, notes)
+SELECT * FROM (VALUES
+  ('score', 70, 'warning', 5, 14, 0, 'Heads-up with the metrics to work on'),
+  ('score', 60, 'demotion', 5, 14, 2, 'Listings drop down the shop for two weeks'),
+  ('score', 40, 'suspension', 10, 7, 0, 'Listings hidden for a week'),
+  ('auto_cancelled', 3, 'warning', 0, 14, 0, 'Several orders left to auto-cancel')
+) AS seed(metric, threshold, action, min_orders, duration_days, search_penalty, notes)
+WHERE NOT EXISTS (SELECT 1 FROM vendor_enforcement_rules);
+
+ALTER TABLE vendor_enforcement_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view enforcement rules"
+ON vendor_enforcement_rules FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage enforcement rules"
+ON vendor_enforcement_rules FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_vendor_enforcement_rules_updated_at
+BEFORE UPDATE ON vendor_enforcement_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- 3. Enforcement log
+-- An action is in force while lifted_at IS NULL AND ends_at > now().
+CREATE TABLE IF NOT EXISTS vendor_enforcement_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES vendor_enforcement_rules(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('warning', 'demotion', 'suspension')),
+  metric TEXT NOT NULL,
+  metric_value NUMERIC(10,4),
+  threshold NUMERIC(8,2),
+  score NUMERIC(5,2),
+  search_penalty NUMERIC(4,2) NOT NULL DEFAULT 0,
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ NOT NULL,
+  lifted_at TIMESTAMPTZ,
+  lifted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  lift_reason TEXT,
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_enforcement_actions_vendor ON vendor_enforcement_actions(vendor_id, ends_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vendor_enforcement_actions_unnotified ON vendor_enforcement_actions(created_at)
+  WHERE notified_at IS NULL;
+
+ALTER TABLE vendor_enforcement_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view their own enforcement actions"
+ON vendor_enforcement_actions FOR SELECT
+USING (auth.uid() = vendor_id);
+
+CREATE POLICY "Admins can view all enforcement actions"
+ON vendor_enforcement_actions FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+-- 4. Listings
+-- 'suspended' is only ever set by sync_vendor_standing(); suspended_from keeps the status
+-- to restore. Like is_featured, the badge and search penalty are copied onto products so
+-- the shop can read them without joining scorecards.
+ALTER TYPE product_status ADD VALUE IF NOT EXISTS 'suspended';
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS seller_badge TEXT CHECK (seller_badge IN ('top_seller', 'reliable')),
+  ADD COLUMN IF NOT EXISTS search_penalty NUMERIC(4,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS suspended_from product_status;
+
+COMMENT ON COLUMN products.seller_badge IS 'Vendor''s seller badge (maintained by sync_vendor_standing)';
+COMMENT ON COLUMN products.search_penalty IS 'Smart-sort demotion while the vendor is demoted (maintained by sync_vendor_standing)';
+COMMENT ON COLUMN products.suspended_from IS 'Status to restore when the vendor''s suspension ends';
+
+-- Badge, penalty and suspension currently in force for a vendor
+CREATE OR REPLACE FUNCTION vendor_standing(p_vendor_id UUID)
+RETURNS TABLE (
+  seller_badge TEXT,
+  search_penalty NUMERIC,
+  demoted_until TIMESTAMPTZ,
+  suspended_until TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH in_force AS (
+    SELECT a.action, a.search_penalty, a.ends_at
+      FROM vendor_enforcement_actions a
+     WHERE a.vendor_id = p_vendor_id
+       AND a.lifted_at IS NULL
+       AND a.ends_at > now()
+       AND a.action IN ('demotion', 'suspension')
+  )
+  SELECT
+    CASE WHEN NOT EXISTS (SELECT 1 FROM in_force) THEN
+      CASE sc.tier WHEN 'excellent' THEN 'top_seller' WHEN 'good' THEN 'reliable' END
+    END,
+    COALESCE((SELECT MAX(f.search_penalty) FROM in_force f WHERE f.action = 'demotion'), 0),
+    (SELECT MAX(f.ends_at) FROM in_force f WHERE f.action = 'demotion'),
+    (SELECT MAX(f.ends_at) FROM in_force f WHERE f.action = 'suspension')
+  FROM (SELECT 1) AS one
+  LEFT JOIN vendor_scorecards sc ON sc.vendor_id = p_vendor_id;
+$$;
+
+-- Copies the vendor's standing onto their listings, suspending or restoring them
+CREATE OR REPLACE FUNCTION sync_vendor_standing(p_vendor_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_standing RECORD;
+BEGIN
+  SELECT * INTO v_standing FROM vendor_standing(p_vendor_id);
+
+  -- Lets guard_suspended_listings() through for this transaction
+  PERFORM set_config('solely.vendor_standing', 'on', true);
+
+  UPDATE products
+     SET seller_badge = v_standing.seller_badge,
+         search_penalty = v_standing.search_penalty
+   WHERE vendor_id = p_vendor_id
+     AND (seller_badge IS DISTINCT FROM v_standing.seller_badge
+          OR search_penalty IS DISTINCT FROM v_standing.search_penalty);
+
+  IF v_standing.suspended_until IS NOT NULL THEN
+    UPDATE products
+       SET suspended_from = status,
+           status = 'suspended'
+     WHERE vendor_id = p_vendor_id
+       AND status IN ('active', 'out_of_stock');
+  ELSE
+    UPDATE products
+       SET status = COALESCE(suspended_from, 'draft'),
+           suspended_from = NULL
+     WHERE vendor_id = p_vendor_id
+       AND status = 'suspended';
+  END IF;
+
+  PERFORM set_config('solely.vendor_standing', 'off', true);
+END;
+$$;
+
+-- Vendors cannot bring back or publish listings while suspended
+CREATE OR REPLACE FUNCTION guard_suspended_listings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_standing RECORD;
+  v_suspended_until TIMESTAMPTZ;
+BEGIN
+  IF current_setting('solely.vendor_standing', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_standing FROM vendor_standing(NEW.vendor_id);
+    NEW.seller_badge := v_standing.seller_badge;
+    NEW.search_penalty := v_standing.search_penalty;
+  ELSIF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status::TEXT = 'suspended' OR (TG_OP = 'UPDATE' AND OLD.status::TEXT = 'suspended') THEN
+    RAISE EXCEPTION 'LISTING_SUSPENDED: suspended listings are restored automatically when the suspension ends';
+  END IF;
+
+  IF NEW.status IN ('active', 'out_of_stock') THEN
+    SELECT s.suspended_until INTO v_suspended_until FROM vendor_standing(NEW.vendor_id) s;
+    IF v_suspended_until IS NOT NULL THEN
+      RAISE EXCEPTION 'LISTING_SUSPENDED: your listings are suspended until %',
+        to_char(v_suspended_until AT TIME ZONE 'Africa/Nairobi', 'DD Mon YYYY');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_suspended_listings ON products;
+CREATE TRIGGER guard_suspended_listings
+BEFORE INSERT OR UPDATE OF status ON products
+FOR EACH ROW
+EXECUTE FUNCTION guard_suspended_listings();
+
+-- A listing coming back from suspension keeps its publish date, so it isn't re-announced
+-- to saved searches as new
+CREATE OR REPLACE FUNCTION set_product_published_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'active'
+     AND (TG_OP = 'INSERT' OR (OLD.status IS DISTINCT FROM 'active' AND OLD.status::TEXT <> 'suspended')) THEN
+    NEW.published_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Nightly scoring and enforcement
+CREATE OR REPLACE FUNCTION refresh_vendor_scorecards(p_window_days INTEGER DEFAULT 90)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since TIMESTAMPTZ := now() - p_window_days * INTERVAL '1 day';
+  v_vendor_id UUID;
+  v_count INTEGER;
+BEGIN
+  INSERT INTO vendor_scorecards AS sc (
+    vendor_id, window_days,
+    orders_received, orders_accepted, orders_declined, auto_cancelled, acceptance_rate, avg_response_hours,
+    deliveries_due, deliveries_on_time, on_time_rate,
+    disputes_opened, disputes_lost, disputes_partial, disputes_won, dispute_rate,
+    average_rating, rating_count, score, tier, computed_at
+  )
+  WITH vendors AS (
+    SELECT DISTINCT ur.user_id AS vendor_id FROM user_roles ur WHERE ur.role = 'vendor'
+  ),
+  -- Orders the vendor turned down or let lapse before accepting
+  cancellations AS (
+    SELECT e.order_id, bool_or(e.actor_role = 'system') AS automatic
+      FROM order_events e
+     WHERE e.to_status = 'cancelled_by_vendor'
+       AND e.created_at >= v_since
+     GROUP BY e.order_id
+  ),
+  order_stats AS (
+    SELECT
+      o.vendor_id,
+      COUNT(*) FILTER (WHERE o.accepted_at IS NOT NULL) AS accepted,
+      COUNT(*) FILTER (WHERE o.accepted_at IS NULL AND c.order_id IS NOT NULL AND NOT c.automatic) AS declined,
+      COUNT(*) FILTER (WHERE o.accepted_at IS NULL AND c.automatic) AS auto_cancelled,
+      AVG(EXTRACT(EPOCH FROM (o.accepted_at - o.created_at)) / 3600) FILTER (WHERE o.accepted_at IS NOT NULL) AS response_hours,
+      COUNT(*) FILTER (
+        WHERE o.accepted_at IS NOT NULL AND o.delivery_deadline_at IS NOT NULL
+          AND (o.delivered_at IS NOT NULL OR o.delivery_deadline_at <= now())
+      ) AS deliveries_due,
+      COUNT(*) FILTER (
+        WHERE o.accepted_at IS NOT NULL AND o.delivered_at <= o.delivery_deadline_at
+      ) AS deliveries_on_time
+    FROM orders o
+    LEFT JOIN cancellations c ON c.order_id = o.id
+    WHERE o.created_at >= v_since
+    GROUP BY o.vendor_id
+  ),
+  dispute_stats AS (
+    SELECT
+      d.vendor_id,
+      COUNT(*) AS opened,
+      COUNT(*) FILTER (WHERE d.status = 'resolved_refund') AS lost,
+      COUNT(*) FILTER (WHERE d.status = 'resolved_partial_refund') AS partial,
+      COUNT(*) FILTER (WHERE d.status = 'resolved_release') AS won
+    FROM disputes d
+    WHERE d.opened_at >= v_since
+    GROUP BY d.vendor_id
+  ),
+  rating_stats AS (
+    SELECT vr.vendor_id, AVG(vr.rating) AS average, COUNT(*) AS count
+      FROM vendor_ratings vr
+     GROUP BY vr.vendor_id
+  ),
+  metrics AS (
+    SELECT
+      v.vendor_id,
+      COALESCE(os.accepted + os.declined + os.auto_cancelled, 0) AS received,
+      COALESCE(os.accepted, 0) AS accepted,
+      COALESCE(os.declined, 0) AS declined,
+      COALESCE(os.auto_cancelled, 0) AS auto_cancelled,
+      os.accepted::NUMERIC / NULLIF(os.accepted + os.declined + os.auto_cancelled, 0) AS acceptance_rate,
+      os.response_hours,
+      COALESCE(os.deliveries_due, 0) AS deliveries_due,
+      COALESCE(os.deliveries_on_time, 0) AS deliveries_on_time,
+      os.deliveries_on_time::NUMERIC / NULLIF(os.deliveries_due, 0) AS on_time_rate,
+      COALESCE(ds.opened, 0) AS disputes_opened,
+      COALESCE(ds.lost, 0) AS disputes_lost,
+      COALESCE(ds.partial, 0) AS disputes_partial,
+      COALESCE(ds.won, 0) AS disputes_won,
+      LEAST(ds.opened::NUMERIC / NULLIF(os.accepted, 0), 1) AS dispute_rate,
+      rs.average AS average_rating,
+      COALESCE(rs.count, 0) AS rating_count,
+      -- Bayesian average: a couple of ratings can't sink (or make) a vendor
+      (COALESCE(rs.average * rs.count, 0) + 4 * 2) / (COALESCE(rs.count, 0) + 2) AS weighted_rating
+    FROM vendors v
+    LEFT JOIN order_stats os ON os.vendor_id = v.vendor_id
+    LEFT JOIN dispute_stats ds ON ds.vendor_id = v.vendor_id
+    LEFT JOIN rating_stats rs ON rs.vendor_id = v.vendor_id
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      ROUND((
+        25 * COALESCE(m.acceptance_rate, 1)
+        + 25 * COALESCE(m.on_time_rate, 1)
+        + 20 * (1 - LEAST(COALESCE(m.dispute_rate, 0) * 5, 1))   -- one dispute in five orders scores nothing
+        + 20 * (m.weighted_rating - 1) / 4
+        + 10 * GREATEST(1 - COALESCE(m.response_hours, 0) / 48, 0)
+      )::NUMERIC, 2) AS score
+    FROM metrics m
+  )
+  SELECT
+    s.vendor_id, p_window_days,
+    s.received, s.accepted, s.declined, s.auto_cancelled, s.acceptance_rate, s.response_hours,
+    s.deliveries_due, s.deliveries_on_time, s.on_time_rate,
+    s.disputes_opened, s.disputes_lost, s.disputes_partial, s.disputes_won, s.dispute_rate,
+    s.average_rating, s.rating_count, s.score,
+    CASE
+      WHEN s.received < 5 THEN 'new'
+      WHEN s.score >= 90 THEN 'excellent'
+      WHEN s.score >= 75 THEN 'good'
+      WHEN s.score >= 60 THEN 'fair'
+      ELSE 'poor'
+    END,
+    now()
+  FROM scored s
+  ON CONFLICT (vendor_id) DO UPDATE SET
+    window_days = EXCLUDED.window_days,
+    orders_received = EXCLUDED.orders_received,
+    orders_accepted = EXCLUDED.orders_accepted,
+    orders_declined = EXCLUDED.orders_declined,
+    auto_cancelled = EXCLUDED.auto_cancelled,
+    acceptance_rate = EXCLUDED.acceptance_rate,
+    avg_response_hours = EXCLUDED.avg_response_hours,
+    deliveries_due = EXCLUDED.deliveries_due,
+    deliveries_on_time = EXCLUDED.deliveries_on_time,
+    on_time_rate = EXCLUDED.on_time_rate,
+    disputes_opened = EXCLUDED.disputes_opened,
+    disputes_lost = EXCLUDED.disputes_lost,
+    disputes_partial = EXCLUDED.disputes_partial,
+    disputes_won = EXCLUDED.disputes_won,
+    dispute_rate = EXCLUDED.dispute_rate,
+    average_rating = EXCLUDED.average_rating,
+    rating_count = EXCLUDED.rating_count,
+    score = EXCLUDED.score,
+    tier = EXCLUDED.tier,
+    computed_at = EXCLUDED.computed_at;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Apply the rules; a rule waits until its last action for the vendor has run out,
+  -- even if an admin lifted it early
+  INSERT INTO vendor_enforcement_actions (
+    vendor_id, rule_id, action, metric, metric_value, threshold, score, search_penalty, ends_at
+  )
+  SELECT sc.vendor_id, r.id, r.action, r.metric, m.value, r.threshold, sc.score,
+         CASE WHEN r.action = 'demotion' THEN r.search_penalty ELSE 0 END,
+         now() + r.duration_days * INTERVAL '1 day'
+    FROM vendor_enforcement_rules r
+    JOIN vendor_scorecards sc ON sc.orders_received >= r.min_orders
+    CROSS JOIN LATERAL (
+      SELECT CASE r.metric
+        WHEN 'score' THEN sc.score
+        WHEN 'acceptance_rate' THEN sc.acceptance_rate
+        WHEN 'on_time_rate' THEN sc.on_time_rate
+        WHEN 'dispute_rate' THEN sc.dispute_rate
+        WHEN 'auto_cancelled' THEN sc.auto_cancelled
+        WHEN 'average_rating' THEN sc.average_rating
+        WHEN 'avg_response_hours' THEN sc.avg_response_hours
+      END AS value
+    ) m
+   WHERE r.is_active
+     AND m.value IS NOT NULL
+     AND CASE WHEN r.metric IN ('dispute_rate', 'auto_cancelled', 'avg_response_hours')
+              THEN m.value > r.threshold
+              ELSE m.value < r.threshold
+         END
+     AND NOT EXISTS (
+       SELECT 1 FROM vendor_enforcement_actions a
+        WHERE a.vendor_id = sc.vendor_id
+          AND a.rule_id = r.id
+          AND a.ends_at > now()
+     );
+
+  -- Includes vendors whose demotion or suspension ran out today
+  FOR v_vendor_id IN
+    SELECT vendor_id FROM vendor_scorecards
+    UNION
+    SELECT DISTINCT vendor_id FROM products WHERE status = 'suspended' OR search_penalty > 0
+  LOOP
+    PERFORM sync_vendor_standing(v_vendor_id);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Marks new actions as notified and returns them for vendor-scorecards to send
+CREATE OR REPLACE FUNCTION claim_vendor_enforcement_notices()
+RETURNS TABLE (
+  action_id UUID,
+  vendor_id UUID,
+  action TEXT,
+  metric TEXT,
+  metric_value NUMERIC,
+  threshold NUMERIC,
+  score NUMERIC,
+  ends_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT a.id
+      FROM vendor_enforcement_actions a
+     WHERE a.notified_at IS NULL
+       AND a.lifted_at IS NULL
+     FOR UPDATE OF a SKIP LOCKED
+  )
+  UPDATE vendor_enforcement_actions a
+     SET notified_at = now()
+    FROM due
+   WHERE a.id = due.id
+  RETURNING a.id, a.vendor_id, a.action, a.metric, a.metric_value, a.threshold, a.score, a.ends_at;
+END;
+$$;
+
+-- 6. Admin override
+CREATE OR REPLACE FUNCTION lift_vendor_enforcement(p_action_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS vendor_enforcement_actions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action vendor_enforcement_actions;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED: only admins can lift enforcement actions';
+  END IF;
+
+  UPDATE vendor_enforcement_actions
+     SET lifted_at = now(),
+         lifted_by = auth.uid(),
+         lift_reason = NULLIF(trim(p_reason), '')
+   WHERE id = p_action_id
+     AND lifted_at IS NULL
+     AND ends_at > now()
+  RETURNING * INTO v_action;
+
+  IF v_action.id IS NULL THEN
+    RAISE EXCEPTION 'NOT_IN_FORCE: this action has already ended or been lifted';
+  END IF;
+
+  PERFORM sync_vendor_standing(v_action.vendor_id);
+
+  IF v_action.action <> 'warning' THEN
+    INSERT INTO notifications (user_id, title, message, type, related_id)
+    VALUES (
+      v_action.vendor_id,
+      CASE v_action.action WHEN 'suspension' THEN 'Listings restored' ELSE 'Search placement restored' END,
+      CASE v_action.action
+        WHEN 'suspension' THEN 'Our team has lifted the suspension on your listings. They are live again.'
+        ELSE 'Our team has lifted the demotion on your listings. They are back to normal placement in the shop.'
+      END,
+      'vendor_performance',
+      v_action.id
+    );
+  END IF;
+
+  RETURN v_action;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION vendor_standing(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION sync_vendor_standing(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_vendor_scorecards(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_vendor_scorecards(INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION claim_vendor_enforcement_notices() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_vendor_enforcement_notices() TO service_role;
+REVOKE ALL ON FUNCTION lift_vendor_enforcement(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION lift_vendor_enforcement(UUID, TEXT) TO authenticated;
+
+-- 7. Search demotion
+-- Same as 20261031 plus seller_badge in the results. Demoted listings lose featured
+-- placement and their search_penalty comes off the smart-sort score.
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT DEFAULT NULL,
+  p_brand TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_size TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_accessory_type TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'smart',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_as_of TIMESTAMPTZ DEFAULT NULL,
+  p_recent_terms TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+DECLARE
+  v_terms TEXT[] := product_search_terms(p_query);
+  v_query TEXT := array_to_string(v_terms, ' ');
+  v_tsquery tsquery;
+  v_as_of TIMESTAMPTZ := COALESCE(p_as_of, NOW());
+  -- Ties break the same way for the same shopper all day
+  v_seed TEXT := COALESCE(auth.uid()::TEXT, 'guest') || (COALESCE(p_as_of, NOW()))::DATE::TEXT;
+  v_result JSONB;
+BEGIN
+  IF array_length(v_terms, 1) > 0 THEN
+    SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+      INTO v_tsquery
+      FROM unnest(v_terms) AS term;
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.brand,
+      p.category,
+      p.condition,
+      p.price_ksh,
+      p.images,
+      p.video_url,
+      p.description,
+      p.is_featured AND p.search_penalty = 0 AS is_featured,
+      p.seller_badge,
+      p.created_at,
+      p.accessory_type,
+      -- Sizes actually in stock when the product has variants, otherwise the listed sizes
+      CASE WHEN v.variant_count > 0 THEN COALESCE(v.sizes, '{}') ELSE COALESCE(p.sizes, '{}') END AS sizes,
+      CASE WHEN v_tsquery IS NULL THEN 0
+           ELSE ts_rank(p.search_vector, v_tsquery) + word_similarity(v_query, p.search_text)
+      END AS rank,
+      COALESCE(s.score, 0) - p.search_penalty AS score
+    FROM products p
+    LEFT JOIN product_ranking_scores(v_as_of, p_recent_terms) s ON s.product_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) AS variant_count,
+        array_agg(DISTINCT pv.size) FILTER (WHERE pv.stock > 0 AND pv.size <> '') AS sizes
+      FROM product_variants pv
+      WHERE pv.product_id = p.id
+    ) v ON true
+    WHERE p.status = 'active'
+      AND (v_tsquery IS NULL OR product_matches_terms(v_terms, p.search_vector, p.search_text))
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (p_brand IS NULL OR lower(m.brand) = lower(p_brand)) AS f_brand,
+      (p_category IS NULL OR lower(m.category) = lower(p_category)) AS f_category,
+      (p_size IS NULL OR p_size = ANY(m.sizes)) AS f_size,
+      (p_condition IS NULL OR m.condition = p_condition) AS f_condition,
+      (m.price_ksh >= COALESCE(p_min_price, 0) AND (p_max_price IS NULL OR m.price_ksh <= p_max_price)) AS f_price,
+      (p_accessory_type IS NULL OR m.accessory_type = p_accessory_type) AS f_accessory
+    FROM matched m
+  ),
+  hits AS (
+    SELECT * FROM flagged
+    WHERE f_brand AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+  ),
+  ranked AS (
+    SELECT h.*, row_number() OVER (ORDER BY
+      CASE WHEN p_sort = 'smart' THEN h.is_featured END DESC NULLS LAST,
+      CASE WHEN p_sort = 'price_low' THEN h.price_ksh END ASC,
+      CASE WHEN p_sort = 'price_high' THEN h.price_ksh END DESC,
+      CASE WHEN p_sort = 'newest' THEN h.created_at END DESC,
+      CASE WHEN p_sort = 'smart' THEN h.rank * 5 + h.score END DESC,
+      h.rank DESC,
+      md5(h.id::text || v_seed),
+      h.created_at DESC,
+      h.id
+    ) AS position
+    FROM hits h
+  ),
+  page AS (
+    SELECT * FROM ranked
+    ORDER BY position
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  ),
+  page_rows AS (
+    SELECT
+      page.*,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count
+    FROM page
+    LEFT JOIN LATERAL (
+      SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*) AS review_count
+      FROM reviews rv
+      WHERE rv.product_id = page.id
+    ) r ON true
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM hits),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', id,
+        'name', name,
+        'brand', brand,
+        'category', category,
+        'condition', condition,
+        'price_ksh', price_ksh,
+        'images', images,
+        'video_url', video_url,
+        'description', description,
+        'is_featured', is_featured,
+        'seller_badge', seller_badge,
+        'created_at', created_at,
+        'sizes', sizes,
+        'average_rating', average_rating,
+        'review_count', review_count
+      ) ORDER BY position)
+      FROM page_rows
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'brand', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'label', label, 'count', count) ORDER BY count DESC, label)
+        FROM (
+          SELECT lower(brand) AS value, MIN(brand) AS label, COUNT(*) AS count
+          FROM flagged
+          WHERE brand IS NOT NULL AND brand <> ''
+            AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(brand)
+        ) b
+      ), '[]'::jsonb),
+      'category', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+        FROM (
+          SELECT lower(category) AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE category IS NOT NULL
+            AND f_brand AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(category)
+        ) c
+      ), '[]'::jsonb),
+      'size', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count)
+          ORDER BY CASE WHEN value ~ '^\d+(\.\d+)?$' THEN value::NUMERIC END NULLS LAST, value)
+        FROM (
+          SELECT size AS value, COUNT(DISTINCT id) AS count
+          FROM flagged, unnest(sizes) AS size
+          WHERE f_brand AND f_category AND f_condition AND f_price AND f_accessory
+          GROUP BY size
+        ) s
+      ), '[]'::jsonb),
+      'condition', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC)
+        FROM (
+          SELECT condition AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE condition IS NOT NULL
+            AND f_brand AND f_category AND f_size AND f_price AND f_accessory
+          GROUP BY condition
+        ) c
+      ), '[]'::jsonb),
+      'price', (
+        SELECT jsonb_agg(jsonb_build_object('min', bucket.min, 'max', bucket.max, 'count', (
+          SELECT COUNT(*)
+          FROM flagged
+          WHERE f_brand AND f_category AND f_size AND f_condition AND f_accessory
+            AND price_ksh >= bucket.min
+            AND (bucket.max IS NULL OR price_ksh < bucket.max)
+        )) ORDER BY bucket.min)
+        FROM (VALUES (0, 2000), (2000, 5000), (5000, 10000), (10000, 20000), (20000, NULL::INTEGER)) AS bucket(min, max)
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- 8. Schedule: after the 02:30 recommendations refresh
+SELECT cron.schedule(
+    'vendor-scorecards',
+    '0 3 * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://cqcklvdblhcdowisjnsf.supabase.co/functions/v1/vendor-scorecards',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+COMMENT ON TABLE vendor_scorecards IS 'Nightly vendor performance metrics and score over the last window_days (refresh_vendor_scorecards)';
+COMMENT ON TABLE vendor_enforcement_rules IS 'Admin-configured thresholds that warn, demote or suspend vendors';
+COMMENT ON TABLE vendor_enforcement_actions IS 'Warnings, demotions and suspensions applied to vendors, and their lifting';
+COMMENT ON FUNCTION vendor_standing(UUID) IS 'Seller badge, search penalty and suspension currently in force for a vendor';
+COMMENT ON FUNCTION sync_vendor_standing(UUID) IS 'Copies a vendor''s standing onto their listings, suspending or restoring them';
+COMMENT ON FUNCTION refresh_vendor_scorecards(INTEGER) IS 'Recomputes every vendor''s scorecard, applies enforcement rules and syncs listings (service role only)';
+COMMENT ON FUNCTION claim_vendor_enforcement_notices() IS 'Marks new enforcement actions as notified and returns them for delivery (service role only)';
+COMMENT ON FUNCTION lift_vendor_enforcement(UUID, TEXT) IS 'Admin early end of a warning, demotion or suspension';
@@ -0,0 +1,423 @@
+-- Vendor storefronts
+-- Every vendor gets a public shop page at /store/<slug> they can share on Instagram or
+-- WhatsApp: banner, logo, bio, location, vendor rating, policies and their live listings
+-- (searched with search_products, filtered to the vendor).
+-- The slug defaults to the store name (numbered when taken) and vendors can pick their
+-- own; renaming the store keeps the old slug so shared links keep working.
+-- get_storefront() resolves a slug for the SPA and the Cloudflare function in
+-- functions/store (meta tags, JSON-LD, OG image from generate-og-image?store=<slug>);
+-- list_storefronts() feeds the sitemap.
+
+-- 1. Store profile
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS store_slug TEXT,
+  ADD COLUMN IF NOT EXISTS store_banner_url TEXT,
+  ADD COLUMN IF NOT EXISTS store_return_policy TEXT CHECK (length(store_return_policy) <= 2000),
+  ADD COLUMN IF NOT EXISTS store_shipping_policy TEXT CHECK (length(store_shipping_policy) <= 2000);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_store_slug ON profiles(store_slug);
+
+-- Normalises a chosen slug, or derives one from the store name when none is set
+CREATE OR REPLACE FUNCTION set_store_slug()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_base TEXT;
+  v_slug TEXT;
+  v_suffix INT := 1;
+BEGIN
+  IF NULLIF(trim(NEW.store_slug), '') IS NOT NULL THEN
+    NEW.store_slug := catalog_slug(NEW.store_slug);
+    IF length(NEW.store_slug) NOT BETWEEN 3 AND 40 THEN
+      RAISE EXCEPTION 'INVALID_STORE_SLUG: your store link must be 3 to 40 letters, numbers or dashes';
+    END IF;
+    IF EXISTS (SELECT 1 FROM profiles WHERE store_slug = NEW.store_slug AND id <> NEW.id) THEN
+      RAISE EXCEPTION 'STORE_SLUG_TAKEN: the store link "%" is already taken', NEW.store_slug;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.store_slug := NULL;
+  v_base := left(catalog_slug(COALESCE(NEW.store_name, '')), 36);
+  IF v_base = '' THEN
+    RETURN NEW;
+  END IF;
+  IF length(v_base) < 3 THEN
+    v_base := v_base || '-store';
+  END IF;
+
+  v_slug := v_base;
+  WHILE EXISTS (SELECT 1 FROM profiles WHERE store_slug = v_slug AND id <> NEW.id) LOOP
+    v_suffix := v_suffix + 1;
+    v_slug := v_base || '-' || v_suffix;
+  END LOOP;
+  NEW.store_slug := v_slug;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_store_slug ON profiles;
+CREATE TRIGGER set_store_slug
+BEFORE INSERT OR UPDATE OF store_slug, store_name ON profiles
+FOR EACH ROW
+EXECUTE FUNCTION set_store_slug();
+
+-- Existing stores get a slug from their name
+UPDATE profiles
+   SET store_slug = NULL
+ WHERE store_slug IS NULL
+   AND NULLIF(trim(store_name), '') IS NOT NULL;
+
+-- 2. Banner and logo uploads
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('store-media', 'store-media', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+CREATE POLICY "Vendors can upload store media"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'store-media'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Public read access for store media"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'store-media');
+
+-- 3. Storefront
+-- NULL when no vendor has the slug. products is the newest listings, for crawlers; the
+-- page itself lists them through search_products(p_vendor_id).
+CREATE OR REPLACE FUNCTION get_storefront(p_slug TEXT, p_limit INT DEFAULT 12)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_store_name TEXT;
+  v_city TEXT;
+  v_county TEXT;
+  v_location TEXT;
+  v_average NUMERIC(3, 2);
+  v_rating_count INT;
+  v_badge TEXT;
+  v_listings INT;
+  v_min_price INT;
+  v_lastmod TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_profile
+    FROM profiles
+   WHERE store_slug = lower(trim(p_slug));
+
+  IF NOT FOUND OR NOT has_role(v_profile.id, 'vendor') THEN
+    RETURN NULL;
+  END IF;
+
+  v_store_name := COALESCE(NULLIF(trim(v_profile.store_name), ''), 'Solely seller');
+  v_city := NULLIF(initcap(trim(v_profile.vendor_city)), '');
+  v_county := landing_county_name(v_profile.vendor_county);
+  v_location := CASE
+    WHEN v_city IS NOT NULL AND v_county IS NOT NULL AND v_city <> v_county THEN v_city || ', ' || v_county
+    ELSE COALESCE(v_city, v_county)
+  END;
+
+  SELECT AVG(r.rating)::NUMERIC(3, 2), COUNT(*)
+    INTO v_average, v_rating_count
+    FROM vendor_ratings r
+   WHERE r.vendor_id = v_profile.id;
+
+  SELECT s.seller_badge INTO v_badge FROM vendor_standing(v_profile.id) s;
+
+  SELECT COUNT(*), MIN(p.price_ksh), MAX(p.updated_at)
+    INTO v_listings, v_min_price, v_lastmod
+    FROM products p
+   WHERE p.vendor_id = v_profile.id
+     AND p.status = 'active';
+
+  RETURN jsonb_build_object(
+    'vendor_id', v_profile.id,
+    'slug', v_profile.store_slug,
+    'path', '/store/' || v_profile.store_slug,
+    'store_name', v_store_name,
+    'description', NULLIF(trim(v_profile.store_description), ''),
+    'logo_url', v_profile.store_logo_url,
+    'banner_url', v_profile.store_banner_url,
+    'city', v_city,
+    'county', v_county,
+    'county_slug', catalog_slug(v_county),
+    'location', v_location,
+    'return_policy', NULLIF(trim(v_profile.store_return_policy), ''),
+    'shipping_policy', NULLIF(trim(v_profile.store_shipping_policy), ''),
+    'average_rating', v_average,
+    'rating_count', v_rating_count,
+    'seller_badge', v_badge,
+    'listings', v_listings,
+    'min_price', v_min_price,
+    'member_since', v_profile.created_at,
+    'lastmod', GREATEST(v_lastmod, v_profile.updated_at),
+    'meta_description', CASE
+      WHEN v_listings = 0 THEN
+        format('%s on Solely, Kenya''s escrow-protected shoe marketplace%s.',
+               v_store_name, COALESCE(' in ' || v_location, ''))
+      ELSE
+        format('Shop %s %s from %s%s on Solely, from KES %s. Escrow-protected payments and delivery across Kenya.',
+               v_listings, CASE WHEN v_listings = 1 THEN 'listing' ELSE 'listings' END, v_store_name,
+               COALESCE(' in ' || v_location, ''), to_char(v_min_price, 'FM999,999,999'))
+    END,
+    'products', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', p.id, 'name', p.name, 'images', p.images, 'price_ksh', p.price_ksh)
+                       ORDER BY p.created_at DESC)
+        FROM (
+          SELECT id, name, images, price_ksh, created_at
+            FROM products
+           WHERE vendor_id = v_profile.id
+             AND status = 'active'
+           ORDER BY created_at DESC
+           LIMIT LEAST(GREATEST(COALESCE(p_limit, 12), 0), 48)
+        ) p
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_storefront(TEXT, INT) TO anon, authenticated, service_role;
+
+-- Storefronts with live listings, for the sitemap
+CREATE OR REPLACE FUNCTION list_storefronts(p_min_listings INT DEFAULT 1)
+RETURNS TABLE (
+  path TEXT,
+  listings BIGINT,
+  lastmod TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT '/store/' || pr.store_slug,
+         COUNT(p.id),
+         GREATEST(MAX(p.updated_at), pr.updated_at)
+    FROM profiles pr
+    JOIN products p ON p.vendor_id = pr.id AND p.status = 'active'
+   WHERE pr.store_slug IS NOT NULL
+     AND has_role(pr.id, 'vendor')
+   GROUP BY pr.id
+  HAVING COUNT(p.id) >= GREATEST(p_min_listings, 1)
+   ORDER BY 2 DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_storefronts(INT) TO anon, authenticated, service_role;
+
+-- 4. Search within a store
+-- Same as 20261111 plus p_vendor_id, so a storefront gets the shop's filters and facets.
+DROP FUNCTION IF EXISTS search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TEXT[]);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT DEFAULT NULL,
+  p_brand TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_size TEXT DEFAULT NULL,
+  p_condition TEXT DEFAULT NULL,
+  p_accessory_type TEXT DEFAULT NULL,
+  p_min_price INTEGER DEFAULT NULL,
+  p_max_price INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'smart',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_as_of TIMESTAMPTZ DEFAULT NULL,
+  p_recent_terms TEXT[] DEFAULT NULL,
+  p_vendor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions -- pg_trgm lives in extensions on Supabase
+AS $$
+DECLARE
+  v_terms TEXT[] := product_search_terms(p_query);
+  v_query TEXT := array_to_string(v_terms, ' ');
+  v_tsquery tsquery;
+  v_as_of TIMESTAMPTZ := COALESCE(p_as_of, NOW());
+  -- Ties break the same way for the same shopper all day
+  v_seed TEXT := COALESCE(auth.uid()::TEXT, 'guest') || (COALESCE(p_as_of, NOW()))::DATE::TEXT;
+  v_result JSONB;
+BEGIN
+  IF array_length(v_terms, 1) > 0 THEN
+    SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+      INTO v_tsquery
+      FROM unnest(v_terms) AS term;
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.brand,
+      p.category,
+      p.condition,
+      p.price_ksh,
+      p.images,
+      p.video_url,
+      p.description,
+      p.is_featured AND p.search_penalty = 0 AS is_featured,
+      p.seller_badge,
+      p.created_at,
+      p.accessory_type,
+      -- Sizes actually in stock when the product has variants, otherwise the listed sizes
+      CASE WHEN v.variant_count > 0 THEN COALESCE(v.sizes, '{}') ELSE COALESCE(p.sizes, '{}') END AS sizes,
+      CASE WHEN v_tsquery IS NULL THEN 0
+           ELSE ts_rank(p.search_vector, v_tsquery) + word_similarity(v_query, p.search_text)
+      END AS rank,
+      COALESCE(s.score, 0) - p.search_penalty AS score
+    FROM products p
+    LEFT JOIN product_ranking_scores(v_as_of, p_recent_terms) s ON s.product_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) AS variant_count,
+        array_agg(DISTINCT pv.size) FILTER (WHERE pv.stock > 0 AND pv.size <> '') AS sizes
+      FROM product_variants pv
+      WHERE pv.product_id = p.id
+    ) v ON true
+    WHERE p.status = 'active'
+      AND (p_vendor_id IS NULL OR p.vendor_id = p_vendor_id)
+      AND (v_tsquery IS NULL OR product_matches_terms(v_terms, p.search_vector, p.search_text))
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (p_brand IS NULL OR lower(m.brand) = lower(p_brand)) AS f_brand,
+      (p_category IS NULL OR lower(m.category) = lower(p_category)) AS f_category,
+      (p_size IS NULL OR p_size = ANY(m.sizes)) AS f_size,
+      (p_condition IS NULL OR m.condition = p_condition) AS f_condition,
+      (m.price_ksh >= COALESCE(p_min_price, 0) AND (p_max_price IS NULL OR m.price_ksh <= p_max_price)) AS f_price,
+      (p_accessory_type IS NULL OR m.accessory_type = p_accessory_type) AS f_accessory
+    FROM matched m
+  ),
+  hits AS (
+    SELECT * FROM flagged
+    WHERE f_brand AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+  ),
+  ranked AS (
+    SELECT h.*, row_number() OVER (ORDER BY
+      CASE WHEN p_sort = 'smart' THEN h.is_featured END DESC NULLS LAST,
+      CASE WHEN p_sort = 'price_low' THEN h.price_ksh END ASC,
+      CASE WHEN p_sort = 'price_high' THEN h.price_ksh END DESC,
+      CASE WHEN p_sort = 'newest' THEN h.created_at END DESC,
+      CASE WHEN p_sort = 'smart' THEN h.rank * 5 + h.score END DESC,
+      h.rank DESC,
+      md5(h.id::text || v_seed),
+      h.created_at DESC,
+      h.id
+    ) AS position
+    FROM hits h
+  ),
+  page AS (
+    SELECT * FROM ranked
+    ORDER BY position
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  ),
+  page_rows AS (
+    SELECT
+      page.*,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count
+    FROM page
+    LEFT JOIN LATERAL (
+      SELECT AVG(rv.rating)::NUMERIC(3, 2) AS average_rating, COUNT(*) AS review_count
+      FROM reviews rv
+      WHERE rv.product_id = page.id
+    ) r ON true
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM hits),
+    'results', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', id,
+        'name', name,
+        'brand', brand,
+        'category', category,
+        'condition', condition,
+        'price_ksh', price_ksh,
+        'images', images,
+        'video_url', video_url,
+        'description', description,
+        'is_featured', is_featured,
+        'seller_badge', seller_badge,
+        'created_at', created_at,
+        'sizes', sizes,
+        'average_rating', average_rating,
+        'review_count', review_count
+      ) ORDER BY position)
+      FROM page_rows
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'brand', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'label', label, 'count', count) ORDER BY count DESC, label)
+        FROM (
+          SELECT lower(brand) AS value, MIN(brand) AS label, COUNT(*) AS count
+          FROM flagged
+          WHERE brand IS NOT NULL AND brand <> ''
+            AND f_category AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(brand)
+        ) b
+      ), '[]'::jsonb),
+      'category', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value)
+        FROM (
+          SELECT lower(category) AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE category IS NOT NULL
+            AND f_brand AND f_size AND f_condition AND f_price AND f_accessory
+          GROUP BY lower(category)
+        ) c
+      ), '[]'::jsonb),
+      'size', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count)
+          ORDER BY CASE WHEN value ~ '^\d+(\.\d+)?$' THEN value::NUMERIC END NULLS LAST, value)
+        FROM (
+          SELECT size AS value, COUNT(DISTINCT id) AS count
+          FROM flagged, unnest(sizes) AS size
+          WHERE f_brand AND f_category AND f_condition AND f_price AND f_accessory
+          GROUP BY size
+        ) s
+      ), '[]'::jsonb),
+      'condition', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC)
+        FROM (
+          SELECT condition AS value, COUNT(*) AS count
+          FROM flagged
+          WHERE condition IS NOT NULL
+            AND f_brand AND f_category AND f_size AND f_price AND f_accessory
+          GROUP BY condition
+        ) c
+      ), '[]'::jsonb),
+      'price', (
+        SELECT jsonb_agg(jsonb_build_object('min', bucket.min, 'max', bucket.max, 'count', (
+          SELECT COUNT(*)
+          FROM flagged
+          WHERE f_brand AND f_category AND f_size AND f_condition AND f_accessory
+            AND price_ksh >= bucket.min
+            AND (bucket.max IS NULL OR price_ksh < bucket.max)
+        )) ORDER BY bucket.min)
+        FROM (VALUES (0, 2000), (2000, 5000), (5000, 10000), (10000, 20000), (20000, NULL::INTEGER)) AS bucket(min, max)
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+
+GRANT EXECUTE ON FUNCTION search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TEXT[], UUID) TO anon, authenticated;
+
+COMMENT ON COLUMN profiles.store_slug IS 'Storefront URL slug (/store/<slug>); defaults to the store name';
+COMMENT ON FUNCTION get_storefront(TEXT, INT) IS 'Resolves a /store/<slug> page: store profile, location, rating, badge and newest listings; NULL when unknown';
+COMMENT ON FUNCTION list_storefronts(INT) IS 'Storefronts with live listings, for the sitemap';
+COMMENT ON FUNCTION search_products(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TEXT[], UUID) IS
+  'Shop search: full-text + trigram match over active products (optionally one vendor''s), personalised smart sort, one page of results and facet counts';